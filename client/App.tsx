@@ -98,8 +98,13 @@ const AdminDisputeManager = lazy(() => import("./pages/admin/AdminDisputeManager
 const AdminCreateDispute = lazy(() => import("./pages/admin/CreateDispute"));
 const AdminDisputeDetail = lazy(() => import("./pages/admin/AdminDisputeDetail"));
 const AdminWithdrawalManager = lazy(() => import("./pages/admin/AdminWithdrawalManager"));
+const PayoutBatches = lazy(() => import("./pages/admin/PayoutBatches"));
 const FinancialTransactions = lazy(() => import("./pages/admin/FinancialTransactions"));
 const AuditLogs = lazy(() => import("./pages/admin/AuditLogs"));
+const WebhookEvents = lazy(() => import("./pages/admin/WebhookEvents"));
+const ScheduledJobs = lazy(() => import("./pages/admin/ScheduledJobs"));
+const CommissionRules = lazy(() => import("./pages/admin/CommissionRules"));
+const NotificationTemplates = lazy(() => import("./pages/admin/NotificationTemplates"));
 const PendingPayments = lazy(() => import("./pages/admin/PendingPayments"));
 const AdminJobManager = lazy(() => import("./pages/admin/JobManager"));
 const AdminBlogManager = lazy(() => import("./pages/admin/BlogManager"));
@@ -640,9 +645,14 @@ export default function App() {
               <Route path="disputes/create" element={<AdminCreateDispute />} />
               <Route path="disputes/:id" element={<AdminDisputeDetail />} />
               <Route path="withdrawals" element={<AdminWithdrawalManager />} />
+              <Route path="withdrawals/batches" element={<PayoutBatches />} />
               <Route path="pending-payments" element={<PendingPayments />} />
               <Route path="financial-transactions" element={<FinancialTransactions />} />
               <Route path="audit-logs" element={<AuditLogs />} />
+              <Route path="webhook-events" element={<WebhookEvents />} />
+              <Route path="scheduled-jobs" element={<ScheduledJobs />} />
+              <Route path="commission-rules" element={<CommissionRules />} />
+              <Route path="notification-templates" element={<NotificationTemplates />} />
               {/* Legacy/hub links without a dedicated page → redirect to where that
                   info actually lives (nothing was deleted, only relocated). */}
               <Route path="payments" element={<Navigate to="/admin/pending-payments" replace />} />
@@ -0,0 +1,318 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle, Clock, Flag, Lock, Milestone, Send, XCircle } from 'lucide-react';
+import { api } from '@/lib/api';
+
+interface ContractMilestone {
+  id: string;
+  position: number;
+  title: string;
+  description?: string | null;
+  amount: number | string;
+  dueDate: string;
+  status: 'pending' | 'funded' | 'submitted' | 'released' | 'disputed' | 'refunded' | 'cancelled';
+  deliveryId?: string | null;
+  disputeId?: string | null;
+  submittedAt?: string | null;
+  releasedAt?: string | null;
+  autoReleased?: boolean;
+}
+
+interface MilestoneSummary {
+  total: number;
+  funded: number;
+  held: number;
+  released: number;
+  refunded: number;
+  disputed: number;
+  settled: boolean;
+}
+
+interface ContractMilestonesProps {
+  contract: any;
+  isClient: boolean;
+  isDoer: boolean;
+  onChange: () => void;
+}
+
+const STATUS_STYLES: Record<ContractMilestone['status'], string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  funded: 'bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300',
+  submitted: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  released: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  disputed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  refunded: 'bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300',
+  cancelled: 'bg-gray-100 text-gray-500 dark:bg-gray-700 dark:text-gray-400',
+};
+
+const AUTO_RELEASE_DAYS = 7;
+const WORKING_STATUSES = ['accepted', 'in_progress', 'awaiting_confirmation'];
+
+const formatAmount = (value: number | string) =>
+  Number(value || 0).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+/**
+ * Hitos del escrow del contrato: el cliente paga (todo junto o de a uno) y
+ * aprueba cada entrega, el trabajador entrega hito por hito. Una entrega sin
+ * respuesta se libera sola a los 7 días; una disputa congela solo su hito.
+ */
+export default function ContractMilestones({ contract, isClient, isDoer, onChange }: ContractMilestonesProps) {
+  const { t } = useTranslation();
+  const contractId = contract.id || contract._id;
+  const [funding, setFunding] = useState<'upfront' | 'per_milestone' | null>(null);
+  const [milestones, setMilestones] = useState<ContractMilestone[]>([]);
+  const [summary, setSummary] = useState<MilestoneSummary | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [deliveryDrafts, setDeliveryDrafts] = useState<Record<string, string>>({});
+  const [rejecting, setRejecting] = useState<{ deliveryId: string; feedback: string } | null>(null);
+
+  const loadMilestones = useCallback(async () => {
+    try {
+      const response = await api.get(`/contracts/${contractId}/milestones`);
+      setFunding(response.funding || null);
+      setMilestones(response.milestones || []);
+      setSummary(response.summary || null);
+    } catch (err) {
+      console.error('Error loading milestones:', err);
+    }
+  }, [contractId]);
+
+  // Se recarga con cada actualización del contrato (socket incluido)
+  useEffect(() => {
+    loadMilestones();
+  }, [loadMilestones, contract.updatedAt]);
+
+  const run = async (key: string, action: () => Promise<void>) => {
+    setBusy(key);
+    setError(null);
+    try {
+      await action();
+      await loadMilestones();
+      onChange();
+    } catch (err: any) {
+      setError(err.message || t('contracts.milestoneError', 'No se pudo actualizar el hito'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const payMilestone = (milestoneId?: string) =>
+    run(`pay:${milestoneId || 'all'}`, async () => {
+      const response = await api.post(`/payments/contract/${contractId}`, milestoneId ? { milestoneId } : {});
+      if (response.paymentUrl) window.location.href = response.paymentUrl;
+    });
+
+  const submitDelivery = (milestone: ContractMilestone) =>
+    run(`submit:${milestone.id}`, async () => {
+      await api.post(`/contracts/${contractId}/milestones/${milestone.id}/deliveries`, {
+        description: deliveryDrafts[milestone.id] || '',
+      });
+      setDeliveryDrafts((drafts) => ({ ...drafts, [milestone.id]: '' }));
+    });
+
+  const approveDelivery = (milestone: ContractMilestone) =>
+    run(`approve:${milestone.id}`, async () => {
+      await api.post(`/contracts/${contractId}/deliveries/${milestone.deliveryId}/approve`, {});
+    });
+
+  const rejectDelivery = () => {
+    if (!rejecting) return;
+    const { deliveryId, feedback } = rejecting;
+    return run(`reject:${deliveryId}`, async () => {
+      await api.post(`/contracts/${contractId}/deliveries/${deliveryId}/reject`, { feedback });
+      setRejecting(null);
+    });
+  };
+
+  if (!funding || milestones.length === 0) return null;
+
+  const working = WORKING_STATUSES.includes(contract.status);
+  const allPending = milestones.every((milestone) => milestone.status === 'pending');
+  const autoReleaseDate = (milestone: ContractMilestone) =>
+    milestone.submittedAt ? new Date(new Date(milestone.submittedAt).getTime() + AUTO_RELEASE_DAYS * 24 * 60 * 60 * 1000) : null;
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-6 border-2 border-green-500">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <Milestone className="h-5 w-5 text-sky-600 dark:text-sky-400" />
+        {t('contracts.milestones', 'Hitos')}
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        {funding === 'upfront'
+          ? t('contracts.milestonesUpfront', 'Se paga todo al inicio y cada hito se libera al aprobar su entrega.')
+          : t('contracts.milestonesPerMilestone', 'Cada hito se paga por separado y se libera al aprobar su entrega.')}
+      </p>
+
+      {summary && (
+        <div className="grid grid-cols-3 gap-2 mb-4 text-center text-sm">
+          <div className="rounded bg-blue-50 dark:bg-blue-900/30 p-2">
+            <p className="text-gray-600 dark:text-gray-400">{t('contracts.milestonesHeld', 'En escrow')}</p>
+            <p className="font-semibold text-blue-700 dark:text-blue-300">${formatAmount(summary.held)}</p>
+          </div>
+          <div className="rounded bg-green-50 dark:bg-green-900/30 p-2">
+            <p className="text-gray-600 dark:text-gray-400">{t('contracts.milestonesReleased', 'Liberado')}</p>
+            <p className="font-semibold text-green-700 dark:text-green-300">${formatAmount(summary.released)}</p>
+          </div>
+          <div className="rounded bg-gray-50 dark:bg-gray-700/50 p-2">
+            <p className="text-gray-600 dark:text-gray-400">{t('contracts.milestonesTotal', 'Total')}</p>
+            <p className="font-semibold text-gray-900 dark:text-white">${formatAmount(summary.total)}</p>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="mb-3 rounded bg-red-50 dark:bg-red-900/30 p-2 text-sm text-red-700 dark:text-red-300">{error}</div>
+      )}
+
+      {isClient && funding === 'upfront' && allPending && (
+        <button
+          onClick={() => payMilestone()}
+          disabled={busy !== null}
+          className="w-full mb-4 rounded-lg bg-sky-600 px-4 py-2 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+        >
+          {t('contracts.payAllMilestones', 'Pagar todos los hitos')}
+        </button>
+      )}
+
+      <ol className="space-y-3">
+        {milestones.map((milestone) => {
+          const releaseDate = milestone.status === 'submitted' ? autoReleaseDate(milestone) : null;
+          return (
+            <li key={milestone.id} className="rounded-lg border dark:border-gray-700 p-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white">
+                    {milestone.position + 1}. {milestone.title}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    {t('contracts.milestoneDue', 'Vence')} {new Date(milestone.dueDate).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="text-right shrink-0">
+                  <p className="font-semibold text-gray-900 dark:text-white">${formatAmount(milestone.amount)}</p>
+                  <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${STATUS_STYLES[milestone.status]}`}>
+                    {t(`contracts.milestoneStatus.${milestone.status}`, milestone.status)}
+                  </span>
+                </div>
+              </div>
+
+              {milestone.description && (
+                <p className="mt-2 text-sm text-gray-600 dark:text-gray-300">{milestone.description}</p>
+              )}
+              {milestone.status === 'released' && milestone.autoReleased && (
+                <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+                  {t('contracts.milestoneAutoReleased', 'Liberado automáticamente tras 7 días sin respuesta')}
+                </p>
+              )}
+              {releaseDate && (
+                <p className="mt-2 text-xs text-amber-700 dark:text-amber-300">
+                  {t('contracts.milestoneAutoRelease', 'Se libera automáticamente el')} {releaseDate.toLocaleDateString()}
+                </p>
+              )}
+              {milestone.status === 'disputed' && milestone.disputeId && (
+                <Link to={`/disputes/${milestone.disputeId}`} className="mt-2 inline-flex items-center gap-1 text-xs text-red-600 dark:text-red-400 hover:underline">
+                  <Lock className="h-3 w-3" />
+                  {t('contracts.milestoneFrozen', 'Fondos congelados por disputa')}
+                </Link>
+              )}
+
+              {/* Cliente: pagar el hito (con pago por hito) */}
+              {isClient && funding === 'per_milestone' && milestone.status === 'pending' && (
+                <button
+                  onClick={() => payMilestone(milestone.id)}
+                  disabled={busy !== null}
+                  className="mt-3 rounded-lg bg-sky-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+                >
+                  {t('contracts.payMilestone', 'Pagar hito')}
+                </button>
+              )}
+
+              {/* Trabajador: entregar un hito financiado */}
+              {isDoer && working && milestone.status === 'funded' && (
+                <div className="mt-3 flex gap-2">
+                  <input
+                    value={deliveryDrafts[milestone.id] || ''}
+                    onChange={(e) => setDeliveryDrafts((drafts) => ({ ...drafts, [milestone.id]: e.target.value }))}
+                    placeholder={t('contracts.milestoneDeliveryPlaceholder', 'Qué entregás en este hito')}
+                    className="flex-1 min-w-0 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-gray-900 dark:text-white"
+                  />
+                  <button
+                    onClick={() => submitDelivery(milestone)}
+                    disabled={busy !== null}
+                    className="inline-flex items-center gap-1 rounded-lg bg-sky-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+                  >
+                    <Send className="h-4 w-4" />
+                    {t('contracts.submitMilestone', 'Entregar')}
+                  </button>
+                </div>
+              )}
+
+              {/* Cliente: aprobar o pedir cambios sobre la entrega */}
+              {isClient && working && milestone.status === 'submitted' && milestone.deliveryId && (
+                rejecting?.deliveryId === milestone.deliveryId ? (
+                  <div className="mt-3 space-y-2">
+                    <textarea
+                      value={rejecting.feedback}
+                      onChange={(e) => setRejecting({ deliveryId: rejecting.deliveryId, feedback: e.target.value })}
+                      placeholder={t('contracts.milestoneFeedbackPlaceholder', 'Qué hay que corregir')}
+                      rows={2}
+                      className="w-full rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-slate-700 px-3 py-1.5 text-sm text-gray-900 dark:text-white"
+                    />
+                    <div className="flex gap-2">
+                      <button
+                        onClick={rejectDelivery}
+                        disabled={busy !== null || !rejecting.feedback.trim()}
+                        className="rounded-lg bg-amber-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+                      >
+                        {t('contracts.requestChanges', 'Pedir cambios')}
+                      </button>
+                      <button
+                        onClick={() => setRejecting(null)}
+                        className="rounded-lg border border-gray-300 dark:border-gray-600 px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300"
+                      >
+                        {t('common.cancel', 'Cancelar')}
+                      </button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    <button
+                      onClick={() => approveDelivery(milestone)}
+                      disabled={busy !== null}
+                      className="inline-flex items-center gap-1 rounded-lg bg-green-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                    >
+                      <CheckCircle className="h-4 w-4" />
+                      {t('contracts.approveMilestone', 'Aprobar y liberar')}
+                    </button>
+                    <button
+                      onClick={() => setRejecting({ deliveryId: milestone.deliveryId!, feedback: '' })}
+                      disabled={busy !== null}
+                      className="inline-flex items-center gap-1 rounded-lg border border-amber-500 px-3 py-1.5 text-sm font-medium text-amber-700 dark:text-amber-300 disabled:opacity-50"
+                    >
+                      <XCircle className="h-4 w-4" />
+                      {t('contracts.requestChanges', 'Pedir cambios')}
+                    </button>
+                  </div>
+                )
+              )}
+
+              {/* Disputa parcial: solo congela este hito */}
+              {(isClient || isDoer) && ['funded', 'submitted'].includes(milestone.status) && (
+                <Link
+                  to={`/disputes/create?contractId=${contractId}&milestoneId=${milestone.id}`}
+                  className="mt-3 inline-flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 hover:text-red-600"
+                >
+                  <Flag className="h-3 w-3" />
+                  {t('contracts.disputeMilestone', 'Disputar este hito')}
+                </Link>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,448 @@
+import { useState } from 'react';
+import { Scale, Clock, AlertTriangle, CheckCircle, XCircle, FastForward } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetchWithAuth';
+
+type Phase = 'filing' | 'defendant_response' | 'evidence' | 'mediator_proposal' | 'final_decision' | 'closed';
+type Party = 'initiator' | 'defendant';
+type ResolutionType = 'full_release' | 'full_refund' | 'partial_refund' | 'no_action';
+
+export interface SettlementOffer {
+  id: string;
+  resolutionType: ResolutionType;
+  refundAmount: number;
+  releaseAmount: number;
+  note?: string;
+  createdAt: string;
+  expiresAt: string;
+  status: 'pending' | 'accepted' | 'rejected' | 'expired' | 'superseded';
+  acceptedBy: Partial<Record<Party, string>>;
+}
+
+export interface TimelineEvent {
+  at: string;
+  kind: 'phase_started' | 'phase_ended' | 'escalated' | 'offer_made' | 'offer_accepted' | 'offer_rejected' | 'offer_expired' | 'resolved';
+  phase?: Phase;
+  title: string;
+  detail?: string;
+  deadline?: string | null;
+}
+
+export interface DisputeWorkflow {
+  phase: Phase | null;
+  phaseLabel: string | null;
+  phaseDeadline: string | null;
+  escalated: boolean;
+  awaiting: Array<Party | 'mediator'>;
+  pendingOffer: SettlementOffer | null;
+  timeline: TimelineEvent[];
+}
+
+interface DisputeWorkflowPanelProps {
+  disputeId: string;
+  workflow: DisputeWorkflow;
+  // Parte del usuario actual; null para el mediador/admin
+  party: Party | null;
+  admin?: boolean;
+  // Monto en disputa (para calcular el reparto de un reembolso parcial)
+  amount?: number;
+  defendantResponse?: string | null;
+  onUpdated: () => void;
+}
+
+const STEPS: { phase: Phase; label: string }[] = [
+  { phase: 'filing', label: 'Reclamo' },
+  { phase: 'defendant_response', label: 'Respuesta' },
+  { phase: 'evidence', label: 'Pruebas' },
+  { phase: 'mediator_proposal', label: 'Mediación' },
+  { phase: 'final_decision', label: 'Decisión' },
+];
+
+const RESOLUTION_LABELS: Record<ResolutionType, string> = {
+  full_release: 'Liberar el pago al trabajador',
+  full_refund: 'Reembolso total al cliente',
+  partial_refund: 'Reembolso parcial',
+  no_action: 'Sin movimiento de fondos',
+};
+
+const EVENT_DOT: Record<TimelineEvent['kind'], string> = {
+  phase_started: 'bg-sky-500',
+  phase_ended: 'bg-gray-400',
+  escalated: 'bg-red-500',
+  offer_made: 'bg-violet-500',
+  offer_accepted: 'bg-green-500',
+  offer_rejected: 'bg-orange-500',
+  offer_expired: 'bg-gray-400',
+  resolved: 'bg-green-600',
+};
+
+const money = (value: number) => `$${value.toLocaleString('es-AR')}`;
+
+const timeLeft = (deadline: string) => {
+  const ms = new Date(deadline).getTime() - Date.now();
+  if (ms <= 0) return 'vencido';
+  const hours = Math.floor(ms / 3600_000);
+  if (hours < 1) return `${Math.max(1, Math.round(ms / 60_000))} min`;
+  if (hours < 48) return `${hours} h`;
+  return `${Math.floor(hours / 24)} días`;
+};
+
+// Fases, plazos, propuesta del mediador y línea de tiempo de una disputa
+export default function DisputeWorkflowPanel({
+  disputeId,
+  workflow,
+  party,
+  admin = false,
+  amount = 0,
+  defendantResponse,
+  onUpdated,
+}: DisputeWorkflowPanelProps) {
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [response, setResponse] = useState('');
+  const [rejectReason, setRejectReason] = useState('');
+  const [offerType, setOfferType] = useState<ResolutionType>('partial_refund');
+  const [offerRefund, setOfferRefund] = useState<number | ''>('');
+  const [offerNote, setOfferNote] = useState('');
+  const [advanceReason, setAdvanceReason] = useState('');
+
+  const { phase, pendingOffer } = workflow;
+  if (!phase) return null;
+
+  const post = async (path: string, body?: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const res = await fetchWithAuth(`/api${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setError(data.message || data.errors?.[0]?.msg || 'No se pudo completar la acción');
+        return false;
+      }
+      onUpdated();
+      return true;
+    } catch (err) {
+      console.error('Error updating dispute workflow:', err);
+      setError('No se pudo completar la acción');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const currentIndex = STEPS.findIndex((step) => step.phase === phase);
+  const isClosed = phase === 'closed';
+  const waitingOnMe = !!party && workflow.awaiting.includes(party);
+  const acceptedByMe = !!party && !!pendingOffer?.acceptedBy[party];
+  const refundPreview = typeof offerRefund === 'number' ? offerRefund : 0;
+
+  const awaitingLabel = workflow.awaiting
+    .map((who) => {
+      if (who === 'mediator') return 'el mediador';
+      if (who === party) return 'vos';
+      return who === 'initiator' ? 'quien abrió la disputa' : 'la otra parte';
+    })
+    .join(' y ');
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6 space-y-5">
+      <h2 className="flex items-center gap-2 text-lg font-semibold text-gray-900 dark:text-white">
+        <Scale className="w-5 h-5 text-sky-600" />
+        Proceso de resolución
+      </h2>
+
+      {/* Stepper */}
+      <ol className="grid grid-cols-5 gap-1">
+        {STEPS.map((step, index) => {
+          const done = isClosed || index < currentIndex;
+          const active = index === currentIndex;
+          return (
+            <li key={step.phase} className="flex flex-col items-center text-center gap-1">
+              <span
+                className={`h-2 w-full rounded-full ${
+                  done ? 'bg-green-500' : active ? (workflow.escalated ? 'bg-red-500' : 'bg-sky-500') : 'bg-gray-200 dark:bg-gray-700'
+                }`}
+              />
+              <span className={`text-xs ${active ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>
+                {step.label}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+
+      {/* Estado de la fase */}
+      {!isClosed && (
+        <div
+          className={`rounded-lg p-4 text-sm ${
+            workflow.escalated
+              ? 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-300'
+              : waitingOnMe
+                ? 'bg-amber-50 dark:bg-amber-900/20 text-amber-800 dark:text-amber-300'
+                : 'bg-sky-50 dark:bg-sky-900/20 text-sky-800 dark:text-sky-300'
+          }`}
+        >
+          <p className="font-semibold">{workflow.phaseLabel}</p>
+          {workflow.escalated ? (
+            <p className="flex items-center gap-1 mt-1">
+              <AlertTriangle className="w-4 h-4" />
+              El plazo venció y el caso fue escalado al equipo de soporte.
+            </p>
+          ) : (
+            workflow.phaseDeadline && (
+              <p className="flex items-center gap-1 mt-1">
+                <Clock className="w-4 h-4" />
+                Vence el {new Date(workflow.phaseDeadline).toLocaleString('es-AR')} ({timeLeft(workflow.phaseDeadline)})
+              </p>
+            )
+          )}
+          {awaitingLabel && <p className="mt-1">Esperando a {awaitingLabel}.</p>}
+          {phase === 'defendant_response' && party === 'initiator' && (
+            <p className="mt-1 text-xs opacity-80">Si la otra parte no responde a tiempo, la disputa puede resolverse a tu favor.</p>
+          )}
+        </div>
+      )}
+
+      {defendantResponse && (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4">
+          <p className="text-sm font-semibold text-gray-900 dark:text-white mb-1">Respuesta de la otra parte</p>
+          <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{defendantResponse}</p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {/* Acciones de las partes */}
+      {phase === 'filing' && party === 'initiator' && (
+        <button
+          onClick={() => post(`/disputes/${disputeId}/workflow/filing`)}
+          disabled={busy}
+          className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-gray-400 text-sm font-medium"
+        >
+          Mi reclamo está completo
+        </button>
+      )}
+
+      {phase === 'defendant_response' && party === 'defendant' && (
+        <form
+          onSubmit={async (e) => {
+            e.preventDefault();
+            if (await post(`/disputes/${disputeId}/workflow/response`, { response })) setResponse('');
+          }}
+          className="space-y-2"
+        >
+          <textarea
+            value={response}
+            onChange={(e) => setResponse(e.target.value)}
+            rows={4}
+            maxLength={2000}
+            placeholder="Contá tu versión de los hechos"
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-sky-500 dark:bg-gray-700 dark:text-white text-sm"
+            required
+          />
+          <button
+            type="submit"
+            disabled={busy || !response.trim()}
+            className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-gray-400 text-sm font-medium"
+          >
+            Enviar respuesta
+          </button>
+        </form>
+      )}
+
+      {phase === 'evidence' && party && (
+        waitingOnMe ? (
+          <div className="space-y-2">
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Subí tus pruebas en la sección de evidencia. Cuando termines, cerrá tu ronda.
+            </p>
+            <button
+              onClick={() => post(`/disputes/${disputeId}/workflow/evidence/close`)}
+              disabled={busy}
+              className="px-4 py-2 bg-sky-600 text-white rounded-lg hover:bg-sky-700 disabled:bg-gray-400 text-sm font-medium"
+            >
+              Terminé de presentar pruebas
+            </button>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">Cerraste tu ronda de pruebas.</p>
+        )
+      )}
+
+      {/* Propuesta vigente */}
+      {pendingOffer && (
+        <div className="rounded-lg border border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-900/20 p-4 space-y-2">
+          <p className="text-sm font-semibold text-violet-900 dark:text-violet-200">Propuesta de acuerdo del mediador</p>
+          <p className="text-sm text-violet-900 dark:text-violet-200">{RESOLUTION_LABELS[pendingOffer.resolutionType]}</p>
+          {pendingOffer.resolutionType === 'partial_refund' && (
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div className="rounded bg-white dark:bg-gray-800 p-2">
+                <p className="text-xs text-gray-500">Reembolso al cliente</p>
+                <p className="font-semibold text-gray-900 dark:text-white">{money(pendingOffer.refundAmount)}</p>
+              </div>
+              <div className="rounded bg-white dark:bg-gray-800 p-2">
+                <p className="text-xs text-gray-500">Pago al trabajador</p>
+                <p className="font-semibold text-gray-900 dark:text-white">{money(pendingOffer.releaseAmount)}</p>
+              </div>
+            </div>
+          )}
+          {pendingOffer.note && <p className="text-sm text-violet-800 dark:text-violet-300 whitespace-pre-wrap">{pendingOffer.note}</p>}
+          <p className="text-xs text-violet-700 dark:text-violet-400">
+            Aceptaron: {(['initiator', 'defendant'] as Party[]).filter((p) => pendingOffer.acceptedBy[p]).length}/2 · vence el{' '}
+            {new Date(pendingOffer.expiresAt).toLocaleString('es-AR')}
+          </p>
+
+          {party && !acceptedByMe && (
+            <div className="space-y-2 pt-1">
+              <input
+                value={rejectReason}
+                onChange={(e) => setRejectReason(e.target.value)}
+                maxLength={500}
+                placeholder="Motivo (opcional, si rechazás)"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={() => post(`/disputes/${disputeId}/workflow/offers/${pendingOffer.id}/accept`)}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 text-sm font-medium"
+                >
+                  <CheckCircle className="w-4 h-4" />
+                  Aceptar acuerdo
+                </button>
+                <button
+                  onClick={() => post(`/disputes/${disputeId}/workflow/offers/${pendingOffer.id}/reject`, { reason: rejectReason })}
+                  disabled={busy}
+                  className="flex items-center gap-1 px-4 py-2 bg-white dark:bg-gray-700 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-50 disabled:opacity-50 text-sm font-medium"
+                >
+                  <XCircle className="w-4 h-4" />
+                  Rechazar
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Si rechazás, la disputa pasa a decisión final del equipo de soporte.
+              </p>
+            </div>
+          )}
+          {acceptedByMe && <p className="text-sm text-green-700 dark:text-green-400">Aceptaste la propuesta. Falta la otra parte.</p>}
+        </div>
+      )}
+
+      {/* Acciones del mediador */}
+      {admin && (phase === 'evidence' || phase === 'mediator_proposal') && (
+        <form
+          onSubmit={async (e) => {
+            e.preventDefault();
+            const ok = await post(`/admin/disputes/${disputeId}/workflow/offers`, {
+              resolutionType: offerType,
+              refundAmount: offerType === 'partial_refund' ? offerRefund : null,
+              note: offerNote,
+            });
+            if (ok) {
+              setOfferRefund('');
+              setOfferNote('');
+            }
+          }}
+          className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3"
+        >
+          <p className="text-sm font-semibold text-gray-900 dark:text-white">
+            {pendingOffer ? 'Reemplazar propuesta' : 'Proponer acuerdo'}
+          </p>
+          <select
+            value={offerType}
+            onChange={(e) => setOfferType(e.target.value as ResolutionType)}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+          >
+            {(Object.keys(RESOLUTION_LABELS) as ResolutionType[]).map((type) => (
+              <option key={type} value={type}>{RESOLUTION_LABELS[type]}</option>
+            ))}
+          </select>
+          {offerType === 'partial_refund' && (
+            <div>
+              <input
+                type="number"
+                min={0}
+                max={amount}
+                step="0.01"
+                value={offerRefund}
+                onChange={(e) => setOfferRefund(e.target.value ? Number(e.target.value) : '')}
+                placeholder="Reembolso al cliente"
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+                required
+              />
+              {amount > 0 && (
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Cliente {money(refundPreview)} · Trabajador {money(Math.max(0, Math.round((amount - refundPreview) * 100) / 100))} (total {money(amount)})
+                </p>
+              )}
+            </div>
+          )}
+          <textarea
+            value={offerNote}
+            onChange={(e) => setOfferNote(e.target.value)}
+            rows={2}
+            maxLength={1000}
+            placeholder="Fundamento de la propuesta (lo ven ambas partes)"
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+          />
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-700 disabled:bg-gray-400 text-sm font-medium"
+          >
+            Enviar propuesta
+          </button>
+        </form>
+      )}
+
+      {admin && !isClosed && phase !== 'final_decision' && (
+        <form
+          onSubmit={async (e) => {
+            e.preventDefault();
+            if (await post(`/admin/disputes/${disputeId}/workflow/advance`, { reason: advanceReason })) setAdvanceReason('');
+          }}
+          className="flex gap-2"
+        >
+          <input
+            value={advanceReason}
+            onChange={(e) => setAdvanceReason(e.target.value)}
+            placeholder="Motivo para avanzar de fase"
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white text-sm"
+            required
+          />
+          <button
+            type="submit"
+            disabled={busy || !advanceReason.trim()}
+            className="flex items-center gap-1 px-3 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-lg hover:bg-gray-200 disabled:opacity-50 text-sm"
+          >
+            <FastForward className="w-4 h-4" />
+            Avanzar
+          </button>
+        </form>
+      )}
+
+      {/* Línea de tiempo */}
+      <div>
+        <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-3">Línea de tiempo</h3>
+        <ol className="space-y-3">
+          {workflow.timeline.map((event, index) => (
+            <li key={`${event.kind}-${event.at}-${index}`} className="flex items-start gap-3">
+              <span className={`w-2 h-2 rounded-full mt-2 flex-shrink-0 ${EVENT_DOT[event.kind]}`} />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white">{event.title}</p>
+                {event.detail && <p className="text-xs text-gray-600 dark:text-gray-300 whitespace-pre-wrap">{event.detail}</p>}
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {new Date(event.at).toLocaleString('es-AR')}
+                  {event.kind === 'phase_started' && event.deadline && ` · plazo ${new Date(event.deadline).toLocaleString('es-AR')}`}
+                </p>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
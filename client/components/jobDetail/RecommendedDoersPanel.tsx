@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles, Star, MapPin, CheckCircle } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetchWithAuth';
+import { getImageUrl } from '../../utils/imageUrl';
+
+interface RecommendedDoer {
+  doer: {
+    id: string;
+    name: string;
+    username?: string;
+    avatar?: string;
+    rating: number;
+    reviewsCount: number;
+    completedJobs: number;
+  };
+  score: number;
+  explanations: { factor: string; points: number; message: string }[];
+  distanceKm: number | null;
+  hasApplied: boolean;
+}
+
+interface RecommendedDoersPanelProps {
+  jobId: string;
+}
+
+// Doers sugeridos para un trabajo abierto (solo lo ve el dueño)
+export default function RecommendedDoersPanel({ jobId }: RecommendedDoersPanelProps) {
+  const [doers, setDoers] = useState<RecommendedDoer[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRecommendations = async () => {
+      try {
+        const res = await fetchWithAuth(`/api/jobs/${jobId}/recommended-doers?limit=5`);
+        const data = await res.json();
+        if (!cancelled && data.success) setDoers(data.data);
+      } catch (err) {
+        console.error('Error fetching recommended doers:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    fetchRecommendations();
+    return () => { cancelled = true; };
+  }, [jobId]);
+
+  if (loading || doers.length === 0) return null;
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6 shadow-sm">
+      <h3 className="flex items-center gap-2 text-lg font-semibold text-slate-900 dark:text-white mb-1">
+        <Sparkles className="h-5 w-5 text-sky-500" />
+        Doers recomendados
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        Por su experiencia en la categoría, calificaciones, cercanía y disponibilidad.
+      </p>
+
+      <ul className="space-y-3">
+        {doers.map(({ doer, score, explanations, hasApplied }) => (
+          <li key={doer.id} className="flex items-start gap-3 rounded-xl border border-slate-100 dark:border-slate-700 p-3">
+            <Link to={doer.username ? `/u/${doer.username}` : `/profile/${doer.id}`} className="shrink-0">
+              {doer.avatar ? (
+                <img src={getImageUrl(doer.avatar)} alt={doer.name} className="h-10 w-10 rounded-full object-cover" />
+              ) : (
+                <div className="h-10 w-10 rounded-full bg-sky-100 dark:bg-sky-900 flex items-center justify-center font-semibold text-sky-600 dark:text-sky-300">
+                  {doer.name?.charAt(0).toUpperCase()}
+                </div>
+              )}
+            </Link>
+            <div className="min-w-0 flex-1">
+              <div className="flex items-center justify-between gap-2">
+                <Link
+                  to={doer.username ? `/u/${doer.username}` : `/profile/${doer.id}`}
+                  className="truncate font-medium text-slate-900 dark:text-white hover:text-sky-600"
+                >
+                  {doer.name}
+                </Link>
+                <span className="shrink-0 rounded-full bg-sky-50 dark:bg-sky-900/40 px-2 py-0.5 text-xs font-semibold text-sky-700 dark:text-sky-300">
+                  {Math.round(score)}% afinidad
+                </span>
+              </div>
+              <div className="mt-0.5 flex items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+                <span className="flex items-center gap-1">
+                  <Star className="h-3.5 w-3.5 text-amber-400" />
+                  {doer.rating.toFixed(1)} ({doer.reviewsCount})
+                </span>
+                <span>{doer.completedJobs} trabajos</span>
+                {hasApplied && (
+                  <span className="flex items-center gap-1 text-emerald-600 dark:text-emerald-400">
+                    <CheckCircle className="h-3.5 w-3.5" />
+                    Ya se postuló
+                  </span>
+                )}
+              </div>
+              <ul className="mt-2 flex flex-wrap gap-1.5">
+                {explanations.slice(0, 3).map((explanation) => (
+                  <li
+                    key={explanation.factor}
+                    className="flex items-center gap-1 rounded-md bg-slate-100 dark:bg-slate-700 px-2 py-0.5 text-xs text-slate-600 dark:text-slate-300"
+                  >
+                    {explanation.factor === 'distance' && <MapPin className="h-3 w-3" />}
+                    {explanation.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
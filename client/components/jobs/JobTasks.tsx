@@ -3,6 +3,7 @@ import useDialog from '@/hooks/useDialog';
 import { useTranslation } from "react-i18next";
 import { useAuth } from "../../hooks/useAuth";
 import { useSocket } from "../../hooks/useSocket";
+import TaskGantt from "./TaskGantt";
 import {
   CheckCircle2,
   Circle,
@@ -17,6 +18,10 @@ import {
   ChevronDown,
   ChevronUp,
   Calendar,
+  ChartGantt,
+  List,
+  Flame,
+  UserRound,
 } from "lucide-react";
 
 interface JobTask {
@@ -39,6 +44,20 @@ interface JobTask {
     name: string;
     avatar?: string;
   };
+  // Dependency graph and schedule (computed by the server)
+  prerequisiteIds?: string[];
+  blockedBy?: string[];
+  estimatedDays?: number | string | null;
+  assigneeId?: string | null;
+  assignee?: {
+    id: string;
+    name: string;
+    avatar?: string;
+  } | null;
+  plannedStart?: string;
+  plannedFinish?: string;
+  slackDays?: number;
+  isCritical?: boolean;
 }
 
 interface JobTasksProps {
@@ -49,18 +68,22 @@ interface JobTasksProps {
   singleDelivery?: boolean; // If false, allow per-task due dates
   jobEndDate?: string; // End date of the job (for validation)
   clientConfirmed?: boolean; // If true, tasks cannot be added/edited
+  workers?: Array<{ id: string; name: string }>; // Workers that tasks can be assigned to
 }
 
-export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDelivery = true, jobEndDate, clientConfirmed = false }: JobTasksProps) {
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id) => b.includes(id));
+
+export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDelivery = true, jobEndDate, clientConfirmed = false, workers = [] }: JobTasksProps) {
   const { t } = useTranslation();
   const { confirm: confirmDialog, dialog } = useDialog();
-  const { token } = useAuth();
+  const { token, user } = useAuth();
   const { registerJobUpdateHandler } = useSocket();
   const [tasks, setTasks] = useState<JobTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
   const [expanded, setExpanded] = useState(true);
+  const [view, setView] = useState<"list" | "gantt">("list");
 
   // Add/Edit task form
   const [showAddForm, setShowAddForm] = useState(false);
@@ -68,6 +91,12 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
   const [taskTitle, setTaskTitle] = useState("");
   const [taskDescription, setTaskDescription] = useState("");
   const [taskDueDate, setTaskDueDate] = useState("");
+  const [taskEstimatedDays, setTaskEstimatedDays] = useState("");
+  const [taskAssigneeId, setTaskAssigneeId] = useState("");
+  const [taskPrerequisites, setTaskPrerequisites] = useState<string[]>([]);
+  // Prerequisites shown when the form opened: only sent if they change, so
+  // tasks that still follow the previous-task rule keep it
+  const [initialPrerequisites, setInitialPrerequisites] = useState<string[]>([]);
   const [saving, setSaving] = useState(false);
 
   // Updating task status
@@ -139,6 +168,9 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
           title: taskTitle.trim(),
           description: taskDescription.trim() || undefined,
           dueDate: !singleDelivery && taskDueDate ? taskDueDate : undefined,
+          estimatedDays: taskEstimatedDays ? Number(taskEstimatedDays) : editingTask ? null : undefined,
+          assigneeId: taskAssigneeId || (editingTask ? null : undefined),
+          prerequisiteTaskIds: sameIds(taskPrerequisites, initialPrerequisites) ? undefined : taskPrerequisites,
         }),
       });
 
@@ -231,6 +263,18 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
     setTaskTitle("");
     setTaskDescription("");
     setTaskDueDate("");
+    setTaskEstimatedDays("");
+    setTaskAssigneeId("");
+    setTaskPrerequisites([]);
+    setInitialPrerequisites([]);
+  };
+
+  const startAdd = () => {
+    // New tasks follow the previous-task rule unless prerequisites are changed
+    const lastTask = tasks[tasks.length - 1];
+    setTaskPrerequisites(lastTask ? [lastTask.id] : []);
+    setInitialPrerequisites(lastTask ? [lastTask.id] : []);
+    setShowAddForm(true);
   };
 
   const startEdit = (task: JobTask) => {
@@ -238,9 +282,21 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
     setTaskTitle(task.title);
     setTaskDescription(task.description || "");
     setTaskDueDate(task.dueDate ? new Date(task.dueDate).toISOString().slice(0, 16) : "");
+    setTaskEstimatedDays(task.estimatedDays ? String(Number(task.estimatedDays)) : "");
+    setTaskAssigneeId(task.assigneeId || "");
+    setTaskPrerequisites(task.prerequisiteIds || []);
+    setInitialPrerequisites(task.prerequisiteIds || []);
     setShowAddForm(true);
   };
 
+  const togglePrerequisite = (taskId: string) => {
+    setTaskPrerequisites((current) =>
+      current.includes(taskId) ? current.filter((id) => id !== taskId) : [...current, taskId]
+    );
+  };
+
+  const taskTitleById = (taskId: string) => tasks.find((tk) => tk.id === taskId)?.title || "";
+
   // Get status icon and color
   const getStatusDisplay = (task: JobTask) => {
     if (!task.isUnlocked) {
@@ -280,6 +336,8 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
   // Get next status for worker action (allows toggling)
   const getNextStatus = (task: JobTask): "pending" | "in_progress" | "completed" | null => {
     if (!task.isUnlocked) return null;
+    // Tasks assigned to another worker are moved by their assignee (or the owner)
+    if (!isOwner && task.assigneeId && task.assigneeId !== (user?.id || user?._id)) return null;
     if (task.status === "pending") return "in_progress";
     if (task.status === "in_progress") return "completed";
     if (task.status === "completed") return "in_progress"; // Allow toggling back
@@ -289,6 +347,11 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
   // Calculate display progress (capped at 90%, remaining 10% is for contract completion)
   const displayProgress = Math.min(Math.round(progress * 0.9), 90);
 
+  // Projected completion: the last planned finish (critical path end)
+  const plannedFinishes = tasks.filter((tk) => tk.plannedFinish).map((tk) => new Date(tk.plannedFinish!).getTime());
+  const projectedCompletion = plannedFinishes.length > 0 ? new Date(Math.max(...plannedFinishes)) : null;
+  const isBehindSchedule = !!(projectedCompletion && jobEndDate && projectedCompletion > new Date(jobEndDate));
+
   if (loading) {
     return (
       <div className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-6">
@@ -372,8 +435,39 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
             </div>
           )}
 
+          {/* Projected completion and view toggle */}
+          {tasks.length > 0 && (
+            <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+              {projectedCompletion && tasks.some((tk) => tk.status !== "completed") ? (
+                <p className={`text-sm flex items-center gap-1 ${isBehindSchedule ? "text-red-600" : "text-slate-500 dark:text-slate-400"}`}>
+                  <Calendar className="h-4 w-4" />
+                  {t('tasks.projectedCompletion', 'Finalización proyectada')}: {projectedCompletion.toLocaleDateString("es-AR", { day: 'numeric', month: 'short', year: 'numeric' })}
+                  {isBehindSchedule && ` · ${t('tasks.behindSchedule', 'después de la fecha de entrega')}`}
+                </p>
+              ) : <span />}
+              <div className="flex rounded-lg border border-slate-200 dark:border-slate-700 overflow-hidden">
+                <button
+                  onClick={() => setView("list")}
+                  className={`flex items-center gap-1 px-3 py-1 text-xs font-medium ${view === "list" ? "bg-sky-600 text-white" : "text-slate-500 dark:text-slate-400"}`}
+                >
+                  <List className="h-3.5 w-3.5" />
+                  {t('tasks.viewList', 'Lista')}
+                </button>
+                <button
+                  onClick={() => setView("gantt")}
+                  className={`flex items-center gap-1 px-3 py-1 text-xs font-medium ${view === "gantt" ? "bg-sky-600 text-white" : "text-slate-500 dark:text-slate-400"}`}
+                >
+                  <ChartGantt className="h-3.5 w-3.5" />
+                  {t('tasks.viewGantt', 'Gantt')}
+                </button>
+              </div>
+            </div>
+          )}
+
+          {view === "gantt" && <TaskGantt tasks={tasks} jobEndDate={jobEndDate} />}
+
           {/* Task list */}
-          <div className="space-y-2">
+          <div className={`space-y-2 ${view === "gantt" ? "hidden" : ""}`}>
             {tasks.map((task, index) => {
               const statusDisplay = getStatusDisplay(task);
               const nextStatus = getNextStatus(task);
@@ -451,6 +545,34 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
                           })}
                         </p>
                       )}
+                      {(task.assignee || task.estimatedDays || task.isCritical) && (
+                        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs text-slate-500 dark:text-slate-400">
+                          {task.assignee && (
+                            <span className="flex items-center gap-1">
+                              <UserRound className="h-3 w-3" />
+                              {task.assignee.name}
+                            </span>
+                          )}
+                          {task.estimatedDays && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              {Number(task.estimatedDays)} {t('tasks.days', 'días')}
+                            </span>
+                          )}
+                          {task.isCritical && (
+                            <span className="flex items-center gap-1 text-rose-600">
+                              <Flame className="h-3 w-3" />
+                              {t('tasks.gantt.critical', 'Camino crítico')}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                      {task.blockedBy && task.blockedBy.length > 0 && task.status !== "completed" && (
+                        <p className="mt-1 text-xs text-slate-400 flex items-center gap-1">
+                          <Lock className="h-3 w-3" />
+                          {t('tasks.waitingFor', 'Espera a')}: {task.blockedBy.map(taskTitleById).join(", ")}
+                        </p>
+                      )}
                       {task.completedAt && (
                         <p className="mt-1 text-xs text-emerald-600">
                           {t('tasks.completedOn', 'Completed on')} {new Date(task.completedAt).toLocaleDateString("es-AR")}
@@ -538,6 +660,61 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
                       </p>
                     </div>
                   )}
+                  <div className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    <div>
+                      <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+                        {t('tasks.estimatedDays', 'Duración estimada (días)')}
+                      </label>
+                      <input
+                        type="number"
+                        min="0.5"
+                        max="365"
+                        step="0.5"
+                        value={taskEstimatedDays}
+                        onChange={(e) => setTaskEstimatedDays(e.target.value)}
+                        placeholder="1"
+                        className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm focus:border-sky-500 focus:ring-1 focus:ring-sky-500 dark:text-white"
+                      />
+                    </div>
+                    {workers.length > 0 && (
+                      <div>
+                        <label className="block text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+                          {t('tasks.assignee', 'Responsable')}
+                        </label>
+                        <select
+                          value={taskAssigneeId}
+                          onChange={(e) => setTaskAssigneeId(e.target.value)}
+                          className="w-full rounded-lg border border-slate-300 dark:border-slate-600 bg-white dark:bg-slate-800 px-3 py-2 text-sm focus:border-sky-500 focus:ring-1 focus:ring-sky-500 dark:text-white"
+                        >
+                          <option value="">{t('tasks.noAssignee', 'Sin asignar')}</option>
+                          {workers.map((worker) => (
+                            <option key={worker.id} value={worker.id}>{worker.name}</option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                  {/* Prerequisites: any other task of the job (cycles are rejected by the server) */}
+                  {tasks.some((tk) => tk.id !== editingTask?.id) && (
+                    <div className="mt-2">
+                      <p className="text-xs font-medium text-slate-600 dark:text-slate-400 mb-1">
+                        {t('tasks.prerequisites', 'Requiere completar antes')}
+                      </p>
+                      <div className="max-h-32 overflow-y-auto space-y-1 rounded-lg border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-2">
+                        {tasks.filter((tk) => tk.id !== editingTask?.id).map((tk) => (
+                          <label key={tk.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-slate-300">
+                            <input
+                              type="checkbox"
+                              checked={taskPrerequisites.includes(tk.id)}
+                              onChange={() => togglePrerequisite(tk.id)}
+                              className="rounded border-slate-300 text-sky-600 focus:ring-sky-500"
+                            />
+                            <span className="truncate">{tk.title}</span>
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                  )}
                   <div className="mt-3 flex items-center justify-end gap-2">
                     <button
                       onClick={resetForm}
@@ -557,7 +734,7 @@ export default function JobTasks({ jobId, isOwner, isWorker, jobStatus, singleDe
                 </div>
               ) : (
                 <button
-                  onClick={() => setShowAddForm(true)}
+                  onClick={startAdd}
                   className="flex items-center justify-center gap-2 w-full rounded-lg border-2 border-dashed border-slate-300 dark:border-slate-600 py-3 text-sm font-medium text-slate-500 dark:text-slate-400 hover:border-sky-500 hover:text-sky-600 dark:hover:border-sky-500 dark:hover:text-sky-400 transition-colors"
                 >
                   <Plus className="h-4 w-4" />
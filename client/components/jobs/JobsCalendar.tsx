@@ -18,6 +18,10 @@ import {
   Share2,
   Plus,
   Trash2,
+  Repeat,
+  SkipForward,
+  CreditCard,
+  Check,
 } from 'lucide-react';
 import { JOB_CATEGORIES } from '../../../shared/constants/categories';
 
@@ -32,8 +36,21 @@ interface CalendarJob {
   endDate?: string;
   status: string;
   proposalStatus?: string;
+  // Ocurrencia de una serie recurrente (las que todavía no tienen trabajo no tienen página propia)
+  recurring?: RecurringOccurrenceInfo;
 }
 
+interface RecurringOccurrenceInfo {
+  seriesId: string;
+  occurrenceDate: string;
+  status: string;
+  role: 'client' | 'doer';
+  jobId?: string | null;
+  paymentUrl?: string | null;
+}
+
+type RecurringAction = 'skip' | 'reschedule' | 'accept' | 'decline';
+
 interface AvailabilitySlot {
   day: number;
   start: string;
@@ -47,6 +64,7 @@ interface JobsCalendarProps {
   availabilitySlots?: AvailabilitySlot[];
   onAddAvailability?: (day: number, start: string, end: string) => void;
   onRemoveAvailability?: (day: number, index: number) => void;
+  onRecurringAction?: (job: CalendarJob, action: RecurringAction, startsAt?: string) => Promise<void>;
 }
 
 type ViewMode = 'month' | 'week' | 'day' | 'list';
@@ -217,7 +235,23 @@ const CATEGORY_COLORS: Record<string, string> = {
   otros: 'bg-gray-500',
 };
 
-function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [], onAddAvailability, onRemoveAvailability }: JobsCalendarProps) {
+const RECURRING_STATUS_LABELS: Record<string, string> = {
+  scheduled: 'Programada',
+  offered: 'Ofrecida al Doer preferido',
+  open: 'Publicada',
+  contracted: 'Contratada, pendiente de pago',
+  paid: 'Pagada',
+  skipped: 'Salteada',
+};
+
+// Valor de un <input type="datetime-local"> en hora local
+function toDateTimeLocal(dateStr: string): string {
+  const date = new Date(dateStr);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [], onAddAvailability, onRemoveAvailability, onRecurringAction }: JobsCalendarProps) {
   const { t } = useTranslation();
   const displayTitle = title || t('calendar.jobCalendar', 'Job Calendar');
   const [currentDate, setCurrentDate] = useState(new Date());
@@ -225,6 +259,8 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
   const [notice, setNotice] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('month');
   const [selectedJob, setSelectedJob] = useState<CalendarJob | null>(null);
+  const [rescheduleAt, setRescheduleAt] = useState<string | null>(null);
+  const [recurringBusy, setRecurringBusy] = useState(false);
   const [showFilterPanel, setShowFilterPanel] = useState(false);
   const [showSyncMenu, setShowSyncMenu] = useState(false);
 
@@ -424,6 +460,22 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
     return JOB_CATEGORIES.find(c => c.id === categoryId);
   };
 
+  const closeSelectedJob = () => {
+    setSelectedJob(null);
+    setRescheduleAt(null);
+  };
+
+  const runRecurringAction = async (action: RecurringAction, startsAt?: string) => {
+    if (!selectedJob || !onRecurringAction) return;
+    setRecurringBusy(true);
+    try {
+      await onRecurringAction(selectedJob, action, startsAt);
+      closeSelectedJob();
+    } finally {
+      setRecurringBusy(false);
+    }
+  };
+
   // Render job pill
   const renderJobPill = (job: CalendarJob, compact = false) => {
     const categoryInfo = getCategoryInfo(job.category);
@@ -436,7 +488,7 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
           className={`w-full text-left text-xs truncate px-1.5 py-0.5 rounded ${getCategoryColor(job.category)} text-white hover:opacity-80 transition-opacity`}
           title={job.title}
         >
-          {categoryInfo?.icon} {job.title}
+          {categoryInfo?.icon} {job.recurring && '↻ '}{job.title}
         </button>
       );
     }
@@ -450,6 +502,7 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
         <div className="flex items-center gap-2 mb-1">
           <span>{categoryInfo?.icon}</span>
           <span className="font-medium truncate">{job.title}</span>
+          {job.recurring && <Repeat className="h-3 w-3 flex-shrink-0" />}
         </div>
         <div className="flex items-center gap-2 text-xs opacity-90">
           <Clock className="h-3 w-3" />
@@ -1137,7 +1190,7 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
 
       {/* Job Detail Modal */}
       {selectedJob && (
-        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={() => setSelectedJob(null)}>
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={closeSelectedJob}>
           <div
             className="bg-white dark:bg-slate-800 rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto shadow-xl"
             onClick={e => e.stopPropagation()}
@@ -1153,7 +1206,7 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
                   </div>
                 </div>
                 <button
-                  onClick={() => setSelectedJob(null)}
+                  onClick={closeSelectedJob}
                   className="p-1 rounded-lg hover:bg-white/20 text-white"
                 >
                   <X className="h-5 w-5" />
@@ -1225,13 +1278,103 @@ function JobsCalendar({ jobs, title, showFilters = true, availabilitySlots = [],
                 </button>
               </div>
 
+              {/* Recurring occurrence */}
+              {selectedJob.recurring && (
+                <div className="p-3 rounded-xl border border-violet-200 dark:border-violet-800 bg-violet-50 dark:bg-violet-900/20 space-y-3">
+                  <div className="flex items-center gap-2 text-sm text-violet-700 dark:text-violet-300">
+                    <Repeat className="h-4 w-4" />
+                    <span className="font-medium">{t('calendar.recurringOccurrence', 'Servicio recurrente')}</span>
+                    <span className="ml-auto text-xs">
+                      {t(`calendar.recurringStatus.${selectedJob.recurring.status}`, RECURRING_STATUS_LABELS[selectedJob.recurring.status] || selectedJob.recurring.status)}
+                    </span>
+                  </div>
+
+                  {onRecurringAction && selectedJob.recurring.role === 'client' && (
+                    <>
+                      {rescheduleAt !== null ? (
+                        <div className="flex gap-2">
+                          <input
+                            type="datetime-local"
+                            value={rescheduleAt}
+                            onChange={e => setRescheduleAt(e.target.value)}
+                            className="flex-1 px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                          />
+                          <button
+                            onClick={() => runRecurringAction('reschedule', new Date(rescheduleAt).toISOString())}
+                            disabled={recurringBusy || !rescheduleAt}
+                            className="px-3 py-2 text-sm font-medium rounded-lg bg-violet-600 hover:bg-violet-700 text-white disabled:opacity-50"
+                          >
+                            {t('calendar.save', 'Guardar')}
+                          </button>
+                        </div>
+                      ) : (
+                        <div className="flex gap-2">
+                          {['scheduled', 'offered', 'open'].includes(selectedJob.recurring.status) && (
+                            <button
+                              onClick={() => setRescheduleAt(toDateTimeLocal(selectedJob.startDate))}
+                              disabled={recurringBusy}
+                              className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600"
+                            >
+                              <Clock className="h-4 w-4" />
+                              {t('calendar.reschedule', 'Reprogramar')}
+                            </button>
+                          )}
+                          {selectedJob.recurring.status !== 'paid' && selectedJob.recurring.status !== 'skipped' && (
+                            <button
+                              onClick={() => runRecurringAction('skip')}
+                              disabled={recurringBusy}
+                              className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600"
+                            >
+                              <SkipForward className="h-4 w-4" />
+                              {t('calendar.skipOccurrence', 'Saltear')}
+                            </button>
+                          )}
+                        </div>
+                      )}
+                      {selectedJob.recurring.status === 'contracted' && selectedJob.recurring.paymentUrl && (
+                        <a
+                          href={selectedJob.recurring.paymentUrl}
+                          className="flex items-center justify-center gap-2 py-2 text-sm font-semibold rounded-lg bg-violet-600 hover:bg-violet-700 text-white"
+                        >
+                          <CreditCard className="h-4 w-4" />
+                          {t('calendar.payOccurrence', 'Pagar esta ocurrencia')}
+                        </a>
+                      )}
+                    </>
+                  )}
+
+                  {onRecurringAction && selectedJob.recurring.role === 'doer' && selectedJob.recurring.status === 'offered' && (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => runRecurringAction('accept')}
+                        disabled={recurringBusy}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-semibold rounded-lg bg-violet-600 hover:bg-violet-700 text-white disabled:opacity-50"
+                      >
+                        <Check className="h-4 w-4" />
+                        {t('calendar.acceptOccurrence', 'Tomar')}
+                      </button>
+                      <button
+                        onClick={() => runRecurringAction('decline')}
+                        disabled={recurringBusy}
+                        className="flex-1 flex items-center justify-center gap-2 py-2 text-sm font-medium rounded-lg bg-white dark:bg-slate-700 border border-slate-200 dark:border-slate-600 text-slate-700 dark:text-slate-300 hover:bg-slate-50 dark:hover:bg-slate-600"
+                      >
+                        <X className="h-4 w-4" />
+                        {t('calendar.declineOccurrence', 'No puedo')}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Action */}
-              <Link
-                to={`/jobs/${selectedJob.id}`}
-                className="block w-full text-center py-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-xl transition-colors"
-              >
-                {t('calendar.viewFullDetails', 'View full details')}
-              </Link>
+              {(!selectedJob.recurring || selectedJob.recurring.jobId) && (
+                <Link
+                  to={`/jobs/${selectedJob.recurring?.jobId || selectedJob.id}`}
+                  className="block w-full text-center py-3 bg-sky-500 hover:bg-sky-600 text-white font-semibold rounded-xl transition-colors"
+                >
+                  {t('calendar.viewFullDetails', 'View full details')}
+                </Link>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Sparkles, MapPin, Calendar } from 'lucide-react';
+import { fetchWithAuth } from '@/utils/fetchWithAuth';
+import { getCategoryById } from '../../../shared/constants/categories';
+
+interface RecommendedJob {
+  job: {
+    id: string;
+    title: string;
+    category: string;
+    price: number;
+    location?: string;
+    startDate: string;
+  };
+  score: number;
+  explanations: { factor: string; points: number; message: string }[];
+}
+
+// Feed "Recomendados para vos": trabajos abiertos afines al historial, zona y agenda del doer
+export default function RecommendedJobs() {
+  const [items, setItems] = useState<RecommendedJob[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const fetchRecommended = async () => {
+      try {
+        const res = await fetchWithAuth('/api/jobs/recommended?limit=6');
+        const data = await res.json();
+        if (!cancelled && data.success) setItems(data.data);
+      } catch (err) {
+        console.error('Error fetching recommended jobs:', err);
+      }
+    };
+    fetchRecommended();
+    return () => { cancelled = true; };
+  }, []);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-8 sm:mt-10 px-2">
+      <h2 className="flex items-center gap-2 text-xl sm:text-2xl font-bold text-gray-900 dark:text-white mb-4">
+        <Sparkles className="h-6 w-6 text-sky-500" />
+        Recomendados para vos
+      </h2>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-3">
+        {items.map(({ job, explanations }) => {
+          const category = getCategoryById(job.category);
+          return (
+            <Link
+              key={job.id}
+              to={`/jobs/${job.id}`}
+              className="rounded-xl border border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800 p-4 shadow-sm hover:border-sky-400 transition-colors"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <h3 className="font-semibold text-slate-900 dark:text-white line-clamp-2">{job.title}</h3>
+                <span className="shrink-0 font-bold text-sky-600 dark:text-sky-400">
+                  ${job.price.toLocaleString('es-AR')}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap items-center gap-3 text-xs text-slate-500 dark:text-slate-400">
+                {category && <span>{category.icon} {category.label}</span>}
+                {job.location && (
+                  <span className="flex items-center gap-1">
+                    <MapPin className="h-3 w-3" />
+                    {job.location}
+                  </span>
+                )}
+                <span className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  {new Date(job.startDate).toLocaleDateString('es-AR')}
+                </span>
+              </div>
+              {explanations.length > 0 && (
+                <p className="mt-2 text-xs text-sky-700 dark:text-sky-300">
+                  {explanations.slice(0, 2).map((e) => e.message).join(' · ')}
+                </p>
+              )}
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+import { useState } from "react";
+import { useTranslation } from "react-i18next";
+
+export interface GanttTask {
+  id: string;
+  title: string;
+  status: "pending" | "in_progress" | "completed";
+  plannedStart?: string;
+  plannedFinish?: string;
+  slackDays?: number;
+  isCritical?: boolean;
+  prerequisiteIds?: string[];
+  assignee?: { id: string; name: string } | null;
+}
+
+interface TaskGanttProps {
+  tasks: GanttTask[];
+  jobEndDate?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shortDate = (value: number) =>
+  new Date(value).toLocaleDateString("es-AR", { day: "numeric", month: "short" });
+
+/**
+ * Vista Gantt de las tareas: una barra por tarea según la planificación que
+ * calcula el servidor (plannedStart/plannedFinish). El camino crítico va en
+ * rojo; la línea vertical marca hoy y, si existe, la fecha de entrega.
+ */
+export default function TaskGantt({ tasks, jobEndDate }: TaskGanttProps) {
+  const { t } = useTranslation();
+  const [now] = useState(() => Date.now());
+  const planned = tasks.filter((task) => task.plannedStart && task.plannedFinish);
+  if (planned.length === 0) return null;
+
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  const endDate = jobEndDate ? new Date(jobEndDate).getTime() : null;
+  const min = Math.min(...planned.map((task) => new Date(task.plannedStart!).getTime()));
+  const max = Math.max(...planned.map((task) => new Date(task.plannedFinish!).getTime()), endDate ?? 0);
+  const span = Math.max(max - min, DAY_MS);
+  const offset = (value: number) => `${Math.min(100, Math.max(0, ((value - min) / span) * 100))}%`;
+
+  const barColor = (task: GanttTask) => {
+    if (task.status === "completed") return "bg-emerald-500";
+    if (task.isCritical) return "bg-rose-500";
+    if (task.status === "in_progress") return "bg-amber-500";
+    return "bg-sky-500";
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between pl-[7.5rem] sm:pl-[10.5rem] text-xs text-slate-400">
+        <span>{shortDate(min)}</span>
+        <span>{shortDate(min + span)}</span>
+      </div>
+      {planned.map((task) => {
+        const start = new Date(task.plannedStart!).getTime();
+        const finish = new Date(task.plannedFinish!).getTime();
+        const prerequisites = (task.prerequisiteIds || []).map((id) => titles.get(id)).filter(Boolean);
+        return (
+          <div key={task.id} className="flex items-center gap-2">
+            <div className="w-28 sm:w-40 flex-shrink-0 min-w-0">
+              <p className="truncate text-sm text-slate-700 dark:text-slate-200" title={task.title}>{task.title}</p>
+              {task.assignee && <p className="truncate text-xs text-slate-400">{task.assignee.name}</p>}
+            </div>
+            <div className="relative flex-1 h-6 rounded bg-slate-100 dark:bg-slate-700/50">
+              <div
+                className={`absolute top-1 bottom-1 rounded ${barColor(task)}`}
+                style={{ left: offset(start), width: `max(${((finish - start) / span) * 100}%, 4px)` }}
+                title={[
+                  `${shortDate(start)} → ${shortDate(finish)}`,
+                  task.status !== "completed" && task.slackDays !== undefined
+                    ? `${t('tasks.gantt.slack', 'Holgura')}: ${task.slackDays} ${t('tasks.gantt.days', 'días')}`
+                    : null,
+                  prerequisites.length > 0 ? `${t('tasks.dependsOn', 'Depende de')}: ${prerequisites.join(', ')}` : null,
+                ].filter(Boolean).join('\n')}
+              />
+              {now >= min && now <= min + span && (
+                <div className="absolute top-0 bottom-0 w-px bg-slate-500" style={{ left: offset(now) }} />
+              )}
+              {endDate && (
+                <div className="absolute top-0 bottom-0 w-px bg-red-400" style={{ left: offset(endDate) }} />
+              )}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex flex-wrap gap-3 pt-1 text-xs text-slate-500 dark:text-slate-400">
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-rose-500" />{t('tasks.gantt.critical', 'Camino crítico')}</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-sky-500" />{t('tasks.status.pending', 'Pendiente')}</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-amber-500" />{t('tasks.status.inProgress', 'En curso')}</span>
+        <span className="flex items-center gap-1"><span className="h-2 w-3 rounded bg-emerald-500" />{t('tasks.status.completed', 'Completada')}</span>
+        <span className="flex items-center gap-1"><span className="h-3 w-px bg-slate-500" />{t('tasks.gantt.today', 'Hoy')}</span>
+        {endDate && <span className="flex items-center gap-1"><span className="h-3 w-px bg-red-400" />{t('tasks.gantt.deadline', 'Entrega')}</span>}
+      </div>
+    </div>
+  );
+}
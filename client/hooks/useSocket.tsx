@@ -50,6 +50,7 @@ interface TypingStatus {
 interface UserStatus {
   userId: string;
   isOnline: boolean;
+  lastSeenAt?: Date;
   timestamp: Date;
 }
 
@@ -87,6 +88,8 @@ const eventHandlers = {
   onContractsRefresh: null as ((data?: any) => void) | null,
   onMyJobsRefresh: null as ((data?: any) => void) | null,
   onNotification: null as ((data: any) => void) | null,
+  onConversationRead: null as ((data: { conversationId: string; userId: string; readAt: string }) => void) | null,
+  onConversationPinned: null as ((data: { conversationId: string; pinnedMessageIds: string[] }) => void) | null,
 };
 
 export function useSocket() {
@@ -275,6 +278,19 @@ export function useSocket() {
       }
     });
 
+    // Job team chats: a member read the conversation / pinned messages changed
+    socketInstance.on("conversation:read", (data: { conversationId: string; userId: string; readAt: string }) => {
+      if (eventHandlers.onConversationRead) {
+        eventHandlers.onConversationRead(data);
+      }
+    });
+
+    socketInstance.on("conversation:pinned", (data: { conversationId: string; pinnedMessageIds: string[] }) => {
+      if (eventHandlers.onConversationPinned) {
+        eventHandlers.onConversationPinned(data);
+      }
+    });
+
     socketInstance.on("dashboard:refresh", () => {
       if (eventHandlers.onDashboardRefresh) {
         eventHandlers.onDashboardRefresh();
@@ -454,6 +470,7 @@ export function useSocket() {
     const newSocket = io(SOCKET_URL, {
       auth: {
         token,
+        device: "web",
       },
       path: "/socket.io",
       transports: ["websocket", "polling"], // Try websocket first
@@ -560,6 +577,25 @@ export function useSocket() {
     return onlineUsers.has(userId);
   }, [onlineUsers]);
 
+  // Load the current online status of these users (user:status only reports changes)
+  const requestPresence = useCallback((userIds: string[]) => {
+    if (!globalSocket?.connected || userIds.length === 0) return;
+    globalSocket.emit("presence:get", userIds, (presence: UserStatus[]) => {
+      if (!mountedRef.current || !Array.isArray(presence)) return;
+      setOnlineUsers((prev) => {
+        const newSet = new Set(prev);
+        presence.forEach(({ userId, isOnline }) => {
+          if (isOnline) {
+            newSet.add(userId);
+          } else {
+            newSet.delete(userId);
+          }
+        });
+        return newSet;
+      });
+    });
+  }, []);
+
   // Get typing users for a conversation
   const getTypingUsers = useCallback((conversationId: string) => {
     const typing: TypingStatus[] = [];
@@ -673,6 +709,14 @@ export function useSocket() {
     eventHandlers.onNotification = handler;
   }, []);
 
+  const registerConversationReadHandler = useCallback((handler: (data: { conversationId: string; userId: string; readAt: string }) => void) => {
+    eventHandlers.onConversationRead = handler;
+  }, []);
+
+  const registerConversationPinnedHandler = useCallback((handler: (data: { conversationId: string; pinnedMessageIds: string[] }) => void) => {
+    eventHandlers.onConversationPinned = handler;
+  }, []);
+
   return {
     socket,
     isConnected,
@@ -685,6 +729,7 @@ export function useSocket() {
     markAsRead,
     markConversationAsRead,
     isUserOnline,
+    requestPresence,
     getTypingUsers,
     reconnect, // Manual reconnect function
     connectionGaveUp, // Expose if connection gave up
@@ -714,5 +759,7 @@ export function useSocket() {
     registerContractsRefreshHandler,
     registerMyJobsRefreshHandler,
     registerNotificationHandler,
+    registerConversationReadHandler,
+    registerConversationPinnedHandler,
   };
 }
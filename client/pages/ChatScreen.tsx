@@ -31,6 +31,11 @@ import {
   MessageSquare,
   Sparkles,
   ChevronRight,
+  Pin,
+  PinOff,
+  Megaphone,
+  Download,
+  Scale,
 } from 'lucide-react';
 import QuoteMessage from '../components/chat/QuoteMessage';
 import ConfirmModal from '../components/ui/ConfirmModal';
@@ -57,7 +62,7 @@ interface Message {
     avatar?: string;
   };
   message: string;
-  type?: 'text' | 'image' | 'file' | 'system';
+  type?: 'text' | 'image' | 'file' | 'system' | 'announcement';
   metadata?: {
     jobId?: string;
     action?: string;
@@ -95,6 +100,14 @@ interface ConversationData {
   contractId?: string;
   jobId?: string;
   type: string;
+  job?: { id?: string; title?: string; clientId?: string };
+  pinnedMessages?: Message[];
+}
+
+// Job team chat: each member's last read, for "Visto por X de Y"
+interface TeamReadState {
+  participants: string[];
+  lastReadAt: Record<string, string>;
 }
 
 interface Job {
@@ -108,6 +121,30 @@ interface Job {
   status: string;
 }
 
+// Render text with @mentions highlighted (job team chats), then clickable URLs
+function renderWithMentions(text: string, mentionClassName: string): React.ReactNode {
+  return text.split(/((?:^|\s)@[\p{L}\p{N}_]+)/gu).map((part, i) =>
+    /@[\p{L}\p{N}_]+$/u.test(part) ? (
+      <span key={i} className={mentionClassName}>{part}</span>
+    ) : (
+      <span key={i}>{linkifyText(part)}</span>
+    )
+  );
+}
+
+// "Visto por X de Y" for a message sent by the current user in a job team chat
+function seenByLabel(message: Message, senderId: string, readState: TeamReadState): string {
+  const sentAt = new Date(message.createdAt).getTime();
+  const others = readState.participants.filter(id => id !== senderId);
+  const seen = others.filter(id => {
+    const readAt = readState.lastReadAt[id];
+    return !!readAt && new Date(readAt).getTime() >= sentAt;
+  });
+  return seen.length === others.length && others.length > 0
+    ? 'Visto por todos'
+    : `Visto por ${seen.length} de ${others.length}`;
+}
+
 // Render plain message text with clickable URLs
 function linkifyText(text: string): React.ReactNode {
   return text.split(/(https?:\/\/[^\s]+)/g).map((part, i) =>
@@ -142,7 +179,10 @@ export default function ChatScreen() {
     leaveConversation,
     messages: socketMessages,
     isConnected,
-    registerProposalUpdateHandler
+    registerProposalUpdateHandler,
+    markConversationAsRead,
+    registerConversationReadHandler,
+    registerConversationPinnedHandler
   } = useSocket();
 
   const [messages, setMessages] = useState<Message[]>([]);
@@ -161,6 +201,29 @@ export default function ChatScreen() {
   // Conversation data (includes contractId if exists)
   const [conversationData, setConversationData] = useState<ConversationData | null>(null);
 
+  // Job team chat: read state, pinned announcements and the client's announcement composer
+  const [teamReadState, setTeamReadState] = useState<TeamReadState | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([]);
+  const [announceMode, setAnnounceMode] = useState(false);
+  const [jobTasks, setJobTasks] = useState<Array<{ id: string; title: string }>>([]);
+  const [announceTaskId, setAnnounceTaskId] = useState('');
+  const isTeamChat = conversationData?.type === 'job_team';
+  const isTeamOwner = isTeamChat && !!user?.id && conversationData?.job?.clientId === user.id;
+
+  // Message search result: open the conversation around ?message=<id>
+  const focusMessageId = new URLSearchParams(location.search).get('message');
+  const [focusContext, setFocusContext] = useState<{ focusMessageId: string; hasMoreBefore: boolean; hasMoreAfter: boolean } | null>(null);
+  // While newer messages are left out, polling doesn't append the latest ones after the gap
+  const focusGapRef = useRef(false);
+  const focusScrolledRef = useRef<string | null>(null);
+
+  // Conversation export (PDF / JSON) and dispute evidence
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [evidenceDisputes, setEvidenceDisputes] = useState<Array<{ id: string; reason: string; contract?: { title: string } | null }> | null>(null);
+  const [evidenceDisputeId, setEvidenceDisputeId] = useState('');
+  const [evidenceFormat, setEvidenceFormat] = useState<'pdf' | 'json'>('pdf');
+
   // Contract data for alerts
   const [contractData, setContractData] = useState<{
     id: string;
@@ -233,6 +296,14 @@ export default function ChatScreen() {
       // Reset state when conversation changes
       setMessages([]);
       setConversationData(null);
+      setTeamReadState(null);
+      setPinnedMessages([]);
+      setAnnounceMode(false);
+      setFocusContext(null);
+      focusGapRef.current = false;
+      focusScrolledRef.current = null;
+      setShowExportMenu(false);
+      setEvidenceDisputes(null);
       setOtherParticipant(null);
       setContractData(null);
       setJobForProposal(null);
@@ -251,7 +322,7 @@ export default function ChatScreen() {
       }
     };
   // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [conversationId, isConnected]);
+  }, [conversationId, isConnected, focusMessageId]);
 
   // Polling como fallback - actualiza cada 5 segundos si socket no está conectado
   // o cada 15 segundos como backup incluso si socket está conectado
@@ -270,7 +341,7 @@ export default function ChatScreen() {
 
   // Fetch solo mensajes (más ligero que fetchConversationData)
   const fetchMessagesOnly = async () => {
-    if (!conversationId || !token) return;
+    if (!conversationId || !token || focusGapRef.current) return;
     try {
       const msgResponse = await fetch(`/api/chat/conversations/${conversationId}/messages`, {
         headers: {
@@ -278,6 +349,7 @@ export default function ChatScreen() {
         },
       });
       const msgData = await msgResponse.json();
+      if (msgData.readState) setTeamReadState(msgData.readState);
       if (msgData.success && msgData.data) {
         setMessages(prev => {
           // Merge new messages avoiding duplicates
@@ -371,9 +443,43 @@ export default function ChatScreen() {
     };
   }, [registerProposalUpdateHandler]);
 
+  // Job team chat: live "Visto por" and pinned announcements
+  useEffect(() => {
+    registerConversationReadHandler(({ conversationId: readConversationId, userId, readAt }) => {
+      if (readConversationId !== conversationId) return;
+      setTeamReadState(prev => prev ? { ...prev, lastReadAt: { ...prev.lastReadAt, [userId]: readAt } } : prev);
+    });
+    registerConversationPinnedHandler(({ conversationId: pinnedConversationId }) => {
+      if (pinnedConversationId === conversationId) fetchPinnedMessages();
+    });
+
+    return () => {
+      registerConversationReadHandler(() => {});
+      registerConversationPinnedHandler(() => {});
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversationId, registerConversationReadHandler, registerConversationPinnedHandler]);
+
+  // Job team chat: mark read while open so the rest of the team sees "Visto por"
   useEffect(() => {
+    if (isTeamChat && conversationId && isConnected && messages.length > 0) {
+      markConversationAsRead(conversationId);
+    }
+  }, [isTeamChat, conversationId, isConnected, messages.length, markConversationAsRead]);
+
+  useEffect(() => {
+    // Search result: center the message once, then scroll as usual
+    if (focusContext && focusScrolledRef.current !== focusContext.focusMessageId) {
+      const element = document.getElementById(`message-${focusContext.focusMessageId}`);
+      if (element) {
+        element.scrollIntoView({ block: 'center' });
+        focusScrolledRef.current = focusContext.focusMessageId;
+        return;
+      }
+    }
+    if (focusGapRef.current) return;
     scrollToBottom();
-  }, [messages]);
+  }, [messages, focusContext]);
 
   const fetchConversationData = async () => {
     try {
@@ -389,16 +495,20 @@ export default function ChatScreen() {
         // Store full conversation data
         setConversationData(convData.data);
 
-        // Find the other participant
+        // Find the other participant (team chats have several)
         const participants = convData.data.participants;
         const other = participants.find((p: any) => (p.id || p._id) !== user?.id);
-        if (other) {
+        if (other && convData.data.type !== 'job_team') {
           setOtherParticipant(other);
         }
+        setPinnedMessages(convData.data.pinnedMessages || []);
       }
 
-      // Fetch messages
-      const msgResponse = await fetch(`/api/chat/conversations/${conversationId}/messages`, {
+      // Fetch messages (around the search result if there is one)
+      const msgUrl = focusMessageId
+        ? `/api/chat/conversations/${conversationId}/messages?around=${encodeURIComponent(focusMessageId)}`
+        : `/api/chat/conversations/${conversationId}/messages`;
+      const msgResponse = await fetch(msgUrl, {
         headers: {
           Authorization: `Bearer ${token}`,
         },
@@ -406,6 +516,12 @@ export default function ChatScreen() {
       const msgData = await msgResponse.json();
       if (msgData.success) {
         setMessages(msgData.data || []);
+        setTeamReadState(msgData.readState || null);
+        setFocusContext(msgData.context || null);
+        focusGapRef.current = !!msgData.context?.hasMoreAfter;
+      } else if (focusMessageId) {
+        // The message is gone: open the conversation as usual
+        navigate(`/chat/${conversationId}`, { replace: true });
       }
     } catch (error) {
       console.error('Error fetching conversation data:', error);
@@ -414,10 +530,146 @@ export default function ChatScreen() {
     }
   };
 
+  const fetchPinnedMessages = async () => {
+    if (!conversationId || !token) return;
+    try {
+      const res = await fetch(`/api/chat/conversations/${conversationId}`, { headers: { Authorization: `Bearer ${token}` } });
+      const data = await res.json();
+      if (data.success && data.data) setPinnedMessages(data.data.pinnedMessages || []);
+    } catch (error) {
+      console.error('Error fetching pinned messages:', error);
+    }
+  };
+
+  const toggleAnnounceMode = async () => {
+    const next = !announceMode;
+    setAnnounceMode(next);
+    const jobId = conversationData?.jobId;
+    if (!next || !jobId || !token || jobTasks.length > 0) return;
+    try {
+      const res = await fetch(`/api/jobs/${jobId}/tasks`, { headers: { Authorization: `Bearer ${token}` } });
+      const data = await res.json();
+      if (data.success) setJobTasks((data.tasks || []).map((task: any) => ({ id: task.id, title: task.title })));
+    } catch (error) {
+      console.error('Error fetching job tasks:', error);
+    }
+  };
+
+  const handleSendAnnouncement = async () => {
+    const text = newMessage.trim();
+    if (!text || sending || !conversationId || !token) return;
+    setSending(true);
+    try {
+      const res = await fetch(`/api/chat/conversations/${conversationId}/announcements`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ message: text, taskId: announceTaskId || undefined }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        notify(data.message || t('chat.announcementError', 'No se pudo publicar el anuncio'));
+        return;
+      }
+      setMessages(prev => prev.some(m => (m.id || m._id) === data.message.id) ? prev : [...prev, data.message]);
+      setNewMessage('');
+      setAnnounceTaskId('');
+      setAnnounceMode(false);
+      fetchPinnedMessages();
+    } catch (error) {
+      console.error('Error sending announcement:', error);
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleUnpin = async (messageId: string) => {
+    if (!conversationId || !token) return;
+    try {
+      const res = await fetch(`/api/chat/conversations/${conversationId}/pins/${messageId}`, {
+        method: 'DELETE',
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await res.json();
+      if (data.success) setPinnedMessages(prev => prev.filter(m => (m.id || m._id) !== messageId));
+    } catch (error) {
+      console.error('Error unpinning message:', error);
+    }
+  };
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
+  const downloadExport = async (format: 'pdf' | 'json') => {
+    if (!conversationId || !token) return;
+    setExporting(true);
+    try {
+      const res = await fetch(`/api/chat/conversations/${conversationId}/export?format=${format}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        notify(data?.message || t('chat.exportError', 'No se pudo exportar la conversación'));
+        return;
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = res.headers.get('Content-Disposition')?.match(/filename="(.+)"/)?.[1] || `conversacion.${format}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      setShowExportMenu(false);
+    } catch (error) {
+      console.error('Error exporting conversation:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  // Open disputes between members of this conversation
+  const openEvidencePicker = async () => {
+    if (!token) return;
+    try {
+      const res = await fetch('/api/disputes/my-disputes?limit=50', { headers: { Authorization: `Bearer ${token}` } });
+      const data = await res.json();
+      const participantIds = (conversationData?.participants || []).map(p => p.id || p._id);
+      const closed = ['resolved_released', 'resolved_refunded', 'resolved_partial', 'cancelled'];
+      const disputes = (data.data || []).filter((dispute: any) =>
+        !closed.includes(dispute.status) &&
+        [dispute.initiator?.id, dispute.defendant?.id].every((id: string) => participantIds.includes(id))
+      );
+      setEvidenceDisputes(disputes);
+      setEvidenceDisputeId(disputes[0]?.id || '');
+    } catch (error) {
+      console.error('Error fetching disputes:', error);
+    }
+  };
+
+  const attachAsEvidence = async () => {
+    if (!conversationId || !token || !evidenceDisputeId) return;
+    setExporting(true);
+    try {
+      const res = await fetch(`/api/chat/conversations/${conversationId}/export/evidence`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify({ disputeId: evidenceDisputeId, format: evidenceFormat }),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        notify(data.message || t('chat.evidenceError', 'No se pudo adjuntar la conversación'));
+        return;
+      }
+      notify(t('chat.evidenceAttached', 'Conversación adjuntada como evidencia de la disputa'), 'success');
+      setEvidenceDisputes(null);
+      setShowExportMenu(false);
+    } catch (error) {
+      console.error('Error attaching conversation as evidence:', error);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const fetchConversations = async () => {
     if (!token) return;
     setLoadingConversations(true);
@@ -622,6 +874,10 @@ export default function ChatScreen() {
 
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (announceMode) {
+      handleSendAnnouncement();
+      return;
+    }
     if (!newMessage.trim() || sending || !conversationId) return;
 
     const messageText = newMessage.trim();
@@ -1033,13 +1289,92 @@ export default function ChatScreen() {
                   )}
                 </div>
                 <p className="text-sm text-slate-500 dark:text-slate-400">
-                  {jobContext ? jobContext.title : otherParticipant?.name || 'Chat'}
+                  {isTeamChat
+                    ? `${conversationData?.job?.title || t('chat.teamChat', 'Equipo')} · ${t('chat.teamMembers', '{{count}} participantes', { count: conversationData?.participants.length || 0 })}`
+                    : jobContext ? jobContext.title : otherParticipant?.name || 'Chat'}
                 </p>
               </div>
             </div>
 
             {/* Actions */}
             <div className="flex items-center gap-2">
+              {/* Export conversation */}
+              <div className="relative">
+                <button
+                  onClick={() => { setShowExportMenu(v => !v); setEvidenceDisputes(null); }}
+                  className="p-2 hover:bg-slate-100 dark:hover:bg-slate-700 rounded-lg transition-colors"
+                  title={t('chat.exportConversation', 'Exportar conversación')}
+                >
+                  <Download className="h-5 w-5 text-slate-600 dark:text-slate-400" />
+                </button>
+                {showExportMenu && (
+                  <div className="absolute right-0 mt-2 w-72 z-20 bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl shadow-lg p-2 text-sm">
+                    {evidenceDisputes === null ? (
+                      <>
+                        <button
+                          disabled={exporting}
+                          onClick={() => downloadExport('pdf')}
+                          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                        >
+                          <FileText className="h-4 w-4" />
+                          {t('chat.exportPdf', 'Descargar PDF')}
+                        </button>
+                        <button
+                          disabled={exporting}
+                          onClick={() => downloadExport('json')}
+                          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                        >
+                          <Download className="h-4 w-4" />
+                          {t('chat.exportJson', 'Descargar JSON')}
+                        </button>
+                        <button
+                          disabled={exporting}
+                          onClick={openEvidencePicker}
+                          className="w-full flex items-center gap-2 px-3 py-2 rounded-lg text-left text-slate-700 dark:text-slate-200 hover:bg-slate-100 dark:hover:bg-slate-700 disabled:opacity-50"
+                        >
+                          <Scale className="h-4 w-4" />
+                          {t('chat.attachToDispute', 'Adjuntar a una disputa')}
+                        </button>
+                      </>
+                    ) : evidenceDisputes.length === 0 ? (
+                      <p className="px-3 py-2 text-slate-500 dark:text-slate-400">
+                        {t('chat.noDisputesForEvidence', 'No tenés disputas abiertas con los participantes de esta conversación')}
+                      </p>
+                    ) : (
+                      <div className="space-y-2 p-1">
+                        <select
+                          value={evidenceDisputeId}
+                          onChange={(e) => setEvidenceDisputeId(e.target.value)}
+                          className="w-full px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-slate-900 dark:text-white"
+                        >
+                          {evidenceDisputes.map(dispute => (
+                            <option key={dispute.id} value={dispute.id}>
+                              {dispute.contract?.title || dispute.reason}
+                            </option>
+                          ))}
+                        </select>
+                        <div className="flex gap-3 text-slate-700 dark:text-slate-200">
+                          {(['pdf', 'json'] as const).map(format => (
+                            <label key={format} className="flex items-center gap-1">
+                              <input type="radio" checked={evidenceFormat === format} onChange={() => setEvidenceFormat(format)} />
+                              {format.toUpperCase()}
+                            </label>
+                          ))}
+                        </div>
+                        <button
+                          disabled={exporting || !evidenceDisputeId}
+                          onClick={attachAsEvidence}
+                          className="w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 text-white font-medium disabled:opacity-50"
+                        >
+                          {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Scale className="h-4 w-4" />}
+                          {t('chat.attachAsEvidence', 'Adjuntar como evidencia')}
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+
               {/* Quote Button */}
               {otherParticipant && (
                 <button
@@ -1440,6 +1775,33 @@ export default function ChatScreen() {
               </div>
             )}
 
+            {/* Job team chat: pinned announcements */}
+            {isTeamChat && pinnedMessages.length > 0 && (
+              <div className="sticky top-0 z-10 bg-amber-50 dark:bg-amber-900/30 border border-amber-200 dark:border-amber-700 rounded-xl p-3 shadow-sm space-y-2">
+                {pinnedMessages.map(pinned => (
+                  <div key={pinned.id || pinned._id} className="flex items-start gap-2 text-sm">
+                    <Pin className="h-4 w-4 mt-0.5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+                    <div className="flex-1 min-w-0">
+                      {pinned.metadata?.taskTitle && (
+                        <p className="text-xs font-semibold text-amber-700 dark:text-amber-300">{pinned.metadata.taskTitle}</p>
+                      )}
+                      <p className="text-slate-800 dark:text-slate-100 line-clamp-2">{pinned.message}</p>
+                    </div>
+                    {isTeamOwner && (
+                      <button
+                        type="button"
+                        onClick={() => handleUnpin(String(pinned.id || pinned._id))}
+                        className="p-1 text-amber-600 hover:text-amber-800 dark:text-amber-400"
+                        title={t('chat.unpin', 'Desfijar')}
+                      >
+                        <PinOff className="h-4 w-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* CODE VERSION: 2026-01-24-v2 - Messages list */}
             {messages.map((message, idx) => {
               // Get message text - check multiple possible field names
@@ -1483,15 +1845,25 @@ export default function ChatScreen() {
                 );
               }
 
+              // Job team chat: members joining or leaving
+              if (message.metadata?.action === 'team_member_joined' || message.metadata?.action === 'team_member_left') {
+                return (
+                  <p key={message.id || message._id} id={`message-${message.id || message._id}`} className="text-center text-xs text-slate-500 dark:text-slate-400">
+                    {messageText}
+                  </p>
+                );
+              }
+
               if (isSystemMessage) {
                 return (
-                  <SystemMessageCard
-                    key={message.id || message._id}
-                    message={message}
-                    currentUserId={user?.id}
-                    onRefresh={fetchConversationData}
-                    token={token}
-                  />
+                  <div key={message.id || message._id} id={`message-${message.id || message._id}`}>
+                    <SystemMessageCard
+                      message={message}
+                      currentUserId={user?.id}
+                      onRefresh={fetchConversationData}
+                      token={token}
+                    />
+                  </div>
                 );
               }
 
@@ -1499,6 +1871,7 @@ export default function ChatScreen() {
               return (
                 <div
                   key={message.id || message._id}
+                  id={`message-${message.id || message._id}`}
                   className={`flex ${
                     (message.sender.id || message.sender._id) === user?.id ? 'justify-end' : 'justify-start'
                   }`}
@@ -1510,7 +1883,7 @@ export default function ChatScreen() {
                         : (message.sender as any).adminRole
                           ? 'bg-sky-50 dark:bg-sky-900/30 text-slate-900 dark:text-white border-2 border-sky-300 dark:border-sky-600 ring-2 ring-sky-200/60 dark:ring-sky-800/40 shadow-sm'
                           : 'bg-white dark:bg-slate-800 text-slate-900 dark:text-white border border-slate-200 dark:border-slate-700'
-                    }`}
+                    } ${focusContext?.focusMessageId === (message.id || message._id) ? 'ring-4 ring-amber-300 dark:ring-amber-500' : ''}`}
                   >
                     <p className={`text-sm font-medium mb-1 ${(message.sender as any).adminRole ? 'text-sky-600 dark:text-sky-400 flex items-center gap-1' : 'opacity-75'}`}>
                       {(message.sender as any).adminRole && <span aria-hidden>🛡️</span>}
@@ -1518,7 +1891,21 @@ export default function ChatScreen() {
                         ? `${(message.sender.name || '').split(' ')[0]} (Soporte DOAPP)`
                         : message.sender.name}
                     </p>
-                    <p className="whitespace-pre-wrap">{linkifyText(messageText)}</p>
+                    {message.type === 'announcement' && (
+                      <p className={`flex items-center gap-1 text-xs font-semibold mb-1 ${
+                        (message.sender.id || message.sender._id) === user?.id ? 'text-amber-200' : 'text-amber-600 dark:text-amber-400'
+                      }`}>
+                        <Megaphone className="h-3.5 w-3.5" />
+                        {message.metadata?.taskTitle
+                          ? t('chat.taskAnnouncement', 'Anuncio · {{task}}', { task: message.metadata.taskTitle })
+                          : t('chat.announcement', 'Anuncio')}
+                      </p>
+                    )}
+                    <p className="whitespace-pre-wrap">
+                      {isTeamChat
+                        ? renderWithMentions(messageText, (message.sender.id || message.sender._id) === user?.id ? 'font-semibold underline' : 'font-semibold text-sky-600 dark:text-sky-400')
+                        : linkifyText(messageText)}
+                    </p>
                     <p
                       className={`text-xs mt-2 ${
                         (message.sender.id || message.sender._id) === user?.id
@@ -1530,11 +1917,25 @@ export default function ChatScreen() {
                         hour: '2-digit',
                         minute: '2-digit',
                       })}
+                      {isTeamChat && teamReadState && user?.id && (message.sender.id || message.sender._id) === user.id &&
+                        !String(message.id || message._id).startsWith('temp-') && (
+                        <span className="ml-2">· {seenByLabel(message, user.id, teamReadState)}</span>
+                      )}
                     </p>
                   </div>
                 </div>
               );
             })}
+            {focusContext?.hasMoreAfter && (
+              <div className="sticky bottom-0 flex justify-center">
+                <button
+                  onClick={() => navigate(`/chat/${conversationId}`)}
+                  className="px-4 py-2 rounded-full bg-sky-600 hover:bg-sky-700 text-white text-sm font-medium shadow"
+                >
+                  {t('chat.jumpToLatest', 'Ir a los mensajes recientes')}
+                </button>
+              </div>
+            )}
             <div ref={messagesEndRef} />
           </div>
         </div>
@@ -1573,12 +1974,50 @@ export default function ChatScreen() {
         {/* Input */}
         <div className="bg-white dark:bg-slate-800 border-t border-slate-200 dark:border-slate-700 px-4 py-4">
           <div className="container mx-auto max-w-4xl">
+            {isTeamOwner && announceMode && (
+              <div className="flex items-center gap-2 mb-2 text-sm">
+                <Megaphone className="h-4 w-4 text-amber-600" />
+                <span className="text-amber-700 dark:text-amber-300 font-medium">
+                  {t('chat.announcementHint', 'Anuncio fijado para todo el equipo')}
+                </span>
+                {jobTasks.length > 0 && (
+                  <select
+                    value={announceTaskId}
+                    onChange={(e) => setAnnounceTaskId(e.target.value)}
+                    className="ml-auto px-2 py-1 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg text-slate-900 dark:text-white"
+                  >
+                    <option value="">{t('chat.noTask', 'Sin tarea')}</option>
+                    {jobTasks.map(task => (
+                      <option key={task.id} value={task.id}>{task.title}</option>
+                    ))}
+                  </select>
+                )}
+              </div>
+            )}
             <form onSubmit={handleSendMessage} className="flex gap-3">
+              {isTeamOwner && (
+                <button
+                  type="button"
+                  onClick={toggleAnnounceMode}
+                  className={`px-3 rounded-lg border transition-colors ${
+                    announceMode
+                      ? 'bg-amber-500 border-amber-500 text-white'
+                      : 'border-slate-300 dark:border-slate-600 text-slate-500 hover:text-amber-600'
+                  }`}
+                  title={t('chat.postAnnouncement', 'Publicar anuncio fijado')}
+                >
+                  <Megaphone className="h-5 w-5" />
+                </button>
+              )}
               <input
                 type="text"
                 value={newMessage}
                 onChange={(e) => setNewMessage(e.target.value)}
-                placeholder={t('chat.writeMessage', 'Escribí un mensaje...')}
+                placeholder={announceMode
+                  ? t('chat.writeAnnouncement', 'Escribí el anuncio para el equipo...')
+                  : isTeamChat
+                    ? t('chat.writeTeamMessage', 'Escribí un mensaje... (@nombre para mencionar)')
+                    : t('chat.writeMessage', 'Escribí un mensaje...')}
                 className="flex-1 px-4 py-3 bg-slate-50 dark:bg-slate-700 border border-slate-300 dark:border-slate-600 rounded-lg focus:ring-2 focus:ring-sky-500 focus:border-transparent text-slate-900 dark:text-white"
               />
               <button
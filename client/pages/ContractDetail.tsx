@@ -13,6 +13,7 @@ import ContractExtensionApproval from "@/components/contracts/ContractExtensionA
 import TaskClaimModal from "@/components/contracts/TaskClaimModal";
 import TaskClaimResponse from "@/components/contracts/TaskClaimResponse";
 import TaskEvidenceUploadModal from "@/components/contracts/TaskEvidenceUploadModal";
+import ContractMilestones from "@/components/contracts/ContractMilestones";
 import ConfirmModal from "@/components/ui/ConfirmModal";
 import {
   ArrowLeft,
@@ -646,6 +647,35 @@ export default function ContractDetail() {
                   <span className="text-gray-600 dark:text-gray-400">{t('contracts.price', 'Price')}:</span>
                   <span className="font-semibold text-gray-900 dark:text-white">${Number(contract.price || 0).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
                 </div>
+                {/* Desglose de la cotización: ítems con su parte de impuestos */}
+                {contract.lineItems?.length > 0 && contract.taxBreakdown && (
+                  <div className="border-t dark:border-gray-700 pt-2 text-sm space-y-1">
+                    <p className="text-gray-600 dark:text-gray-400">
+                      {t('contracts.quoteBreakdown', 'Según cotización')}{' '}
+                      <Link to={`/quotes/${contract.quoteId}`} className="text-sky-600 dark:text-sky-400 hover:underline">{contract.taxBreakdown.quoteNumber}</Link>
+                      {contract.paymentSchedule === 'per_line' && ` · ${t('contracts.paidPerLine', 'pago por ítem')}`}
+                    </p>
+                    {contract.lineItems.map((line: any) => (
+                      <div key={line.index} className="flex justify-between gap-3">
+                        <span className="text-gray-700 dark:text-gray-300 min-w-0 truncate">
+                          {line.qty} × {line.description}
+                          {line.paymentStatus && (
+                            <span className={`ml-2 text-xs ${line.paymentStatus === 'paid' ? 'text-green-600' : 'text-gray-400'}`}>
+                              {line.paymentStatus === 'paid' ? t('contracts.linePaid', 'pagado') : t('contracts.linePending', 'a pagar')}
+                            </span>
+                          )}
+                        </span>
+                        <span className="text-gray-900 dark:text-white whitespace-nowrap">${Number(line.total).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
+                      </div>
+                    ))}
+                    <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                      <span>Subtotal · IVA {contract.taxBreakdown.taxRate}%{contract.taxBreakdown.otherTaxes?.map((tax: any) => ` · ${tax.name} ${tax.rate}%`).join('')}</span>
+                      <span>
+                        ${Number(contract.taxBreakdown.subtotal).toLocaleString('es-AR', { minimumFractionDigits: 2 })} + ${(Number(contract.taxBreakdown.total) - Number(contract.taxBreakdown.subtotal)).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                      </span>
+                    </div>
+                  </div>
+                )}
                 <div className="flex justify-between">
                   <span className="text-gray-600 dark:text-gray-400">{t('contracts.commission', 'Commission')}:</span>
                   <span className="font-semibold text-gray-900 dark:text-white">${Number(contract.commission || 0).toLocaleString('es-AR', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
@@ -693,6 +723,15 @@ export default function ContractDetail() {
               </div>
             </div>
 
+            {contract.milestoneFunding && (
+              <ContractMilestones
+                contract={contract}
+                isClient={isClient}
+                isDoer={isDoer}
+                onChange={() => { loadContract(); loadPayments(); }}
+              />
+            )}
+
             <div className="bg-white dark:bg-slate-800 rounded-lg shadow p-6 border-2 border-green-500">
               <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
                 <Calendar className="h-5 w-5 text-sky-600 dark:text-sky-400" />
@@ -47,6 +47,8 @@ const CreateDispute: React.FC = () => {
   const { t } = useTranslation();
   const [searchParams] = useSearchParams();
   const contractIdFromUrl = searchParams.get('contractId');
+  // Disputa parcial: solo congela los fondos de ese hito
+  const milestoneIdFromUrl = searchParams.get('milestoneId');
   const { hasPermission, PERMISSIONS } = usePermissions();
 
   // Check permissions on mount
@@ -142,6 +144,7 @@ const CreateDispute: React.FC = () => {
 
       const formDataToSend = new FormData();
       formDataToSend.append('contractId', selectedContract);
+      if (milestoneIdFromUrl) formDataToSend.append('milestoneId', milestoneIdFromUrl);
       formDataToSend.append('reason', formData.reason);
       formDataToSend.append('description', formData.description);
       formDataToSend.append('category', formData.category);
@@ -6,6 +6,7 @@ import { useDropzone } from 'react-dropzone';
 import { useAuth } from '../hooks/useAuth';
 import { getImageUrl } from '../utils/imageUrl';
 import ConfirmModal from '../components/ui/ConfirmModal';
+import DisputeWorkflowPanel, { type DisputeWorkflow } from '../components/disputes/DisputeWorkflowPanel';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
@@ -60,6 +61,8 @@ interface Dispute {
   against: string;
   resolution?: string;
   resolvedAt?: Date;
+  defendantResponse?: string | null;
+  workflow?: DisputeWorkflow;
 }
 
 const DisputeDetail: React.FC = () => {
@@ -646,7 +649,22 @@ const DisputeDetail: React.FC = () => {
               </div>
             </div>
 
-            {/* Timeline */}
+            {/* Workflow: fases, plazos, propuesta del mediador y línea de tiempo */}
+            {dispute.workflow?.phase ? (
+              <DisputeWorkflowPanel
+                disputeId={dispute.id}
+                workflow={dispute.workflow}
+                party={
+                  (user?.id || user?._id) === dispute.initiatedBy
+                    ? 'initiator'
+                    : (user?.id || user?._id) === dispute.against
+                      ? 'defendant'
+                      : null
+                }
+                defendantResponse={dispute.defendantResponse}
+                onUpdated={fetchDispute}
+              />
+            ) : (
             <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
               <h3 className="font-semibold text-gray-900 dark:text-white mb-4">Estado</h3>
               <div className="space-y-3">
@@ -672,6 +690,7 @@ const DisputeDetail: React.FC = () => {
                 )}
               </div>
             </div>
+            )}
           </div>
         </div>
       </div>
@@ -178,6 +178,209 @@ function ObligacionInfo({ title, children }: { title: string; children: React.Re
   );
 }
 
+type FiscalVoucherType = "factura_b" | "factura_c" | "nota_credito_b" | "nota_credito_c";
+
+const VOUCHER_NAMES: Record<FiscalVoucherType, string> = {
+  factura_b: "Factura B",
+  factura_c: "Factura C",
+  nota_credito_b: "Nota de crédito B",
+  nota_credito_c: "Nota de crédito C",
+};
+
+interface ElectronicInvoicing {
+  fiscalCuit: string | null;
+  fiscalPointOfSale: number | null;
+  electronicInvoicingEnabled: boolean;
+  provider: "wsfe" | "offline";
+  readiness: { ready: boolean; voucherType: "factura_b" | "factura_c" | null; missing: string[] };
+  usage: { invoiced: number; limit: number | null; percent: number | null; level: "ok" | "near" | "over" };
+  invoices: {
+    id: string; invoiceNumber: string; fiscalType: FiscalVoucherType; fiscalNumber: string | null;
+    fiscalStatus: "pending" | "authorized" | "rejected"; status: "generated" | "sent" | "void";
+    creditedInvoiceNumber: string | null; cae: string | null; caeExpiresAt: string | null;
+    total: number; clientName: string | null; jobTitle: string | null; messages: string[]; createdAt: string;
+  }[];
+}
+
+/** Electronic invoicing (AFIP): CUIT, point of sale, opt-in, 12-month usage and issued invoices */
+function ElectronicInvoicingCard({ fiscalCondition }: { fiscalCondition: string | null }) {
+  const { t } = useTranslation();
+  const [info, setInfo] = useState<ElectronicInvoicing | null>(null);
+  const [cuit, setCuit] = useState("");
+  const [pointOfSale, setPointOfSale] = useState("");
+  const [enabled, setEnabled] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retrying, setRetrying] = useState<string | null>(null);
+  const authHeader = { Authorization: `Bearer ${localStorage.getItem("token")}` };
+
+  const load = async () => {
+    const res = await fetch("/api/membership/fiscal/invoicing", { headers: authHeader });
+    const json = await res.json();
+    if (json.success) {
+      setInfo(json.data);
+      setCuit(json.data.fiscalCuit || "");
+      setPointOfSale(json.data.fiscalPointOfSale ? String(json.data.fiscalPointOfSale) : "");
+      setEnabled(json.data.electronicInvoicingEnabled);
+    }
+  };
+
+  useEffect(() => {
+    load().catch(() => setInfo(null));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fiscalCondition]);
+
+  const save = async () => {
+    setSaving(true); setError(null);
+    try {
+      const res = await fetch("/api/membership/fiscal", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json", ...authHeader },
+        body: JSON.stringify({ fiscalCuit: cuit || null, fiscalPointOfSale: pointOfSale || null, electronicInvoicingEnabled: enabled }),
+      });
+      const json = await res.json();
+      if (json.success) await load();
+      else setError(json.message);
+    } finally { setSaving(false); }
+  };
+
+  const retry = async (id: string) => {
+    setRetrying(id); setError(null);
+    try {
+      const res = await fetch(`/api/payments/invoices/${id}/authorize`, { method: "POST", headers: authHeader });
+      const json = await res.json();
+      if (!json.success) setError(json.message);
+      await load();
+    } finally { setRetrying(null); }
+  };
+
+  const download = async (id: string, name: string) => {
+    const res = await fetch(`/api/payments/invoices/${id}/download`, { headers: authHeader });
+    if (!res.ok) return;
+    const url = URL.createObjectURL(await res.blob());
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `factura_${name}.pdf`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  if (!info) return null;
+  const inputCls = "block w-full h-11 rounded-xl border border-slate-200 dark:border-slate-700 bg-slate-50 dark:bg-slate-900 px-3 text-sm text-slate-900 dark:text-white focus:border-sky-500 focus:outline-none focus:ring-2 focus:ring-sky-200 dark:focus:ring-sky-800";
+  const letter = info.readiness.voucherType === "factura_b" ? "B" : info.readiness.voucherType === "factura_c" ? "C" : null;
+  const statusLabel = {
+    authorized: t("finance.einvoiceAuthorized", "Autorizada"),
+    pending: t("finance.einvoicePending", "Pendiente de AFIP"),
+    rejected: t("finance.einvoiceRejected", "Rechazada"),
+  };
+
+  return (
+    <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-5 shadow-sm">
+      <h3 className="font-semibold text-slate-900 dark:text-white flex items-center gap-2 mb-1">
+        <Receipt className="h-5 w-5 text-indigo-500" />
+        {t("finance.einvoiceTitle", "Factura electrónica")}
+        <InfoTip text={t("finance.einvoiceHelp", "Dá de alta un punto de venta \"Web Services\" en AFIP y delegá el servicio de factura electrónica a DOAPP. Después cargá acá tu CUIT y el número de punto de venta.")} />
+      </h3>
+      <p className="text-sm text-slate-500 dark:text-slate-400 mb-4">
+        {letter
+          ? t("finance.einvoiceIntro", "Cuando se completa un contrato, le emitimos al cliente tu Factura {{letter}} con CAE de AFIP.", { letter })
+          : t("finance.einvoiceNeedsCondition", "Elegí monotributo o responsable inscripto como condición fiscal para facturar electrónicamente.")}
+      </p>
+      <div className="grid sm:grid-cols-3 gap-4">
+        <label className="text-sm">
+          <span className="block text-slate-600 dark:text-slate-400 mb-1.5">CUIT</span>
+          <input value={cuit} onChange={(e) => setCuit(e.target.value.replace(/[^\d-]/g, "").slice(0, 13))} placeholder="20-12345678-6" className={inputCls} />
+        </label>
+        <label className="text-sm">
+          <span className="block text-slate-600 dark:text-slate-400 mb-1.5">{t("finance.pointOfSale", "Punto de venta")}</span>
+          <input type="number" inputMode="numeric" value={pointOfSale} onChange={(e) => setPointOfSale(e.target.value)} placeholder="3" className={inputCls} />
+        </label>
+        <label className="text-sm flex items-end gap-2 pb-3">
+          <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} className="h-4 w-4 rounded border-slate-300" />
+          <span className="text-slate-700 dark:text-slate-300">{t("finance.einvoiceEnable", "Facturar automáticamente")}</span>
+        </label>
+      </div>
+      <div className="flex items-center gap-3 mt-4">
+        <button onClick={save} disabled={saving} className="inline-flex items-center gap-2 px-4 py-2 rounded-xl bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-semibold disabled:opacity-50">
+          {saving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+          {t("common.save", "Guardar")}
+        </button>
+        {info.readiness.ready
+          ? <span className="inline-flex items-center gap-1 text-sm text-emerald-600 dark:text-emerald-400"><BadgeCheck className="h-4 w-4" />{t("finance.einvoiceReady", "Listo para facturar")}</span>
+          : <span className="text-sm text-amber-600 dark:text-amber-400">{t("finance.einvoiceMissing", "Falta:")} {info.readiness.missing.join(", ")}</span>}
+      </div>
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mt-2">{error}</p>}
+      {info.provider === "offline" && (
+        <p className="text-xs text-amber-600 dark:text-amber-400 mt-3 flex items-start gap-2">
+          <AlertTriangle className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+          {t("finance.einvoiceOffline", "Modo de prueba: las facturas se numeran sin conexión a AFIP y no tienen validez fiscal.")}
+        </p>
+      )}
+
+      {info.usage.limit !== null && info.usage.percent !== null && (
+        <div className="mt-5">
+          <div className="flex items-center justify-between text-sm mb-1.5">
+            <span className="text-slate-600 dark:text-slate-400">{t("finance.einvoiceUsage", "Facturado electrónicamente (últimos 12 meses)")}</span>
+            <span className="font-bold text-slate-700 dark:text-slate-300">{info.usage.percent}%</span>
+          </div>
+          <div className="h-2.5 rounded-full bg-slate-100 dark:bg-slate-700 overflow-hidden">
+            <div className={`h-full rounded-full ${info.usage.level === "over" ? "bg-red-500" : info.usage.level === "near" ? "bg-amber-500" : "bg-emerald-500"}`} style={{ width: `${Math.min(100, info.usage.percent)}%` }} />
+          </div>
+          <p className="text-xs text-slate-500 dark:text-slate-400 mt-1">{ars(info.usage.invoiced)} {t("finance.of", "de")} {ars(info.usage.limit)}</p>
+        </div>
+      )}
+
+      {info.invoices.length > 0 && (
+        <div className="mt-5 divide-y divide-slate-100 dark:divide-slate-700">
+          {info.invoices.map((inv) => (
+            <div key={inv.id} className="py-3 flex flex-wrap items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-900 dark:text-white">
+                  {VOUCHER_NAMES[inv.fiscalType]} {inv.fiscalNumber || "—"}
+                  {inv.status === "void" ? (
+                    <span className="ml-2 text-xs font-semibold text-slate-500">{t("finance.einvoiceVoid", "Anulada")}</span>
+                  ) : (
+                    <span className={`ml-2 text-xs font-semibold ${inv.fiscalStatus === "authorized" ? "text-emerald-600" : inv.fiscalStatus === "rejected" ? "text-red-600" : "text-amber-600"}`}>
+                      {statusLabel[inv.fiscalStatus]}
+                    </span>
+                  )}
+                </p>
+                <p className="text-xs text-slate-500 dark:text-slate-400 truncate">
+                  {inv.clientName || "—"} · {inv.jobTitle || "—"}{inv.cae ? ` · CAE ${inv.cae}` : ""}
+                </p>
+                {inv.creditedInvoiceNumber && (
+                  <p className="text-xs text-slate-500 dark:text-slate-400">
+                    {t("finance.einvoiceCredits", "Acredita {{voucher}}", { voucher: inv.creditedInvoiceNumber })}
+                  </p>
+                )}
+                {inv.status !== "void" && inv.fiscalStatus !== "authorized" && inv.messages.length > 0 && (
+                  <p className="text-xs text-red-500 mt-0.5">{inv.messages.join("; ")}</p>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="font-semibold text-slate-900 dark:text-white">
+                  {inv.creditedInvoiceNumber ? `-${ars(inv.total)}` : ars(inv.total)}
+                </span>
+                {inv.status === "void" && inv.fiscalStatus !== "authorized" ? null : inv.fiscalStatus === "authorized" ? (
+                  <button onClick={() => download(inv.id, inv.fiscalNumber || inv.invoiceNumber)} className="inline-flex items-center gap-1 text-xs font-semibold text-sky-600 dark:text-sky-400 hover:underline">
+                    <Download className="h-3.5 w-3.5" /> PDF
+                  </button>
+                ) : (
+                  <button onClick={() => retry(inv.id)} disabled={retrying === inv.id} className="text-xs font-semibold text-indigo-600 dark:text-indigo-400 hover:underline disabled:opacity-50">
+                    {retrying === inv.id ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : t("finance.einvoiceRetry", "Reintentar")}
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
 /** "Impuestos y Obligaciones" tab — fiscal config + plain-language obligations guide */
 function TaxTab({ data, onSaved }: { data: Analytics; onSaved: (d: Partial<Analytics>) => void }) {
   const { t } = useTranslation();
@@ -257,6 +460,9 @@ function TaxTab({ data, onSaved }: { data: Analytics; onSaved: (d: Partial<Analy
         </p>
       </div>
 
+      {/* Electronic invoicing (AFIP) */}
+      <ElectronicInvoicingCard fiscalCondition={data.fiscalCondition} />
+
       {/* Cap progress */}
       {limitPct !== null && (
         <div className="bg-white dark:bg-slate-800 rounded-2xl border border-slate-200 dark:border-slate-700 p-5 shadow-sm">
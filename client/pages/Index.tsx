@@ -3,7 +3,7 @@ import { Helmet } from "react-helmet-async";
 import { Link, useLocation } from "react-router-dom";
 import { useState, useEffect, useCallback, useRef } from "react";
 import { useTranslation, Trans } from "react-i18next";
-import { MapPin, Calendar, Clock, Star, Briefcase, CheckCircle, Plus } from "lucide-react";
+import { MapPin, Calendar, Clock, Star, Briefcase, CheckCircle, Plus, BookmarkPlus } from "lucide-react";
 import { JOB_CATEGORIES } from "../../shared/constants/categories";
 import type { Job, User as UserType } from "@/types";
 import SearchBar, { SearchFilters } from "../components/SearchBar";
@@ -13,6 +13,7 @@ import AdPlaceholder from "../components/AdPlaceholder";
 import { useSocket } from "../hooks/useSocket";
 import { getImageUrl } from "../utils/imageUrl";
 import WorkInProgress from "../components/jobs/WorkInProgress";
+import RecommendedJobs from "../components/jobs/RecommendedJobs";
 import { fetchWithAuth } from "../utils/fetchWithAuth";
 
 const handleSpotlightMove = (e: React.MouseEvent<HTMLElement>) => {
@@ -43,6 +44,8 @@ export default function Index() {
   const [myJobs, setMyJobs] = useState<Job[]>([]);
   const [jobsLoading, setJobsLoading] = useState(true);
   const [searchType, setSearchType] = useState<'jobs' | 'users'>('jobs');
+  const [activeFilters, setActiveFilters] = useState<SearchFilters | null>(null);
+  const [savedSearchMsg, setSavedSearchMsg] = useState<string | null>(null);
   const [howItWorksTab, setHowItWorksTab] = useState<'client' | 'worker'>('client');
   const { ads, recordImpression, recordClick } = useAdvertisements({
     placement: "jobs_list",
@@ -161,6 +164,7 @@ export default function Index() {
       }
 
       setSearchType('jobs');
+      setActiveFilters(filters || null);
       setJobsLoading(true);
       const params = new URLSearchParams({
         status: "open",
@@ -248,6 +252,44 @@ export default function Index() {
     fetchJobs(filters);
   };
 
+  const hasActiveFilters = !!activeFilters && !!(
+    activeFilters.query || activeFilters.location || activeFilters.category ||
+    activeFilters.tags.length || activeFilters.minBudget || activeFilters.maxBudget
+  );
+
+  // Guardar los filtros actuales como búsqueda con alertas de trabajos nuevos
+  const handleSaveSearch = async () => {
+    if (!activeFilters) return;
+    const suggested = activeFilters.query || JOB_CATEGORIES.find((c) => c.id === activeFilters.category)?.label || activeFilters.location || 'Mi búsqueda';
+    const name = window.prompt(t('home.saveSearchPrompt', 'Nombre de la búsqueda'), suggested);
+    if (!name?.trim()) return;
+
+    try {
+      const response = await fetchWithAuth('/api/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: name.trim(),
+          filters: {
+            query: activeFilters.query,
+            location: activeFilters.location,
+            category: activeFilters.category,
+            tags: activeFilters.tags,
+            minPrice: activeFilters.minBudget,
+            maxPrice: activeFilters.maxBudget,
+          },
+        }),
+      });
+      const data = await response.json();
+      setSavedSearchMsg(data.success
+        ? t('home.searchSaved', 'Búsqueda guardada. Te avisaremos cuando se publiquen trabajos nuevos.')
+        : data.message || t('home.searchSaveError', 'No se pudo guardar la búsqueda'));
+    } catch {
+      setSavedSearchMsg(t('home.searchSaveError', 'No se pudo guardar la búsqueda'));
+    }
+    setTimeout(() => setSavedSearchMsg(null), 4000);
+  };
+
   // Mix jobs and ads together - one ad every 2 rows (6 jobs), never consecutive ads
   const getMixedContent = () => {
     const mixed: Array<{
@@ -880,6 +922,9 @@ export default function Index() {
           </div>
         )}
 
+        {/* Trabajos recomendados para el doer (sin filtros activos) */}
+        {user && user.role !== 'client' && searchType === 'jobs' && !hasActiveFilters && <RecommendedJobs />}
+
         {/* Lista de trabajos disponibles */}
         {user && searchType === 'jobs' && (
           <div key="jobs-section" id="trabajos-disponibles" className="mt-8 sm:mt-10 px-2 animate-fadeInUp" data-onboarding="jobs-list">
@@ -887,7 +932,19 @@ export default function Index() {
               <h2 className="text-2xl sm:text-3xl font-bold text-gray-900 dark:text-white" data-onboarding="jobs-list-title">
                 {t('home.availableJobs')}
               </h2>
+              {hasActiveFilters && (
+                <button
+                  onClick={handleSaveSearch}
+                  className="flex items-center gap-1.5 px-3 py-2 text-xs sm:text-sm font-semibold text-sky-600 hover:text-sky-700 border border-sky-200 dark:border-sky-800 rounded-lg hover:bg-sky-50 dark:hover:bg-sky-900/20 transition-colors whitespace-nowrap"
+                >
+                  <BookmarkPlus className="h-4 w-4" />
+                  {t('home.saveSearch', 'Guardar búsqueda')}
+                </button>
+              )}
             </div>
+            {savedSearchMsg && (
+              <p className="mb-4 text-sm text-sky-700 dark:text-sky-300">{savedSearchMsg}</p>
+            )}
 
             {jobsLoading ? (
               <div className="flex justify-center py-12">
@@ -62,6 +62,7 @@ import useImageViewer from "../hooks/useImageViewer";
 import JobActionsMenu from "../components/jobDetail/JobActionsMenu";
 import ClientDropdownMenu from "../components/jobDetail/ClientDropdownMenu";
 import AdminJobDetailsPanel from "../components/jobDetail/AdminJobDetailsPanel";
+import RecommendedDoersPanel from "../components/jobDetail/RecommendedDoersPanel";
 
 export default function JobDetail() {
   const { id } = useParams<{ id: string }>();
@@ -2349,10 +2350,18 @@ export default function JobDetail() {
                   isOwner={!!isOwnJob}
                   isWorker={!!isWorkerOnJob}
                   jobStatus={job.status}
+                  jobEndDate={job.endDate}
                   clientConfirmed={
                     contractData?.clientConfirmed ||
                     (allContractsData?.allClientConfirmed ?? false)
                   }
+                  workers={
+                    allContractsData?.contracts?.length
+                      ? allContractsData.contracts.map((c) => ({ id: c.doerId, name: c.doerName }))
+                      : job.doer && typeof job.doer === "object"
+                        ? [{ id: (job.doer.id || job.doer._id) as string, name: job.doer.name }]
+                        : []
+                  }
                 />
               )}
 
@@ -2454,6 +2463,11 @@ export default function JobDetail() {
             {/* Admin Details Panel */}
             {user?.adminRole && <AdminJobDetailsPanel job={job} clientInfo={clientInfo} />}
 
+            {/* Recommended doers - only for the owner while the job is open */}
+            {isOwnJob && job.status === "open" && (
+              <RecommendedDoersPanel jobId={job.id || job._id} />
+            )}
+
             {/* Worker(s) Info - Public view of who is doing/did the work */}
             {((job.doer && typeof job.doer === "object") ||
               (job.selectedWorkersData &&
@@ -79,6 +79,20 @@ interface Message {
   createdAt: string;
 }
 
+// Message search result (GET /api/chat/search)
+interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationType: string;
+  jobTitle: string | null;
+  counterparts: Array<{ id: string; name: string; avatar: string | null }>;
+  sender: { id: string; name: string; avatar: string | null } | null;
+  type: string;
+  fileName: string | null;
+  sentAt: string;
+  snippet: { field: "message" | "fileName"; segments: Array<{ text: string; match: boolean }> };
+}
+
 // Helper to get ID from object (supports both PostgreSQL and MongoDB format)
 const getId = (obj: { id?: string; _id?: string } | null | undefined): string => {
   return obj?.id || obj?._id || '';
@@ -97,6 +111,7 @@ export default function MessagesScreen() {
     isConnected,
     getTypingUsers,
     isUserOnline,
+    requestPresence,
     markConversationAsRead,
   } = useSocket();
 
@@ -106,6 +121,14 @@ export default function MessagesScreen() {
   const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
+
+  // Full-text search across all conversations' messages
+  const [messageResults, setMessageResults] = useState<MessageSearchResult[]>([]);
+  const [searchingMessages, setSearchingMessages] = useState(false);
+  const [searchFrom, setSearchFrom] = useState("");
+  const [searchTo, setSearchTo] = useState("");
+  const [searchCounterpart, setSearchCounterpart] = useState("");
+  const messageSearchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const [localMessages, setLocalMessages] = useState<Message[]>([]);
   const [loadingMessages, setLoadingMessages] = useState(false);
@@ -147,6 +170,15 @@ export default function MessagesScreen() {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  // Load who is online among the other participants
+  useEffect(() => {
+    if (!isConnected || conversations.length === 0) return;
+    const userId = user?.id || user?._id;
+    const ids = conversations.flatMap((c) => c.participants.map((p) => getId(p)).filter((id) => id && id !== userId));
+    requestPresence([...new Set(ids)]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [conversations.length, isConnected]);
+
   // Handle conversation selection when ID param changes
   useEffect(() => {
     if (conversationIdParam && conversations.length > 0) {
@@ -236,6 +268,40 @@ export default function MessagesScreen() {
     }
   };
 
+  const searchMessages = async (query: string) => {
+    const params = new URLSearchParams({ q: query });
+    if (searchFrom) params.set("from", searchFrom);
+    if (searchTo) params.set("to", searchTo);
+    if (searchCounterpart) params.set("counterpartId", searchCounterpart);
+    setSearchingMessages(true);
+    try {
+      const response = await fetch(`/api/chat/search?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+      const data = await response.json();
+      setMessageResults(data.success ? data.data || [] : []);
+    } catch (error) {
+      console.error("Error searching messages:", error);
+    } finally {
+      setSearchingMessages(false);
+    }
+  };
+
+  // Debounced message search
+  useEffect(() => {
+    if (messageSearchTimerRef.current) clearTimeout(messageSearchTimerRef.current);
+    const query = searchQuery.trim();
+    if (query.length < 2 || !token) {
+      setMessageResults([]);
+      return;
+    }
+    messageSearchTimerRef.current = setTimeout(() => searchMessages(query), 400);
+    return () => {
+      if (messageSearchTimerRef.current) clearTimeout(messageSearchTimerRef.current);
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery, searchFrom, searchTo, searchCounterpart, token]);
+
   // Search users for new conversation
   const searchUsers = async (query: string) => {
     if (query.length < 2) {
@@ -495,6 +561,16 @@ export default function MessagesScreen() {
     ? getOtherParticipant(activeConversation.participants)
     : null;
 
+  // People the user talks to, for the message search filter
+  const counterpartOptions = Array.from(
+    new Map(
+      conversations
+        .flatMap((conv) => conv.participants)
+        .filter((p) => getId(p) && getId(p) !== (user?.id || user?._id))
+        .map((p) => [getId(p), p.name] as const)
+    )
+  );
+
   if (loading) {
     return (
       <div className="h-screen bg-slate-100 dark:bg-slate-900 flex">
@@ -572,11 +648,41 @@ export default function MessagesScreen() {
                 className="w-full pl-10 pr-4 py-2 bg-slate-100 dark:bg-slate-700 border-none rounded-lg text-sm text-slate-900 dark:text-white placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-sky-500"
               />
             </div>
+
+            {/* Message search filters */}
+            {searchQuery.trim().length >= 2 && (
+              <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+                <select
+                  value={searchCounterpart}
+                  onChange={(e) => setSearchCounterpart(e.target.value)}
+                  className="col-span-2 px-2 py-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg text-slate-700 dark:text-slate-200 border-none"
+                >
+                  <option value="">{t('chat.searchAnyone', 'Con cualquier persona')}</option>
+                  {counterpartOptions.map(([id, name]) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+                <input
+                  type="date"
+                  value={searchFrom}
+                  onChange={(e) => setSearchFrom(e.target.value)}
+                  title={t('chat.searchFrom', 'Desde')}
+                  className="px-2 py-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg text-slate-700 dark:text-slate-200 border-none"
+                />
+                <input
+                  type="date"
+                  value={searchTo}
+                  onChange={(e) => setSearchTo(e.target.value)}
+                  title={t('chat.searchTo', 'Hasta')}
+                  className="px-2 py-1.5 bg-slate-100 dark:bg-slate-700 rounded-lg text-slate-700 dark:text-slate-200 border-none"
+                />
+              </div>
+            )}
           </div>
 
           {/* Conversations List */}
           <div className="flex-1 overflow-y-auto">
-            {filteredConversations.length === 0 ? (
+            {filteredConversations.length === 0 && messageResults.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full px-4 text-center">
                 <MessageCircle className="h-16 w-16 text-slate-300 dark:text-slate-600 mb-4" />
                 <h3 className="text-lg font-semibold text-slate-900 dark:text-white mb-2">
@@ -670,6 +776,45 @@ export default function MessagesScreen() {
                 );
               })
             )}
+
+            {/* Message search results */}
+            {searchQuery.trim().length >= 2 && (searchingMessages || messageResults.length > 0) && (
+              <div className="border-t border-slate-200 dark:border-slate-700">
+                <p className="px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-slate-500 dark:text-slate-400 flex items-center gap-2">
+                  {t('chat.messageResults', 'Mensajes')}
+                  {searchingMessages && <Loader2 className="h-3 w-3 animate-spin" />}
+                </p>
+                {messageResults.map((result) => (
+                  <button
+                    key={result.messageId}
+                    onClick={() => navigate(`/chat/${result.conversationId}?message=${result.messageId}`)}
+                    className="w-full px-3 py-2 text-left hover:bg-slate-50 dark:hover:bg-slate-700 transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-slate-900 dark:text-white truncate">
+                        {result.conversationType === "job_team"
+                          ? result.jobTitle || t('chat.teamChat', 'Equipo')
+                          : result.counterparts.map((c) => c.name).join(", ") || "Usuario"}
+                      </span>
+                      <span className="text-xs text-slate-500 dark:text-slate-400 flex-shrink-0">
+                        {formatTime(result.sentAt)}
+                      </span>
+                    </div>
+                    <p className="text-sm text-slate-600 dark:text-slate-300 line-clamp-2">
+                      {result.sender && <span className="text-slate-500 dark:text-slate-400">{result.sender.name}: </span>}
+                      {result.snippet.field === "fileName" && <Paperclip className="inline h-3 w-3 mr-1" />}
+                      {result.snippet.segments.map((segment, i) =>
+                        segment.match ? (
+                          <mark key={i} className="bg-amber-200 dark:bg-amber-600/60 text-inherit rounded px-0.5">{segment.text}</mark>
+                        ) : (
+                          <span key={i}>{segment.text}</span>
+                        )
+                      )}
+                    </p>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -29,6 +29,8 @@ import {
   ChevronDown,
   ChevronUp,
   ExternalLink,
+  RefreshCw,
+  CalendarX,
 } from "lucide-react";
 import JobsCalendar from "../components/jobs/JobsCalendar";
 
@@ -80,6 +82,43 @@ interface AvailabilitySlot {
   end: string;
 }
 
+interface AvailabilityBlackout {
+  from: string;
+  to: string;
+  reason?: string;
+}
+
+interface ExternalCalendarStatus {
+  url: string | null;
+  syncedAt: string | null;
+  error: string | null;
+}
+
+interface RecurringOccurrence {
+  recurringJobId: string;
+  occurrenceDate: string;
+  startsAt: string;
+  endsAt: string;
+  status: string;
+  role: 'client' | 'doer';
+  jobId?: string | null;
+  paymentUrl?: string | null;
+  title: string;
+  description: string;
+  price: number;
+  category: string;
+  location: string;
+}
+
+interface CalendarRecurring {
+  seriesId: string;
+  occurrenceDate: string;
+  status: string;
+  role: 'client' | 'doer';
+  jobId?: string | null;
+  paymentUrl?: string | null;
+}
+
 const DAY_NAMES = ['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'];
 const DAY_NAMES_FULL = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
 const ICS_DAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
@@ -129,6 +168,7 @@ export default function MyJobsScreen() {
   const navigate = useNavigate();
   const [jobs, setJobs] = useState<Job[]>([]);
   const [proposals, setProposals] = useState<Proposal[]>([]);
+  const [recurringOccurrences, setRecurringOccurrences] = useState<RecurringOccurrence[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingProposals, setLoadingProposals] = useState(true);
   const [mainTab, setMainTab] = useState<MainTab>(() => {
@@ -163,6 +203,13 @@ export default function MyJobsScreen() {
   const availabilitySlotsRef = useRef<AvailabilitySlot[]>([]);
   const isAvailabilityPublicRef = useRef(false);
   const availabilityLocallyModified = useRef(false);
+  // Bloqueos y calendario externo (se guardan por /api/availability/me)
+  const [blackouts, setBlackouts] = useState<AvailabilityBlackout[]>([]);
+  const [newBlackout, setNewBlackout] = useState<AvailabilityBlackout>({ from: '', to: '', reason: '' });
+  const [externalCalendar, setExternalCalendar] = useState<ExternalCalendarStatus>({ url: null, syncedAt: null, error: null });
+  const [calendarUrlInput, setCalendarUrlInput] = useState('');
+  const [savingCalendar, setSavingCalendar] = useState(false);
+  const travelBufferRef = useRef<number | undefined>(undefined);
 
   const fetchMyJobs = useCallback(async () => {
     try {
@@ -182,6 +229,52 @@ export default function MyJobsScreen() {
     }
   }, []);
 
+  // Ocurrencias de series recurrentes (como cliente o Doer preferido) para el calendario
+  const fetchRecurringOccurrences = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch("/api/recurring-jobs/calendar", {
+        headers: {
+          Authorization: `Bearer ${token}`,
+        },
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setRecurringOccurrences(data.data || []);
+      }
+    } catch (error) {
+      console.error("❌ Error fetching recurring occurrences:", error);
+    }
+  }, [token]);
+
+  const handleRecurringAction = useCallback(async (
+    job: { recurring?: { seriesId: string; occurrenceDate: string } },
+    action: 'skip' | 'reschedule' | 'accept' | 'decline',
+    startsAt?: string
+  ) => {
+    if (!job.recurring) return;
+    try {
+      const response = await fetch(`/api/recurring-jobs/${job.recurring.seriesId}/occurrences/${job.recurring.occurrenceDate}/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        credentials: 'include',
+        body: JSON.stringify(startsAt ? { startsAt } : {}),
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setErrorMessage(data.message || 'Error al actualizar la ocurrencia');
+        setShowErrorModal(true);
+        return;
+      }
+      fetchRecurringOccurrences();
+      fetchMyJobs();
+    } catch {
+      setErrorMessage('Error de conexión al actualizar la ocurrencia');
+      setShowErrorModal(true);
+    }
+  }, [token, fetchRecurringOccurrences, fetchMyJobs]);
+
   const fetchMyProposals = useCallback(async () => {
     if (!token) return;
     try {
@@ -372,6 +465,10 @@ export default function MyJobsScreen() {
     fetchMyProposals();
   }, [fetchMyProposals]);
 
+  useEffect(() => {
+    fetchRecurringOccurrences();
+  }, [fetchRecurringOccurrences]);
+
   // On mount: refresh user to get fresh data from server
   useEffect(() => {
     refreshUser().catch(() => {});
@@ -419,6 +516,99 @@ export default function MyJobsScreen() {
     }
   }, [token]);
 
+  const applyAvailabilitySettings = useCallback((settings: any) => {
+    setBlackouts(settings.availabilitySchedule?.blackouts || []);
+    travelBufferRef.current = settings.availabilitySchedule?.travelBufferMinutes;
+    setExternalCalendar(settings.externalCalendar);
+    setCalendarUrlInput(settings.externalCalendar?.url || '');
+  }, []);
+
+  const fetchAvailabilitySettings = useCallback(async () => {
+    if (!token) return;
+    try {
+      const response = await fetch('/api/availability/me', {
+        headers: { Authorization: `Bearer ${token}` },
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (data.success) applyAvailabilitySettings(data.data);
+    } catch (error) {
+      console.error("❌ Error fetching availability settings:", error);
+    }
+  }, [token, applyAvailabilitySettings]);
+
+  useEffect(() => {
+    if (showAvailability) fetchAvailabilitySettings();
+  }, [showAvailability, fetchAvailabilitySettings]);
+
+  const saveBlackouts = async (next: AvailabilityBlackout[]) => {
+    setSavingAvailability(true);
+    try {
+      const response = await fetch('/api/availability/me', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        credentials: 'include',
+        body: JSON.stringify({
+          availabilitySchedule: {
+            timezone: 'America/Argentina/Buenos_Aires',
+            slots: availabilitySlotsRef.current,
+            exceptions: [],
+            blackouts: next,
+            travelBufferMinutes: travelBufferRef.current,
+          },
+        }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        applyAvailabilitySettings(data.data);
+        setNewBlackout({ from: '', to: '', reason: '' });
+      } else {
+        setErrorMessage(data.message || 'Error al guardar los bloqueos');
+        setShowErrorModal(true);
+      }
+    } catch {
+      setErrorMessage('Error de conexión al guardar los bloqueos');
+      setShowErrorModal(true);
+    } finally {
+      setSavingAvailability(false);
+    }
+  };
+
+  const addBlackout = () => {
+    if (!newBlackout.from) return;
+    const to = newBlackout.to || newBlackout.from;
+    saveBlackouts([...blackouts, { from: newBlackout.from, to, ...(newBlackout.reason ? { reason: newBlackout.reason } : {}) }]);
+  };
+
+  const removeBlackout = (index: number) => {
+    saveBlackouts(blackouts.filter((_, i) => i !== index));
+  };
+
+  // Conectar, quitar (url vacía) o resincronizar el calendario externo (.ics)
+  const saveExternalCalendar = async (sync = false) => {
+    setSavingCalendar(true);
+    try {
+      const response = await fetch(sync ? '/api/availability/me/external-calendar/sync' : '/api/availability/me/external-calendar', {
+        method: sync ? 'POST' : 'PUT',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        credentials: 'include',
+        body: sync ? undefined : JSON.stringify({ url: calendarUrlInput.trim() || null }),
+      });
+      const data = await response.json();
+      if (data.success) {
+        applyAvailabilitySettings(data.data);
+      } else {
+        setErrorMessage(data.message || 'Error al guardar el calendario externo');
+        setShowErrorModal(true);
+      }
+    } catch {
+      setErrorMessage('Error de conexión al guardar el calendario externo');
+      setShowErrorModal(true);
+    } finally {
+      setSavingCalendar(false);
+    }
+  };
+
   const addSlot = (day: number) => {
     availabilityLocallyModified.current = true;
     const next = [...availabilitySlotsRef.current, { day, start: '09:00', end: '18:00' }];
@@ -681,7 +871,7 @@ export default function MyJobsScreen() {
   const disputedProposalsCount = proposals.filter(p => p.job?.status === "disputed").length;
 
   // Transform data for calendar - memoized to prevent unnecessary re-renders
-  const calendarJobs = useMemo(() => mainTab === "published"
+  const baseCalendarJobs = useMemo(() => mainTab === "published"
     ? filteredJobs.map(job => ({
         id: job.id,
         title: job.title,
@@ -707,6 +897,43 @@ export default function MyJobsScreen() {
       })),
   [filteredJobs, filteredProposals, mainTab]);
 
+  // Recurring occurrences: the ones already generated decorate their job, the rest are added
+  const calendarJobs = useMemo(() => {
+    const role = mainTab === "published" ? "client" : "doer";
+    type CalendarEntry = (typeof baseCalendarJobs)[number] & { recurring?: CalendarRecurring };
+    const byJobId = new Map<string, CalendarEntry>(baseCalendarJobs.map(job => [job.id, job]));
+    const extra: CalendarEntry[] = [];
+    for (const occurrence of recurringOccurrences) {
+      if (occurrence.role !== role) continue;
+      const recurring: CalendarRecurring = {
+        seriesId: occurrence.recurringJobId,
+        occurrenceDate: occurrence.occurrenceDate,
+        status: occurrence.status,
+        role: occurrence.role,
+        jobId: occurrence.jobId,
+        paymentUrl: occurrence.paymentUrl,
+      };
+      const existing = occurrence.jobId ? byJobId.get(occurrence.jobId) : undefined;
+      if (existing) {
+        byJobId.set(existing.id, { ...existing, recurring });
+        continue;
+      }
+      extra.push({
+        id: occurrence.jobId || `recurring-${occurrence.recurringJobId}-${occurrence.occurrenceDate}`,
+        title: occurrence.title,
+        description: occurrence.description,
+        price: occurrence.price,
+        category: occurrence.category,
+        location: occurrence.location,
+        startDate: occurrence.startsAt,
+        endDate: occurrence.endsAt,
+        status: occurrence.status,
+        recurring,
+      });
+    }
+    return [...byJobId.values(), ...extra];
+  }, [baseCalendarJobs, recurringOccurrences, mainTab]);
+
   if (loading && loadingProposals) {
     return (
       <div className="min-h-screen bg-slate-50 dark:bg-slate-900 flex items-center justify-center">
@@ -887,6 +1114,111 @@ export default function MyJobsScreen() {
                 </div>
               )}
 
+              {/* Blackout dates */}
+              <div className="mb-4 pt-3 border-t border-slate-100 dark:border-slate-700">
+                <div className="flex items-center gap-2 mb-2">
+                  <CalendarX className="h-4 w-4 text-slate-500" />
+                  <span className="font-medium text-slate-900 dark:text-white">{t('jobs.blackouts', 'Fechas bloqueadas')}</span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                  {t('jobs.blackoutsHint', 'No vas a poder postularte ni ser aceptado para trabajos en estas fechas.')}
+                </p>
+                {blackouts.length > 0 && (
+                  <div className="space-y-2 mb-3">
+                    {blackouts.map((blackout, i) => (
+                      <div key={`${blackout.from}-${i}`} className="flex items-center justify-between text-sm bg-slate-50 dark:bg-slate-700 rounded-lg px-3 py-2">
+                        <span className="text-slate-700 dark:text-slate-200">
+                          {blackout.from === blackout.to ? blackout.from : `${blackout.from} → ${blackout.to}`}
+                          {blackout.reason && <span className="text-slate-400"> · {blackout.reason}</span>}
+                        </span>
+                        <button
+                          onClick={() => removeBlackout(i)}
+                          className="p-1 text-red-500 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-lg transition-colors"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="date"
+                    value={newBlackout.from}
+                    onChange={(e) => setNewBlackout({ ...newBlackout, from: e.target.value })}
+                    className="px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+                  />
+                  <span className="text-slate-400 text-sm">a</span>
+                  <input
+                    type="date"
+                    value={newBlackout.to}
+                    min={newBlackout.from || undefined}
+                    onChange={(e) => setNewBlackout({ ...newBlackout, to: e.target.value })}
+                    className="px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+                  />
+                  <input
+                    type="text"
+                    value={newBlackout.reason}
+                    maxLength={100}
+                    onChange={(e) => setNewBlackout({ ...newBlackout, reason: e.target.value })}
+                    placeholder={t('jobs.blackoutReason', 'Motivo (opcional)')}
+                    className="flex-1 min-w-[8rem] px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+                  />
+                  <button
+                    onClick={addBlackout}
+                    disabled={!newBlackout.from || savingAvailability}
+                    className="flex items-center gap-1 text-xs font-medium text-sky-600 hover:text-sky-700 bg-sky-50 dark:bg-sky-900/20 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    <Plus className="h-3.5 w-3.5" />
+                    {t('jobs.addBlackout', 'Bloquear')}
+                  </button>
+                </div>
+              </div>
+
+              {/* External calendar (.ics) */}
+              <div className="mb-4 pt-3 border-t border-slate-100 dark:border-slate-700">
+                <div className="flex items-center gap-2 mb-2">
+                  <CalendarDays className="h-4 w-4 text-slate-500" />
+                  <span className="font-medium text-slate-900 dark:text-white">{t('jobs.externalCalendar', 'Calendario externo')}</span>
+                </div>
+                <p className="text-xs text-slate-500 dark:text-slate-400 mb-3">
+                  {t('jobs.externalCalendarHint', 'Pegá la URL .ics (iCal) de tu calendario de Google, Outlook o Apple: sus eventos cuentan como horarios ocupados.')}
+                </p>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    type="url"
+                    value={calendarUrlInput}
+                    onChange={(e) => setCalendarUrlInput(e.target.value)}
+                    placeholder="https://calendar.google.com/calendar/ical/.../basic.ics"
+                    className="flex-1 min-w-[12rem] px-3 py-2 text-sm rounded-lg border border-slate-200 dark:border-slate-600 bg-slate-50 dark:bg-slate-700 text-slate-900 dark:text-white"
+                  />
+                  <button
+                    onClick={() => saveExternalCalendar()}
+                    disabled={savingCalendar || calendarUrlInput.trim() === (externalCalendar.url || '')}
+                    className="text-xs font-medium text-white bg-sky-500 hover:bg-sky-600 px-3 py-2 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {calendarUrlInput.trim() || !externalCalendar.url ? t('common.save', 'Guardar') : t('jobs.disconnect', 'Desconectar')}
+                  </button>
+                  {externalCalendar.url && (
+                    <button
+                      onClick={() => saveExternalCalendar(true)}
+                      disabled={savingCalendar}
+                      title={t('jobs.syncNow', 'Sincronizar ahora')}
+                      className="p-2 text-sky-500 hover:bg-sky-50 dark:hover:bg-sky-900/20 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      <RefreshCw className={`h-4 w-4 ${savingCalendar ? 'animate-spin' : ''}`} />
+                    </button>
+                  )}
+                </div>
+                {externalCalendar.error ? (
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">{externalCalendar.error}</p>
+                ) : externalCalendar.syncedAt && (
+                  <p className="mt-2 text-xs text-slate-500 dark:text-slate-400">
+                    {t('jobs.lastSynced', 'Última sincronización')}: {new Date(externalCalendar.syncedAt).toLocaleString('es-AR')}
+                  </p>
+                )}
+              </div>
+
               {/* Auto-save indicator */}
               {savingAvailability && (
                 <div className="flex items-center justify-center gap-2 py-2 text-slate-500 dark:text-slate-400 text-sm">
@@ -936,6 +1268,7 @@ export default function MyJobsScreen() {
             availabilitySlots={availabilitySlots}
             onAddAvailability={handleCalendarAddAvailability}
             onRemoveAvailability={handleCalendarRemoveAvailability}
+            onRecurringAction={handleRecurringAction}
           />
         )}
 
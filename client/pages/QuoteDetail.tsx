@@ -38,6 +38,9 @@ export default function QuoteDetail() {
   const [showRejectModal, setShowRejectModal] = useState(false);
   const [rejectReason, setRejectReason] = useState('');
   const [downloadingPdf, setDownloadingPdf] = useState(false);
+  // Cómo se pasan los ítems al contrato (solo cotizaciones ligadas a un trabajo)
+  const [lineMapping, setLineMapping] = useState<'none' | 'tasks' | 'deliveries'>('none');
+  const [paymentSchedule, setPaymentSchedule] = useState<'single' | 'per_line'>('single');
 
   const loadQuote = async () => {
     try {
@@ -63,10 +66,14 @@ export default function QuoteDetail() {
     try {
       const res = await fetch(`${API_URL}/quotes/${id}/accept`, {
         method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+        body: JSON.stringify(quote?.jobId ? { lineMapping, paymentSchedule } : {}),
       });
       const data = await res.json();
-      if (data.success) setQuote(prev => prev ? { ...prev, status: 'accepted' } : prev);
+      if (data.success) {
+        if (data.contractId) navigate(`/contracts/${data.contractId}`);
+        else setQuote(prev => prev ? { ...prev, status: 'accepted' } : prev);
+      }
     } catch (_) { /* silenced */ }
     setAccepting(false);
   };
@@ -203,6 +210,34 @@ export default function QuoteDetail() {
             </div>
           </div>
 
+          {isRecipient && quote.status === 'sent' && quote.jobId && (
+            <div className="mt-4 grid grid-cols-1 sm:grid-cols-2 gap-3 bg-slate-50 dark:bg-slate-700/40 rounded-lg p-3 text-sm">
+              <label className="flex flex-col gap-1 text-slate-600 dark:text-slate-300">
+                Cada ítem del contrato se convierte en
+                <select
+                  value={lineMapping}
+                  onChange={(e) => setLineMapping(e.target.value as typeof lineMapping)}
+                  className="px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                >
+                  <option value="none">Solo una línea del contrato</option>
+                  <option value="tasks">Una tarea del trabajo</option>
+                  <option value="deliveries">Una entrega del contrato</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-slate-600 dark:text-slate-300">
+                Forma de pago
+                <select
+                  value={paymentSchedule}
+                  onChange={(e) => setPaymentSchedule(e.target.value as typeof paymentSchedule)}
+                  className="px-2 py-1.5 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-800 text-slate-900 dark:text-white"
+                >
+                  <option value="single">Total del contrato</option>
+                  <option value="per_line">Por ítem (hitos)</option>
+                </select>
+              </label>
+            </div>
+          )}
+
           {quote.rejectionReason && quote.status === 'rejected' && (
             <div className="mt-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-3">
               <p className="text-sm font-medium text-red-700 dark:text-red-400">Motivo de rechazo:</p>
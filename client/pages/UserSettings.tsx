@@ -28,6 +28,10 @@ import {
   Upload,
   ShieldCheck,
   X,
+  Search,
+  Trash2,
+  BellOff,
+  Moon,
 } from "lucide-react";
 import { JOB_CATEGORIES } from "../../shared/constants/categories";
 import { useOnboarding } from "../hooks/useOnboarding";
@@ -186,6 +190,316 @@ function PasswordSection() {
   );
 }
 
+interface SavedSearchItem {
+  id: string;
+  name: string;
+  filters: Record<string, any>;
+  muted: boolean;
+  frequency: 'instant' | 'daily';
+  emailDigest: boolean;
+  matchCount: number;
+  lastMatchedAt?: string | null;
+}
+
+// Resumen legible de los filtros de una búsqueda guardada
+const describeSavedFilters = (filters: Record<string, any>): string => {
+  const parts: string[] = [];
+  if (filters.query) parts.push(`"${filters.query}"`);
+  if (filters.category) parts.push(JOB_CATEGORIES.find((c) => c.id === filters.category)?.label || filters.category);
+  if (filters.tags?.length) parts.push(filters.tags.map((tag: string) => `#${tag}`).join(' '));
+  if (filters.location) parts.push(filters.location);
+  if (filters.maxDistance) parts.push(`${filters.maxDistance} km`);
+  if (filters.minPrice || filters.maxPrice) {
+    parts.push(`$${Number(filters.minPrice || 0).toLocaleString('es-AR')} – ${filters.maxPrice ? `$${Number(filters.maxPrice).toLocaleString('es-AR')}` : '∞'}`);
+  }
+  if (filters.urgency) parts.push(`urgencia ${filters.urgency}`);
+  return parts.join(' · ');
+};
+
+function SavedSearchesSection() {
+  const { t } = useTranslation();
+  const { token } = useAuth();
+  const [searches, setSearches] = useState<SavedSearchItem[] | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const request = (path: string, options: RequestInit = {}) =>
+    fetch(`${API_URL}/saved-searches${path}`, {
+      ...options,
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    }).then((res) => res.json());
+
+  useEffect(() => {
+    request('')
+      .then((data) => setSearches(data.success ? data.data : []))
+      .catch(() => setSearches([]));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const updateSearch = async (id: string, changes: Partial<SavedSearchItem>) => {
+    setSearches((prev) => prev?.map((s) => (s.id === id ? { ...s, ...changes } : s)) || prev);
+    try {
+      const data = await request(`/${id}`, { method: 'PATCH', body: JSON.stringify(changes) });
+      if (!data.success) setMsg(data.message || t('settings.savedSearches.error', 'No se pudo actualizar la búsqueda'));
+    } catch {
+      setMsg(t('auth.connectionError'));
+    }
+  };
+
+  const deleteSearch = async (id: string) => {
+    if (!confirm(t('settings.savedSearches.confirmDelete', '¿Eliminar esta búsqueda guardada?'))) return;
+    try {
+      const data = await request(`/${id}`, { method: 'DELETE' });
+      if (data.success) setSearches((prev) => prev?.filter((s) => s.id !== id) || prev);
+      else setMsg(data.message || 'Error');
+    } catch {
+      setMsg(t('auth.connectionError'));
+    }
+  };
+
+  if (searches === null) return null;
+
+  return (
+    <div className="border-t border-slate-200 dark:border-slate-700 pt-6">
+      <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <Search className="h-5 w-5" />
+        {t('settings.savedSearches.title', 'Búsquedas guardadas')}
+      </h3>
+      <p className="text-sm text-gray-600 dark:text-slate-400 mb-4">
+        {t('settings.savedSearches.desc', 'Te avisamos cuando se publica un trabajo que cumple tus búsquedas. Guardá una desde el buscador de trabajos.')}
+      </p>
+      {msg && (
+        <div className="mb-4 p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">{msg}</div>
+      )}
+      {searches.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-slate-400">
+          {t('settings.savedSearches.empty', 'Todavía no guardaste ninguna búsqueda.')}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {searches.map((search) => (
+            <div key={search.id} className={`p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg ${search.muted ? 'opacity-70' : ''}`}>
+              <div className="flex items-start justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white flex items-center gap-2">
+                    {search.muted && <BellOff className="h-4 w-4 text-gray-400" />}
+                    {search.name}
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-slate-400 truncate">{describeSavedFilters(search.filters)}</p>
+                  <p className="text-xs text-gray-500 dark:text-slate-500 mt-1">
+                    {t('settings.savedSearches.matches', '{{count}} trabajos encontrados', { count: search.matchCount })}
+                    {search.lastMatchedAt && ` · ${t('settings.savedSearches.last', 'último')} ${new Date(search.lastMatchedAt).toLocaleDateString('es-AR')}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => deleteSearch(search.id)}
+                  className="p-2 text-gray-400 hover:text-red-600 transition-colors"
+                  title={t('common.delete', 'Eliminar')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+              <div className="flex flex-wrap items-center gap-4 mt-3 text-sm text-gray-700 dark:text-slate-300">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={!search.muted}
+                    onChange={(e) => updateSearch(search.id, { muted: !e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  {t('settings.savedSearches.alerts', 'Alertas')}
+                </label>
+                <select
+                  value={search.frequency}
+                  disabled={search.muted}
+                  onChange={(e) => updateSearch(search.id, { frequency: e.target.value as SavedSearchItem['frequency'] })}
+                  className="px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm disabled:opacity-50"
+                >
+                  <option value="instant">{t('settings.savedSearches.instant', 'Al instante')}</option>
+                  <option value="daily">{t('settings.savedSearches.daily', 'Resumen diario')}</option>
+                </select>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={search.emailDigest}
+                    disabled={search.muted}
+                    onChange={(e) => updateSearch(search.id, { emailDigest: e.target.checked })}
+                    className="h-4 w-4 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+                  />
+                  {t('settings.savedSearches.emailDigest', 'Email diario')}
+                </label>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+type DeliveryMode = 'instant' | 'hourly' | 'daily' | 'off';
+
+interface DeliveryPrefs {
+  language: 'es' | 'en';
+  quietHours: { enabled: boolean; start: string; end: string; timezone: string };
+  delivery: Record<string, DeliveryMode>;
+  digestHour: number;
+}
+
+const DELIVERY_CATEGORIES = [
+  { key: 'chat', label: 'Mensajes de chat' },
+  { key: 'proposal', label: 'Postulaciones' },
+  { key: 'jobs', label: 'Trabajos' },
+  { key: 'contract', label: 'Contratos' },
+  { key: 'payment', label: 'Pagos' },
+];
+
+const BROWSER_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'America/Argentina/Buenos_Aires';
+
+// Idioma, horario de silencio y modo de entrega por categoría (se guardan al cambiar)
+function DeliveryPreferencesSection() {
+  const { t } = useTranslation();
+  const { token } = useAuth();
+  const [prefs, setPrefs] = useState<DeliveryPrefs | null>(null);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const request = (options: RequestInit = {}) =>
+    fetch(`${API_URL}/notifications/preferences`, {
+      ...options,
+      credentials: 'include',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
+      },
+    }).then((res) => res.json());
+
+  useEffect(() => {
+    request()
+      .then((data) => {
+        const stored = data.success ? data.data || {} : {};
+        setPrefs({
+          language: stored.language || 'es',
+          quietHours: stored.quietHours || { enabled: false, start: '22:00', end: '08:00', timezone: BROWSER_TIMEZONE },
+          delivery: stored.delivery || {},
+          digestHour: stored.digestHour ?? 9,
+        });
+      })
+      .catch(() => setMsg(t('auth.connectionError')));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  const save = async (changes: Partial<DeliveryPrefs>) => {
+    setPrefs((prev) => (prev ? { ...prev, ...changes } : prev));
+    setMsg(null);
+    try {
+      const data = await request({ method: 'PUT', body: JSON.stringify(changes) });
+      if (!data.success) setMsg(data.message || t('settings.delivery.error', 'No se pudieron guardar las preferencias'));
+    } catch {
+      setMsg(t('auth.connectionError'));
+    }
+  };
+
+  if (!prefs) return null;
+
+  const selectClass = 'px-2 py-1 rounded-lg border border-slate-200 dark:border-slate-600 bg-white dark:bg-slate-700 text-sm disabled:opacity-50';
+
+  return (
+    <div className="border-t border-slate-200 dark:border-slate-700 pt-6 space-y-5">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+          <Moon className="h-5 w-5" />
+          {t('settings.delivery.title', 'Cuándo te avisamos')}
+        </h3>
+        <p className="text-sm text-gray-600 dark:text-slate-400">
+          {t('settings.delivery.desc', 'Las notificaciones en la app llegan siempre. Acá elegís cuándo salen los emails y push: al instante, en un resumen o nunca. Varios mensajes seguidos de una conversación llegan en un solo aviso.')}
+        </p>
+      </div>
+      {msg && (
+        <div className="p-3 rounded-lg text-sm bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300">{msg}</div>
+      )}
+
+      <div className="p-4 bg-slate-50 dark:bg-slate-700/50 rounded-lg space-y-3">
+        <label className="flex items-center justify-between gap-3">
+          <span className="font-medium text-gray-900 dark:text-white">{t('settings.delivery.quietHours', 'Horario de silencio')}</span>
+          <input
+            type="checkbox"
+            checked={prefs.quietHours.enabled}
+            onChange={(e) => save({ quietHours: { ...prefs.quietHours, enabled: e.target.checked } })}
+            className="h-5 w-5 rounded border-gray-300 text-sky-600 focus:ring-sky-500"
+          />
+        </label>
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-slate-300">
+          <span>{t('settings.delivery.from', 'De')}</span>
+          <input
+            type="time"
+            value={prefs.quietHours.start}
+            disabled={!prefs.quietHours.enabled}
+            onChange={(e) => e.target.value && save({ quietHours: { ...prefs.quietHours, start: e.target.value } })}
+            className={selectClass}
+          />
+          <span>{t('settings.delivery.to', 'a')}</span>
+          <input
+            type="time"
+            value={prefs.quietHours.end}
+            disabled={!prefs.quietHours.enabled}
+            onChange={(e) => e.target.value && save({ quietHours: { ...prefs.quietHours, end: e.target.value } })}
+            className={selectClass}
+          />
+          <span className="text-xs text-gray-500 dark:text-slate-400">{prefs.quietHours.timezone}</span>
+          {prefs.quietHours.timezone !== BROWSER_TIMEZONE && (
+            <button
+              type="button"
+              onClick={() => save({ quietHours: { ...prefs.quietHours, timezone: BROWSER_TIMEZONE } })}
+              className="text-xs text-sky-600 hover:underline"
+            >
+              {t('settings.delivery.useTimezone', 'Usar {{timezone}}', { timezone: BROWSER_TIMEZONE })}
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {DELIVERY_CATEGORIES.map(({ key, label }) => (
+          <div key={key} className="flex items-center justify-between gap-3 text-sm">
+            <span className="text-gray-900 dark:text-white">{t(`settings.delivery.category.${key}`, label)}</span>
+            <select
+              value={prefs.delivery[key] || 'instant'}
+              onChange={(e) => save({ delivery: { ...prefs.delivery, [key]: e.target.value as DeliveryMode } })}
+              className={selectClass}
+            >
+              <option value="instant">{t('settings.delivery.instant', 'Al instante')}</option>
+              <option value="hourly">{t('settings.delivery.hourly', 'Resumen cada hora')}</option>
+              <option value="daily">{t('settings.delivery.daily', 'Resumen diario')}</option>
+              <option value="off">{t('settings.delivery.off', 'Solo en la app')}</option>
+            </select>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+          {t('settings.delivery.digestHour', 'Hora del resumen diario')}
+          <select value={prefs.digestHour} onChange={(e) => save({ digestHour: Number(e.target.value) })} className={selectClass}>
+            {Array.from({ length: 24 }, (_, hour) => (
+              <option key={hour} value={hour}>{`${String(hour).padStart(2, '0')}:00`}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-gray-700 dark:text-slate-300">
+          {t('settings.delivery.language', 'Idioma de emails y avisos')}
+          <select value={prefs.language} onChange={(e) => save({ language: e.target.value as DeliveryPrefs['language'] })} className={selectClass}>
+            <option value="es">Español</option>
+            <option value="en">English</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+}
+
 // ── Profesiones reguladas que requieren matrícula ─────────────────────────
 const REGULATED_PROFESSIONS = ['gasista', 'electricista', 'plomero', 'maestro_mayor_obras', 'instalador_aire'];
 const PROFESSION_OPTIONS = [
@@ -613,7 +927,16 @@ export default function UserSettings() {
           },
           legalInfo: { idType, idNumber, taxStatus, taxId },
           interests,
-          notificationPreferences: notifPrefs,
+          notificationPreferences: {
+            email: notifPrefs.email,
+            push: notifPrefs.push,
+            sms: notifPrefs.sms,
+            newMessage: notifPrefs.newMessage,
+            jobUpdate: notifPrefs.jobUpdate,
+            contractUpdate: notifPrefs.contractUpdate,
+            paymentUpdate: notifPrefs.paymentUpdate,
+            marketing: notifPrefs.marketing,
+          },
           profession: profession || null,
           licenseNumber: licenseNumber || null,
           licenseCategory: licenseCategory || null,
@@ -1328,6 +1651,8 @@ export default function UserSettings() {
                       />
                     </div>
                   </div>
+                  <DeliveryPreferencesSection />
+                  <SavedSearchesSection />
                 </div>
               )}
 
@@ -4,6 +4,7 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import axios from 'axios';
 import { useAuth } from '../../hooks/useAuth';
+import DisputeWorkflowPanel, { type DisputeWorkflow } from '../../components/disputes/DisputeWorkflowPanel';
 
 const API_URL = import.meta.env.VITE_API_URL || '/api';
 
@@ -76,6 +77,8 @@ interface Dispute {
   resolvedAt?: Date;
   refundAmount?: number;
   initiatedBy?: string;
+  defendantResponse?: string | null;
+  workflow?: DisputeWorkflow;
 }
 
 const AdminDisputeDetail: React.FC = () => {
@@ -711,6 +714,19 @@ const AdminDisputeDetail: React.FC = () => {
               </div>
             </div>
 
+            {/* Workflow */}
+            {dispute.workflow?.phase && (
+              <DisputeWorkflowPanel
+                disputeId={dispute.id}
+                workflow={dispute.workflow}
+                party={null}
+                admin
+                amount={dispute.contract?.price || 0}
+                defendantResponse={dispute.defendantResponse}
+                onUpdated={fetchDispute}
+              />
+            )}
+
             {/* Priority Update */}
             {!isResolved && (
               <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
@@ -34,6 +34,10 @@ import {
   Star,
   BadgeCheck,
   ShieldCheck,
+  Webhook,
+  CalendarClock,
+  Percent,
+  Mail,
 } from "lucide-react";
 import { useState } from "react";
 
@@ -102,6 +106,8 @@ export default function AdminLayout() {
         { path: "/admin/analytics", icon: BarChart3, label: t('admin.sidebar.analytics', 'Analytics'), roles: ["owner", "super_admin", "admin", "marketing"] },
         { path: "/admin/performance", icon: Activity, label: t('admin.sidebar.performance', 'Performance'), roles: ["owner", "super_admin", "admin"] },
         { path: "/admin/audit-logs", icon: Shield, label: t('admin.sidebar.auditLogs', 'Registro de acciones'), roles: ["owner", "super_admin", "admin"] },
+        { path: "/admin/scheduled-jobs", icon: CalendarClock, label: t('admin.sidebar.scheduledJobs', 'Jobs programados'), roles: ["owner", "super_admin", "admin"] },
+        { path: "/admin/notification-templates", icon: Mail, label: t('admin.sidebar.notificationTemplates', 'Plantillas de mensajes'), roles: ["owner", "super_admin", "admin", "support"] },
       ]
     },
     {
@@ -141,6 +147,8 @@ export default function AdminLayout() {
         { path: "/admin/pending-payments", icon: CreditCard, label: t('admin.sidebar.pendingPayments', 'Pending Payments'), roles: ["owner", "super_admin", "admin"] },
         { path: "/admin/withdrawals", icon: ArrowDownLeft, label: t('admin.sidebar.withdrawals', 'Withdrawals'), roles: ["owner", "super_admin", "admin"] },
         { path: "/admin/financial-transactions", icon: TrendingUp, label: t('admin.sidebar.transactions', 'Transactions'), roles: ["owner", "super_admin", "admin"] },
+        { path: "/admin/commission-rules", icon: Percent, label: t('admin.sidebar.commissionRules', 'Reglas de comisión'), roles: ["owner", "super_admin", "admin"] },
+        { path: "/admin/webhook-events", icon: Webhook, label: t('admin.sidebar.webhookEvents', 'Webhooks de pago'), roles: ["owner", "super_admin", "admin"] },
         { path: "/admin/family-codes", icon: Gift, label: t('admin.sidebar.familyCodes', 'Family Codes'), roles: ["owner"] },
       ]
     },
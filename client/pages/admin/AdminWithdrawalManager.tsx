@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useTranslation } from 'react-i18next';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import IdBadge from '../../components/admin/IdBadge';
 import { statusDescription, withdrawalStatusDescriptions } from '../../utils/statusDescriptions';
 import { WithdrawalRequest } from '../../types';
@@ -14,6 +14,7 @@ import {
   Clock,
   Loader2,
   AlertCircle,
+  Layers,
   Upload,
   Eye,
   User,
@@ -290,6 +291,11 @@ export default function AdminWithdrawalManager() {
         icon: <XCircle className="w-4 h-4" />,
         text: t('common.status.rejected', 'Rejected'),
       },
+      failed: {
+        color: 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-200',
+        icon: <AlertCircle className="w-4 h-4" />,
+        text: t('common.status.failed', 'Failed'),
+      },
       cancelled: {
         color: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
         icon: <XCircle className="w-4 h-4" />,
@@ -343,9 +349,18 @@ export default function AdminWithdrawalManager() {
             {isConnected ? 'Live' : 'Offline'}
           </span>
         </div>
-        <p className="text-gray-600 dark:text-gray-400">
-          {t('admin.withdrawals.subtitle', 'Manage user withdrawal requests')}
-        </p>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-gray-600 dark:text-gray-400">
+            {t('admin.withdrawals.subtitle', 'Manage user withdrawal requests')}
+          </p>
+          <Link
+            to="/admin/withdrawals/batches"
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 text-white text-sm font-medium"
+          >
+            <Layers className="w-4 h-4" />
+            {t('admin.withdrawals.payoutBatches', 'Lotes de pago')}
+          </Link>
+        </div>
       </div>
 
       {/* Alerts */}
@@ -408,7 +423,7 @@ export default function AdminWithdrawalManager() {
           )}
         </div>
         <div className="flex flex-wrap gap-2">
-          {['all', 'pending', 'approved', 'processing', 'completed', 'rejected'].map((status) => (
+          {['all', 'pending', 'approved', 'processing', 'completed', 'failed', 'rejected'].map((status) => (
             <button
               key={status}
               onClick={() => setFilterStatus(status)}
@@ -418,7 +433,7 @@ export default function AdminWithdrawalManager() {
                   : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'
               }`}
             >
-              {status === 'all' ? t('common.all', 'All') : status === 'pending' ? t('common.status.pending', 'Pending') : status === 'approved' ? t('common.status.approved', 'Approved') : status === 'processing' ? t('common.status.processing', 'Processing') : status === 'completed' ? t('common.status.completed', 'Completed') : t('common.status.rejected', 'Rejected')}
+              {status === 'all' ? t('common.all', 'All') : status === 'pending' ? t('common.status.pending', 'Pending') : status === 'approved' ? t('common.status.approved', 'Approved') : status === 'processing' ? t('common.status.processing', 'Processing') : status === 'completed' ? t('common.status.completed', 'Completed') : status === 'failed' ? t('common.status.failed', 'Failed') : t('common.status.rejected', 'Rejected')}
             </button>
           ))}
         </div>
@@ -500,7 +515,7 @@ export default function AdminWithdrawalManager() {
                             <CheckCircle className="w-5 h-5" />
                           </button>
                         )}
-                        {withdrawal.status === 'approved' && (
+                        {withdrawal.status === 'approved' && !withdrawal.payoutBatchId && (
                           <button onClick={() => handleProcessing(withdrawal._id)} disabled={processing === withdrawal._id} className="text-blue-600 hover:text-blue-800 disabled:opacity-50" title={t('common.process', 'Process')}>
                             <Loader2 className="w-5 h-5" />
                           </button>
@@ -561,7 +576,14 @@ export default function AdminWithdrawalManager() {
                 </div>
               </div>
 
-              {selectedWithdrawal.status === 'processing' && (
+              {selectedWithdrawal.payoutBatchId && (
+                <div className="rounded-lg bg-purple-50 dark:bg-purple-900/20 p-3 text-sm text-purple-800 dark:text-purple-200">
+                  Este retiro está en un lote de pago: se concilia desde{' '}
+                  <Link to="/admin/withdrawals/batches" className="font-medium underline">Lotes de pago</Link>.
+                </div>
+              )}
+
+              {selectedWithdrawal.status === 'processing' && !selectedWithdrawal.payoutBatchId && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     {t('admin.withdrawals.transferProof', 'Transfer Proof')}
@@ -585,7 +607,7 @@ export default function AdminWithdrawalManager() {
                 </div>
               )}
 
-              {(selectedWithdrawal.status === 'pending' || selectedWithdrawal.status === 'approved') && (
+              {(selectedWithdrawal.status === 'pending' || selectedWithdrawal.status === 'approved') && !selectedWithdrawal.payoutBatchId && (
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     {t('admin.withdrawals.rejectionReason', 'Rejection Reason')}
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { ShieldCheck, Search, Loader2, RefreshCw } from 'lucide-react';
+import { ShieldCheck, ShieldAlert, Search, Loader2, RefreshCw, Download, Link2 } from 'lucide-react';
 import IdBadge from '../../components/admin/IdBadge';
 
 interface AuditLog {
@@ -14,9 +14,197 @@ interface AuditLog {
   ip?: string;
   adminRole?: string;
   admin?: { id: string; name: string; email: string } | null;
+  chainDate?: string | null;
+  sequence?: number | null;
   createdAt: string;
 }
 
+interface ChainBreak {
+  reason: string;
+  sequence: number;
+  id?: string;
+}
+
+interface ChainDay {
+  chainDate: string;
+  entries: number;
+  status: 'ok' | 'broken' | 'pruned';
+  verification: { valid: boolean; checked: number; firstBroken: ChainBreak | null };
+  checkpoints: number;
+  finalized: boolean;
+  lastCheckpointAt: string | null;
+  signatureValid: boolean | null;
+}
+
+interface ChainHealth {
+  healthy: boolean;
+  checkpointChainValid: boolean;
+  algorithm: 'ed25519' | 'hmac-sha256';
+  publicKey: string | null;
+  legacyEntries: number;
+  lastCheckpointAt: string | null;
+  firstBroken: (ChainBreak & { chainDate: string }) | null;
+  days: ChainDay[];
+}
+
+const BREAK_REASONS: Record<string, string> = {
+  hash_mismatch: 'el contenido de la entrada no coincide con su hash',
+  broken_link: 'la entrada no apunta al hash de la anterior',
+  sequence_gap: 'falta o sobra una entrada en la secuencia',
+  anchor_mismatch: 'el día no continúa la cadena del día anterior',
+  checkpoint_mismatch: 'el hash firmado en el checkpoint no está en la cadena',
+  missing_entries: 'faltan entradas respecto del checkpoint',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const download = async (url: string, filename: string) => {
+  const res = await fetch(url, { headers: authHeaders() });
+  if (!res.ok) {
+    const data = await res.json().catch(() => null);
+    alert(data?.message || 'No se pudo descargar el archivo');
+    return;
+  }
+  const blob = await res.blob();
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(link.href);
+};
+
+function ChainHealthPanel() {
+  const [health, setHealth] = useState<ChainHealth | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checkpointing, setCheckpointing] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/audit-logs/chain/health?days=14', { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setHealth(data.data);
+    } catch (err) {
+      console.error('Error loading audit chain health:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const checkpointNow = async () => {
+    setCheckpointing(true);
+    try {
+      await fetch('/api/admin/audit-logs/chain/checkpoint', { method: 'POST', headers: authHeaders() });
+      await load();
+    } finally {
+      setCheckpointing(false);
+    }
+  };
+
+  if (loading && !health) {
+    return <div className="mb-5 p-4 bg-white dark:bg-gray-800 rounded-lg shadow flex justify-center"><Loader2 className="h-5 w-5 animate-spin text-indigo-500" /></div>;
+  }
+  if (!health) return null;
+
+  return (
+    <div className={`mb-5 rounded-lg shadow border ${health.healthy ? 'border-emerald-200 dark:border-emerald-800' : 'border-red-300 dark:border-red-800'} bg-white dark:bg-gray-800`}>
+      <div className="p-4 flex flex-wrap items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          {health.healthy
+            ? <ShieldCheck className="h-6 w-6 text-emerald-500 shrink-0" />
+            : <ShieldAlert className="h-6 w-6 text-red-500 shrink-0" />}
+          <div>
+            <h2 className="font-semibold text-gray-900 dark:text-white">
+              {health.healthy ? 'Cadena íntegra' : 'Cadena rota'}
+            </h2>
+            {health.firstBroken ? (
+              <p className="text-sm text-red-600 dark:text-red-400">
+                Primer eslabón roto: {health.firstBroken.chainDate}, secuencia {health.firstBroken.sequence} — {BREAK_REASONS[health.firstBroken.reason] || health.firstBroken.reason}
+              </p>
+            ) : !health.checkpointChainValid ? (
+              <p className="text-sm text-red-600 dark:text-red-400">La cadena de checkpoints firmados está rota.</p>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                Últimos 14 días verificados. Checkpoints firmados con {health.algorithm === 'ed25519' ? 'Ed25519 (verificables offline)' : 'HMAC-SHA256'}
+                {health.lastCheckpointAt && `, el último ${new Date(health.lastCheckpointAt).toLocaleString('es-AR')}`}.
+              </p>
+            )}
+            {health.legacyEntries > 0 && (
+              <p className="text-xs text-gray-400 mt-1">{health.legacyEntries} registros anteriores a la cadena no se pueden verificar.</p>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={checkpointNow} disabled={checkpointing} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition disabled:opacity-50">
+            {checkpointing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Link2 className="h-4 w-4" />} Firmar checkpoint
+          </button>
+          <button onClick={load} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+            <RefreshCw className="h-4 w-4" /> Verificar
+          </button>
+        </div>
+      </div>
+
+      {health.days.length > 0 && (
+        <div className="border-t border-gray-100 dark:border-gray-700 overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Día (UTC)', 'Entradas', 'Estado', 'Checkpoints', 'Exportar'].map((h) => (
+                  <th key={h} className="px-4 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {health.days.map((day) => (
+                <tr key={day.chainDate}>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-700 dark:text-gray-300">{day.chainDate}</td>
+                  <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{day.entries}</td>
+                  <td className="px-4 py-2">
+                    {day.status === 'broken' ? (
+                      <span className="text-xs text-red-600 dark:text-red-400">
+                        {day.verification.firstBroken
+                          ? `Rota en la secuencia ${day.verification.firstBroken.sequence}`
+                          : 'Firma de checkpoint inválida'}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-emerald-600 dark:text-emerald-400">
+                        {day.status === 'pruned' ? 'Íntegra (con retención aplicada)' : 'Íntegra'}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-xs text-gray-500 dark:text-gray-400">
+                    {day.checkpoints} {day.finalized ? '· cerrado' : '· abierto'}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => download(`/api/admin/audit-logs/chain/export/${day.chainDate}.csv`, `audit-log-${day.chainDate}.csv`)}
+                        className="flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                      >
+                        <Download className="h-3.5 w-3.5" /> CSV
+                      </button>
+                      {day.checkpoints > 0 && (
+                        <button
+                          onClick={() => download(`/api/admin/audit-logs/chain/export/${day.chainDate}/checkpoint.json`, `audit-checkpoint-${day.chainDate}.json`)}
+                          className="flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                        >
+                          <Download className="h-3.5 w-3.5" /> Checkpoint
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
 const CATEGORIES = ['all', 'payment', 'user', 'contract', 'ticket', 'role', 'permission', 'system'];
 const SEVERITIES = ['all', 'low', 'medium', 'high', 'critical'];
 
@@ -54,9 +242,7 @@ export default function AuditLogs() {
       if (category !== 'all') params.append('category', category);
       if (severity !== 'all') params.append('severity', severity);
       if (search.trim()) params.append('search', search.trim());
-      const res = await fetch(`/api/admin/audit-logs?${params}`, {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      });
+      const res = await fetch(`/api/admin/audit-logs?${params}`, { headers: authHeaders() });
       const data = await res.json();
       if (data.success) {
         setLogs(data.data.logs || []);
@@ -93,6 +279,8 @@ export default function AuditLogs() {
         </button>
       </div>
 
+      <ChainHealthPanel />
+
       {/* Filters */}
       <div className="flex flex-wrap gap-3 mb-4">
         <div className="relative flex-1 min-w-[200px] max-w-md">
@@ -130,7 +318,10 @@ export default function AuditLogs() {
             <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
               {logs.map((log) => (
                 <tr key={log.id} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 align-top">
-                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">{new Date(log.createdAt).toLocaleString('es-AR')}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">
+                    {new Date(log.createdAt).toLocaleString('es-AR')}
+                    {log.sequence && <div className="text-[10px] text-gray-400 font-mono">{log.chainDate} #{log.sequence}</div>}
+                  </td>
                   <td className="px-4 py-3">
                     <div className="text-gray-900 dark:text-white">{log.admin?.name || '—'}</div>
                     {log.adminRole && <div className="text-xs text-indigo-500">{log.adminRole}</div>}
@@ -0,0 +1,589 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Percent, Loader2, RefreshCw, Plus, Pencil, History, Ban, Calculator, X } from 'lucide-react';
+
+interface CommissionRule {
+  id: string;
+  ruleKey: string;
+  version: number;
+  name: string;
+  description?: string | null;
+  priority: number;
+  membershipTiers?: string[] | null;
+  categories?: string[] | null;
+  familyPlan?: boolean | null;
+  freeContract?: boolean | null;
+  hasFreeContracts?: boolean | null;
+  minMonthlyVolume?: string | number | null;
+  maxMonthlyVolume?: string | number | null;
+  validFrom?: string | null;
+  validUntil?: string | null;
+  rate: string | number;
+  minimumFee?: string | number | null;
+  maximumFee?: string | number | null;
+  active: boolean;
+  supersededAt?: string | null;
+  changeNote?: string | null;
+  createdAt: string;
+}
+
+interface RuleTraceEntry {
+  ruleKey: string;
+  version: number | null;
+  name: string;
+  priority: number;
+  matched: boolean;
+  failed: string[];
+}
+
+interface Simulation {
+  result: {
+    rate: number;
+    commission: number;
+    currency: string;
+    tierDescription: string;
+    minimumApplied: boolean;
+    maximumApplied: boolean;
+    monthlyVolume: number;
+    rule: { ruleKey: string; version: number | null; name: string } | null;
+  };
+  context: { membershipTier: string; category?: string | null; familyPlan: boolean; freeContractsRemaining: number; monthlyVolume: number };
+  trace: RuleTraceEntry[];
+}
+
+const TIERS = ['free', 'pro', 'super_pro'];
+
+const conditionLabels: Record<string, string> = {
+  membershipTier: 'plan',
+  category: 'categoría',
+  familyPlan: 'plan familia',
+  freeContract: 'contrato gratuito',
+  hasFreeContracts: 'contratos iniciales',
+  monthlyVolume: 'volumen mensual',
+  validity: 'vigencia',
+};
+
+const emptyForm = {
+  ruleKey: '',
+  name: '',
+  description: '',
+  priority: '100',
+  rate: '',
+  minimumFee: '',
+  maximumFee: '',
+  membershipTiers: [] as string[],
+  categories: '',
+  familyPlan: '',
+  freeContract: '',
+  hasFreeContracts: '',
+  minMonthlyVolume: '',
+  maxMonthlyVolume: '',
+  validFrom: '',
+  validUntil: '',
+  changeNote: '',
+};
+
+type RuleForm = typeof emptyForm;
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const ars = (value?: string | number | null) =>
+  value === null || value === undefined ? null : `$${Number(value).toLocaleString('es-AR')}`;
+
+const triState = (value?: boolean | null) => (value === null || value === undefined ? '' : String(value));
+
+const toForm = (rule: CommissionRule): RuleForm => ({
+  ruleKey: rule.ruleKey,
+  name: rule.name,
+  description: rule.description || '',
+  priority: String(rule.priority),
+  rate: String(Number(rule.rate)),
+  minimumFee: rule.minimumFee != null ? String(Number(rule.minimumFee)) : '',
+  maximumFee: rule.maximumFee != null ? String(Number(rule.maximumFee)) : '',
+  membershipTiers: rule.membershipTiers || [],
+  categories: (rule.categories || []).join(', '),
+  familyPlan: triState(rule.familyPlan),
+  freeContract: triState(rule.freeContract),
+  hasFreeContracts: triState(rule.hasFreeContracts),
+  minMonthlyVolume: rule.minMonthlyVolume != null ? String(Number(rule.minMonthlyVolume)) : '',
+  maxMonthlyVolume: rule.maxMonthlyVolume != null ? String(Number(rule.maxMonthlyVolume)) : '',
+  validFrom: rule.validFrom ? rule.validFrom.slice(0, 16) : '',
+  validUntil: rule.validUntil ? rule.validUntil.slice(0, 16) : '',
+  changeNote: '',
+});
+
+const describeConditions = (rule: CommissionRule): string[] => {
+  const parts: string[] = [];
+  if (rule.membershipTiers?.length) parts.push(`plan: ${rule.membershipTiers.join(', ')}`);
+  if (rule.categories?.length) parts.push(`categorías: ${rule.categories.join(', ')}`);
+  if (rule.familyPlan != null) parts.push(rule.familyPlan ? 'con plan familia' : 'sin plan familia');
+  if (rule.freeContract != null) parts.push(rule.freeContract ? 'contrato gratuito' : 'contrato pago');
+  if (rule.hasFreeContracts != null) parts.push(rule.hasFreeContracts ? 'con contratos iniciales' : 'sin contratos iniciales');
+  if (rule.minMonthlyVolume != null || rule.maxMonthlyVolume != null) {
+    parts.push(`volumen ${ars(rule.minMonthlyVolume) || '$0'} – ${ars(rule.maxMonthlyVolume) || '∞'}`);
+  }
+  if (rule.validFrom || rule.validUntil) {
+    const from = rule.validFrom ? new Date(rule.validFrom).toLocaleDateString('es-AR') : '…';
+    const until = rule.validUntil ? new Date(rule.validUntil).toLocaleDateString('es-AR') : '…';
+    parts.push(`vigencia ${from} → ${until}`);
+  }
+  return parts.length ? parts : ['todas las operaciones'];
+};
+
+const inputClass = 'w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm';
+const labelClass = 'block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1';
+
+export default function CommissionRules() {
+  const [rules, setRules] = useState<CommissionRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const [editing, setEditing] = useState<{ mode: 'create' | 'edit'; form: RuleForm } | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [history, setHistory] = useState<{ ruleKey: string; versions: CommissionRule[] } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const [simForm, setSimForm] = useState({ userId: '', price: '', currency: 'ARS', category: '', membershipTier: '', isFreeContract: false, monthlyVolume: '', date: '' });
+  const [simulating, setSimulating] = useState(false);
+  const [simulation, setSimulation] = useState<Simulation | null>(null);
+
+  const loadRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/admin/commission-rules${includeInactive ? '?includeInactive=true' : ''}`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setRules(data.data || []);
+    } catch (err) {
+      console.error('Error loading commission rules:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [includeInactive]);
+
+  useEffect(() => { loadRules(); }, [loadRules]);
+
+  const saveRule = async () => {
+    if (!editing) return;
+    const { form, mode } = editing;
+    setSaving(true);
+    try {
+      const body = {
+        ...form,
+        categories: form.categories.split(',').map((c) => c.trim()).filter(Boolean),
+        validFrom: form.validFrom ? new Date(form.validFrom).toISOString() : null,
+        validUntil: form.validUntil ? new Date(form.validUntil).toISOString() : null,
+      };
+      const res = await fetch(
+        mode === 'create' ? '/api/admin/commission-rules' : `/api/admin/commission-rules/${encodeURIComponent(form.ruleKey)}`,
+        {
+          method: mode === 'create' ? 'POST' : 'PUT',
+          headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+      );
+      const data = await res.json();
+      if (data.success) {
+        setMessage({
+          type: 'success',
+          text: mode === 'create' ? `Regla "${data.data.name}" creada` : `Versión ${data.data.version} de "${data.data.name}" publicada`,
+        });
+        setEditing(null);
+        loadRules();
+      } else {
+        setMessage({ type: 'error', text: data.message || 'Error al guardar la regla' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deactivate = async (rule: CommissionRule) => {
+    if (!confirm(`¿Desactivar la regla "${rule.name}"? Los contratos existentes conservan su versión.`)) return;
+    try {
+      const res = await fetch(`/api/admin/commission-rules/${encodeURIComponent(rule.ruleKey)}`, { method: 'DELETE', headers: authHeaders() });
+      const data = await res.json();
+      setMessage(data.success
+        ? { type: 'success', text: `Regla "${rule.name}" desactivada` }
+        : { type: 'error', text: data.message || 'Error al desactivar la regla' });
+      loadRules();
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    }
+  };
+
+  const openHistory = async (ruleKey: string) => {
+    try {
+      const res = await fetch(`/api/admin/commission-rules/${encodeURIComponent(ruleKey)}/versions`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setHistory({ ruleKey, versions: data.data || [] });
+      else setMessage({ type: 'error', text: data.message || 'Error al obtener el historial' });
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    }
+  };
+
+  const simulate = async () => {
+    setSimulating(true);
+    setSimulation(null);
+    try {
+      const res = await fetch('/api/admin/commission-rules/simulate', {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId: simForm.userId.trim() || null,
+          price: simForm.price,
+          currency: simForm.currency,
+          category: simForm.category.trim() || null,
+          membershipTier: simForm.membershipTier || null,
+          isFreeContract: simForm.isFreeContract,
+          monthlyVolume: simForm.monthlyVolume === '' ? null : Number(simForm.monthlyVolume),
+          date: simForm.date ? new Date(simForm.date).toISOString() : null,
+        }),
+      });
+      const data = await res.json();
+      if (data.success) setSimulation(data.data);
+      else setMessage({ type: 'error', text: data.message || 'Error al simular' });
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setSimulating(false);
+    }
+  };
+
+  const setField = (field: keyof RuleForm, value: string | string[]) =>
+    setEditing((prev) => (prev ? { ...prev, form: { ...prev.form, [field]: value } } : prev));
+
+  const triSelect = (field: 'familyPlan' | 'freeContract' | 'hasFreeContracts', label: string) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <select value={editing?.form[field]} onChange={(e) => setField(field, e.target.value)} className={inputClass}>
+        <option value="">Indistinto</option>
+        <option value="true">Sí</option>
+        <option value="false">No</option>
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Percent className="h-6 w-6 text-indigo-500" /> Reglas de comisión
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Se evalúan por prioridad y aplica la primera que cumple todas sus condiciones. Editar una regla publica una versión nueva; los contratos conservan la versión con la que se cotizaron.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={loadRules} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+            <RefreshCw className="h-4 w-4" /> Actualizar
+          </button>
+          <button onClick={() => setEditing({ mode: 'create', form: emptyForm })} className="flex items-center gap-2 px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition">
+            <Plus className="h-4 w-4" /> Nueva regla
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-4 px-4 py-3 rounded-lg text-sm flex items-center justify-between ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300' : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'}`}>
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)}><X className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 mb-3">
+        <input type="checkbox" checked={includeInactive} onChange={(e) => setIncludeInactive(e.target.checked)} />
+        Mostrar reglas desactivadas
+      </label>
+
+      {/* Rules */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto mb-8">
+        {loading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-indigo-500" /></div>
+        ) : rules.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 dark:text-gray-400 text-sm">No hay reglas activas: se cobra la tarifa FREE por defecto.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Prioridad', 'Regla', 'Condiciones', 'Tasa', 'Mín / Máx', 'Versión', ''].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {rules.map((rule) => (
+                <tr key={rule.id} className={`align-top ${rule.active ? '' : 'opacity-60'}`}>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-300">{rule.priority}</td>
+                  <td className="px-4 py-3 max-w-xs">
+                    <div className="font-medium text-gray-900 dark:text-white">{rule.name}</div>
+                    <div className="font-mono text-xs text-gray-400">{rule.ruleKey}</div>
+                    {rule.description && <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{rule.description}</p>}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-600 dark:text-gray-300">
+                    {describeConditions(rule).map((c) => <div key={c}>{c}</div>)}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap font-semibold text-gray-900 dark:text-white">{Number(rule.rate)}%</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-600 dark:text-gray-300">
+                    {ars(rule.minimumFee) || '—'} / {ars(rule.maximumFee) || '—'}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-600 dark:text-gray-300">
+                    v{rule.version}
+                    {!rule.active && <span className="ml-1 px-1.5 py-0.5 rounded text-[10px] bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">inactiva</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex gap-2">
+                      <button onClick={() => setEditing({ mode: 'edit', form: toForm(rule) })} className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                        <Pencil className="h-3 w-3" /> {rule.active ? 'Editar' : 'Reactivar'}
+                      </button>
+                      <button onClick={() => openHistory(rule.ruleKey)} className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700">
+                        <History className="h-3 w-3" /> Historial
+                      </button>
+                      {rule.active && (
+                        <button onClick={() => deactivate(rule)} className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-red-300 text-red-600 dark:border-red-800 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20">
+                          <Ban className="h-3 w-3" /> Desactivar
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Simulator */}
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1 flex items-center gap-2">
+        <Calculator className="h-5 w-5 text-indigo-500" /> Simular comisión
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+        Con un usuario se usan su plan, plan familia y contratos gratuitos; los demás campos sobrescriben esos datos.
+      </p>
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 mb-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+          <div className="md:col-span-2">
+            <label className={labelClass}>ID de usuario (opcional)</label>
+            <input value={simForm.userId} onChange={(e) => setSimForm({ ...simForm, userId: e.target.value })} className={inputClass} placeholder="uuid del cliente" />
+          </div>
+          <div>
+            <label className={labelClass}>Precio</label>
+            <input type="number" min="0" value={simForm.price} onChange={(e) => setSimForm({ ...simForm, price: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Moneda</label>
+            <select value={simForm.currency} onChange={(e) => setSimForm({ ...simForm, currency: e.target.value })} className={inputClass}>
+              {['ARS', 'USD', 'USDT'].map((c) => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Categoría</label>
+            <input value={simForm.category} onChange={(e) => setSimForm({ ...simForm, category: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Plan</label>
+            <select value={simForm.membershipTier} onChange={(e) => setSimForm({ ...simForm, membershipTier: e.target.value })} className={inputClass}>
+              <option value="">{simForm.userId ? 'El del usuario' : 'free'}</option>
+              {TIERS.map((t) => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Volumen mensual (ARS)</label>
+            <input type="number" min="0" value={simForm.monthlyVolume} onChange={(e) => setSimForm({ ...simForm, monthlyVolume: e.target.value })} className={inputClass} placeholder={simForm.userId ? 'El del usuario' : '0'} />
+          </div>
+          <div>
+            <label className={labelClass}>Fecha</label>
+            <input type="datetime-local" value={simForm.date} onChange={(e) => setSimForm({ ...simForm, date: e.target.value })} className={inputClass} />
+          </div>
+        </div>
+        <div className="flex items-center justify-between mt-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input type="checkbox" checked={simForm.isFreeContract} onChange={(e) => setSimForm({ ...simForm, isFreeContract: e.target.checked })} />
+            Usa un contrato gratuito
+          </label>
+          <button onClick={simulate} disabled={simulating || !simForm.price} className="flex items-center gap-2 px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40">
+            {simulating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Calculator className="h-4 w-4" />} Simular
+          </button>
+        </div>
+      </div>
+
+      {simulation && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+          <div className="flex flex-wrap items-baseline gap-x-6 gap-y-1 mb-3">
+            <div className="text-2xl font-bold text-gray-900 dark:text-white">
+              {simulation.result.currency} {simulation.result.commission.toLocaleString('es-AR', { minimumFractionDigits: 2 })}
+            </div>
+            <div className="text-sm text-gray-600 dark:text-gray-300">
+              {simulation.result.rate}% · {simulation.result.rule ? `${simulation.result.rule.name} (v${simulation.result.rule.version ?? '—'})` : 'tarifa por defecto'}
+              {simulation.result.minimumApplied && ' · se aplicó el mínimo'}
+              {simulation.result.maximumApplied && ' · se aplicó el máximo'}
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            Plan {simulation.context.membershipTier}
+            {simulation.context.category ? ` · categoría ${simulation.context.category}` : ''}
+            {simulation.context.familyPlan ? ' · plan familia' : ''}
+            {` · ${simulation.context.freeContractsRemaining} contratos gratuitos · volumen ${ars(simulation.context.monthlyVolume)}`}
+          </p>
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead>
+              <tr>
+                {['Prioridad', 'Regla', 'Resultado'].map((h) => (
+                  <th key={h} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
+              {simulation.trace.map((entry) => (
+                <tr key={entry.ruleKey} className={entry.matched ? 'bg-emerald-50 dark:bg-emerald-900/20' : ''}>
+                  <td className="px-3 py-2 text-gray-600 dark:text-gray-300">{entry.priority}</td>
+                  <td className="px-3 py-2 text-gray-800 dark:text-gray-200">{entry.name} <span className="font-mono text-xs text-gray-400">v{entry.version ?? '—'}</span></td>
+                  <td className="px-3 py-2 text-xs">
+                    {entry.matched ? (
+                      <span className="text-emerald-700 dark:text-emerald-300 font-medium">aplicada</span>
+                    ) : entry.failed.length ? (
+                      <span className="text-gray-500 dark:text-gray-400">no cumple: {entry.failed.map((f) => conditionLabels[f] || f).join(', ')}</span>
+                    ) : (
+                      <span className="text-gray-400">cumple, pero ya aplicó una de mayor prioridad</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Create / edit */}
+      {editing && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setEditing(null)}>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {editing.mode === 'create' ? 'Nueva regla' : `Nueva versión de "${editing.form.ruleKey}"`}
+              </h2>
+              <button onClick={() => setEditing(null)} className="text-gray-400 hover:text-gray-600"><X className="h-5 w-5" /></button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div>
+                <label className={labelClass}>Clave</label>
+                <input value={editing.form.ruleKey} disabled={editing.mode === 'edit'} onChange={(e) => setField('ruleKey', e.target.value)} className={`${inputClass} font-mono disabled:opacity-60`} placeholder="promo-verano" />
+              </div>
+              <div>
+                <label className={labelClass}>Nombre</label>
+                <input value={editing.form.name} onChange={(e) => setField('name', e.target.value)} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>Descripción</label>
+                <input value={editing.form.description} onChange={(e) => setField('description', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Prioridad (menor se evalúa primero)</label>
+                <input type="number" value={editing.form.priority} onChange={(e) => setField('priority', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Tasa (%)</label>
+                <input type="number" min="0" max="100" step="0.01" value={editing.form.rate} onChange={(e) => setField('rate', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Comisión mínima (ARS)</label>
+                <input type="number" min="0" value={editing.form.minimumFee} onChange={(e) => setField('minimumFee', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Comisión máxima (ARS)</label>
+                <input type="number" min="0" value={editing.form.maximumFee} onChange={(e) => setField('maximumFee', e.target.value)} className={inputClass} />
+              </div>
+
+              <div className="md:col-span-2 border-t border-gray-200 dark:border-gray-700 pt-3 mt-1 text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase">
+                Condiciones (vacío = cualquiera)
+              </div>
+              <div>
+                <label className={labelClass}>Planes</label>
+                <div className="flex gap-3 py-2">
+                  {TIERS.map((tier) => (
+                    <label key={tier} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={editing.form.membershipTiers.includes(tier)}
+                        onChange={(e) => setField('membershipTiers', e.target.checked
+                          ? [...editing.form.membershipTiers, tier]
+                          : editing.form.membershipTiers.filter((t) => t !== tier))}
+                      />
+                      {tier}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label className={labelClass}>Categorías (separadas por coma)</label>
+                <input value={editing.form.categories} onChange={(e) => setField('categories', e.target.value)} className={inputClass} />
+              </div>
+              {triSelect('familyPlan', 'Plan familia')}
+              {triSelect('freeContract', 'Contrato gratuito')}
+              {triSelect('hasFreeContracts', 'Tiene contratos iniciales')}
+              <div />
+              <div>
+                <label className={labelClass}>Volumen mensual desde (ARS)</label>
+                <input type="number" min="0" value={editing.form.minMonthlyVolume} onChange={(e) => setField('minMonthlyVolume', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Volumen mensual hasta (ARS, exclusive)</label>
+                <input type="number" min="0" value={editing.form.maxMonthlyVolume} onChange={(e) => setField('maxMonthlyVolume', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Vigente desde</label>
+                <input type="datetime-local" value={editing.form.validFrom} onChange={(e) => setField('validFrom', e.target.value)} className={inputClass} />
+              </div>
+              <div>
+                <label className={labelClass}>Vigente hasta</label>
+                <input type="datetime-local" value={editing.form.validUntil} onChange={(e) => setField('validUntil', e.target.value)} className={inputClass} />
+              </div>
+              <div className="md:col-span-2">
+                <label className={labelClass}>Motivo del cambio</label>
+                <input value={editing.form.changeNote} onChange={(e) => setField('changeNote', e.target.value)} className={inputClass} />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 mt-5">
+              <button onClick={() => setEditing(null)} className="px-3 py-2 text-sm rounded-lg border border-gray-300 dark:border-gray-600">Cancelar</button>
+              <button onClick={saveRule} disabled={saving} className="flex items-center gap-2 px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40">
+                {saving && <Loader2 className="h-4 w-4 animate-spin" />} {editing.mode === 'create' ? 'Crear regla' : 'Publicar versión'}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Version history */}
+      {history && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setHistory(null)}>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Historial de <span className="font-mono">{history.ruleKey}</span></h2>
+              <button onClick={() => setHistory(null)} className="text-gray-400 hover:text-gray-600"><X className="h-5 w-5" /></button>
+            </div>
+            <div className="space-y-3">
+              {history.versions.map((version) => (
+                <div key={version.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-gray-900 dark:text-white">v{version.version} · {version.name} · {Number(version.rate)}%</span>
+                    <span className="text-xs text-gray-400">
+                      {new Date(version.createdAt).toLocaleString('es-AR')}
+                      {version.active ? ' · vigente' : version.supersededAt ? ` · reemplazada ${new Date(version.supersededAt).toLocaleString('es-AR')}` : ''}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-600 dark:text-gray-300 mt-1">
+                    {describeConditions(version).join(' · ')} · mín {ars(version.minimumFee) || '—'} · máx {ars(version.maximumFee) || '—'}
+                  </div>
+                  {version.changeNote && <div className="text-xs text-gray-500 dark:text-gray-400 mt-1 italic">{version.changeNote}</div>}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { DollarSign, CreditCard, Send, TrendingUp, Loader2, Lock, Users, AlertTriangle, ArrowRight, RefreshCw } from 'lucide-react';
+import { DollarSign, CreditCard, Send, TrendingUp, Loader2, Lock, Users, AlertTriangle, ArrowRight, RefreshCw, Scale, CheckCircle2 } from 'lucide-react';
 
 interface FinancialData {
   // Bandeja de pendientes (counts)
@@ -15,21 +15,46 @@ interface FinancialData {
   pendingWithdrawalsARS: number;
 }
 
-const money = (n?: number) => `$${(n || 0).toLocaleString('es-AR')}`;
+// Conciliación de saldos (ARS/USD/USDT) vs. ledger (GET /api/admin/ledger/reconciliation)
+interface LedgerReconciliation {
+  checkedAt: string;
+  usersChecked: number;
+  walletsInDrift: number;
+  totalDrift: Record<string, number>;
+  drift: { userId: string; name?: string; email?: string; currency: string; balance: number; ledgerBalance: number; drift: number }[];
+  unbalancedEntries: string[];
+  accounts: { code: string; name: string; type: string; currency: string; balance: number }[];
+  walletsTotal: Record<string, number>;
+}
+
+const money = (n?: number, currency = 'ARS') =>
+  `${currency === 'ARS' ? '$' : `${currency} `}${(n || 0).toLocaleString('es-AR')}`;
+
+// Montos por moneda: "$1.000 · USDT 25"
+const moneyByCurrency = (totals: Record<string, number>) =>
+  Object.entries(totals).map(([currency, n]) => money(n, currency)).join(' · ') || money(0);
 
 export default function FinancialHub() {
   const navigate = useNavigate();
   const [data, setData] = useState<FinancialData | null>(null);
+  const [ledger, setLedger] = useState<LedgerReconciliation | null>(null);
   const [loading, setLoading] = useState(true);
 
   const fetchOverview = async () => {
     setLoading(true);
     try {
-      const res = await fetch('/api/admin/hubs/financial/overview', {
-        headers: { Authorization: `Bearer ${localStorage.getItem('token')}` },
-      });
+      const headers = { Authorization: `Bearer ${localStorage.getItem('token')}` };
+      const [res, ledgerRes] = await Promise.all([
+        fetch('/api/admin/hubs/financial/overview', { headers }),
+        // Solo admin/owner: para otros roles responde 403 y la sección no se muestra
+        fetch('/api/admin/ledger/reconciliation', { headers }).catch(() => null),
+      ]);
       const result = await res.json();
       if (result.success) setData(result.financial);
+      if (ledgerRes?.ok) {
+        const ledgerResult = await ledgerRes.json();
+        if (ledgerResult.success) setLedger(ledgerResult.report);
+      }
     } catch (err) {
       console.error('Error loading financial hub:', err);
     } finally {
@@ -159,6 +184,73 @@ export default function FinancialHub() {
           })}
         </div>
 
+        {/* Conciliación del ledger */}
+        {ledger && (
+          <div className="mb-8">
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-3 flex items-center gap-2">
+              <Scale className="w-5 h-5" /> Conciliación de saldos
+            </h2>
+            {ledger.walletsInDrift === 0 && ledger.unbalancedEntries.length === 0 ? (
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow p-4 flex items-center gap-3">
+                <CheckCircle2 className="w-6 h-6 text-emerald-500 shrink-0" />
+                <p className="text-sm text-slate-700 dark:text-slate-200">
+                  Los saldos de los {ledger.usersChecked.toLocaleString('es-AR')} usuarios coinciden con el ledger
+                  (total en billeteras: {moneyByCurrency(ledger.walletsTotal)}).
+                </p>
+              </div>
+            ) : (
+              <div className="bg-white dark:bg-slate-800 rounded-xl shadow p-4 ring-2 ring-rose-400 dark:ring-rose-600">
+                <div className="flex items-center gap-3 mb-3">
+                  <AlertTriangle className="w-6 h-6 text-rose-500 shrink-0" />
+                  <p className="text-sm text-slate-700 dark:text-slate-200">
+                    {ledger.walletsInDrift > 0 && (
+                      <>{ledger.walletsInDrift} usuario(s) con saldo distinto al ledger (diferencia total {moneyByCurrency(ledger.totalDrift)}). </>
+                    )}
+                    {ledger.unbalancedEntries.length > 0 && (
+                      <>{ledger.unbalancedEntries.length} asiento(s) desbalanceado(s).</>
+                    )}
+                  </p>
+                </div>
+                {ledger.drift.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-slate-500 border-b border-slate-200 dark:border-slate-700">
+                          <th className="py-2 pr-4">Usuario</th>
+                          <th className="py-2 pr-4 text-right">Saldo</th>
+                          <th className="py-2 pr-4 text-right">Ledger</th>
+                          <th className="py-2 text-right">Diferencia</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ledger.drift.map((d) => (
+                          <tr key={`${d.userId}-${d.currency}`} className="border-b border-slate-100 dark:border-slate-700/50 last:border-0">
+                            <td className="py-2 pr-4 text-slate-900 dark:text-white">
+                              {d.name || d.userId}
+                              {d.email && <span className="block text-xs text-slate-500">{d.email}</span>}
+                            </td>
+                            <td className="py-2 pr-4 text-right text-slate-700 dark:text-slate-200">{money(d.balance, d.currency)}</td>
+                            <td className="py-2 pr-4 text-right text-slate-700 dark:text-slate-200">{money(d.ledgerBalance, d.currency)}</td>
+                            <td className="py-2 text-right font-medium text-rose-600 dark:text-rose-400">{money(d.drift, d.currency)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mt-4">
+              {ledger.accounts.filter((a) => a.code !== 'opening_balance').map((a) => (
+                <div key={a.code} className="bg-white dark:bg-slate-800 rounded-lg shadow p-3">
+                  <p className="text-xs text-slate-500 truncate">{a.name}</p>
+                  <p className="text-base font-bold text-slate-900 dark:text-white">{money(a.balance, a.currency)}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Accesos rápidos */}
         <h2 className="text-lg font-bold text-slate-900 dark:text-white mb-3">Accesos rápidos</h2>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Mail, Loader2, Smartphone, Bell, RotateCcw, Eye, AlertCircle } from 'lucide-react';
+
+interface TemplateSummary {
+  id: string;
+  description: string;
+  category: string;
+  preference: string | null;
+  locales: Array<'es' | 'en'>;
+  sample: Record<string, unknown>;
+}
+
+interface RenderedMessage {
+  templateId: string;
+  locale: 'es' | 'en';
+  subject: string;
+  html: string;
+  text: string;
+  push: { title: string; body: string };
+  notification: { title: string; message: string; actionText?: string; actionUrl?: string };
+}
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const preferenceLabels: Record<string, string> = {
+  newMessage: 'Mensajes nuevos',
+  jobUpdate: 'Publicaciones',
+  contractUpdate: 'Contratos',
+  paymentUpdate: 'Pagos',
+  marketing: 'Marketing',
+};
+
+export default function NotificationTemplates() {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [locale, setLocale] = useState<'es' | 'en'>('es');
+  const [varsText, setVarsText] = useState('');
+  const [preview, setPreview] = useState<RenderedMessage | null>(null);
+  const [view, setView] = useState<'html' | 'text'>('html');
+  const [rendering, setRendering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const res = await fetch('/api/admin/notification-templates', { headers: authHeaders() });
+        const data = await res.json();
+        if (data.success) {
+          setTemplates(data.data);
+          if (data.data.length) {
+            setSelectedId(data.data[0].id);
+            setVarsText(JSON.stringify(data.data[0].sample, null, 2));
+          }
+        }
+      } catch (err) {
+        console.error('Error loading templates:', err);
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, []);
+
+  const render = useCallback(async (id: string, lang: 'es' | 'en', rawVars: string) => {
+    let vars: unknown;
+    try {
+      vars = rawVars.trim() ? JSON.parse(rawVars) : undefined;
+    } catch {
+      setError('Las variables no son un JSON válido');
+      return;
+    }
+    setRendering(true);
+    setError(null);
+    try {
+      const res = await fetch(`/api/admin/notification-templates/${encodeURIComponent(id)}/preview`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locale: lang, vars }),
+      });
+      const data = await res.json();
+      if (data.success) setPreview(data.data);
+      else setError(data.message || 'No se pudo renderizar la plantilla');
+    } catch {
+      setError('Error de conexión');
+    } finally {
+      setRendering(false);
+    }
+  }, []);
+
+  // Vista previa automática al cambiar de plantilla o idioma (con las variables actuales)
+  useEffect(() => {
+    if (selectedId) render(selectedId, locale, varsText);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedId, locale, render]);
+
+  const selectTemplate = (id: string) => {
+    const template = templates.find((t) => t.id === id);
+    setVarsText(template ? JSON.stringify(template.sample, null, 2) : '');
+    setSelectedId(id);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-24"><Loader2 className="w-8 h-8 animate-spin text-sky-600" /></div>
+    );
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+      <div>
+        <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900 dark:text-white">
+          <Mail className="w-7 h-7 text-sky-600" /> Plantillas de mensajes
+        </h1>
+        <p className="text-gray-600 dark:text-gray-400">
+          Cada plantilla genera el email, el push y la notificación in-app en español e inglés. El idioma sale de la preferencia del destinatario.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        <div className="lg:col-span-2 space-y-4">
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-[360px] overflow-y-auto">
+              {templates.map((template) => (
+                <li key={template.id}>
+                  <button
+                    onClick={() => selectTemplate(template.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${template.id === selectedId ? 'bg-sky-50 dark:bg-sky-900/20' : ''}`}
+                  >
+                    <p className="font-mono text-sm text-gray-900 dark:text-white">{template.id}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {template.description} · {template.category}
+                      {template.preference && ` · preferencia: ${preferenceLabels[template.preference] || template.preference}`}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          {selected && (
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex gap-1">
+                  {selected.locales.map((lang) => (
+                    <button
+                      key={lang}
+                      onClick={() => setLocale(lang)}
+                      className={`px-3 py-1.5 rounded-lg text-sm font-medium ${locale === lang ? 'bg-sky-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+                    >
+                      {lang.toUpperCase()}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => setVarsText(JSON.stringify(selected.sample, null, 2))}
+                  className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400 hover:text-sky-600"
+                >
+                  <RotateCcw className="w-4 h-4" /> Datos de ejemplo
+                </button>
+              </div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">Variables (JSON)</label>
+              <textarea
+                value={varsText}
+                onChange={(e) => setVarsText(e.target.value)}
+                rows={10}
+                spellCheck={false}
+                className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white font-mono text-xs"
+              />
+              <button
+                onClick={() => render(selected.id, locale, varsText)}
+                disabled={rendering}
+                className="w-full flex items-center justify-center gap-2 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 disabled:bg-gray-400 text-white text-sm font-medium"
+              >
+                {rendering ? <Loader2 className="w-4 h-4 animate-spin" /> : <Eye className="w-4 h-4" />} Vista previa
+              </button>
+              {error && (
+                <p className="flex items-start gap-2 text-sm text-red-700 dark:text-red-400">
+                  <AlertCircle className="w-4 h-4 flex-shrink-0 mt-0.5" /> {error}
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="lg:col-span-3 space-y-4">
+          {preview && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <p className="flex items-center gap-2 text-xs font-semibold uppercase text-gray-500 mb-2"><Smartphone className="w-4 h-4" /> Push</p>
+                  <p className="font-semibold text-gray-900 dark:text-white text-sm">{preview.push.title}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">{preview.push.body}</p>
+                </div>
+                <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4">
+                  <p className="flex items-center gap-2 text-xs font-semibold uppercase text-gray-500 mb-2"><Bell className="w-4 h-4" /> In-app</p>
+                  <p className="font-semibold text-gray-900 dark:text-white text-sm">{preview.notification.title}</p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">{preview.notification.message}</p>
+                  {preview.notification.actionText && (
+                    <p className="text-xs text-sky-600 mt-1">{preview.notification.actionText}{preview.notification.actionUrl && ` → ${preview.notification.actionUrl}`}</p>
+                  )}
+                </div>
+              </div>
+
+              <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+                <div className="flex items-center justify-between px-4 py-3 border-b border-gray-200 dark:border-gray-700">
+                  <p className="text-sm text-gray-900 dark:text-white"><span className="text-gray-500">Asunto:</span> {preview.subject}</p>
+                  <div className="flex gap-1">
+                    {(['html', 'text'] as const).map((mode) => (
+                      <button
+                        key={mode}
+                        onClick={() => setView(mode)}
+                        className={`px-3 py-1 rounded text-xs font-medium ${view === mode ? 'bg-sky-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'}`}
+                      >
+                        {mode === 'html' ? 'HTML' : 'Texto plano'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                {view === 'html' ? (
+                  <iframe title="Vista previa del email" srcDoc={preview.html} sandbox="" className="w-full h-[720px] bg-white" />
+                ) : (
+                  <pre className="p-4 text-xs text-gray-800 dark:text-gray-200 whitespace-pre-wrap font-mono">{preview.text}</pre>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
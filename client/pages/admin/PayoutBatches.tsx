@@ -0,0 +1,438 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, Loader2, RefreshCw, Plus, Download, Upload, Send, Ban, ArrowLeft, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+
+type BatchStatus = 'open' | 'exported' | 'settled' | 'cancelled';
+
+interface BatchWithdrawal {
+  id: string;
+  amount: string | number;
+  status: string;
+  rejectionReason?: string | null;
+  bankingInfo: { accountHolder: string; bankName: string; alias?: string };
+  metadata?: { payout?: { reference?: string; bankNote?: string | null } };
+  user?: { id: string; name: string; email: string };
+}
+
+interface ResultImport {
+  importedAt: string;
+  fileName?: string | null;
+  completed: number;
+  failed: number;
+  alreadySettled: number;
+  unmatched: number;
+  errors: number;
+}
+
+interface PayoutBatch {
+  id: string;
+  reference: string;
+  status: BatchStatus;
+  itemCount: number;
+  totalAmount: string | number;
+  completedCount: number;
+  failedCount: number;
+  createdAt: string;
+  exportedAt?: string | null;
+  settledAt?: string | null;
+  lastFileFormat?: string | null;
+  lastFileChecksum?: string | null;
+  resultImports: ResultImport[];
+  notes?: string | null;
+  creator?: { name: string };
+  withdrawals?: BatchWithdrawal[];
+}
+
+interface ImportSummary {
+  completed: string[];
+  failed: string[];
+  alreadySettled: string[];
+  unmatched: Array<{ line: number; reference: string }>;
+  conflicts: Array<{ line: number; reference: string; message: string }>;
+  errors: Array<{ line: number; message: string }>;
+}
+
+const STATUS_BADGES: Record<BatchStatus, { label: string; className: string }> = {
+  open: { label: 'Abierto', className: 'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-200' },
+  exported: { label: 'Exportado', className: 'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-200' },
+  settled: { label: 'Liquidado', className: 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-200' },
+  cancelled: { label: 'Cancelado', className: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200' },
+};
+
+const ITEM_STATUS: Record<string, string> = {
+  approved: 'Aprobado',
+  processing: 'En proceso',
+  completed: 'Transferido',
+  failed: 'Rechazado por el banco',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const ars = (value: string | number) => `$${Number(value).toLocaleString('es-AR')}`;
+
+const transferReference = (withdrawal: BatchWithdrawal) =>
+  withdrawal.metadata?.payout?.reference || withdrawal.id.replace(/-/g, '').slice(0, 12).toUpperCase();
+
+export default function PayoutBatches() {
+  const [batches, setBatches] = useState<PayoutBatch[]>([]);
+  const [availableApproved, setAvailableApproved] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selected, setSelected] = useState<PayoutBatch | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+
+  const loadBatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/withdrawals/batches', { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setBatches(data.batches || []);
+        setAvailableApproved(data.availableApproved || 0);
+      }
+    } catch (err) {
+      console.error('Error loading payout batches:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { loadBatches(); }, [loadBatches]);
+
+  const openBatch = async (id: string) => {
+    setImportSummary(null);
+    try {
+      const res = await fetch(`/api/admin/withdrawals/batches/${id}`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setSelected(data.batch);
+      else setMessage({ type: 'error', text: data.message || 'Error al abrir el lote' });
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    }
+  };
+
+  const post = async (path: string, body?: Record<string, unknown>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const res = await fetch(`/api/admin/withdrawals/batches${path}`, {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify(body || {}),
+      });
+      const data = await res.json();
+      if (!data.success) {
+        setMessage({ type: 'error', text: data.message || 'No se pudo completar la acción' });
+        return null;
+      }
+      return data;
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+      return null;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const createBatch = async () => {
+    if (!confirm(`¿Crear un lote con los ${availableApproved} retiros aprobados disponibles?`)) return;
+    const data = await post('', { notes });
+    if (data) {
+      setMessage({ type: 'success', text: `Lote ${data.batch.reference} creado con ${data.batch.itemCount} retiros` });
+      setNotes('');
+      setSelected(data.batch);
+      loadBatches();
+    }
+  };
+
+  const exportBatch = async (batch: PayoutBatch) => {
+    if (!confirm(`Se va a debitar el saldo de ${batch.itemCount} usuarios y los retiros pasarán a "en proceso". ¿Exportar ${batch.reference}?`)) return;
+    const data = await post(`/${batch.id}/export`);
+    if (data) {
+      const skipped = (data.skipped || []) as Array<{ withdrawalId: string; reason: string }>;
+      setMessage({
+        type: skipped.length ? 'error' : 'success',
+        text: skipped.length
+          ? `${data.message} ${skipped.map((s) => `${s.withdrawalId.slice(0, 8)}: ${s.reason}`).join(' · ')}`
+          : data.message,
+      });
+      setSelected(data.batch);
+      loadBatches();
+    }
+  };
+
+  const cancelBatch = async (batch: PayoutBatch) => {
+    if (!confirm(`¿Cancelar ${batch.reference}? Los retiros vuelven a quedar disponibles.`)) return;
+    const data = await post(`/${batch.id}/cancel`);
+    if (data) {
+      setMessage({ type: 'success', text: `Lote ${batch.reference} cancelado` });
+      setSelected(data.batch);
+      loadBatches();
+    }
+  };
+
+  const downloadFile = async (batch: PayoutBatch, format: 'csv' | 'fixed_width') => {
+    setBusy(true);
+    try {
+      const res = await fetch(`/api/admin/withdrawals/batches/${batch.id}/file?format=${format}`, { headers: authHeaders() });
+      if (!res.ok) {
+        const data = await res.json().catch(() => null);
+        setMessage({ type: 'error', text: data?.message || 'Error al generar el archivo' });
+        return;
+      }
+      const blob = await res.blob();
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${batch.reference}.${format === 'csv' ? 'csv' : 'txt'}`;
+      link.click();
+      URL.revokeObjectURL(url);
+      openBatch(batch.id);
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importResults = async (batch: PayoutBatch, file: File) => {
+    const content = await file.text();
+    const data = await post(`/${batch.id}/results`, { content, fileName: file.name });
+    if (data) {
+      setImportSummary(data);
+      setSelected(data.batch);
+      setMessage({
+        type: 'success',
+        text: `Resultados importados: ${data.completed.length} transferidos, ${data.failed.length} rechazados (saldo devuelto)`,
+      });
+      loadBatches();
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <Link to="/admin/withdrawals" className="inline-flex items-center gap-1 text-sm text-sky-600 hover:underline mb-2">
+            <ArrowLeft className="w-4 h-4" /> Retiros
+          </Link>
+          <h1 className="flex items-center gap-2 text-3xl font-bold text-gray-900 dark:text-white">
+            <Layers className="w-7 h-7 text-sky-600" /> Lotes de pago
+          </h1>
+          <p className="text-gray-600 dark:text-gray-400">
+            Agrupá retiros aprobados, generá el archivo para el banco e importá el resultado de cada transferencia.
+          </p>
+        </div>
+        <button onClick={loadBatches} className="flex items-center gap-2 px-3 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm">
+          <RefreshCw className="w-4 h-4" /> Actualizar
+        </button>
+      </div>
+
+      {message && (
+        <div className={`rounded-lg p-4 flex items-start gap-3 ${message.type === 'success' ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200' : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'}`}>
+          {message.type === 'success' ? <CheckCircle className="w-5 h-5 flex-shrink-0" /> : <AlertCircle className="w-5 h-5 flex-shrink-0" />}
+          <p className="text-sm">{message.text}</p>
+        </div>
+      )}
+
+      {/* Nuevo lote */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-4 flex flex-wrap items-end gap-3">
+        <div className="flex-1 min-w-[240px]">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            <span className="font-semibold">{availableApproved}</span> retiros aprobados fuera de lote
+          </p>
+          <input
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            maxLength={1000}
+            placeholder="Nota interna del lote (opcional)"
+            className="w-full px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-900 text-gray-900 dark:text-white text-sm"
+          />
+        </div>
+        <button
+          onClick={createBatch}
+          disabled={busy || availableApproved === 0}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 disabled:bg-gray-400 text-white text-sm font-medium"
+        >
+          <Plus className="w-4 h-4" /> Crear lote
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-5 gap-6">
+        {/* Lista */}
+        <div className="lg:col-span-2 bg-white dark:bg-gray-800 rounded-lg shadow overflow-hidden">
+          {loading ? (
+            <div className="p-12 flex justify-center"><Loader2 className="w-8 h-8 animate-spin text-sky-600" /></div>
+          ) : batches.length === 0 ? (
+            <p className="p-8 text-center text-gray-500 dark:text-gray-400 text-sm">Todavía no hay lotes de pago</p>
+          ) : (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {batches.map((batch) => (
+                <li key={batch.id}>
+                  <button
+                    onClick={() => openBatch(batch.id)}
+                    className={`w-full text-left p-4 hover:bg-gray-50 dark:hover:bg-gray-700/50 ${selected?.id === batch.id ? 'bg-sky-50 dark:bg-sky-900/20' : ''}`}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-mono text-sm font-semibold text-gray-900 dark:text-white">{batch.reference}</span>
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGES[batch.status].className}`}>
+                        {STATUS_BADGES[batch.status].label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-600 dark:text-gray-400 mt-1">
+                      {batch.itemCount} retiros · {ars(batch.totalAmount)}
+                      {batch.status !== 'open' && batch.status !== 'cancelled' && ` · ${batch.completedCount} ok / ${batch.failedCount} rechazados`}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(batch.createdAt).toLocaleString('es-AR')}{batch.creator && ` · ${batch.creator.name}`}</p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Detalle */}
+        <div className="lg:col-span-3 bg-white dark:bg-gray-800 rounded-lg shadow p-6 space-y-5">
+          {!selected ? (
+            <p className="text-center text-gray-500 dark:text-gray-400 text-sm py-12">Elegí un lote para ver sus retiros</p>
+          ) : (
+            <>
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="font-mono text-xl font-bold text-gray-900 dark:text-white">{selected.reference}</h2>
+                  <p className="text-sm text-gray-600 dark:text-gray-400">
+                    {selected.itemCount} retiros · {ars(selected.totalAmount)}
+                    {selected.exportedAt && ` · exportado ${new Date(selected.exportedAt).toLocaleString('es-AR')}`}
+                    {selected.settledAt && ` · liquidado ${new Date(selected.settledAt).toLocaleString('es-AR')}`}
+                  </p>
+                  {selected.notes && <p className="text-sm text-gray-500 mt-1">{selected.notes}</p>}
+                </div>
+                <span className={`px-3 py-1 rounded-full text-sm font-medium ${STATUS_BADGES[selected.status].className}`}>
+                  {STATUS_BADGES[selected.status].label}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {selected.status === 'open' && (
+                  <>
+                    <button onClick={() => exportBatch(selected)} disabled={busy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-purple-600 hover:bg-purple-700 disabled:bg-gray-400 text-white text-sm font-medium">
+                      <Send className="w-4 h-4" /> Exportar y reservar saldos
+                    </button>
+                    <button onClick={() => cancelBatch(selected)} disabled={busy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 text-sm">
+                      <Ban className="w-4 h-4" /> Cancelar lote
+                    </button>
+                  </>
+                )}
+                {(selected.status === 'exported' || selected.status === 'settled') && (
+                  <>
+                    <button onClick={() => downloadFile(selected, 'csv')} disabled={busy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 disabled:bg-gray-400 text-white text-sm font-medium">
+                      <Download className="w-4 h-4" /> Archivo CSV
+                    </button>
+                    <button onClick={() => downloadFile(selected, 'fixed_width')} disabled={busy} className="flex items-center gap-2 px-4 py-2 rounded-lg bg-sky-600 hover:bg-sky-700 disabled:bg-gray-400 text-white text-sm font-medium">
+                      <Download className="w-4 h-4" /> Ancho fijo (TXT)
+                    </button>
+                  </>
+                )}
+                {selected.status === 'exported' && (
+                  <label className={`flex items-center gap-2 px-4 py-2 rounded-lg bg-green-600 hover:bg-green-700 text-white text-sm font-medium cursor-pointer ${busy ? 'opacity-50 pointer-events-none' : ''}`}>
+                    <Upload className="w-4 h-4" /> Importar resultado del banco
+                    <input
+                      type="file"
+                      accept=".csv,.txt,text/csv,text/plain"
+                      className="hidden"
+                      onChange={(e) => {
+                        const file = e.target.files?.[0];
+                        if (file) importResults(selected, file);
+                        e.target.value = '';
+                      }}
+                    />
+                  </label>
+                )}
+              </div>
+
+              {selected.lastFileChecksum && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 font-mono break-all">
+                  Último archivo ({selected.lastFileFormat}): SHA-256 {selected.lastFileChecksum}
+                </p>
+              )}
+              {selected.status === 'exported' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  El archivo de resultados es un CSV con las columnas <span className="font-mono">referencia</span>, <span className="font-mono">estado</span> (acreditada / rechazada) y opcionalmente <span className="font-mono">motivo</span>.
+                </p>
+              )}
+
+              {importSummary && (
+                <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 text-sm space-y-1">
+                  <p className="text-gray-900 dark:text-white font-medium">
+                    {importSummary.completed.length} transferidos · {importSummary.failed.length} rechazados · {importSummary.alreadySettled.length} ya conciliados
+                  </p>
+                  {importSummary.unmatched.length > 0 && (
+                    <p className="text-amber-700 dark:text-amber-400">
+                      Sin coincidencia en el lote: {importSummary.unmatched.map((row) => `${row.reference} (línea ${row.line})`).join(', ')}
+                    </p>
+                  )}
+                  {[...importSummary.conflicts, ...importSummary.errors].map((error) => (
+                    <p key={`${error.line}-${error.message}`} className="text-red-700 dark:text-red-400">Línea {error.line}: {error.message}</p>
+                  ))}
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full text-sm divide-y divide-gray-200 dark:divide-gray-700">
+                  <thead className="bg-gray-50 dark:bg-gray-900">
+                    <tr>
+                      {['Referencia', 'Usuario', 'Titular / Banco', 'Monto', 'Estado'].map((h) => (
+                        <th key={h} className="px-3 py-2 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">{h}</th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                    {(selected.withdrawals || []).map((withdrawal) => (
+                      <tr key={withdrawal.id}>
+                        <td className="px-3 py-2 font-mono text-xs text-gray-700 dark:text-gray-300">{transferReference(withdrawal)}</td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white">{withdrawal.user?.name || '—'}</td>
+                        <td className="px-3 py-2 text-gray-600 dark:text-gray-400">
+                          {withdrawal.bankingInfo.accountHolder}
+                          <div className="text-xs">{withdrawal.bankingInfo.bankName}</div>
+                        </td>
+                        <td className="px-3 py-2 text-gray-900 dark:text-white whitespace-nowrap">{ars(withdrawal.amount)}</td>
+                        <td className="px-3 py-2">
+                          <span className={`inline-flex items-center gap-1 ${withdrawal.status === 'completed' ? 'text-green-700 dark:text-green-400' : withdrawal.status === 'failed' ? 'text-red-700 dark:text-red-400' : 'text-gray-700 dark:text-gray-300'}`}>
+                            {withdrawal.status === 'completed' && <CheckCircle className="w-4 h-4" />}
+                            {withdrawal.status === 'failed' && <XCircle className="w-4 h-4" />}
+                            {ITEM_STATUS[withdrawal.status] || withdrawal.status}
+                          </span>
+                          {withdrawal.status === 'failed' && withdrawal.rejectionReason && (
+                            <div className="text-xs text-gray-500">{withdrawal.rejectionReason}</div>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {selected.resultImports?.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-semibold text-gray-900 dark:text-white mb-2">Resultados importados</h3>
+                  <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-400">
+                    {selected.resultImports.map((entry) => (
+                      <li key={entry.importedAt}>
+                        {new Date(entry.importedAt).toLocaleString('es-AR')} · {entry.fileName || 'archivo'}: {entry.completed} transferidos, {entry.failed} rechazados
+                        {entry.alreadySettled > 0 && `, ${entry.alreadySettled} repetidos`}
+                        {entry.unmatched > 0 && `, ${entry.unmatched} sin coincidencia`}
+                        {entry.errors > 0 && `, ${entry.errors} con errores`}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarClock, Loader2, RefreshCw, Play, Pause, X } from 'lucide-react';
+
+interface JobRun {
+  id: string;
+  jobName: string;
+  trigger: 'schedule' | 'catch_up' | 'manual';
+  status: 'running' | 'succeeded' | 'failed';
+  scheduledFor?: string | null;
+  missedRuns: number;
+  startedAt: string;
+  finishedAt?: string | null;
+  durationMs?: number | null;
+  itemsProcessed: number;
+  errorCount: number;
+  error?: string | null;
+  instanceId: string;
+}
+
+interface ScheduledJob {
+  name: string;
+  cronExpression: string;
+  description?: string | null;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt?: string | null;
+  lastStatus?: JobRun['status'] | null;
+  lockedBy?: string | null;
+  running: boolean;
+  lastRun?: JobRun | null;
+}
+
+const RUN_STATUSES = ['all', 'running', 'succeeded', 'failed'];
+
+const statusStyles: Record<string, string> = {
+  running: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+  succeeded: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  failed: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+};
+
+const triggerLabels: Record<string, string> = {
+  schedule: 'programada',
+  catch_up: 'catch-up',
+  manual: 'manual',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+const formatDuration = (ms?: number | null) => {
+  if (ms === null || ms === undefined) return '—';
+  if (ms < 1000) return `${ms} ms`;
+  if (ms < 60000) return `${(ms / 1000).toFixed(1)} s`;
+  return `${Math.round(ms / 60000)} min`;
+};
+
+export default function ScheduledJobs() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [runsLoading, setRunsLoading] = useState(true);
+  const [jobFilter, setJobFilter] = useState('all');
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [selectedRun, setSelectedRun] = useState<JobRun | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/admin/scheduled-jobs', { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setJobs(data.data.jobs || []);
+    } catch (err) {
+      console.error('Error loading scheduled jobs:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadRuns = useCallback(async () => {
+    setRunsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '50' });
+      if (jobFilter !== 'all') params.append('job', jobFilter);
+      if (status !== 'all') params.append('status', status);
+      const res = await fetch(`/api/admin/scheduled-jobs/runs?${params}`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setRuns(data.data.runs || []);
+        setPages(data.data.pagination?.pages || 1);
+      }
+    } catch (err) {
+      console.error('Error loading job runs:', err);
+    } finally {
+      setRunsLoading(false);
+    }
+  }, [page, jobFilter, status]);
+
+  useEffect(() => { loadJobs(); }, [loadJobs]);
+  useEffect(() => { loadRuns(); }, [loadRuns]);
+  useEffect(() => { setPage(1); }, [jobFilter, status]);
+
+  const refresh = () => {
+    loadJobs();
+    loadRuns();
+  };
+
+  const runNow = async (name: string) => {
+    if (!confirm(`¿Ejecutar ahora el job "${name}"?`)) return;
+    setBusy(name);
+    try {
+      const res = await fetch(`/api/admin/scheduled-jobs/${encodeURIComponent(name)}/run`, { method: 'POST', headers: authHeaders() });
+      const data = await res.json();
+      setMessage(data.success
+        ? { type: 'success', text: `Job "${name}" en ejecución` }
+        : { type: 'error', text: data.message || 'Error al ejecutar el job' });
+      refresh();
+      // La ejecución corre en segundo plano: volver a consultar en unos segundos
+      setTimeout(refresh, 5000);
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const toggleEnabled = async (job: ScheduledJob) => {
+    setBusy(job.name);
+    try {
+      const res = await fetch(`/api/admin/scheduled-jobs/${encodeURIComponent(job.name)}`, {
+        method: 'PATCH',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !job.enabled }),
+      });
+      const data = await res.json();
+      if (data.success) loadJobs();
+      else setMessage({ type: 'error', text: data.message || 'Error al actualizar el job' });
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <CalendarClock className="h-6 w-6 text-indigo-500" /> Jobs programados
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Cada horario corre una sola vez entre todas las instancias; los horarios perdidos se recuperan al volver a arrancar.
+          </p>
+        </div>
+        <button onClick={refresh} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+          <RefreshCw className="h-4 w-4" /> Actualizar
+        </button>
+      </div>
+
+      {message && (
+        <div className={`mb-4 px-4 py-3 rounded-lg text-sm flex items-center justify-between ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300' : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'}`}>
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)}><X className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      {/* Jobs */}
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto mb-8">
+        {loading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-indigo-500" /></div>
+        ) : jobs.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 dark:text-gray-400 text-sm">No hay jobs registrados.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Job', 'Cron', 'Próxima ejecución', 'Última ejecución', ''].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {jobs.map((job) => (
+                <tr key={job.name} className={`align-top ${job.enabled ? '' : 'opacity-60'}`}>
+                  <td className="px-4 py-3 max-w-sm">
+                    <button onClick={() => setJobFilter(job.name)} className="font-mono text-xs text-indigo-600 dark:text-indigo-400 hover:underline">{job.name}</button>
+                    {job.description && <p className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{job.description}</p>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap font-mono text-xs text-gray-700 dark:text-gray-300">{job.cronExpression}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">
+                    {job.enabled ? new Date(job.nextRunAt).toLocaleString('es-AR') : <span className="text-xs text-gray-400">pausado</span>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    {job.running ? (
+                      <span className={`px-1.5 py-0.5 rounded text-[10px] ${statusStyles.running}`}>en ejecución · {job.lockedBy}</span>
+                    ) : job.lastRun ? (
+                      <>
+                        <span className={`px-1.5 py-0.5 rounded text-[10px] ${statusStyles[job.lastRun.status]}`}>{job.lastRun.status}</span>
+                        <div className="text-xs text-gray-400 mt-1">
+                          {new Date(job.lastRun.startedAt).toLocaleString('es-AR')} · {job.lastRun.itemsProcessed} ítems · {formatDuration(job.lastRun.durationMs)}
+                        </div>
+                      </>
+                    ) : (
+                      <span className="text-xs text-gray-400">nunca</span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => runNow(job.name)}
+                        disabled={busy === job.name || job.running}
+                        className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                      >
+                        {busy === job.name ? <Loader2 className="h-3 w-3 animate-spin" /> : <Play className="h-3 w-3" />} Ejecutar ahora
+                      </button>
+                      <button
+                        onClick={() => toggleEnabled(job)}
+                        disabled={busy === job.name}
+                        className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                      >
+                        {job.enabled ? <><Pause className="h-3 w-3" /> Pausar</> : <><Play className="h-3 w-3" /> Reanudar</>}
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Runs */}
+      <div className="flex flex-wrap items-center gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white mr-auto">Ejecuciones</h2>
+        <select value={jobFilter} onChange={(e) => setJobFilter(e.target.value)} className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+          <option value="all">Todos los jobs</option>
+          {jobs.map((job) => <option key={job.name} value={job.name}>{job.name}</option>)}
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value)} className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+          {RUN_STATUSES.map((s) => <option key={s} value={s}>{s === 'all' ? 'Todos los estados' : s}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+        {runsLoading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-indigo-500" /></div>
+        ) : runs.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 dark:text-gray-400 text-sm">No hay ejecuciones para este filtro.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Inicio', 'Job', 'Trigger', 'Estado', 'Ítems', 'Errores', 'Duración', 'Instancia'].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {runs.map((run) => (
+                <tr key={run.id} onClick={() => setSelectedRun(run)} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 cursor-pointer">
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">{new Date(run.startedAt).toLocaleString('es-AR')}</td>
+                  <td className="px-4 py-3 font-mono text-xs text-gray-800 dark:text-gray-200">{run.jobName}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-600 dark:text-gray-300">
+                    {triggerLabels[run.trigger]}
+                    {run.missedRuns > 0 && <span className="text-gray-400"> (+{run.missedRuns} perdidas)</span>}
+                  </td>
+                  <td className="px-4 py-3"><span className={`px-1.5 py-0.5 rounded text-[10px] ${statusStyles[run.status]}`}>{run.status}</span></td>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-300">{run.itemsProcessed}</td>
+                  <td className={`px-4 py-3 ${run.errorCount > 0 ? 'text-red-600 dark:text-red-400' : 'text-gray-400'}`}>{run.errorCount}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">{formatDuration(run.durationMs)}</td>
+                  <td className="px-4 py-3 whitespace-nowrap text-xs text-gray-400 font-mono">{run.instanceId}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-4">
+          <button disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 disabled:opacity-40">Anterior</button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">Página {page} de {pages}</span>
+          <button disabled={page >= pages} onClick={() => setPage((p) => Math.min(pages, p + 1))} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 disabled:opacity-40">Siguiente</button>
+        </div>
+      )}
+
+      {/* Run error detail */}
+      {selectedRun && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setSelectedRun(null)}>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
+                {selectedRun.jobName} · <span className={`px-1.5 py-0.5 rounded text-xs ${statusStyles[selectedRun.status]}`}>{selectedRun.status}</span>
+              </h2>
+              <button onClick={() => setSelectedRun(null)} className="text-gray-400 hover:text-gray-600"><X className="h-5 w-5" /></button>
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-4">
+              <dt className="text-gray-500">Programada para</dt><dd className="text-gray-800 dark:text-gray-200">{selectedRun.scheduledFor ? new Date(selectedRun.scheduledFor).toLocaleString('es-AR') : '—'}</dd>
+              <dt className="text-gray-500">Inicio</dt><dd className="text-gray-800 dark:text-gray-200">{new Date(selectedRun.startedAt).toLocaleString('es-AR')}</dd>
+              <dt className="text-gray-500">Fin</dt><dd className="text-gray-800 dark:text-gray-200">{selectedRun.finishedAt ? new Date(selectedRun.finishedAt).toLocaleString('es-AR') : '—'}</dd>
+              <dt className="text-gray-500">Ítems / errores</dt><dd className="text-gray-800 dark:text-gray-200">{selectedRun.itemsProcessed} / {selectedRun.errorCount}</dd>
+            </dl>
+            {selectedRun.error ? (
+              <pre className="p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded text-xs whitespace-pre-wrap break-all">{selectedRun.error}</pre>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">Sin errores registrados.</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
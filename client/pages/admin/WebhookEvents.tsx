@@ -0,0 +1,344 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { Webhook, Search, Loader2, RefreshCw, RotateCcw, Download, Upload, X } from 'lucide-react';
+import IdBadge from '../../components/admin/IdBadge';
+
+interface WebhookEvent {
+  id: string;
+  provider: 'mercadopago' | 'astropay' | 'paypal';
+  externalEventId: string;
+  eventType: string;
+  signatureStatus: 'valid' | 'invalid' | 'skipped';
+  status: 'pending' | 'processing' | 'processed' | 'failed' | 'dead' | 'rejected';
+  attempts: number;
+  lastError?: string | null;
+  nextAttemptAt?: string | null;
+  processedAt?: string | null;
+  duplicateCount: number;
+  replayCount: number;
+  ip?: string | null;
+  createdAt: string;
+  payload?: Record<string, unknown>;
+  headers?: Record<string, string>;
+}
+
+const PROVIDERS = ['all', 'mercadopago', 'astropay', 'paypal'];
+const STATUSES = ['all', 'pending', 'processing', 'processed', 'failed', 'dead', 'rejected'];
+
+const statusStyles: Record<string, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  processing: 'bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300',
+  processed: 'bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300',
+  failed: 'bg-amber-100 text-amber-700 dark:bg-amber-900/30 dark:text-amber-300',
+  dead: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  rejected: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-300',
+};
+
+const signatureStyles: Record<string, string> = {
+  valid: 'text-emerald-600 dark:text-emerald-400',
+  invalid: 'text-red-600 dark:text-red-400',
+  skipped: 'text-gray-400',
+};
+
+const authHeaders = () => ({ Authorization: `Bearer ${localStorage.getItem('token')}` });
+
+export default function WebhookEvents() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [stats, setStats] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [search, setSearch] = useState('');
+  const [provider, setProvider] = useState('all');
+  const [status, setStatus] = useState('all');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<WebhookEvent | null>(null);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: '50' });
+      if (provider !== 'all') params.append('provider', provider);
+      if (status !== 'all') params.append('status', status);
+      if (search.trim()) params.append('search', search.trim());
+      const res = await fetch(`/api/admin/webhook-events?${params}`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setEvents(data.data.events || []);
+        setStats(data.data.stats || {});
+        setPages(data.data.pagination?.pages || 1);
+        setTotal(data.data.pagination?.total || 0);
+      }
+    } catch (err) {
+      console.error('Error loading webhook events:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, provider, status, search]);
+
+  useEffect(() => {
+    const h = setTimeout(load, 300);
+    return () => clearTimeout(h);
+  }, [load]);
+
+  useEffect(() => { setPage(1); }, [provider, status, search]);
+
+  const openDetail = async (id: string) => {
+    try {
+      const res = await fetch(`/api/admin/webhook-events/${id}`, { headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) setSelected(data.data);
+    } catch (err) {
+      console.error('Error loading webhook event:', err);
+    }
+  };
+
+  const replay = async (id: string) => {
+    if (!confirm('¿Reprocesar este webhook? El handler del proveedor se ejecutará de nuevo.')) return;
+    setReplaying(id);
+    try {
+      const res = await fetch(`/api/admin/webhook-events/${id}/replay`, { method: 'POST', headers: authHeaders() });
+      const data = await res.json();
+      if (data.success) {
+        setMessage({
+          type: data.data.status === 'processed' ? 'success' : 'error',
+          text: data.data.status === 'processed' ? 'Webhook reprocesado correctamente' : `El reproceso falló: ${data.data.lastError || data.data.status}`,
+        });
+        if (selected?.id === id) setSelected({ ...selected, ...data.data });
+        load();
+      } else {
+        setMessage({ type: 'error', text: data.message || 'Error al reprocesar' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'Error de conexión' });
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  const downloadFixture = (event: WebhookEvent) => {
+    const fixture = { provider: event.provider, eventType: event.eventType, payload: event.payload, headers: event.headers };
+    const blob = new Blob([JSON.stringify(fixture, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `webhook-${event.provider}-${event.externalEventId.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importFixture = async (file: File) => {
+    try {
+      const fixture = JSON.parse(await file.text());
+      const res = await fetch('/api/admin/webhook-events/import', {
+        method: 'POST',
+        headers: { ...authHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify(fixture),
+      });
+      const data = await res.json();
+      if (data.success) {
+        setMessage({ type: 'success', text: `Fixture importado (${data.data.status})` });
+        load();
+      } else {
+        setMessage({ type: 'error', text: data.message || 'Error al importar el fixture' });
+      }
+    } catch {
+      setMessage({ type: 'error', text: 'El archivo no es un fixture JSON válido' });
+    } finally {
+      if (fileInput.current) fileInput.current.value = '';
+    }
+  };
+
+  return (
+    <div className="p-4 md:p-6 max-w-7xl mx-auto">
+      <div className="flex items-start justify-between gap-4 mb-5">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Webhook className="h-6 w-6 text-indigo-500" /> Webhooks de pago
+          </h1>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Notificaciones de MercadoPago, AstroPay y PayPal. Cada evento se procesa una sola vez; los fallidos se reintentan automáticamente. {total} eventos.
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <input
+            ref={fileInput}
+            type="file"
+            accept="application/json"
+            className="hidden"
+            onChange={(e) => e.target.files?.[0] && importFixture(e.target.files[0])}
+          />
+          <button onClick={() => fileInput.current?.click()} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition" title="Solo disponible fuera de producción">
+            <Upload className="h-4 w-4" /> Importar fixture
+          </button>
+          <button onClick={load} className="flex items-center gap-2 px-3 py-2 text-sm bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition">
+            <RefreshCw className="h-4 w-4" /> Actualizar
+          </button>
+        </div>
+      </div>
+
+      {message && (
+        <div className={`mb-4 px-4 py-3 rounded-lg text-sm flex items-center justify-between ${message.type === 'success' ? 'bg-emerald-50 text-emerald-700 dark:bg-emerald-900/20 dark:text-emerald-300' : 'bg-red-50 text-red-700 dark:bg-red-900/20 dark:text-red-300'}`}>
+          <span>{message.text}</span>
+          <button onClick={() => setMessage(null)}><X className="h-4 w-4" /></button>
+        </div>
+      )}
+
+      {/* Status counters */}
+      <div className="flex flex-wrap gap-2 mb-4">
+        {STATUSES.filter((s) => s !== 'all').map((s) => (
+          <button
+            key={s}
+            onClick={() => setStatus(status === s ? 'all' : s)}
+            className={`px-2.5 py-1 rounded-full text-xs ${statusStyles[s]} ${status === s ? 'ring-2 ring-indigo-500' : ''}`}
+          >
+            {s}: {stats[s] || 0}
+          </button>
+        ))}
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap gap-3 mb-4">
+        <div className="relative flex-1 min-w-[200px] max-w-md">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Buscar por ID externo o tipo de evento..."
+            className="w-full pl-9 pr-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          />
+        </div>
+        <select value={provider} onChange={(e) => setProvider(e.target.value)} className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+          {PROVIDERS.map((p) => <option key={p} value={p}>{p === 'all' ? 'Todos los proveedores' : p}</option>)}
+        </select>
+        <select value={status} onChange={(e) => setStatus(e.target.value)} className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-gray-900 dark:text-white text-sm">
+          {STATUSES.map((s) => <option key={s} value={s}>{s === 'all' ? 'Todos los estados' : s}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow overflow-x-auto">
+        {loading ? (
+          <div className="p-10 flex justify-center"><Loader2 className="h-6 w-6 animate-spin text-indigo-500" /></div>
+        ) : events.length === 0 ? (
+          <div className="p-10 text-center text-gray-500 dark:text-gray-400 text-sm">No hay webhooks para este filtro.</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            <thead className="bg-gray-50 dark:bg-gray-900">
+              <tr>
+                {['Recibido', 'Proveedor', 'Evento', 'Estado', 'Intentos', 'Último error', ''].map((h) => (
+                  <th key={h} className="px-4 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wider whitespace-nowrap">{h}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+              {events.map((event) => (
+                <tr key={event.id} onClick={() => openDetail(event.id)} className="hover:bg-gray-50 dark:hover:bg-gray-700/50 align-top cursor-pointer">
+                  <td className="px-4 py-3 whitespace-nowrap text-gray-600 dark:text-gray-300">{new Date(event.createdAt).toLocaleString('es-AR')}</td>
+                  <td className="px-4 py-3">
+                    <div className="text-gray-900 dark:text-white">{event.provider}</div>
+                    <div className={`text-xs ${signatureStyles[event.signatureStatus]}`}>firma: {event.signatureStatus}</div>
+                  </td>
+                  <td className="px-4 py-3">
+                    <div className="font-mono text-xs text-gray-800 dark:text-gray-200">{event.eventType}</div>
+                    <div className="font-mono text-[10px] text-gray-400 break-all">{event.externalEventId}</div>
+                    {event.duplicateCount > 0 && <div className="text-[10px] text-gray-400">{event.duplicateCount} duplicados ignorados</div>}
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap">
+                    <span className={`px-1.5 py-0.5 rounded text-[10px] ${statusStyles[event.status]}`}>{event.status}</span>
+                    {event.status === 'failed' && event.nextAttemptAt && (
+                      <div className="text-[10px] text-gray-400 mt-1">reintento {new Date(event.nextAttemptAt).toLocaleTimeString('es-AR')}</div>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600 dark:text-gray-300">
+                    {event.attempts}
+                    {event.replayCount > 0 && <span className="text-xs text-gray-400"> ({event.replayCount} replay)</span>}
+                  </td>
+                  <td className="px-4 py-3 max-w-xs">
+                    <p className="text-xs text-red-600 dark:text-red-400 truncate" title={event.lastError || ''}>{event.lastError?.split('\n')[0]}</p>
+                  </td>
+                  <td className="px-4 py-3 whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                    {event.status !== 'rejected' && (
+                      <button
+                        onClick={() => replay(event.id)}
+                        disabled={replaying === event.id}
+                        className="flex items-center gap-1 px-2 py-1 text-xs rounded border border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-40"
+                      >
+                        {replaying === event.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />} Reprocesar
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Pagination */}
+      {pages > 1 && (
+        <div className="flex items-center justify-center gap-3 mt-4">
+          <button disabled={page <= 1} onClick={() => setPage((p) => Math.max(1, p - 1))} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 disabled:opacity-40">Anterior</button>
+          <span className="text-sm text-gray-500 dark:text-gray-400">Página {page} de {pages}</span>
+          <button disabled={page >= pages} onClick={() => setPage((p) => Math.min(pages, p + 1))} className="px-3 py-1.5 text-sm rounded-lg border border-gray-300 dark:border-gray-600 disabled:opacity-40">Siguiente</button>
+        </div>
+      )}
+
+      {/* Detail */}
+      {selected && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4" onClick={() => setSelected(null)}>
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto p-5" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-start justify-between gap-4 mb-4">
+              <div>
+                <h2 className="text-lg font-semibold text-gray-900 dark:text-white">{selected.provider} · {selected.eventType}</h2>
+                <div className="flex items-center gap-2 mt-1">
+                  <IdBadge id={selected.id} />
+                  <span className={`px-1.5 py-0.5 rounded text-[10px] ${statusStyles[selected.status]}`}>{selected.status}</span>
+                </div>
+              </div>
+              <button onClick={() => setSelected(null)} className="text-gray-400 hover:text-gray-600"><X className="h-5 w-5" /></button>
+            </div>
+
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm mb-4">
+              <dt className="text-gray-500">ID externo</dt><dd className="font-mono text-xs break-all text-gray-800 dark:text-gray-200">{selected.externalEventId}</dd>
+              <dt className="text-gray-500">Firma</dt><dd className={signatureStyles[selected.signatureStatus]}>{selected.signatureStatus}</dd>
+              <dt className="text-gray-500">Intentos</dt><dd className="text-gray-800 dark:text-gray-200">{selected.attempts}</dd>
+              <dt className="text-gray-500">Procesado</dt><dd className="text-gray-800 dark:text-gray-200">{selected.processedAt ? new Date(selected.processedAt).toLocaleString('es-AR') : '—'}</dd>
+              <dt className="text-gray-500">IP</dt><dd className="font-mono text-xs text-gray-800 dark:text-gray-200">{selected.ip || '—'}</dd>
+            </dl>
+
+            {selected.lastError && (
+              <>
+                <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Último error</h3>
+                <pre className="mb-4 p-3 bg-red-50 dark:bg-red-900/20 text-red-700 dark:text-red-300 rounded text-xs whitespace-pre-wrap break-all">{selected.lastError}</pre>
+              </>
+            )}
+
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Payload</h3>
+            <pre className="mb-4 p-3 bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded text-xs overflow-x-auto">{JSON.stringify(selected.payload, null, 2)}</pre>
+
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Headers</h3>
+            <pre className="mb-4 p-3 bg-gray-50 dark:bg-gray-900 text-gray-800 dark:text-gray-200 rounded text-xs overflow-x-auto">{JSON.stringify(selected.headers, null, 2)}</pre>
+
+            <div className="flex justify-end gap-2">
+              <button onClick={() => downloadFixture(selected)} className="flex items-center gap-2 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700">
+                <Download className="h-4 w-4" /> Descargar fixture
+              </button>
+              {selected.status !== 'rejected' && (
+                <button
+                  onClick={() => replay(selected.id)}
+                  disabled={replaying === selected.id}
+                  className="flex items-center gap-2 px-3 py-2 text-sm bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 disabled:opacity-40"
+                >
+                  {replaying === selected.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />} Reprocesar
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
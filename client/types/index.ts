@@ -164,6 +164,10 @@ export interface User {
     contractUpdate: boolean;
     paymentUpdate: boolean;
     marketing: boolean;
+    language?: 'es' | 'en';
+    quietHours?: { enabled: boolean; start: string; end: string; timezone: string };
+    delivery?: Partial<Record<'chat' | 'proposal' | 'jobs' | 'contract' | 'payment', 'instant' | 'hourly' | 'daily' | 'off'>>;
+    digestHour?: number;
   };
   referralCode?: string;
   freeContractsRemaining?: number;
@@ -323,6 +327,31 @@ export interface Contract {
     reason?: string;
     rejectionReason?: string;
   }>;
+  // Contratos creados desde una cotización
+  quoteId?: string | null;
+  lineItems?: Array<{
+    index: number;
+    description: string;
+    qty: number;
+    unitPrice: number;
+    amount: number;
+    taxAmount: number;
+    total: number;
+    taskId?: string | null;
+    deliveryId?: string | null;
+    paymentStatus?: 'pending' | 'paid';
+  }>;
+  taxBreakdown?: {
+    quoteNumber: string;
+    subtotal: number;
+    taxRate: number;
+    taxAmount: number;
+    otherTaxes: Array<{ name: string; rate: number; amount: number }>;
+    total: number;
+  } | null;
+  paymentSchedule?: 'single' | 'per_line';
+  // Escrow por hitos (GET /api/contracts/:id/milestones)
+  milestoneFunding?: 'upfront' | 'per_milestone' | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -396,7 +425,7 @@ export interface WithdrawalRequest {
     cbu: string;
     alias?: string;
   };
-  status: 'pending' | 'approved' | 'processing' | 'completed' | 'rejected' | 'cancelled';
+  status: 'pending' | 'approved' | 'processing' | 'completed' | 'rejected' | 'cancelled' | 'failed';
   balanceBeforeWithdrawal: number;
   balanceAfterWithdrawal: number;
   requestedAt: string;
@@ -404,6 +433,8 @@ export interface WithdrawalRequest {
   completedAt?: string;
   rejectedAt?: string;
   rejectionReason?: string;
+  failedAt?: string;
+  payoutBatchId?: string | null;
   processedBy?: User | string;
   proofOfTransfer?: string;
   transactionId?: string;
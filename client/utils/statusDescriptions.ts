@@ -45,6 +45,7 @@ export const withdrawalStatusDescriptions: Record<string, string> = {
   processing: 'Procesando: la transferencia bancaria está en curso.',
   completed: 'Retirado: la transferencia se completó y los fondos salieron de la plataforma.',
   rejected: 'Rechazado: el retiro fue rechazado (motivo indicado por el admin).',
+  failed: 'Fallido: el banco rechazó la transferencia del lote de pago; el saldo volvió a la billetera.',
 };
 
 export const paymentVerificationDescriptions: Record<string, string> = {
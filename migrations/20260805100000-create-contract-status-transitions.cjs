@@ -0,0 +1,34 @@
+'use strict';
+
+/**
+ * Append-only history of contract status changes, written by
+ * contractLifecycle.transitionContract in the same transaction as the change
+ * (actor, from, to, reason, payment status before/after). Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS contract_status_transitions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        contract_id UUID NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+        event VARCHAR(30) NOT NULL,
+        from_status VARCHAR(30) NOT NULL,
+        to_status VARCHAR(30) NOT NULL,
+        payment_status_before VARCHAR(30),
+        payment_status_after VARCHAR(30),
+        actor_id UUID,
+        actor_role VARCHAR(10) NOT NULL,
+        reason TEXT,
+        metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS contract_status_transitions_contract_id_created_at ON contract_status_transitions (contract_id, created_at)`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('contract_status_transitions').catch(() => {});
+  },
+};
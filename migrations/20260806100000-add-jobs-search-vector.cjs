@@ -0,0 +1,56 @@
+'use strict';
+
+/**
+ * Full-text search for jobs: `search_vector` tsvector column (title A,
+ * summary B, description C; 'spanish' + 'english' over unaccent()), kept in
+ * sync by a BEFORE INSERT/UPDATE trigger, backfilled and GIN-indexed.
+ * Replaces the old `jobs_search_idx` that never became a tsvector index.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`CREATE EXTENSION IF NOT EXISTS unaccent`);
+    await q(`
+      CREATE OR REPLACE FUNCTION jobs_build_search_vector(title TEXT, summary TEXT, description TEXT)
+      RETURNS tsvector AS $$
+        SELECT
+          setweight(to_tsvector('spanish', unaccent(coalesce(title, ''))), 'A') ||
+          setweight(to_tsvector('english', unaccent(coalesce(title, ''))), 'A') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(summary, ''))), 'B') ||
+          setweight(to_tsvector('english', unaccent(coalesce(summary, ''))), 'B') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(description, ''))), 'C') ||
+          setweight(to_tsvector('english', unaccent(coalesce(description, ''))), 'C')
+      $$ LANGUAGE sql STABLE
+    `);
+    await q(`
+      CREATE OR REPLACE FUNCTION jobs_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector := jobs_build_search_vector(NEW.title, NEW.summary, NEW.description);
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql
+    `);
+    await q(`ALTER TABLE jobs ADD COLUMN IF NOT EXISTS search_vector tsvector`);
+    await q(`DROP TRIGGER IF EXISTS jobs_search_vector_trigger ON jobs`);
+    await q(`
+      CREATE TRIGGER jobs_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF title, summary, description ON jobs
+      FOR EACH ROW EXECUTE FUNCTION jobs_search_vector_update()
+    `);
+    await q(`UPDATE jobs SET search_vector = jobs_build_search_vector(title, summary, description) WHERE search_vector IS NULL`);
+    await q(`DROP INDEX IF EXISTS jobs_search_idx`);
+    await q(`CREATE INDEX IF NOT EXISTS jobs_search_vector_idx ON jobs USING GIN (search_vector)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`DROP INDEX IF EXISTS jobs_search_vector_idx`);
+    await q(`DROP TRIGGER IF EXISTS jobs_search_vector_trigger ON jobs`);
+    await q(`ALTER TABLE jobs DROP COLUMN IF EXISTS search_vector`);
+    await q(`DROP FUNCTION IF EXISTS jobs_search_vector_update()`);
+    await q(`DROP FUNCTION IF EXISTS jobs_build_search_vector(TEXT, TEXT, TEXT)`);
+  },
+};
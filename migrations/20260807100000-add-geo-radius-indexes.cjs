@@ -0,0 +1,22 @@
+'use strict';
+
+/**
+ * Indexes for database-side radius searches (bounding box on latitude/longitude
+ * + haversine, see server/utils/geo.ts): jobs coordinates and the contract
+ * pairing location. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS jobs_latitude_longitude ON jobs (latitude, longitude)`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS contracts_client_pairing_latitude_client_pairing_longitude ON contracts (client_pairing_latitude, client_pairing_longitude)`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS jobs_latitude_longitude`);
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS contracts_client_pairing_latitude_client_pairing_longitude`);
+  },
+};
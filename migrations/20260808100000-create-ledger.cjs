@@ -0,0 +1,115 @@
+'use strict';
+
+/**
+ * Double-entry ledger behind user balances and platform revenue:
+ * ledger_accounts (system accounts + one wallet per user), ledger_entries
+ * (append-only, idempotency key) and ledger_lines (debit xor credit).
+ * Existing balances are imported as opening-balance entries so that
+ * users.balance_ars reconciles with the ledger from day one. Idempotent.
+ */
+const SYSTEM_ACCOUNTS = [
+  ['escrow_holding', 'Escrow - fondos retenidos', 'liability'],
+  ['platform_commission', 'Comisiones de la plataforma', 'revenue'],
+  ['payout_clearing', 'Pagos a usuarios pendientes de transferir', 'liability'],
+  ['refunds', 'Reembolsos pendientes de devolver', 'liability'],
+  ['platform_cash', 'Fondos en pasarelas y banco', 'asset'],
+  ['promotions', 'Bonificaciones', 'expense'],
+  ['opening_balance', 'Saldos iniciales y ajustes', 'equity'],
+];
+
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS ledger_accounts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(80) NOT NULL UNIQUE,
+        name VARCHAR(120) NOT NULL,
+        type VARCHAR(20) NOT NULL,
+        user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+        currency VARCHAR(3) NOT NULL DEFAULT 'ARS',
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_accounts_user_id ON ledger_accounts (user_id)`);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS ledger_entries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        kind VARCHAR(30) NOT NULL,
+        description TEXT NOT NULL,
+        idempotency_key VARCHAR(150) UNIQUE,
+        contract_id UUID,
+        payment_id UUID,
+        job_id UUID,
+        withdrawal_id UUID,
+        created_by UUID,
+        metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_entries_kind_created_at ON ledger_entries (kind, created_at)`);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_entries_contract_id ON ledger_entries (contract_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_entries_payment_id ON ledger_entries (payment_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_entries_created_by ON ledger_entries (created_by)`);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS ledger_lines (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        entry_id UUID NOT NULL REFERENCES ledger_entries(id) ON DELETE RESTRICT,
+        account_id UUID NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+        debit DECIMAL(14,2) NOT NULL DEFAULT 0,
+        credit DECIMAL(14,2) NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        CONSTRAINT ledger_lines_one_side CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0))
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_lines_entry_id ON ledger_lines (entry_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS ledger_lines_account_id ON ledger_lines (account_id)`);
+
+    for (const [code, name, type] of SYSTEM_ACCOUNTS) {
+      await queryInterface.sequelize.query(
+        `INSERT INTO ledger_accounts (code, name, type) VALUES (:code, :name, :type) ON CONFLICT (code) DO NOTHING`,
+        { replacements: { code, name, type } }
+      );
+    }
+
+    // Wallet + opening balance for every user that has no wallet account yet
+    await q(`
+      DO $$
+      DECLARE
+        r RECORD;
+        wallet UUID;
+        entry UUID;
+        opening UUID := (SELECT id FROM ledger_accounts WHERE code = 'opening_balance');
+      BEGIN
+        FOR r IN
+          SELECT u.id, COALESCE(u.balance_ars, 0) AS balance FROM users u
+          WHERE NOT EXISTS (SELECT 1 FROM ledger_accounts a WHERE a.code = 'user_wallet:' || u.id)
+        LOOP
+          INSERT INTO ledger_accounts (code, name, type, user_id)
+          VALUES ('user_wallet:' || r.id, 'Billetera de usuario', 'liability', r.id)
+          RETURNING id INTO wallet;
+
+          IF r.balance <> 0 THEN
+            INSERT INTO ledger_entries (kind, description, idempotency_key)
+            VALUES ('opening_balance', 'Saldo inicial de la billetera', 'opening_balance:' || r.id)
+            RETURNING id INTO entry;
+
+            INSERT INTO ledger_lines (entry_id, account_id, debit, credit) VALUES
+              (entry, opening, GREATEST(r.balance, 0), GREATEST(-r.balance, 0)),
+              (entry, wallet, GREATEST(-r.balance, 0), GREATEST(r.balance, 0));
+          END IF;
+        END LOOP;
+      END $$
+    `);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('ledger_lines').catch(() => {});
+    await queryInterface.dropTable('ledger_entries').catch(() => {});
+    await queryInterface.dropTable('ledger_accounts').catch(() => {});
+  },
+};
@@ -0,0 +1,48 @@
+'use strict';
+
+/**
+ * Persisted inbox for payment webhooks (MercadoPago, AstroPay, PayPal):
+ * one row per (provider, external_event_id) so provider retries are
+ * deduplicated, with processing state, attempts, last error and the next
+ * retry time for the backoff worker. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS webhook_events (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        provider VARCHAR(20) NOT NULL,
+        external_event_id VARCHAR(255) NOT NULL,
+        event_type VARCHAR(100) NOT NULL,
+        payload JSONB NOT NULL,
+        headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+        signature_status VARCHAR(10) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        attempts INTEGER NOT NULL DEFAULT 0,
+        last_error TEXT,
+        next_attempt_at TIMESTAMPTZ,
+        locked_at TIMESTAMPTZ,
+        processed_at TIMESTAMPTZ,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        replay_count INTEGER NOT NULL DEFAULT 0,
+        last_replayed_by UUID,
+        ip VARCHAR(64),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await queryInterface.sequelize.query(
+      `CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_provider_external_event_id ON webhook_events (provider, external_event_id)`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS webhook_events_status_next_attempt_at ON webhook_events (status, next_attempt_at)`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS webhook_events_created_at ON webhook_events (created_at)`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('webhook_events').catch(() => {});
+  },
+};
@@ -0,0 +1,56 @@
+'use strict';
+
+/**
+ * Durable job scheduler: scheduled_jobs keeps the next run and the lock of
+ * each job (shared by every server instance) and job_runs records every
+ * execution with its trigger, timing, items processed and errors. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        name VARCHAR(100) PRIMARY KEY,
+        cron_expression VARCHAR(100) NOT NULL,
+        description VARCHAR(255),
+        enabled BOOLEAN NOT NULL DEFAULT true,
+        next_run_at TIMESTAMPTZ NOT NULL,
+        last_run_at TIMESTAMPTZ,
+        last_status VARCHAR(20),
+        locked_by VARCHAR(255),
+        locked_until TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await queryInterface.sequelize.query(`
+      CREATE TABLE IF NOT EXISTS job_runs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        job_name VARCHAR(100) NOT NULL,
+        trigger VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'running',
+        scheduled_for TIMESTAMPTZ,
+        missed_runs INTEGER NOT NULL DEFAULT 0,
+        started_at TIMESTAMPTZ NOT NULL,
+        finished_at TIMESTAMPTZ,
+        duration_ms INTEGER,
+        items_processed INTEGER NOT NULL DEFAULT 0,
+        error_count INTEGER NOT NULL DEFAULT 0,
+        error TEXT,
+        instance_id VARCHAR(255) NOT NULL,
+        triggered_by UUID,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS job_runs_job_name_started_at ON job_runs (job_name, started_at)`
+    );
+    await queryInterface.sequelize.query(
+      `CREATE INDEX IF NOT EXISTS job_runs_status ON job_runs (status)`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('job_runs').catch(() => {});
+    await queryInterface.dropTable('scheduled_jobs').catch(() => {});
+  },
+};
@@ -0,0 +1,37 @@
+'use strict';
+
+/**
+ * Multi-currency amounts: contracts and quotes carry the currency they were
+ * priced in (ARS, USD or USDT), payments keep the settlement currency/amount
+ * and the exchange-rate snapshot frozen at payment time, users get one
+ * balance per currency and balance transactions record which wallet moved.
+ * ledger_accounts.currency is widened so it fits "USDT". Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE contracts ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'`);
+    await q(`ALTER TABLE quotes ADD COLUMN IF NOT EXISTS currency VARCHAR(10) DEFAULT 'ARS'`);
+    await q(`ALTER TABLE payments ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(10)`);
+    await q(`ALTER TABLE payments ADD COLUMN IF NOT EXISTS settlement_amount DECIMAL(12, 2)`);
+    await q(`ALTER TABLE payments ADD COLUMN IF NOT EXISTS rate_snapshot JSONB`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS balance_usd DECIMAL(12, 2) NOT NULL DEFAULT 0`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS balance_usdt DECIMAL(12, 2) NOT NULL DEFAULT 0`);
+    await q(`ALTER TABLE balance_transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'`);
+    await q(`ALTER TABLE ledger_accounts ALTER COLUMN currency TYPE VARCHAR(10)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE balance_transactions DROP COLUMN IF EXISTS currency`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS balance_usdt`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS balance_usd`);
+    await q(`ALTER TABLE payments DROP COLUMN IF EXISTS rate_snapshot`);
+    await q(`ALTER TABLE payments DROP COLUMN IF EXISTS settlement_amount`);
+    await q(`ALTER TABLE payments DROP COLUMN IF EXISTS settlement_currency`);
+    await q(`ALTER TABLE quotes DROP COLUMN IF EXISTS currency`);
+    await q(`ALTER TABLE contracts DROP COLUMN IF EXISTS currency`);
+  },
+};
@@ -0,0 +1,53 @@
+'use strict';
+
+/**
+ * Commission rules engine: commission_rules keeps every version of each rule
+ * (conditions by membership tier, category, family plan, free contract,
+ * monthly volume bracket and promotion window; rate plus minimum/maximum fee).
+ * contracts.commission_rule_id pins the version a contract was priced with.
+ * The default rules are seeded by the app on first use. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS commission_rules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        rule_key VARCHAR(100) NOT NULL,
+        version INTEGER NOT NULL,
+        name VARCHAR(150) NOT NULL,
+        description TEXT,
+        priority INTEGER NOT NULL,
+        membership_tiers VARCHAR(255)[],
+        categories VARCHAR(255)[],
+        family_plan BOOLEAN,
+        free_contract BOOLEAN,
+        has_free_contracts BOOLEAN,
+        min_monthly_volume DECIMAL(14, 2),
+        max_monthly_volume DECIMAL(14, 2),
+        valid_from TIMESTAMPTZ,
+        valid_until TIMESTAMPTZ,
+        rate DECIMAL(5, 2) NOT NULL,
+        minimum_fee DECIMAL(12, 2),
+        maximum_fee DECIMAL(12, 2),
+        active BOOLEAN NOT NULL DEFAULT true,
+        superseded_at TIMESTAMPTZ,
+        created_by UUID,
+        change_note VARCHAR(500),
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_rule_key_version ON commission_rules (rule_key, version)`);
+    // Una sola versión activa por regla
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_active_rule_key ON commission_rules (rule_key) WHERE active`);
+    await q(`CREATE INDEX IF NOT EXISTS commission_rules_active ON commission_rules (active)`);
+    await q(`ALTER TABLE contracts ADD COLUMN IF NOT EXISTS commission_rule_id UUID`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.removeColumn('contracts', 'commission_rule_id').catch(() => {});
+    await queryInterface.dropTable('commission_rules').catch(() => {});
+  },
+};
@@ -0,0 +1,50 @@
+'use strict';
+
+/**
+ * Saved searches: saved_searches keeps the /api/search/jobs filters a user
+ * saved plus its alert settings (muted, instant/daily frequency, email
+ * digest). saved_search_matches records every published job that matched a
+ * search; the (saved_search_id, job_id) unique index makes alerts idempotent.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS saved_searches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        filters JSONB NOT NULL,
+        muted BOOLEAN NOT NULL DEFAULT false,
+        frequency VARCHAR(10) NOT NULL DEFAULT 'instant',
+        email_digest BOOLEAN NOT NULL DEFAULT false,
+        match_count INTEGER NOT NULL DEFAULT 0,
+        last_matched_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS saved_searches_user_id ON saved_searches (user_id)`);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS saved_search_matches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+        user_id UUID NOT NULL,
+        job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+        notified_at TIMESTAMPTZ,
+        digested_at TIMESTAMPTZ,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS saved_search_matches_saved_search_id_job_id ON saved_search_matches (saved_search_id, job_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS saved_search_matches_user_id_digested_at ON saved_search_matches (user_id, digested_at)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('saved_search_matches').catch(() => {});
+    await queryInterface.dropTable('saved_searches').catch(() => {});
+  },
+};
@@ -0,0 +1,51 @@
+'use strict';
+
+/**
+ * Hash-chained audit log: audit_logs gets the per-day chain position
+ * ("chainDate", "sequence") and the previous entry's hash ("prevHash");
+ * "signature" now holds the entry hash. audit_log_checkpoints stores the
+ * signed checkpoints (Ed25519 or HMAC) that pin the tail of each day.
+ * Existing rows stay unchained (chainDate/sequence NULL).
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE audit_logs
+      ADD COLUMN IF NOT EXISTS "chainDate" DATE,
+      ADD COLUMN IF NOT EXISTS "sequence" INTEGER,
+      ADD COLUMN IF NOT EXISTS "prevHash" VARCHAR(64)`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_chain ON audit_logs ("chainDate", "sequence")`);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS audit_log_checkpoints (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        chain_date DATE NOT NULL,
+        sequence INTEGER NOT NULL,
+        entry_count INTEGER NOT NULL,
+        anchor_hash VARCHAR(64) NOT NULL,
+        last_hash VARCHAR(64) NOT NULL,
+        final BOOLEAN NOT NULL DEFAULT false,
+        previous_checkpoint_hash VARCHAR(64) NOT NULL,
+        checkpoint_hash VARCHAR(64) NOT NULL,
+        signature TEXT NOT NULL,
+        algorithm VARCHAR(20) NOT NULL,
+        public_key TEXT,
+        pruned_count INTEGER NOT NULL DEFAULT 0,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS audit_log_checkpoints_chain_date_sequence_final ON audit_log_checkpoints (chain_date, sequence, final)`);
+    await q(`CREATE INDEX IF NOT EXISTS audit_log_checkpoints_created_at ON audit_log_checkpoints (created_at)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.dropTable('audit_log_checkpoints').catch(() => {});
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS idx_audit_chain`);
+    await queryInterface.sequelize.query(`ALTER TABLE audit_logs
+      DROP COLUMN IF EXISTS "chainDate",
+      DROP COLUMN IF EXISTS "sequence",
+      DROP COLUMN IF EXISTS "prevHash"`);
+  },
+};
@@ -0,0 +1,37 @@
+'use strict';
+
+/**
+ * Dispute workflow: disputes get the current phase and its deadline, the
+ * phase history, the mediator's settlement offers, which parties closed
+ * their evidence round and the defendant's formal response. The phase/
+ * deadline index backs the job that applies missed deadlines.
+ * Existing disputes stay outside the workflow (workflow_phase NULL).
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE disputes
+      ADD COLUMN IF NOT EXISTS workflow_phase VARCHAR(30),
+      ADD COLUMN IF NOT EXISTS phase_deadline TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS phase_history JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS settlement_offers JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS evidence_closed_by JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS defendant_response TEXT,
+      ADD COLUMN IF NOT EXISTS defendant_responded_at TIMESTAMPTZ`);
+    await q(`CREATE INDEX IF NOT EXISTS disputes_workflow_phase_phase_deadline ON disputes (workflow_phase, phase_deadline)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS disputes_workflow_phase_phase_deadline`);
+    await queryInterface.sequelize.query(`ALTER TABLE disputes
+      DROP COLUMN IF EXISTS workflow_phase,
+      DROP COLUMN IF EXISTS phase_deadline,
+      DROP COLUMN IF EXISTS phase_history,
+      DROP COLUMN IF EXISTS settlement_offers,
+      DROP COLUMN IF EXISTS evidence_closed_by,
+      DROP COLUMN IF EXISTS defendant_response,
+      DROP COLUMN IF EXISTS defendant_responded_at`);
+  },
+};
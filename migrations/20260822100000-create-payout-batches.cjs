@@ -0,0 +1,53 @@
+'use strict';
+
+/**
+ * Payout batches: payout_batches groups approved withdrawal requests into a
+ * bank transfer run (open → exported → settled, or cancelled) and keeps the
+ * checksum of the last generated bank file plus the history of imported
+ * result files. withdrawal_requests gets the batch it is locked into and
+ * failed_at for transfers the bank returned.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS payout_batches (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        reference VARCHAR(30) NOT NULL UNIQUE,
+        status VARCHAR(20) NOT NULL DEFAULT 'open',
+        item_count INTEGER NOT NULL DEFAULT 0,
+        total_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+        completed_count INTEGER NOT NULL DEFAULT 0,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        created_by UUID NOT NULL REFERENCES users(id),
+        exported_by UUID REFERENCES users(id),
+        exported_at TIMESTAMPTZ,
+        settled_at TIMESTAMPTZ,
+        cancelled_at TIMESTAMPTZ,
+        last_file_format VARCHAR(20),
+        last_file_checksum VARCHAR(64),
+        result_imports JSONB NOT NULL DEFAULT '[]'::jsonb,
+        notes TEXT,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS payout_batches_status ON payout_batches (status)`);
+    await q(`CREATE INDEX IF NOT EXISTS payout_batches_status_created_at ON payout_batches (status, created_at)`);
+
+    await q(`ALTER TABLE withdrawal_requests
+      ADD COLUMN IF NOT EXISTS payout_batch_id UUID REFERENCES payout_batches(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ`);
+    await q(`CREATE INDEX IF NOT EXISTS withdrawal_requests_payout_batch_id_status ON withdrawal_requests (payout_batch_id, status)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS withdrawal_requests_payout_batch_id_status`);
+    await queryInterface.sequelize.query(`ALTER TABLE withdrawal_requests
+      DROP COLUMN IF EXISTS payout_batch_id,
+      DROP COLUMN IF EXISTS failed_at`);
+    await queryInterface.dropTable('payout_batches').catch(() => {});
+  },
+};
@@ -0,0 +1,32 @@
+'use strict';
+
+/**
+ * Notification delivery schedule: notifications gets the email/push channels
+ * still owed (pending_channels), when they may go out (deliver_after), the
+ * key used to merge repeated events into one digest entry (coalesce_key) and
+ * when email/push were actually delivered (delivered_at).
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE notifications
+      ADD COLUMN IF NOT EXISTS pending_channels VARCHAR(255)[] NOT NULL DEFAULT '{}',
+      ADD COLUMN IF NOT EXISTS deliver_after TIMESTAMPTZ,
+      ADD COLUMN IF NOT EXISTS coalesce_key VARCHAR(120),
+      ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ`);
+    await q(`CREATE INDEX IF NOT EXISTS notifications_deliver_after ON notifications (deliver_after)`);
+    await q(`CREATE INDEX IF NOT EXISTS notifications_recipient_id_coalesce_key ON notifications (recipient_id, coalesce_key)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS notifications_recipient_id_coalesce_key`);
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS notifications_deliver_after`);
+    await queryInterface.sequelize.query(`ALTER TABLE notifications
+      DROP COLUMN IF EXISTS pending_channels,
+      DROP COLUMN IF EXISTS deliver_after,
+      DROP COLUMN IF EXISTS coalesce_key,
+      DROP COLUMN IF EXISTS delivered_at`);
+  },
+};
@@ -0,0 +1,30 @@
+'use strict';
+
+/**
+ * Contract quote breakdown: contracts created from an accepted quote keep a
+ * link to it (quote_id), the quote items with their share of the taxes
+ * (line_items), the subtotal/IVA/other taxes as quoted (tax_breakdown) and
+ * whether the total is paid at once or per line (payment_schedule).
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE contracts
+      ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES quotes(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS tax_breakdown JSONB,
+      ADD COLUMN IF NOT EXISTS payment_schedule VARCHAR(20) NOT NULL DEFAULT 'single'`);
+    await q(`CREATE INDEX IF NOT EXISTS contracts_quote_id ON contracts (quote_id)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS contracts_quote_id`);
+    await queryInterface.sequelize.query(`ALTER TABLE contracts
+      DROP COLUMN IF EXISTS quote_id,
+      DROP COLUMN IF EXISTS line_items,
+      DROP COLUMN IF EXISTS tax_breakdown,
+      DROP COLUMN IF EXISTS payment_schedule`);
+  },
+};
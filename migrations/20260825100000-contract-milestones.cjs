@@ -0,0 +1,54 @@
+'use strict';
+
+/**
+ * Milestone escrow: contract_milestones splits a contract price into
+ * milestones with an amount, a due date and their own escrow status
+ * (pending → funded → submitted → released, or disputed → released/refunded).
+ * contracts.milestone_funding says whether the milestones are paid up front
+ * or one by one (NULL keeps the single escrow), and disputes.milestone_id
+ * marks a dispute that only freezes one milestone.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`
+      CREATE TABLE IF NOT EXISTS contract_milestones (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        contract_id UUID NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+        position INTEGER NOT NULL,
+        title VARCHAR(200) NOT NULL,
+        description TEXT,
+        amount DECIMAL(12, 2) NOT NULL,
+        due_date TIMESTAMPTZ NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending',
+        delivery_id UUID,
+        quote_line_index INTEGER,
+        payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+        dispute_id UUID,
+        funded_at TIMESTAMPTZ,
+        submitted_at TIMESTAMPTZ,
+        released_at TIMESTAMPTZ,
+        refunded_at TIMESTAMPTZ,
+        auto_released BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+        updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+      )
+    `);
+    await q(`CREATE INDEX IF NOT EXISTS contract_milestones_contract_id ON contract_milestones (contract_id)`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS contract_milestones_contract_id_position ON contract_milestones (contract_id, position)`);
+    await q(`CREATE INDEX IF NOT EXISTS contract_milestones_status_submitted_at ON contract_milestones (status, submitted_at)`);
+
+    await q(`ALTER TABLE contracts ADD COLUMN IF NOT EXISTS milestone_funding VARCHAR(20)`);
+    await q(`ALTER TABLE disputes ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES contract_milestones(id) ON DELETE SET NULL`);
+    await q(`CREATE INDEX IF NOT EXISTS disputes_milestone_id ON disputes (milestone_id)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS disputes_milestone_id`);
+    await queryInterface.sequelize.query(`ALTER TABLE disputes DROP COLUMN IF EXISTS milestone_id`);
+    await queryInterface.sequelize.query(`ALTER TABLE contracts DROP COLUMN IF EXISTS milestone_funding`);
+    await queryInterface.dropTable('contract_milestones').catch(() => {});
+  },
+};
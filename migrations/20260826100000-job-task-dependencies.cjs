@@ -0,0 +1,26 @@
+'use strict';
+
+/**
+ * Task dependency graph: job_tasks.prerequisite_task_ids lists the tasks
+ * that must be completed first (NULL keeps the previous-task rule),
+ * estimated_days feeds the critical path and the Gantt view, and
+ * assignee_id names the worker responsible for the task.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS prerequisite_task_ids UUID[]`);
+    await q(`ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS estimated_days DECIMAL(6, 2)`);
+    await q(`ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES users(id) ON DELETE SET NULL`);
+    await q(`CREATE INDEX IF NOT EXISTS job_tasks_assignee_id ON job_tasks (assignee_id)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP INDEX IF EXISTS job_tasks_assignee_id`);
+    await queryInterface.sequelize.query(`ALTER TABLE job_tasks DROP COLUMN IF EXISTS assignee_id`);
+    await queryInterface.sequelize.query(`ALTER TABLE job_tasks DROP COLUMN IF EXISTS estimated_days`);
+    await queryInterface.sequelize.query(`ALTER TABLE job_tasks DROP COLUMN IF EXISTS prerequisite_task_ids`);
+  },
+};
@@ -0,0 +1,76 @@
+'use strict';
+
+/**
+ * Recurring jobs: recurring_jobs holds the job template of a service
+ * subscription plus its recurrence rule (weekly, biweekly or monthly) and the
+ * optional preferred doer with first refusal; recurring_job_occurrences keeps
+ * the dates that already have their own state (skipped, rescheduled or
+ * generated with their job, contract and payment).
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`CREATE TABLE IF NOT EXISTS recurring_jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      client_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(100) NOT NULL,
+      summary VARCHAR(200) NOT NULL,
+      description TEXT NOT NULL,
+      price DECIMAL(12, 2) NOT NULL,
+      category VARCHAR(100) NOT NULL,
+      tags VARCHAR(255)[] DEFAULT '{}',
+      location VARCHAR(255) NOT NULL,
+      neighborhood VARCHAR(100),
+      latitude DECIMAL(10, 8),
+      longitude DECIMAL(11, 8),
+      remote_ok BOOLEAN DEFAULT false,
+      frequency VARCHAR(20) NOT NULL,
+      weekdays INTEGER[] DEFAULT '{}',
+      day_of_month INTEGER,
+      start_time VARCHAR(5) NOT NULL,
+      duration_minutes INTEGER NOT NULL,
+      starts_on DATE NOT NULL,
+      ends_on DATE,
+      max_occurrences INTEGER,
+      preferred_doer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      first_refusal_hours INTEGER NOT NULL DEFAULT 24,
+      status VARCHAR(20) NOT NULL DEFAULT 'active',
+      ended_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_jobs_client_id ON recurring_jobs (client_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_jobs_preferred_doer_id ON recurring_jobs (preferred_doer_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_jobs_status ON recurring_jobs (status)`);
+
+    await q(`CREATE TABLE IF NOT EXISTS recurring_job_occurrences (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      recurring_job_id UUID NOT NULL REFERENCES recurring_jobs(id) ON DELETE CASCADE,
+      occurrence_date DATE NOT NULL,
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+      job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+      contract_id UUID REFERENCES contracts(id) ON DELETE SET NULL,
+      doer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+      payment_url TEXT,
+      offer_expires_at TIMESTAMPTZ,
+      paid_at TIMESTAMPTZ,
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS recurring_job_occurrences_recurring_job_id_occurrence_date ON recurring_job_occurrences (recurring_job_id, occurrence_date)`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_job_occurrences_status_starts_at ON recurring_job_occurrences (status, starts_at)`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_job_occurrences_job_id ON recurring_job_occurrences (job_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS recurring_job_occurrences_contract_id ON recurring_job_occurrences (contract_id)`);
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`DROP TABLE IF EXISTS recurring_job_occurrences`);
+    await queryInterface.sequelize.query(`DROP TABLE IF EXISTS recurring_jobs`);
+  },
+};
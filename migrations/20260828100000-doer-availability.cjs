@@ -0,0 +1,38 @@
+'use strict';
+
+/**
+ * Doer availability: users gets the URL of an external calendar (.ics) plus
+ * its last sync status, and external_busy_blocks stores the busy blocks
+ * imported from it (times only), used with active contracts and blackout
+ * dates for booking-conflict detection and free/busy.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_url TEXT`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_synced_at TIMESTAMPTZ`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_error TEXT`);
+
+    await q(`CREATE TABLE IF NOT EXISTS external_busy_blocks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      uid VARCHAR(500) NOT NULL,
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`);
+    await q(`CREATE INDEX IF NOT EXISTS external_busy_blocks_user_id_starts_at ON external_busy_blocks (user_id, starts_at)`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS external_busy_blocks_user_id_uid ON external_busy_blocks (user_id, uid)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+    await q(`DROP TABLE IF EXISTS external_busy_blocks`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS external_calendar_error`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS external_calendar_synced_at`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS external_calendar_url`);
+  },
+};
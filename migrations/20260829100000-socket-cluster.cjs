@@ -0,0 +1,42 @@
+'use strict';
+
+/**
+ * Socket.IO across several server instances: socket_presence keeps one row
+ * per connected socket (device) with the instance serving it and a last-seen
+ * heartbeat, users.last_activity keeps the last time a user was seen once
+ * all their devices disconnect, and socket_io_attachments holds adapter
+ * messages too large for a Postgres NOTIFY payload.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS last_activity TIMESTAMPTZ`);
+
+    await q(`CREATE TABLE IF NOT EXISTS socket_presence (
+      socket_id VARCHAR(64) PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      server_id VARCHAR(64) NOT NULL,
+      device VARCHAR(10) NOT NULL DEFAULT 'unknown',
+      user_agent VARCHAR(300),
+      connected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`);
+    await q(`CREATE INDEX IF NOT EXISTS socket_presence_user_id ON socket_presence (user_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS socket_presence_server_id ON socket_presence (server_id)`);
+    await q(`CREATE INDEX IF NOT EXISTS socket_presence_last_seen_at ON socket_presence (last_seen_at)`);
+
+    await q(`CREATE TABLE IF NOT EXISTS socket_io_attachments (
+      id BIGSERIAL PRIMARY KEY,
+      payload TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+    await q(`DROP TABLE IF EXISTS socket_io_attachments`);
+    await q(`DROP TABLE IF EXISTS socket_presence`);
+  },
+};
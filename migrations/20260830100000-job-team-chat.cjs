@@ -0,0 +1,28 @@
+'use strict';
+
+/**
+ * Job team chats: conversations get a per-member last-read timestamp map
+ * (for "seen by X of Y") and the ids of pinned task announcements. Existing
+ * group chats of multi-worker jobs (stored as 'contract' conversations
+ * without a contract) become 'job_team'.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE conversations ADD COLUMN IF NOT EXISTS last_read_at JSONB NOT NULL DEFAULT '{}'::jsonb`);
+    await q(`ALTER TABLE conversations ADD COLUMN IF NOT EXISTS pinned_message_ids UUID[] NOT NULL DEFAULT '{}'`);
+
+    await q(`UPDATE conversations SET type = 'job_team'
+      WHERE type = 'contract' AND contract_id IS NULL
+        AND id IN (SELECT group_chat_id FROM jobs WHERE group_chat_id IS NOT NULL)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+    await q(`UPDATE conversations SET type = 'contract' WHERE type = 'job_team'`);
+    await q(`ALTER TABLE conversations DROP COLUMN IF EXISTS pinned_message_ids`);
+    await q(`ALTER TABLE conversations DROP COLUMN IF EXISTS last_read_at`);
+  },
+};
@@ -0,0 +1,53 @@
+'use strict';
+
+/**
+ * Full-text search for chat messages: `chat_messages.search_vector` tsvector
+ * column (message text A, with the '||' separators of system messages turned
+ * into spaces; file name B; 'spanish' + 'english' over unaccent()), kept in
+ * sync by a BEFORE INSERT/UPDATE trigger, backfilled and GIN-indexed.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`CREATE EXTENSION IF NOT EXISTS unaccent`);
+    await q(`
+      CREATE OR REPLACE FUNCTION chat_messages_build_search_vector(message TEXT, file_name TEXT)
+      RETURNS tsvector AS $$
+        SELECT
+          setweight(to_tsvector('spanish', unaccent(replace(coalesce(message, ''), '||', ' '))), 'A') ||
+          setweight(to_tsvector('english', unaccent(replace(coalesce(message, ''), '||', ' '))), 'A') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(file_name, ''))), 'B') ||
+          setweight(to_tsvector('english', unaccent(coalesce(file_name, ''))), 'B')
+      $$ LANGUAGE sql STABLE
+    `);
+    await q(`
+      CREATE OR REPLACE FUNCTION chat_messages_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector := chat_messages_build_search_vector(NEW.message, NEW.file_name);
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql
+    `);
+    await q(`ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS search_vector tsvector`);
+    await q(`DROP TRIGGER IF EXISTS chat_messages_search_vector_trigger ON chat_messages`);
+    await q(`
+      CREATE TRIGGER chat_messages_search_vector_trigger
+      BEFORE INSERT OR UPDATE OF message, file_name ON chat_messages
+      FOR EACH ROW EXECUTE FUNCTION chat_messages_search_vector_update()
+    `);
+    await q(`UPDATE chat_messages SET search_vector = chat_messages_build_search_vector(message, file_name) WHERE search_vector IS NULL`);
+    await q(`CREATE INDEX IF NOT EXISTS chat_messages_search_vector_idx ON chat_messages USING GIN (search_vector)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`DROP INDEX IF EXISTS chat_messages_search_vector_idx`);
+    await q(`DROP TRIGGER IF EXISTS chat_messages_search_vector_trigger ON chat_messages`);
+    await q(`ALTER TABLE chat_messages DROP COLUMN IF EXISTS search_vector`);
+    await q(`DROP FUNCTION IF EXISTS chat_messages_search_vector_update()`);
+    await q(`DROP FUNCTION IF EXISTS chat_messages_build_search_vector(TEXT, TEXT)`);
+  },
+};
@@ -0,0 +1,47 @@
+'use strict';
+
+/**
+ * AFIP electronic invoicing for SUPER PRO doers: users gets the CUIT, the
+ * "Web Services" point of sale and an opt-in flag; invoices gets the
+ * 'fiscal_invoice' type, the receiving client (recipient_id) and the voucher
+ * data authorized by AFIP (type, point of sale, number, CAE and its expiry,
+ * provider and status), with the number unique per issuer/point of sale/type.
+ * Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS fiscal_cuit VARCHAR(11)`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS fiscal_point_of_sale INTEGER`);
+    await q(`ALTER TABLE users ADD COLUMN IF NOT EXISTS electronic_invoicing_enabled BOOLEAN NOT NULL DEFAULT false`);
+
+    await q(`ALTER TYPE enum_invoices_type ADD VALUE IF NOT EXISTS 'fiscal_invoice'`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS recipient_id UUID REFERENCES users(id) ON DELETE SET NULL`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_type VARCHAR(20)`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS issuer_cuit VARCHAR(11)`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS point_of_sale INTEGER`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_number INTEGER`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cae VARCHAR(14)`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cae_expires_at DATE`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_provider VARCHAR(20)`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_status VARCHAR(20)`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS invoices_fiscal_number ON invoices (issuer_cuit, point_of_sale, fiscal_type, fiscal_number)`);
+    await q(`CREATE INDEX IF NOT EXISTS invoices_recipient_id ON invoices (recipient_id)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    // Postgres cannot drop a value from an enum: 'fiscal_invoice' stays
+    await q(`DELETE FROM invoices WHERE type = 'fiscal_invoice'`);
+    await q(`DROP INDEX IF EXISTS invoices_recipient_id`);
+    await q(`DROP INDEX IF EXISTS invoices_fiscal_number`);
+    for (const column of ['fiscal_status', 'fiscal_provider', 'cae_expires_at', 'cae', 'fiscal_number', 'point_of_sale', 'issuer_cuit', 'fiscal_type', 'recipient_id']) {
+      await q(`ALTER TABLE invoices DROP COLUMN IF EXISTS ${column}`);
+    }
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS electronic_invoicing_enabled`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS fiscal_point_of_sale`);
+    await q(`ALTER TABLE users DROP COLUMN IF EXISTS fiscal_cuit`);
+  },
+};
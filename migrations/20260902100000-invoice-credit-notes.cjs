@@ -0,0 +1,28 @@
+'use strict';
+
+/**
+ * Credit notes for refunds: invoices gets the 'credit_note' type, the invoice
+ * a credit note credits (credited_invoice_id) and the refund it comes from
+ * (refund_key), unique per credited invoice so a retried refund does not
+ * issue a second note. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    await q(`ALTER TYPE enum_invoices_type ADD VALUE IF NOT EXISTS 'credit_note'`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credited_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL`);
+    await q(`ALTER TABLE invoices ADD COLUMN IF NOT EXISTS refund_key VARCHAR(120)`);
+    await q(`CREATE UNIQUE INDEX IF NOT EXISTS invoices_credited_refund ON invoices (credited_invoice_id, refund_key)`);
+  },
+
+  async down(queryInterface) {
+    const q = (sql) => queryInterface.sequelize.query(sql);
+
+    // Postgres cannot drop a value from an enum: 'credit_note' stays
+    await q(`DELETE FROM invoices WHERE type = 'credit_note'`);
+    await q(`DROP INDEX IF EXISTS invoices_credited_refund`);
+    await q(`ALTER TABLE invoices DROP COLUMN IF EXISTS refund_key`);
+    await q(`ALTER TABLE invoices DROP COLUMN IF EXISTS credited_invoice_id`);
+  },
+};
@@ -0,0 +1,17 @@
+'use strict';
+
+/**
+ * contracts.commission_percentage: the rate of the commission rule a contract
+ * was priced with (commission_rule_id), stored next to it. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(
+      `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS commission_percentage DECIMAL(5, 2)`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`ALTER TABLE contracts DROP COLUMN IF EXISTS commission_percentage`);
+  },
+};
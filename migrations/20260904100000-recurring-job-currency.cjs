@@ -0,0 +1,17 @@
+'use strict';
+
+/**
+ * recurring_jobs.currency: the currency of the contracts each occurrence
+ * creates (contracts.currency). Existing series stay in ARS. Idempotent.
+ */
+module.exports = {
+  async up(queryInterface) {
+    await queryInterface.sequelize.query(
+      `ALTER TABLE recurring_jobs ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'`
+    );
+  },
+
+  async down(queryInterface) {
+    await queryInterface.sequelize.query(`ALTER TABLE recurring_jobs DROP COLUMN IF EXISTS currency`);
+  },
+};
@@ -10,9 +10,11 @@ import {
   Image,
   ScrollView,
   TextInput,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useRouter } from 'expo-router';
+import * as Location from 'expo-location';
 import { PlusCircle, MessageCircle, Lock, CheckCircle, MapPin, Calendar, Star, Package, Briefcase, User, Sun, Moon, Search, ArrowRight, Filter, X, DollarSign, ChevronDown, ChevronUp } from 'lucide-react-native';
 import { Job } from '../../types';
 import { getJobs, getCategories } from '../../services/jobs';
@@ -31,6 +33,7 @@ const SORT_OPTIONS: { value: string; label: string }[] = [
   { value: 'date', label: 'Fecha de publicación' },
   { value: 'budget-asc', label: 'Presupuesto (menor a mayor)' },
   { value: 'budget-desc', label: 'Presupuesto (mayor a menor)' },
+  { value: 'distance', label: 'Más cercanos' },
 ];
 
 export default function HomeScreen() {
@@ -54,6 +57,7 @@ export default function HomeScreen() {
   const [filterMaxBudget, setFilterMaxBudget] = useState('');
   const [filterSortBy, setFilterSortBy] = useState('date');
   const [selectedTag, setSelectedTag] = useState('');
+  const [coords, setCoords] = useState<{ latitude: number; longitude: number } | null>(null);
   const [showCategoryPicker, setShowCategoryPicker] = useState(false);
   const [showSortPicker, setShowSortPicker] = useState(false);
   const searchDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -80,9 +84,33 @@ export default function HomeScreen() {
     if (filterMinBudget) filters.minPrice = Number(filterMinBudget);
     if (filterMaxBudget) filters.maxPrice = Number(filterMaxBudget);
     if (filterSortBy !== 'date') filters.sortBy = filterSortBy;
+    if (filterSortBy === 'distance' && coords) {
+      filters.latitude = coords.latitude;
+      filters.longitude = coords.longitude;
+    }
     if (selectedTag) filters.tags = selectedTag;
     return filters;
-  }, [searchQuery, filterLocation, filterCategory, filterMinBudget, filterMaxBudget, filterSortBy, selectedTag]);
+  }, [searchQuery, filterLocation, filterCategory, filterMinBudget, filterMaxBudget, filterSortBy, selectedTag, coords]);
+
+  // "Más cercanos" necesita la ubicación del dispositivo; si no hay permiso volvemos a fecha
+  useEffect(() => {
+    if (filterSortBy !== 'distance' || coords) return;
+    (async () => {
+      try {
+        const { status } = await Location.requestForegroundPermissionsAsync();
+        if (status !== 'granted') {
+          Alert.alert('Ubicación desactivada', 'Activá el permiso de ubicación para ver los trabajos más cercanos.');
+          setFilterSortBy('date');
+          return;
+        }
+        const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+        setCoords({ latitude: position.coords.latitude, longitude: position.coords.longitude });
+      } catch (error) {
+        console.error('Error getting location:', error);
+        setFilterSortBy('date');
+      }
+    })();
+  }, [filterSortBy, coords]);
 
   const fetchJobs = async (pageNum: number = 1, refresh: boolean = false) => {
     try {
@@ -134,7 +162,7 @@ export default function HomeScreen() {
 
   useEffect(() => {
     applyFilters();
-  }, [filterLocation, filterCategory, filterMinBudget, filterMaxBudget, filterSortBy, selectedTag]);
+  }, [filterLocation, filterCategory, filterMinBudget, filterMaxBudget, filterSortBy, selectedTag, coords]);
 
   const onRefresh = useCallback(() => {
     setRefreshing(true);
@@ -490,7 +518,10 @@ export default function HomeScreen() {
         <View style={styles.jobFooter}>
           <View style={styles.locationRow}>
             <MapPin size={16} color={themeColors.text.muted} strokeWidth={2} />
-            <Text style={[styles.metaText, { color: themeColors.text.muted }]}>{item.neighborhood || item.location}</Text>
+            <Text style={[styles.metaText, { color: themeColors.text.muted }]}>
+              {item.neighborhood || item.location}
+              {item.distance != null && ` · ${item.distance.toLocaleString('es-AR')} km`}
+            </Text>
           </View>
           <View style={styles.dateRow}>
             <Calendar size={16} color={themeColors.text.muted} strokeWidth={2} />
@@ -215,6 +215,8 @@ export default function BalanceScreen() {
       worker_payment: 'Pago recibido',
       commission: 'Comisión',
       withdrawal: 'Retiro',
+      fiscal_invoice: 'Factura electrónica',
+      credit_note: 'Nota de crédito',
     };
     return typeMap[type] || type;
   };
@@ -558,14 +560,20 @@ export default function BalanceScreen() {
                       </Text>
                       <Text style={[styles.invoiceType, { color: themeColors.text.secondary }]}>
                         {getInvoiceTypeText(invoice.type)}
+                        {invoice.status === 'void' ? ' · Anulada' : ''}
                       </Text>
+                      {invoice.creditedInvoiceNumber ? (
+                        <Text style={[styles.txDate, { color: themeColors.text.muted }]}>
+                          Acredita {invoice.creditedInvoiceNumber}
+                        </Text>
+                      ) : null}
                       <Text style={[styles.txDate, { color: themeColors.text.muted }]}>
                         {formatDate(invoice.createdAt)}
                       </Text>
                     </View>
                     <View style={styles.invoiceRight}>
                       <Text style={[styles.invoiceTotal, { color: themeColors.text.primary }]}>
-                        {formatPrice(invoice.total)}
+                        {invoice.type === 'credit_note' ? `-${formatPrice(invoice.total)}` : formatPrice(invoice.total)}
                       </Text>
                       <TouchableOpacity
                         style={styles.downloadButton}
@@ -12,15 +12,28 @@ import {
 } from 'react-native';
 import { useLocalSearchParams, useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { ArrowLeft, Send, User, Key, Copy, Check, Briefcase, MapPin, DollarSign, ExternalLink, X } from 'lucide-react-native';
+import { ArrowLeft, Send, User, Key, Copy, Check, Briefcase, MapPin, DollarSign, ExternalLink, X, Pin, Megaphone } from 'lucide-react-native';
 import * as Clipboard from 'expo-clipboard';
 import { useTheme } from '../../context/ThemeContext';
 import { useAuth } from '../../context/AuthContext';
 import { getMessages, sendMessage, sendMessageWithJob, markAsRead, getConversation } from '../../services/chat';
 import { getJobs } from '../../services/jobs';
-import { Message, User as UserType, Conversation } from '../../types';
+import { Message, User as UserType, Conversation, TeamReadState } from '../../types';
 import { colors, spacing, borderRadius, fontSize, fontWeight } from '../../constants/theme';
 
+// "Visto por X de Y" for a message sent by the current user in a job team chat
+function seenByLabel(createdAt: string, senderId: string, readState: TeamReadState): string {
+  const sentAt = new Date(createdAt).getTime();
+  const others = readState.participants.filter((id) => id !== senderId);
+  const seen = others.filter((id) => {
+    const readAt = readState.lastReadAt[id];
+    return !!readAt && new Date(readAt).getTime() >= sentAt;
+  });
+  return seen.length === others.length && others.length > 0
+    ? 'Visto por todos'
+    : `Visto por ${seen.length} de ${others.length}`;
+}
+
 export default function ChatScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
   const router = useRouter();
@@ -38,6 +51,11 @@ export default function ChatScreen() {
   const [conversation, setConversation] = useState<Conversation | null>(null);
   const [copiedJobCode, setCopiedJobCode] = useState(false);
 
+  // Job team chat: each member's last read and pinned announcements
+  const [readState, setReadState] = useState<TeamReadState | null>(null);
+  const [pinnedMessages, setPinnedMessages] = useState<Message[]>([]);
+  const isTeamChat = conversation?.type === 'job_team';
+
   // Inline job attachment
   const [showJobPicker, setShowJobPicker] = useState(false);
   const [inlineJobs, setInlineJobs] = useState<any[]>([]);
@@ -67,7 +85,11 @@ export default function ChatScreen() {
     try {
       const response = await getConversation(id);
       if (response.success && response.data) {
-        setConversation(response.data.conversation);
+        // The server returns the conversation itself as data
+        const data: any = response.data;
+        const conv: Conversation = data.conversation || data;
+        setConversation(conv);
+        setPinnedMessages(conv.pinnedMessages || []);
       }
     } catch (error) {
       console.error('Error fetching conversation:', error);
@@ -95,6 +117,7 @@ export default function ChatScreen() {
         }
         if (pagination) setHasMore(pagination.page < pagination.pages);
         setPage(pageNum);
+        if (pageNum === 1) setReadState(raw.readState || null);
 
         // Mark as read
         await markAsRead(id);
@@ -276,6 +299,13 @@ export default function ChatScreen() {
       );
     }
 
+    // Job team chat: members joining or leaving
+    if (item.metadata?.action === 'team_member_joined' || item.metadata?.action === 'team_member_left') {
+      return (
+        <Text style={[chatStyles.teamEventText, { color: themeColors.text.muted }]}>{messageContent}</Text>
+      );
+    }
+
     // System message - special styling
     if (item.type === 'system') {
       // Parse message with || delimiter: "header||title||content"
@@ -450,13 +480,32 @@ export default function ChatScreen() {
                 : { backgroundColor: themeColors.card, borderWidth: 1, borderColor: themeColors.border },
             ]}
           >
+            {item.type === 'announcement' && (
+              <View style={chatStyles.announcementLabel}>
+                <Megaphone size={12} color={isOwn ? colors.warning[100] : colors.warning[600]} />
+                <Text style={[chatStyles.announcementLabelText, { color: isOwn ? colors.warning[100] : colors.warning[600] }]}>
+                  {item.metadata?.taskTitle ? `Anuncio · ${item.metadata.taskTitle}` : 'Anuncio'}
+                </Text>
+              </View>
+            )}
+            {isTeamChat && !isOwn && (
+              <Text style={[chatStyles.teamSenderName, { color: themeColors.text.secondary }]}>{sender?.name}</Text>
+            )}
             <Text
               style={[
                 styles.messageText,
                 { color: isOwn ? '#fff' : themeColors.text.primary },
               ]}
             >
-              {messageContent}
+              {isTeamChat
+                ? messageContent.split(/((?:^|\s)@[\p{L}\p{N}_]+)/gu).map((part, i) =>
+                  /@[\p{L}\p{N}_]+$/u.test(part) ? (
+                    <Text key={i} style={{ fontWeight: fontWeight.semibold, color: isOwn ? '#fff' : colors.primary[600] }}>{part}</Text>
+                  ) : (
+                    part
+                  )
+                )
+                : messageContent}
             </Text>
             <Text
               style={[
@@ -465,6 +514,7 @@ export default function ChatScreen() {
               ]}
             >
               {formatTime(item.createdAt)}
+              {isTeamChat && isOwn && readState && userId ? ` · ${seenByLabel(item.createdAt, userId, readState)}` : ''}
             </Text>
           </View>
         </View>
@@ -528,6 +578,25 @@ export default function ChatScreen() {
         style={{ flex: 1 }}
         keyboardVerticalOffset={Platform.OS === 'ios' ? 0 : 0}
       >
+        {/* Job team chat: pinned announcements */}
+        {isTeamChat && pinnedMessages.length > 0 && (
+          <View style={[chatStyles.pinnedBar, { backgroundColor: colors.warning[50], borderBottomColor: colors.warning[100] }]}>
+            {pinnedMessages.map((pinned) => (
+              <View key={pinned.id || pinned._id} style={chatStyles.pinnedRow}>
+                <Pin size={14} color={colors.warning[600]} />
+                <View style={{ flex: 1 }}>
+                  {pinned.metadata?.taskTitle && (
+                    <Text style={[chatStyles.pinnedTask, { color: colors.warning[600] }]}>{pinned.metadata.taskTitle}</Text>
+                  )}
+                  <Text style={{ fontSize: fontSize.sm, color: themeColors.text.primary }} numberOfLines={2}>
+                    {getMessageContent(pinned)}
+                  </Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+
         {/* Messages */}
         <FlatList
           ref={flatListRef}
@@ -617,7 +686,7 @@ export default function ChatScreen() {
                 color: themeColors.text.primary,
               },
             ]}
-            placeholder="Escribe un mensaje..."
+            placeholder={isTeamChat ? 'Escribe un mensaje... (@nombre para mencionar)' : 'Escribe un mensaje...'}
             placeholderTextColor={themeColors.text.muted}
             value={messageText}
             onChangeText={setMessageText}
@@ -645,6 +714,41 @@ export default function ChatScreen() {
 }
 
 const chatStyles = StyleSheet.create({
+  teamEventText: {
+    fontSize: fontSize.xs,
+    textAlign: 'center',
+    marginVertical: spacing.sm,
+  },
+  teamSenderName: {
+    fontSize: fontSize.xs,
+    fontWeight: fontWeight.semibold,
+    marginBottom: 2,
+  },
+  announcementLabel: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 4,
+  },
+  announcementLabelText: {
+    fontSize: fontSize.xs,
+    fontWeight: fontWeight.semibold,
+  },
+  pinnedBar: {
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    gap: spacing.xs,
+  },
+  pinnedRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.sm,
+  },
+  pinnedTask: {
+    fontSize: fontSize.xs,
+    fontWeight: fontWeight.semibold,
+  },
   dateSeparator: {
     alignItems: 'center',
     marginVertical: spacing.md,
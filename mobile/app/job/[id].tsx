@@ -49,6 +49,7 @@ import { getContractsByJob, confirmContract } from '../../services/contracts';
 import { Job, Proposal, UserSummary, Contract } from '../../types';
 import { colors, spacing, borderRadius, fontSize, fontWeight } from '../../constants/theme';
 import { getCategoryById } from '../../services/jobs';
+import JobTaskGantt from '../../components/JobTaskGantt';
 
 export default function JobDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
@@ -662,6 +663,16 @@ export default function JobDetailScreen() {
           <Text style={[styles.description, { color: themeColors.text.secondary }]}>{job.description}</Text>
         </View>
 
+        {/* Tasks: dependencies, critical path and Gantt (owner and selected workers) */}
+        {(isOwner || isWorkerSelected) && (
+          <JobTaskGantt
+            jobId={job.id || job._id}
+            userId={user?._id}
+            isOwner={isOwner}
+            isWorker={isWorkerSelected}
+          />
+        )}
+
         {/* Worker Status Card (non-owner, selected) */}
         {!isOwner && isWorkerSelected && job.status !== 'cancelled' && job.status !== 'completed' && (
           <View style={[styles.workerStatusCard, { backgroundColor: colors.primary[50], borderColor: colors.primary[200] }]}>
@@ -29,11 +29,18 @@ import {
   MapPin,
   Save,
   AtSign,
+  Search,
 } from 'lucide-react-native';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
 import { updateSettings } from '../services/auth';
 import { post } from '../services/api';
+import {
+  getSavedSearches,
+  updateSavedSearch,
+  deleteSavedSearch,
+  type SavedSearch,
+} from '../services/savedSearches';
 import { colors, spacing, borderRadius, fontSize, fontWeight } from '../constants/theme';
 import AttentionDot from '../components/AttentionDot';
 import CredibilityBadge from '../components/CredibilityBadge';
@@ -98,6 +105,36 @@ export default function SettingsScreen() {
     contracts: true,
   });
 
+  // Saved searches (alertas de trabajos nuevos)
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([]);
+
+  useEffect(() => {
+    getSavedSearches().then((res) => {
+      if (res.success && res.data) setSavedSearches(res.data);
+    });
+  }, []);
+
+  const changeSavedSearch = async (id: string, changes: Partial<SavedSearch>) => {
+    setSavedSearches((prev) => prev.map((s) => (s.id === id ? { ...s, ...changes } : s)));
+    const res = await updateSavedSearch(id, changes);
+    if (!res.success) Alert.alert('Error', res.message || 'No se pudo actualizar la búsqueda');
+  };
+
+  const removeSavedSearch = (search: SavedSearch) => {
+    Alert.alert('Eliminar búsqueda', `¿Eliminar "${search.name}"?`, [
+      { text: 'Cancelar', style: 'cancel' },
+      {
+        text: 'Eliminar',
+        style: 'destructive',
+        onPress: async () => {
+          const res = await deleteSavedSearch(search.id);
+          if (res.success) setSavedSearches((prev) => prev.filter((s) => s.id !== search.id));
+          else Alert.alert('Error', res.message || 'No se pudo eliminar la búsqueda');
+        },
+      },
+    ]);
+  };
+
   // Banking info
   const [bankingInfo, setBankingInfo] = useState({
     cbu: user?.bankingInfo?.cbu || '',
@@ -574,6 +611,65 @@ export default function SettingsScreen() {
           </View>
         </View>
 
+        {/* Saved searches */}
+        {savedSearches.length > 0 && (
+          <View style={styles.section}>
+            <Text style={[styles.sectionTitle, { color: themeColors.text.muted }]}>
+              Búsquedas guardadas
+            </Text>
+            <View style={[styles.card, { backgroundColor: themeColors.card, borderColor: themeColors.border }]}>
+              {savedSearches.map((search, index) => (
+                <View key={search.id}>
+                  {index > 0 && <View style={[styles.divider, { backgroundColor: themeColors.border }]} />}
+                  <View style={styles.settingRow}>
+                    <View style={styles.settingLeft}>
+                      <Search size={20} color={themeColors.text.secondary} />
+                      <View style={{ flex: 1 }}>
+                        <Text style={[styles.settingLabel, { color: themeColors.text.primary }]}>
+                          {search.name}
+                        </Text>
+                        <Text style={[styles.settingValue, { color: themeColors.text.muted }]}>
+                          {search.matchCount} trabajos encontrados
+                        </Text>
+                      </View>
+                    </View>
+                    <Switch
+                      value={!search.muted}
+                      onValueChange={(value: boolean) => changeSavedSearch(search.id, { muted: !value })}
+                      trackColor={{ false: colors.slate[300], true: colors.primary[600] }}
+                      thumbColor="#fff"
+                    />
+                  </View>
+                  {!search.muted && (
+                    <View style={[styles.settingRow, { paddingTop: 0 }]}>
+                      <TouchableOpacity
+                        style={[styles.settingLeft, { marginLeft: 28 }]}
+                        onPress={() => changeSavedSearch(search.id, { frequency: search.frequency === 'instant' ? 'daily' : 'instant' })}
+                      >
+                        <Text style={[styles.settingValue, { color: colors.primary[600] }]}>
+                          {search.frequency === 'instant' ? 'Al instante' : 'Resumen diario'}
+                        </Text>
+                      </TouchableOpacity>
+                      <Text style={[styles.settingValue, { color: themeColors.text.secondary, marginRight: spacing.sm }]}>
+                        Email diario
+                      </Text>
+                      <Switch
+                        value={search.emailDigest}
+                        onValueChange={(value: boolean) => changeSavedSearch(search.id, { emailDigest: value })}
+                        trackColor={{ false: colors.slate[300], true: colors.primary[600] }}
+                        thumbColor="#fff"
+                      />
+                      <TouchableOpacity onPress={() => removeSavedSearch(search)} style={{ marginLeft: spacing.md }}>
+                        <Trash2 size={18} color={themeColors.text.muted} />
+                      </TouchableOpacity>
+                    </View>
+                  )}
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
         {/* Security */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: themeColors.text.muted }]}>
@@ -0,0 +1,183 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, ActivityIndicator, Alert } from 'react-native';
+import { CheckCircle, Circle, Clock, Lock, Flame, Calendar } from 'lucide-react-native';
+import { useTheme } from '../context/ThemeContext';
+import { colors, spacing, borderRadius, fontSize, fontWeight } from '../constants/theme';
+import { getJobTasks, updateTaskStatus, JobTask, TaskStatus } from '../services/tasks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const shortDate = (value: number | string) =>
+  new Date(value).toLocaleDateString('es-AR', { day: 'numeric', month: 'short' });
+
+const NEXT_STATUS: Record<TaskStatus, TaskStatus> = {
+  pending: 'in_progress',
+  in_progress: 'completed',
+  completed: 'in_progress',
+};
+
+/**
+ * Tareas del trabajo como Gantt: una barra por tarea según la planificación
+ * del servidor, con el camino crítico en rojo. El trabajador toca una tarea
+ * desbloqueada para avanzarla; las bloqueadas muestran qué esperan.
+ */
+export default function JobTaskGantt({
+  jobId,
+  userId,
+  isOwner,
+  isWorker,
+}: {
+  jobId: string;
+  userId?: string;
+  isOwner: boolean;
+  isWorker: boolean;
+}) {
+  const { colors: themeColors }: any = useTheme();
+  const [tasks, setTasks] = useState<JobTask[]>([]);
+  const [projectedCompletion, setProjectedCompletion] = useState<string | null>(null);
+  const [isBehindSchedule, setIsBehindSchedule] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [updatingId, setUpdatingId] = useState<string | null>(null);
+
+  const applyResponse = (response: Awaited<ReturnType<typeof getJobTasks>>) => {
+    if (!response.success) return;
+    const list = response.tasks || [];
+    setTasks(list);
+    // Los cambios de estado no traen el resumen: se recalcula de las tareas
+    const finishes = list.filter((task) => task.plannedFinish).map((task) => new Date(task.plannedFinish!).getTime());
+    setProjectedCompletion(response.projectedCompletion ?? (finishes.length > 0 ? new Date(Math.max(...finishes)).toISOString() : null));
+    if (response.isBehindSchedule !== undefined) setIsBehindSchedule(response.isBehindSchedule);
+  };
+
+  useEffect(() => {
+    getJobTasks(jobId)
+      .then(applyResponse)
+      .finally(() => setLoading(false));
+  }, [jobId]);
+
+  const handleAdvance = async (task: JobTask) => {
+    setUpdatingId(task.id);
+    const response = await updateTaskStatus(jobId, task.id, NEXT_STATUS[task.status]);
+    setUpdatingId(null);
+    if (!response.success) {
+      Alert.alert('No se pudo actualizar', response.message || 'Intentá de nuevo');
+      return;
+    }
+    applyResponse(response);
+  };
+
+  if (loading) {
+    return <ActivityIndicator color={colors.primary[500]} style={{ marginBottom: spacing.lg }} />;
+  }
+  if (tasks.length === 0) return null;
+
+  const planned = tasks.filter((task) => task.plannedStart && task.plannedFinish);
+  const min = Math.min(...planned.map((task) => new Date(task.plannedStart!).getTime()));
+  const max = Math.max(...planned.map((task) => new Date(task.plannedFinish!).getTime()));
+  const span = Math.max(max - min, DAY_MS);
+  const titles = new Map(tasks.map((task) => [task.id, task.title]));
+  const completed = tasks.filter((task) => task.status === 'completed').length;
+
+  const barColor = (task: JobTask) => {
+    if (task.status === 'completed') return colors.success[500];
+    if (task.isCritical) return colors.danger[500];
+    if (task.status === 'in_progress') return colors.warning[500];
+    return colors.primary[500];
+  };
+
+  const canAdvance = (task: JobTask) =>
+    isWorker && task.isUnlocked && (isOwner || !task.assigneeId || task.assigneeId === userId);
+
+  return (
+    <View style={[styles.section, { backgroundColor: themeColors.card, borderColor: themeColors.border }]}>
+      <Text style={[styles.sectionTitle, { color: themeColors.text.primary }]}>
+        Tareas ({completed}/{tasks.length})
+      </Text>
+      {projectedCompletion && completed < tasks.length && (
+        <View style={styles.projectedRow}>
+          <Calendar size={14} color={isBehindSchedule ? colors.danger[600] : themeColors.text.secondary} />
+          <Text style={[styles.projectedText, { color: isBehindSchedule ? colors.danger[600] : themeColors.text.secondary }]}>
+            Finalización proyectada: {shortDate(projectedCompletion)}
+            {isBehindSchedule ? ' · después de la fecha de entrega' : ''}
+          </Text>
+        </View>
+      )}
+
+      {planned.length > 0 && (
+        <View style={styles.scaleRow}>
+          <Text style={[styles.scaleText, { color: themeColors.text.muted }]}>{shortDate(min)}</Text>
+          <Text style={[styles.scaleText, { color: themeColors.text.muted }]}>{shortDate(min + span)}</Text>
+        </View>
+      )}
+
+      {tasks.map((task) => {
+        const start = task.plannedStart ? new Date(task.plannedStart).getTime() : min;
+        const finish = task.plannedFinish ? new Date(task.plannedFinish).getTime() : start;
+        const left = ((start - min) / span) * 100;
+        const width = Math.max(((finish - start) / span) * 100, 3);
+        const Icon = !task.isUnlocked ? Lock : task.status === 'completed' ? CheckCircle : task.status === 'in_progress' ? Clock : Circle;
+        const advance = canAdvance(task);
+
+        return (
+          <TouchableOpacity
+            key={task.id}
+            disabled={!advance || updatingId !== null}
+            onPress={() => handleAdvance(task)}
+            style={styles.taskRow}
+            activeOpacity={0.7}
+          >
+            <View style={styles.taskHeader}>
+              {updatingId === task.id
+                ? <ActivityIndicator size="small" color={colors.primary[500]} />
+                : <Icon size={16} color={task.isUnlocked ? barColor(task) : colors.slate[400]} />}
+              <Text
+                numberOfLines={1}
+                style={[
+                  styles.taskTitle,
+                  { color: themeColors.text.primary },
+                  task.status === 'completed' && styles.taskTitleDone,
+                ]}
+              >
+                {task.title}
+              </Text>
+              {task.isCritical && <Flame size={14} color={colors.danger[500]} />}
+            </View>
+            <View style={[styles.track, { backgroundColor: themeColors.border }]}>
+              <View style={[styles.bar, { left: `${left}%`, width: `${Math.min(width, 100 - left)}%`, backgroundColor: barColor(task) }]} />
+            </View>
+            <Text style={[styles.taskMeta, { color: themeColors.text.muted }]} numberOfLines={1}>
+              {shortDate(start)} → {shortDate(finish)}
+              {task.assignee ? ` · ${task.assignee.name}` : ''}
+              {task.blockedBy && task.blockedBy.length > 0 && task.status !== 'completed'
+                ? ` · Espera a: ${task.blockedBy.map((id) => titles.get(id)).join(', ')}`
+                : ''}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+
+      {isWorker && (
+        <Text style={[styles.hint, { color: themeColors.text.muted }]}>
+          Tocá una tarea desbloqueada para avanzarla. En rojo, el camino crítico.
+        </Text>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  section: { padding: spacing.lg, borderRadius: borderRadius.xl, borderWidth: 1, marginBottom: spacing.lg },
+  sectionTitle: { fontSize: fontSize.lg, fontWeight: fontWeight.semibold, marginBottom: spacing.sm },
+  projectedRow: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: spacing.md },
+  projectedText: { fontSize: fontSize.sm },
+  scaleRow: { flexDirection: 'row', justifyContent: 'space-between', marginBottom: spacing.xs },
+  scaleText: { fontSize: fontSize.xs },
+  taskRow: { marginBottom: spacing.md },
+  taskHeader: { flexDirection: 'row', alignItems: 'center', gap: 6, marginBottom: 4 },
+  taskTitle: { flex: 1, fontSize: fontSize.sm, fontWeight: fontWeight.medium },
+  taskTitleDone: { textDecorationLine: 'line-through', opacity: 0.6 },
+  track: { height: 8, borderRadius: 4, overflow: 'hidden' },
+  bar: { position: 'absolute', top: 0, bottom: 0, borderRadius: 4 },
+  taskMeta: { fontSize: fontSize.xs, marginTop: 2 },
+  hint: { fontSize: fontSize.xs, textAlign: 'center', marginTop: spacing.xs },
+});
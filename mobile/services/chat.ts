@@ -1,4 +1,4 @@
-import { Conversation, Message, ApiResponse } from '../types';
+import { Conversation, Message, ApiResponse, TeamReadState } from '../types';
 import { get, post } from './api';
 
 /**
@@ -22,6 +22,7 @@ export async function getMessages(conversationId: string, page: number = 1): Pro
     pages: number;
     total: number;
   };
+  readState?: TeamReadState;
 }>> {
   return get<{
     messages: Message[];
@@ -30,6 +31,7 @@ export async function getMessages(conversationId: string, page: number = 1): Pro
       pages: number;
       total: number;
     };
+    readState?: TeamReadState;
   }>(`/chat/conversations/${conversationId}/messages?page=${page}`);
 }
 
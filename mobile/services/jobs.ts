@@ -20,6 +20,10 @@ interface JobFilters {
   query?: string;
   sortBy?: string;
   tags?: string;
+  // "Cerca mío": coordenadas del dispositivo y radio opcional en km
+  latitude?: number;
+  longitude?: number;
+  radius?: number;
 }
 
 /**
@@ -0,0 +1,43 @@
+import { ApiResponse } from '../types';
+import { get, patch, del } from './api';
+
+/**
+ * Servicio de búsquedas guardadas (alertas de trabajos nuevos)
+ */
+
+export type SavedSearchFrequency = 'instant' | 'daily';
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  filters: Record<string, any>;
+  muted: boolean;
+  frequency: SavedSearchFrequency;
+  emailDigest: boolean;
+  matchCount: number;
+  lastMatchedAt?: string | null;
+}
+
+/**
+ * Obtener las búsquedas guardadas del usuario
+ */
+export async function getSavedSearches(): Promise<ApiResponse<SavedSearch[]>> {
+  return get<SavedSearch[]>('/saved-searches');
+}
+
+/**
+ * Silenciar o cambiar la frecuencia de las alertas de una búsqueda
+ */
+export async function updateSavedSearch(
+  id: string,
+  changes: Partial<Pick<SavedSearch, 'name' | 'muted' | 'frequency' | 'emailDigest'>>
+): Promise<ApiResponse<SavedSearch>> {
+  return patch<SavedSearch>(`/saved-searches/${id}`, changes);
+}
+
+/**
+ * Eliminar una búsqueda guardada
+ */
+export async function deleteSavedSearch(id: string): Promise<ApiResponse<void>> {
+  return del<void>(`/saved-searches/${id}`);
+}
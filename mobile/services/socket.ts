@@ -52,7 +52,7 @@ export async function initSocket(): Promise<Socket | null> {
 
   try {
     socketInstance = io(SOCKET_URL, {
-      auth: { token },
+      auth: { token, device: 'mobile' },
       path: '/socket.io',
       transports: ['websocket', 'polling'],
       reconnection: true,
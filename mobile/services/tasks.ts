@@ -0,0 +1,52 @@
+import { get, put } from './api';
+
+/**
+ * Servicio de tareas de un trabajo (dependencias, camino crítico y Gantt)
+ */
+
+export type TaskStatus = 'pending' | 'in_progress' | 'completed';
+
+export interface JobTask {
+  id: string;
+  title: string;
+  description?: string;
+  orderIndex: number;
+  status: TaskStatus;
+  isUnlocked: boolean;
+  prerequisiteIds?: string[];
+  blockedBy?: string[];
+  estimatedDays?: number | string | null;
+  assigneeId?: string | null;
+  assignee?: { id: string; name: string; avatar?: string } | null;
+  plannedStart?: string;
+  plannedFinish?: string;
+  slackDays?: number;
+  isCritical?: boolean;
+}
+
+export interface JobTasksResponse {
+  success: boolean;
+  message?: string;
+  tasks?: JobTask[];
+  progress?: number;
+  criticalPath?: string[];
+  projectedCompletion?: string | null;
+  isBehindSchedule?: boolean;
+  isOwner?: boolean;
+  isWorker?: boolean;
+}
+
+/**
+ * Obtener las tareas de un trabajo con su planificación
+ */
+export async function getJobTasks(jobId: string): Promise<JobTasksResponse> {
+  // La respuesta trae las tareas en el primer nivel, no en `data`
+  return (await get<never>(`/jobs/${jobId}/tasks`)) as JobTasksResponse;
+}
+
+/**
+ * Cambiar el estado de una tarea (el servidor rechaza si hay prerrequisitos sin completar)
+ */
+export async function updateTaskStatus(jobId: string, taskId: string, status: TaskStatus): Promise<JobTasksResponse> {
+  return (await put<never>(`/jobs/${jobId}/tasks/${taskId}`, { status })) as JobTasksResponse;
+}
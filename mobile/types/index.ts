@@ -16,6 +16,8 @@ export interface Job {
   location: string;
   neighborhood?: string;
   postalCode?: string;
+  // km desde la ubicación del usuario (solo en búsquedas "cerca mío")
+  distance?: number;
   status: 'open' | 'in_progress' | 'completed' | 'cancelled' | 'draft' | 'pending_payment' | 'pending_approval' | 'paused' | 'suspended';
   postedBy: string;
   client?: UserSummary | string;
@@ -143,7 +145,7 @@ export interface AvailabilitySchedule {
 export interface Invoice {
   id: string;
   invoiceNumber: string;
-  type: 'client_payment' | 'worker_payment' | 'commission' | 'withdrawal';
+  type: 'client_payment' | 'worker_payment' | 'commission' | 'withdrawal' | 'fiscal_invoice' | 'credit_note';
   amount: number;
   commission: number;
   total: number;
@@ -151,6 +153,13 @@ export interface Invoice {
   status: 'generated' | 'sent' | 'void';
   metadata?: Record<string, any>;
   createdAt: string;
+  // Acreditado por notas de crédito
+  creditedAmount?: number;
+  // Nota de crédito: la factura que acredita
+  creditedInvoiceId?: string | null;
+  creditedInvoiceNumber?: string;
+  creditScope?: 'total' | 'partial';
+  creditReason?: string;
 }
 
 export interface Address {
@@ -246,7 +255,7 @@ export interface Message {
   sender: User | { id?: string; _id?: string; name: string; avatar?: string };
   content?: string;
   message?: string; // Backend uses 'message' field
-  type: 'text' | 'image' | 'file' | 'system';
+  type: 'text' | 'image' | 'file' | 'system' | 'announcement';
   attachments?: string[];
   readBy?: string[];
   read?: boolean;
@@ -256,7 +265,7 @@ export interface Message {
     proposalId?: string;
     proposalStatus?: 'pending' | 'approved' | 'rejected' | 'withdrawn';
     contractId?: string;
-    action?: 'job_application' | 'direct_contract_proposal' | 'direct_proposal_accepted' | 'direct_proposal_rejected';
+    action?: 'job_application' | 'direct_contract_proposal' | 'direct_proposal_accepted' | 'direct_proposal_rejected' | 'team_member_joined' | 'team_member_left' | 'task_announcement';
     isCounterOffer?: boolean;
     directProposal?: {
       title: string;
@@ -284,10 +293,20 @@ export interface Conversation {
   lastMessage?: Message;
   unreadCount?: number;
   metadata?: Record<string, any>;
+  type?: 'contract' | 'direct' | 'support' | 'job_team';
+  // Job team chats: pinned task announcements
+  pinnedMessages?: Message[];
   createdAt: string;
   updatedAt: string;
 }
 
+/** Job team chats: each member's last read, for "Visto por X de Y" */
+export interface TeamReadState {
+  participants: string[];
+  lastReadAt: Record<string, string>;
+  pinnedMessageIds?: string[];
+}
+
 export interface Notification {
   _id: string;
   user: string;
@@ -121,7 +121,13 @@ async function registerModels() {
   const { default: User } = await import('../models/sql/User.model.js');
   const { default: Job } = await import('../models/sql/Job.model.js');
   const { JobTask } = await import('../models/sql/JobTask.model.js');
+  const { RecurringJob } = await import('../models/sql/RecurringJob.model.js');
+  const { RecurringJobOccurrence } = await import('../models/sql/RecurringJobOccurrence.model.js');
+  const { ExternalBusyBlock } = await import('../models/sql/ExternalBusyBlock.model.js');
+  const { SocketPresence } = await import('../models/sql/SocketPresence.model.js');
   const { default: Contract } = await import('../models/sql/Contract.model.js');
+  const { ContractStatusTransition } = await import('../models/sql/ContractStatusTransition.model.js');
+  const { ContractMilestone } = await import('../models/sql/ContractMilestone.model.js');
   const { default: Payment } = await import('../models/sql/Payment.model.js');
   const { default: Proposal } = await import('../models/sql/Proposal.model.js');
   const { default: Review } = await import('../models/sql/Review.model.js');
@@ -138,6 +144,17 @@ async function registerModels() {
   const { default: Referral } = await import('../models/sql/Referral.model.js');
   const { default: BalanceTransaction } = await import('../models/sql/BalanceTransaction.model.js');
   const { default: WithdrawalRequest } = await import('../models/sql/WithdrawalRequest.model.js');
+  const { PayoutBatch } = await import('../models/sql/PayoutBatch.model.js');
+  const { LedgerAccount } = await import('../models/sql/LedgerAccount.model.js');
+  const { LedgerEntry } = await import('../models/sql/LedgerEntry.model.js');
+  const { LedgerLine } = await import('../models/sql/LedgerLine.model.js');
+  const { WebhookEvent } = await import('../models/sql/WebhookEvent.model.js');
+  const { ScheduledJob } = await import('../models/sql/ScheduledJob.model.js');
+  const { JobRun } = await import('../models/sql/JobRun.model.js');
+  const { CommissionRule } = await import('../models/sql/CommissionRule.model.js');
+  const { SavedSearch } = await import('../models/sql/SavedSearch.model.js');
+  const { SavedSearchMatch } = await import('../models/sql/SavedSearchMatch.model.js');
+  const { AuditLogCheckpoint } = await import('../models/sql/AuditLogCheckpoint.model.js');
   const { default: RefreshToken } = await import('../models/sql/RefreshToken.model.js');
   const { default: PasswordResetToken } = await import('../models/sql/PasswordResetToken.model.js');
   const { LoginDevice } = await import('../models/sql/LoginDevice.model.js');
@@ -166,7 +183,13 @@ async function registerModels() {
     User,
     Job,
     JobTask,
+    RecurringJob,
+    RecurringJobOccurrence,
+    ExternalBusyBlock,
+    SocketPresence,
     Contract,
+    ContractStatusTransition,
+    ContractMilestone,
     Payment,
     PaymentProof,
     Proposal,
@@ -184,6 +207,17 @@ async function registerModels() {
     Referral,
     BalanceTransaction,
     WithdrawalRequest,
+    PayoutBatch,
+    LedgerAccount,
+    LedgerEntry,
+    LedgerLine,
+    WebhookEvent,
+    ScheduledJob,
+    JobRun,
+    CommissionRule,
+    SavedSearch,
+    SavedSearchMatch,
+    AuditLogCheckpoint,
     RefreshToken,
     PasswordResetToken,
     LoginDevice,
@@ -112,6 +112,585 @@ const STATEMENTS: Array<{ label: string; sql: string }> = [
   { label: 'users.kyc_verified_at', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS kyc_verified_at TIMESTAMPTZ` },
   { label: 'users.kyc_data', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS kyc_data JSONB` },
   { label: 'users.kyc_attempts', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS kyc_attempts INTEGER NOT NULL DEFAULT 0` },
+
+  // --- contract_status_transitions: append-only contract lifecycle history ---
+  {
+    label: 'contract_status_transitions table',
+    sql: `CREATE TABLE IF NOT EXISTS contract_status_transitions (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      contract_id UUID NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+      event VARCHAR(30) NOT NULL,
+      from_status VARCHAR(30) NOT NULL,
+      to_status VARCHAR(30) NOT NULL,
+      payment_status_before VARCHAR(30),
+      payment_status_after VARCHAR(30),
+      actor_id UUID,
+      actor_role VARCHAR(10) NOT NULL,
+      reason TEXT,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'contract_status_transitions contract index', sql: `CREATE INDEX IF NOT EXISTS contract_status_transitions_contract_id_created_at ON contract_status_transitions (contract_id, created_at)` },
+
+  // --- jobs.search_vector: full-text search (column "search_vector" does not exist) ---
+  { label: 'unaccent extension', sql: `CREATE EXTENSION IF NOT EXISTS unaccent` },
+  {
+    label: 'jobs_build_search_vector function',
+    sql: `CREATE OR REPLACE FUNCTION jobs_build_search_vector(title TEXT, summary TEXT, description TEXT)
+      RETURNS tsvector AS $$
+        SELECT
+          setweight(to_tsvector('spanish', unaccent(coalesce(title, ''))), 'A') ||
+          setweight(to_tsvector('english', unaccent(coalesce(title, ''))), 'A') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(summary, ''))), 'B') ||
+          setweight(to_tsvector('english', unaccent(coalesce(summary, ''))), 'B') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(description, ''))), 'C') ||
+          setweight(to_tsvector('english', unaccent(coalesce(description, ''))), 'C')
+      $$ LANGUAGE sql STABLE`,
+  },
+  {
+    label: 'jobs_search_vector_update function',
+    sql: `CREATE OR REPLACE FUNCTION jobs_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector := jobs_build_search_vector(NEW.title, NEW.summary, NEW.description);
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql`,
+  },
+  { label: 'jobs.search_vector', sql: `ALTER TABLE jobs ADD COLUMN IF NOT EXISTS search_vector tsvector` },
+  {
+    label: 'jobs search_vector trigger',
+    sql: `DO $$ BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'jobs_search_vector_trigger') THEN
+        CREATE TRIGGER jobs_search_vector_trigger
+        BEFORE INSERT OR UPDATE OF title, summary, description ON jobs
+        FOR EACH ROW EXECUTE FUNCTION jobs_search_vector_update();
+      END IF;
+    END $$`,
+  },
+  { label: 'jobs search_vector backfill', sql: `UPDATE jobs SET search_vector = jobs_build_search_vector(title, summary, description) WHERE search_vector IS NULL` },
+  { label: 'jobs search_vector GIN index', sql: `CREATE INDEX IF NOT EXISTS jobs_search_vector_idx ON jobs USING GIN (search_vector)` },
+  // --- double-entry ledger (relation "ledger_accounts" does not exist) ---
+  {
+    label: 'ledger_accounts table',
+    sql: `CREATE TABLE IF NOT EXISTS ledger_accounts (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      code VARCHAR(80) NOT NULL UNIQUE,
+      name VARCHAR(120) NOT NULL,
+      type VARCHAR(20) NOT NULL,
+      user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      currency VARCHAR(3) NOT NULL DEFAULT 'ARS',
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'ledger_accounts user index', sql: `CREATE INDEX IF NOT EXISTS ledger_accounts_user_id ON ledger_accounts (user_id)` },
+  {
+    label: 'ledger_entries table',
+    sql: `CREATE TABLE IF NOT EXISTS ledger_entries (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      kind VARCHAR(30) NOT NULL,
+      description TEXT NOT NULL,
+      idempotency_key VARCHAR(150) UNIQUE,
+      contract_id UUID,
+      payment_id UUID,
+      job_id UUID,
+      withdrawal_id UUID,
+      created_by UUID,
+      metadata JSONB NOT NULL DEFAULT '{}'::jsonb,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'ledger_entries kind index', sql: `CREATE INDEX IF NOT EXISTS ledger_entries_kind_created_at ON ledger_entries (kind, created_at)` },
+  { label: 'ledger_entries contract index', sql: `CREATE INDEX IF NOT EXISTS ledger_entries_contract_id ON ledger_entries (contract_id)` },
+  { label: 'ledger_entries payment index', sql: `CREATE INDEX IF NOT EXISTS ledger_entries_payment_id ON ledger_entries (payment_id)` },
+  { label: 'ledger_entries created_by index', sql: `CREATE INDEX IF NOT EXISTS ledger_entries_created_by ON ledger_entries (created_by)` },
+  {
+    label: 'ledger_lines table',
+    sql: `CREATE TABLE IF NOT EXISTS ledger_lines (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      entry_id UUID NOT NULL REFERENCES ledger_entries(id) ON DELETE RESTRICT,
+      account_id UUID NOT NULL REFERENCES ledger_accounts(id) ON DELETE RESTRICT,
+      debit DECIMAL(14,2) NOT NULL DEFAULT 0,
+      credit DECIMAL(14,2) NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      CONSTRAINT ledger_lines_one_side CHECK (debit >= 0 AND credit >= 0 AND (debit = 0 OR credit = 0))
+    )`,
+  },
+  { label: 'ledger_lines entry index', sql: `CREATE INDEX IF NOT EXISTS ledger_lines_entry_id ON ledger_lines (entry_id)` },
+  { label: 'ledger_lines account index', sql: `CREATE INDEX IF NOT EXISTS ledger_lines_account_id ON ledger_lines (account_id)` },
+  {
+    label: 'ledger system accounts',
+    sql: `INSERT INTO ledger_accounts (code, name, type) VALUES
+      ('escrow_holding', 'Escrow - fondos retenidos', 'liability'),
+      ('platform_commission', 'Comisiones de la plataforma', 'revenue'),
+      ('payout_clearing', 'Pagos a usuarios pendientes de transferir', 'liability'),
+      ('refunds', 'Reembolsos pendientes de devolver', 'liability'),
+      ('platform_cash', 'Fondos en pasarelas y banco', 'asset'),
+      ('promotions', 'Bonificaciones', 'expense'),
+      ('opening_balance', 'Saldos iniciales y ajustes', 'equity')
+    ON CONFLICT (code) DO NOTHING`,
+  },
+  {
+    label: 'ledger wallets + opening balances',
+    sql: `DO $$
+    DECLARE
+      r RECORD;
+      wallet UUID;
+      entry UUID;
+      opening UUID := (SELECT id FROM ledger_accounts WHERE code = 'opening_balance');
+    BEGIN
+      FOR r IN
+        SELECT u.id, COALESCE(u.balance_ars, 0) AS balance FROM users u
+        WHERE NOT EXISTS (SELECT 1 FROM ledger_accounts a WHERE a.code = 'user_wallet:' || u.id)
+      LOOP
+        INSERT INTO ledger_accounts (code, name, type, user_id)
+        VALUES ('user_wallet:' || r.id, 'Billetera de usuario', 'liability', r.id)
+        RETURNING id INTO wallet;
+
+        IF r.balance <> 0 THEN
+          INSERT INTO ledger_entries (kind, description, idempotency_key)
+          VALUES ('opening_balance', 'Saldo inicial de la billetera', 'opening_balance:' || r.id)
+          RETURNING id INTO entry;
+
+          INSERT INTO ledger_lines (entry_id, account_id, debit, credit) VALUES
+            (entry, opening, GREATEST(r.balance, 0), GREATEST(-r.balance, 0)),
+            (entry, wallet, GREATEST(-r.balance, 0), GREATEST(r.balance, 0));
+        END IF;
+      END LOOP;
+    END $$`,
+  },
+  // --- webhook inbox (relation "webhook_events" does not exist) ---
+  {
+    label: 'webhook_events table',
+    sql: `CREATE TABLE IF NOT EXISTS webhook_events (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      provider VARCHAR(20) NOT NULL,
+      external_event_id VARCHAR(255) NOT NULL,
+      event_type VARCHAR(100) NOT NULL,
+      payload JSONB NOT NULL,
+      headers JSONB NOT NULL DEFAULT '{}'::jsonb,
+      signature_status VARCHAR(10) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at TIMESTAMPTZ,
+      locked_at TIMESTAMPTZ,
+      processed_at TIMESTAMPTZ,
+      duplicate_count INTEGER NOT NULL DEFAULT 0,
+      replay_count INTEGER NOT NULL DEFAULT 0,
+      last_replayed_by UUID,
+      ip VARCHAR(64),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'webhook_events dedupe index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS webhook_events_provider_external_event_id ON webhook_events (provider, external_event_id)` },
+  { label: 'webhook_events retry index', sql: `CREATE INDEX IF NOT EXISTS webhook_events_status_next_attempt_at ON webhook_events (status, next_attempt_at)` },
+  { label: 'webhook_events created_at index', sql: `CREATE INDEX IF NOT EXISTS webhook_events_created_at ON webhook_events (created_at)` },
+  // --- durable job scheduler (relation "scheduled_jobs" does not exist) ---
+  {
+    label: 'scheduled_jobs table',
+    sql: `CREATE TABLE IF NOT EXISTS scheduled_jobs (
+      name VARCHAR(100) PRIMARY KEY,
+      cron_expression VARCHAR(100) NOT NULL,
+      description VARCHAR(255),
+      enabled BOOLEAN NOT NULL DEFAULT true,
+      next_run_at TIMESTAMPTZ NOT NULL,
+      last_run_at TIMESTAMPTZ,
+      last_status VARCHAR(20),
+      locked_by VARCHAR(255),
+      locked_until TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  {
+    label: 'job_runs table',
+    sql: `CREATE TABLE IF NOT EXISTS job_runs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      job_name VARCHAR(100) NOT NULL,
+      trigger VARCHAR(20) NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'running',
+      scheduled_for TIMESTAMPTZ,
+      missed_runs INTEGER NOT NULL DEFAULT 0,
+      started_at TIMESTAMPTZ NOT NULL,
+      finished_at TIMESTAMPTZ,
+      duration_ms INTEGER,
+      items_processed INTEGER NOT NULL DEFAULT 0,
+      error_count INTEGER NOT NULL DEFAULT 0,
+      error TEXT,
+      instance_id VARCHAR(255) NOT NULL,
+      triggered_by UUID,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'job_runs job_name index', sql: `CREATE INDEX IF NOT EXISTS job_runs_job_name_started_at ON job_runs (job_name, started_at)` },
+  { label: 'job_runs status index', sql: `CREATE INDEX IF NOT EXISTS job_runs_status ON job_runs (status)` },
+  // --- multi-currency amounts (column "currency" does not exist) ---
+  { label: 'contracts.currency', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'` },
+  { label: 'quotes.currency', sql: `ALTER TABLE quotes ADD COLUMN IF NOT EXISTS currency VARCHAR(10) DEFAULT 'ARS'` },
+  { label: 'payments.settlement_currency', sql: `ALTER TABLE payments ADD COLUMN IF NOT EXISTS settlement_currency VARCHAR(10)` },
+  { label: 'payments.settlement_amount', sql: `ALTER TABLE payments ADD COLUMN IF NOT EXISTS settlement_amount DECIMAL(12, 2)` },
+  { label: 'payments.rate_snapshot', sql: `ALTER TABLE payments ADD COLUMN IF NOT EXISTS rate_snapshot JSONB` },
+  { label: 'users.balance_usd', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS balance_usd DECIMAL(12, 2) NOT NULL DEFAULT 0` },
+  { label: 'users.balance_usdt', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS balance_usdt DECIMAL(12, 2) NOT NULL DEFAULT 0` },
+  { label: 'balance_transactions.currency', sql: `ALTER TABLE balance_transactions ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'` },
+  { label: 'ledger_accounts.currency width', sql: `ALTER TABLE ledger_accounts ALTER COLUMN currency TYPE VARCHAR(10)` },
+  // --- commission rules engine (relation "commission_rules" does not exist) ---
+  {
+    label: 'commission_rules table',
+    sql: `CREATE TABLE IF NOT EXISTS commission_rules (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      rule_key VARCHAR(100) NOT NULL,
+      version INTEGER NOT NULL,
+      name VARCHAR(150) NOT NULL,
+      description TEXT,
+      priority INTEGER NOT NULL,
+      membership_tiers VARCHAR(255)[],
+      categories VARCHAR(255)[],
+      family_plan BOOLEAN,
+      free_contract BOOLEAN,
+      has_free_contracts BOOLEAN,
+      min_monthly_volume DECIMAL(14, 2),
+      max_monthly_volume DECIMAL(14, 2),
+      valid_from TIMESTAMPTZ,
+      valid_until TIMESTAMPTZ,
+      rate DECIMAL(5, 2) NOT NULL,
+      minimum_fee DECIMAL(12, 2),
+      maximum_fee DECIMAL(12, 2),
+      active BOOLEAN NOT NULL DEFAULT true,
+      superseded_at TIMESTAMPTZ,
+      created_by UUID,
+      change_note VARCHAR(500),
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'commission_rules key/version index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_rule_key_version ON commission_rules (rule_key, version)` },
+  { label: 'commission_rules active key index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS commission_rules_active_rule_key ON commission_rules (rule_key) WHERE active` },
+  { label: 'commission_rules active index', sql: `CREATE INDEX IF NOT EXISTS commission_rules_active ON commission_rules (active)` },
+  { label: 'contracts.commission_rule_id', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS commission_rule_id UUID` },
+  { label: 'contracts.commission_percentage', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS commission_percentage DECIMAL(5, 2)` },
+  // --- saved searches (relation "saved_searches" does not exist) ---
+  {
+    label: 'saved_searches table',
+    sql: `CREATE TABLE IF NOT EXISTS saved_searches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      name VARCHAR(100) NOT NULL,
+      filters JSONB NOT NULL,
+      muted BOOLEAN NOT NULL DEFAULT false,
+      frequency VARCHAR(10) NOT NULL DEFAULT 'instant',
+      email_digest BOOLEAN NOT NULL DEFAULT false,
+      match_count INTEGER NOT NULL DEFAULT 0,
+      last_matched_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'saved_searches user index', sql: `CREATE INDEX IF NOT EXISTS saved_searches_user_id ON saved_searches (user_id)` },
+  {
+    label: 'saved_search_matches table',
+    sql: `CREATE TABLE IF NOT EXISTS saved_search_matches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      saved_search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+      user_id UUID NOT NULL,
+      job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      notified_at TIMESTAMPTZ,
+      digested_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'saved_search_matches search/job index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS saved_search_matches_saved_search_id_job_id ON saved_search_matches (saved_search_id, job_id)` },
+  { label: 'saved_search_matches digest index', sql: `CREATE INDEX IF NOT EXISTS saved_search_matches_user_id_digested_at ON saved_search_matches (user_id, digested_at)` },
+
+  // --- audit log hash chain (column "chainDate" does not exist) ---
+  { label: 'audit_logs.chainDate', sql: `ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS "chainDate" DATE` },
+  { label: 'audit_logs.sequence', sql: `ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS "sequence" INTEGER` },
+  { label: 'audit_logs.prevHash', sql: `ALTER TABLE audit_logs ADD COLUMN IF NOT EXISTS "prevHash" VARCHAR(64)` },
+  { label: 'audit_logs chain index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS idx_audit_chain ON audit_logs ("chainDate", "sequence")` },
+  {
+    label: 'audit_log_checkpoints table',
+    sql: `CREATE TABLE IF NOT EXISTS audit_log_checkpoints (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      chain_date DATE NOT NULL,
+      sequence INTEGER NOT NULL,
+      entry_count INTEGER NOT NULL,
+      anchor_hash VARCHAR(64) NOT NULL,
+      last_hash VARCHAR(64) NOT NULL,
+      final BOOLEAN NOT NULL DEFAULT false,
+      previous_checkpoint_hash VARCHAR(64) NOT NULL,
+      checkpoint_hash VARCHAR(64) NOT NULL,
+      signature TEXT NOT NULL,
+      algorithm VARCHAR(20) NOT NULL,
+      public_key TEXT,
+      pruned_count INTEGER NOT NULL DEFAULT 0,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'audit_log_checkpoints chain index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS audit_log_checkpoints_chain_date_sequence_final ON audit_log_checkpoints (chain_date, sequence, final)` },
+  { label: 'audit_log_checkpoints created index', sql: `CREATE INDEX IF NOT EXISTS audit_log_checkpoints_created_at ON audit_log_checkpoints (created_at)` },
+
+  // --- dispute workflow (column "workflow_phase" does not exist) ---
+  { label: 'disputes.workflow_phase', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS workflow_phase VARCHAR(30)` },
+  { label: 'disputes.phase_deadline', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS phase_deadline TIMESTAMPTZ` },
+  { label: 'disputes.phase_history', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS phase_history JSONB NOT NULL DEFAULT '[]'::jsonb` },
+  { label: 'disputes.settlement_offers', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS settlement_offers JSONB NOT NULL DEFAULT '[]'::jsonb` },
+  { label: 'disputes.evidence_closed_by', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS evidence_closed_by JSONB NOT NULL DEFAULT '[]'::jsonb` },
+  { label: 'disputes.defendant_response', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS defendant_response TEXT` },
+  { label: 'disputes.defendant_responded_at', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS defendant_responded_at TIMESTAMPTZ` },
+  { label: 'disputes workflow index', sql: `CREATE INDEX IF NOT EXISTS disputes_workflow_phase_phase_deadline ON disputes (workflow_phase, phase_deadline)` },
+
+  // --- payout batches (relation "payout_batches" does not exist) ---
+  {
+    label: 'payout_batches table',
+    sql: `CREATE TABLE IF NOT EXISTS payout_batches (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      reference VARCHAR(30) NOT NULL UNIQUE,
+      status VARCHAR(20) NOT NULL DEFAULT 'open',
+      item_count INTEGER NOT NULL DEFAULT 0,
+      total_amount DECIMAL(14, 2) NOT NULL DEFAULT 0,
+      completed_count INTEGER NOT NULL DEFAULT 0,
+      failed_count INTEGER NOT NULL DEFAULT 0,
+      created_by UUID NOT NULL REFERENCES users(id),
+      exported_by UUID REFERENCES users(id),
+      exported_at TIMESTAMPTZ,
+      settled_at TIMESTAMPTZ,
+      cancelled_at TIMESTAMPTZ,
+      last_file_format VARCHAR(20),
+      last_file_checksum VARCHAR(64),
+      result_imports JSONB NOT NULL DEFAULT '[]'::jsonb,
+      notes TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'payout_batches status index', sql: `CREATE INDEX IF NOT EXISTS payout_batches_status ON payout_batches (status)` },
+  { label: 'payout_batches status/created index', sql: `CREATE INDEX IF NOT EXISTS payout_batches_status_created_at ON payout_batches (status, created_at)` },
+  { label: 'withdrawal_requests.payout_batch_id', sql: `ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS payout_batch_id UUID REFERENCES payout_batches(id) ON DELETE SET NULL` },
+  { label: 'withdrawal_requests.failed_at', sql: `ALTER TABLE withdrawal_requests ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ` },
+  { label: 'withdrawal_requests batch index', sql: `CREATE INDEX IF NOT EXISTS withdrawal_requests_payout_batch_id_status ON withdrawal_requests (payout_batch_id, status)` },
+
+  // --- notification delivery schedule (column "pending_channels" does not exist) ---
+  { label: 'notifications.pending_channels', sql: `ALTER TABLE notifications ADD COLUMN IF NOT EXISTS pending_channels VARCHAR(255)[] NOT NULL DEFAULT '{}'` },
+  { label: 'notifications.deliver_after', sql: `ALTER TABLE notifications ADD COLUMN IF NOT EXISTS deliver_after TIMESTAMPTZ` },
+  { label: 'notifications.coalesce_key', sql: `ALTER TABLE notifications ADD COLUMN IF NOT EXISTS coalesce_key VARCHAR(120)` },
+  { label: 'notifications.delivered_at', sql: `ALTER TABLE notifications ADD COLUMN IF NOT EXISTS delivered_at TIMESTAMPTZ` },
+  { label: 'notifications deliver_after index', sql: `CREATE INDEX IF NOT EXISTS notifications_deliver_after ON notifications (deliver_after)` },
+  { label: 'notifications coalesce index', sql: `CREATE INDEX IF NOT EXISTS notifications_recipient_id_coalesce_key ON notifications (recipient_id, coalesce_key)` },
+
+  // --- contract quote breakdown (column "quote_id" does not exist) ---
+  { label: 'contracts.quote_id', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS quote_id UUID REFERENCES quotes(id) ON DELETE SET NULL` },
+  { label: 'contracts.line_items', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS line_items JSONB NOT NULL DEFAULT '[]'::jsonb` },
+  { label: 'contracts.tax_breakdown', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS tax_breakdown JSONB` },
+  { label: 'contracts.payment_schedule', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS payment_schedule VARCHAR(20) NOT NULL DEFAULT 'single'` },
+  { label: 'contracts quote index', sql: `CREATE INDEX IF NOT EXISTS contracts_quote_id ON contracts (quote_id)` },
+
+  // --- contract milestones (column "milestone_funding" does not exist) ---
+  {
+    label: 'contract_milestones table',
+    sql: `CREATE TABLE IF NOT EXISTS contract_milestones (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      contract_id UUID NOT NULL REFERENCES contracts(id) ON DELETE CASCADE,
+      position INTEGER NOT NULL,
+      title VARCHAR(200) NOT NULL,
+      description TEXT,
+      amount DECIMAL(12, 2) NOT NULL,
+      due_date TIMESTAMPTZ NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'pending',
+      delivery_id UUID,
+      quote_line_index INTEGER,
+      payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+      dispute_id UUID,
+      funded_at TIMESTAMPTZ,
+      submitted_at TIMESTAMPTZ,
+      released_at TIMESTAMPTZ,
+      refunded_at TIMESTAMPTZ,
+      auto_released BOOLEAN NOT NULL DEFAULT false,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'contract_milestones contract index', sql: `CREATE INDEX IF NOT EXISTS contract_milestones_contract_id ON contract_milestones (contract_id)` },
+  { label: 'contract_milestones position index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS contract_milestones_contract_id_position ON contract_milestones (contract_id, position)` },
+  { label: 'contract_milestones status index', sql: `CREATE INDEX IF NOT EXISTS contract_milestones_status_submitted_at ON contract_milestones (status, submitted_at)` },
+  { label: 'contracts.milestone_funding', sql: `ALTER TABLE contracts ADD COLUMN IF NOT EXISTS milestone_funding VARCHAR(20)` },
+  { label: 'disputes.milestone_id', sql: `ALTER TABLE disputes ADD COLUMN IF NOT EXISTS milestone_id UUID REFERENCES contract_milestones(id) ON DELETE SET NULL` },
+  { label: 'disputes milestone index', sql: `CREATE INDEX IF NOT EXISTS disputes_milestone_id ON disputes (milestone_id)` },
+
+  // --- task dependency graph (column "prerequisite_task_ids" does not exist) ---
+  { label: 'job_tasks.prerequisite_task_ids', sql: `ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS prerequisite_task_ids UUID[]` },
+  { label: 'job_tasks.estimated_days', sql: `ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS estimated_days DECIMAL(6, 2)` },
+  { label: 'job_tasks.assignee_id', sql: `ALTER TABLE job_tasks ADD COLUMN IF NOT EXISTS assignee_id UUID REFERENCES users(id) ON DELETE SET NULL` },
+  { label: 'job_tasks assignee index', sql: `CREATE INDEX IF NOT EXISTS job_tasks_assignee_id ON job_tasks (assignee_id)` },
+
+  // --- recurring jobs (relation "recurring_jobs" does not exist) ---
+  {
+    label: 'recurring_jobs table',
+    sql: `CREATE TABLE IF NOT EXISTS recurring_jobs (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      client_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      title VARCHAR(100) NOT NULL,
+      summary VARCHAR(200) NOT NULL,
+      description TEXT NOT NULL,
+      price DECIMAL(12, 2) NOT NULL,
+      category VARCHAR(100) NOT NULL,
+      tags VARCHAR(255)[] DEFAULT '{}',
+      location VARCHAR(255) NOT NULL,
+      neighborhood VARCHAR(100),
+      latitude DECIMAL(10, 8),
+      longitude DECIMAL(11, 8),
+      remote_ok BOOLEAN DEFAULT false,
+      frequency VARCHAR(20) NOT NULL,
+      weekdays INTEGER[] DEFAULT '{}',
+      day_of_month INTEGER,
+      start_time VARCHAR(5) NOT NULL,
+      duration_minutes INTEGER NOT NULL,
+      starts_on DATE NOT NULL,
+      ends_on DATE,
+      max_occurrences INTEGER,
+      preferred_doer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      first_refusal_hours INTEGER NOT NULL DEFAULT 24,
+      status VARCHAR(20) NOT NULL DEFAULT 'active',
+      ended_at TIMESTAMPTZ,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'recurring_jobs client index', sql: `CREATE INDEX IF NOT EXISTS recurring_jobs_client_id ON recurring_jobs (client_id)` },
+  { label: 'recurring_jobs preferred doer index', sql: `CREATE INDEX IF NOT EXISTS recurring_jobs_preferred_doer_id ON recurring_jobs (preferred_doer_id)` },
+  { label: 'recurring_jobs status index', sql: `CREATE INDEX IF NOT EXISTS recurring_jobs_status ON recurring_jobs (status)` },
+  { label: 'recurring_jobs.currency', sql: `ALTER TABLE recurring_jobs ADD COLUMN IF NOT EXISTS currency VARCHAR(10) NOT NULL DEFAULT 'ARS'` },
+  {
+    label: 'recurring_job_occurrences table',
+    sql: `CREATE TABLE IF NOT EXISTS recurring_job_occurrences (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      recurring_job_id UUID NOT NULL REFERENCES recurring_jobs(id) ON DELETE CASCADE,
+      occurrence_date DATE NOT NULL,
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      status VARCHAR(20) NOT NULL DEFAULT 'scheduled',
+      job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+      contract_id UUID REFERENCES contracts(id) ON DELETE SET NULL,
+      doer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+      payment_id UUID REFERENCES payments(id) ON DELETE SET NULL,
+      payment_url TEXT,
+      offer_expires_at TIMESTAMPTZ,
+      paid_at TIMESTAMPTZ,
+      last_error TEXT,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'recurring_job_occurrences date index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS recurring_job_occurrences_recurring_job_id_occurrence_date ON recurring_job_occurrences (recurring_job_id, occurrence_date)` },
+  { label: 'recurring_job_occurrences status index', sql: `CREATE INDEX IF NOT EXISTS recurring_job_occurrences_status_starts_at ON recurring_job_occurrences (status, starts_at)` },
+  { label: 'recurring_job_occurrences job index', sql: `CREATE INDEX IF NOT EXISTS recurring_job_occurrences_job_id ON recurring_job_occurrences (job_id)` },
+  { label: 'recurring_job_occurrences contract index', sql: `CREATE INDEX IF NOT EXISTS recurring_job_occurrences_contract_id ON recurring_job_occurrences (contract_id)` },
+
+  // --- doer availability (column "external_calendar_url" does not exist) ---
+  { label: 'users.external_calendar_url', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_url TEXT` },
+  { label: 'users.external_calendar_synced_at', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_synced_at TIMESTAMPTZ` },
+  { label: 'users.external_calendar_error', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS external_calendar_error TEXT` },
+  {
+    label: 'external_busy_blocks table',
+    sql: `CREATE TABLE IF NOT EXISTS external_busy_blocks (
+      id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      uid VARCHAR(500) NOT NULL,
+      starts_at TIMESTAMPTZ NOT NULL,
+      ends_at TIMESTAMPTZ NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'external_busy_blocks user index', sql: `CREATE INDEX IF NOT EXISTS external_busy_blocks_user_id_starts_at ON external_busy_blocks (user_id, starts_at)` },
+  { label: 'external_busy_blocks uid index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS external_busy_blocks_user_id_uid ON external_busy_blocks (user_id, uid)` },
+
+  // --- socket cluster (relation "socket_presence" does not exist) ---
+  { label: 'users.last_activity', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS last_activity TIMESTAMPTZ` },
+  {
+    label: 'socket_presence table',
+    sql: `CREATE TABLE IF NOT EXISTS socket_presence (
+      socket_id VARCHAR(64) PRIMARY KEY,
+      user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+      server_id VARCHAR(64) NOT NULL,
+      device VARCHAR(10) NOT NULL DEFAULT 'unknown',
+      user_agent VARCHAR(300),
+      connected_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+      last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  { label: 'socket_presence user index', sql: `CREATE INDEX IF NOT EXISTS socket_presence_user_id ON socket_presence (user_id)` },
+  { label: 'socket_presence server index', sql: `CREATE INDEX IF NOT EXISTS socket_presence_server_id ON socket_presence (server_id)` },
+  { label: 'socket_presence last seen index', sql: `CREATE INDEX IF NOT EXISTS socket_presence_last_seen_at ON socket_presence (last_seen_at)` },
+  {
+    label: 'socket_io_attachments table',
+    sql: `CREATE TABLE IF NOT EXISTS socket_io_attachments (
+      id BIGSERIAL PRIMARY KEY,
+      payload TEXT NOT NULL,
+      created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+    )`,
+  },
+  // --- job team chat (column "last_read_at" does not exist) ---
+  { label: 'conversations.last_read_at', sql: `ALTER TABLE conversations ADD COLUMN IF NOT EXISTS last_read_at JSONB NOT NULL DEFAULT '{}'::jsonb` },
+  { label: 'conversations.pinned_message_ids', sql: `ALTER TABLE conversations ADD COLUMN IF NOT EXISTS pinned_message_ids UUID[] NOT NULL DEFAULT '{}'` },
+  // --- chat_messages.search_vector: message search (column "search_vector" does not exist) ---
+  {
+    label: 'chat_messages_build_search_vector function',
+    sql: `CREATE OR REPLACE FUNCTION chat_messages_build_search_vector(message TEXT, file_name TEXT)
+      RETURNS tsvector AS $$
+        SELECT
+          setweight(to_tsvector('spanish', unaccent(replace(coalesce(message, ''), '||', ' '))), 'A') ||
+          setweight(to_tsvector('english', unaccent(replace(coalesce(message, ''), '||', ' '))), 'A') ||
+          setweight(to_tsvector('spanish', unaccent(coalesce(file_name, ''))), 'B') ||
+          setweight(to_tsvector('english', unaccent(coalesce(file_name, ''))), 'B')
+      $$ LANGUAGE sql STABLE`,
+  },
+  {
+    label: 'chat_messages_search_vector_update function',
+    sql: `CREATE OR REPLACE FUNCTION chat_messages_search_vector_update() RETURNS trigger AS $$
+      BEGIN
+        NEW.search_vector := chat_messages_build_search_vector(NEW.message, NEW.file_name);
+        RETURN NEW;
+      END
+      $$ LANGUAGE plpgsql`,
+  },
+  { label: 'chat_messages.search_vector', sql: `ALTER TABLE chat_messages ADD COLUMN IF NOT EXISTS search_vector tsvector` },
+  {
+    label: 'chat_messages search_vector trigger',
+    sql: `DO $$ BEGIN
+      IF NOT EXISTS (SELECT 1 FROM pg_trigger WHERE tgname = 'chat_messages_search_vector_trigger') THEN
+        CREATE TRIGGER chat_messages_search_vector_trigger
+        BEFORE INSERT OR UPDATE OF message, file_name ON chat_messages
+        FOR EACH ROW EXECUTE FUNCTION chat_messages_search_vector_update();
+      END IF;
+    END $$`,
+  },
+  { label: 'chat_messages search_vector backfill', sql: `UPDATE chat_messages SET search_vector = chat_messages_build_search_vector(message, file_name) WHERE search_vector IS NULL` },
+  { label: 'chat_messages search_vector GIN index', sql: `CREATE INDEX IF NOT EXISTS chat_messages_search_vector_idx ON chat_messages USING GIN (search_vector)` },
+
+  // --- AFIP electronic invoicing (column "fiscal_cuit" / "fiscal_status" does not exist) ---
+  { label: 'users.fiscal_cuit', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS fiscal_cuit VARCHAR(11)` },
+  { label: 'users.fiscal_point_of_sale', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS fiscal_point_of_sale INTEGER` },
+  { label: 'users.electronic_invoicing_enabled', sql: `ALTER TABLE users ADD COLUMN IF NOT EXISTS electronic_invoicing_enabled BOOLEAN NOT NULL DEFAULT false` },
+  { label: 'enum_invoices_type fiscal_invoice', sql: `ALTER TYPE enum_invoices_type ADD VALUE IF NOT EXISTS 'fiscal_invoice'` },
+  { label: 'invoices.recipient_id', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS recipient_id UUID REFERENCES users(id) ON DELETE SET NULL` },
+  { label: 'invoices.fiscal_type', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_type VARCHAR(20)` },
+  { label: 'invoices.issuer_cuit', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS issuer_cuit VARCHAR(11)` },
+  { label: 'invoices.point_of_sale', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS point_of_sale INTEGER` },
+  { label: 'invoices.fiscal_number', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_number INTEGER` },
+  { label: 'invoices.cae', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cae VARCHAR(14)` },
+  { label: 'invoices.cae_expires_at', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS cae_expires_at DATE` },
+  { label: 'invoices.fiscal_provider', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_provider VARCHAR(20)` },
+  { label: 'invoices.fiscal_status', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS fiscal_status VARCHAR(20)` },
+  { label: 'invoices fiscal number index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS invoices_fiscal_number ON invoices (issuer_cuit, point_of_sale, fiscal_type, fiscal_number)` },
+  { label: 'invoices recipient index', sql: `CREATE INDEX IF NOT EXISTS invoices_recipient_id ON invoices (recipient_id)` },
+  // --- Invoice credit notes (column "credited_invoice_id" does not exist) ---
+  { label: 'enum_invoices_type credit_note', sql: `ALTER TYPE enum_invoices_type ADD VALUE IF NOT EXISTS 'credit_note'` },
+  { label: 'invoices.credited_invoice_id', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS credited_invoice_id UUID REFERENCES invoices(id) ON DELETE SET NULL` },
+  { label: 'invoices.refund_key', sql: `ALTER TABLE invoices ADD COLUMN IF NOT EXISTS refund_key VARCHAR(120)` },
+  { label: 'invoices credited refund index', sql: `CREATE UNIQUE INDEX IF NOT EXISTS invoices_credited_refund ON invoices (credited_invoice_id, refund_key)` },
 ];
 
 export async function ensureCriticalSchema(sequelize: Sequelize): Promise<void> {
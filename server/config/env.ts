@@ -90,6 +90,19 @@ export const config = {
   dbUser: process.env.DB_USER || "postgres",
   dbPassword: process.env.DB_PASSWORD || "",
 
+  // Socket.IO adapter: "memory" (una sola instancia) o "postgres" (LISTEN/NOTIFY,
+  // necesario al correr varias instancias detrás del balanceador)
+  socketAdapter: process.env.SOCKET_ADAPTER === "postgres" ? "postgres" : "memory",
+
+  // Facturación electrónica AFIP de los trabajadores SUPER PRO: "offline"
+  // (numera localmente con un CAE de prueba, sin validez fiscal) o "wsfe"
+  // (WSAA + WSFEv1 con el certificado de la plataforma; cada trabajador le
+  // delega el servicio "wsfe" desde el Administrador de Relaciones de AFIP)
+  fiscalProvider: process.env.FISCAL_PROVIDER === "wsfe" ? "wsfe" : "offline",
+  afipEnv: process.env.AFIP_ENV === "production" ? "production" : "homologacion",
+  afipCertPath: process.env.AFIP_CERT_PATH || "",
+  afipKeyPath: process.env.AFIP_KEY_PATH || "",
+
   // Validaciones
   isProduction: process.env.NODE_ENV === "production",
   isDevelopment: process.env.NODE_ENV === "development",
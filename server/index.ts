@@ -35,7 +35,17 @@ import { startAutoConfirmContractsJob } from "./jobs/autoConfirmContracts.js";
 import { startConfirmationReminderJob } from "./jobs/sendConfirmationReminders.js";
 import { startLicenseExpiryReminderJob } from "./jobs/licenseExpiryReminders.js";
 import { startMonotributoRecategorizationReminderJob } from "./jobs/monotributoRecategorizationReminders.js";
+import { startRetryWebhookEventsJob } from "./jobs/retryWebhookEvents.js";
+import { startSavedSearchDigestJob } from "./jobs/savedSearchDigest.js";
+import { startNotificationDigestJob } from "./jobs/notificationDigests.js";
+import { startAuditLogCheckpointJobs } from "./jobs/auditLogCheckpoints.js";
+import { startDisputeDeadlinesJob } from "./jobs/disputeDeadlines.js";
+import { startMilestoneAutoReleaseJob } from "./jobs/milestoneAutoRelease.js";
+import { startRecurringJobsJob } from "./jobs/recurringJobs.js";
+import { startExternalCalendarSyncJob } from "./jobs/externalCalendarSync.js";
+import { startFiscalInvoiceRetryJob } from "./jobs/fiscalInvoiceRetry.js";
 import { startScheduledAutoSelectionsJob } from "./jobs/processScheduledAutoSelections.js";
+import jobScheduler from "./services/jobScheduler.js";
 
 // Rutas
 import authRoutes from "./routes/auth.js";
@@ -89,6 +99,7 @@ import notificationsRoutes from "./routes/notifications.js";
 
 // Search routes
 import searchRoutes from "./routes/search.js";
+import savedSearchesRoutes from "./routes/savedSearches.js";
 
 // Portfolio routes
 import portfolioRoutes from "./routes/portfolio.js";
@@ -102,6 +113,12 @@ import proposalsRoutes from "./routes/proposals.js";
 // Quote routes
 import quotesRoutes from "./routes/quotes.js";
 
+// Recurring job routes
+import recurringJobsRoutes from "./routes/recurringJobs.js";
+
+// Doer availability routes
+import availabilityRoutes from "./routes/availability.js";
+
 // Referral routes
 import referralsRoutes from "./routes/referrals.js";
 
@@ -294,6 +311,7 @@ app.use("/api/payments", paymentsRoutes);
 app.use("/api/matching", matchingRoutes);
 app.use("/api/negotiation", negotiationRoutes);
 app.use("/api/search", searchRoutes);
+app.use("/api/saved-searches", savedSearchesRoutes);
 app.use("/api/webhooks", webhooksRoutes);
 app.use("/api/contact", contactRoutes);
 app.use("/api/contract-change-requests", contractChangeRequestsRoutes);
@@ -308,6 +326,8 @@ if (features.portfolio) app.use("/api/portfolio", portfolioRoutes);
 if (features.disputes) app.use("/api/disputes", disputesRoutes);
 if (features.proposals) app.use("/api/proposals", proposalsRoutes);
 app.use("/api/quotes", quotesRoutes);
+app.use("/api/recurring-jobs", recurringJobsRoutes);
+app.use("/api/availability", availabilityRoutes);
 if (features.referrals) app.use("/api/referrals", referralsRoutes);
 if (features.membership) app.use("/api/membership", membershipRoutes);
 if (features.advertisements) app.use("/api/advertisements", advertisementsRoutes);
@@ -351,6 +371,11 @@ app.use("/api/admin/advertisements", adminAdvertisementsRoutes);
 app.use("/api/admin/contact", adminContactRoutes);
 app.use("/api/admin/blogs", adminBlogsRoutes);
 app.use("/api/admin/withdrawals", (await import('./routes/admin/withdrawals.js')).default);
+app.use("/api/admin/ledger", (await import('./routes/admin/ledger.js')).default);
+app.use("/api/admin/webhook-events", (await import('./routes/admin/webhookEvents.js')).default);
+app.use("/api/admin/scheduled-jobs", (await import('./routes/admin/scheduledJobs.js')).default);
+app.use("/api/admin/commission-rules", (await import('./routes/admin/commissionRules.js')).default);
+app.use("/api/admin/notification-templates", (await import('./routes/admin/notificationTemplates.js')).default);
 app.use("/api/admin/payments", (await import('./routes/admin/payments.js')).default);
 app.use("/api/admin/audit-logs", (await import('./routes/admin/auditLogs.js')).default);
 app.use("/api/admin/search", (await import('./routes/admin/search.js')).default);
@@ -433,6 +458,35 @@ startLicenseExpiryReminderJob();
 // Initialize monotributo recategorization reminders (Jan 10 / Jul 10, SUPER PRO monotributistas)
 startMonotributoRecategorizationReminderJob();
 
+// Initialize payment webhook retries (every minute, exponential backoff per event)
+startRetryWebhookEventsJob();
+
+// Initialize saved search digest (daily 09:00, daily alerts + email digest)
+startSavedSearchDigestJob();
+startNotificationDigestJob();
+
+// Initialize audit log chain jobs (hourly signed checkpoint, daily verification 04:00)
+startAuditLogCheckpointJobs();
+
+// Initialize dispute workflow deadlines (every 15 minutes: advance, escalate or default outcome)
+startDisputeDeadlinesJob();
+
+// Initialize milestone auto-release (hourly: release milestones delivered 7+ days ago without a response)
+startMilestoneAutoReleaseJob();
+
+// Initialize recurring jobs (hourly: generate occurrences, expire first refusal, create payments)
+startRecurringJobsJob();
+
+// Initialize external calendar sync (hourly: import busy blocks from doers' .ics calendars)
+startExternalCalendarSyncJob();
+
+// Initialize electronic invoice retry (every 15 min: request pending AFIP CAEs)
+startFiscalInvoiceRetryJob();
+
+// Start the durable scheduler for all the jobs registered above (Postgres row
+// locking: one run per schedule across PM2 instances, catch-up of missed runs)
+jobScheduler.start().catch((error) => console.error('❌ [SCHEDULER] No se pudo iniciar el scheduler:', error));
+
 // Manejo de errores del servidor
 httpServer.on('error', (error: NodeJS.ErrnoException) => {
   if (error.code === 'EADDRINUSE') {
@@ -452,6 +506,19 @@ httpServer.on('error', (error: NodeJS.ErrnoException) => {
   }
 });
 
+// Apagado ordenado (PM2 reload / deploy): quita los dispositivos de esta instancia
+// de la presencia compartida para que los demás los vean desconectados enseguida
+let shuttingDown = false;
+const shutdown = (signal: string) => {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`\n🛑 ${signal} recibido, cerrando conexiones...`);
+  setTimeout(() => process.exit(0), 10000).unref();
+  socketService.shutdown().finally(() => process.exit(0));
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 // Iniciar servidor
 httpServer.listen(PORT, () => {
   const protocol = isHttps ? 'https' : 'http';
@@ -0,0 +1,37 @@
+import jobScheduler from '../services/jobScheduler.js';
+import auditChain from '../services/auditChain.js';
+
+/**
+ * Cron jobs de la cadena del audit log
+ * - Cada hora (minuto 5) firma un checkpoint de las entradas nuevas y cierra
+ *   los días anteriores con un checkpoint final.
+ * - Todos los días a las 04:00 verifica los últimos 7 días; una cadena rota
+ *   deja la corrida con error en el panel de tareas programadas.
+ */
+export function startAuditLogCheckpointJobs() {
+  jobScheduler.schedule('audit-log-checkpoint', '5 * * * *', async (run) => {
+    const created = await auditChain.createCheckpoints();
+    run.addProcessed(created);
+  }, { description: 'Checkpoint firmado de la cadena del registro de acciones' });
+
+  jobScheduler.schedule('audit-log-verify', '0 4 * * *', async (run) => {
+    const health = await auditChain.health({ days: 7 });
+    run.addProcessed(health.days.length);
+    for (const day of health.days.filter((d) => d.status === 'broken')) {
+      const broken = day.verification.firstBroken;
+      run.recordError(new Error(
+        broken
+          ? `Cadena rota el ${day.chainDate}: ${broken.reason} en la secuencia ${broken.sequence}`
+          : `Firma de checkpoint inválida el ${day.chainDate}`
+      ));
+    }
+    if (!health.checkpointChainValid) {
+      run.recordError(new Error('La cadena de checkpoints está rota'));
+    }
+    if (!health.healthy) {
+      console.error('🚨 [CRON] La verificación del registro de acciones encontró eslabones rotos');
+    }
+  }, { description: 'Verificación diaria de la cadena del registro de acciones' });
+
+  console.log('✅ [CRON] Jobs de la cadena del audit log iniciados (checkpoint horario, verificación 04:00)');
+}
@@ -1,10 +1,11 @@
-import cron from 'node-cron';
+import jobScheduler, { type JobRunContext } from '../services/jobScheduler.js';
 import { Job } from '../models/sql/Job.model.js';
 import { Contract } from '../models/sql/Contract.model.js';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
 import { Proposal } from '../models/sql/Proposal.model.js';
 import emailService from '../services/email.js';
+import { transitionContract } from '../services/contractLifecycle.js';
 import { Op } from 'sequelize';
 
 /**
@@ -196,7 +197,7 @@ export async function checkAndProcessUserExpiredJobs(userId: string): Promise<nu
  * Check and process ALL expired jobs system-wide
  * Called by cron job
  */
-async function checkAndProcessAllExpiredJobs(): Promise<void> {
+async function checkAndProcessAllExpiredJobs(run: JobRunContext): Promise<void> {
   try {
     console.log('🔍 [CRON] Verificando trabajos expirados para auto-cancelación...');
 
@@ -234,7 +235,12 @@ async function checkAndProcessAllExpiredJobs(): Promise<void> {
     let cancelledCount = 0;
     for (const job of expiredJobs) {
       const success = await processExpiredJob(job, true);
-      if (success) cancelledCount++;
+      if (success) {
+        cancelledCount++;
+        run.addProcessed();
+      } else {
+        run.recordError(new Error(`No se pudo auto-cancelar el trabajo ${job.id}`));
+      }
     }
 
     console.log(
@@ -242,6 +248,7 @@ async function checkAndProcessAllExpiredJobs(): Promise<void> {
     );
   } catch (error) {
     console.error('❌ [CRON] Error en job de auto-cancelación:', error);
+    throw error;
   }
 }
 
@@ -250,7 +257,7 @@ async function checkAndProcessAllExpiredJobs(): Promise<void> {
  * Grace period: 2 hours after endDate. If client still hasn't confirmed, moves contracts to
  * awaiting_confirmation so the existing 2h auto-confirm cron can release escrow to workers.
  */
-async function autoCompleteExpiredInProgressJobs(): Promise<void> {
+async function autoCompleteExpiredInProgressJobs(run: JobRunContext): Promise<void> {
   try {
     const now = new Date();
     const graceCutoff = new Date(now.getTime() - 2 * 60 * 60 * 1000); // 2h ago
@@ -289,10 +296,12 @@ async function autoCompleteExpiredInProgressJobs(): Promise<void> {
           const doer = contract.doer as any;
 
           // Move to awaiting_confirmation so the existing auto-confirm cron takes over
-          await contract.update({
-            status: 'awaiting_confirmation',
-            awaitingConfirmationAt: contract.awaitingConfirmationAt || new Date(),
-            doerConfirmed: true,
+          contract.doerConfirmed = true;
+          await transitionContract(contract, 'propose_completion', {
+            actorRole: 'system',
+            reason: 'Trabajo vencido sin confirmación del cliente',
+            patch: { awaitingConfirmationAt: contract.awaitingConfirmationAt || new Date() },
+            metadata: { jobId: job.id },
           });
 
           // Notify worker
@@ -364,12 +373,15 @@ async function autoCompleteExpiredInProgressJobs(): Promise<void> {
         }
 
         console.log(`✅ [CRON] Trabajo "${job.title}" (${job.id}) movido a awaiting_confirmation por ausencia del cliente`);
+        run.addProcessed();
       } catch (err) {
         console.error(`❌ [CRON] Error procesando trabajo vencido ${job.id}:`, err);
+        run.recordError(err);
       }
     }
   } catch (error) {
     console.error('❌ [CRON] Error en auto-complete de trabajos vencidos:', error);
+    throw error;
   }
 }
 
@@ -379,14 +391,14 @@ async function autoCompleteExpiredInProgressJobs(): Promise<void> {
  */
 export function startAutoCancelExpiredJobsJob() {
   // Ejecutar cada 5 minutos: */5 * * * * para respuesta más rápida
-  cron.schedule('*/5 * * * *', async () => {
-    await checkAndProcessAllExpiredJobs();
+  jobScheduler.schedule('auto-cancel-expired-jobs', '*/5 * * * *', checkAndProcessAllExpiredJobs, {
+    description: 'Cancela trabajos sin trabajador asignado cuya fecha de fin ya pasó',
   });
 
   // Auto-complete in_progress jobs past end date (client absent grace period: 2h)
   // Runs every 30 minutes
-  cron.schedule('*/30 * * * *', async () => {
-    await autoCompleteExpiredInProgressJobs();
+  jobScheduler.schedule('auto-complete-expired-jobs', '*/30 * * * *', autoCompleteExpiredInProgressJobs, {
+    description: 'Pasa a awaiting_confirmation los trabajos en progreso vencidos hace más de 2h',
   });
 
   console.log('✅ [CRON] Job de auto-cancelación de trabajos expirados iniciado (cada 5 minutos)');
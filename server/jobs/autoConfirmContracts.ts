@@ -1,10 +1,12 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Contract } from '../models/sql/Contract.model.js';
 import { Job } from '../models/sql/Job.model.js';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
 import { BalanceTransaction } from '../models/sql/BalanceTransaction.model.js';
 import emailService from '../services/email.js';
+import { transitionContract } from '../services/contractLifecycle.js';
+import { toCurrency } from '../services/money.js';
 import { Op } from 'sequelize';
 
 /**
@@ -17,7 +19,7 @@ import { Op } from 'sequelize';
  */
 export function startAutoConfirmContractsJob() {
   // Ejecutar cada 5 minutos: */5 * * * *
-  cron.schedule('*/5 * * * *', async () => {
+  jobScheduler.schedule('auto-confirm-contracts', '*/5 * * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando contratos pendientes de confirmación...');
 
@@ -73,19 +75,24 @@ export function startAutoConfirmContractsJob() {
             contract.clientConfirmedAt = contract.clientConfirmedAt || now;
             contract.doerConfirmed = true;
             contract.doerConfirmedAt = contract.doerConfirmedAt || now;
-            contract.status = 'completed';
             (contract as any).completedAt = now;
-            contract.paymentStatus = 'pending_payout'; // Pendiente de pago por admin (no automático)
-            contract.escrowStatus = 'released';
-            // Usar horas propuestas si existen, sino las originales
-            contract.actualStartDate = contract.proposedStartTime || contract.startDate;
-            contract.actualEndDate = contract.proposedEndTime || contract.endDate;
-            await contract.save();
+            await transitionContract(contract, 'auto_confirm', {
+              actorRole: 'system',
+              reason: 'Sin respuesta de la otra parte dentro de 5 horas',
+              patch: {
+                paymentStatus: 'pending_payout', // Pendiente de pago por admin (no automático)
+                // Usar horas propuestas si existen, sino las originales
+                actualStartDate: contract.proposedStartTime || contract.startDate,
+                actualEndDate: contract.proposedEndTime || contract.endDate,
+              },
+            });
 
             // Crear transacción de balance como pendiente (el admin debe verificar y procesar el pago)
             if (workerPaymentAmount > 0 && doer) {
               const doerUser = await User.findByPk(doer.id);
-              const currentBalance = parseFloat(doerUser?.balanceArs as any) || 0;
+              // El saldo pendiente se acredita en la moneda del contrato
+              const currency = toCurrency(contract.currency);
+              const currentBalance = doerUser?.balanceIn(currency) || 0;
 
               // Crear transacción pendiente (no se acredita aún)
               // Note: balanceAfter = balanceBefore because status is 'pending' - actual credit happens when admin processes
@@ -93,6 +100,7 @@ export function startAutoConfirmContractsJob() {
                 userId: doer.id,
                 type: 'payment',
                 amount: workerPaymentAmount,
+                currency,
                 balanceBefore: currentBalance,
                 balanceAfter: currentBalance + workerPaymentAmount, // Expected balance after processing
                 description: `Pago pendiente por trabajo completado: ${job?.title || 'Contrato'}`,
@@ -172,8 +180,10 @@ export function startAutoConfirmContractsJob() {
             }
 
             console.log(`✅ [CRON] Contrato "${contract.id}" auto-confirmado. Pago de $${workerPaymentAmount} pendiente de procesamiento para ${doer?.name}`);
+            run.addProcessed();
           } catch (error) {
             console.error(`❌ [CRON] Error auto-confirmando contrato ${contract.id}:`, error);
+            run.recordError(error);
           }
         }
       } else {
@@ -183,8 +193,9 @@ export function startAutoConfirmContractsJob() {
       console.log(`🎯 [CRON] Proceso de auto-confirmación completado: ${contractsToAutoConfirm.length} contratos procesados`);
     } catch (error) {
       console.error('❌ [CRON] Error en job de auto-confirmación:', error);
+      throw error;
     }
-  });
+  }, { description: 'Auto-confirma contratos sin respuesta tras 5 horas en awaiting_confirmation' });
 
   console.log('✅ [CRON] Job de auto-confirmación de contratos iniciado (cada 5 minutos)');
 }
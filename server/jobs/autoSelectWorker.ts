@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Job } from '../models/sql/Job.model.js';
 import { Proposal } from '../models/sql/Proposal.model.js';
 import { Contract } from '../models/sql/Contract.model.js';
@@ -6,6 +6,7 @@ import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
 import { ChatMessage } from '../models/sql/ChatMessage.model.js';
 import emailService from '../services/email.js';
+import { calculateCommission } from '../services/commissionService.js';
 import { getIO } from '../services/socket.js';
 import { Op, fn, col } from 'sequelize';
 
@@ -15,7 +16,7 @@ import { Op, fn, col } from 'sequelize';
  */
 export function startAutoSelectWorkerJob() {
   // Ejecutar cada hora: 0 * * * *
-  cron.schedule('0 * * * *', async () => {
+  jobScheduler.schedule('auto-select-worker', '0 * * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando trabajos para auto-selección de trabajador...');
 
@@ -185,8 +186,10 @@ export function startAutoSelectWorkerJob() {
 
           // Crear contrato para cada trabajador seleccionado
           for (const proposal of pendingProposals) {
-            const PLATFORM_COMMISSION = 0.1;
-            const commission = proposal.proposedPrice * PLATFORM_COMMISSION;
+            const commissionResult = await calculateCommission(job.clientId, proposal.proposedPrice, {
+              category: job.category,
+            });
+            const commission = commissionResult.commission;
             const totalPrice = proposal.proposedPrice + commission;
 
             const startDate = new Date();
@@ -200,6 +203,8 @@ export function startAutoSelectWorkerJob() {
               type: 'trabajo',
               price: proposal.proposedPrice,
               commission,
+              commissionPercentage: commissionResult.rate,
+              commissionRuleId: commissionResult.rule?.id ?? null,
               totalPrice,
               startDate,
               endDate,
@@ -322,11 +327,13 @@ export function startAutoSelectWorkerJob() {
           }
 
           autoSelectedCount += pendingProposals.length;
+          run.addProcessed(pendingProposals.length);
           console.log(
             `✅ [CRON] Auto-seleccionados ${pendingProposals.length} trabajador(es) para trabajo "${job.title}"`
           );
         } catch (error) {
           console.error(`❌ [CRON] Error auto-seleccionando para trabajo ${job.id}:`, error);
+          run.recordError(error);
         }
       }
 
@@ -335,14 +342,15 @@ export function startAutoSelectWorkerJob() {
       );
     } catch (error) {
       console.error('❌ [CRON] Error en job de auto-selección:', error);
+      throw error;
     }
-  });
+  }, { description: 'Auto-selecciona trabajadores 24h antes del inicio del trabajo' });
 
   console.log('✅ [CRON] Job de auto-selección de trabajadores iniciado (cada hora)');
 
   // Cron job para activar trabajos cuya fecha de inicio ya llegó
   // Se ejecuta cada 15 minutos
-  cron.schedule('*/15 * * * *', async () => {
+  jobScheduler.schedule('activate-started-jobs', '*/15 * * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando trabajos para activar (fecha de inicio alcanzada)...');
 
@@ -369,16 +377,19 @@ export function startAutoSelectWorkerJob() {
           job.status = 'in_progress';
           await job.save();
           console.log(`✅ [CRON] Trabajo "${job.title}" (${job.id}) activado a in_progress`);
+          run.addProcessed();
         } catch (error) {
           console.error(`❌ [CRON] Error activando trabajo ${job.id}:`, error);
+          run.recordError(error);
         }
       }
 
       console.log(`🎯 [CRON] Proceso completado: ${jobsToActivate.length} trabajos activados`);
     } catch (error) {
       console.error('❌ [CRON] Error en job de activación:', error);
+      throw error;
     }
-  });
+  }, { description: 'Pasa a in_progress los trabajos con doer asignado cuya fecha de inicio llegó' });
 
   console.log('✅ [CRON] Job de activación de trabajos iniciado (cada 15 minutos)');
 }
@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import disputeWorkflow from '../services/disputeWorkflow.js';
+
+/**
+ * Cron job de plazos del workflow de disputas
+ * Se ejecuta cada 15 minutos: avanza de fase, escala o aplica el resultado
+ * por defecto en las disputas cuyo plazo de fase venció
+ */
+export function startDisputeDeadlinesJob() {
+  jobScheduler.schedule('dispute-deadlines', '*/15 * * * *', async (run) => {
+    const { processed, failed } = await disputeWorkflow.processDeadlines();
+    run.addProcessed(processed);
+    if (failed > 0) run.recordError(new Error(`${failed} disputas no se pudieron procesar`));
+    if (processed > 0) {
+      console.log(`⚖️ [CRON] Plazos de disputas: ${processed} disputas procesadas`);
+    }
+  }, { description: 'Aplica los plazos vencidos del workflow de disputas (avanzar, escalar o resultado por defecto)' });
+
+  console.log('✅ [CRON] Job de plazos de disputas iniciado (cada 15 minutos)');
+}
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { ContractChangeRequest } from '../models/sql/ContractChangeRequest.model.js';
 import { Contract } from '../models/sql/Contract.model.js';
 import { Ticket } from '../models/sql/Ticket.model.js';
@@ -11,7 +11,7 @@ import { Op } from 'sequelize';
  */
 export function startEscalateExpiredChangeRequestsJob() {
   // Ejecutar cada 6 horas: 0 */6 * * *
-  cron.schedule('0 */6 * * *', async () => {
+  jobScheduler.schedule('escalate-expired-change-requests', '0 */6 * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando solicitudes de cambio de contrato expiradas...');
 
@@ -129,11 +129,13 @@ Solicitud automáticamente escalada después de 2 días sin respuesta.
           });
 
           escalatedCount++;
+          run.addProcessed();
           console.log(
             `✅ [CRON] Escalada solicitud ${request._id} → Ticket ${(ticket as any).id}`
           );
         } catch (error) {
           console.error(`❌ [CRON] Error escalando solicitud ${request._id}:`, error);
+          run.recordError(error);
         }
       }
 
@@ -142,8 +144,9 @@ Solicitud automáticamente escalada después de 2 días sin respuesta.
       );
     } catch (error) {
       console.error('❌ [CRON] Error en job de escalación:', error);
+      throw error;
     }
-  });
+  }, { description: 'Escala a soporte las solicitudes de cambio de contrato sin respuesta tras 2 días' });
 
   console.log('✅ [CRON] Job de escalación de solicitudes iniciado (cada 6 horas)');
 }
@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import doerAvailability from '../services/doerAvailability.js';
+
+/**
+ * Cron job de calendarios externos
+ * Se ejecuta cada hora: vuelve a importar los bloques ocupados del .ics que
+ * conectó cada Doer para detectar conflictos de reserva
+ */
+export function startExternalCalendarSyncJob() {
+  jobScheduler.schedule('external-calendar-sync', '40 * * * *', async (run) => {
+    const { processed, failed } = await doerAvailability.syncAll();
+    run.addProcessed(processed);
+    if (failed > 0) run.recordError(new Error(`${failed} calendarios externos no se pudieron sincronizar`));
+    if (processed > 0) {
+      console.log(`📅 [CRON] Calendarios externos: ${processed} sincronizados`);
+    }
+  }, { description: 'Importa los bloques ocupados de los calendarios externos (.ics) de los Doers' });
+
+  console.log('✅ [CRON] Job de calendarios externos iniciado (cada hora)');
+}
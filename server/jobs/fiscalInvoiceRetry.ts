@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import fiscalInvoicing from '../services/fiscalInvoicing.js';
+
+/**
+ * Cron job de facturas electrónicas
+ * Se ejecuta cada 15 minutos: vuelve a pedir el CAE de las facturas que AFIP
+ * no llegó a autorizar (servicio caído, timeout) y genera los PDF que faltan
+ */
+export function startFiscalInvoiceRetryJob() {
+  jobScheduler.schedule('fiscal-invoice-retry', '*/15 * * * *', async (run) => {
+    const { processed, failed } = await fiscalInvoicing.retryPending();
+    run.addProcessed(processed);
+    if (failed > 0) run.recordError(new Error(`${failed} facturas electrónicas siguen sin autorizar`));
+    if (processed > 0) {
+      console.log(`🧾 [CRON] Facturas electrónicas: ${processed} autorizadas`);
+    }
+  }, { description: 'Reintenta el CAE de las facturas electrónicas pendientes y genera sus PDF' });
+
+  console.log('✅ [CRON] Job de facturas electrónicas iniciado (cada 15 minutos)');
+}
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Job } from '../models/sql/Job.model.js';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
@@ -14,7 +14,7 @@ import { Op } from 'sequelize';
  */
 export function startJobReminderJob() {
   // Ejecutar cada 30 minutos: */30 * * * *
-  cron.schedule('*/30 * * * *', async () => {
+  jobScheduler.schedule('job-reminders', '*/30 * * * *', async (run) => {
     try {
       console.log('🔔 [CRON] Verificando trabajos para enviar recordatorios...');
 
@@ -92,6 +92,7 @@ export function startJobReminderJob() {
             job.reminder12hSent = true;
             await job.save();
             remindersSent++;
+            run.addProcessed();
             console.log(`✅ [CRON] Recordatorio 12h enviado para trabajo "${job.title}"`);
           }
           // 6 horas antes (entre 5.5 y 6.5 horas)
@@ -100,6 +101,7 @@ export function startJobReminderJob() {
             job.reminder6hSent = true;
             await job.save();
             remindersSent++;
+            run.addProcessed();
             console.log(`✅ [CRON] Recordatorio 6h enviado para trabajo "${job.title}"`);
           }
           // 2 horas antes (entre 1.5 y 2.5 horas)
@@ -108,18 +110,21 @@ export function startJobReminderJob() {
             job.reminder2hSent = true;
             await job.save();
             remindersSent++;
+            run.addProcessed();
             console.log(`✅ [CRON] Recordatorio 2h enviado para trabajo "${job.title}"`);
           }
         } catch (error) {
           console.error(`❌ [CRON] Error procesando recordatorio para trabajo ${job.id}:`, error);
+          run.recordError(error);
         }
       }
 
       console.log(`🎯 [CRON] Proceso de recordatorios completado: ${remindersSent} recordatorios enviados`);
     } catch (error) {
       console.error('❌ [CRON] Error en job de recordatorios:', error);
+      throw error;
     }
-  });
+  }, { description: 'Recordatorios 12h, 6h y 2h antes del inicio del trabajo' });
 
   console.log('✅ [CRON] Job de recordatorios de trabajos iniciado (cada 30 minutos)');
 }
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Op } from 'sequelize';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
@@ -13,7 +13,7 @@ import emailService from '../services/email.js';
 const THRESHOLDS = [30, 15, 7, 1];
 
 export function startLicenseExpiryReminderJob() {
-  cron.schedule('0 9 * * *', async () => {
+  jobScheduler.schedule('license-expiry-reminders', '0 9 * * *', async (run) => {
     try {
       const now = new Date();
       const in31 = new Date(now.getTime() + 31 * 86400000);
@@ -58,13 +58,15 @@ export function startLicenseExpiryReminderJob() {
         } as any).catch((e) => console.error('[CRON] license notification error:', e?.message));
 
         sent += 1;
+        run.addProcessed();
       }
 
       if (sent > 0) console.log(`🔔 [CRON] Recordatorios de matrícula enviados: ${sent}`);
     } catch (error) {
       console.error('[CRON] licenseExpiryReminders error:', error);
+      throw error;
     }
-  });
+  }, { description: 'Avisa a SUPER PRO cuando su matrícula está por vencer' });
 
   console.log('✅ License expiry reminder job scheduled (daily 09:00)');
 }
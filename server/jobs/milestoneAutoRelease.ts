@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import milestoneEscrow from '../services/milestoneEscrow.js';
+
+/**
+ * Cron job de liberación automática de hitos
+ * Se ejecuta cada hora: libera en el ledger los hitos entregados hace más de
+ * 7 días sin que el cliente los apruebe o pida cambios
+ */
+export function startMilestoneAutoReleaseJob() {
+  jobScheduler.schedule('milestone-auto-release', '10 * * * *', async (run) => {
+    const { released, failed } = await milestoneEscrow.releaseDue();
+    run.addProcessed(released);
+    if (failed > 0) run.recordError(new Error(`${failed} hitos no se pudieron liberar`));
+    if (released > 0) {
+      console.log(`🧾 [CRON] Hitos liberados automáticamente: ${released}`);
+    }
+  }, { description: 'Libera los hitos entregados sin respuesta del cliente después de 7 días' });
+
+  console.log('✅ [CRON] Job de liberación automática de hitos iniciado (cada hora)');
+}
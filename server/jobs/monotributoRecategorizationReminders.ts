@@ -1,7 +1,6 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { User } from '../models/sql/User.model.js';
-import { Notification } from '../models/sql/Notification.model.js';
-import emailService from '../services/email.js';
+import messageTemplates from '../services/messageTemplates.js';
 
 /**
  * Recordatorio de recategorización de monotributo (Centro Profesional · SUPER PRO).
@@ -10,11 +9,13 @@ import emailService from '../services/email.js';
  * Corre diariamente a las 09:00 pero solo dispara el día 10 de enero y de julio,
  * avisando una vez por email + notificación in-app a los usuarios SUPER PRO
  * monotributistas para que revisen su facturación y recategoricen si corresponde.
+ * El texto es la plantilla 'monotributo.recategorization' (es/en).
  */
 export function startMonotributoRecategorizationReminderJob() {
-  cron.schedule('0 9 * * *', async () => {
+  jobScheduler.schedule('monotributo-recategorization-reminders', '0 9 * * *', async (run) => {
     try {
-      const now = new Date();
+      // Fecha del horario programado: un catch-up del 11 sigue contando como el 10
+      const now = run.scheduledFor || new Date();
       const month = now.getMonth() + 1; // 1-12
       const day = now.getDate();
       // Solo el 10 de enero y el 10 de julio (período de recategorización)
@@ -25,40 +26,22 @@ export function startMonotributoRecategorizationReminderJob() {
         attributes: ['id', 'name', 'email'],
       });
 
-      const title = 'Período de recategorización de monotributo';
-      const message =
-        'Es momento de revisar tu categoría: AFIP recategoriza en enero y julio según tu facturación de los últimos 12 meses. ' +
-        'Mirá tu facturación en tu Centro Profesional y, si te pasaste de categoría, recategorizate antes del día 20.';
-
       let sent = 0;
-      for (const u of users as any[]) {
-        if (u.email) {
-          await emailService
-            .sendEmail({
-              to: u.email,
-              subject: `${title} · DOAPP`,
-              html: `<p>Hola ${u.name || ''},</p><p>${message}</p><p>Recordá que esto es orientativo: ante dudas, consultá con tu contador.</p>`,
-            })
-            .catch((e) => console.error('[CRON] recat email error:', e?.message));
-        }
-
-        await Notification.create({
-          recipientId: u.id,
-          type: 'monotributo_recategorization',
-          category: 'system',
-          title,
-          message,
-          actionText: 'Ver Centro Profesional',
-        } as any).catch((e) => console.error('[CRON] recat notification error:', e?.message));
+      for (const u of users) {
+        await messageTemplates
+          .notify(u.id, 'monotributo.recategorization', { userName: u.name || '' }, { channels: ['in_app', 'email'], type: 'warning' })
+          .catch((e) => console.error('[CRON] recat notification error:', e?.message));
 
         sent += 1;
+        run.addProcessed();
       }
 
       if (sent > 0) console.log(`🔔 [CRON] Recordatorios de recategorización enviados: ${sent}`);
     } catch (error) {
       console.error('[CRON] monotributoRecategorizationReminders error:', error);
+      throw error;
     }
-  });
+  }, { description: 'Recuerda la recategorización de monotributo (10 de enero y 10 de julio)' });
 
   console.log('✅ Monotributo recategorization reminder job scheduled (daily 09:00, fires Jan 10 / Jul 10)');
 }
@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import notificationDigests from '../services/notificationDigests.js';
+
+/**
+ * Cron job de entrega diferida de notificaciones
+ * Cada 5 minutos manda por email/push lo que quedó pendiente por horario de
+ * silencio, resumen por hora o diario, o agrupado de eventos repetidos
+ */
+export function startNotificationDigestJob() {
+  jobScheduler.schedule('notification-digests', '*/5 * * * *', async (run) => {
+    const { users, notifications, deferred, failed } = await notificationDigests.deliverDue();
+    run.addProcessed(notifications);
+    if (failed > 0) run.recordError(new Error(`${failed} resúmenes de notificaciones no se pudieron enviar`));
+    if (notifications > 0 || deferred > 0) {
+      console.log(`🔔 [CRON] Resúmenes de notificaciones: ${notifications} notificaciones para ${users} usuarios (${deferred} corridas por silencio)`);
+    }
+  }, { description: 'Entrega agrupada de notificaciones diferidas (silencio, resúmenes y agrupado)' });
+
+  console.log('✅ [CRON] Job de resúmenes de notificaciones iniciado (cada 5 minutos)');
+}
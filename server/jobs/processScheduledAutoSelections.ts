@@ -4,13 +4,15 @@ import { Contract } from '../models/sql/Contract.model.js';
 import { Proposal } from '../models/sql/Proposal.model.js';
 import { socketService } from '../index.js';
 import cacheService from '../services/cacheService.js';
+import { calculateCommission } from '../services/commissionService.js';
+import jobScheduler, { type JobRunContext } from '../services/jobScheduler.js';
 
 /**
  * Procesar auto-selecciones programadas
  * Se ejecuta cada 5 minutos para seleccionar workers cuya hora de auto-selección llegó
  */
 
-async function processScheduledAutoSelections() {
+async function processScheduledAutoSelections(run: JobRunContext) {
   try {
     const now = new Date();
 
@@ -57,12 +59,18 @@ async function processScheduledAutoSelections() {
         });
 
         if (!contract) {
+          const price = (job as any).budget || 0;
+          const commissionResult = await calculateCommission(job.clientId, price, { category: job.category });
           contract = await Contract.create({
             jobId: job.id,
             clientId: job.clientId,
             doerId: selectedDoerId,
             type: 'trabajo',
-            price: (job as any).budget || 0,
+            price,
+            commission: commissionResult.commission,
+            commissionPercentage: commissionResult.rate,
+            commissionRuleId: commissionResult.rule?.id ?? null,
+            totalPrice: price + commissionResult.commission,
             status: 'pending',
             termsAccepted: false
           });
@@ -112,12 +120,15 @@ async function processScheduledAutoSelections() {
         // Invalidar cache
         cacheService.delPattern(`jobs:${job.id}`);
         cacheService.delPattern(`contracts:*`);
+        run.addProcessed();
       } catch (error: any) {
         console.error(`❌ [AUTO-SELECT] Error procesando job ${job.id}:`, error.message);
+        run.recordError(error);
       }
     }
   } catch (error) {
     console.error('❌ [AUTO-SELECT] Error en processScheduledAutoSelections:', error);
+    throw error;
   }
 }
 
@@ -126,14 +137,11 @@ async function processScheduledAutoSelections() {
  */
 export function startScheduledAutoSelectionsJob() {
   // Ejecutar cada 5 minutos
-  const interval = setInterval(processScheduledAutoSelections, 5 * 60 * 1000);
-
-  // Ejecutar inmediatamente la primera vez
-  processScheduledAutoSelections();
+  jobScheduler.schedule('scheduled-auto-selections', '*/5 * * * *', processScheduledAutoSelections, {
+    description: 'Selecciona al worker de los trabajos cuya hora de auto-selección llegó',
+  });
 
   console.log('🚀 [AUTO-SELECT] Cron job iniciado (cada 5 minutos)');
-
-  return interval;
 }
 
 export default { processScheduledAutoSelections, startScheduledAutoSelectionsJob };
@@ -0,0 +1,21 @@
+import jobScheduler from '../services/jobScheduler.js';
+import recurringJobs from '../services/recurringJobs.js';
+
+/**
+ * Cron job de trabajos recurrentes
+ * Se ejecuta cada hora: genera el trabajo de las ocurrencias próximas, vence
+ * la primera opción del Doer preferido y crea el pago de las ocurrencias
+ * con contrato firmado
+ */
+export function startRecurringJobsJob() {
+  jobScheduler.schedule('recurring-jobs', '20 * * * *', async (run) => {
+    const { processed, failed } = await recurringJobs.processDue();
+    run.addProcessed(processed);
+    if (failed > 0) run.recordError(new Error(`${failed} ocurrencias recurrentes no se pudieron procesar`));
+    if (processed > 0) {
+      console.log(`🔁 [CRON] Trabajos recurrentes: ${processed} ocurrencias procesadas`);
+    }
+  }, { description: 'Genera las ocurrencias de las series recurrentes y sigue su oferta, contrato y pago' });
+
+  console.log('✅ [CRON] Job de trabajos recurrentes iniciado (cada hora)');
+}
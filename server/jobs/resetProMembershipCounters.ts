@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { User } from '../models/sql/User.model.js';
 
 /**
@@ -7,7 +7,7 @@ import { User } from '../models/sql/User.model.js';
  */
 export function startResetProMembershipCountersJob() {
   // Ejecutar el día 1 de cada mes a las 00:00: 0 0 1 * *
-  cron.schedule('0 0 1 * *', async () => {
+  jobScheduler.schedule('reset-pro-membership-counters', '0 0 1 * *', async (run) => {
     try {
       console.log('🔄 [CRON] Reseteando contadores mensuales de membresías PRO...');
 
@@ -48,10 +48,12 @@ export function startResetProMembershipCountersJob() {
 
           await user.save();
           resetCount++;
+          run.addProcessed();
 
           console.log(`✅ [CRON] Reseteado usuario ${user.email} (PRO)`);
         } catch (error) {
           console.error(`❌ [CRON] Error reseteando usuario ${user.id}:`, error);
+          run.recordError(error);
         }
       }
 
@@ -60,8 +62,9 @@ export function startResetProMembershipCountersJob() {
       );
     } catch (error) {
       console.error('❌ [CRON] Error en job de reset PRO:', error);
+      throw error;
     }
-  });
+  }, { description: 'Resetea los contadores mensuales de membresías PRO' });
 
   console.log('✅ [CRON] Job de reset PRO memberships iniciado (día 1 de cada mes a las 00:00)');
 }
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
 import emailService from '../services/email.js';
@@ -15,7 +15,7 @@ import { Op } from 'sequelize';
  */
 export function startResetReferralDiscountsJob() {
   // Ejecutar todos los días a medianoche: 0 0 * * *
-  cron.schedule('0 0 * * *', async () => {
+  jobScheduler.schedule('reset-referral-discounts', '0 0 * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando descuentos de referidos expirados...');
 
@@ -94,17 +94,20 @@ export function startResetReferralDiscountsJob() {
           }
 
           resetCount++;
+          run.addProcessed();
           console.log(`🔄 [CRON] Reseteado descuento para usuario ${user.name} (${user.email})`);
         } catch (error) {
           console.error(`❌ [CRON] Error reseteando descuento para usuario ${user.id}:`, error);
+          run.recordError(error);
         }
       }
 
       console.log(`🎯 [CRON] Proceso completado: ${resetCount}/${usersWithExpiredDiscount.length} descuentos reseteados`);
     } catch (error) {
       console.error('❌ [CRON] Error en job de reset de descuentos:', error);
+      throw error;
     }
-  });
+  }, { description: 'Vuelve al 8% la comisión de los descuentos por referidos vencidos' });
 
   console.log('✅ [CRON] Job de reset de descuentos de referidos iniciado (diario a medianoche)');
 }
@@ -0,0 +1,19 @@
+import jobScheduler from '../services/jobScheduler.js';
+import webhookInbox from '../services/webhookInbox.js';
+
+/**
+ * Cron job para reintentar webhooks de pago fallidos
+ * Se ejecuta cada minuto; el backoff de cada evento lo define nextAttemptAt
+ */
+export function startRetryWebhookEventsJob() {
+  jobScheduler.schedule('retry-webhook-events', '* * * * *', async (run) => {
+    const { attempted, processed, failed } = await webhookInbox.retryDue();
+    run.addProcessed(processed);
+    if (failed > 0) run.recordError(new Error(`${failed} webhooks volvieron a fallar`));
+    if (attempted > 0) {
+      console.log(`🔁 [CRON] Webhooks reintentados: ${attempted} (${processed} procesados, ${failed} fallidos)`);
+    }
+  }, { description: 'Reintenta con backoff los webhooks de pago fallidos' });
+
+  console.log('✅ [CRON] Job de reintento de webhooks iniciado (cada minuto)');
+}
@@ -0,0 +1,20 @@
+import jobScheduler from '../services/jobScheduler.js';
+import savedSearches from '../services/savedSearches.js';
+
+/**
+ * Cron job del resumen diario de búsquedas guardadas
+ * Se ejecuta todos los días a las 9:00 (aviso in-app + push de las búsquedas
+ * 'daily' y email para las que tienen resumen por email)
+ */
+export function startSavedSearchDigestJob() {
+  jobScheduler.schedule('saved-search-digest', '0 9 * * *', async (run) => {
+    const { users, matches, failed } = await savedSearches.sendDailyDigests();
+    run.addProcessed(matches);
+    if (failed > 0) run.recordError(new Error(`${failed} resúmenes no se pudieron enviar`));
+    if (matches > 0) {
+      console.log(`🔎 [CRON] Resumen de búsquedas guardadas: ${matches} trabajos para ${users} usuarios`);
+    }
+  }, { description: 'Resumen diario de trabajos nuevos para las búsquedas guardadas' });
+
+  console.log('✅ [CRON] Job de resumen de búsquedas guardadas iniciado (diario 09:00)');
+}
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Contract } from '../models/sql/Contract.model.js';
 import { Job } from '../models/sql/Job.model.js';
 import { User } from '../models/sql/User.model.js';
@@ -14,7 +14,7 @@ import { Op } from 'sequelize';
  */
 export function startConfirmationReminderJob() {
   // Run every 30 minutes: */30 * * * *
-  cron.schedule('*/30 * * * *', async () => {
+  jobScheduler.schedule('confirmation-reminders', '*/30 * * * *', async (run) => {
     try {
       console.log('📧 [CRON] Checking for jobs needing confirmation reminders...');
 
@@ -161,17 +161,20 @@ export function startConfirmationReminderJob() {
           contract.confirmationReminderSent = true;
           await contract.save();
           remindersSent++;
+          run.addProcessed();
 
         } catch (error) {
           console.error(`❌ [CRON] Error sending reminder for contract ${contract.id}:`, error);
+          run.recordError(error);
         }
       }
 
       console.log(`🎯 [CRON] Confirmation reminders completed: ${remindersSent} contracts processed`);
     } catch (error) {
       console.error('❌ [CRON] Error in confirmation reminder job:', error);
+      throw error;
     }
-  });
+  }, { description: 'Reminds both parties to confirm once the job end date has passed' });
 
   console.log('✅ [CRON] Confirmation reminder job started (every 30 minutes)');
 }
@@ -1,4 +1,4 @@
-import cron from 'node-cron';
+import jobScheduler from '../services/jobScheduler.js';
 import { Job } from '../models/sql/Job.model.js';
 import { User } from '../models/sql/User.model.js';
 import { Notification } from '../models/sql/Notification.model.js';
@@ -15,7 +15,7 @@ import { Op } from 'sequelize';
  */
 export function startSuspendFlexibleEndDateJob() {
   // Ejecutar cada hora: 0 * * * *
-  cron.schedule('0 * * * *', async () => {
+  jobScheduler.schedule('suspend-flexible-end-date-jobs', '0 * * * *', async (run) => {
     try {
       console.log('🔍 [CRON] Verificando trabajos con fecha final flexible...');
 
@@ -94,8 +94,10 @@ export function startSuspendFlexibleEndDateJob() {
             }
 
             console.log(`⏸️  [CRON] Trabajo "${job.title}" (${job.id}) suspendido por falta de fecha final`);
+            run.addProcessed();
           } catch (error) {
             console.error(`❌ [CRON] Error suspendiendo trabajo ${job.id}:`, error);
+            run.recordError(error);
           }
         }
       } else {
@@ -176,8 +178,10 @@ export function startSuspendFlexibleEndDateJob() {
             }
 
             console.log(`▶️  [CRON] Trabajo "${job.title}" (${job.id}) reactivado`);
+            run.addProcessed();
           } catch (error) {
             console.error(`❌ [CRON] Error reactivando trabajo ${job.id}:`, error);
+            run.recordError(error);
           }
         }
       } else {
@@ -187,8 +191,9 @@ export function startSuspendFlexibleEndDateJob() {
       console.log(`🎯 [CRON] Proceso de fecha flexible completado: ${jobsToSuspend.length} suspendidos, ${jobsToReactivate.length} reactivados`);
     } catch (error) {
       console.error('❌ [CRON] Error en job de fecha flexible:', error);
+      throw error;
     }
-  });
+  }, { description: 'Suspende trabajos con fecha final flexible sin definir 24h antes del inicio y reactiva los que ya la tienen' });
 
   console.log('✅ [CRON] Job de suspensión de trabajos con fecha flexible iniciado (cada hora)');
 }
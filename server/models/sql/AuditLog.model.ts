@@ -10,11 +10,34 @@
 import { User } from './User.model.js';
 import { Op } from 'sequelize';
 
+export type AuditLogCategory = 'user' | 'contract' | 'ticket' | 'role' | 'permission' | 'payment' | 'system';
+
+export interface AuditLogInput {
+  performedBy: string;
+  adminRole: string;
+  action: string;
+  category: AuditLogCategory;
+  severity?: 'low' | 'medium' | 'high' | 'critical';
+  targetModel?: string;
+  targetId?: string;
+  targetIdentifier?: string;
+  description: string;
+  changes?: { field: string; oldValue: any; newValue: any }[];
+  metadata?: Record<string, any>;
+  ip: string;
+  userAgent: string;
+  passwordVerified?: boolean;
+  twoFactorVerified?: boolean;
+}
+
 /**
  * AuditLog Model
  *
  * Comprehensive audit trail for administrative actions and security events.
- * Provides immutable record keeping with cryptographic signatures.
+ * Tamper-evident: entries are hash-chained per day (chainDate + sequence +
+ * prevHash, `signature` is the entry hash) and periodically checkpointed.
+ * See services/auditChainRules.ts. Write through logAdminAction() so the
+ * entry gets chained.
  */
 @Table({
   tableName: 'audit_logs',
@@ -40,6 +63,11 @@ import { Op } from 'sequelize';
       fields: ['createdAt'],
       name: 'idx_audit_created',
     },
+    {
+      fields: ['chainDate', 'sequence'],
+      name: 'idx_audit_chain',
+      unique: true,
+    },
   ],
 })
 export class AuditLog extends Model {
@@ -153,12 +181,32 @@ export class AuditLog extends Model {
   })
   twoFactorVerified?: boolean;
 
+  // Hash of the entry (SHA-256 over every stored field, see computeEntryHash)
   @Column({
     type: DataType.STRING(64),
     allowNull: true,
   })
   signature?: string;
 
+  // Day (UTC) of the chain this entry belongs to; null on legacy, unchained rows
+  @Column({
+    type: DataType.DATEONLY,
+    allowNull: true,
+  })
+  chainDate?: string | null;
+
+  @Column({
+    type: DataType.INTEGER,
+    allowNull: true,
+  })
+  sequence?: number | null;
+
+  @Column({
+    type: DataType.STRING(64),
+    allowNull: true,
+  })
+  prevHash?: string | null;
+
   @CreatedAt
   @Column({
     type: DataType.DATE,
@@ -168,44 +216,11 @@ export class AuditLog extends Model {
   declare createdAt: Date;
 
   /**
-   * Log administrative action with full context
+   * Log administrative action with full context (appended to the hash chain)
    */
-  static async logAdminAction(data: {
-    performedBy: string;
-    adminRole: string;
-    action: string;
-    category: 'user' | 'contract' | 'ticket' | 'role' | 'permission' | 'payment' | 'system';
-    severity?: 'low' | 'medium' | 'high' | 'critical';
-    targetModel?: string;
-    targetId?: string;
-    targetIdentifier?: string;
-    description: string;
-    changes?: { field: string; oldValue: any; newValue: any }[];
-    metadata?: Record<string, any>;
-    ip: string;
-    userAgent: string;
-    passwordVerified?: boolean;
-    twoFactorVerified?: boolean;
-    signature?: string;
-  }): Promise<AuditLog> {
-    return await AuditLog.create({
-      performedBy: data.performedBy,
-      adminRole: data.adminRole,
-      action: data.action,
-      category: data.category,
-      severity: data.severity || 'low',
-      targetModel: data.targetModel,
-      targetId: data.targetId,
-      targetIdentifier: data.targetIdentifier,
-      description: data.description,
-      changes: data.changes,
-      metadata: data.metadata,
-      ip: data.ip,
-      userAgent: data.userAgent,
-      passwordVerified: data.passwordVerified || false,
-      twoFactorVerified: data.twoFactorVerified || false,
-      signature: data.signature,
-    });
+  static async logAdminAction(data: AuditLogInput): Promise<AuditLog> {
+    const { default: auditChain } = await import('../../services/auditChain.js');
+    return auditChain.append(data);
   }
 
   /**
@@ -299,14 +314,18 @@ export class AuditLog extends Model {
   }
 
   /**
-   * Cleanup old audit logs (keep critical forever)
+   * Cleanup old audit logs (keep critical and high forever).
+   * Legacy, unchained rows are pruned one by one. Chained entries are only
+   * pruned as whole finalized days (see auditChain.pruneDays), so a gap inside
+   * a day's chain is always tampering, never retention.
    */
   static async cleanupOldLogs(retentionDays: number = 90): Promise<number> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - retentionDays);
 
-    const result = await AuditLog.destroy({
+    const legacy = await AuditLog.destroy({
       where: {
+        chainDate: null,
         createdAt: {
           [Op.lt]: cutoffDate,
         },
@@ -316,7 +335,8 @@ export class AuditLog extends Model {
       },
     });
 
-    return result;
+    const { default: auditChain } = await import('../../services/auditChain.js');
+    return legacy + (await auditChain.pruneDays(cutoffDate));
   }
 
   /**
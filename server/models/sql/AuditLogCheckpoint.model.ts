@@ -0,0 +1,88 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+} from 'sequelize-typescript';
+
+/**
+ * Checkpoint firmado de la cadena del audit log.
+ *
+ * Fija la última secuencia y el último hash de un día (`final` cuando el día
+ * ya cerró) y se encadena al checkpoint anterior por `previousCheckpointHash`.
+ * La firma es Ed25519 (verificable offline con `publicKey`) o HMAC-SHA256.
+ * `prunedCount` registra cuántas entradas del día borró la retención.
+ */
+@Table({
+  tableName: 'audit_log_checkpoints',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['chain_date', 'sequence', 'final'] },
+    { fields: ['created_at'] },
+  ],
+})
+export class AuditLogCheckpoint extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATEONLY)
+  chainDate!: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  sequence!: number;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  entryCount!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  anchorHash!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  lastHash!: string;
+
+  @Default(false)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  final!: boolean;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  previousCheckpointHash!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  checkpointHash!: string;
+
+  @AllowNull(false)
+  @Column(DataType.TEXT)
+  signature!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  algorithm!: 'ed25519' | 'hmac-sha256';
+
+  @Column(DataType.TEXT)
+  publicKey?: string | null;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  prunedCount!: number;
+
+  declare createdAt: Date;
+}
+
+export default AuditLogCheckpoint;
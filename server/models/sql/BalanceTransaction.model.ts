@@ -14,6 +14,7 @@ import {
 import { User } from './User.model.js';
 import { Contract } from './Contract.model.js';
 import { Payment } from './Payment.model.js';
+import type { Currency } from '../../services/money.js';
 
 /**
  * BalanceTransaction Model - PostgreSQL/Sequelize
@@ -110,7 +111,13 @@ export class BalanceTransaction extends Model {
 
   @AllowNull(false)
   @Column(DataType.DECIMAL(12, 2))
-  amount!: number; // Amount in ARS
+  amount!: number; // En `currency`
+
+  // Moneda de la billetera afectada (amount y balances están en esta moneda)
+  @Default('ARS')
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  currency!: Currency;
 
   @AllowNull(false)
   @Column(DataType.DECIMAL(12, 2))
@@ -183,10 +190,8 @@ export class BalanceTransaction extends Model {
       if (instance.type === 'withdrawal' && amount > 0) {
         throw new Error('Withdrawal amount must be negative');
       }
-      if (
-        (instance.type === 'refund' || instance.type === 'payment' || instance.type === 'bonus') &&
-        amount < 0
-      ) {
+      // 'payment' puede ser negativo: pagos hechos con saldo de la billetera
+      if ((instance.type === 'refund' || instance.type === 'bonus') && amount < 0) {
         throw new Error(`${instance.type} amount must be positive`);
       }
     }
@@ -17,12 +17,13 @@ import { User } from './User.model.js';
  *
  * Mensajes de chat con soporte para:
  * - Texto, imágenes, archivos, mensajes del sistema
+ * - Anuncios fijados del chat de equipo (metadata.taskId, metadata.mentions)
  * - Estado de lectura
  * - Soft delete
  * - Metadata para mensajes del sistema
  */
 
-export type MessageType = 'text' | 'image' | 'file' | 'system';
+export type MessageType = 'text' | 'image' | 'file' | 'system' | 'announcement';
 
 @Table({
   tableName: 'chat_messages',
@@ -35,6 +36,9 @@ export type MessageType = 'text' | 'image' | 'file' | 'system';
     { fields: ['conversation_id'] },
     { fields: ['sender_id'] },
     { fields: ['read'] },
+    // Búsqueda full-text: la columna chat_messages.search_vector (tsvector +
+    // índice GIN) la mantiene un trigger (migración chat-message-search).
+    // No se declara como atributo para que no viaje en cada SELECT.
   ],
 })
 export class ChatMessage extends Model {
@@ -0,0 +1,127 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+  Index,
+} from 'sequelize-typescript';
+
+/**
+ * Versión de una regla de comisión (ver services/commissionRules.ts).
+ *
+ * Las filas no se editan: cambiar una regla crea una versión nueva con el
+ * mismo `ruleKey` y desactiva la anterior (`supersededAt`). Los contratos
+ * guardan el id de la versión con la que se cotizaron, así un cambio de
+ * tarifas no altera contratos ya firmados. Solo la versión activa de cada
+ * clave participa de la evaluación.
+ */
+@Table({
+  tableName: 'commission_rules',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['rule_key', 'version'] },
+  ],
+})
+export class CommissionRule extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  ruleKey!: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  version!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(150))
+  name!: string;
+
+  @Column(DataType.TEXT)
+  description?: string | null;
+
+  // Menor prioridad se evalúa primero
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  priority!: number;
+
+  // ============================================
+  // CONDICIONES (null = no restringe)
+  // ============================================
+
+  @Column(DataType.ARRAY(DataType.STRING))
+  membershipTiers?: string[] | null;
+
+  @Column(DataType.ARRAY(DataType.STRING))
+  categories?: string[] | null;
+
+  @Column(DataType.BOOLEAN)
+  familyPlan?: boolean | null;
+
+  @Column(DataType.BOOLEAN)
+  freeContract?: boolean | null;
+
+  @Column(DataType.BOOLEAN)
+  hasFreeContracts?: boolean | null;
+
+  // Franja de volumen mensual en ARS: [min, max)
+  @Column(DataType.DECIMAL(14, 2))
+  minMonthlyVolume?: number | null;
+
+  @Column(DataType.DECIMAL(14, 2))
+  maxMonthlyVolume?: number | null;
+
+  // Ventana de promoción
+  @Column(DataType.DATE)
+  validFrom?: Date | null;
+
+  @Column(DataType.DATE)
+  validUntil?: Date | null;
+
+  // ============================================
+  // RESULTADO
+  // ============================================
+
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(5, 2))
+  rate!: number;
+
+  // En ARS; se convierten para contratos en USD/USDT
+  @Column(DataType.DECIMAL(12, 2))
+  minimumFee?: number | null;
+
+  @Column(DataType.DECIMAL(12, 2))
+  maximumFee?: number | null;
+
+  // ============================================
+  // VERSIONADO
+  // ============================================
+
+  @Default(true)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.BOOLEAN)
+  active!: boolean;
+
+  @Column(DataType.DATE)
+  supersededAt?: Date | null;
+
+  @Column(DataType.UUID)
+  createdBy?: string | null;
+
+  @Column(DataType.STRING(500))
+  changeNote?: string | null;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default CommissionRule;
@@ -11,9 +11,16 @@ import {
   AllowNull,
   Index,
   BeforeValidate,
+  HasMany,
 } from 'sequelize-typescript';
 import { User } from './User.model.js';
 import { Job } from './Job.model.js';
+import { ContractStatusTransition } from './ContractStatusTransition.model.js';
+import { Quote } from './Quote.model.js';
+import { ContractMilestone } from './ContractMilestone.model.js';
+import type { Currency } from '../../services/money.js';
+import type { ContractLineItem, ContractTaxBreakdown, PaymentSchedule } from '../../services/quoteContractRules.js';
+import type { MilestoneFunding } from '../../services/milestoneRules.js';
 
 /**
  * Contract Model - PostgreSQL/Sequelize
@@ -26,6 +33,8 @@ import { Job } from './Job.model.js';
  * - Modificaciones de precio con historial
  * - Disputas
  * - Entregas múltiples
+ * - Escrow por hitos con liberaciones parciales (ContractMilestone)
+ * - Desglose por ítems e impuestos cuando viene de una cotización
  * - Soft delete
  */
 
@@ -58,6 +67,10 @@ interface Delivery {
   feedback?: string;
   submittedBy?: string;
   submittedAt?: Date;
+  // Entrega planificada a partir de una línea de la cotización (lineItems[quoteLineIndex])
+  quoteLineIndex?: number;
+  // Entrega que cubre un hito del escrow (ContractMilestone)
+  milestoneId?: string;
 }
 
 interface PendingModification {
@@ -116,9 +129,12 @@ export type { Delivery, PriceModification, ExtensionRecord, ConfirmationHistoryE
     { fields: ['client_id'] },
     { fields: ['doer_id'] },
     { fields: ['job_id'] },
+    { fields: ['quote_id'] },
     { fields: ['payment_status'] },
     { fields: ['pairing_code'], unique: true },
     { fields: ['is_deleted'] },
+    // Búsquedas por radio sobre la ubicación de pareamiento (ver utils/geo.ts)
+    { fields: ['client_pairing_latitude', 'client_pairing_longitude'] },
   ],
 })
 export class Contract extends Model {
@@ -191,6 +207,22 @@ export class Contract extends Model {
   @Column(DataType.DECIMAL(12, 2))
   totalPrice!: number;
 
+  // Versión de la regla de comisión con la que se cotizó (commission_rules.id).
+  // Los ajustes de precio posteriores usan la misma regla.
+  @Column(DataType.UUID)
+  commissionRuleId?: string | null;
+
+  // Porcentaje que aplicó esa regla (ej: 6); commission ya incluye mínimos y topes
+  @Column(DataType.DECIMAL(5, 2))
+  commissionPercentage?: number | null;
+
+  // Moneda en la que se pactó el contrato: price, commission, totalPrice y
+  // allocatedAmount están en esta moneda, y el trabajador cobra en ella
+  @Default('ARS')
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  currency!: Currency;
+
   @Default('pending')
   @AllowNull(false)
   @Index
@@ -252,6 +284,33 @@ export class Contract extends Model {
   @Column(DataType.JSONB)
   deliveries!: Delivery[];
 
+  // ============================================
+  // QUOTE BREAKDOWN (contratos creados desde una cotización)
+  // ============================================
+
+  @ForeignKey(() => Quote)
+  @Column(DataType.UUID)
+  quoteId?: string | null;
+
+  @BelongsTo(() => Quote)
+  quote?: Quote;
+
+  // Ítems de la cotización con los impuestos prorrateados (ver quoteContractRules.ts)
+  @Default([])
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  lineItems!: ContractLineItem[];
+
+  // Subtotal, IVA y otros impuestos tal como los mostró la cotización
+  @Column(DataType.JSONB)
+  taxBreakdown?: ContractTaxBreakdown | null;
+
+  // 'single': se paga el total; 'per_line': cada línea es un hito
+  @Default('single')
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  paymentSchedule!: PaymentSchedule;
+
   // ============================================
   // NOTES & CANCELLATION
   // ============================================
@@ -310,6 +369,13 @@ export class Contract extends Model {
   @Column(DataType.STRING)
   escrowPaymentId?: string;
 
+  // null: escrow del contrato completo. Con hitos, cómo se financian (ver milestoneRules.ts)
+  @Column(DataType.STRING(20))
+  milestoneFunding?: MilestoneFunding | null;
+
+  @HasMany(() => ContractMilestone, 'contractId')
+  milestones?: ContractMilestone[];
+
   // Payment verification fields (for admin payout)
   @Column(DataType.STRING)
   paymentProofUrl?: string;
@@ -640,7 +706,13 @@ export class Contract extends Model {
   @AllowNull(false)
   @Column(DataType.BOOLEAN)
   isHidden!: boolean;
-  statusHistory: never[] | undefined;
+
+  // ============================================
+  // STATUS HISTORY (append-only, see contractLifecycle.ts)
+  // ============================================
+
+  @HasMany(() => ContractStatusTransition, 'contractId')
+  statusHistory?: ContractStatusTransition[];
 
   // ============================================
   // METHODS
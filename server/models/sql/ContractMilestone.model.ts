@@ -0,0 +1,109 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  Default,
+  AllowNull,
+  Index,
+} from 'sequelize-typescript';
+import { Contract } from './Contract.model.js';
+import type { MilestoneStatus } from '../../services/milestoneRules.js';
+
+/**
+ * ContractMilestone Model - PostgreSQL/Sequelize
+ *
+ * Hito de un contrato con escrow por hitos: monto, fecha de entrega y estado
+ * propio de sus fondos. Las reglas están en milestoneRules.ts y los cambios
+ * de estado (con su movimiento en el ledger) en milestoneEscrow.ts.
+ * - La entrega que lo cubre vive en Contract.deliveries (deliveryId)
+ * - Una disputa sobre el hito solo congela sus fondos (disputeId)
+ */
+@Table({
+  tableName: 'contract_milestones',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['contract_id', 'position'], unique: true },
+    { fields: ['status', 'submitted_at'] },
+  ],
+})
+export class ContractMilestone extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => Contract)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.UUID)
+  contractId!: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  position!: number;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(200))
+  title!: string;
+
+  @Column(DataType.TEXT)
+  description?: string | null;
+
+  // En la moneda del contrato, sin la comisión
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(12, 2))
+  amount!: number;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  dueDate!: Date;
+
+  @Default('pending')
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  status!: MilestoneStatus;
+
+  // Entrega de Contract.deliveries que cubre el hito
+  @Column(DataType.UUID)
+  deliveryId?: string | null;
+
+  // Línea de la cotización (Contract.lineItems[quoteLineIndex]) cuando el contrato viene de una
+  @Column(DataType.INTEGER)
+  quoteLineIndex?: number | null;
+
+  // Pago que lo financió (con `upfront` es el mismo para todos los hitos)
+  @Column(DataType.UUID)
+  paymentId?: string | null;
+
+  @Column(DataType.UUID)
+  disputeId?: string | null;
+
+  @Column(DataType.DATE)
+  fundedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  submittedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  releasedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  refundedAt?: Date | null;
+
+  // true cuando se liberó por el plazo de 7 días y no por aprobación del cliente
+  @Default(false)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  autoReleased!: boolean;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default ContractMilestone;
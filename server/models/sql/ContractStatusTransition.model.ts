@@ -0,0 +1,100 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  AllowNull,
+  Default,
+  Index,
+  BeforeUpdate,
+  BeforeDestroy,
+  BeforeBulkUpdate,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import { Contract } from './Contract.model.js';
+import type { ContractStatus } from './Contract.model.js';
+import type { ContractActorRole, ContractEvent } from '../../services/contractTransitions.js';
+
+/**
+ * Historial append-only de cambios de estado de un contrato.
+ *
+ * Cada fila la escribe contractLifecycle.transitionContract en la misma
+ * transacción que el cambio de estado. Las filas nunca se modifican ni se
+ * borran: los hooks rechazan cualquier update/destroy.
+ */
+@Table({
+  tableName: 'contract_status_transitions',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { fields: ['contract_id', 'created_at'] },
+  ],
+})
+export class ContractStatusTransition extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => Contract)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.UUID)
+  contractId!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  event!: ContractEvent;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  fromStatus!: ContractStatus;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  toStatus!: ContractStatus;
+
+  // Pago antes/después, para detectar qué transición movió el dinero
+  @Column(DataType.STRING(30))
+  paymentStatusBefore?: string;
+
+  @Column(DataType.STRING(30))
+  paymentStatusAfter?: string;
+
+  // null cuando el cambio lo dispara un cron o proceso del sistema
+  @Column(DataType.UUID)
+  actorId?: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  actorRole!: ContractActorRole;
+
+  @Column(DataType.TEXT)
+  reason?: string;
+
+  @Default({})
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  metadata!: Record<string, any>;
+
+  declare createdAt: Date;
+
+  @BeforeUpdate
+  @BeforeBulkUpdate
+  static preventUpdate() {
+    throw new Error('El historial de estados de contrato es inmutable');
+  }
+
+  @BeforeDestroy
+  @BeforeBulkDestroy
+  static preventDestroy() {
+    throw new Error('El historial de estados de contrato es inmutable');
+  }
+}
+
+export default ContractStatusTransition;
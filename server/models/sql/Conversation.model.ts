@@ -24,11 +24,13 @@ import { ChatMessage } from './ChatMessage.model.js';
  * - Chat directo entre usuarios
  * - Chat relacionado a contratos
  * - Chat de soporte
+ * - Chat de equipo de un trabajo con varios trabajadores (job_team, ver
+ *   teamChatRules.ts): lectura por miembro y mensajes fijados
  * - Conteo de mensajes no leídos por participante
  * - Archivo de conversaciones
  */
 
-export type ConversationType = 'contract' | 'direct' | 'support';
+export type ConversationType = 'contract' | 'direct' | 'support' | 'job_team';
 
 @Table({
   tableName: 'conversations',
@@ -108,6 +110,16 @@ export class Conversation extends Model {
   @Column(DataType.JSONB)
   unreadCount!: Record<string, number>;
 
+  // Última lectura de cada miembro (userId -> ISO); da el "Visto por X de Y" en job_team
+  @Default({})
+  @Column(DataType.JSONB)
+  lastReadAt!: Record<string, string>;
+
+  // Anuncios fijados arriba del chat de equipo, el más nuevo primero
+  @Default([])
+  @Column(DataType.ARRAY(DataType.UUID))
+  pinnedMessageIds!: string[];
+
   // ============================================
   // METADATA
   // ============================================
@@ -218,10 +230,12 @@ export class Conversation extends Model {
   // ============================================
 
   /**
-   * Validate at least 2 participants
+   * Validate at least 2 participants (a job_team chat keeps just the client
+   * while the job has no workers)
    */
   @BeforeValidate
   static validateParticipants(instance: Conversation) {
+    if (instance.type === 'job_team' && instance.participants?.length >= 1) return;
     if (!instance.participants || instance.participants.length < 2) {
       throw new Error('Conversation must have at least 2 participants');
     }
@@ -13,6 +13,12 @@ import {
 import { User } from './User.model.js';
 import { Contract } from './Contract.model.js';
 import { Payment } from './Payment.model.js';
+import type {
+  DisputeParty,
+  DisputePhase,
+  PhaseHistoryEntry,
+  SettlementOffer,
+} from '../../services/disputeWorkflowRules.js';
 
 /**
  * Dispute Model - PostgreSQL/Sequelize
@@ -24,6 +30,9 @@ import { Payment } from './Payment.model.js';
  * - Múltiples tipos de resolución (full_release, full_refund, partial_refund)
  * - Audit log completo
  * - Priorización y categorización
+ * - Workflow por fases con plazos y propuestas de acuerdo del mediador
+ *   (ver services/disputeWorkflowRules.ts). Las disputas anteriores al
+ *   workflow tienen workflowPhase en null.
  */
 
 // ============================================
@@ -97,6 +106,7 @@ export interface IAuditLog {
     { fields: ['status', 'created_at'] },
     { fields: ['priority', 'status'] },
     { fields: ['category'] },
+    { fields: ['workflow_phase', 'phase_deadline'] },
   ],
 })
 export class Dispute extends Model {
@@ -129,6 +139,12 @@ export class Dispute extends Model {
   @BelongsTo(() => Payment)
   payment?: Payment;
 
+  // Disputa parcial: solo congela este hito del contrato
+  @AllowNull(true)
+  @Index
+  @Column(DataType.UUID)
+  milestoneId?: string | null;
+
   @ForeignKey(() => User)
   @AllowNull(false)
   @Index
@@ -296,6 +312,44 @@ export class Dispute extends Model {
   @Column(DataType.STRING(255))
   autoPriorityReason?: string;
 
+  // ============================================
+  // WORKFLOW
+  // ============================================
+
+  @Column(DataType.STRING(30))
+  workflowPhase?: DisputePhase | null;
+
+  // Vencimiento de la fase actual (null si está escalada o cerrada)
+  @Column(DataType.DATE)
+  phaseDeadline?: Date | null;
+
+  @Default([])
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  phaseHistory!: PhaseHistoryEntry[];
+
+  @Default([])
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  settlementOffers!: SettlementOffer[];
+
+  // Partes que cerraron su ronda de pruebas
+  @Default([])
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  evidenceClosedBy!: DisputeParty[];
+
+  @Column({
+    type: DataType.TEXT,
+    validate: {
+      len: [0, 2000],
+    },
+  })
+  defendantResponse?: string;
+
+  @Column(DataType.DATE)
+  defendantRespondedAt?: Date;
+
   // ============================================
   // AUDIT
   // ============================================
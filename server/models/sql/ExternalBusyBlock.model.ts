@@ -0,0 +1,59 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  AllowNull,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+
+/**
+ * ExternalBusyBlock Model - PostgreSQL/Sequelize
+ *
+ * Bloque ocupado importado del calendario externo (.ics) de un Doer
+ * (User.externalCalendarUrl). Cada sincronización reemplaza los bloques del
+ * usuario; solo se guardan los horarios, no el título ni el detalle del
+ * evento. Las reglas de conflicto están en availabilityRules.ts.
+ */
+@Table({
+  tableName: 'external_busy_blocks',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['user_id', 'starts_at'] },
+    { fields: ['user_id', 'uid'], unique: true },
+  ],
+})
+export class ExternalBusyBlock extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  userId!: string;
+
+  // UID del VEVENT (con el inicio si es una repetición de un evento recurrente)
+  @AllowNull(false)
+  @Column(DataType.STRING(500))
+  uid!: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  startsAt!: Date;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  endsAt!: Date;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default ExternalBusyBlock;
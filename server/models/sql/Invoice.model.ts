@@ -1,4 +1,4 @@
-﻿import 'reflect-metadata';
+import 'reflect-metadata';
 import {
   Table,
   Column,
@@ -14,12 +14,17 @@ import { User } from './User.model.js';
 import { default as Payment } from './Payment.model.js';
 import { default as Contract } from './Contract.model.js';
 import { default as WithdrawalRequest } from './WithdrawalRequest.model.js';
+import type { FiscalProviderName, FiscalStatus, FiscalVoucherType } from '../../services/fiscalRules.js';
+import type { CreditNoteSource, CreditScope } from '../../services/creditNoteRules.js';
+import type { RateSnapshot } from '../../services/money.js';
 
 // ============================================
 // TYPES
 // ============================================
 
-export type InvoiceType = 'client_payment' | 'worker_payment' | 'commission' | 'withdrawal';
+// fiscal_invoice: factura electrónica (AFIP) que el trabajador le emite al cliente
+// credit_note: nota de crédito por un reembolso, vinculada a la factura que acredita
+export type InvoiceType = 'client_payment' | 'worker_payment' | 'commission' | 'withdrawal' | 'fiscal_invoice' | 'credit_note';
 export type InvoiceStatus = 'generated' | 'sent' | 'void';
 
 export interface InvoiceMetadata {
@@ -31,6 +36,27 @@ export interface InvoiceMetadata {
   paymentMethod?: string;
   transactionId?: string;
   description?: string;
+  // Contratos desde una cotización: la factura repite su desglose
+  quoteId?: string;
+  quoteNumber?: string;
+  // Pago cobrado en otra moneda que el contrato: cotización congelada
+  settlementCurrency?: string;
+  settlementAmount?: number;
+  rateSnapshot?: RateSnapshot;
+  // Factura electrónica: receptor, importes informados a AFIP y observaciones
+  receiverDocType?: number;
+  receiverDocNumber?: string;
+  receiverIvaCondition?: number;
+  netAmount?: number;
+  vatAmount?: number;
+  voucherDate?: string;
+  qrUrl?: string;
+  fiscalMessages?: string[];
+  // Nota de crédito: origen, motivo, alcance y número de la factura acreditada
+  creditSource?: CreditNoteSource;
+  creditReason?: string;
+  creditScope?: CreditScope;
+  creditedInvoiceNumber?: string;
 }
 
 // ============================================
@@ -45,6 +71,16 @@ export interface InvoiceMetadata {
     // underscored:true → declare the unique index here with the DB column name
     // (the @Index decorator emits the camelCase attribute name and breaks sync)
     { fields: ['invoice_number'], unique: true, name: 'invoices_invoice_number' },
+    // Numeración de AFIP: única por emisor, punto de venta y tipo de comprobante
+    // (las pendientes tienen fiscal_number NULL y no chocan)
+    {
+      fields: ['issuer_cuit', 'point_of_sale', 'fiscal_type', 'fiscal_number'],
+      unique: true,
+      name: 'invoices_fiscal_number',
+    },
+    { fields: ['recipient_id'] },
+    // Una nota por reembolso y factura: reintentar no duplica
+    { fields: ['credited_invoice_id', 'refund_key'], unique: true, name: 'invoices_credited_refund' },
   ],
 })
 export class Invoice extends Model {
@@ -57,7 +93,7 @@ export class Invoice extends Model {
   invoiceNumber!: string;
 
   @AllowNull(false)
-  @Column(DataType.ENUM('client_payment', 'worker_payment', 'commission', 'withdrawal'))
+  @Column(DataType.ENUM('client_payment', 'worker_payment', 'commission', 'withdrawal', 'fiscal_invoice', 'credit_note'))
   type!: InvoiceType;
 
   // ============================================
@@ -69,9 +105,17 @@ export class Invoice extends Model {
   @Column(DataType.UUID)
   userId!: string;
 
-  @BelongsTo(() => User)
+  @BelongsTo(() => User, 'userId')
   user?: User;
 
+  // Factura electrónica: el cliente que la recibe (userId es el trabajador que la emite)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  recipientId?: string | null;
+
+  @BelongsTo(() => User, 'recipientId')
+  recipient?: User;
+
   @ForeignKey(() => Payment)
   @Column(DataType.UUID)
   paymentId?: string;
@@ -93,6 +137,18 @@ export class Invoice extends Model {
   @BelongsTo(() => WithdrawalRequest)
   withdrawal?: WithdrawalRequest;
 
+  // Nota de crédito: la factura que acredita
+  @ForeignKey(() => Invoice)
+  @Column(DataType.UUID)
+  creditedInvoiceId?: string | null;
+
+  @BelongsTo(() => Invoice, 'creditedInvoiceId')
+  creditedInvoice?: Invoice;
+
+  // Origen del reembolso (p. ej. "dispute:<id>"), único por factura acreditada
+  @Column(DataType.STRING(120))
+  refundKey?: string | null;
+
   // ============================================
   // AMOUNTS
   // ============================================
@@ -120,6 +176,35 @@ export class Invoice extends Model {
   @Column(DataType.STRING(500))
   pdfUrl?: string;
 
+  // ============================================
+  // FACTURA ELECTRÓNICA (AFIP)
+  // ============================================
+
+  @Column(DataType.STRING(20))
+  fiscalType?: FiscalVoucherType | null;
+
+  @Column(DataType.STRING(11))
+  issuerCuit?: string | null;
+
+  @Column(DataType.INTEGER)
+  pointOfSale?: number | null;
+
+  // Número asignado por AFIP dentro del punto de venta (null mientras está pendiente)
+  @Column(DataType.INTEGER)
+  fiscalNumber?: number | null;
+
+  @Column(DataType.STRING(14))
+  cae?: string | null;
+
+  @Column(DataType.DATEONLY)
+  caeExpiresAt?: string | null;
+
+  @Column(DataType.STRING(20))
+  fiscalProvider?: FiscalProviderName | null;
+
+  @Column(DataType.STRING(20))
+  fiscalStatus?: FiscalStatus | null;
+
   // ============================================
   // METADATA
   // ============================================
@@ -11,7 +11,10 @@ import {
   AllowNull,
   Index,
   BeforeValidate,
+  AfterCreate,
+  AfterUpdate,
 } from 'sequelize-typescript';
+import { isPublicationTransition } from '../../services/savedSearchRules.js';
 import { User } from './User.model.js';
 
 /**
@@ -45,12 +48,9 @@ export type ExperienceLevel = 'beginner' | 'intermediate' | 'expert';
     { fields: ['urgency'] },
     { fields: ['experience_level'] },
     { fields: ['publication_paid'] },
-    // Full-text search index en PostgreSQL
-    {
-      name: 'jobs_search_idx',
-      fields: ['title', 'description', 'summary'],
-      type: 'FULLTEXT' as any, // PostgreSQL: usar tsvector
-    },
+    // Full-text search: la columna jobs.search_vector (tsvector + índice GIN) la
+    // crea y mantiene la base con un trigger (migración add-jobs-search-vector).
+    // No se declara como atributo para que no viaje en cada SELECT.
   ],
 })
 export class Job extends Model {
@@ -626,6 +626,27 @@ export class Job extends Model {
       instance.category = instance.category.trim();
     }
   }
+
+  /**
+   * Alertas de búsquedas guardadas cuando el trabajo se publica. Corre fuera
+   * del request (y después del commit si se guardó en una transacción).
+   */
+  @AfterCreate
+  @AfterUpdate
+  static queueSavedSearchAlerts(instance: Job, options: { transaction?: any }) {
+    const published = instance.isNewRecord
+      ? isPublicationTransition(undefined, instance.status)
+      : Boolean(instance.changed('status')) && isPublicationTransition(instance.previous('status'), instance.status);
+    if (!published) return;
+
+    const run = () => {
+      import('../../services/savedSearches.js')
+        .then(({ default: savedSearches }) => savedSearches.matchPublishedJob(instance.id))
+        .catch((error) => console.error(`[SavedSearch] Error matching job ${instance.id}:`, error));
+    };
+    if (options?.transaction) options.transaction.afterCommit(run);
+    else run();
+  }
 }
 
 export default Job;
@@ -0,0 +1,91 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+} from 'sequelize-typescript';
+import type { JobRunStatus, JobRunTrigger } from '../../services/jobSchedulerRules.js';
+
+/**
+ * Registro de cada ejecución de un job programado: quién la disparó (horario,
+ * catch-up o admin), en qué instancia corrió, cuánto tardó, cuántos ítems
+ * procesó y con cuántos errores.
+ */
+@Table({
+  tableName: 'job_runs',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { fields: ['job_name', 'started_at'] },
+    { fields: ['status'] },
+  ],
+})
+export class JobRun extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  jobName!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  trigger!: JobRunTrigger;
+
+  @Default('running')
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  status!: JobRunStatus;
+
+  // Horario programado que cubre esta ejecución (null en las manuales)
+  @Column(DataType.DATE)
+  scheduledFor?: Date | null;
+
+  // Horarios perdidos agrupados en esta ejecución de catch-up
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  missedRuns!: number;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  startedAt!: Date;
+
+  @Column(DataType.DATE)
+  finishedAt?: Date | null;
+
+  @Column(DataType.INTEGER)
+  durationMs?: number | null;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  itemsProcessed!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  errorCount!: number;
+
+  @Column(DataType.TEXT)
+  error?: string | null;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  instanceId!: string;
+
+  @Column(DataType.UUID)
+  triggeredBy?: string | null;
+
+  declare createdAt: Date;
+}
+
+export default JobRun;
@@ -12,6 +12,7 @@ import {
 } from 'sequelize-typescript';
 import { Job } from './Job.model.js';
 import { User } from './User.model.js';
+import { blockingPrerequisites } from '../../services/taskGraphRules.js';
 
 /**
  * JobTask Model - PostgreSQL/Sequelize
@@ -19,7 +20,8 @@ import { User } from './User.model.js';
  * Modelo de tareas asociadas a un trabajo.
  * - El dueño del trabajo (cliente) puede crear/editar/eliminar tareas
  * - Las tareas tienen un orden de ejecución
- * - Las tareas pueden depender de otras (bloqueo secuencial)
+ * - Las tareas pueden depender de otras: bloqueo secuencial o un grafo de
+ *   prerrequisitos con duración estimada y responsable (taskGraphRules.ts)
  * - 3 estados: pending, in_progress, completed
  */
 
@@ -34,6 +36,7 @@ export type TaskStatus = 'pending' | 'in_progress' | 'completed';
     { fields: ['job_id', 'order_index'] },
     { fields: ['status'] },
     { fields: ['completed_at'] },
+    { fields: ['assignee_id'] },
   ],
 })
 export class JobTask extends Model {
@@ -132,6 +135,26 @@ export class JobTask extends Model {
   @BelongsTo(() => JobTask, 'dependsOnTaskId')
   dependsOnTask?: JobTask;
 
+  // Prerequisite task IDs (DAG). null keeps the two rules above; [] means no prerequisites
+  @Column(DataType.ARRAY(DataType.UUID))
+  prerequisiteTaskIds?: string[] | null;
+
+  // ============================================
+  // PLANNING (critical path / Gantt)
+  // ============================================
+
+  // Estimated duration in days (1 day is assumed when empty)
+  @Column(DataType.DECIMAL(6, 2))
+  estimatedDays?: number | null;
+
+  // Worker responsible for this task (one of the job's workers)
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  assigneeId?: string | null;
+
+  @BelongsTo(() => User, 'assigneeId')
+  assignee?: User;
+
   // ============================================
   // TASK CLAIM TRACKING
   // ============================================
@@ -187,27 +210,12 @@ export class JobTask extends Model {
 
   /**
    * Check if this task is unlocked (can be started)
-   * A task is unlocked if:
-   * - It's the first task (orderIndex === 0)
-   * - OR the previous task is completed
-   * - OR requiresPreviousCompletion is false
+   * A task is unlocked when all its prerequisites are completed:
+   * - explicit prerequisiteTaskIds, when set
+   * - otherwise the previous task (requiresPreviousCompletion) and dependsOnTaskId
    */
   isUnlocked(allTasks: JobTask[]): boolean {
-    if (!this.requiresPreviousCompletion) {
-      return true;
-    }
-
-    if (this.orderIndex === 0) {
-      return true;
-    }
-
-    // Find the previous task
-    const previousTask = allTasks.find(t => t.orderIndex === this.orderIndex - 1);
-    if (!previousTask) {
-      return true; // No previous task found, consider unlocked
-    }
-
-    return previousTask.status === 'completed';
+    return blockingPrerequisites(this, allTasks).length === 0;
   }
 
   /**
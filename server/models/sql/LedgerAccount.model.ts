@@ -0,0 +1,68 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  AllowNull,
+  Default,
+  Index,
+  Unique,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+import type { LedgerAccountType } from '../../services/ledgerRules.js';
+import type { Currency } from '../../services/money.js';
+
+/**
+ * Cuenta del libro mayor.
+ *
+ * Las cuentas de sistema (escrow, comisiones, pagos pendientes, reembolsos,
+ * caja) tienen un código fijo; cada usuario tiene su billetera
+ * `user_wallet:<userId>`, cuyo saldo debe coincidir con User.balanceArs.
+ * Las cuentas en otra moneda llevan el sufijo `@<moneda>` (p. ej.
+ * `user_wallet:<userId>@USDT`, saldo en User.balanceUsdt).
+ */
+@Table({
+  tableName: 'ledger_accounts',
+  timestamps: true,
+  underscored: true,
+})
+export class LedgerAccount extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Unique
+  @Column(DataType.STRING(80))
+  code!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(120))
+  name!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  type!: LedgerAccountType;
+
+  // Solo para billeteras de usuario
+  @ForeignKey(() => User)
+  @Index
+  @Column(DataType.UUID)
+  userId?: string;
+
+  @BelongsTo(() => User)
+  user?: User;
+
+  @Default('ARS')
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  currency!: Currency;
+}
+
+export default LedgerAccount;
@@ -0,0 +1,100 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  HasMany,
+  AllowNull,
+  Default,
+  Index,
+  Unique,
+  BeforeUpdate,
+  BeforeDestroy,
+  BeforeBulkUpdate,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import { LedgerLine } from './LedgerLine.model.js';
+import type { LedgerEntryKind } from '../../services/ledgerRules.js';
+
+/**
+ * Asiento del libro mayor (cabecera).
+ *
+ * Agrupa líneas de débito/crédito que suman cero. Es append-only: una
+ * corrección se registra como un asiento nuevo, nunca editando uno existente.
+ * `idempotencyKey` evita registrar dos veces el mismo hecho (p. ej. un webhook
+ * repetido o una liberación de escrow reintentada).
+ */
+@Table({
+  tableName: 'ledger_entries',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { fields: ['kind', 'created_at'] },
+    { fields: ['contract_id'] },
+    { fields: ['payment_id'] },
+  ],
+})
+export class LedgerEntry extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  kind!: LedgerEntryKind;
+
+  @AllowNull(false)
+  @Column(DataType.TEXT)
+  description!: string;
+
+  @Unique
+  @Column(DataType.STRING(150))
+  idempotencyKey?: string;
+
+  // Referencias al hecho que originó el asiento (sin FK: el ledger sobrevive a borrados)
+  @Column(DataType.UUID)
+  contractId?: string;
+
+  @Column(DataType.UUID)
+  paymentId?: string;
+
+  @Column(DataType.UUID)
+  jobId?: string;
+
+  @Column(DataType.UUID)
+  withdrawalId?: string;
+
+  // null cuando lo registra un proceso del sistema
+  @Index
+  @Column(DataType.UUID)
+  createdBy?: string;
+
+  @Default({})
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  metadata!: Record<string, any>;
+
+  @HasMany(() => LedgerLine)
+  lines?: LedgerLine[];
+
+  declare createdAt: Date;
+
+  @BeforeUpdate
+  @BeforeBulkUpdate
+  static preventUpdate() {
+    throw new Error('Los asientos del ledger son inmutables');
+  }
+
+  @BeforeDestroy
+  @BeforeBulkDestroy
+  static preventDestroy() {
+    throw new Error('Los asientos del ledger son inmutables');
+  }
+}
+
+export default LedgerEntry;
@@ -0,0 +1,81 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  AllowNull,
+  Default,
+  Index,
+  BeforeUpdate,
+  BeforeDestroy,
+  BeforeBulkUpdate,
+  BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import { LedgerEntry } from './LedgerEntry.model.js';
+import { LedgerAccount } from './LedgerAccount.model.js';
+
+/**
+ * Línea de un asiento: un débito o un crédito (nunca ambos) sobre una cuenta.
+ * Inmutable, igual que su asiento.
+ */
+@Table({
+  tableName: 'ledger_lines',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+})
+export class LedgerLine extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => LedgerEntry)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.UUID)
+  entryId!: string;
+
+  @BelongsTo(() => LedgerEntry)
+  entry?: LedgerEntry;
+
+  @ForeignKey(() => LedgerAccount)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.UUID)
+  accountId!: string;
+
+  @BelongsTo(() => LedgerAccount)
+  account?: LedgerAccount;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(14, 2))
+  debit!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(14, 2))
+  credit!: number;
+
+  declare createdAt: Date;
+
+  @BeforeUpdate
+  @BeforeBulkUpdate
+  static preventUpdate() {
+    throw new Error('Los asientos del ledger son inmutables');
+  }
+
+  @BeforeDestroy
+  @BeforeBulkDestroy
+  static preventDestroy() {
+    throw new Error('Los asientos del ledger son inmutables');
+  }
+}
+
+export default LedgerLine;
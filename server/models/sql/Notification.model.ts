@@ -24,6 +24,8 @@ export type NotificationChannel = 'in_app' | 'email' | 'push';
     { fields: ['recipient_id', 'read', 'created_at'] },
     { fields: ['recipient_id', 'category'] },
     { fields: ['read'] },
+    { fields: ['deliver_after'] },
+    { fields: ['recipient_id', 'coalesce_key'] },
   ],
 })
 export class Notification extends Model {
@@ -101,6 +103,23 @@ export class Notification extends Model {
   @Column(DataType.BOOLEAN)
   pushSent!: boolean;
 
+  // Canales (email/push) que faltan entregar; los manda el resumen de notificationDigests.ts
+  @Default([])
+  @Column(DataType.ARRAY(DataType.STRING))
+  pendingChannels!: NotificationChannel[];
+
+  // Desde cuándo se pueden entregar los pendingChannels (fin del silencio, del agrupado o del resumen)
+  @Column(DataType.DATE)
+  deliverAfter?: Date | null;
+
+  // Eventos con la misma clave salen juntos (p. ej. 'chat:<conversationId>')
+  @Column(DataType.STRING(120))
+  coalesceKey?: string | null;
+
+  // Cuándo salió por email/push (inmediato o en un resumen)
+  @Column(DataType.DATE)
+  deliveredAt?: Date | null;
+
   @Default({})
   @Column(DataType.JSONB)
   data?: any;
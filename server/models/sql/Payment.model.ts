@@ -14,6 +14,7 @@ import {
 import { User } from './User.model.js';
 import { Contract } from './Contract.model.js';
 import { PaymentProof } from './PaymentProof.model.js';
+import type { Currency, RateSnapshot } from '../../services/money.js';
 
 /**
  * Payment Model - PostgreSQL/Sequelize
@@ -139,6 +140,18 @@ export class Payment extends Model {
   @Column(DataType.DECIMAL(10, 4))
   exchangeRate?: number;
 
+  // Cuando el contrato está pactado en otra moneda que la cobrada (p. ej. un
+  // contrato en USDT pagado en pesos por MercadoPago): monto y moneda que
+  // quedan en escrow, y la cotización congelada al momento del pago
+  @Column(DataType.STRING(10))
+  settlementCurrency?: Currency;
+
+  @Column(DataType.DECIMAL(12, 2))
+  settlementAmount?: number;
+
+  @Column(DataType.JSONB)
+  rateSnapshot?: RateSnapshot;
+
   // ============================================
   // PLATFORM FEE (Commission)
   // ============================================
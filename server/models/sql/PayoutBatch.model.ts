@@ -0,0 +1,131 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+  Unique,
+  Index,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+import { WithdrawalRequest } from './WithdrawalRequest.model.js';
+import type { PayoutBatchStatus, PayoutFileFormat } from '../../services/payoutBatchRules.js';
+
+export interface PayoutResultImport {
+  importedAt: string;
+  importedBy: string;
+  fileName?: string | null;
+  completed: number;
+  failed: number;
+  alreadySettled: number;
+  unmatched: number;
+  errors: number;
+}
+
+/**
+ * Lote de pago de retiros aprobados.
+ *
+ * Al crearlo los retiros quedan bloqueados en el lote (`payoutBatchId`); al
+ * exportarlo se debita cada billetera contra "pagos pendientes de transferir"
+ * y los retiros pasan a processing. El archivo de resultados del banco los
+ * marca completed o failed (con devolución del saldo) y, cuando no queda
+ * ninguno pendiente, el lote queda settled.
+ */
+@Table({
+  tableName: 'payout_batches',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['status', 'created_at'] },
+  ],
+})
+export class PayoutBatch extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @Unique
+  @AllowNull(false)
+  @Column(DataType.STRING(30))
+  reference!: string;
+
+  @Default('open')
+  @AllowNull(false)
+  @Index
+  @Column(DataType.STRING(20))
+  status!: PayoutBatchStatus;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  itemCount!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(14, 2))
+  totalAmount!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  completedCount!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  failedCount!: number;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  createdBy!: string;
+
+  @BelongsTo(() => User, 'createdBy')
+  creator?: User;
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  exportedBy?: string | null;
+
+  @Column(DataType.DATE)
+  exportedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  settledAt?: Date | null;
+
+  @Column(DataType.DATE)
+  cancelledAt?: Date | null;
+
+  // Último archivo generado (el banco puede pedir que se reenvíe idéntico)
+  @Column(DataType.STRING(20))
+  lastFileFormat?: PayoutFileFormat | null;
+
+  @Column(DataType.STRING(64))
+  lastFileChecksum?: string | null;
+
+  @Default([])
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  resultImports!: PayoutResultImport[];
+
+  @Column({
+    type: DataType.TEXT,
+    validate: { len: [0, 1000] },
+  })
+  notes?: string | null;
+
+  @HasMany(() => WithdrawalRequest, 'payoutBatchId')
+  withdrawals?: WithdrawalRequest[];
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default PayoutBatch;
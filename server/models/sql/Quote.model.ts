@@ -13,6 +13,7 @@ import {
 } from 'sequelize-typescript';
 import { User } from './User.model.js';
 import { Job } from './Job.model.js';
+import type { Currency } from '../../services/money.js';
 
 export type QuoteStatus = 'draft' | 'sent' | 'accepted' | 'rejected' | 'expired' | 'cancelled';
 
@@ -109,6 +110,11 @@ export class Quote extends Model {
   @Column(DataType.DECIMAL(12, 2))
   total!: number;
 
+  // Moneda de todos los montos del presupuesto (ítems, impuestos y total)
+  @Default('ARS')
+  @Column(DataType.STRING(10))
+  currency!: Currency;
+
   @AllowNull(true)
   @Column(DataType.TEXT)
   notes?: string;
@@ -0,0 +1,191 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  BelongsTo,
+  HasMany,
+  Default,
+  AllowNull,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+import { RecurringJobOccurrence } from './RecurringJobOccurrence.model.js';
+import type { RecurrenceFrequency, RecurrenceRule } from '../../services/recurrenceRules.js';
+import type { Currency } from '../../services/money.js';
+
+export type RecurringJobStatus = 'active' | 'ended';
+
+/**
+ * RecurringJob Model - PostgreSQL/Sequelize
+ *
+ * Serie de trabajos recurrentes (suscripción de servicio): la plantilla del
+ * trabajo que se publica en cada ocurrencia más su regla de recurrencia.
+ * Las reglas están en recurrenceRules.ts y la generación de cada trabajo,
+ * contrato y pago en recurringJobs.ts.
+ * - El Doer preferido recibe primero cada ocurrencia (firstRefusalHours)
+ * - Las ocurrencias salteadas, reprogramadas o generadas viven en
+ *   RecurringJobOccurrence
+ */
+@Table({
+  tableName: 'recurring_jobs',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['client_id'] },
+    { fields: ['preferred_doer_id'] },
+    { fields: ['status'] },
+  ],
+})
+export class RecurringJob extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  clientId!: string;
+
+  @BelongsTo(() => User, 'clientId')
+  client?: User;
+
+  // ============================================
+  // PLANTILLA DEL TRABAJO
+  // ============================================
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  title!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(200))
+  summary!: string;
+
+  @AllowNull(false)
+  @Column(DataType.TEXT)
+  description!: string;
+
+  // Precio de cada ocurrencia, en la moneda de la serie
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(12, 2))
+  price!: number;
+
+  // Moneda de los contratos de cada ocurrencia
+  @Default('ARS')
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  currency!: Currency;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  category!: string;
+
+  @Default([])
+  @Column(DataType.ARRAY(DataType.STRING))
+  tags!: string[];
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  location!: string;
+
+  @Column(DataType.STRING(100))
+  neighborhood?: string | null;
+
+  @Column(DataType.DECIMAL(10, 8))
+  latitude?: number | null;
+
+  @Column(DataType.DECIMAL(11, 8))
+  longitude?: number | null;
+
+  @Default(false)
+  @Column(DataType.BOOLEAN)
+  remoteOk!: boolean;
+
+  // ============================================
+  // REGLA DE RECURRENCIA
+  // ============================================
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  frequency!: RecurrenceFrequency;
+
+  // 0 = domingo (semanal y quincenal)
+  @Default([])
+  @Column(DataType.ARRAY(DataType.INTEGER))
+  weekdays!: number[];
+
+  // 1-31 (mensual; 31 = último día en los meses más cortos)
+  @Column(DataType.INTEGER)
+  dayOfMonth?: number | null;
+
+  // HH:mm, hora de Argentina
+  @AllowNull(false)
+  @Column(DataType.STRING(5))
+  startTime!: string;
+
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  durationMinutes!: number;
+
+  @AllowNull(false)
+  @Column(DataType.DATEONLY)
+  startsOn!: string;
+
+  @Column(DataType.DATEONLY)
+  endsOn?: string | null;
+
+  @Column(DataType.INTEGER)
+  maxOccurrences?: number | null;
+
+  // ============================================
+  // DOER PREFERIDO
+  // ============================================
+
+  @ForeignKey(() => User)
+  @Column(DataType.UUID)
+  preferredDoerId?: string | null;
+
+  @BelongsTo(() => User, 'preferredDoerId')
+  preferredDoer?: User;
+
+  // Horas que tiene el Doer preferido para aceptar cada ocurrencia antes de publicarla
+  @Default(24)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  firstRefusalHours!: number;
+
+  @Default('active')
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  status!: RecurringJobStatus;
+
+  @Column(DataType.DATE)
+  endedAt?: Date | null;
+
+  @HasMany(() => RecurringJobOccurrence, 'recurringJobId')
+  occurrences?: RecurringJobOccurrence[];
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+
+  /** La regla de recurrencia en la forma de recurrenceRules.ts. */
+  get rule(): RecurrenceRule {
+    return {
+      frequency: this.frequency,
+      weekdays: this.weekdays || [],
+      dayOfMonth: this.dayOfMonth ?? null,
+      startTime: this.startTime,
+      durationMinutes: this.durationMinutes,
+      startsOn: this.startsOn,
+      endsOn: this.endsOn ?? null,
+      maxOccurrences: this.maxOccurrences ?? null,
+    };
+  }
+}
+
+export default RecurringJob;
@@ -0,0 +1,96 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  Default,
+  AllowNull,
+  Index,
+} from 'sequelize-typescript';
+import { RecurringJob } from './RecurringJob.model.js';
+import type { OccurrenceStatus } from '../../services/recurrenceRules.js';
+
+/**
+ * RecurringJobOccurrence Model - PostgreSQL/Sequelize
+ *
+ * Una fecha de una serie recurrente que ya tiene estado propio: salteada,
+ * reprogramada o generada (con su trabajo, contrato y pago). Las fechas que
+ * todavía no tienen fila salen de la regla de la serie.
+ * - occurrenceDate es la fecha original de la regla (no cambia al reprogramar)
+ * - offerExpiresAt es el fin de la primera opción del Doer preferido
+ */
+@Table({
+  tableName: 'recurring_job_occurrences',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { fields: ['recurring_job_id', 'occurrence_date'], unique: true },
+    { fields: ['status', 'starts_at'] },
+  ],
+})
+export class RecurringJobOccurrence extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @ForeignKey(() => RecurringJob)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  recurringJobId!: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATEONLY)
+  occurrenceDate!: string;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  startsAt!: Date;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  endsAt!: Date;
+
+  @Default('scheduled')
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  status!: OccurrenceStatus;
+
+  @Index
+  @Column(DataType.UUID)
+  jobId?: string | null;
+
+  @Index
+  @Column(DataType.UUID)
+  contractId?: string | null;
+
+  // Doer que tiene la ocurrencia: el preferido mientras dura la oferta, o quien firmó el contrato
+  @Column(DataType.UUID)
+  doerId?: string | null;
+
+  @Column(DataType.UUID)
+  paymentId?: string | null;
+
+  // Link de checkout del pago de la ocurrencia
+  @Column(DataType.TEXT)
+  paymentUrl?: string | null;
+
+  @Column(DataType.DATE)
+  offerExpiresAt?: Date | null;
+
+  @Column(DataType.DATE)
+  paidAt?: Date | null;
+
+  // Último error al generar o cobrar la ocurrencia (se reintenta en la próxima corrida)
+  @Column(DataType.TEXT)
+  lastError?: string | null;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default RecurringJobOccurrence;
@@ -0,0 +1,80 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+  ForeignKey,
+  BelongsTo,
+  Index,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+import type { SavedSearchFilters, SavedSearchFrequency } from '../../services/savedSearchRules.js';
+
+/**
+ * Búsqueda guardada de un usuario (ver services/savedSearches.ts).
+ *
+ * `filters` son los mismos filtros de GET /api/search/jobs. Cuando se publica
+ * un trabajo que los cumple se avisa al usuario: al instante (notificación
+ * in-app + push) o en el resumen diario, según `frequency`; `emailDigest`
+ * suma el trabajo al email diario y `muted` pausa todas las alertas.
+ */
+@Table({
+  tableName: 'saved_searches',
+  timestamps: true,
+  underscored: true,
+})
+export class SavedSearch extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Index
+  @Column(DataType.UUID)
+  userId!: string;
+
+  @BelongsTo(() => User)
+  user?: User;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  name!: string;
+
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  filters!: SavedSearchFilters;
+
+  @Default(false)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  muted!: boolean;
+
+  @Default('instant')
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  frequency!: SavedSearchFrequency;
+
+  @Default(false)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  emailDigest!: boolean;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  matchCount!: number;
+
+  @Column(DataType.DATE)
+  lastMatchedAt?: Date | null;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default SavedSearch;
@@ -0,0 +1,69 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+  ForeignKey,
+  BelongsTo,
+} from 'sequelize-typescript';
+import { Job } from './Job.model.js';
+import { SavedSearch } from './SavedSearch.model.js';
+
+/**
+ * Trabajo publicado que cumplió una búsqueda guardada.
+ *
+ * El índice único (saved_search_id, job_id) hace idempotente el matching: un
+ * trabajo que vuelve a publicarse no repite la alerta. `notifiedAt` marca el
+ * aviso instantáneo y `digestedAt` que ya pasó por el resumen diario (o que
+ * no tenía nada pendiente para el resumen).
+ */
+@Table({
+  tableName: 'saved_search_matches',
+  timestamps: true,
+  updatedAt: false,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['saved_search_id', 'job_id'] },
+    { fields: ['user_id', 'digested_at'] },
+  ],
+})
+export class SavedSearchMatch extends Model {
+  @PrimaryKey
+  @Default(DataType.UUIDV4)
+  @Column(DataType.UUID)
+  declare id: string;
+
+  @ForeignKey(() => SavedSearch)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  savedSearchId!: string;
+
+  @BelongsTo(() => SavedSearch, { onDelete: 'CASCADE' })
+  savedSearch?: SavedSearch;
+
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  userId!: string;
+
+  @ForeignKey(() => Job)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  jobId!: string;
+
+  @BelongsTo(() => Job, { onDelete: 'CASCADE' })
+  job?: Job;
+
+  @Column(DataType.DATE)
+  notifiedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  digestedAt?: Date | null;
+
+  declare createdAt: Date;
+}
+
+export default SavedSearchMatch;
@@ -0,0 +1,64 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  PrimaryKey,
+} from 'sequelize-typescript';
+import type { JobRunStatus } from '../../services/jobSchedulerRules.js';
+
+/**
+ * Estado persistido de cada job programado (uno por nombre).
+ *
+ * Es la fila que coordinan todas las instancias del servidor: la instancia que
+ * logra avanzar `nextRunAt` y tomar el lock (`lockedBy` / `lockedUntil`) con un
+ * UPDATE condicional es la única que ejecuta ese horario. Las definiciones
+ * (handler, cron) viven en código; aquí solo se guarda el estado.
+ */
+@Table({
+  tableName: 'scheduled_jobs',
+  timestamps: true,
+  underscored: true,
+})
+export class ScheduledJob extends Model {
+  @PrimaryKey
+  @Column(DataType.STRING(100))
+  declare name: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  cronExpression!: string;
+
+  @Column(DataType.STRING(255))
+  description?: string | null;
+
+  // Un admin puede pausar un job sin redeploy
+  @Default(true)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  enabled!: boolean;
+
+  @AllowNull(false)
+  @Column(DataType.DATE)
+  nextRunAt!: Date;
+
+  @Column(DataType.DATE)
+  lastRunAt?: Date | null;
+
+  @Column(DataType.STRING(20))
+  lastStatus?: JobRunStatus | null;
+
+  @Column(DataType.STRING(255))
+  lockedBy?: string | null;
+
+  @Column(DataType.DATE)
+  lockedUntil?: Date | null;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default ScheduledJob;
@@ -0,0 +1,67 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  ForeignKey,
+  AllowNull,
+  Default,
+} from 'sequelize-typescript';
+import { User } from './User.model.js';
+
+/**
+ * SocketPresence Model - PostgreSQL/Sequelize
+ *
+ * Un socket conectado (un dispositivo) de un usuario, en cualquier instancia
+ * del servidor. La instancia que lo atiende renueva lastSeenAt periódicamente;
+ * las filas sin renovar son de instancias caídas y se descartan. Las reglas
+ * de presencia están en presenceRules.ts.
+ */
+@Table({
+  tableName: 'socket_presence',
+  timestamps: false,
+  underscored: true,
+  indexes: [
+    { fields: ['user_id'] },
+    { fields: ['server_id'] },
+    { fields: ['last_seen_at'] },
+  ],
+})
+export class SocketPresence extends Model {
+  @Column({
+    type: DataType.STRING(64),
+    primaryKey: true,
+  })
+  declare socketId: string;
+
+  @ForeignKey(() => User)
+  @AllowNull(false)
+  @Column(DataType.UUID)
+  userId!: string;
+
+  // Instancia del servidor que atiende el socket
+  @AllowNull(false)
+  @Column(DataType.STRING(64))
+  serverId!: string;
+
+  @AllowNull(false)
+  @Default('unknown')
+  @Column(DataType.STRING(10))
+  device!: 'web' | 'mobile' | 'unknown';
+
+  @Column(DataType.STRING(300))
+  userAgent?: string | null;
+
+  @AllowNull(false)
+  @Default(DataType.NOW)
+  @Column(DataType.DATE)
+  connectedAt!: Date;
+
+  @AllowNull(false)
+  @Default(DataType.NOW)
+  @Column(DataType.DATE)
+  lastSeenAt!: Date;
+}
+
+export default SocketPresence;
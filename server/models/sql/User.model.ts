@@ -16,6 +16,15 @@ import {
 } from 'sequelize-typescript';
 import * as bcrypt from 'bcryptjs';
 import { encryptCBU, decryptCBU, maskCBU, encrypt, decrypt, isEncrypted } from '../../utils/encryption.js';
+import type { Currency } from '../../services/money.js';
+import type { DeliveryPreferences } from '../../services/notificationDeliveryRules.js';
+
+// Columna de saldo de cada moneda
+export const WALLET_BALANCE_FIELDS = {
+  ARS: 'balanceArs',
+  USD: 'balanceUsd',
+  USDT: 'balanceUsdt',
+} as const satisfies Record<Currency, string>;
 
 /**
  * User Model - PostgreSQL/Sequelize
@@ -30,7 +39,7 @@ import { encryptCBU, decryptCBU, maskCBU, encrypt, decrypt, isEncrypted } from '
  * - Sistema de referidos
  */
 
-interface NotificationPreferences {
+interface NotificationPreferences extends DeliveryPreferences {
   email: boolean;
   push: boolean;
   sms: boolean;
@@ -39,6 +48,7 @@ interface NotificationPreferences {
   contractUpdate: boolean;
   paymentUpdate: boolean;
   marketing: boolean;
+  language?: 'es' | 'en'; // idioma de emails, push y notificaciones
 }
 
 interface Address {
@@ -78,10 +88,18 @@ export interface AvailabilityException {
   reason?: string;
 }
 
+export interface AvailabilityBlackout {
+  from: string;     // YYYY-MM-DD
+  to: string;       // YYYY-MM-DD (inclusive)
+  reason?: string;
+}
+
 export interface AvailabilitySchedule {
   timezone?: string;
   slots: AvailabilitySlot[];
   exceptions?: AvailabilityException[];
+  blackouts?: AvailabilityBlackout[];
+  travelBufferMinutes?: number; // margen entre trabajos presenciales sin coordenadas
 }
 
 @Table({
@@ -517,6 +535,16 @@ export class User extends Model {
   @Column(DataType.BOOLEAN)
   isAvailabilityPublic!: boolean;
 
+  // Calendario externo (.ics) del que se importan bloques ocupados (ExternalBusyBlock)
+  @Column(DataType.TEXT)
+  externalCalendarUrl?: string | null;
+
+  @Column(DataType.DATE)
+  externalCalendarSyncedAt?: Date | null;
+
+  @Column(DataType.TEXT)
+  externalCalendarError?: string | null;
+
   // ============================================
   // MEMBERSHIP
   // ============================================
@@ -551,6 +579,19 @@ export class User extends Model {
   @Column(DataType.DECIMAL(14, 2))
   monthlyBillingGoal?: number;
 
+  // Facturación electrónica AFIP (Factura C/B al cliente al completar un contrato)
+  @Column(DataType.STRING(11))
+  fiscalCuit?: string | null;
+
+  // Punto de venta "Web Services" dado de alta en AFIP
+  @Column(DataType.INTEGER)
+  fiscalPointOfSale?: number | null;
+
+  @Default(false)
+  @AllowNull(false)
+  @Column(DataType.BOOLEAN)
+  electronicInvoicingEnabled!: boolean;
+
   @Default(false)
   @AllowNull(false)
   @Column(DataType.BOOLEAN)
@@ -580,6 +621,18 @@ export class User extends Model {
   @Column(DataType.DECIMAL(12, 2))
   balanceArs!: number;
 
+  // Saldos en otras monedas (contratos pactados en USD/USDT): no se
+  // convierten a pesos, cada moneda tiene su billetera en el ledger
+  @Default(0.0)
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(12, 2))
+  balanceUsd!: number;
+
+  @Default(0.0)
+  @AllowNull(false)
+  @Column(DataType.DECIMAL(12, 2))
+  balanceUsdt!: number;
+
   // ============================================
   // REFERRALS
   // ============================================
@@ -968,9 +1021,15 @@ export class User extends Model {
   /**
    * Check if user has sufficient balance
    */
-  hasSufficientBalance(amount: number): boolean {
-    const currentBalance = parseFloat(this.balanceArs as any) || 0;
-    return currentBalance >= amount;
+  hasSufficientBalance(amount: number, currency: Currency = 'ARS'): boolean {
+    return this.balanceIn(currency) >= amount;
+  }
+
+  /**
+   * Saldo de la billetera en una moneda
+   */
+  balanceIn(currency: Currency = 'ARS'): number {
+    return parseFloat(this[WALLET_BALANCE_FIELDS[currency]] as any) || 0;
   }
 
   /**
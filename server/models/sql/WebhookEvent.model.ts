@@ -0,0 +1,113 @@
+import 'reflect-metadata';
+import {
+  Table,
+  Column,
+  Model,
+  DataType,
+  AllowNull,
+  Default,
+  Index,
+} from 'sequelize-typescript';
+import type {
+  WebhookProvider,
+  WebhookSignatureStatus,
+  WebhookEventStatus,
+} from '../../services/webhookInboxRules.js';
+
+/**
+ * Inbox de webhooks de pago.
+ *
+ * Cada notificación de un proveedor se guarda ANTES de procesarse, una sola
+ * vez por (provider, externalEventId): los reintentos del proveedor caen en
+ * la misma fila y no vuelven a ejecutar el handler. El estado, los intentos y
+ * el último error permiten reintentar con backoff y hacer replay manual.
+ */
+@Table({
+  tableName: 'webhook_events',
+  timestamps: true,
+  underscored: true,
+  indexes: [
+    { unique: true, fields: ['provider', 'external_event_id'] },
+    { fields: ['status', 'next_attempt_at'] },
+    { fields: ['created_at'] },
+  ],
+})
+export class WebhookEvent extends Model {
+  @Column({
+    type: DataType.UUID,
+    defaultValue: DataType.UUIDV4,
+    primaryKey: true,
+  })
+  declare id: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(20))
+  provider!: WebhookProvider;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(255))
+  externalEventId!: string;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(100))
+  eventType!: string;
+
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  payload!: Record<string, any>;
+
+  // Solo los headers relevantes (firma, request id); nunca cookies ni Authorization
+  @Default({})
+  @AllowNull(false)
+  @Column(DataType.JSONB)
+  headers!: Record<string, string>;
+
+  @AllowNull(false)
+  @Column(DataType.STRING(10))
+  signatureStatus!: WebhookSignatureStatus;
+
+  @Default('pending')
+  @AllowNull(false)
+  @Index
+  @Column(DataType.STRING(20))
+  status!: WebhookEventStatus;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  attempts!: number;
+
+  @Column(DataType.TEXT)
+  lastError?: string | null;
+
+  @Column(DataType.DATE)
+  nextAttemptAt?: Date | null;
+
+  @Column(DataType.DATE)
+  lockedAt?: Date | null;
+
+  @Column(DataType.DATE)
+  processedAt?: Date | null;
+
+  // Veces que el proveedor reenvió el mismo evento (ya deduplicado)
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  duplicateCount!: number;
+
+  @Default(0)
+  @AllowNull(false)
+  @Column(DataType.INTEGER)
+  replayCount!: number;
+
+  @Column(DataType.UUID)
+  lastReplayedBy?: string | null;
+
+  @Column(DataType.STRING(64))
+  ip?: string | null;
+
+  declare createdAt: Date;
+  declare updatedAt: Date;
+}
+
+export default WebhookEvent;
@@ -15,6 +15,7 @@ import {
 } from 'sequelize-typescript';
 import { User } from './User.model.js';
 import { BalanceTransaction } from './BalanceTransaction.model.js';
+import { PayoutBatch } from './PayoutBatch.model.js';
 import { encryptCBU, decryptCBU, maskCBU } from '../../utils/encryption.js';
 
 /**
@@ -24,6 +25,8 @@ import { encryptCBU, decryptCBU, maskCBU } from '../../utils/encryption.js';
  * - Monto mínimo $1000 ARS
  * - Información bancaria CBU (22 dígitos)
  * - Workflow completo: pending → approved → processing → completed
+ * - Pago por lotes: los aprobados se agrupan en un PayoutBatch; el archivo de
+ *   resultados del banco los marca completed o failed (saldo devuelto)
  * - Tracking de admin (procesado por, notas)
  * - Comprobante de transferencia
  * - Metadata de seguridad (IP, user agent)
@@ -38,6 +41,7 @@ export type WithdrawalStatus =
   | 'approved'
   | 'processing'
   | 'completed'
+  | 'failed'
   | 'rejected'
   | 'cancelled';
 
@@ -70,6 +74,7 @@ export interface IWithdrawalMetadata {
     { fields: ['status', 'requested_at'] },
     { fields: ['user_id', 'created_at'] },
     { fields: ['requested_at'] },
+    { fields: ['payout_batch_id', 'status'] },
   ],
 })
 export class WithdrawalRequest extends Model {
@@ -107,6 +112,13 @@ export class WithdrawalRequest extends Model {
   @BelongsTo(() => BalanceTransaction)
   transaction?: BalanceTransaction;
 
+  @ForeignKey(() => PayoutBatch)
+  @Column(DataType.UUID)
+  payoutBatchId?: string | null;
+
+  @BelongsTo(() => PayoutBatch, 'payoutBatchId')
+  payoutBatch?: PayoutBatch;
+
   // ============================================
   // WITHDRAWAL INFO
   // ============================================
@@ -147,6 +159,9 @@ export class WithdrawalRequest extends Model {
   @Column(DataType.DATE)
   completedAt?: Date; // When money transferred
 
+  @Column(DataType.DATE)
+  failedAt?: Date; // When the bank returned the transfer
+
   // ============================================
   // ADMIN INFO
   // ============================================
@@ -273,6 +288,13 @@ export class WithdrawalRequest extends Model {
     return this.status === 'completed';
   }
 
+  /**
+   * Check if the bank transfer failed
+   */
+  isFailed(): boolean {
+    return this.status === 'failed';
+  }
+
   /**
    * Check if withdrawal is rejected
    */
@@ -453,6 +475,7 @@ export class WithdrawalRequest extends Model {
       approved: 'Aprobado',
       processing: 'Procesando',
       completed: 'Completado',
+      failed: 'Fallido',
       rejected: 'Rechazado',
       cancelled: 'Cancelado',
     };
@@ -11,6 +11,10 @@ export { User } from './User.model.js';
 export type { AvailabilitySchedule, AvailabilitySlot, AvailabilityException } from './User.model.js';
 export { Job } from './Job.model.js';
 export { JobTask } from './JobTask.model.js';
+export { RecurringJob } from './RecurringJob.model.js';
+export { RecurringJobOccurrence } from './RecurringJobOccurrence.model.js';
+export { ExternalBusyBlock } from './ExternalBusyBlock.model.js';
+export { SocketPresence } from './SocketPresence.model.js';
 export { Contract } from './Contract.model.js';
 export { Payment } from './Payment.model.js';
 export { Proposal } from './Proposal.model.js';
@@ -40,6 +44,8 @@ export { Role } from './Role.model.js';
 // ============================================
 export { ContractChangeRequest } from './ContractChangeRequest.model.js';
 export { ContractCancellationRequest } from './ContractCancellationRequest.model.js';
+export { ContractStatusTransition } from './ContractStatusTransition.model.js';
+export { ContractMilestone } from './ContractMilestone.model.js';
 export type { CancellationRequestStatus, CancellationRequestPriority } from './ContractCancellationRequest.model.js';
 
 // ============================================
@@ -53,6 +59,18 @@ export { Referral } from './Referral.model.js';
 // ============================================
 export { BalanceTransaction } from './BalanceTransaction.model.js';
 export { WithdrawalRequest } from './WithdrawalRequest.model.js';
+export { PayoutBatch } from './PayoutBatch.model.js';
+export type { PayoutResultImport } from './PayoutBatch.model.js';
+export { LedgerAccount } from './LedgerAccount.model.js';
+export { LedgerEntry } from './LedgerEntry.model.js';
+export { LedgerLine } from './LedgerLine.model.js';
+export { WebhookEvent } from './WebhookEvent.model.js';
+export { ScheduledJob } from './ScheduledJob.model.js';
+export { JobRun } from './JobRun.model.js';
+export { CommissionRule } from './CommissionRule.model.js';
+export { SavedSearch } from './SavedSearch.model.js';
+export { SavedSearchMatch } from './SavedSearchMatch.model.js';
+export { AuditLogCheckpoint } from './AuditLogCheckpoint.model.js';
 export { Invoice } from './Invoice.model.js';
 export type { InvoiceType, InvoiceStatus, InvoiceMetadata } from './Invoice.model.js';
 
@@ -3,10 +3,22 @@ import { protect, AuthRequest } from "../../middleware/auth.js";
 import { requirePermission } from "../../middleware/permissions.js";
 import { AuditLog } from "../../models/sql/AuditLog.model.js";
 import { User } from "../../models/sql/User.model.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+import { logAudit } from "../../utils/auditLog.js";
+import auditChain from "../../services/auditChain.js";
 import { Op } from "sequelize";
 
 const router = Router();
 
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
 /**
  * GET /api/admin/audit-logs
  * Paginated list of admin actions (all roles). Filters: category, action,
@@ -73,6 +85,8 @@ router.get("/", protect, requirePermission("audit:read"), async (req: AuthReques
       metadata: r.metadata,
       ip: r.ip,
       adminRole: r.adminRole,
+      chainDate: r.chainDate,
+      sequence: r.sequence,
       performedBy: r.performedBy,
       admin: r.performer ? { id: r.performer.id, name: r.performer.name, email: r.performer.email } : null,
       createdAt: r.createdAt,
@@ -91,4 +105,86 @@ router.get("/", protect, requirePermission("audit:read"), async (req: AuthReques
   }
 });
 
+/**
+ * GET /api/admin/audit-logs/chain/health?days=14
+ * Chain health per day: first broken link, checkpoints and signature status.
+ */
+router.get("/chain/health", protect, requirePermission("audit:read"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const days = req.query.days ? parseInt(req.query.days as string) : undefined;
+    const health = await auditChain.health({ days });
+    res.json({ success: true, data: health });
+  } catch (error: any) {
+    sendError(res, error, "Error al verificar la cadena del registro de acciones");
+  }
+});
+
+/**
+ * GET /api/admin/audit-logs/chain/days/:date
+ * Verify a single day (YYYY-MM-DD, UTC).
+ */
+router.get("/chain/days/:date", protect, requirePermission("audit:read"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const day = await auditChain.verifyDay(req.params.date);
+    res.json({ success: true, data: day });
+  } catch (error: any) {
+    sendError(res, error, "Error al verificar el día");
+  }
+});
+
+/**
+ * POST /api/admin/audit-logs/chain/checkpoint
+ * Sign a checkpoint now instead of waiting for the hourly job.
+ */
+router.post("/chain/checkpoint", protect, requirePermission("audit:export"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const created = await auditChain.createCheckpoints();
+    res.json({ success: true, data: { created } });
+  } catch (error: any) {
+    sendError(res, error, "Error al crear el checkpoint");
+  }
+});
+
+/**
+ * GET /api/admin/audit-logs/chain/export/:date.csv
+ * Every chained entry of the day with the fields that go into its hash.
+ */
+router.get("/chain/export/:date.csv", protect, requirePermission("audit:export"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { csv } = await auditChain.exportDay(req.params.date);
+    await logAudit({
+      req,
+      action: "export_data",
+      category: "system",
+      severity: "medium",
+      description: `Exportó el registro de acciones del ${req.params.date}`,
+      metadata: { chainDate: req.params.date },
+    });
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename=audit-log-${req.params.date}.csv`);
+    res.send(csv);
+  } catch (error: any) {
+    sendError(res, error, "Error al exportar el registro de acciones");
+  }
+});
+
+/**
+ * GET /api/admin/audit-logs/chain/export/:date/checkpoint.json
+ * Latest signed checkpoint of the day (with the public key when signed with
+ * Ed25519) to verify the CSV offline: npx tsx server/scripts/verifyAuditExport.ts
+ */
+router.get("/chain/export/:date/checkpoint.json", protect, requirePermission("audit:export"), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { checkpoint } = await auditChain.exportDay(req.params.date);
+    if (!checkpoint) {
+      res.status(404).json({ success: false, message: "Todavía no hay un checkpoint firmado para ese día" });
+      return;
+    }
+    res.setHeader("Content-Disposition", `attachment; filename=audit-checkpoint-${req.params.date}.json`);
+    res.json(checkpoint);
+  } catch (error: any) {
+    sendError(res, error, "Error al exportar el checkpoint");
+  }
+});
+
 export default router;
@@ -0,0 +1,142 @@
+import express, { Response } from "express";
+import { protect, AuthRequest } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/permissions.js";
+import {
+  createCommissionRule,
+  deactivateCommissionRule,
+  getCommissionRuleHistory,
+  listCommissionRules,
+  simulateCommission,
+  updateCommissionRule,
+} from "../../services/commissionService.js";
+import { logAudit } from "../../utils/auditLog.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+
+const router = express.Router();
+
+router.use(protect);
+
+const canEdit = requireRole('admin', 'super_admin', 'owner');
+
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
+/**
+ * Commission rules (current version of each)
+ * GET /api/admin/commission-rules?includeInactive=true
+ */
+router.get("/", requireRole('admin', 'super_admin', 'owner', 'support'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const rules = await listCommissionRules({ includeInactive: req.query.includeInactive === 'true' });
+    res.status(200).json({ success: true, data: rules });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener las reglas de comisión");
+  }
+});
+
+/**
+ * Simulate the commission of a contract for a user (support tool)
+ * POST /api/admin/commission-rules/simulate
+ * Body: { userId?, price, currency?, category?, isFreeContract?, membershipTier?, familyPlan?, freeContractsRemaining?, monthlyVolume?, date? }
+ */
+router.post("/simulate", requireRole('admin', 'super_admin', 'owner', 'support'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.body?.price === undefined || req.body?.price === '') {
+      res.status(400).json({ success: false, message: "El precio es obligatorio" });
+      return;
+    }
+
+    const simulation = await simulateCommission(req.body);
+    res.status(200).json({ success: true, data: simulation });
+  } catch (error: any) {
+    sendError(res, error, "Error al simular la comisión");
+  }
+});
+
+/**
+ * Version history of a rule (newest first)
+ * GET /api/admin/commission-rules/:ruleKey/versions
+ */
+router.get("/:ruleKey/versions", requireRole('admin', 'super_admin', 'owner', 'support'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const versions = await getCommissionRuleHistory(req.params.ruleKey);
+    res.status(200).json({ success: true, data: versions });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener el historial de la regla");
+  }
+});
+
+/**
+ * Create a rule
+ * POST /api/admin/commission-rules
+ */
+router.post("/", canEdit, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await createCommissionRule(req.body || {}, req.user.id);
+
+    void logAudit({
+      req, action: 'commission_rule.create', category: 'payment', severity: 'high',
+      description: `Creó la regla de comisión "${rule.name}" (${rule.rate}%)`,
+      targetModel: 'CommissionRule', targetId: rule.id, targetIdentifier: rule.ruleKey,
+    });
+
+    res.status(201).json({ success: true, data: rule });
+  } catch (error: any) {
+    sendError(res, error, "Error al crear la regla de comisión");
+  }
+});
+
+/**
+ * Edit a rule: creates a new version, the previous one stays for existing contracts
+ * PUT /api/admin/commission-rules/:ruleKey
+ */
+router.put("/:ruleKey", canEdit, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { rule, previous } = await updateCommissionRule(req.params.ruleKey, req.body || {}, req.user.id);
+
+    void logAudit({
+      req, action: 'commission_rule.update', category: 'payment', severity: 'high',
+      description: `Publicó la versión ${rule.version} de la regla de comisión "${rule.name}"`,
+      targetModel: 'CommissionRule', targetId: rule.id, targetIdentifier: rule.ruleKey,
+      changes: [
+        { field: 'rate', oldValue: Number(previous.rate), newValue: Number(rule.rate) },
+        { field: 'minimumFee', oldValue: previous.minimumFee ?? null, newValue: rule.minimumFee ?? null },
+        { field: 'maximumFee', oldValue: previous.maximumFee ?? null, newValue: rule.maximumFee ?? null },
+        { field: 'priority', oldValue: previous.priority, newValue: rule.priority },
+      ],
+      metadata: { previousVersion: previous.version, changeNote: rule.changeNote },
+    });
+
+    res.status(200).json({ success: true, data: rule });
+  } catch (error: any) {
+    sendError(res, error, "Error al actualizar la regla de comisión");
+  }
+});
+
+/**
+ * Deactivate a rule (history is kept; PUT publishes it again)
+ * DELETE /api/admin/commission-rules/:ruleKey
+ */
+router.delete("/:ruleKey", canEdit, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const rule = await deactivateCommissionRule(req.params.ruleKey);
+
+    void logAudit({
+      req, action: 'commission_rule.deactivate', category: 'payment', severity: 'high',
+      description: `Desactivó la regla de comisión "${rule.name}"`,
+      targetModel: 'CommissionRule', targetId: rule.id, targetIdentifier: rule.ruleKey,
+    });
+
+    res.status(200).json({ success: true, data: rule });
+  } catch (error: any) {
+    sendError(res, error, "Error al desactivar la regla de comisión");
+  }
+});
+
+export default router;
@@ -1,5 +1,5 @@
 import express, { Request, Response } from "express";
-import { Contract } from "../../models/sql/Contract.model.js";
+import { Contract, type ContractStatus } from "../../models/sql/Contract.model.js";
 import { User } from "../../models/sql/User.model.js";
 import { Job } from "../../models/sql/Job.model.js";
 import { Payment } from "../../models/sql/Payment.model.js";
@@ -14,6 +14,7 @@ import type { AuthRequest } from "../../types/index.js";
 import { Op, literal } from "sequelize";
 import { calculateCommission } from "../../services/commissionService.js";
 import { isValidUUID } from "../../utils/sanitizer.js";
+import { transitionContract, ContractTransitionError } from "../../services/contractLifecycle.js";
 
 const escapeLike = (s: string) => s.replace(/[%_\\]/g, '\\$&');
 
@@ -200,8 +201,8 @@ router.post(
         }
       }
 
-      // Calculate commission using volume-based service
-      const commissionResult = await calculateCommission(clientId, price);
+      // Calculate commission with the current commission rules
+      const commissionResult = await calculateCommission(clientId, price, { category: job?.category });
       const commission = commissionResult.commission;
       const totalPrice = price + commission;
 
@@ -214,6 +215,7 @@ router.post(
         description,
         price,
         commission,
+        commissionRuleId: commissionResult.rule?.id ?? null,
         totalPrice,
         status: "accepted", // Admin-created contracts start as accepted
         paymentStatus: "pending",
@@ -308,6 +310,15 @@ router.put(
     try {
       const { status, price, notes } = req.body;
 
+      // El estado solo cambia por eventos del ciclo de vida (POST /:id/change-status)
+      if (status !== undefined) {
+        res.status(400).json({
+          success: false,
+          message: "El estado del contrato no se puede editar aquí. Usa el cambio de estado con motivo.",
+        });
+        return;
+      }
+
       const oldContract = await Contract.findByPk(req.params.id);
 
       if (!oldContract) {
@@ -319,7 +330,6 @@ router.put(
       }
 
       const updateData: any = {};
-      if (status) updateData.status = status;
       if (price !== undefined) updateData.price = price;
       if (notes) updateData.notes = notes;
 
@@ -394,9 +404,11 @@ router.post(
       const previousStatus = contract.status;
 
       // Cambiar estado a "ready" - listo para que las partes acepten
-      await contract.update({
-        status: 'ready',
-        notes: adminNotes ? `${contract.notes || ''}\n[Admin] ${adminNotes}`.trim() : contract.notes,
+      contract.notes = adminNotes ? `${contract.notes || ''}\n[Admin] ${adminNotes}`.trim() : contract.notes;
+      await transitionContract(contract, 'approve', {
+        actorId: req.user.id.toString(),
+        actorRole: 'admin',
+        reason: adminNotes,
       });
 
       const client = contract.client as any;
@@ -487,7 +499,7 @@ router.post(
       });
     } catch (error: any) {
       console.error("Error approving contract:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
@@ -539,10 +551,12 @@ router.post(
 
       const previousStatus = contract.status;
 
-      await contract.update({
-        status: 'rejected',
-        cancellationReason: reason,
-        cancelledBy: req.user.id,
+      contract.cancellationReason = reason;
+      contract.cancelledBy = req.user.id;
+      await transitionContract(contract, 'reject', {
+        actorId: req.user.id.toString(),
+        actorRole: 'admin',
+        reason,
       });
 
       const client = contract.client as any;
@@ -599,7 +613,7 @@ router.post(
       });
     } catch (error: any) {
       console.error("Error rejecting contract:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
@@ -772,23 +786,13 @@ router.post(
 
       const previousStatus = contract.status;
 
-      // Update status with admin metadata
-      const statusChangeLog = {
-        from: previousStatus,
+      // Override manual: queda en el historial append-only del contrato
+      const statusChangeLog = await transitionContract(contract, 'admin_override', {
+        actorId: req.user.id.toString(),
+        actorRole: 'admin',
         to: status,
-        changedBy: req.user.id,
-        changedByName: req.user.name,
         reason,
-        linkedDisputeId: linkedDisputeId || null,
-        timestamp: new Date(),
-      };
-
-      const statusHistory: any[] = (contract as any).statusHistory || [];
-      statusHistory.push(statusChangeLog);
-
-      await contract.update({
-        status,
-        statusHistory,
+        metadata: { changedByName: req.user.name, linkedDisputeId: linkedDisputeId || null },
       });
 
       const client = contract.client as any;
@@ -856,7 +860,7 @@ router.post(
       });
     } catch (error: any) {
       console.error("Error changing contract status:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
@@ -1156,19 +1160,19 @@ router.post(
       // Approve the request
       await request.approve(req.user.id, resolutionNote || 'Solicitud aprobada', refundAmount);
 
-      // Cancel the contract
-      await contract.update({
-        status: 'cancelled',
-        cancellationReason: request.reason,
-        cancelledBy: request.requestedBy,
+      // Cancel the contract. Con reembolso aprobado, los fondos retenidos vuelven al cliente
+      // (efecto de "cancel"); sin reembolso, quedan pendientes de pago al trabajador.
+      contract.cancellationReason = request.reason;
+      contract.cancelledBy = request.requestedBy;
+      const fundsHeld = contract.paymentStatus === 'escrow' || contract.paymentStatus === 'held';
+      await transitionContract(contract, 'cancel', {
+        actorId: req.user.id.toString(),
+        actorRole: 'admin',
+        reason: request.reason,
+        patch: !refundApproved && fundsHeld ? { paymentStatus: 'pending_payout', escrowStatus: 'released' } : undefined,
+        metadata: { cancellationRequestId: request.id, refundApproved: !!refundApproved },
       });
 
-      // Handle refund if approved
-      if (refundApproved && (contract.paymentStatus === 'escrow' || contract.paymentStatus === 'held')) {
-        contract.paymentStatus = 'refunded';
-        await contract.save();
-      }
-
       // Update job status - return to previous status or cancel if appropriate
       if (job) {
         if (request.previousJobStatus && ['open', 'pending_approval'].includes(request.previousJobStatus)) {
@@ -1231,7 +1235,7 @@ router.post(
       });
     } catch (error: any) {
       console.error("Error approving cancellation request:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
@@ -1288,14 +1292,21 @@ router.post(
       const requester = request.requester as any;
       const otherParty = request.otherParty as any;
 
+      // Restore the previous contract status before closing the request, so an
+      // illegal restore leaves the request pending
+      if (request.previousContractStatus && contract && contract.status !== request.previousContractStatus) {
+        await transitionContract(contract, 'admin_override', {
+          actorId: req.user.id.toString(),
+          actorRole: 'admin',
+          to: request.previousContractStatus as ContractStatus,
+          reason: resolutionNote,
+          metadata: { cancellationRequestId: request.id, cancellationRejected: true },
+        });
+      }
+
       // Reject the request
       await request.reject(req.user.id, resolutionNote);
 
-      // Restore previous statuses
-      if (request.previousContractStatus && contract) {
-        await contract.update({ status: request.previousContractStatus });
-      }
-
       if (request.previousJobStatus && job) {
         job.status = request.previousJobStatus;
         job.pausedReason = null;
@@ -1358,7 +1369,7 @@ router.post(
       });
     } catch (error: any) {
       console.error("Error rejecting cancellation request:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
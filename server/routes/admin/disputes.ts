@@ -7,11 +7,22 @@ import { Payment } from "../../models/sql/Payment.model.js";
 import { body, validationResult } from "express-validator";
 import { logAudit } from "../../utils/auditLog.js";
 import emailService from "../../services/email.js";
-import mercadopagoService from "../../services/mercadopago.js";
 import { Op } from 'sequelize';
+import { ContractTransitionError } from "../../services/contractLifecycle.js";
+import disputeWorkflow from "../../services/disputeWorkflow.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
 
 const router = Router();
 
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse || error instanceof ContractTransitionError) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
 /**
  * Get all disputes (Admin only)
  * GET /api/admin/disputes
@@ -74,6 +85,50 @@ router.get(
   }
 );
 
+/**
+ * Get dispute workflow config (deadlines and timeout actions per phase)
+ * GET /api/admin/disputes/workflow/config
+ */
+router.get(
+  "/workflow/config",
+  protect,
+  authorize("owner", "super_admin", "moderator", "support"),
+  async (_req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      res.json({ success: true, data: await disputeWorkflow.getConfig() });
+    } catch (error: any) {
+      sendError(res, error, "Error al obtener la configuración del workflow");
+    }
+  }
+);
+
+/**
+ * Update dispute workflow config
+ * PUT /api/admin/disputes/workflow/config
+ */
+router.put(
+  "/workflow/config",
+  protect,
+  authorize("owner", "super_admin"),
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const before = await disputeWorkflow.getConfig();
+      const config = await disputeWorkflow.updateConfig(req.body || {});
+
+      void logAudit({
+        req, action: 'dispute.workflow_config', category: 'system', severity: 'medium',
+        description: 'Actualizó los plazos del workflow de disputas',
+        targetModel: 'ModuleConfig', targetIdentifier: 'dispute:workflow',
+        changes: [{ field: 'config', oldValue: before, newValue: config }],
+      });
+
+      res.json({ success: true, data: config });
+    } catch (error: any) {
+      sendError(res, error, "Error al actualizar la configuración del workflow");
+    }
+  }
+);
+
 /**
  * Get dispute by ID (Admin only)
  * GET /api/admin/disputes/:id
@@ -107,7 +162,7 @@ router.get(
 
       res.json({
         success: true,
-        data: dispute,
+        data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) },
       });
     } catch (error: any) {
       res.status(500).json({
@@ -267,192 +322,112 @@ router.post(
       const { id } = req.params;
       const { resolution, resolutionType, refundAmount } = req.body;
 
-      const dispute = await Dispute.findByPk(id, {
-        include: [
-          { model: Contract, as: "contract" },
-          { model: Payment, as: "payment" },
-        ],
+      const dispute = await disputeWorkflow.resolve(id, {
+        resolutionType,
+        resolution,
+        refundAmount,
+        actorId: req.user.id.toString(),
+        actorRole: "admin",
+        outcome: "resolved",
       });
 
-      if (!dispute) {
-        res.status(404).json({
-          success: false,
-          message: "Disputa no encontrada",
-        });
-        return;
-      }
+      void logAudit({
+        req, action: 'dispute.resolve', category: 'payment', severity: 'high',
+        description: `Resolvió la disputa ${dispute.id} (${resolutionType})${refundAmount ? ` · reembolso $${Number(refundAmount).toLocaleString('es-AR')}` : ''}`,
+        targetModel: 'Dispute', targetId: dispute.id,
+        metadata: { resolutionType, refundAmount: refundAmount || null, resolution },
+      });
 
-      const contract = await Contract.findByPk(dispute.contractId);
-      const payment = dispute.paymentId ? await Payment.findByPk(dispute.paymentId) : null;
+      res.json({
+        success: true,
+        message: "Disputa resuelta correctamente",
+        data: dispute,
+      });
+    } catch (error: any) {
+      sendError(res, error, "Error resolving dispute");
+    }
+  }
+);
 
-      if (!contract) {
-        res.status(404).json({
-          success: false,
-          message: "Contrato no encontrado",
-        });
+/**
+ * Propose a settlement to both parties (mediator)
+ * POST /api/admin/disputes/:id/workflow/offers
+ */
+router.post(
+  "/:id/workflow/offers",
+  protect,
+  authorize("owner", "super_admin", "moderator"),
+  [
+    body("resolutionType")
+      .isIn(["full_release", "full_refund", "partial_refund", "no_action"])
+      .withMessage("Tipo de resolución inválido"),
+    body("refundAmount").optional({ values: "null" }).isFloat({ gt: 0 }).withMessage("Monto de reembolso inválido"),
+    body("note").optional().isString().isLength({ max: 1000 }),
+  ],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
         return;
       }
 
-      // Update dispute
-      const disputeUpdateData: any = {
-        resolution,
+      const { resolutionType, refundAmount, note } = req.body;
+      const dispute = await disputeWorkflow.proposeSettlement(req.params.id, req.user.id.toString(), {
         resolutionType,
-        resolvedAt: new Date(),
-        resolvedBy: req.user.id,
-        refundAmount,
-        platformFeeRefunded: false, // Nunca se devuelve la comisión
-      };
-
-      // Process resolution
-      switch (resolutionType) {
-        case "full_release":
-          // Release payment to doer - restore to completed status (was disputed)
-          await contract.update({
-            status: "completed",
-            paymentStatus: "released",
-            escrowStatus: "released",
-            disputeStatus: "resolved",
-            clientConfirmed: true,
-            doerConfirmed: true,
-          });
-          if (payment) {
-            await payment.update({
-              status: "completed",
-              escrowReleasedAt: new Date(),
-            });
-
-            // Release escrow - MercadoPago handles this automatically
-            if (payment.mercadopagoPaymentId) {
-              console.log(`✅ Escrow released for payment: ${payment.mercadopagoPaymentId}`);
-            }
-          }
-
-          disputeUpdateData.status = "resolved_released";
-          break;
-
-        case "full_refund":
-          // Refund to client (minus platform fee)
-          await contract.update({
-            status: "cancelled",
-            paymentStatus: "refunded",
-            escrowStatus: "refunded",
-            disputeStatus: "resolved",
-          });
-          if (payment) {
-            await payment.update({
-              status: "refunded",
-              refundedAt: new Date(),
-            });
-
-            // Refund via MercadoPago (minus platform fee)
-            if (payment.mercadopagoPaymentId) {
-              try {
-                const refundAmountARS = payment.amountArs || 0;
-                const commission = (payment as any).commission || 0;
-                const refundableAmount = refundAmountARS - commission; // Don't refund commission
-
-                await mercadopagoService.refundPayment(
-                  payment.mercadopagoPaymentId,
-                  'mercadopago',
-                  refundableAmount
-                );
-              } catch (error) {
-                console.error("Error processing refund:", error);
-              }
-            }
-          }
-
-          disputeUpdateData.status = "resolved_refunded";
-          break;
-
-        case "partial_refund":
-          // Partial refund to client
-          await contract.update({
-            status: "completed",
-            paymentStatus: "partially_refunded",
-            escrowStatus: "released", // Escrow se libera (parcialmente al doer, parcialmente reembolsado)
-            disputeStatus: "resolved",
-          });
-          if (payment) {
-            await payment.update({
-              status: "partially_refunded",
-              refundedAt: new Date(),
-            });
-
-            // Partial refund via MercadoPago
-            if (payment.mercadopagoPaymentId && refundAmount) {
-              try {
-                await mercadopagoService.refundPayment(payment.mercadopagoPaymentId, 'mercadopago', refundAmount);
-              } catch (error) {
-                console.error("Error processing partial refund:", error);
-              }
-            }
-          }
-
-          disputeUpdateData.status = "resolved_partial";
-          break;
-
-        case "no_action":
-          // No changes to payment, but clear dispute status
-          await contract.update({
-            disputeStatus: "resolved",
-          });
-          disputeUpdateData.status = "resolved_released";
-          break;
-      }
-
-      // Add log entry
-      const currentLogs = dispute.logs || [];
-      const newLog = {
-        action: `Disputa resuelta`,
-        performedBy: req.user.id,
-        timestamp: new Date(),
-        details: `Tipo: ${resolutionType}`,
-      };
-
-      disputeUpdateData.logs = [...currentLogs, newLog];
-      await dispute.update(disputeUpdateData);
+        refundAmount: refundAmount != null ? Number(refundAmount) : null,
+        note,
+      });
 
       void logAudit({
-        req, action: 'dispute.resolve', category: 'payment', severity: 'high',
-        description: `Resolvió la disputa ${dispute.id} (${resolutionType})${refundAmount ? ` · reembolso $${Number(refundAmount).toLocaleString('es-AR')}` : ''}`,
+        req, action: 'dispute.settlement_offer', category: 'payment', severity: 'medium',
+        description: `Propuso un acuerdo en la disputa ${dispute.id} (${resolutionType})`,
         targetModel: 'Dispute', targetId: dispute.id,
-        metadata: { resolutionType, refundAmount: refundAmount || null, resolution },
+        metadata: { resolutionType, refundAmount: refundAmount ?? null },
       });
 
-      // Send email notifications
-      const { Job } = await import("../../models/sql/Job.model.js");
-      const job = await Job.findByPk(contract.jobId);
+      res.status(201).json({
+        success: true,
+        data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) },
+      });
+    } catch (error: any) {
+      sendError(res, error, "Error al proponer el acuerdo");
+    }
+  }
+);
+
+/**
+ * Force the dispute into its next workflow phase
+ * POST /api/admin/disputes/:id/workflow/advance
+ */
+router.post(
+  "/:id/workflow/advance",
+  protect,
+  authorize("owner", "super_admin", "moderator"),
+  [body("reason").trim().notEmpty().withMessage("El motivo es requerido")],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
 
-      await emailService.sendDisputeResolvedEmail(contract.clientId, dispute.id.toString(), resolution, 0);
-      await emailService.sendDisputeResolvedEmail(contract.doerId, dispute.id.toString(), resolution, 0);
+      const dispute = await disputeWorkflow.forceAdvance(req.params.id, req.user.id.toString(), req.body.reason);
 
-      // Emit socket event to notify contract update
-      const { getIO } = await import("../../services/socket.js");
-      await contract.reload({
-        include: [
-          { model: User, as: "client", attributes: ["id", "name", "email"] },
-          { model: User, as: "doer", attributes: ["id", "name", "email"] },
-          { model: Job, as: "job", attributes: ["id", "title"] },
-        ],
-      });
-      getIO()?.to(`user:${contract.clientId}`).to(`user:${contract.doerId}`).emit('contract:updated', {
-        contract: contract.toJSON(),
-        action: "dispute_resolved",
-        resolutionType,
+      void logAudit({
+        req, action: 'dispute.advance_phase', category: 'contract', severity: 'medium',
+        description: `Avanzó la disputa ${dispute.id} a la fase ${dispute.workflowPhase}`,
+        targetModel: 'Dispute', targetId: dispute.id,
+        metadata: { phase: dispute.workflowPhase, reason: req.body.reason },
       });
 
       res.json({
         success: true,
-        message: "Disputa resuelta correctamente",
-        data: dispute,
+        data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) },
       });
     } catch (error: any) {
-      console.error("Error resolving dispute:", error);
-      res.status(500).json({
-        success: false,
-        message: error.message || "Error del servidor",
-      });
+      sendError(res, error, "Error al avanzar la fase de la disputa");
     }
   }
 );
@@ -791,6 +766,12 @@ router.post(
         ],
       });
 
+      try {
+        await disputeWorkflow.start(dispute, req.user.id.toString());
+      } catch (error) {
+        console.error(`Error starting workflow for dispute ${dispute.id}:`, error);
+      }
+
       await dispute.reload({
         include: [
           { model: User, as: "initiator", attributes: ["name", "email", "avatar"] },
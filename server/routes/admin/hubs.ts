@@ -187,6 +187,7 @@ router.get('/structure', (_req: AuthRequest, res: Response): void => {
           { path: '/admin/withdrawals', label: 'Withdrawals', icon: 'Send' },
           { path: '/admin/company-balance', label: 'Company Balance', icon: 'TrendingUp' },
           { path: '/admin/financial-transactions', label: 'Transactions', icon: 'Activity' },
+          { path: '/admin/webhook-events', label: 'Payment Webhooks', icon: 'Webhook' },
         ],
       },
       {
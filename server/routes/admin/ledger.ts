@@ -0,0 +1,141 @@
+import express, { Response } from "express";
+import { protect, AuthRequest } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/permissions.js";
+import { User } from "../../models/sql/User.model.js";
+import ledger, { LedgerError } from "../../services/ledger.js";
+import { logAudit } from "../../utils/auditLog.js";
+import { isValidUUID } from "../../utils/sanitizer.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+import { formatMoney, fromDecimal, toCurrency } from "../../services/money.js";
+
+const router = express.Router();
+
+router.use(protect, requireRole('admin', 'super_admin', 'owner'));
+
+/**
+ * Reconcile user balances against the ledger
+ * GET /api/admin/ledger/reconciliation
+ *
+ * Compara el saldo de cada moneda (balanceArs/balanceUsd/balanceUsdt) con
+ * la suma de la billetera correspondiente en el ledger, lista los usuarios
+ * con diferencias y el saldo de las cuentas de sistema.
+ */
+router.get("/reconciliation", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(500, Math.max(1, Number(req.query.limit) || 100));
+    const report = await ledger.reconcile({ limit });
+
+    res.status(200).json({
+      success: true,
+      reconciled: report.walletsInDrift === 0 && report.unbalancedEntries.length === 0,
+      report,
+    });
+  } catch (error: any) {
+    console.error("Error reconciling ledger:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al conciliar el ledger"
+    });
+  }
+});
+
+/**
+ * Movements of a ledger account
+ * GET /api/admin/ledger/accounts/:code/lines
+ */
+router.get("/accounts/:code/lines", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(200, Math.max(1, Number(req.query.limit) || 50));
+    const offset = Math.max(0, Number(req.query.offset) || 0);
+    const { account, lines, total } = await ledger.getAccountLines(req.params.code, { limit, offset });
+
+    res.status(200).json({ success: true, account, lines, total });
+  } catch (error: any) {
+    if (error instanceof LedgerError) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error fetching ledger account lines:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al obtener los movimientos"
+    });
+  }
+});
+
+/**
+ * Bonus or manual adjustment on a user wallet
+ * POST /api/admin/ledger/adjustments
+ * Body: { userId, amount, currency?, type: 'bonus' | 'adjustment', reason }
+ */
+router.post("/adjustments", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { userId, type = 'adjustment', reason } = req.body;
+    const amount = Number(req.body.amount);
+    const currency = toCurrency(req.body.currency);
+
+    if (!isValidUUID(userId)) {
+      res.status(400).json({ success: false, message: "ID de usuario inválido" });
+      return;
+    }
+    if (!Number.isFinite(amount) || amount === 0 || (type === 'bonus' && amount < 0)) {
+      res.status(400).json({ success: false, message: "Monto inválido" });
+      return;
+    }
+    if (!['bonus', 'adjustment'].includes(type)) {
+      res.status(400).json({ success: false, message: "Tipo de movimiento inválido" });
+      return;
+    }
+    if (!reason || !String(reason).trim()) {
+      res.status(400).json({ success: false, message: "El motivo es obligatorio" });
+      return;
+    }
+
+    const user = await User.findByPk(userId, { attributes: ['id', 'name'] });
+    if (!user) {
+      res.status(404).json({ success: false, message: "Usuario no encontrado" });
+      return;
+    }
+
+    const description = String(reason).trim();
+    const input = {
+      description,
+      currency,
+      createdBy: req.user.id,
+      history: {
+        type: type as 'bonus' | 'adjustment',
+        description: type === 'bonus' ? `Bonificación: ${description}` : `Ajuste: ${description}`,
+        metadata: { adminId: req.user.id },
+      },
+    };
+    const result = type === 'bonus'
+      ? await ledger.grantBonus(user.id, amount, input)
+      : await ledger.adjustWallet(user.id, amount, input);
+
+    void logAudit({
+      req, action: `ledger.${type}`, category: 'payment', severity: 'high',
+      description: `${type === 'bonus' ? 'Bonificó' : 'Ajustó'} la billetera de ${user.name} por ${formatMoney(fromDecimal(amount, currency))}: ${description}`,
+      targetModel: 'User', targetId: user.id,
+      metadata: { amount, currency, ledgerEntryId: result.entry.id, newBalance: result.balances[user.id] },
+    });
+
+    res.status(201).json({
+      success: true,
+      entry: result.entry,
+      currency,
+      newBalance: result.balances[user.id],
+    });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error posting ledger adjustment:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al registrar el ajuste"
+    });
+  }
+});
+
+export default router;
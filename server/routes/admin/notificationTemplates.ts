@@ -0,0 +1,52 @@
+import express, { Response } from "express";
+import { protect, AuthRequest } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/permissions.js";
+import messageTemplates from "../../services/messageTemplates.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+
+const router = express.Router();
+
+router.use(protect);
+router.use(requireRole('admin', 'super_admin', 'owner', 'support'));
+
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
+/**
+ * Message templates (email, push and in-app) with their sample data
+ * GET /api/admin/notification-templates
+ */
+router.get("/", async (_req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    res.status(200).json({ success: true, data: messageTemplates.list() });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener las plantillas");
+  }
+});
+
+/**
+ * Render a template with its sample data or custom variables
+ * POST /api/admin/notification-templates/:id/preview
+ * Body: { locale?: 'es' | 'en', vars? }
+ * Query: format=html returns only the email HTML
+ */
+router.post("/:id/preview", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const message = messageTemplates.preview(req.params.id as string, req.body?.locale, req.body?.vars);
+    if (req.query.format === 'html') {
+      res.status(200).type('html').send(message.html);
+      return;
+    }
+    res.status(200).json({ success: true, data: message });
+  } catch (error: any) {
+    sendError(res, error, "Error al renderizar la plantilla");
+  }
+});
+
+export default router;
@@ -12,6 +12,10 @@ import { Op } from 'sequelize';
 import { isValidUUID } from "../../utils/sanitizer.js";
 import { logAudit } from "../../utils/auditLog.js";
 import { generateClientPaymentInvoice } from "../../services/invoiceService.js";
+import ledger from "../../services/ledger.js";
+import milestoneEscrow from "../../services/milestoneEscrow.js";
+import { transitionContract, ContractTransitionError } from "../../services/contractLifecycle.js";
+import { sequelize } from "../../config/database.js";
 import multer from "multer";
 import path from "path";
 import fs from "fs";
@@ -737,7 +741,10 @@ router.post("/:paymentId/approve", protect, requireRole('admin', 'super_admin',
     if (notes) {
       payment.adminNotes = notes;
     }
-    await payment.save();
+    await sequelize.transaction(async (transaction) => {
+      await payment.save({ transaction });
+      await ledger.recordPaymentCapture(payment, { createdBy: adminId, transaction });
+    });
 
     void logAudit({
       req, action: 'payment.approve', category: 'payment', severity: 'high',
@@ -1141,6 +1148,7 @@ router.post("/:paymentId/verify-escrow", protect, requireRole('admin', 'super_ad
       targetModel: 'Payment', targetId: paymentId,
     });
     await payment.save();
+    await milestoneEscrow.markFunded(payment);
 
     console.log(`✅ [ADMIN VERIFY-ESCROW] Payment ${paymentId} moved to held_escrow`);
 
@@ -1165,19 +1173,22 @@ router.post("/:paymentId/verify-escrow", protect, requireRole('admin', 'super_ad
       if (contract.clientConfirmed && contract.doerConfirmed) {
         // Both confirmed - ready for worker payout
         contract.paymentStatus = 'pending_payout';
-      } else if (contract.status === 'completed' || contract.status === 'awaiting_confirmation') {
-        // Contract completed but waiting for confirmations
+        await contract.save();
+      } else if (contract.status === 'pending' || contract.status === 'ready' || contract.status === 'accepted') {
+        // Contract not yet started - set to escrow and start it
         contract.paymentStatus = 'escrow';
+        await transitionContract(contract, 'start', {
+          actorId: adminId,
+          actorRole: 'admin',
+          reason: 'Pago verificado en escrow',
+          metadata: { paymentId },
+        });
       } else {
-        // Contract not yet started - set to escrow and allow to start
+        // Contract already running or waiting for confirmations
         contract.paymentStatus = 'escrow';
-        if (contract.status === 'pending' || contract.status === 'ready' || contract.status === 'accepted') {
-          contract.status = 'in_progress';
-        }
+        await contract.save();
       }
 
-      await contract.save();
-
       console.log(`✅ [ADMIN VERIFY-ESCROW] Contract ${contract.id}: escrowStatus=${contract.escrowStatus}, paymentStatus=${contract.paymentStatus}, status=${contract.status}`);
 
       // Determine notification message based on contract state
@@ -1227,7 +1238,7 @@ router.post("/:paymentId/verify-escrow", protect, requireRole('admin', 'super_ad
     });
   } catch (error: any) {
     console.error("Verify escrow error:", error);
-    res.status(500).json({ success: false, message: error.message || "Error verificando escrow" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error verificando escrow" });
   }
 });
 
@@ -14,6 +14,7 @@ import { Notification } from "../../models/sql/Notification.model.js";
 import { Op } from 'sequelize';
 import { isValidUUID } from "../../utils/sanitizer.js";
 import { generateWorkerPaymentInvoice } from "../../services/invoiceService.js";
+import ledger from "../../services/ledger.js";
 
 const router = express.Router();
 
@@ -878,14 +879,17 @@ router.post("/:contractId/mark-paid", protect, requireRole('admin', 'super_admin
       metadata: { netAmount, paymentMethod: paymentMethod || null, deductions: deductions || null, doerId: doer?.id || null },
     });
 
-    // Update worker's balance with the payment
+    // Transferencia bancaria: sale de "pendiente de pago", la comisión queda como ingreso
+    await ledger.settleContractPayout(
+      contract,
+      { commission: Number(commission) || 0, netAmount: netBeforeDeductions },
+      { createdBy: adminId, metadata: { deductions: deductions || null, finalAmountPaid, paymentMethod: paymentMethod || null } }
+    );
+
+    // Historial del pago para el trabajador (no mueve su saldo: se transfiere al banco)
     if (doer) {
       const currentBalance = parseFloat(doer.balance || 0);
       const newBalance = currentBalance + netAmount;
-      await User.update(
-        { balance: newBalance, availableBalance: newBalance },
-        { where: { id: doer.id } }
-      );
 
       // Update or create the balance transaction as completed
       const BalanceTransaction = (await import('../../models/sql/BalanceTransaction.model.js')).default;
@@ -0,0 +1,118 @@
+import express, { Response } from "express";
+import { protect, AuthRequest } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/permissions.js";
+import jobScheduler from "../../services/jobScheduler.js";
+import type { JobRunStatus } from "../../services/jobSchedulerRules.js";
+import { logAudit } from "../../utils/auditLog.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+
+const router = express.Router();
+
+router.use(protect, requireRole('admin', 'super_admin', 'owner'));
+
+const RUN_STATUSES: JobRunStatus[] = ['running', 'succeeded', 'failed'];
+
+/**
+ * Scheduled jobs with their next run, lock and last run
+ * GET /api/admin/scheduled-jobs
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const jobs = await jobScheduler.listJobs();
+    res.status(200).json({ success: true, data: { jobs, instanceId: jobScheduler.instanceId } });
+  } catch (error: any) {
+    console.error("Error fetching scheduled jobs:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al obtener los jobs programados"
+    });
+  }
+});
+
+/**
+ * Job run history
+ * GET /api/admin/scheduled-jobs/runs?job=&status=&page=&limit=
+ */
+router.get("/runs", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await jobScheduler.listRuns({
+      jobName: typeof req.query.job === 'string' && req.query.job ? req.query.job : undefined,
+      status: RUN_STATUSES.find(s => s === req.query.status),
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 50,
+    });
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error fetching job runs:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al obtener las ejecuciones"
+    });
+  }
+});
+
+/**
+ * Run a job now (does not change its schedule)
+ * POST /api/admin/scheduled-jobs/:name/run
+ */
+router.post("/:name/run", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const run = await jobScheduler.runNow(req.params.name, req.user.id);
+
+    void logAudit({
+      req, action: 'scheduled_job.run', category: 'system', severity: 'medium',
+      description: `Ejecutó manualmente el job ${req.params.name}`,
+      targetModel: 'JobRun', targetId: run.id,
+      metadata: { jobName: req.params.name },
+    });
+
+    res.status(202).json({ success: true, data: run });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error running scheduled job:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al ejecutar el job"
+    });
+  }
+});
+
+/**
+ * Pause or resume a job
+ * PATCH /api/admin/scheduled-jobs/:name
+ * Body: { enabled: boolean }
+ */
+router.patch("/:name", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (typeof req.body?.enabled !== 'boolean') {
+      res.status(400).json({ success: false, message: "El campo enabled es obligatorio" });
+      return;
+    }
+
+    const job = await jobScheduler.setEnabled(req.params.name, req.body.enabled);
+
+    void logAudit({
+      req, action: job.enabled ? 'scheduled_job.resume' : 'scheduled_job.pause', category: 'system', severity: 'high',
+      description: `${job.enabled ? 'Reanudó' : 'Pausó'} el job ${job.name}`,
+      targetModel: 'ScheduledJob', targetIdentifier: job.name,
+    });
+
+    res.status(200).json({ success: true, data: job });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error updating scheduled job:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al actualizar el job"
+    });
+  }
+});
+
+export default router;
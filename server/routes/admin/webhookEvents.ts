@@ -0,0 +1,154 @@
+import express, { Response } from "express";
+import { protect, AuthRequest } from "../../middleware/auth.js";
+import { requireRole } from "../../middleware/permissions.js";
+import { config } from "../../config/env.js";
+import webhookInbox from "../../services/webhookInbox.js";
+import type { WebhookProvider, WebhookEventStatus } from "../../services/webhookInboxRules.js";
+import { logAudit } from "../../utils/auditLog.js";
+import { isValidUUID } from "../../utils/sanitizer.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
+
+const router = express.Router();
+
+router.use(protect, requireRole('admin', 'super_admin', 'owner'));
+
+const PROVIDERS: WebhookProvider[] = ['mercadopago', 'astropay', 'paypal'];
+const STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'processed', 'failed', 'dead', 'rejected'];
+
+/**
+ * List webhook inbox events
+ * GET /api/admin/webhook-events?provider=&status=&search=&page=&limit=
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const provider = PROVIDERS.find(p => p === req.query.provider);
+    const status = STATUSES.find(s => s === req.query.status);
+    const search = typeof req.query.search === 'string' ? req.query.search.trim() : undefined;
+
+    const result = await webhookInbox.list({
+      provider,
+      status,
+      search: search || undefined,
+      page: Number(req.query.page) || 1,
+      limit: Number(req.query.limit) || 50,
+    });
+
+    res.status(200).json({ success: true, data: result });
+  } catch (error: any) {
+    console.error("Error fetching webhook events:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al obtener los webhooks"
+    });
+  }
+});
+
+/**
+ * Webhook event detail (payload and stored headers included)
+ * GET /api/admin/webhook-events/:id
+ */
+router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!isValidUUID(req.params.id)) {
+      res.status(400).json({ success: false, message: "ID inválido" });
+      return;
+    }
+
+    const event = await webhookInbox.get(req.params.id);
+    if (!event) {
+      res.status(404).json({ success: false, message: "Evento no encontrado" });
+      return;
+    }
+
+    res.status(200).json({ success: true, data: event });
+  } catch (error: any) {
+    console.error("Error fetching webhook event:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al obtener el webhook"
+    });
+  }
+});
+
+/**
+ * Manually replay a webhook event
+ * POST /api/admin/webhook-events/:id/replay
+ */
+router.post("/:id/replay", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (!isValidUUID(req.params.id)) {
+      res.status(400).json({ success: false, message: "ID inválido" });
+      return;
+    }
+
+    const event = await webhookInbox.replay(req.params.id, req.user.id);
+
+    void logAudit({
+      req, action: 'webhook.replay', category: 'payment', severity: 'high',
+      description: `Reprocesó el webhook ${event.provider} ${event.eventType} (${event.externalEventId}): ${event.status}`,
+      targetModel: 'WebhookEvent', targetId: event.id,
+      metadata: { status: event.status, attempts: event.attempts, lastError: event.lastError },
+    });
+
+    res.status(200).json({ success: true, data: event });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error replaying webhook event:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al reprocesar el webhook"
+    });
+  }
+});
+
+/**
+ * Import a recorded webhook fixture and process it (not available in production)
+ * POST /api/admin/webhook-events/import
+ * Body: { provider, payload, headers? } — el formato que descarga el panel
+ *
+ * Permite reproducir localmente flujos de pago con notificaciones reales. La
+ * firma no se verifica; si el evento ya existe se reprocesa.
+ */
+router.post("/import", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (config.isProduction) {
+      res.status(403).json({ success: false, message: "No disponible en producción" });
+      return;
+    }
+
+    const provider = PROVIDERS.find(p => p === req.body?.provider);
+    const payload = req.body?.payload;
+    if (!provider || !payload || typeof payload !== 'object') {
+      res.status(400).json({ success: false, message: "Fixture inválido: se requiere provider y payload" });
+      return;
+    }
+
+    const { event, duplicate } = await webhookInbox.receive({
+      provider,
+      payload,
+      headers: req.body.headers || {},
+      signatureStatus: 'skipped',
+      ip: req.ip,
+    });
+    const result = duplicate
+      ? await webhookInbox.replay(event.id, req.user.id)
+      : (await webhookInbox.process(event.id)) || event;
+
+    res.status(201).json({ success: true, duplicate, data: result });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error("Error importing webhook fixture:", error);
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error al importar el fixture"
+    });
+  }
+});
+
+export default router;
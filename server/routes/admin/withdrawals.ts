@@ -3,15 +3,35 @@ import { protect, AuthRequest } from "../../middleware/auth.js";
 import { requireRole } from "../../middleware/permissions.js";
 import { WithdrawalRequest } from "../../models/sql/WithdrawalRequest.model.js";
 import { User } from "../../models/sql/User.model.js";
-import { BalanceTransaction } from "../../models/sql/BalanceTransaction.model.js";
+import ledger, { LedgerError } from "../../services/ledger.js";
 import emailService from "../../services/email.js";
 import fcmService from "../../services/fcm.js";
 import { Op } from 'sequelize';
 import { generateWithdrawalReceipt } from "../../services/invoiceService.js";
 import { logAudit } from "../../utils/auditLog.js";
+import payoutBatches from "../../services/payoutBatches.js";
+import { PAYOUT_FILE_FORMATS, type PayoutFileFormat } from "../../services/payoutBatchRules.js";
+import { ErrorResponse } from "../../middleware/errorHandler.js";
 
 const router = express.Router();
 
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error?.message || fallback });
+};
+
+// Los retiros de un lote se pagan y concilian desde el lote
+const inBatchResponse = (res: Response, withdrawal: WithdrawalRequest) =>
+  res.status(409).json({
+    success: false,
+    message: "Este retiro pertenece a un lote de pago; gestionalo desde el lote",
+    payoutBatchId: withdrawal.payoutBatchId,
+  });
+
 /**
  * Get all withdrawal requests (admin)
  * GET /api/admin/withdrawals
@@ -72,6 +92,185 @@ router.get("/", protect, requireRole('admin', 'super_admin', 'owner'), async (re
   }
 });
 
+// ============================================
+// PAYOUT BATCHES
+// ============================================
+
+/**
+ * List payout batches
+ * GET /api/admin/withdrawals/batches
+ */
+router.get("/batches", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { limit = 20, offset = 0, status } = req.query;
+    const { rows: batches, count } = await payoutBatches.list({
+      status: typeof status === 'string' ? status : undefined,
+      limit: Math.min(Number(limit) || 20, 100),
+      offset: Number(offset) || 0,
+    });
+    const available = await WithdrawalRequest.count({ where: { status: 'approved', payoutBatchId: null } });
+
+    res.status(200).json({ success: true, batches, total: count, availableApproved: available });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener lotes de pago");
+  }
+});
+
+/**
+ * Create a payout batch with approved withdrawals
+ * POST /api/admin/withdrawals/batches
+ * Body: { withdrawalIds?: string[], notes?: string }
+ */
+router.post("/batches", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { withdrawalIds, notes } = req.body;
+    if (withdrawalIds !== undefined && (!Array.isArray(withdrawalIds) || withdrawalIds.some((id) => typeof id !== 'string'))) {
+      res.status(400).json({ success: false, message: "withdrawalIds debe ser una lista de IDs" });
+      return;
+    }
+
+    const batch = await payoutBatches.create(req.user.id, { withdrawalIds, notes });
+
+    void logAudit({
+      req, action: 'withdrawal.batch_create', category: 'payment', severity: 'high',
+      description: `Creó el lote de pago ${batch.reference} con ${batch.itemCount} retiros por $${Number(batch.totalAmount).toLocaleString('es-AR')}`,
+      targetModel: 'PayoutBatch', targetId: batch.id,
+      metadata: { itemCount: batch.itemCount, totalAmount: Number(batch.totalAmount) },
+    });
+
+    res.status(201).json({ success: true, batch });
+  } catch (error: any) {
+    sendError(res, error, "Error al crear el lote de pago");
+  }
+});
+
+/**
+ * Get a payout batch with its withdrawals
+ * GET /api/admin/withdrawals/batches/:id
+ */
+router.get("/batches/:id", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const batch = await payoutBatches.get(req.params.id as string);
+    res.status(200).json({ success: true, batch });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener el lote de pago");
+  }
+});
+
+/**
+ * Export a batch: reserve each balance and mark the withdrawals as processing
+ * POST /api/admin/withdrawals/batches/:id/export
+ */
+router.post("/batches/:id/export", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { batch, skipped } = await payoutBatches.exportBatch(req.params.id as string, req.user.id);
+
+    void logAudit({
+      req, action: 'withdrawal.batch_export', category: 'payment', severity: 'critical',
+      description: `Exportó el lote de pago ${batch.reference}: ${batch.itemCount} retiros por $${Number(batch.totalAmount).toLocaleString('es-AR')} en proceso${skipped.length ? `, ${skipped.length} excluidos` : ''}`,
+      targetModel: 'PayoutBatch', targetId: batch.id,
+      metadata: { itemCount: batch.itemCount, totalAmount: Number(batch.totalAmount), skipped },
+    });
+
+    res.status(200).json({
+      success: true,
+      message: skipped.length
+        ? `Lote exportado. ${skipped.length} retiro(s) quedaron fuera del lote.`
+        : "Lote exportado. Descargá el archivo para el banco.",
+      batch,
+      skipped,
+    });
+  } catch (error: any) {
+    sendError(res, error, "Error al exportar el lote de pago");
+  }
+});
+
+/**
+ * Download the bank transfer file (contains decrypted CBUs)
+ * GET /api/admin/withdrawals/batches/:id/file?format=csv|fixed_width
+ */
+router.get("/batches/:id/file", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const format = (typeof req.query.format === 'string' ? req.query.format : 'csv') as PayoutFileFormat;
+    if (!PAYOUT_FILE_FORMATS.includes(format)) {
+      res.status(400).json({ success: false, message: `Formato inválido. Opciones: ${PAYOUT_FILE_FORMATS.join(', ')}` });
+      return;
+    }
+
+    const file = await payoutBatches.buildFile(req.params.id as string, format);
+
+    void logAudit({
+      req, action: 'withdrawal.batch_file', category: 'payment', severity: 'high',
+      description: `Descargó el archivo bancario ${file.fileName} (${file.itemCount} transferencias, datos bancarios completos)`,
+      targetModel: 'PayoutBatch', targetId: req.params.id as string,
+      metadata: { format, checksum: file.checksum, itemCount: file.itemCount },
+    });
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
+    res.setHeader('X-Checksum-SHA256', file.checksum);
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).send(file.content);
+  } catch (error: any) {
+    sendError(res, error, "Error al generar el archivo bancario");
+  }
+});
+
+/**
+ * Import the bank result file
+ * POST /api/admin/withdrawals/batches/:id/results
+ * Body: { content: string, fileName?: string }
+ */
+router.post("/batches/:id/results", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { content, fileName } = req.body;
+    if (typeof content !== 'string' || !content.trim()) {
+      res.status(400).json({ success: false, message: "Adjuntá el archivo de resultados del banco" });
+      return;
+    }
+
+    const summary = await payoutBatches.importResults(req.params.id as string, req.user.id, content, fileName);
+
+    void logAudit({
+      req, action: 'withdrawal.batch_results', category: 'payment', severity: 'critical',
+      description: `Importó resultados del lote ${summary.batch.reference}: ${summary.completed.length} completados, ${summary.failed.length} fallidos (saldo devuelto)`,
+      targetModel: 'PayoutBatch', targetId: summary.batch.id,
+      metadata: {
+        fileName: fileName || null,
+        completed: summary.completed,
+        failed: summary.failed,
+        alreadySettled: summary.alreadySettled.length,
+        unmatched: summary.unmatched.map((row) => row.reference),
+        errors: summary.errors.length + summary.conflicts.length,
+      },
+    });
+
+    res.status(200).json({ success: true, ...summary });
+  } catch (error: any) {
+    sendError(res, error, "Error al importar los resultados del banco");
+  }
+});
+
+/**
+ * Cancel a batch that was not exported yet
+ * POST /api/admin/withdrawals/batches/:id/cancel
+ */
+router.post("/batches/:id/cancel", protect, requireRole('admin', 'super_admin', 'owner'), async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const batch = await payoutBatches.cancel(req.params.id as string);
+
+    void logAudit({
+      req, action: 'withdrawal.batch_cancel', category: 'payment', severity: 'medium',
+      description: `Canceló el lote de pago ${batch.reference}; sus retiros vuelven a estar disponibles`,
+      targetModel: 'PayoutBatch', targetId: batch.id,
+    });
+
+    res.status(200).json({ success: true, batch });
+  } catch (error: any) {
+    sendError(res, error, "Error al cancelar el lote de pago");
+  }
+});
+
 /**
  * Approve withdrawal request
  * POST /api/admin/withdrawals/:id/approve
@@ -164,6 +363,11 @@ router.post("/:id/processing", protect, requireRole('admin', 'super_admin', 'own
       return;
     }
 
+    if (withdrawal.payoutBatchId) {
+      inBatchResponse(res, withdrawal);
+      return;
+    }
+
     await withdrawal.update({
       status: 'processing',
       processedBy: adminId
@@ -216,6 +420,11 @@ router.post("/:id/complete", protect, requireRole('admin', 'super_admin', 'owner
       return;
     }
 
+    if (withdrawal.payoutBatchId) {
+      inBatchResponse(res, withdrawal);
+      return;
+    }
+
     const userId = typeof withdrawal.user === 'object' ? withdrawal.user.id : withdrawal.user;
     const user = await User.findByPk(userId);
     if (!user) {
@@ -223,42 +432,44 @@ router.post("/:id/complete", protect, requireRole('admin', 'super_admin', 'owner
       return;
     }
 
-    // Deduct balance
-    const balanceBefore = parseFloat(user.balanceArs as any) || 0;
-    const newBalance = balanceBefore - withdrawal.amount;
-
-    if (newBalance < 0) {
-      res.status(400).json({
-        success: false,
-        message: "Balance insuficiente para completar el retiro"
+    // Deduct balance (asiento de retiro + historial en la misma transacción)
+    let result;
+    try {
+      result = await ledger.withdraw(user.id, Number(withdrawal.amount), {
+        description: `Retiro ${withdrawal.id} transferido`,
+        idempotencyKey: `withdrawal:${withdrawal.id}`,
+        withdrawalId: withdrawal.id,
+        createdBy: adminId,
+        history: {
+          type: 'withdrawal',
+          description: `Retiro a cuenta bancaria (${withdrawal.bankingInfo.bankName})`,
+          metadata: {
+            withdrawalId: withdrawal.id,
+            bankingInfo: withdrawal.bankingInfo,
+            proofOfTransfer
+          },
+        },
       });
-      return;
+    } catch (error: any) {
+      if (error instanceof LedgerError && error.code === 'INSUFFICIENT_FUNDS') {
+        res.status(400).json({
+          success: false,
+          message: "Balance insuficiente para completar el retiro"
+        });
+        return;
+      }
+      throw error;
     }
 
-    await user.update({ balanceArs: newBalance });
-
-    // Create balance transaction
-    const transaction = await BalanceTransaction.create({
-      user: user.id,
-      type: 'withdrawal',
-      amount: -withdrawal.amount,
-      balanceBefore,
-      balanceAfter: newBalance,
-      description: `Retiro a cuenta bancaria (${withdrawal.bankingInfo.bankName})`,
-      metadata: {
-        withdrawalId: withdrawal.id,
-        bankingInfo: withdrawal.bankingInfo,
-        proofOfTransfer
-      },
-      status: 'completed'
-    });
+    const transaction = result.balanceTransactions[0];
+    const newBalance = result.balances[user.id] ?? (parseFloat(user.balanceArs as any) || 0);
 
     // Update withdrawal
     await withdrawal.update({
       status: 'completed',
       completedAt: new Date(),
       processedBy: adminId,
-      transactionId: transaction.id,
+      transactionId: transaction?.id,
       ...(proofOfTransfer && { proofOfTransfer }),
       ...(adminNotes && { adminNotes })
     });
@@ -267,7 +478,7 @@ router.post("/:id/complete", protect, requireRole('admin', 'super_admin', 'owner
       req, action: 'withdrawal.complete', category: 'payment', severity: 'high',
       description: `Completó el retiro ${withdrawal.id} por $${Number(withdrawal.amount).toLocaleString('es-AR')} (saldo del usuario: $${newBalance.toLocaleString('es-AR')})`,
       targetModel: 'WithdrawalRequest', targetId: withdrawal.id,
-      metadata: { amount: Number(withdrawal.amount) || null, newBalance, transactionId: transaction.id },
+      metadata: { amount: Number(withdrawal.amount) || null, newBalance, transactionId: transaction?.id || null, ledgerEntryId: result.entry.id },
     });
 
     // Send email notification
@@ -337,6 +548,11 @@ router.post("/:id/reject", protect, requireRole('admin', 'super_admin', 'owner')
       return;
     }
 
+    if (withdrawal.payoutBatchId) {
+      inBatchResponse(res, withdrawal);
+      return;
+    }
+
     await withdrawal.update({
       status: 'rejected',
       rejectionReason,
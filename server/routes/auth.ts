@@ -27,6 +27,8 @@ import { uploadAvatar, uploadCover, uploadDniPhotos, uploadLicenseDocument, uplo
 import { sendWhatsAppCode, getWhatsAppStatus } from "../services/whatsapp.js";
 import { isDiditConfigured, createDiditSession, getDiditDecision, verifyDiditWebhook, applyKycStatus, isManualKycUnlocked, KYC_MAX_ATTEMPTS } from "../services/didit.js";
 import twitterOAuth from "../services/twitterOAuth.js";
+import { parseAvailabilitySchedule } from "../services/availabilityRules.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
 
 const router = express.Router();
 
@@ -860,8 +862,19 @@ router.put("/settings", protect, async (req: AuthRequest, res: Response): Promis
     if (dontAskBankingInfo !== undefined) updateData.dontAskBankingInfo = dontAskBankingInfo;
     if (legalInfo) updateData.legalInfo = legalInfo;
     if (interests) updateData.interests = interests;
-    if (notificationPreferences) updateData.notificationPreferences = notificationPreferences;
-    if (availabilitySchedule !== undefined) updateData.availabilitySchedule = availabilitySchedule;
+    if (notificationPreferences) {
+      // Merge: idioma, silencio y modos de entrega se editan en /api/notifications/preferences
+      updateData.notificationPreferences = {
+        ...(oldUser.notificationPreferences || {}),
+        ...notificationPreferences,
+      };
+    }
+    if (availabilitySchedule !== undefined) {
+      // Bloqueos y margen de traslado se editan en /api/availability/me: se conservan si no vienen
+      updateData.availabilitySchedule = availabilitySchedule === null
+        ? null
+        : parseAvailabilitySchedule({ ...(oldUser.availabilitySchedule || {}), ...availabilitySchedule });
+    }
     if (isAvailabilityPublic !== undefined) updateData.isAvailabilityPublic = isAvailabilityPublic;
     if (profession !== undefined) updateData.profession = profession || null;
     if (licenseNumber !== undefined) updateData.licenseNumber = licenseNumber || null;
@@ -926,7 +939,7 @@ router.put("/settings", protect, async (req: AuthRequest, res: Response): Promis
       },
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -0,0 +1,89 @@
+import express, { Response } from "express";
+import { param, validationResult } from "express-validator";
+import { protect } from "../middleware/auth.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import doerAvailability from "../services/doerAvailability.js";
+import { parseFreeBusyRange } from "../services/availabilityRules.js";
+import type { AuthRequest } from "../types/index.js";
+
+const router = express.Router();
+router.use(protect);
+
+const sendError = (res: Response, error: any, fallback: string): void => {
+  res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+    success: false,
+    message: error.message || fallback,
+  });
+};
+
+// @route   GET /api/availability/me
+// @desc    Agenda semanal, bloqueos y estado del calendario externo del usuario
+// @access  Private
+router.get("/me", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await doerAvailability.getSettings(req.user.id);
+    res.json({ success: true, data });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener la disponibilidad");
+  }
+});
+
+// @route   PUT /api/availability/me
+// @desc    Actualizar agenda semanal, excepciones, bloqueos y margen de traslado
+// @access  Private
+router.put("/me", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await doerAvailability.updateSchedule(req.user.id, req.body || {});
+    res.json({ success: true, data });
+  } catch (error: any) {
+    sendError(res, error, "Error al guardar la disponibilidad");
+  }
+});
+
+// @route   PUT /api/availability/me/external-calendar
+// @desc    Conectar ({ url }) o quitar ({ url: null }) un calendario externo .ics
+// @access  Private
+router.put("/me/external-calendar", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await doerAvailability.setExternalCalendar(req.user.id, req.body?.url ?? null);
+    res.json({ success: true, data });
+  } catch (error: any) {
+    sendError(res, error, "Error al guardar el calendario externo");
+  }
+});
+
+// @route   POST /api/availability/me/external-calendar/sync
+// @desc    Sincronizar ahora el calendario externo
+// @access  Private
+router.post("/me/external-calendar/sync", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await doerAvailability.syncNow(req.user.id);
+    res.json({ success: !data.externalCalendar.error, data, message: data.externalCalendar.error || undefined });
+  } catch (error: any) {
+    sendError(res, error, "Error al sincronizar el calendario externo");
+  }
+});
+
+// @route   GET /api/availability/:userId/free-busy
+// @desc    Libre/ocupado de un Doer entre ?from y ?to (sin detalle de lo ocupado)
+// @access  Private (si el Doer publica su disponibilidad)
+router.get(
+  "/:userId/free-busy",
+  [param("userId").isUUID().withMessage("ID de usuario inválido")],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, message: "ID de usuario inválido", errors: errors.array() });
+        return;
+      }
+      const range = parseFreeBusyRange(req.query.from, req.query.to, new Date());
+      const data = await doerAvailability.freeBusyFor(req.params.userId as string, req.user.id, range);
+      res.json({ success: true, data });
+    } catch (error: any) {
+      sendError(res, error, "Error al obtener la disponibilidad");
+    }
+  }
+);
+
+export default router;
@@ -1,25 +1,28 @@
 import express, { Response } from "express";
 import { protect, requireKyc, AuthRequest } from "../middleware/auth.js";
 import { BalanceTransaction } from "../models/sql/BalanceTransaction.model.js";
-import { User } from "../models/sql/User.model.js";
+import { User, WALLET_BALANCE_FIELDS } from "../models/sql/User.model.js";
 import { WithdrawalRequest } from "../models/sql/WithdrawalRequest.model.js";
 import { Contract } from "../models/sql/Contract.model.js";
 import { Payment } from "../models/sql/Payment.model.js";
 import { Op } from 'sequelize';
 import { sequelize } from '../config/database.js';
+import { CURRENCIES, toCurrency, type Currency } from '../services/money.js';
 
 const router = express.Router();
 
 /**
  * Get user balance
  * GET /api/balance
+ * `balance` es el saldo en pesos; `balances` trae el saldo de cada moneda
+ * (lo cobrado en USD/USDT no se convierte a pesos)
  */
 router.get("/", protect, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user.id;
 
     const user = await User.findByPk(userId, {
-      attributes: ['balanceArs']
+      attributes: Object.values(WALLET_BALANCE_FIELDS)
     });
 
     if (!user) {
@@ -27,9 +30,14 @@ router.get("/", protect, async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
+    const balances = Object.fromEntries(
+      CURRENCIES.map((currency) => [currency, user.balanceIn(currency)])
+    ) as Record<Currency, number>;
+
     res.status(200).json({
       success: true,
-      balance: user.balanceArs || 0
+      balance: user.balanceArs || 0,
+      balances
     });
   } catch (error: any) {
     console.error("Error fetching balance:", error);
@@ -43,12 +51,12 @@ router.get("/", protect, async (req: AuthRequest, res: Response): Promise<void>
 /**
  * Get balance transaction history
  * GET /api/balance/transactions
- * Query params: limit, offset, type
+ * Query params: limit, offset, type, currency
  */
 router.get("/transactions", protect, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const userId = req.user.id;
-    const { limit = 20, offset = 0, type } = req.query;
+    const { limit = 20, offset = 0, type, currency } = req.query;
 
     const where: any = { userId };
 
@@ -56,6 +64,10 @@ router.get("/transactions", protect, async (req: AuthRequest, res: Response): Pr
       where.type = type;
     }
 
+    if (currency && typeof currency === 'string') {
+      where.currency = toCurrency(currency);
+    }
+
     const transactions = await BalanceTransaction.findAll({
       where,
       order: [['createdAt', 'DESC']],
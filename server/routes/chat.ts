@@ -7,7 +7,13 @@ import { User } from "../models/sql/User.model.js";
 import { Job } from "../models/sql/Job.model.js";
 import { body, validationResult } from "express-validator";
 import { Op } from 'sequelize';
+import fs from "fs";
 import { getIO } from "../services/socket.js";
+import jobTeamChat from "../services/jobTeamChat.js";
+import chatHistory from "../services/chatHistory.js";
+import { exportFileName, parseExportFormat, parseMessageSearch } from "../services/messageSearchRules.js";
+import { bumpUnread } from "../services/teamChatRules.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
 
 const router = Router();
 
@@ -161,6 +167,35 @@ router.get("/conversations", protect, async (req: AuthRequest, res: Response): P
   }
 });
 
+/**
+ * Search messages across all of the user's conversations
+ * GET /api/chat/search?q=&conversationId=&counterpartId=&from=&to=&page=&limit=
+ * Matches message text, file names and system messages; each result has a
+ * highlighted snippet and the message id to open the conversation there
+ */
+router.get("/search", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const filters = parseMessageSearch(req.query);
+    const { results, total } = await chatHistory.search(req.user.id, filters);
+    res.json({
+      success: true,
+      data: results,
+      pagination: {
+        page: filters.page,
+        limit: filters.limit,
+        total,
+        pages: Math.ceil(total / filters.limit),
+      },
+    });
+  } catch (error: any) {
+    console.error("Search messages error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
 /**
  * Get a single conversation by ID
  * GET /api/chat/conversations/:id
@@ -194,7 +229,7 @@ router.get("/conversations/:id", protect, async (req: AuthRequest, res: Response
         {
           model: Job,
           as: 'job',
-          attributes: ['title'],
+          attributes: ['id', 'title', 'clientId'],
         },
       ],
     });
@@ -234,6 +269,11 @@ router.get("/conversations/:id", protect, async (req: AuthRequest, res: Response
       username: u.username,
     }));
 
+    // Job team chats: pinned task announcements
+    if (conversation.type === 'job_team') {
+      conversationData.pinnedMessages = await jobTeamChat.pinnedMessages(conversation);
+    }
+
     res.json({
       success: true,
       data: conversationData,
@@ -548,7 +588,7 @@ router.get("/conversations/:id/messages", protect, async (req: AuthRequest, res:
   try {
     const { id } = req.params;
     const userId = req.user.id;
-    const { page = 1, limit = 50, before } = req.query;
+    const { page = 1, limit = 50, before, around } = req.query;
 
     // Validate UUID
     if (!id || id.trim() === '') {
@@ -580,6 +620,22 @@ router.get("/conversations/:id/messages", protect, async (req: AuthRequest, res:
       return;
     }
 
+    // Job team chats: each member's last read, for "Visto por X de Y"
+    const readState = conversation.type === 'job_team'
+      ? {
+        participants: conversation.participants,
+        lastReadAt: conversation.lastReadAt || {},
+        pinnedMessageIds: conversation.pinnedMessageIds || [],
+      }
+      : undefined;
+
+    // Jump to a message (search result): the messages around it
+    if (typeof around === 'string' && around) {
+      const { messages, ...context } = await chatHistory.context(conversation, around);
+      res.json({ success: true, data: messages, context, readState });
+      return;
+    }
+
     // Build query
     const where: any = {
       conversationId: id,
@@ -615,10 +671,11 @@ router.get("/conversations/:id/messages", protect, async (req: AuthRequest, res:
         total,
         pages: Math.ceil(total / Number(limit)),
       },
+      readState,
     });
   } catch (error: any) {
     console.error("Get messages error:", error);
-    res.status(500).json({
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -636,7 +693,7 @@ router.post(
     try {
       const { id: conversationId } = req.params;
       const userId = req.user.id;
-      const { content, jobId } = req.body;
+      const { content, jobId, mentions: explicitMentions } = req.body;
 
       // Require either content or jobId
       if (!content && !jobId) {
@@ -713,11 +770,13 @@ router.post(
 
       // Create text message if content provided
       let message: any = null;
+      const mentions = content ? await jobTeamChat.mentionsFor(conversation, userId, String(content), explicitMentions) : [];
       if (content) {
         message = await ChatMessage.create({
           conversationId,
           senderId: userId,
           message: content,
+          ...(mentions.length ? { metadata: { mentions } } : {}),
         });
         createdMessages.push(message);
       } else {
@@ -729,8 +788,14 @@ router.post(
       const lastContent = content ? content.substring(0, 100) : (jobId ? `📋 Trabajo adjunto` : '');
       conversation.lastMessage = lastContent;
       conversation.lastMessageAt = new Date();
+      conversation.unreadCount = bumpUnread(conversation.unreadCount, conversation.participants, userId);
+      conversation.changed('unreadCount', true);
       await conversation.save();
 
+      if (mentions.length) {
+        await jobTeamChat.notifyMentions(conversation, message, req.user, mentions);
+      }
+
       // Populate sender info (include id for message alignment in frontend)
       const populatedMessage = await ChatMessage.findByPk(message.id, {
         include: [
@@ -828,6 +893,145 @@ router.post(
   }
 );
 
+/**
+ * Mark a conversation as read by the authenticated user
+ * POST /api/chat/conversations/:id/read
+ * In job team chats it records the member's last read ("Visto por X de Y")
+ */
+router.post("/conversations/:id/read", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const readAt = await jobTeamChat.markRead(conversation, req.user.id);
+    res.json({ success: true, readAt });
+  } catch (error: any) {
+    console.error("Mark conversation read error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+/**
+ * Post a pinned announcement to a job team chat (job client only)
+ * POST /api/chat/conversations/:id/announcements
+ * Body: { message, taskId?, mentions? }
+ */
+router.post("/conversations/:id/announcements", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const message = await jobTeamChat.announce(conversation, req.user, req.body || {});
+    res.status(201).json({ success: true, message, pinnedMessageIds: conversation.pinnedMessageIds });
+  } catch (error: any) {
+    console.error("Post announcement error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+/**
+ * Pin / unpin a message in a job team chat (job client only)
+ * PUT /api/chat/conversations/:id/pins/:messageId
+ * DELETE /api/chat/conversations/:id/pins/:messageId
+ */
+router.put("/conversations/:id/pins/:messageId", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const pinnedMessageIds = await jobTeamChat.setPinned(conversation, req.user.id, req.params.messageId, true);
+    res.json({ success: true, pinnedMessageIds });
+  } catch (error: any) {
+    console.error("Pin message error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+router.delete("/conversations/:id/pins/:messageId", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const pinnedMessageIds = await jobTeamChat.setPinned(conversation, req.user.id, req.params.messageId, false);
+    res.json({ success: true, pinnedMessageIds });
+  } catch (error: any) {
+    console.error("Unpin message error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+/**
+ * Export a whole conversation (messages, attachments list and system events)
+ * GET /api/chat/conversations/:id/export?format=json|pdf
+ */
+router.get("/conversations/:id/export", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const format = parseExportFormat(req.query.format);
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const bundle = await chatHistory.buildExport(conversation, req.user.id);
+    const filename = exportFileName(conversation.id, format, new Date(bundle.exportedAt));
+
+    if (format === 'json') {
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(JSON.stringify(bundle, null, 2));
+      return;
+    }
+
+    // The PDF is only kept when attached as dispute evidence
+    const filepath = await chatHistory.exportPdf(bundle, req.user.name);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    fs.createReadStream(filepath)
+      .on('close', () => fs.unlink(filepath, () => {}))
+      .pipe(res);
+  } catch (error: any) {
+    console.error("Export conversation error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+/**
+ * Attach a conversation export to a dispute as evidence (dispute parties only)
+ * POST /api/chat/conversations/:id/export/evidence
+ * Body: { disputeId, format?: 'json' | 'pdf' }
+ */
+router.post("/conversations/:id/export/evidence", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { disputeId, format } = req.body || {};
+    if (!disputeId || typeof disputeId !== 'string') {
+      res.status(400).json({ success: false, message: "Se requiere la disputa" });
+      return;
+    }
+    const conversation = await jobTeamChat.loadForMember(req.params.id, req.user.id);
+    const { evidence, dispute } = await chatHistory.attachToDispute(
+      conversation,
+      req.user,
+      disputeId,
+      parseExportFormat(format),
+      req
+    );
+    res.status(201).json({
+      success: true,
+      message: "Conversación adjuntada como evidencia",
+      data: { evidence, disputeId: dispute.id },
+    });
+  } catch (error: any) {
+    console.error("Attach conversation to dispute error:", error);
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
 /**
  * Delete a message
  * DELETE /api/chat/messages/:id
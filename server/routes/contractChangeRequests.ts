@@ -8,6 +8,10 @@ import { Job } from "../models/sql/Job.model.js";
 import { protect } from '../middleware/auth.js';
 import type { AuthRequest } from '../types/index.js';
 import emailService from '../services/email.js';
+import { transitionContract, ContractTransitionError } from '../services/contractLifecycle.js';
+import { calculateCommission } from '../services/commissionService.js';
+import { fromDecimal, toCurrency } from '../services/money.js';
+import { sequelize } from '../config/database.js';
 import { Op } from 'sequelize';
 
 const router = express.Router();
@@ -345,19 +349,41 @@ router.put(
       changeRequest.status = accept ? 'accepted' : 'rejected';
       changeRequest.respondedBy = req.user.id;
       changeRequest.respondedAt = new Date();
-      await changeRequest.save();
+
+      if (accept && changeRequest.type === 'cancel') {
+        // Cancelar el contrato: reembolsa el escrow y registra la transición.
+        // Si el contrato ya no se puede cancelar, la solicitud sigue pendiente
+        contract.cancellationReason = changeRequest.reason;
+        contract.cancelledBy = requester;
+        await sequelize.transaction(async (transaction) => {
+          await changeRequest.save({ transaction });
+          await transitionContract(contract, 'cancel', {
+            actorId: userId.toString(),
+            actorRole: isClient ? 'client' : 'doer',
+            reason: changeRequest.reason,
+            metadata: { changeRequestId: changeRequest.id },
+            transaction,
+          });
+        });
+      } else {
+        await changeRequest.save();
+      }
 
       // Si se aceptó
       if (accept) {
-        if (changeRequest.type === 'cancel') {
-          // Cancelar el contrato
-          contract.status = 'cancelled';
-          await contract.save();
-        } else if (changeRequest.type === 'modify' && changeRequest.newTerms) {
+        if (changeRequest.type === 'modify' && changeRequest.newTerms) {
           // Aplicar los nuevos términos
           if (changeRequest.newTerms.price !== undefined) {
-            contract.price = changeRequest.newTerms.price;
-            contract.totalPrice = changeRequest.newTerms.price * 1.1; // Recalcular con comisión
+            // Recalcular la comisión con la regla con la que se cotizó el contrato
+            const price = Number(changeRequest.newTerms.price);
+            const commissionResult = await calculateCommission(contract.clientId, fromDecimal(price, toCurrency(contract.currency)), {
+              ruleId: contract.commissionRuleId,
+            });
+            contract.price = price;
+            contract.commission = commissionResult.commission;
+            contract.commissionPercentage = commissionResult.rate;
+            contract.commissionRuleId = commissionResult.rule?.id ?? null;
+            contract.totalPrice = price + commissionResult.commission;
           }
           if (changeRequest.newTerms.startDate) {
             contract.startDate = changeRequest.newTerms.startDate;
@@ -423,7 +449,7 @@ router.put(
       });
     } catch (error: any) {
       console.error('Error responding to contract change request:', error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || 'Error del servidor',
       });
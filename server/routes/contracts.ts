@@ -1,8 +1,9 @@
 import express, { Request, Response } from "express";
 import { body, validationResult } from "express-validator";
 import { Contract } from "../models/sql/Contract.model.js";
+import { ContractMilestone } from "../models/sql/ContractMilestone.model.js";
 import { Job } from "../models/sql/Job.model.js";
-import { User } from "../models/sql/User.model.js";
+import { User, WALLET_BALANCE_FIELDS } from "../models/sql/User.model.js";
 import { Referral } from "../models/sql/Referral.model.js";
 import { Notification as NotificationModel } from "../models/sql/Notification.model.js";
 import { protect } from "../middleware/auth.js";
@@ -11,24 +12,19 @@ import { socketService } from "../index.js";
 import { Op } from 'sequelize';
 import { calculateCommission } from "../services/commissionService.js";
 import cacheService from "../services/cacheService.js";
+import { transitionContract, getStatusHistory, ContractTransitionError } from "../services/contractLifecycle.js";
+import { haversineKm } from "../utils/geo.js";
+import ledger from "../services/ledger.js";
+import currencyExchange from "../services/currencyExchange.js";
+import { CURRENCIES, convert, formatMoney, fromDecimal, toCurrency, type Currency, type Money } from "../services/money.js";
+import milestoneEscrow from "../services/milestoneEscrow.js";
+import creditNotes from "../services/creditNotes.js";
+import { parseMilestonePlan } from "../services/milestoneRules.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import { sequelize } from "../config/database.js";
 
 const router = express.Router();
 
-/** Haversine distance formula — returns distance in meters between two lat/lng points */
-function haversineDistance(lat1: number, lon1: number, lat2: number, lon2: number): number {
-  const R = 6371000; // Earth radius in metres
-  const toRad = (deg: number) => (deg * Math.PI) / 180;
-  const dLat = toRad(lat2 - lat1);
-  const dLon = toRad(lon2 - lon1);
-  const a =
-    Math.sin(dLat / 2) ** 2 +
-    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
-  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-}
-
-// Comisión de la plataforma (10%) - DEPRECATED: usar currentCommissionRate del usuario
-const PLATFORM_COMMISSION = 0.1;
-
 /**
  * Check if user has admin privileges for viewing contracts
  */
@@ -40,6 +36,15 @@ function isAdminUser(user: any): boolean {
 const MINIMUM_CONTRACT_AMOUNT = 8000;
 const MINIMUM_COMMISSION = 1000;
 
+/**
+ * Mínimo de contrato en la moneda pactada (el mínimo se define en pesos)
+ */
+async function minimumContractAmount(currency: Currency): Promise<Money> {
+  const minimum = fromDecimal(MINIMUM_CONTRACT_AMOUNT, 'ARS');
+  if (currency === 'ARS') return minimum;
+  return convert(minimum, currency, await currencyExchange.snapshotRate('ARS', currency));
+}
+
 /**
  * Process referral credit when a referred user completes their first contract
  * @param userId - The user ID who completed the contract (client or doer)
@@ -346,8 +351,8 @@ router.post("/repair-job/:jobId", protect, async (req: AuthRequest, res: Respons
 
     // Create the missing contract
     const price = parseFloat(job.price?.toString() || '0');
-    const commissionRate = 0.10; // 10% default
-    const commission = price * commissionRate;
+    const commissionResult = await calculateCommission(job.clientId, price, { category: job.category });
+    const commission = commissionResult.commission;
     const totalPrice = price + commission;
 
     const startDate = job.startDate ? new Date(job.startDate) : new Date();
@@ -360,6 +365,8 @@ router.post("/repair-job/:jobId", protect, async (req: AuthRequest, res: Respons
       type: 'trabajo',
       price,
       commission,
+      commissionPercentage: commissionResult.rate,
+      commissionRuleId: commissionResult.rule?.id ?? null,
       totalPrice,
       startDate,
       endDate,
@@ -525,6 +532,140 @@ router.get("/:id", protect, async (req: AuthRequest, res: Response): Promise<voi
   }
 });
 
+// @route   GET /api/contracts/:id/status-history
+// @desc    Historial de cambios de estado del contrato (append-only)
+// @access  Private (partes del contrato o admin)
+router.get("/:id/status-history", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const contract = await Contract.findByPk(req.params.id, {
+      attributes: ['id', 'clientId', 'doerId', 'status'],
+    });
+
+    if (!contract) {
+      res.status(404).json({
+        success: false,
+        message: "Contrato no encontrado",
+      });
+      return;
+    }
+
+    const isParticipant =
+      contract.clientId.toString() === req.user.id.toString() ||
+      contract.doerId.toString() === req.user.id.toString();
+
+    if (!isParticipant && !isAdminUser(req.user)) {
+      res.status(403).json({
+        success: false,
+        message: "No tienes permiso para ver este contrato",
+      });
+      return;
+    }
+
+    const history = await getStatusHistory(contract.id);
+
+    res.json({
+      success: true,
+      status: contract.status,
+      history,
+    });
+  } catch (error: any) {
+    res.status(500).json({
+      success: false,
+      message: error.message || "Error del servidor",
+    });
+  }
+});
+
+// @route   GET /api/contracts/:id/milestones
+// @desc    Hitos del escrow con el resumen de lo retenido, liberado y reembolsado
+// @access  Private (partes del contrato o admin)
+router.get("/:id/milestones", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const contract = await Contract.findByPk(req.params.id);
+    if (!contract) {
+      res.status(404).json({ success: false, message: "Contrato no encontrado" });
+      return;
+    }
+
+    const isParticipant =
+      contract.clientId.toString() === req.user.id.toString() ||
+      contract.doerId.toString() === req.user.id.toString();
+    if (!isParticipant && !isAdminUser(req.user)) {
+      res.status(403).json({ success: false, message: "No tienes permiso para ver este contrato" });
+      return;
+    }
+
+    const { milestones, summary } = await milestoneEscrow.summary(contract);
+    res.json({ success: true, funding: contract.milestoneFunding || null, milestones, summary });
+  } catch (error: any) {
+    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
+// @route   POST /api/contracts/:id/milestones/:milestoneId/deliveries
+// @desc    El trabajador entrega un hito financiado
+// @access  Private (doer)
+router.post("/:id/milestones/:milestoneId/deliveries", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const contract = await Contract.findByPk(req.params.id);
+    if (!contract) {
+      res.status(404).json({ success: false, message: "Contrato no encontrado" });
+      return;
+    }
+
+    const files = Array.isArray(req.body.files) ? req.body.files.filter((file: unknown) => typeof file === "string") : [];
+    const milestone = await milestoneEscrow.submitDelivery(contract, req.params.milestoneId, req.user.id.toString(), {
+      description: req.body.description,
+      files,
+    });
+
+    socketService.notifyContractUpdate(contract.id, contract.clientId, contract.doerId, { action: 'milestone_submitted', milestone });
+    res.status(201).json({ success: true, milestone });
+  } catch (error: any) {
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
+// @route   POST /api/contracts/:id/deliveries/:deliveryId/approve
+// @desc    El cliente aprueba la entrega y se libera el hito que cubre
+// @access  Private (client)
+router.post("/:id/deliveries/:deliveryId/approve", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const contract = await Contract.findByPk(req.params.id);
+    if (!contract) {
+      res.status(404).json({ success: false, message: "Contrato no encontrado" });
+      return;
+    }
+
+    const milestone = await milestoneEscrow.approveDelivery(contract, req.params.deliveryId, req.user.id.toString());
+
+    socketService.notifyContractUpdate(contract.id, contract.clientId, contract.doerId, { action: 'milestone_released', milestone });
+    res.json({ success: true, milestone });
+  } catch (error: any) {
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
+// @route   POST /api/contracts/:id/deliveries/:deliveryId/reject
+// @desc    El cliente pide cambios: el hito vuelve a trabajo con los fondos retenidos
+// @access  Private (client)
+router.post("/:id/deliveries/:deliveryId/reject", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const contract = await Contract.findByPk(req.params.id);
+    if (!contract) {
+      res.status(404).json({ success: false, message: "Contrato no encontrado" });
+      return;
+    }
+
+    const milestone = await milestoneEscrow.rejectDelivery(contract, req.params.deliveryId, req.user.id.toString(), req.body.feedback);
+
+    socketService.notifyContractUpdate(contract.id, contract.clientId, contract.doerId, { action: 'milestone_rejected', milestone });
+    res.json({ success: true, milestone });
+  } catch (error: any) {
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
 // @route   POST /api/contracts
 // @desc    Crear nuevo contrato
 // @access  Private
@@ -535,6 +676,7 @@ router.post(
     body("job").notEmpty().withMessage("El trabajo es requerido"),
     body("doer").notEmpty().withMessage("El doer es requerido"),
     body("price").isNumeric().withMessage("El precio debe ser un número"),
+    body("currency").optional().isIn(CURRENCIES).withMessage("Moneda inválida"),
     body("startDate").isISO8601().withMessage("Fecha de inicio inválida"),
     body("endDate").isISO8601().withMessage("Fecha de fin inválida"),
     body("termsAccepted", "Debes aceptar los términos del contrato")
@@ -552,12 +694,16 @@ router.post(
       }
 
       const { job: jobId, doer: doerId, price, startDate, endDate, termsAccepted, notes, useFreeContract } = req.body;
+      const currency = toCurrency(req.body.currency);
+      // Escrow por hitos (opcional): los montos tienen que sumar el precio
+      const milestonePlan = parseMilestonePlan(req.body, { price, currency, startDate });
 
-      // Validar monto mínimo de $8,000 ARS
-      if (price < MINIMUM_CONTRACT_AMOUNT) {
+      // Validar monto mínimo de $8,000 ARS (o su equivalente en USD/USDT)
+      const minimumAmount = await minimumContractAmount(currency);
+      if (fromDecimal(price, currency).amount < minimumAmount.amount) {
         res.status(400).json({
           success: false,
-          message: `El monto mínimo del contrato es de $${MINIMUM_CONTRACT_AMOUNT.toLocaleString()} ARS`,
+          message: `El monto mínimo del contrato es de ${formatMoney(minimumAmount)}`,
         });
         return;
       }
@@ -602,33 +748,38 @@ router.post(
         await client.save();
       }
 
-      // Calcular comisión basada en el plan del usuario
-      // FREE: 8% | PRO: 3% | SUPER PRO: 1% | Plan Familia: 0%
-      // Mínimo de comisión: $1,000 ARS
-      const commissionResult = await calculateCommission(req.user.id, price, {
+      // Calcular comisión con las reglas vigentes (plan, categoría, promociones)
+      const commissionResult = await calculateCommission(req.user.id, fromDecimal(price, currency), {
         isFreeContract,
+        category: job.category,
       });
 
       const commissionRate = commissionResult.rate;
       const commission = commissionResult.commission;
       const totalPrice = price + commission;
 
-      // Crear contrato
-      const contract = await Contract.create({
-        jobId: jobId,
-        clientId: req.user.id,
-        doerId: doerId,
-        type: "trabajo", // tipo por defecto
-        price,
-        commission,
-        commissionPercentage: commissionRate,
-        totalPrice,
-        startDate,
-        endDate,
-        termsAccepted,
-        termsAcceptedAt: termsAccepted ? new Date() : undefined,
-        termsAcceptedByClient: termsAccepted,
-        notes,
+      // Crear contrato (y sus hitos, si los hay)
+      const contract = await sequelize.transaction(async (transaction) => {
+        const created = await Contract.create({
+          jobId: jobId,
+          clientId: req.user.id,
+          doerId: doerId,
+          type: "trabajo", // tipo por defecto
+          price,
+          commission,
+          commissionPercentage: commissionRate,
+          commissionRuleId: commissionResult.rule?.id ?? null,
+          totalPrice,
+          currency,
+          startDate,
+          endDate,
+          termsAccepted,
+          termsAcceptedAt: termsAccepted ? new Date() : undefined,
+          termsAcceptedByClient: termsAccepted,
+          notes,
+        }, { transaction });
+        if (milestonePlan) await milestoneEscrow.createForContract(created, milestonePlan, transaction);
+        return created;
       });
 
       // Actualizar estado del trabajo
@@ -651,8 +802,13 @@ router.post(
             model: User,
             as: 'doer',
             attributes: ['name', 'email', 'phone', 'avatar']
+          },
+          {
+            model: ContractMilestone,
+            as: 'milestones'
           }
-        ]
+        ],
+        order: [[{ model: ContractMilestone, as: 'milestones' }, 'position', 'ASC']]
       });
 
       // Send email notifications
@@ -664,7 +820,7 @@ router.post(
         contract.id.toString(),
         jobPopulated.title || 'Contrato',
         price,
-        'ARS'
+        currency
       );
 
       // Send real-time notifications via Socket.io
@@ -687,7 +843,7 @@ router.post(
         contract: populatedContract,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor",
       });
@@ -761,14 +917,14 @@ router.put("/:id/accept", protect, async (req: AuthRequest, res: Response): Prom
     const bothAccepted = contract.termsAcceptedByClient && contract.termsAcceptedByDoer;
 
     if (bothAccepted) {
-      contract.status = "accepted";
-      contract.termsAccepted = true;
-      contract.termsAcceptedAt = new Date();
-      contract.paymentStatus = "held";
+      await transitionContract(contract, 'accept', {
+        actorId: req.user.id.toString(),
+        actorRole: isClient ? 'client' : 'doer',
+      });
+    } else {
+      await contract.save();
     }
 
-    await contract.save();
-
     // Send email notification
     const emailService = (await import('../services/email.js')).default;
     const job = contract.job as any;
@@ -828,7 +984,7 @@ router.put("/:id/accept", protect, async (req: AuthRequest, res: Response): Prom
       bothAccepted,
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -866,11 +1022,11 @@ router.put("/:id/complete", protect, async (req: AuthRequest, res: Response): Pr
       return;
     }
 
-    contract.status = "completed";
-    contract.actualEndDate = new Date();
-    contract.paymentStatus = "released";
-    contract.paymentDate = new Date();
-    await contract.save();
+    await transitionContract(contract, 'complete', {
+      actorId: req.user.id.toString(),
+      actorRole: 'client',
+      patch: { paymentStatus: "released", paymentDate: new Date() },
+    });
 
     // Actualizar el trabajo
     if (contract.jobId) {
@@ -913,7 +1069,7 @@ router.put("/:id/complete", protect, async (req: AuthRequest, res: Response): Pr
       contract,
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -949,11 +1105,13 @@ router.put("/:id/cancel", protect, async (req: AuthRequest, res: Response): Prom
       return;
     }
 
-    contract.status = "cancelled";
     contract.cancellationReason = cancellationReason;
     contract.cancelledBy = req.user.id;
-    contract.paymentStatus = "refunded";
-    await contract.save();
+    await transitionContract(contract, 'cancel', {
+      actorId: req.user.id.toString(),
+      actorRole: isClient ? 'client' : 'doer',
+      reason: cancellationReason,
+    });
 
     // Actualizar el trabajo
     const job = await Job.findByPk(contract.jobId);
@@ -984,7 +1142,7 @@ router.put("/:id/cancel", protect, async (req: AuthRequest, res: Response): Prom
       contract,
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -1068,9 +1226,6 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
         contract.doerConfirmedAt = new Date();
       }
 
-      contract.status = 'awaiting_confirmation';
-      contract.awaitingConfirmationAt = new Date();
-
       // Agregar al historial
       const history = contract.confirmationHistory || [];
       history.push({
@@ -1083,7 +1238,11 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
       });
       contract.confirmationHistory = history;
 
-      await contract.save();
+      await transitionContract(contract, 'propose_completion', {
+        actorId: userId,
+        actorRole: isClient ? 'client' : 'doer',
+        metadata: { proposedStartTime: startTime, proposedEndTime: endTime },
+      });
 
       // Notificar a la otra parte
       const emailService = (await import('../services/email.js')).default;
@@ -1144,12 +1303,16 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
     });
     contract.confirmationHistory = history;
 
-    // Ambos confirmaron → completar contrato
-    contract.status = 'completed';
-    contract.paymentStatus = 'pending_payout';
-    contract.escrowStatus = 'released';
-    contract.actualStartDate = contract.proposedStartTime || contract.startDate;
-    contract.actualEndDate = contract.proposedEndTime || contract.endDate;
+    // Ambos confirmaron → completar contrato (antes de tocar pagos: si la transición es inválida, no se libera nada)
+    await transitionContract(contract, 'confirm_completion', {
+      actorId: userId,
+      actorRole: isClient ? 'client' : 'doer',
+      patch: {
+        paymentStatus: 'pending_payout',
+        actualStartDate: contract.proposedStartTime || contract.startDate,
+        actualEndDate: contract.proposedEndTime || contract.endDate,
+      },
+    });
 
     // Verificar datos bancarios del trabajador
     const doer = await User.findByPk(contract.doerId);
@@ -1196,7 +1359,7 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
       payment.recipientConfirmed = contract.doerConfirmed;
       payment.workerPaymentAmount = paymentAmount;
       await payment.save();
-      console.log(`💰 Liberando pago de $${paymentAmount.toLocaleString()} ARS al trabajador ${contract.doerId}`);
+      console.log(`💰 Liberando pago de ${formatMoney(fromDecimal(paymentAmount, toCurrency(contract.currency)))} al trabajador ${contract.doerId}`);
     }
 
     // Email de completado
@@ -1208,41 +1371,29 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
       contract.id.toString(),
       job?.title || 'Contrato',
       paymentAmount,
-      'ARS'
+      toCurrency(contract.currency)
     );
 
     // Balance y job completion
     if (job && (job.maxWorkers || 1) > 1) {
-      const BalanceTransaction = (await import('../models/sql/BalanceTransaction.model.js')).default;
-      const worker = await User.findByPk(contract.doerId);
-      const currentBalance = worker?.balanceArs || 0;
-      const newBalance = currentBalance + paymentAmount;
-
-      await BalanceTransaction.create({
-        userId: contract.doerId,
-        type: 'payment',
-        amount: paymentAmount,
-        balanceBefore: currentBalance,
-        balanceAfter: newBalance,
+      await ledger.payoutToWallet(contract, contract.doerId, paymentAmount, {
         description: `Pago por contrato #${contract.id} - ${job.title}`,
-        status: 'pending',
-        relatedModel: 'Contract',
-        relatedId: contract.id,
-        metadata: {
-          jobId: job.id,
-          contractId: contract.id,
-          jobTitle: job.title,
-          isMultiWorker: true,
-          totalWorkers: job.maxWorkers,
-          percentageOfBudget: contract.percentageOfBudget || (paymentAmount / job.price * 100),
+        createdBy: userId,
+        history: {
+          type: 'payment',
+          description: `Pago por contrato #${contract.id} - ${job.title}`,
+          status: 'pending',
+          metadata: {
+            jobId: job.id,
+            contractId: contract.id,
+            jobTitle: job.title,
+            isMultiWorker: true,
+            totalWorkers: job.maxWorkers,
+            percentageOfBudget: contract.percentageOfBudget || (paymentAmount / job.price * 100),
+          },
         },
       });
 
-      if (worker) {
-        worker.balanceArs = newBalance;
-        await worker.save();
-      }
-
       const allJobContracts = await Contract.findAll({ where: { jobId: job.id } });
       const allContractsCompleted = allJobContracts.every(c => c.clientConfirmed && c.doerConfirmed);
 
@@ -1285,7 +1436,7 @@ router.post("/:id/confirm", protect, async (req: AuthRequest, res: Response): Pr
     });
   } catch (error: any) {
     console.error('Error confirming contract:', error);
-    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
   }
 });
 
@@ -1331,7 +1482,6 @@ router.post("/:id/reject-confirmation", protect, async (req: AuthRequest, res: R
 
     // Guardar rechazo
     contract.confirmationRejectionReason = reason.trim();
-    contract.status = 'disputed';
 
     // Agregar al historial
     const history = contract.confirmationHistory || [];
@@ -1346,7 +1496,11 @@ router.post("/:id/reject-confirmation", protect, async (req: AuthRequest, res: R
       rejectionReason: reason.trim(),
     });
     contract.confirmationHistory = history;
-    await contract.save();
+    await transitionContract(contract, 'dispute', {
+      actorId: userId,
+      actorRole: isClient ? 'client' : 'doer',
+      reason: `Rechazo de confirmación: ${reason.trim()}`,
+    });
 
     // Auto-crear disputa
     const Dispute = (await import('../models/sql/Dispute.model.js')).default;
@@ -1409,7 +1563,7 @@ router.post("/:id/reject-confirmation", protect, async (req: AuthRequest, res: R
     });
   } catch (error: any) {
     console.error('Error rejecting confirmation:', error);
-    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
   }
 });
 
@@ -2324,19 +2478,21 @@ router.post("/:id/confirm-pairing", protect, async (req: AuthRequest, res: Respo
       const dLng = contract.doerPairingLongitude;
 
       if (cLat && cLng && dLat && dLng) {
-        const distMeters = haversineDistance(
+        const distMeters = haversineKm(
           Number(cLat), Number(cLng),
           Number(dLat), Number(dLng)
-        );
+        ) * 1000;
         contract.pairingDistanceMeters = Math.round(distMeters);
         contract.locationVerificationStatus = distMeters <= 1000 ? 'verified' : 'distant';
       } else {
         contract.locationVerificationStatus = 'skipped';
       }
 
-      contract.status = 'in_progress';
-      contract.actualStartDate = new Date();
-      await contract.save();
+      await transitionContract(contract, 'start', {
+        actorId: userId.toString(),
+        actorRole: isClient ? 'client' : 'doer',
+        metadata: { locationVerificationStatus: contract.locationVerificationStatus },
+      });
 
       const locMsg = contract.locationVerificationStatus === 'verified'
         ? ' Ubicaciones verificadas correctamente.'
@@ -2361,7 +2517,7 @@ router.post("/:id/confirm-pairing", protect, async (req: AuthRequest, res: Respo
     }
   } catch (error: any) {
     console.error('Error confirming pairing:', error);
-    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
   }
 });
 
@@ -2414,9 +2570,11 @@ router.post("/:id/force-start-pairing", protect, async (req: AuthRequest, res: R
     // When both confirmed, start the contract in grace mode
     if (contract.clientConfirmedPairing && contract.doerConfirmedPairing) {
       contract.locationVerificationStatus = 'grace_start';
-      contract.status = 'in_progress';
-      contract.actualStartDate = new Date();
-      await contract.save();
+      await transitionContract(contract, 'start', {
+        actorId: userId.toString(),
+        actorRole: isClient ? 'client' : 'doer',
+        metadata: { locationVerificationStatus: 'grace_start' },
+      });
 
       res.json({
         success: true,
@@ -2435,7 +2593,7 @@ router.post("/:id/force-start-pairing", protect, async (req: AuthRequest, res: R
     }
   } catch (error: any) {
     console.error('Error in force-start-pairing:', error);
-    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
   }
 });
 
@@ -2513,76 +2671,73 @@ router.put("/:id/modify-price", protect, async (req: AuthRequest, res: Response)
     const previousPrice = contract.price;
     const priceDifference = newPrice - previousPrice;
 
-    // Import models
-    const BalanceTransaction = (await import('../models/sql/BalanceTransaction.model.js')).default;
-
     const client = await User.findByPk(userId);
     if (!client) {
       res.status(404).json({ success: false, message: "Usuario no encontrado" });
       return;
     }
 
+    // La diferencia se cobra/devuelve en la moneda del contrato
+    const currency = toCurrency(contract.currency);
     let transaction;
 
     if (priceDifference > 0) {
       // Price increased - check if user has enough balance
-      if (client.balanceArs < priceDifference) {
+      if (!client.hasSufficientBalance(priceDifference, currency)) {
         // User needs to pay the difference via MercadoPago
         res.status(402).json({
           success: false,
           message: "Debes pagar la diferencia para aumentar el precio",
           requiresPayment: true,
           amountRequired: priceDifference,
-          currentBalance: client.balanceArs
+          currency,
+          currentBalance: client.balanceIn(currency)
         });
         return;
       }
 
       // Deduct from user balance
-      const balanceBefore = client.balanceArs;
-      client.balanceArs -= priceDifference;
-      await client.save();
-
-      // Create transaction record
-      transaction = await BalanceTransaction.create({
-        userId: userId,
-        type: 'payment',
-        amount: -priceDifference,
-        balanceBefore,
-        balanceAfter: client.balanceArs,
-        description: `Pago de diferencia por aumento de precio de contrato`,
-        relatedContractId: contract.id,
-        metadata: {
-          previousPrice,
-          newPrice,
-          reason: reason || 'Aumento de precio'
+      const result = await ledger.walletToEscrow(userId, { amount: priceDifference }, {
+        description: `Aumento de precio del contrato ${contract.id}`,
+        contractId: contract.id,
+        jobId: contract.jobId,
+        currency,
+        createdBy: userId,
+        history: {
+          type: 'payment',
+          description: `Pago de diferencia por aumento de precio de contrato`,
+          metadata: {
+            previousPrice,
+            newPrice,
+            reason: reason || 'Aumento de precio'
+          },
         },
-        status: 'completed'
       });
+      transaction = result.balanceTransactions[0];
+      client[WALLET_BALANCE_FIELDS[currency]] = result.balances[userId];
 
     } else if (priceDifference < 0) {
       // Price decreased - refund to user balance
       const refundAmount = Math.abs(priceDifference);
-      const balanceBefore = client.balanceArs;
-      client.balanceArs += refundAmount;
-      await client.save();
-
-      // Create transaction record
-      transaction = await BalanceTransaction.create({
-        userId: userId,
-        type: 'refund',
-        amount: refundAmount,
-        balanceBefore,
-        balanceAfter: client.balanceArs,
-        description: `Reembolso por reducción de precio de contrato`,
-        relatedContractId: contract.id,
-        metadata: {
-          previousPrice,
-          newPrice,
-          reason: reason || 'Reducción de precio'
+      const result = await ledger.escrowToWallet(userId, { amount: refundAmount }, {
+        kind: 'refund',
+        description: `Reducción de precio del contrato ${contract.id}`,
+        contractId: contract.id,
+        jobId: contract.jobId,
+        currency,
+        createdBy: userId,
+        history: {
+          type: 'refund',
+          description: `Reembolso por reducción de precio de contrato`,
+          metadata: {
+            previousPrice,
+            newPrice,
+            reason: reason || 'Reducción de precio'
+          },
         },
-        status: 'completed'
       });
+      transaction = result.balanceTransactions[0];
+      client[WALLET_BALANCE_FIELDS[currency]] = result.balances[userId];
     }
 
     // Save original price if this is the first modification
@@ -2590,9 +2745,14 @@ router.put("/:id/modify-price", protect, async (req: AuthRequest, res: Response)
       contract.originalPrice = previousPrice;
     }
 
-    // Update contract price
+    // Update contract price, with the commission rule the contract was priced with
+    const commissionResult = await calculateCommission(contract.clientId, fromDecimal(newPrice, currency), {
+      ruleId: contract.commissionRuleId,
+    });
     contract.price = newPrice;
-    contract.commission = newPrice * (client.currentCommissionRate / 100);
+    contract.commission = commissionResult.commission;
+    contract.commissionPercentage = commissionResult.rate;
+    contract.commissionRuleId = commissionResult.rule?.id ?? null;
     contract.totalPrice = newPrice + contract.commission;
 
     // Add to price modification history
@@ -2612,6 +2772,16 @@ router.put("/:id/modify-price", protect, async (req: AuthRequest, res: Response)
 
     await contract.save();
 
+    // Price decreased - credit the invoices for the refunded difference
+    if (priceDifference < 0 && transaction) {
+      await creditNotes.issueForRefund(contract.id, {
+        source: 'price_change',
+        reference: transaction.id,
+        amount: Math.abs(priceDifference),
+        detail: reason,
+      });
+    }
+
     // Update the related Job price as well
     const jobToUpdate = await Job.findByPk(contract.jobId);
     if (jobToUpdate) {
@@ -2641,7 +2811,7 @@ router.put("/:id/modify-price", protect, async (req: AuthRequest, res: Response)
         client.name,
         Math.abs(priceDifference),
         `Reducción de precio en contrato ${contract.id}`,
-        client.balanceArs
+        client.balanceIn(currency)
       );
     }
 
@@ -2654,7 +2824,8 @@ router.put("/:id/modify-price", protect, async (req: AuthRequest, res: Response)
           : 'Precio actualizado',
       contract,
       transaction,
-      newBalance: client.balanceArs
+      newBalance: client.balanceIn(currency),
+      currency
     });
   } catch (error: any) {
     console.error("Error modifying contract price:", error);
@@ -2744,12 +2915,15 @@ router.post("/:id/request-price-change", protect, async (req: AuthRequest, res:
       }
 
       // Calculate commission using volume-based service
-      const commissionResult = await calculateCommission(userId, priceDifference);
+      const currency = toCurrency(contract.currency);
+      const commissionResult = await calculateCommission(userId, fromDecimal(priceDifference, currency), {
+        ruleId: contract.commissionRuleId,
+      });
       additionalCommission = commissionResult.commission;
 
       // Check if client can afford the difference + commission
       const totalRequired = priceDifference + additionalCommission;
-      if (client.balanceArs < totalRequired) {
+      if (!client.hasSufficientBalance(totalRequired, currency)) {
         res.status(402).json({
           success: false,
           message: "No tienes suficiente saldo para pagar la diferencia + comisión",
@@ -2757,7 +2931,8 @@ router.post("/:id/request-price-change", protect, async (req: AuthRequest, res:
           amountRequired: totalRequired,
           priceDifference,
           additionalCommission,
-          currentBalance: client.balanceArs
+          currency,
+          currentBalance: client.balanceIn(currency)
         });
         return;
       }
@@ -2856,37 +3031,37 @@ router.post("/:id/approve-price-change", protect, async (req: AuthRequest, res:
         return;
       }
 
-      const BalanceTransaction = (await import('../models/sql/BalanceTransaction.model.js')).default;
+      const currency = toCurrency(contract.currency);
       let transaction;
 
       if (priceDifference > 0) {
         // Price increased - deduct from client balance
         // Calculate commission using volume-based service
-        const commissionResult = await calculateCommission(contract.clientId, priceDifference);
+        const commissionResult = await calculateCommission(contract.clientId, fromDecimal(priceDifference, currency), {
+          ruleId: contract.commissionRuleId,
+        });
         const additionalCommission = commissionResult.commission;
-        const totalDeduct = priceDifference + additionalCommission;
-
-        const balanceBefore = client.balanceArs;
-        client.balanceArs -= totalDeduct;
-        await client.save();
 
-        transaction = await BalanceTransaction.create({
-          userId: client.id,
-          type: 'payment',
-          amount: -totalDeduct,
-          balanceBefore,
-          balanceAfter: client.balanceArs,
-          description: `Pago de diferencia + comisión por aumento de precio de contrato`,
-          relatedContractId: contract.id,
-          metadata: {
-            previousPrice,
-            newPrice,
-            priceDifference,
-            additionalCommission,
-            reason: contract.pendingModification.notes
+        const result = await ledger.walletToEscrow(client.id, { amount: priceDifference, commission: additionalCommission }, {
+          description: `Aumento de precio del contrato ${contract.id} aprobado`,
+          contractId: contract.id,
+          jobId: contract.jobId,
+          currency,
+          createdBy: userId,
+          history: {
+            type: 'payment',
+            description: `Pago de diferencia + comisión por aumento de precio de contrato`,
+            metadata: {
+              previousPrice,
+              newPrice,
+              priceDifference,
+              additionalCommission,
+              reason: contract.pendingModification.notes
+            },
           },
-          status: 'completed'
         });
+        transaction = result.balanceTransactions[0];
+        client[WALLET_BALANCE_FIELDS[currency]] = result.balances[client.id];
 
         // Update contract commission and total
         contract.commission = Number(contract.commission) + additionalCommission;
@@ -2894,25 +3069,25 @@ router.post("/:id/approve-price-change", protect, async (req: AuthRequest, res:
       } else if (priceDifference < 0) {
         // Price decreased - refund to client
         const refundAmount = Math.abs(priceDifference);
-        const balanceBefore = client.balanceArs;
-        client.balanceArs += refundAmount;
-        await client.save();
-
-        transaction = await BalanceTransaction.create({
-          userId: client.id,
-          type: 'refund',
-          amount: refundAmount,
-          balanceBefore,
-          balanceAfter: client.balanceArs,
-          description: `Reembolso por reducción de precio de contrato`,
-          relatedContractId: contract.id,
-          metadata: {
-            previousPrice,
-            newPrice,
-            reason: contract.pendingModification.notes
+        const result = await ledger.escrowToWallet(client.id, { amount: refundAmount }, {
+          kind: 'refund',
+          description: `Reducción de precio del contrato ${contract.id} aprobada`,
+          contractId: contract.id,
+          jobId: contract.jobId,
+          currency,
+          createdBy: userId,
+          history: {
+            type: 'refund',
+            description: `Reembolso por reducción de precio de contrato`,
+            metadata: {
+              previousPrice,
+              newPrice,
+              reason: contract.pendingModification.notes
+            },
           },
-          status: 'completed'
         });
+        transaction = result.balanceTransactions[0];
+        client[WALLET_BALANCE_FIELDS[currency]] = result.balances[client.id];
       }
 
       // Save original price if first modification
@@ -2939,9 +3114,20 @@ router.post("/:id/approve-price-change", protect, async (req: AuthRequest, res:
       });
 
       // Clear pending modification
+      const notes = contract.pendingModification.notes;
       contract.pendingModification = undefined;
       await contract.save();
 
+      // Price decreased - credit the invoices for the refunded difference
+      if (priceDifference < 0 && transaction) {
+        await creditNotes.issueForRefund(contract.id, {
+          source: 'price_change',
+          reference: transaction.id,
+          amount: Math.abs(priceDifference),
+          detail: notes,
+        });
+      }
+
       // Update Job price
       const job = await Job.findByPk(contract.jobId);
       if (job) {
@@ -2967,7 +3153,8 @@ router.post("/:id/approve-price-change", protect, async (req: AuthRequest, res:
         message: "Cambio de precio aprobado y aplicado",
         contract,
         transaction,
-        newBalance: client.balanceArs
+        newBalance: client.balanceIn(currency),
+        currency
       });
     } else {
       // Doer rejected
@@ -3216,10 +3403,13 @@ router.post("/:id/respond-task-claim", protect, async (req: AuthRequest, res: Re
       const originalEndDate = contract.endDate;
       contract.endDate = contract.taskClaimNewEndDate!;
 
-      // Reset confirmation status so both parties need to confirm again
-      contract.clientConfirmed = false;
-      contract.doerConfirmed = false;
-      contract.status = 'in_progress';
+      // Reset confirmation status so both parties need to confirm again (resume effects)
+      await transitionContract(contract, 'resume', {
+        actorId: req.user.id.toString(),
+        actorRole: 'doer',
+        reason: contract.taskClaimReason,
+        metadata: { claimedTaskIds: contract.claimedTaskIds, originalEndDate },
+      });
 
       // Clear claim data
       const claimedTasks = await JobTask.findAll({
@@ -3280,10 +3470,13 @@ router.post("/:id/respond-task-claim", protect, async (req: AuthRequest, res: Re
         type: 'task_completion'
       });
 
-      contract.status = 'disputed';
       contract.disputeId = dispute.id;
-      contract.disputedAt = new Date();
-      await contract.save();
+      await transitionContract(contract, 'dispute', {
+        actorId: req.user.id.toString(),
+        actorRole: 'doer',
+        reason: `Reclamo de tareas denegado: ${rejectionReason}`,
+        metadata: { disputeId: dispute.id },
+      });
 
       // Notify both parties
       await NotificationModel.create({
@@ -3318,7 +3511,7 @@ router.post("/:id/respond-task-claim", protect, async (req: AuthRequest, res: Re
     }
   } catch (error: any) {
     console.error('Error responding to task claim:', error);
-    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({ success: false, message: error.message || "Error del servidor" });
   }
 });
 
@@ -3394,6 +3587,7 @@ router.post(
     body("jobId").notEmpty().withMessage("El ID del trabajo es requerido"),
     body("paymentMethod").isIn(['mercadopago', 'astropay', 'binance', 'bank_transfer']).withMessage("Método de pago inválido"),
     body("price").isNumeric().withMessage("El precio debe ser un número"),
+    body("currency").optional().isIn(CURRENCIES).withMessage("Moneda inválida"),
     body("startDate").isISO8601().withMessage("Fecha de inicio inválida"),
     body("endDate").isISO8601().withMessage("Fecha de fin inválida"),
     body("termsAccepted").isBoolean().withMessage("Debes aceptar los términos"),
@@ -3408,12 +3602,14 @@ router.post(
 
       const { jobId, paymentMethod, price, startDate, endDate, termsAccepted, notes, useFreeContract, doerId, autoSelectAt } = req.body;
       const clientId = req.user.id;
+      const currency = toCurrency(req.body.currency);
 
       // Validar monto mínimo
-      if (price < MINIMUM_CONTRACT_AMOUNT) {
+      const minimumAmount = await minimumContractAmount(currency);
+      if (fromDecimal(price, currency).amount < minimumAmount.amount) {
         res.status(400).json({
           success: false,
-          message: `El monto mínimo del contrato es de $${MINIMUM_CONTRACT_AMOUNT.toLocaleString()} ARS`,
+          message: `El monto mínimo del contrato es de ${formatMoney(minimumAmount)}`,
         });
         return;
       }
@@ -3540,7 +3736,10 @@ router.post(
       }
 
       // Calcular comisión
-      const commissionResult = await calculateCommission(clientId, price, { isFreeContract });
+      const commissionResult = await calculateCommission(clientId, fromDecimal(price, currency), {
+        isFreeContract,
+        category: job.category,
+      });
       const commissionRate = commissionResult.rate;
       const commission = commissionResult.commission;
       const totalPrice = price + commission;
@@ -3560,7 +3759,9 @@ router.post(
         price,
         commission,
         commissionPercentage: commissionRate,
+        commissionRuleId: commissionResult.rule?.id ?? null,
         totalPrice,
+        currency,
         startDate,
         endDate,
         termsAccepted,
@@ -3620,7 +3821,7 @@ router.post(
         contract.id.toString(),
         jobPopulated.title || 'Contrato',
         price,
-        'ARS'
+        currency
       );
 
       socketService.notifyContractUpdate(
@@ -3829,8 +4030,11 @@ router.post(
 
       // Cancelar la selección
       // Cambiar estado del contrato a 'cancelled'
-      contract.status = 'cancelled';
-      await contract.save();
+      await transitionContract(contract, 'cancel', {
+        actorId: userId.toString(),
+        actorRole: 'client',
+        reason: 'Selección de trabajador cancelada por el cliente',
+      });
 
       // Actualizar trabajo: remover doerId y volver a 'open'
       job.doerId = null as any;
@@ -3882,7 +4086,7 @@ router.post(
 
     } catch (error: any) {
       console.error("Cancel worker selection error:", error);
-      res.status(500).json({
+      res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
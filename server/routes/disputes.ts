@@ -12,9 +12,22 @@ import disputeAnalytics from "../services/disputeAnalytics.js";
 import { checkPermission } from "../middleware/checkPermission.js";
 import { PERMISSIONS } from "../config/permissions.js";
 import { Op } from 'sequelize';
+import { transitionContract, canTransition } from "../services/contractLifecycle.js";
+import disputeWorkflow from "../services/disputeWorkflow.js";
+import milestoneEscrow from "../services/milestoneEscrow.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
 
 const router = Router();
 
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
 /**
  * Create a dispute
  * POST /api/disputes
@@ -42,6 +55,7 @@ router.post(
 
       const userId = req.user.id;
       const { contractId, reason, description, category } = req.body;
+      const milestoneId: string | null = req.body.milestoneId || null;
       const files = (req as any).files as Express.Multer.File[];
 
       // Process uploaded files
@@ -88,13 +102,13 @@ router.post(
         return;
       }
 
-      // Check if dispute already exists
-      const existingDispute = await Dispute.findOne({ where: { contractId } });
+      // Check if dispute already exists (una por contrato y una por cada hito)
+      const existingDispute = await Dispute.findOne({ where: { contractId, milestoneId } });
 
       if (existingDispute) {
         res.status(400).json({
           success: false,
-          message: "Ya existe una disputa para este contrato",
+          message: milestoneId ? "Ya existe una disputa para este hito" : "Ya existe una disputa para este contrato",
         });
         return;
       }
@@ -115,8 +129,22 @@ router.post(
         }
       }
 
+      // Disputa parcial: solo congela el hito, el contrato no cambia de estado
+      const milestone = milestoneId ? await milestoneEscrow.findDisputable(contractId, milestoneId) : null;
+
+      const actorRole = contract.clientId === userId ? 'client' : 'doer';
+      if (!milestone && !canTransition(contract, 'dispute', actorRole)) {
+        res.status(409).json({
+          success: false,
+          message: `No se puede abrir una disputa sobre un contrato en estado "${contract.status}" con el pago "${contract.paymentStatus}"`,
+        });
+        return;
+      }
+
       // Find payment (may not exist for contracts without escrow/payment)
-      const payment = await Payment.findOne({ where: { contractId } });
+      const payment = milestone
+        ? (milestone.paymentId ? await Payment.findByPk(milestone.paymentId) : null)
+        : await Payment.findOne({ where: { contractId } });
 
       // Determine respondent
       const againstUserId =
@@ -129,7 +157,7 @@ router.post(
       // Calculate automatic priority based on contract value and category
       const disputeCategory = category || 'other';
       const { priority: autoPriority, reason: autoPriorityReason } = Dispute.determineAutoPriority(
-        Number(contract.price),
+        Number(milestone ? milestone.amount : contract.price),
         disputeCategory,
         userIsPro
       );
@@ -146,6 +174,7 @@ router.post(
       // Create dispute
       const dispute = await Dispute.create({
         contractId,
+        milestoneId,
         paymentId: payment?.id || null,
         initiatedBy: userId,
         against: againstUserId,
@@ -162,18 +191,25 @@ router.post(
           action: 'Disputa creada',
           performedBy: userId,
           timestamp: new Date(),
-          details: `Categoría: ${disputeCategory}. Prioridad automática: ${autoPriority} (${autoPriorityReason})${evidence.length > 0 ? `. ${evidence.length} archivo(s) adjunto(s)` : ''}`,
+          details: `${milestone ? `Hito: ${milestone.title}. ` : ''}Categoría: ${disputeCategory}. Prioridad automática: ${autoPriority} (${autoPriorityReason})${evidence.length > 0 ? `. ${evidence.length} archivo(s) adjunto(s)` : ''}`,
         }],
       });
 
-      // Update contract status
-      contract.status = "disputed";
-      contract.disputeId = dispute.id;
-      contract.disputedAt = new Date();
-      await contract.save();
+      if (milestone) {
+        await milestoneEscrow.openDispute(milestone, dispute.id);
+      } else {
+        // Update contract status
+        contract.disputeId = dispute.id;
+        await transitionContract(contract, 'dispute', {
+          actorId: userId,
+          actorRole,
+          reason,
+          metadata: { disputeId: dispute.id, category: disputeCategory },
+        });
+      }
 
-      // Update payment status if payment exists
-      if (payment) {
+      // Update payment status if payment exists (un pago puede cubrir otros hitos que siguen su curso)
+      if (payment && !milestone) {
         payment.status = 'disputed';
         payment.disputeId = dispute.id;
         payment.disputedAt = new Date();
@@ -181,6 +217,13 @@ router.post(
         await payment.save();
       }
 
+      // Primera fase del workflow (presentación del reclamo) con su plazo
+      try {
+        await disputeWorkflow.start(dispute, userId);
+      } catch (error) {
+        console.error(`Error starting workflow for dispute ${dispute.id}:`, error);
+      }
+
       // Notify respondent
       await fcmService.sendToUser({
         userId: againstUserId.toString(),
@@ -216,10 +259,7 @@ router.post(
         data: dispute,
       });
     } catch (error: any) {
-      res.status(500).json({
-        success: false,
-        message: error.message || "Error del servidor",
-      });
+      sendError(res, error, "Error al crear la disputa");
     }
   }
 );
@@ -452,7 +492,7 @@ router.get("/:id", protect, async (req: AuthRequest, res: Response): Promise<voi
 
     res.json({
       success: true,
-      data: dispute,
+      data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) },
     });
   } catch (error: any) {
     res.status(500).json({
@@ -694,4 +734,73 @@ router.post(
   }
 );
 
+/**
+ * Close the filing phase (initiator)
+ * POST /api/disputes/:id/workflow/filing
+ */
+router.post("/:id/workflow/filing", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const dispute = await disputeWorkflow.submitFiling(req.params.id, req.user.id);
+    res.json({ success: true, data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) } });
+  } catch (error: any) {
+    sendError(res, error, "Error al cerrar el reclamo");
+  }
+});
+
+/**
+ * Formal response to the claim (defendant)
+ * POST /api/disputes/:id/workflow/response
+ */
+router.post(
+  "/:id/workflow/response",
+  protect,
+  [body("response").trim().notEmpty().withMessage("La respuesta es requerida")],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        res.status(400).json({ success: false, errors: errors.array() });
+        return;
+      }
+
+      const dispute = await disputeWorkflow.respond(req.params.id, req.user.id, req.body.response);
+      res.json({ success: true, data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) } });
+    } catch (error: any) {
+      sendError(res, error, "Error al responder el reclamo");
+    }
+  }
+);
+
+/**
+ * Close the caller's evidence round
+ * POST /api/disputes/:id/workflow/evidence/close
+ */
+router.post("/:id/workflow/evidence/close", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const dispute = await disputeWorkflow.closeEvidence(req.params.id, req.user.id);
+    res.json({ success: true, data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) } });
+  } catch (error: any) {
+    sendError(res, error, "Error al cerrar la ronda de pruebas");
+  }
+});
+
+/**
+ * Accept or reject the mediator's settlement offer
+ * POST /api/disputes/:id/workflow/offers/:offerId/accept
+ * POST /api/disputes/:id/workflow/offers/:offerId/reject
+ */
+const respondToOffer = (accept: boolean) => async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const { id, offerId } = req.params;
+    const reason = typeof req.body?.reason === "string" ? req.body.reason.trim().slice(0, 500) : undefined;
+    const dispute = await disputeWorkflow.respondToSettlement(id, req.user.id, offerId, accept, reason);
+    res.json({ success: true, data: { ...dispute.toJSON(), workflow: disputeWorkflow.describe(dispute) } });
+  } catch (error: any) {
+    sendError(res, error, "Error al responder la propuesta");
+  }
+};
+
+router.post("/:id/workflow/offers/:offerId/accept", protect, respondToOffer(true));
+router.post("/:id/workflow/offers/:offerId/reject", protect, respondToOffer(false));
+
 export default router;
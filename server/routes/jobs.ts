@@ -12,7 +12,7 @@ import { ChatMessage } from "../models/sql/ChatMessage.model.js";
 import { protect, requireKyc } from "../middleware/auth.js";
 import type { AuthRequest } from "../types/index.js";
 import { socketService } from "../index.js";
-import { Op, Sequelize } from 'sequelize';
+import { Op, Sequelize, literal } from 'sequelize';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
@@ -20,8 +20,17 @@ import { cacheService, generateCacheKey } from "../services/cacheService.js";
 import tasksRoutes from "./tasks.js";
 import { checkAndProcessUserExpiredJobs } from "../jobs/autoCancelExpiredJobs.js";
 import { calculateCommission } from "../services/commissionService.js";
+import { fromDecimal, toCurrency } from "../services/money.js";
 import { canJobsOverlap, getCategoryById } from "../constants/categories.js";
 import { escapeIcsText, formatIcsDate, generateCalendarToken } from "../utils/calendarIcs.js";
+import { JOB_COORDINATES, distanceKmSql, isValidCoordinate, radiusWhere } from "../utils/geo.js";
+import ledger from "../services/ledger.js";
+import { transitionContract, canTransition, ContractTransitionError } from "../services/contractLifecycle.js";
+import doerRecommendations from "../services/doerRecommendations.js";
+import recurringJobs from "../services/recurringJobs.js";
+import jobTeamChat from "../services/jobTeamChat.js";
+import { CALENDAR_HORIZON_DAYS } from "../services/recurrenceRules.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
 
 const router = express.Router();
 
@@ -84,12 +93,15 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
       location,
       tags,
       sortBy = 'date',
+      latitude,
+      longitude,
+      radius, // km
       type // 'jobs' (default) or 'users'
     } = req.query;
 
     // Generate cache key for this request
     const cacheKey = generateCacheKey('jobs:search', {
-      status, category, minPrice, maxPrice, limit, searchQuery, location, tags, sortBy, type
+      status, category, minPrice, maxPrice, limit, searchQuery, location, tags, sortBy, latitude, longitude, radius, type
     });
 
     // Check cache first (cache for 60 seconds for search results)
@@ -198,6 +210,18 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
       }
     }
 
+    // Geolocation: "jobs near me" - bounding box (indexed) + haversine in PostgreSQL
+    const center = isValidCoordinate(latitude, longitude)
+      ? { latitude: Number(latitude), longitude: Number(longitude) }
+      : null;
+    const distanceSql = center
+      ? distanceKmSql(center, JOB_COORDINATES.latColumn, JOB_COORDINATES.lngColumn)
+      : null;
+
+    if (center && Number(radius) > 0) {
+      query[Op.and] = radiusWhere(center, Number(radius), JOB_COORDINATES);
+    }
+
     // Determine sort order based on sortBy parameter
     let sortOrder: any = [['createdAt', 'DESC']]; // default
 
@@ -205,9 +229,9 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
       sortOrder = [['price', 'ASC']];
     } else if (sortBy === 'budget-desc') {
       sortOrder = [['price', 'DESC']];
-    } else if (sortBy === 'proximity') {
-      // For proximity, we'll need to sort after filtering by location
-      sortOrder = [['createdAt', 'DESC']]; // fallback to date for now
+    } else if ((sortBy === 'distance' || sortBy === 'proximity') && distanceSql) {
+      // Closest first; jobs without coordinates go last
+      sortOrder = [[literal(distanceSql), 'ASC NULLS LAST'], ['createdAt', 'DESC']];
     }
 
     // Debug: Log the query being executed
@@ -219,6 +243,7 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
 
     let jobs = await Job.findAll({
       where: query,
+      attributes: distanceSql ? { include: [[literal(distanceSql), 'distance']] } : undefined,
       include: [
         {
           model: User,
@@ -261,6 +286,9 @@ router.get("/", async (req: Request, res: Response): Promise<void> => {
       if (jobData.publicationAmount) jobData.publicationAmount = parseFloat(jobData.publicationAmount);
       if (jobData.client?.rating) jobData.client.rating = parseFloat(jobData.client.rating);
       if (jobData.doer?.rating) jobData.doer.rating = parseFloat(jobData.doer.rating);
+      if (jobData.distance !== undefined && jobData.distance !== null) {
+        jobData.distance = Math.round(Number(jobData.distance) * 10) / 10;
+      }
       return jobData;
     });
 
@@ -620,6 +648,26 @@ router.get("/debug-by-code/:code", protect, async (req: AuthRequest, res: Respon
   }
 });
 
+// @route   GET /api/jobs/recommended
+// @desc    Trabajos abiertos recomendados para el doer, con el motivo de cada sugerencia
+// @access  Private
+router.get("/recommended", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const recommendations = await doerRecommendations.recommendJobsForDoer(req.user!.id, {
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      category: typeof req.query.category === 'string' ? req.query.category : undefined,
+    });
+    res.json({ success: true, data: recommendations });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error('Error getting recommended jobs:', error);
+    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
 // --- iCal Calendar Feed (must be before /:id route) ---
 
 // Get subscription URL for authenticated user
@@ -706,6 +754,24 @@ router.get("/calendar/feed/:token.ics", async (req: Request, res: Response): Pro
       ].filter(Boolean).join('\r\n'));
     }
 
+    // Upcoming occurrences of recurring series that have no job yet (generated
+    // ones are already listed above as jobs or contracts)
+    const horizon = new Date(Date.now() + CALENDAR_HORIZON_DAYS * 24 * 60 * 60 * 1000);
+    const occurrences = await recurringJobs.calendarFor(user.id, { from: new Date(), to: horizon });
+    for (const occurrence of occurrences) {
+      if (occurrence.jobId || occurrence.status === 'skipped') continue;
+      const desc = escapeIcsText(`Serie recurrente (${occurrence.role === 'client' ? 'cliente' : 'Doer preferido'})\nPrecio: $${occurrence.price.toLocaleString('es-AR')} ARS`);
+
+      events.push([
+        'BEGIN:VEVENT', `UID:recurring-${occurrence.recurringJobId}-${occurrence.occurrenceDate}@doapp.com`, `DTSTAMP:${now}`,
+        `DTSTART:${formatIcsDate(occurrence.startsAt)}`, `DTEND:${formatIcsDate(occurrence.endsAt)}`,
+        `SUMMARY:[Recurrente] ${escapeIcsText(occurrence.title)}`, `DESCRIPTION:${desc}`,
+        occurrence.location ? `LOCATION:${escapeIcsText(occurrence.location)}` : '',
+        'STATUS:TENTATIVE',
+        'END:VEVENT',
+      ].filter(Boolean).join('\r\n'));
+    }
+
     // Add availability slots as recurring weekly events
     const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
     const DAY_NAMES = ['Domingo', 'Lunes', 'Martes', 'Miércoles', 'Jueves', 'Viernes', 'Sábado'];
@@ -1373,7 +1439,7 @@ router.put("/:id", protect, upload.array('images', 5), async (req: AuthRequest,
         }
 
         // Calcular comisión usando el servicio centralizado basado en volumen
-        const commissionResult = await calculateCommission(req.user.id, priceDifference);
+        const commissionResult = await calculateCommission(req.user.id, priceDifference, { category: job.category });
         const commissionRate = commissionResult.rate;
         const additionalCommission = commissionResult.commission;
 
@@ -1694,10 +1760,14 @@ router.delete("/:id", protect, async (req: AuthRequest, res: Response): Promise<
 
     // Cancelar contratos activos y notificar a los workers
     for (const contract of activeContracts) {
-      contract.status = 'cancelled';
       contract.cancellationReason = 'El trabajo fue eliminado por el cliente';
       contract.cancelledBy = req.user.id;
-      await contract.save();
+      await transitionContract(contract, 'cancel', {
+        actorId: req.user.id.toString(),
+        actorRole: 'client',
+        reason: 'El trabajo fue eliminado por el cliente',
+        metadata: { jobDeleted: true },
+      });
 
       if (contract.doerId) {
         // Crear notificación persistente
@@ -1790,7 +1860,7 @@ router.delete("/:id", protect, async (req: AuthRequest, res: Response): Promise<
       message: "Trabajo eliminado",
     });
   } catch (error: any) {
-    res.status(500).json({
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -2022,7 +2092,17 @@ router.patch("/:id/budget", protect, async (req: AuthRequest, res: Response): Pr
       const refundAmount = Math.abs(priceDifference);
 
       // Acreditar al balance del usuario
-      await client.addBalance(refundAmount);
+      await ledger.escrowToWallet(client.id, { amount: refundAmount }, {
+        kind: 'refund',
+        description: `Reducción de presupuesto del trabajo ${job.id}`,
+        jobId: job.id,
+        createdBy: req.user.id,
+        history: {
+          type: 'refund',
+          description: `Reembolso por reducción de presupuesto - ${job.title}`,
+          metadata: { jobId: job.id, oldPrice: currentPrice, newPrice },
+        },
+      });
 
       // Agregar al historial de cambios
       const priceHistory = job.priceHistory || [];
@@ -2067,7 +2147,7 @@ router.patch("/:id/budget", protect, async (req: AuthRequest, res: Response): Pr
     // CASO 2: El precio SUBE -> Usar balance disponible y cobrar lo que falta
     if (priceDifference > 0) {
       // Calcular comisión usando el servicio centralizado basado en volumen
-      const commissionResult = await calculateCommission(client.id, priceDifference);
+      const commissionResult = await calculateCommission(client.id, priceDifference, { category: job.category });
       const commissionRate = commissionResult.rate;
       const additionalCommission = commissionResult.commission;
       const totalRequired = priceDifference + additionalCommission;
@@ -2079,7 +2159,16 @@ router.patch("/:id/budget", protect, async (req: AuthRequest, res: Response): Pr
       // Si el balance cubre todo, procesar directamente
       if (amountToPay <= 0) {
         // Descontar del balance
-        await client.subtractBalance(totalRequired);
+        await ledger.walletToEscrow(client.id, { amount: priceDifference, commission: additionalCommission }, {
+          description: `Aumento de presupuesto del trabajo ${job.id}`,
+          jobId: job.id,
+          createdBy: req.user.id,
+          history: {
+            type: 'payment',
+            description: `Aumento de presupuesto - ${job.title}`,
+            metadata: { jobId: job.id, oldPrice: currentPrice, newPrice, priceDifference, additionalCommission },
+          },
+        });
 
         // Agregar al historial de cambios
         const priceHistory = job.priceHistory || [];
@@ -2538,25 +2627,26 @@ router.patch("/:id/cancel", protect, async (req: AuthRequest, res: Response): Pr
     if (clientRefund > 0) {
       const client = await User.findByPk(job.clientId);
       if (client) {
-        const before = parseFloat(client.balanceArs as any) || 0;
-        await client.addBalance(clientRefund);
-        await BalanceTransaction.create({
-          userId: job.clientId,
-          type: 'refund',
-          amount: clientRefund,
-          balanceBefore: before,
-          balanceAfter: before + clientRefund,
-          description: `Reembolso por cancelación del trabajo "${job.title}"`,
-          status: 'completed',
-          metadata: {
-            reason: isPendingApproval ? 'job_cancelled_pending_approval' : isLateNoWorker ? 'job_cancelled_late_no_worker' : isLateCancellation ? 'job_cancelled_late' : 'job_cancelled',
-            jobId: job.id,
-            jobPrice,
-            commissionRefunded: isPendingApproval ? commissionPaid : 0,
-            commissionWithheld: isPendingApproval ? 0 : commissionPaid,
-            hoursUntilStart: Math.round(hoursUntilStart * 100) / 100,
+        const commissionRefunded = isPendingApproval ? commissionPaid : 0;
+        await ledger.escrowToWallet(job.clientId, { amount: clientRefund - commissionRefunded, commission: commissionRefunded }, {
+          kind: 'refund',
+          description: `Cancelación del trabajo ${job.id}: reembolso al cliente`,
+          idempotencyKey: `job:${job.id}:cancel_refund`,
+          jobId: job.id,
+          createdBy: req.user.id,
+          history: {
+            type: 'refund',
+            description: `Reembolso por cancelación del trabajo "${job.title}"`,
+            metadata: {
+              reason: isPendingApproval ? 'job_cancelled_pending_approval' : isLateNoWorker ? 'job_cancelled_late_no_worker' : isLateCancellation ? 'job_cancelled_late' : 'job_cancelled',
+              jobId: job.id,
+              jobPrice,
+              commissionRefunded,
+              commissionWithheld: isPendingApproval ? 0 : commissionPaid,
+              hoursUntilStart: Math.round(hoursUntilStart * 100) / 100,
+            },
           },
-        } as any);
+        });
         await Notification.create({
           recipientId: job.clientId,
           type: 'success',
@@ -2576,18 +2666,18 @@ router.patch("/:id/cancel", protect, async (req: AuthRequest, res: Response): Pr
       for (const workerId of selectedWorkers) {
         const worker = await User.findByPk(workerId).catch(() => null);
         if (worker) {
-          const before = parseFloat(worker.balanceArs as any) || 0;
-          await worker.addBalance(perWorker);
-          await BalanceTransaction.create({
-            userId: workerId,
-            type: 'payment',
-            amount: perWorker,
-            balanceBefore: before,
-            balanceAfter: before + perWorker,
-            description: `Compensación por cancelación tardía del trabajo "${job.title}"`,
-            status: 'completed',
-            metadata: { reason: 'job_cancelled_late_compensation', jobId: job.id, jobPrice },
-          } as any);
+          await ledger.escrowToWallet(workerId, { amount: perWorker }, {
+            kind: 'payout',
+            description: `Cancelación tardía del trabajo ${job.id}: compensación al trabajador`,
+            idempotencyKey: `job:${job.id}:cancel_compensation:${workerId}`,
+            jobId: job.id,
+            createdBy: req.user.id,
+            history: {
+              type: 'payment',
+              description: `Compensación por cancelación tardía del trabajo "${job.title}"`,
+              metadata: { reason: 'job_cancelled_late_compensation', jobId: job.id, jobPrice },
+            },
+          });
           await Notification.create({
             recipientId: workerId,
             type: 'info',
@@ -2663,6 +2753,35 @@ router.use((error: any, req: Request, res: Response, next: any) => {
   next(error);
 });
 
+// @route   GET /api/jobs/:id/recommended-doers
+// @desc    Doers recomendados para un trabajo abierto (dueño o admin)
+// @access  Private
+router.get("/:id/recommended-doers",
+  protect,
+  [param("id").isUUID().withMessage("ID de trabajo inválido")],
+  async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({ success: false, message: "ID de trabajo inválido", errors: errors.array() });
+      return;
+    }
+
+    const recommendations = await doerRecommendations.recommendDoersForJob(req.params.id, req.user!, {
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      includeUnavailable: req.query.includeUnavailable === 'true',
+    });
+    res.json({ success: true, data: recommendations });
+  } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
+    console.error('Error getting recommended doers:', error);
+    res.status(500).json({ success: false, message: error.message || "Error del servidor" });
+  }
+});
+
 // @route   GET /api/jobs/:id/worker-allocations
 // @desc    Get worker payment allocations for a job
 // @access  Private
@@ -2834,6 +2953,9 @@ router.put("/:id/worker-allocations", protect, async (req: AuthRequest, res: Res
     job.remainingBudget = jobPrice - totalAllocation;
     await job.save();
 
+    // Alinear el chat de equipo con los trabajadores seleccionados
+    await jobTeamChat.syncMembers(job);
+
     // Update contracts with new allocation amounts
     for (const allocation of allocations) {
       const contract = await Contract.findOne({
@@ -2846,8 +2968,13 @@ router.put("/:id/worker-allocations", protect, async (req: AuthRequest, res: Res
 
       if (contract) {
         const newAmount = parseFloat(allocation.allocatedAmount);
-        const PLATFORM_COMMISSION = 0.1;
-        const newCommission = newAmount * PLATFORM_COMMISSION;
+        // Misma regla de comisión con la que se creó el contrato
+        const commissionResult = await calculateCommission(
+          contract.clientId,
+          fromDecimal(newAmount, toCurrency(contract.currency)),
+          { ruleId: contract.commissionRuleId, category: job.category }
+        );
+        const newCommission = commissionResult.commission;
 
         // Add to price modification history
         contract.addPriceModification(
@@ -2861,6 +2988,8 @@ router.put("/:id/worker-allocations", protect, async (req: AuthRequest, res: Res
         contract.allocatedAmount = newAmount;
         contract.percentageOfBudget = (newAmount / jobPrice) * 100;
         contract.commission = newCommission;
+        contract.commissionPercentage = commissionResult.rate;
+        contract.commissionRuleId = commissionResult.rule?.id ?? null;
         contract.totalPrice = newAmount + newCommission;
         await contract.save();
 
@@ -2945,6 +3074,23 @@ router.delete("/:id/workers/:workerId", protect, async (req: AuthRequest, res: R
       return;
     }
 
+    // The removed worker's contract is cancelled below; check it can be before touching the job
+    const workerContract = await Contract.findOne({
+      where: {
+        jobId: job.id,
+        doerId: workerId,
+        status: { [Op.notIn]: ['cancelled', 'completed'] }
+      }
+    });
+
+    if (workerContract && !canTransition(workerContract, 'cancel', 'client')) {
+      res.status(409).json({
+        success: false,
+        message: `No se puede remover al trabajador: su contrato está en estado "${workerContract.status}" con el pago "${workerContract.paymentStatus}"`,
+      });
+      return;
+    }
+
     // Get the worker's allocation
     const workerAllocation = job.workerAllocations?.find(a => a.workerId === workerId);
     const removedAmount = workerAllocation?.allocatedAmount || 0;
@@ -2986,8 +3132,12 @@ router.delete("/:id/workers/:workerId", protect, async (req: AuthRequest, res: R
 
         if (contract) {
           const newAmount = allocation.allocatedAmount;
-          const PLATFORM_COMMISSION = 0.1;
-          const newCommission = newAmount * PLATFORM_COMMISSION;
+          const commissionResult = await calculateCommission(
+            contract.clientId,
+            fromDecimal(newAmount, toCurrency(contract.currency)),
+            { ruleId: contract.commissionRuleId, category: job.category }
+          );
+          const newCommission = commissionResult.commission;
 
           contract.addPriceModification(
             Number(contract.price),
@@ -3000,6 +3150,8 @@ router.delete("/:id/workers/:workerId", protect, async (req: AuthRequest, res: R
           contract.allocatedAmount = newAmount;
           contract.percentageOfBudget = allocation.percentage;
           contract.commission = newCommission;
+          contract.commissionPercentage = commissionResult.rate;
+          contract.commissionRuleId = commissionResult.rule?.id ?? null;
           contract.totalPrice = newAmount + newCommission;
           await contract.save();
 
@@ -3033,20 +3185,19 @@ router.delete("/:id/workers/:workerId", protect, async (req: AuthRequest, res: R
 
     await job.save();
 
-    // Cancel the removed worker's contract
-    const workerContract = await Contract.findOne({
-      where: {
-        jobId: job.id,
-        doerId: workerId,
-        status: { [Op.notIn]: ['cancelled', 'completed'] }
-      }
-    });
+    // El trabajador removido sale del chat de equipo
+    await jobTeamChat.syncMembers(job);
 
+    // Cancel the removed worker's contract
     if (workerContract) {
-      workerContract.status = 'cancelled';
       workerContract.cancellationReason = 'Removido del trabajo por el cliente';
       workerContract.cancelledBy = req.user.id;
-      await workerContract.save();
+      await transitionContract(workerContract, 'cancel', {
+        actorId: req.user.id.toString(),
+        actorRole: 'client',
+        reason: 'Removido del trabajo por el cliente',
+        metadata: { removedWorkerId: workerId },
+      });
 
       // Notify removed worker
       await Notification.create({
@@ -3085,7 +3236,7 @@ router.delete("/:id/workers/:workerId", protect, async (req: AuthRequest, res: R
     });
   } catch (error: any) {
     console.error('❌ Error removing worker:', error);
-    res.status(500).json({
+    res.status(error instanceof ContractTransitionError ? error.statusCode : 500).json({
       success: false,
       message: error.message || "Error del servidor",
     });
@@ -1,8 +1,13 @@
 import { Router, Response } from "express";
+import { Op } from "sequelize";
 import { protect, AuthRequest } from "../middleware/auth.js";
 import membershipService from "../services/membershipService.js";
 import currencyExchange from "../services/currencyExchange.js";
 import { body, validationResult } from "express-validator";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import fiscalInvoicing from "../services/fiscalInvoicing.js";
+import { getFiscalProvider } from "../services/fiscalProviders.js";
+import { formatFiscalNumber, invoicingReadiness, parseFiscalSettings } from "../services/fiscalRules.js";
 
 // Membresías cotizadas en USD, cobradas en ARS al dólar blue del día (dolarhoy.com).
 const PRO_PRICE_USD = 6;
@@ -878,7 +883,8 @@ router.get("/analytics", protect, async (req: AuthRequest, res: Response): Promi
 /**
  * PUT /api/membership/fiscal
  * Guarda la condición fiscal del usuario (para el panel "Impuestos y Obligaciones").
- * Body: { fiscalCondition?, monotributoCategory?, monotributoAnnualLimit? }
+ * Body: { fiscalCondition?, monotributoCategory?, monotributoAnnualLimit?,
+ *         fiscalCuit?, fiscalPointOfSale?, electronicInvoicingEnabled? }
  */
 router.put("/fiscal", protect, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
@@ -892,6 +898,15 @@ router.put("/fiscal", protect, async (req: AuthRequest, res: Response): Promise<
       res.status(400).json({ success: false, message: 'Condición fiscal inválida' });
       return;
     }
+    const invoicingSettings = parseFiscalSettings(req.body || {});
+    if (invoicingSettings.electronicInvoicingEnabled && req.user.membershipTier !== 'super_pro') {
+      res.status(403).json({
+        success: false,
+        code: 'SUPER_PRO_REQUIRED',
+        message: 'La facturación electrónica es exclusiva de miembros SUPER PRO',
+      });
+      return;
+    }
 
     const { User } = await import('../models/sql/User.model.js');
     const userId = req.user.id || req.user._id?.toString();
@@ -920,6 +935,7 @@ router.put("/fiscal", protect, async (req: AuthRequest, res: Response): Promise<
       const goal = Number(monthlyBillingGoal);
       user.monthlyBillingGoal = (!isFinite(goal) || goal <= 0) ? null : goal;
     }
+    user.set(invoicingSettings);
     await user.save();
 
     res.json({
@@ -933,11 +949,76 @@ router.put("/fiscal", protect, async (req: AuthRequest, res: Response): Promise<
         licenseCategory: user.licenseCategory || null,
         licenseExpiresAt: user.licenseExpiresAt || null,
         monthlyBillingGoal: user.monthlyBillingGoal ? Number(user.monthlyBillingGoal) : null,
+        fiscalCuit: user.fiscalCuit || null,
+        fiscalPointOfSale: user.fiscalPointOfSale || null,
+        electronicInvoicingEnabled: !!user.electronicInvoicingEnabled,
+        invoicing: invoicingReadiness(user),
       },
     });
   } catch (error: any) {
     console.error('Error saving fiscal config:', error);
-    res.status(500).json({ success: false, message: error.message || 'Error al guardar la configuración fiscal' });
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || 'Error al guardar la configuración fiscal' });
+  }
+});
+
+/**
+ * GET /api/membership/fiscal/invoicing
+ * Facturación electrónica del usuario SUPER PRO: configuración, qué le falta
+ * para emitir, facturado en los últimos 12 meses contra el tope de monotributo
+ * y sus últimas facturas y notas de crédito electrónicas.
+ */
+router.get("/fiscal/invoicing", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    if (req.user.membershipTier !== 'super_pro') {
+      res.status(403).json({
+        success: false,
+        code: 'SUPER_PRO_REQUIRED',
+        message: 'La facturación electrónica es exclusiva de miembros SUPER PRO',
+      });
+      return;
+    }
+
+    const { Invoice } = await import('../models/sql/Invoice.model.js');
+    const user: any = req.user;
+    const [usage, invoices] = await Promise.all([
+      fiscalInvoicing.usage(user.id, user.fiscalCondition === 'monotributo' ? user.monotributoAnnualLimit : null),
+      Invoice.findAll({
+        where: { userId: user.id, type: ['fiscal_invoice', 'credit_note'], fiscalType: { [Op.ne]: null } },
+        order: [['createdAt', 'DESC']],
+        limit: 20,
+      }),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        fiscalCuit: user.fiscalCuit || null,
+        fiscalPointOfSale: user.fiscalPointOfSale || null,
+        electronicInvoicingEnabled: !!user.electronicInvoicingEnabled,
+        provider: getFiscalProvider().name,
+        readiness: invoicingReadiness(user),
+        usage,
+        invoices: invoices.map((invoice) => ({
+          id: invoice.id,
+          invoiceNumber: invoice.invoiceNumber,
+          fiscalType: invoice.fiscalType,
+          fiscalNumber: invoice.fiscalNumber && invoice.pointOfSale ? formatFiscalNumber(invoice.pointOfSale, invoice.fiscalNumber) : null,
+          fiscalStatus: invoice.fiscalStatus,
+          status: invoice.status,
+          creditedInvoiceNumber: invoice.metadata?.creditedInvoiceNumber || null,
+          cae: invoice.cae,
+          caeExpiresAt: invoice.caeExpiresAt,
+          total: Number(invoice.total),
+          clientName: invoice.metadata?.clientName || null,
+          jobTitle: invoice.metadata?.jobTitle || null,
+          messages: invoice.metadata?.fiscalMessages || [],
+          createdAt: invoice.createdAt,
+        })),
+      },
+    });
+  } catch (error: any) {
+    console.error('Error fetching electronic invoicing:', error);
+    res.status(500).json({ success: false, message: error.message || 'Error al obtener la facturación electrónica' });
   }
 });
 
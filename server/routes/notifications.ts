@@ -5,9 +5,13 @@ import { Notification } from "../models/sql/Notification.model.js";
 import fcmService from "../services/fcm.js";
 import { body, validationResult } from "express-validator";
 import { Op } from "sequelize";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import { normalizeDeliveryPreferences } from "../services/notificationDeliveryRules.js";
 
 const router = Router();
 
+const PREFERENCE_TOGGLES = ['email', 'push', 'sms', 'newMessage', 'jobUpdate', 'contractUpdate', 'paymentUpdate', 'marketing'] as const;
+
 /**
  * Register FCM token for push notifications
  * POST /api/notifications/register-token
@@ -155,11 +159,18 @@ router.put("/preferences", protect, async (req: AuthRequest, res: Response): Pro
       return;
     }
 
+    // Canales y categorías son booleanos; idioma, silencio y modos de entrega se validan aparte
+    const toggles = Object.fromEntries(
+      PREFERENCE_TOGGLES.filter((key) => typeof preferences[key] === 'boolean').map((key) => [key, preferences[key]])
+    );
+    const delivery = normalizeDeliveryPreferences(preferences);
+
     // Update preferences
     user.notificationPreferences = {
       ...user.notificationPreferences,
-      ...preferences,
-    };
+      ...toggles,
+      ...delivery,
+    } as typeof user.notificationPreferences;
 
     await user.save();
 
@@ -169,6 +180,10 @@ router.put("/preferences", protect, async (req: AuthRequest, res: Response): Pro
       message: "Preferencias actualizadas exitosamente",
     });
   } catch (error: any) {
+    if (error instanceof ErrorResponse) {
+      res.status(error.statusCode).json({ success: false, message: error.message });
+      return;
+    }
     console.error("Update notification preferences error:", error);
     res.status(500).json({
       success: false,
@@ -17,9 +17,17 @@ import path from 'path';
 import fs from 'fs';
 import { Invoice } from '../models/sql/Invoice.model.js';
 import { getUserInvoices, getInvoiceById } from '../services/invoiceService.js';
+import fiscalInvoicing from '../services/fiscalInvoicing.js';
+import { formatFiscalNumber } from '../services/fiscalRules.js';
 import logger from "../services/logger.js";
 import { socketService } from "../index.js";
 import { calculateCommission } from "../services/commissionService.js";
+import ledger from "../services/ledger.js";
+import webhookInbox from "../services/webhookInbox.js";
+import milestoneEscrow from "../services/milestoneEscrow.js";
+import { createContractPayment } from "../services/contractPayments.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import { sequelize } from "../config/database.js";
 
 // Ensure upload directory exists
 const PAYMENT_PROOFS_DIR = path.join(process.cwd(), 'uploads', 'payment-proofs');
@@ -657,9 +665,21 @@ router.post("/capture-order", protect, async (req: AuthRequest, res: Response):
       payment.status = "held_escrow";
     }
 
-    await payment.save();
+    // El pago y su asiento en el ledger se guardan juntos
+    await sequelize.transaction(async (transaction) => {
+      await payment.save({ transaction });
+      if (payment.status !== "processing") {
+        await ledger.recordPaymentCapture(payment, { transaction });
+      }
+    });
     console.log("✅ [CAPTURE] Step 6 - Payment record updated. New status:", payment.status);
 
+    if (payment.status === "held_escrow") {
+      await milestoneEscrow.markFunded(payment).catch((err) =>
+        console.error("[Milestones] Failed to mark milestones as funded:", err.message)
+      );
+    }
+
     // Log payment capture success
     logger.payment('CAPTURED', 'Payment captured successfully', {
       paymentId: payment.id,
@@ -1305,49 +1325,121 @@ router.get("/contract/:contractId", protect, async (req: AuthRequest, res: Respo
   }
 });
 
+/**
+ * Inbox processor for PayPal events (only logged for now; capture happens
+ * synchronously in /capture-order).
+ */
+webhookInbox.registerProcessor("paypal", async (event) => {
+  const webhookEvent = event.payload;
+
+  // Handle different event types
+  switch (webhookEvent.event_type) {
+    case "PAYMENT.CAPTURE.COMPLETED":
+      // Payment captured successfully
+      console.log("Payment captured:", webhookEvent.resource?.id);
+      break;
+
+    case "PAYMENT.CAPTURE.DENIED":
+      // Payment denied
+      console.log("Payment denied:", webhookEvent.resource?.id);
+      break;
+
+    case "PAYMENT.CAPTURE.REFUNDED":
+      // Payment refunded
+      console.log("Payment refunded:", webhookEvent.resource?.id);
+      break;
+
+    default:
+      console.log("Unhandled webhook event:", webhookEvent.event_type);
+  }
+});
+
 /**
  * PayPal webhook handler
  * POST /api/payments/webhook
  */
 router.post("/webhook", async (req, res): Promise<void> => {
   try {
-    const webhookEvent = req.body;
-
     // TODO: Verify webhook signature for security
     // const isValid = await paypalService.verifyWebhookSignature(req.headers, req.body, WEBHOOK_ID);
-    // if (!isValid) {
-    //   res.status(400).json({ success: false, message: "Invalid webhook signature" });
-    //   return;
-    // }
-
-    // Handle different event types
-    switch (webhookEvent.event_type) {
-      case "PAYMENT.CAPTURE.COMPLETED":
-        // Payment captured successfully
-        console.log("Payment captured:", webhookEvent.resource.id);
-        break;
-
-      case "PAYMENT.CAPTURE.DENIED":
-        // Payment denied
-        console.log("Payment denied:", webhookEvent.resource.id);
-        break;
+    const { event, duplicate } = await webhookInbox.receive({
+      provider: "paypal",
+      payload: req.body,
+      headers: req.headers,
+      signatureStatus: "skipped",
+      ip: req.ip,
+    });
 
-      case "PAYMENT.CAPTURE.REFUNDED":
-        // Payment refunded
-        console.log("Payment refunded:", webhookEvent.resource.id);
-        break;
+    res.json({ success: true });
 
-      default:
-        console.log("Unhandled webhook event:", webhookEvent.event_type);
+    if (!duplicate) {
+      await webhookInbox.process(event.id);
     }
-
-    res.json({ success: true });
   } catch (error: any) {
     console.error("Webhook error:", error);
-    res.status(500).json({ success: false, message: error.message });
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, message: error.message });
+    }
   }
 });
 
+/**
+ * Inbox processor for AstroPay deposit notifications. Errors propagate so the
+ * inbox retries the event; every step is safe to repeat (status guards and
+ * the ledger idempotency key).
+ */
+webhookInbox.registerProcessor("astropay", async (event) => {
+  const depositId: string = String(event.payload.deposit_id || event.payload.id);
+  const apStatus: string = (event.payload.status || "").toString().toUpperCase();
+
+  const payment = await Payment.findOne({ where: { astropayDepositId: depositId } });
+  if (!payment) {
+    // Nothing to update; AstroPay already got its 200.
+    console.warn(`[AstroPay webhook] payment not found for deposit ${depositId}`);
+    return;
+  }
+
+  payment.astropayStatus = apStatus;
+
+  const approved = ["APPROVED", "COMPLETED", "PAID", "SUCCESS"].includes(apStatus);
+  const failed = ["REJECTED", "CANCELLED", "FAILED", "EXPIRED"].includes(apStatus);
+
+  if (approved && payment.status === "pending") {
+    if (payment.paymentType === "contract_payment" && payment.isEscrow) {
+      // Escrow SYNC: keep payment + contract escrow status aligned (see CLAUDE.md)
+      payment.status = "held_escrow";
+      if (payment.contractId) {
+        const contract = await Contract.findByPk(payment.contractId);
+        if (contract) {
+          contract.escrowStatus = "held_escrow";
+          (contract as any).paymentStatus = "held";
+          await contract.save();
+        }
+      }
+    } else if (payment.paymentType === "job_publication") {
+      payment.status = "completed";
+      // Move the related job to admin approval, mirroring the MercadoPago success path
+      const relatedJob = await Job.findOne({ where: { publicationPaymentId: payment.id } });
+      if (relatedJob && relatedJob.status === "pending_payment") {
+        relatedJob.status = "pending_approval";
+        (relatedJob as any).publicationPaid = true;
+        await relatedJob.save();
+      }
+    } else {
+      payment.status = "completed";
+    }
+  } else if (failed) {
+    payment.status = "failed";
+  }
+
+  await sequelize.transaction(async (transaction) => {
+    await payment.save({ transaction });
+    if (approved) await ledger.recordPaymentCapture(payment, { transaction });
+  });
+
+  if (approved && payment.status === "held_escrow") await milestoneEscrow.markFunded(payment);
+});
+
 /**
  * AstroPay webhook — payment status notifications.
  * Uses raw body so the HMAC signature can be verified byte-for-byte.
@@ -1357,67 +1449,38 @@ router.post("/webhook/astropay", express.raw({ type: "*/*" }), async (req, res):
   try {
     const rawBody = Buffer.isBuffer(req.body) ? req.body.toString("utf8") : JSON.stringify(req.body);
     const signature = (req.headers["merchant-gateway-signature"] || req.headers["x-astropay-signature"]) as string | undefined;
+    const signatureValid = astropayService.verifyWebhookSignature(rawBody, signature);
 
-    if (!astropayService.verifyWebhookSignature(rawBody, signature)) {
-      console.warn("[AstroPay webhook] invalid signature");
-      res.status(401).json({ success: false, message: "Invalid signature" });
-      return;
-    }
-
-    const event = JSON.parse(rawBody);
-    const depositId: string | undefined = event.deposit_id || event.id;
-    const apStatus: string = (event.status || "").toString().toUpperCase();
-
-    if (!depositId) {
+    const payload = JSON.parse(rawBody);
+    if (!payload.deposit_id && !payload.id) {
       res.status(400).json({ success: false, message: "Missing deposit id" });
       return;
     }
 
-    const payment = await Payment.findOne({ where: { astropayDepositId: depositId } });
-    if (!payment) {
-      // Acknowledge so AstroPay stops retrying; nothing to update.
-      res.json({ success: true, message: "Payment not found" });
+    const { event, duplicate } = await webhookInbox.receive({
+      provider: "astropay",
+      payload,
+      headers: req.headers,
+      signatureStatus: signatureValid ? "valid" : "invalid",
+      ip: req.ip,
+    });
+
+    if (!signatureValid) {
+      console.warn("[AstroPay webhook] invalid signature");
+      res.status(401).json({ success: false, message: "Invalid signature" });
       return;
     }
 
-    payment.astropayStatus = apStatus;
-
-    const approved = ["APPROVED", "COMPLETED", "PAID", "SUCCESS"].includes(apStatus);
-    const failed = ["REJECTED", "CANCELLED", "FAILED", "EXPIRED"].includes(apStatus);
+    res.json({ success: true });
 
-    if (approved && payment.status === "pending") {
-      if (payment.paymentType === "contract_payment" && payment.isEscrow) {
-        // Escrow SYNC: keep payment + contract escrow status aligned (see CLAUDE.md)
-        payment.status = "held_escrow";
-        if (payment.contractId) {
-          const contract = await Contract.findByPk(payment.contractId);
-          if (contract) {
-            contract.escrowStatus = "held_escrow";
-            (contract as any).paymentStatus = "held";
-            await contract.save();
-          }
-        }
-      } else if (payment.paymentType === "job_publication") {
-        payment.status = "completed";
-        // Move the related job to admin approval, mirroring the MercadoPago success path
-        const relatedJob = await Job.findOne({ where: { publicationPaymentId: payment.id } });
-        if (relatedJob && relatedJob.status === "pending_payment") {
-          relatedJob.status = "pending_approval";
-          (relatedJob as any).publicationPaid = true;
-          await relatedJob.save();
-        }
-      } else {
-        payment.status = "completed";
-      }
-    } else if (failed) {
-      payment.status = "failed";
+    if (!duplicate) {
+      await webhookInbox.process(event.id);
     }
-
-    await payment.save();
-    res.json({ success: true });
   } catch (error: any) {
     console.error("[AstroPay webhook] error:", error);
-    res.status(500).json({ success: false, message: error.message });
+    if (!res.headersSent) {
+      res.status(500).json({ success: false, message: error.message });
+    }
   }
 });
 
@@ -1510,91 +1573,23 @@ router.post("/job-publication/:jobId", protect, async (req: AuthRequest, res: Re
  */
 router.post("/contract/:contractId", protect, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
-    const { contractId } = req.params;
-    const userId = req.user.id;
-
-    // Find the contract
-    const contract = await Contract.findByPk(contractId, {
-      include: [
-        { model: Job, as: 'job' },
-        { model: User, as: 'client' },
-        { model: User, as: 'doer' }
-      ]
-    });
-
-    if (!contract) {
-      res.status(404).json({ success: false, message: "Contract not found" });
-      return;
-    }
-
-    // Verify user is the client
-    if ((contract.client as any).id !== userId) {
-      res.status(403).json({ success: false, message: "Only the client can pay for this contract" });
-      return;
-    }
-
-    // Check if already paid
-    if (contract.status === "in_progress" || contract.status === "completed") {
-      res.status(400).json({ success: false, message: "Contract already paid" });
-      return;
-    }
-
-    // Check for existing payment
-    const existingPayment = await Payment.findOne({
-      where: {
-        contractId: contract.id,
-        status: { [Op.in]: ["pending", "approved", "held_escrow"] }
-      }
+    const result = await createContractPayment(req.params.contractId, req.user.id, {
+      milestoneId: req.body?.milestoneId,
     });
 
-    if (existingPayment) {
-      res.status(400).json({ success: false, message: "Payment already exists for this contract" });
-      return;
-    }
-
-    const jobTitle = (contract.job as any).title || 'Contrato';
-
-    // Create MercadoPago preference
-    const mercadoPagoService = (await import('../services/mercadopago.js')).default;
-    const preference = await (mercadoPagoService as any).createPreference({
-      title: `Contrato: ${jobTitle}`,
-      description: `Pago con escrow para ${jobTitle}`,
-      price: contract.totalPrice,
-      contractId: contract.id.toString(),
-      clientId: userId.toString(),
-      doerId: (contract.doer as any).id.toString(),
-    });
-
-    // Create payment record with escrow
-    const payment = await Payment.create({
-      contractId: contract.id,
-      payerId: userId,
-      recipientId: (contract.doer as any).id,
-      amount: contract.totalPrice,
-      currency: "ARS",
-      status: "pending",
-      paymentType: "contract",
-      mercadoPagoPreferenceId: preference.id,
-      description: `Contrato: ${jobTitle}`,
-      platformFee: contract.commission,
-      platformFeePercentage: contract.commission > 0 ? ((contract.commission / contract.price) * 100) : 0,
-      isEscrow: true,
-      escrowStatus: "pending",
-    });
-
-    // Update contract with payment reference
-    (contract as any).paymentId = payment.id;
-    await contract.save();
-
     res.json({
       success: true,
-      paymentUrl: preference.init_point,
-      paymentId: payment.id,
-      preferenceId: preference.id,
+      paymentUrl: result.paymentUrl,
+      paymentId: result.payment.id,
+      preferenceId: result.preferenceId,
+      amount: result.amount,
+      currency: "ARS",
+      rateSnapshot: result.rateSnapshot,
+      milestoneIds: result.milestoneIds,
     });
   } catch (error: any) {
     console.error("Create contract payment error:", error);
-    res.status(500).json({ success: false, message: error.message || "Error creating payment" });
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || "Error creating payment" });
   }
 });
 
@@ -1906,7 +1901,10 @@ router.post("/:paymentId/proof/:proofId/approve", protect, requireRole('admin',
 
     // Update payment status to approved
     payment.status = 'approved';
-    await payment.save();
+    await sequelize.transaction(async (transaction) => {
+      await payment.save({ transaction });
+      await ledger.recordPaymentCapture(payment, { createdBy: adminId, transaction });
+    });
 
     // If this is a job publication payment, publish the job
     if (payment.paymentType === 'job_publication') {
@@ -2174,6 +2172,13 @@ router.get("/proofs/pending", protect, requireRole('admin', 'super_admin', 'owne
 router.get("/invoices", protect, async (req: AuthRequest, res: Response): Promise<void> => {
   try {
     const invoices = await getUserInvoices(req.user.id);
+    // Lo acreditado a cada factura por sus notas de crédito vigentes
+    const credited = new Map<string, number>();
+    for (const inv of invoices) {
+      if (inv.type !== 'credit_note' || !inv.creditedInvoiceId || inv.status === 'void') continue;
+      if (inv.fiscalType && inv.fiscalStatus !== 'authorized') continue;
+      credited.set(inv.creditedInvoiceId, (credited.get(inv.creditedInvoiceId) || 0) + Number(inv.total));
+    }
     res.json({
       success: true,
       invoices: invoices.map(inv => ({
@@ -2187,6 +2192,24 @@ router.get("/invoices", protect, async (req: AuthRequest, res: Response): Promis
         status: inv.status,
         metadata: inv.metadata,
         createdAt: inv.createdAt,
+        ...(credited.has(inv.id) && { creditedAmount: Math.round(credited.get(inv.id)! * 100) / 100 }),
+        // Nota de crédito: la factura que acredita y por qué
+        ...(inv.type === 'credit_note' && {
+          creditedInvoiceId: inv.creditedInvoiceId,
+          creditedInvoiceNumber: inv.metadata?.creditedInvoiceNumber,
+          creditScope: inv.metadata?.creditScope,
+          creditSource: inv.metadata?.creditSource,
+          creditReason: inv.metadata?.creditReason,
+        }),
+        // Comprobante electrónico: emitido por el usuario o recibido de un trabajador
+        ...(inv.fiscalType && {
+          role: inv.userId === req.user.id ? 'issued' : 'received',
+          fiscalType: inv.fiscalType,
+          fiscalNumber: inv.fiscalNumber && inv.pointOfSale ? formatFiscalNumber(inv.pointOfSale, inv.fiscalNumber) : null,
+          fiscalStatus: inv.fiscalStatus,
+          cae: inv.cae,
+          caeExpiresAt: inv.caeExpiresAt,
+        }),
       })),
     });
   } catch (error: any) {
@@ -2194,6 +2217,37 @@ router.get("/invoices", protect, async (req: AuthRequest, res: Response): Promis
   }
 });
 
+/**
+ * Retry the AFIP authorization of an electronic invoice or credit note (pending or rejected)
+ * POST /api/payments/invoices/:id/authorize
+ */
+router.post("/invoices/:id/authorize", protect, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const invoice = await Invoice.findOne({
+      where: { id: req.params.id, userId: req.user.id, fiscalType: { [Op.ne]: null }, status: { [Op.ne]: 'void' } },
+    });
+    if (!invoice) {
+      res.status(404).json({ success: false, message: "Factura no encontrada" });
+      return;
+    }
+
+    const result = await fiscalInvoicing.authorize(invoice);
+    res.json({
+      success: true,
+      invoice: {
+        id: result.id,
+        fiscalStatus: result.fiscalStatus,
+        fiscalNumber: result.fiscalNumber && result.pointOfSale ? formatFiscalNumber(result.pointOfSale, result.fiscalNumber) : null,
+        cae: result.cae,
+        caeExpiresAt: result.caeExpiresAt,
+        messages: result.metadata?.fiscalMessages || [],
+      },
+    });
+  } catch (error: any) {
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message || "Error autorizando la factura" });
+  }
+});
+
 /**
  * Download invoice PDF
  * GET /api/payments/invoices/:id/download
@@ -12,90 +12,20 @@ import { protect, requireKyc } from "../middleware/auth.js";
 import { uploadProposalAttachments, getFileUrl } from "../middleware/upload.js";
 import type { AuthRequest } from "../types/index.js";
 import emailService from "../services/email.js";
+import messageTemplates from "../services/messageTemplates.js";
 import { config } from "../config/env.js";
 import { socketService } from "../index.js";
 import { Op, Sequelize } from 'sequelize';
 import cacheService from "../services/cacheService.js";
 import { sequelize } from "../config/database.js";
 import { logger } from "../services/logger.js";
+import doerAvailability from "../services/doerAvailability.js";
+import jobTeamChat from "../services/jobTeamChat.js";
+import { calculateCommission } from "../services/commissionService.js";
+import { describeConflict, publicConflicts } from "../services/availabilityRules.js";
 
 const router = express.Router();
 
-/**
- * Crear o actualizar chat grupal para trabajos con múltiples trabajadores
- */
-async function createOrUpdateGroupChat(job: Job, workerIds: string[]): Promise<Conversation | null> {
-  try {
-    // Todos los participantes: cliente + trabajadores
-    const allParticipants = [job.clientId, ...workerIds];
-
-    // Buscar si ya existe un chat grupal para este trabajo
-    let groupChat = job.groupChatId
-      ? await Conversation.findByPk(job.groupChatId)
-      : null;
-
-    if (groupChat) {
-      // Actualizar participantes del chat grupal existente
-      groupChat.participants = allParticipants;
-      await groupChat.save();
-    } else {
-      // Crear nuevo chat grupal
-      groupChat = await Conversation.create({
-        participants: allParticipants,
-        jobId: job.id,
-        type: 'contract' as any, // Tipo especial para chats grupales de trabajo
-        lastMessage: `Chat grupal creado para el trabajo "${job.title}"`,
-        lastMessageAt: new Date(),
-      });
-
-      // Guardar referencia al chat grupal en el trabajo
-      job.groupChatId = groupChat.id;
-      await job.save();
-
-      // Crear mensaje del sistema informando sobre el chat grupal
-      await ChatMessage.create({
-        conversationId: groupChat.id,
-        senderId: job.clientId,
-        message: `📋 Chat grupal del trabajo: ${job.title}||Equipo de trabajo||Este chat incluye al cliente y a todos los trabajadores seleccionados para este trabajo.\n\n👥 Participantes: ${allParticipants.length}\n📍 Ubicación: ${job.location}\n📅 Inicio: ${new Date(job.startDate).toLocaleDateString('es-AR')}`,
-        type: 'system',
-        metadata: {
-          jobId: job.id,
-          action: 'group_chat_created',
-        },
-      });
-    }
-
-    // Notificar a todos los participantes sobre el chat grupal
-    for (const participantId of allParticipants) {
-      const notification = await Notification.create({
-        recipientId: participantId,
-        type: 'group_chat',
-        category: 'chat',
-        title: 'Chat grupal disponible',
-        message: `Se ha creado un chat grupal para el trabajo "${job.title}" con ${allParticipants.length} participantes.`,
-        relatedModel: 'Conversation',
-        relatedId: groupChat.id,
-        actionText: 'Ir al chat',
-        data: {
-          jobId: job.id,
-          conversationId: groupChat.id,
-          participantCount: allParticipants.length,
-        },
-        read: false,
-      });
-
-      // Send real-time notification
-      const { socketService } = await import('../index.js');
-      socketService.notifyUser(participantId, "notification:new", notification.toJSON());
-    }
-
-    return groupChat;
-  } catch (error) {
-    console.error('Error creating/updating group chat:', error);
-    return null;
-  }
-}
-
 // @route   GET /api/proposals
 // @desc    Obtener propuestas del usuario (enviadas o recibidas)
 // @access  Private
@@ -456,6 +386,18 @@ router.post(
         return;
       }
 
+      // La fecha del trabajo no puede pisar otro contrato, el calendario externo
+      // ni los bloqueos del Doer (con margen de traslado entre trabajos)
+      const booking = await doerAvailability.checkBooking(req.user.id, job);
+      if (booking.conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: describeConflict(booking.conflicts[0], "doer"),
+          conflicts: publicConflicts(booking.conflicts),
+        });
+        return;
+      }
+
       // Detectar si es contraoferta (precio diferente al original)
       const isCounterOffer = proposedPrice !== job.price;
 
@@ -806,6 +748,17 @@ router.put("/:id/approve",
       return;
     }
 
+    // Verificar que el Doer siga libre: pudo tomar otro trabajo desde que se postuló
+    const booking = await doerAvailability.checkBooking(proposal.freelancerId, job);
+    if (booking.conflicts.length > 0) {
+      res.status(409).json({
+        success: false,
+        message: describeConflict(booking.conflicts[0], "client"),
+        conflicts: publicConflicts(booking.conflicts),
+      });
+      return;
+    }
+
     // Set proposal status (will save later after contract creation to avoid inconsistency)
     proposal.status = "approved";
 
@@ -902,14 +855,12 @@ router.put("/:id/approve",
     }
 
     // NOTE: All saves moved after contract creation to ensure atomicity
-    // Crear o actualizar chat grupal si hay múltiples trabajadores
-    if (updatedWorkers.length > 1 || maxWorkers > 1) {
-      await createOrUpdateGroupChat(job, updatedWorkers);
-    }
+    // Crear el chat de equipo o sumar al trabajador si hay múltiples trabajadores
+    await jobTeamChat.syncMembers(job);
 
-    // Crear contrato automáticamente con el monto asignado
-    const PLATFORM_COMMISSION = 0.1;
-    const commission = workerAllocation * PLATFORM_COMMISSION;
+    // Crear contrato automáticamente con el monto asignado y la comisión vigente
+    const commissionResult = await calculateCommission(proposal.clientId, workerAllocation, { category: job.category });
+    const commission = commissionResult.commission;
     const totalPrice = workerAllocation + commission;
 
     // Use job dates or calculate from estimatedDuration
@@ -931,6 +882,8 @@ router.put("/:id/approve",
       type: "trabajo",
       price: workerAllocation, // Use allocated amount, not proposal price
       commission,
+      commissionPercentage: commissionResult.rate,
+      commissionRuleId: commissionResult.rule?.id ?? null,
       totalPrice,
       startDate,
       endDate,
@@ -1428,6 +1381,17 @@ router.post(
         return;
       }
 
+      // Verificar que el Doer esté libre en la fecha del trabajo
+      const booking = await doerAvailability.checkBooking(req.user.id, job);
+      if (booking.conflicts.length > 0) {
+        res.status(409).json({
+          success: false,
+          message: describeConflict(booking.conflicts[0], "doer"),
+          conflicts: publicConflicts(booking.conflicts),
+        });
+        return;
+      }
+
       // Ensure price is a number
       const jobPrice = typeof job.price === 'string' ? parseFloat(job.price) : job.price;
 
@@ -1594,47 +1558,19 @@ router.post(
         `,
       });
 
-      // Email al cliente
-      await emailService.sendEmail({
-        to: clientUser.email,
-        subject: `${req.user.name} se postuló a tu trabajo: ${job.title}`,
-        html: `
-          <!DOCTYPE html>
-          <html>
-            <head>
-              <style>
-                body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-                .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-                .header { background: linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%); color: white; padding: 30px; text-align: center; border-radius: 10px 10px 0 0; }
-                .content { background: #f9f9f9; padding: 30px; border-radius: 0 0 10px 10px; }
-                .button { display: inline-block; padding: 12px 30px; background: #10b981; color: white; text-decoration: none; border-radius: 5px; margin: 20px 0; }
-                .info-box { background: white; border-left: 4px solid #0ea5e9; padding: 15px; margin: 20px 0; }
-              </style>
-            </head>
-            <body>
-              <div class="container">
-                <div class="header">
-                  <h1>📋 Nueva Postulación</h1>
-                </div>
-                <div class="content">
-                  <p>Hola ${clientUser.name},</p>
-                  <p><strong>${req.user.name}</strong> se ha postulado a tu trabajo:</p>
-                  <div class="info-box">
-                    <h3>${job.title}</h3>
-                    <p><strong>Candidato:</strong> ${req.user.name}</p>
-                    <p><strong>Inicio:</strong> ${startDate.toLocaleDateString("es-AR", { day: "numeric", month: "long", year: "numeric", hour: "2-digit", minute: "2-digit" })}</p>
-                    <p><strong>Fin:</strong> ${endDate!.toLocaleDateString("es-AR", { day: "numeric", month: "long", year: "numeric", hour: "2-digit", minute: "2-digit" })}</p>
-                    <p><strong>Pago:</strong> $${jobPrice.toLocaleString("es-AR")}</p>
-                  </div>
-                  <p>Puedes revisar todas las postulaciones y seleccionar al trabajador ideal.</p>
-                  <a href="${config.clientUrl}/jobs/${job.id}/applications" class="button">Ver Postulaciones</a>
-                  <a href="${config.clientUrl}/chat/${conversation.id}" class="button" style="background: #64748b;">Ir al Chat</a>
-                </div>
-              </div>
-            </body>
-          </html>
-        `,
-      });
+      // Aviso al cliente (in-app + push + email); varias postulaciones al mismo
+      // trabajo se agrupan según sus preferencias de entrega
+      await messageTemplates.notify(clientUser.id, "proposal.received", {
+        recipientName: clientUser.name || "",
+        applicantName: req.user.name,
+        jobTitle: job.title,
+        jobId: job.id,
+      }, {
+        coalesceKey: `proposal:${job.id}`,
+        relatedModel: "Job",
+        relatedId: job.id,
+        data: { jobId: job.id, conversationId: conversation.id },
+      }).catch((err) => console.error("Error notifying client of application:", err.message));
 
       res.json({
         success: true,
@@ -2081,12 +2017,18 @@ router.put(
       proposal.jobId = job.id;
       await proposal.save();
 
-      // Crear contrato
+      // Crear contrato con la comisión vigente para el cliente
+      const price = Number(proposal.proposedPrice);
+      const commissionResult = await calculateCommission(proposal.clientId, price, { category: job.category });
       const contract = await Contract.create({
         jobId: job.id,
         clientId: proposal.clientId,
         doerId: proposal.freelancerId,
-        price: proposal.proposedPrice,
+        price,
+        commission: commissionResult.commission,
+        commissionPercentage: commissionResult.rate,
+        commissionRuleId: commissionResult.rule?.id ?? null,
+        totalPrice: price + commissionResult.commission,
         status: 'accepted', // Ya está aceptado por ambas partes
         clientConfirmed: true,
         doerConfirmed: true,
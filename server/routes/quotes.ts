@@ -11,7 +11,11 @@ import { Notification } from '../models/sql/Notification.model.js';
 import { protect } from '../middleware/auth.js';
 import { generateQuotePDF } from '../services/pdfGenerator.js';
 import { getIO } from '../services/socket.js';
-import { calculateCommission } from '../services/commissionService.js';
+import { convertQuoteToContract } from '../services/quoteConversion.js';
+import { parseConversionOptions } from '../services/quoteContractRules.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import currencyExchange from '../services/currencyExchange.js';
+import { add, convert, formatMoney, fromDecimal, max, percentage, toCurrency, toDecimal } from '../services/money.js';
 import * as socketService from '../services/socket.js';
 import type { AuthRequest } from '../types/index.js';
 
@@ -105,6 +109,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
       status = 'sent',
       applyMode = false,
     } = req.body;
+    const currency = toCurrency(req.body.currency);
 
     if (!recipientId || !title || !items?.length) {
       res.status(400).json({ success: false, message: 'Destinatario, título e ítems son requeridos' });
@@ -149,6 +154,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
       taxAmount,
       otherTaxes: otherTaxes || [],
       total,
+      currency,
       notes: notes || null,
       paymentTerms: paymentTerms || null,
       validUntil: validUntil ? new Date(validUntil) : null,
@@ -210,7 +216,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
       type: 'info',
       category: 'system',
       title: `Nueva cotización de ${req.user.name}`,
-      message: `${req.user.name} te envió una cotización: "${title}" por $${total.toLocaleString('es-AR')} ARS`,
+      message: `${req.user.name} te envió una cotización: "${title}" por ${formatMoney(fromDecimal(total, currency))}`,
       relatedModel: 'Quote',
       relatedId: quote.id,
       actionUrl: `/quotes/${quote.id}`,
@@ -223,7 +229,7 @@ router.post('/', async (req: AuthRequest, res: Response): Promise<void> => {
       io.emit(`user:${recipientId}`, {
         event: 'notification:new',
         title: `Nueva cotización de ${req.user.name}`,
-        message: `"${title}" por $${total.toLocaleString('es-AR')} ARS`,
+        message: `"${title}" por ${formatMoney(fromDecimal(total, currency))}`,
       });
     }
 
@@ -296,6 +302,7 @@ router.put('/:id', async (req: AuthRequest, res: Response): Promise<void> => {
       taxAmount,
       otherTaxes: newOtherTaxes,
       total,
+      currency: req.body.currency !== undefined ? toCurrency(req.body.currency) : quote.currency,
       notes: notes !== undefined ? notes : quote.notes,
       paymentTerms: paymentTerms !== undefined ? paymentTerms : quote.paymentTerms,
       validUntil: validUntil ? new Date(validUntil) : quote.validUntil,
@@ -361,6 +368,8 @@ router.post('/:id/accept', async (req: AuthRequest, res: Response): Promise<void
       return;
     }
 
+    const { lineMapping, paymentSchedule } = parseConversionOptions(req.body);
+
     await quote.update({ status: 'accepted' });
 
     // Update chat message metadata if linked to conversation
@@ -368,60 +377,15 @@ router.post('/:id/accept', async (req: AuthRequest, res: Response): Promise<void
       await _updateQuoteChatMessageStatus(quote.id, quote.conversationId, 'accepted');
     }
 
-    // Auto-create contract if quote is linked to a job
+    // Auto-create contract if quote is linked to a job (keeps items, taxes and line mapping)
     let contractId: string | null = null;
     if (quote.jobId) {
       try {
-        const job = await Job.findByPk(quote.jobId);
-        if (job && job.status === 'open') {
-          const clientId = req.user.id || req.user._id;
-          const doerId = quote.senderId; // worker sent the quote
-          const price = Number(quote.total);
-
-          const commissionResult = await calculateCommission(clientId, price, {});
-          const contract = await Contract.create({
-            jobId: job.id,
-            clientId,
-            doerId,
-            type: 'trabajo',
-            price,
-            commission: commissionResult.commission,
-            commissionPercentage: commissionResult.rate,
-            totalPrice: price + commissionResult.commission,
-            startDate: job.startDate || new Date(),
-            endDate: job.endDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-            status: 'pending',
-            termsAccepted: false,
-            termsAcceptedByClient: false,
-            termsAcceptedByDoer: false,
-          } as any);
-
-          // Mark job in_progress and assign worker
-          await job.update({
-            doerId,
-            status: 'in_progress',
-            selectedWorkers: [doerId],
-          } as any);
-
-          // Approve or create proposal
-          if (quote.proposalId) {
-            await Proposal.update({ status: 'approved' }, { where: { id: quote.proposalId } });
-          } else {
-            await Proposal.findOrCreate({
-              where: { jobId: job.id, freelancerId: doerId },
-              defaults: {
-                jobId: job.id,
-                freelancerId: doerId,
-                coverLetter: quote.title,
-                proposedPrice: price,
-                estimatedDuration: 1,
-                status: 'approved',
-              } as any,
-            }).then(([p, created]) => {
-              if (!created) p.update({ status: 'approved' });
-            });
-          }
-
+        const clientId = req.user.id || req.user._id;
+        const conversion = await convertQuoteToContract(quote, { clientId, lineMapping, paymentSchedule });
+        if (conversion) {
+          const { contract, job } = conversion;
+          const doerId = quote.senderId;
           contractId = contract.id;
 
           // Notify worker of auto-created contract
@@ -498,7 +462,7 @@ router.post('/:id/accept', async (req: AuthRequest, res: Response): Promise<void
       contractId,
     });
   } catch (error: any) {
-    res.status(500).json({ success: false, message: error.message });
+    res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({ success: false, message: error.message });
   }
 });
 
@@ -529,18 +493,31 @@ router.post('/:id/pay', protect, async (req: AuthRequest, res: Response): Promis
       return;
     }
 
-    // Calculate 8% platform commission on the quote total
-    const baseAmount = Number(quote.total);
+    // Calculate 8% platform commission on the quote total (min $1000 ARS).
+    // MercadoPago cobra en pesos: una cotización en USD/USDT se convierte con
+    // la cotización del momento, que queda congelada en el pago.
+    const currency = toCurrency(quote.currency);
+    const rateSnapshot = currency === 'ARS' ? null : await currencyExchange.snapshotRate(currency, 'ARS');
+    const base = fromDecimal(quote.total, currency);
     const commissionRate = 0.08;
-    const commission = Math.max(baseAmount * commissionRate, 1000); // min $1000 ARS
-    const totalWithCommission = baseAmount + commission;
+    const minimumCommission = fromDecimal(1000, 'ARS');
+    const commissionMoney = max(
+      percentage(base, commissionRate * 100),
+      rateSnapshot ? convert(minimumCommission, currency, rateSnapshot) : minimumCommission
+    );
+    const baseAmount = toDecimal(base);
+    const commission = toDecimal(commissionMoney);
+    const totalWithCommission = toDecimal(add(base, commissionMoney));
+    const chargedAmount = rateSnapshot
+      ? toDecimal(convert(add(base, commissionMoney), 'ARS', rateSnapshot))
+      : totalWithCommission;
 
     // Create MercadoPago preference
     const mercadoPagoService = (await import('../services/mercadopago.js')).default;
     const preference = await (mercadoPagoService as any).createPreference({
       title: `Cotización: ${quote.title}`,
       description: `Pago de cotización ${quote.quoteNumber} — incluye 8% comisión`,
-      price: totalWithCommission,
+      price: chargedAmount,
       quoteId: quote.id,
       clientId: userId.toString(),
       doerId: quote.senderId.toString(),
@@ -552,8 +529,12 @@ router.post('/:id/pay', protect, async (req: AuthRequest, res: Response): Promis
       payerId: userId,
       recipientId: quote.senderId,
       quoteId: quote.id,
-      amount: totalWithCommission,
+      amount: chargedAmount,
       currency: 'ARS',
+      amountArs: chargedAmount,
+      ...(rateSnapshot ? { exchangeRate: rateSnapshot.rate, rateSnapshot } : {}),
+      settlementCurrency: currency,
+      settlementAmount: totalWithCommission,
       status: 'pending',
       paymentType: 'quote_payment',
       mercadoPagoPreferenceId: preference.id,
@@ -577,6 +558,9 @@ router.post('/:id/pay', protect, async (req: AuthRequest, res: Response): Promis
       totalWithCommission,
       commission,
       baseAmount,
+      currency,
+      chargedAmount,
+      rateSnapshot,
     });
   } catch (error: any) {
     res.status(500).json({ success: false, message: error.message });
@@ -688,7 +672,7 @@ async function _postQuoteChatMessage(
 ): Promise<void> {
   try {
     const verb = action === 'revised' ? 'revisó' : 'envió';
-    const msgText = `${verb === 'envió' ? 'Nueva' : 'Cotización revisada'}||${quote.quoteNumber}: ${quote.title}||Total: $${Number(quote.total).toLocaleString('es-AR')} ARS`;
+    const msgText = `${verb === 'envió' ? 'Nueva' : 'Cotización revisada'}||${quote.quoteNumber}: ${quote.title}||Total: ${formatMoney(fromDecimal(quote.total, toCurrency(quote.currency)))}`;
 
     const chatMsg = await ChatMessage.create({
       conversationId,
@@ -701,6 +685,7 @@ async function _postQuoteChatMessage(
         quoteNumber: quote.quoteNumber,
         quoteTitle: quote.title,
         quoteTotal: Number(quote.total),
+        quoteCurrency: toCurrency(quote.currency),
         quoteStatus: quote.status,
         quoteAction: action,
         jobId: quote.jobId || null,
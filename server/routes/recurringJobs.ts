@@ -0,0 +1,149 @@
+import express, { Response } from "express";
+import { protect, requireKyc } from "../middleware/auth.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import recurringJobs from "../services/recurringJobs.js";
+import { CALENDAR_HORIZON_DAYS } from "../services/recurrenceRules.js";
+import type { AuthRequest } from "../types/index.js";
+
+const router = express.Router();
+router.use(protect);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_CALENDAR_RANGE_DAYS = 366;
+
+const sendError = (res: Response, error: any, fallback: string): void => {
+  res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
+    success: false,
+    message: error.message || fallback,
+  });
+};
+
+/**
+ * Helper: rango ?from&to del calendario (por defecto los próximos CALENDAR_HORIZON_DAYS días)
+ */
+const calendarRange = (query: AuthRequest["query"]): { from: Date; to: Date } => {
+  const from = query.from ? new Date(String(query.from)) : new Date();
+  const to = query.to ? new Date(String(query.to)) : new Date(from.getTime() + CALENDAR_HORIZON_DAYS * DAY_MS);
+  if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime()) || to <= from) {
+    throw new ErrorResponse("Rango de fechas inválido", 400);
+  }
+  if (to.getTime() - from.getTime() > MAX_CALENDAR_RANGE_DAYS * DAY_MS) {
+    throw new ErrorResponse(`El rango no puede superar ${MAX_CALENDAR_RANGE_DAYS} días`, 400);
+  }
+  return { from, to };
+};
+
+// @route   GET /api/recurring-jobs
+// @desc    Series recurrentes del usuario (como cliente o Doer preferido) con sus próximas ocurrencias
+// @access  Private
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await recurringJobs.listFor(req.user.id);
+    res.json({ success: true, data });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener las series recurrentes");
+  }
+});
+
+// @route   GET /api/recurring-jobs/calendar
+// @desc    Ocurrencias del usuario entre ?from y ?to (JobsCalendar)
+// @access  Private
+router.get("/calendar", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const data = await recurringJobs.calendarFor(req.user.id, calendarRange(req.query));
+    res.json({ success: true, data });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener las ocurrencias");
+  }
+});
+
+// @route   GET /api/recurring-jobs/:id
+// @desc    Detalle de una serie
+// @access  Private (cliente o Doer preferido)
+router.get("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await recurringJobs.get(req.params.id as string, req.user.id);
+    res.json({ success: true, data: series });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener la serie");
+  }
+});
+
+// @route   POST /api/recurring-jobs
+// @desc    Crear una serie recurrente (plantilla de trabajo + regla + Doer preferido opcional)
+// @access  Private (KYC)
+router.post("/", requireKyc, async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const series = await recurringJobs.create(req.user.id, req.body || {});
+    res.status(201).json({ success: true, data: series });
+  } catch (error: any) {
+    sendError(res, error, "Error al crear la serie recurrente");
+  }
+});
+
+// @route   POST /api/recurring-jobs/:id/occurrences/:date/skip
+// @desc    Saltear una ocurrencia (cancela su trabajo y contrato sin pagar)
+// @access  Private (cliente)
+router.post("/:id/occurrences/:date/skip", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const occurrence = await recurringJobs.skip(req.params.id as string, req.params.date as string, req.user.id);
+    res.json({ success: true, data: occurrence });
+  } catch (error: any) {
+    sendError(res, error, "Error al saltear la ocurrencia");
+  }
+});
+
+// @route   POST /api/recurring-jobs/:id/occurrences/:date/reschedule
+// @desc    Reprogramar una ocurrencia sin contrato firmado ({ startsAt })
+// @access  Private (cliente)
+router.post("/:id/occurrences/:date/reschedule", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const occurrence = await recurringJobs.reschedule(
+      req.params.id as string,
+      req.params.date as string,
+      req.body?.startsAt,
+      req.user.id
+    );
+    res.json({ success: true, data: occurrence });
+  } catch (error: any) {
+    sendError(res, error, "Error al reprogramar la ocurrencia");
+  }
+});
+
+// @route   POST /api/recurring-jobs/:id/occurrences/:date/accept
+// @desc    El Doer preferido toma la ocurrencia ofrecida
+// @access  Private (Doer preferido)
+router.post("/:id/occurrences/:date/accept", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const occurrence = await recurringJobs.acceptOffer(req.params.id as string, req.params.date as string, req.user.id);
+    res.json({ success: true, data: occurrence });
+  } catch (error: any) {
+    sendError(res, error, "Error al aceptar la ocurrencia");
+  }
+});
+
+// @route   POST /api/recurring-jobs/:id/occurrences/:date/decline
+// @desc    El Doer preferido no toma la ocurrencia: se publica para cualquier Doer
+// @access  Private (Doer preferido)
+router.post("/:id/occurrences/:date/decline", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const occurrence = await recurringJobs.declineOffer(req.params.id as string, req.params.date as string, req.user.id);
+    res.json({ success: true, data: occurrence });
+  } catch (error: any) {
+    sendError(res, error, "Error al rechazar la ocurrencia");
+  }
+});
+
+// @route   POST /api/recurring-jobs/:id/end
+// @desc    Terminar la serie (cancela las ocurrencias generadas sin pagar)
+// @access  Private (cliente)
+router.post("/:id/end", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await recurringJobs.end(req.params.id as string, req.user.id);
+    res.json({ success: true, data: result.series, cancelledOccurrences: result.cancelled });
+  } catch (error: any) {
+    sendError(res, error, "Error al terminar la serie");
+  }
+});
+
+export default router;
@@ -0,0 +1,98 @@
+import { Router, Response } from "express";
+import { protect, AuthRequest } from "../middleware/auth.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
+import savedSearches from "../services/savedSearches.js";
+
+const router = Router();
+
+router.use(protect);
+
+const sendError = (res: Response, error: any, fallback: string) => {
+  if (error instanceof ErrorResponse) {
+    res.status(error.statusCode).json({ success: false, message: error.message });
+    return;
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ success: false, message: error.message || fallback });
+};
+
+/**
+ * List the user's saved searches
+ * GET /api/saved-searches
+ */
+router.get("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const searches = await savedSearches.list(req.user.id);
+    res.json({ success: true, data: searches });
+  } catch (error: any) {
+    sendError(res, error, "Error al obtener las búsquedas guardadas");
+  }
+});
+
+/**
+ * Save a search
+ * POST /api/saved-searches
+ * Body: { name, filters, frequency?: 'instant' | 'daily', emailDigest?, muted? }
+ */
+router.post("/", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = await savedSearches.create(req.user.id, req.body || {});
+    res.status(201).json({ success: true, data: search });
+  } catch (error: any) {
+    sendError(res, error, "Error al guardar la búsqueda");
+  }
+});
+
+/**
+ * Run a saved search now (open jobs that match it)
+ * GET /api/saved-searches/:id/jobs?page=1&limit=20
+ */
+router.get("/:id/jobs", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const result = await savedSearches.results(req.user.id, req.params.id, {
+      page: req.query.page ? parseInt(req.query.page as string) : undefined,
+      limit: req.query.limit ? Math.min(parseInt(req.query.limit as string), 50) : undefined,
+    }) as any;
+
+    res.json({
+      success: true,
+      data: result.jobs,
+      pagination: {
+        page: result.page,
+        limit: result.limit,
+        total: result.total,
+        pages: result.pages,
+      },
+    });
+  } catch (error: any) {
+    sendError(res, error, "Error al ejecutar la búsqueda guardada");
+  }
+});
+
+/**
+ * Rename, change filters, mute or change alert frequency
+ * PATCH /api/saved-searches/:id
+ */
+router.patch("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    const search = await savedSearches.update(req.user.id, req.params.id, req.body || {});
+    res.json({ success: true, data: search });
+  } catch (error: any) {
+    sendError(res, error, "Error al actualizar la búsqueda guardada");
+  }
+});
+
+/**
+ * Delete a saved search
+ * DELETE /api/saved-searches/:id
+ */
+router.delete("/:id", async (req: AuthRequest, res: Response): Promise<void> => {
+  try {
+    await savedSearches.remove(req.user.id, req.params.id);
+    res.json({ success: true, message: "Búsqueda eliminada" });
+  } catch (error: any) {
+    sendError(res, error, "Error al eliminar la búsqueda guardada");
+  }
+});
+
+export default router;
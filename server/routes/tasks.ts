@@ -5,9 +5,18 @@ import { Job } from "../models/sql/Job.model.js";
 import { Contract } from "../models/sql/Contract.model.js";
 import { User } from "../models/sql/User.model.js";
 import { protect } from "../middleware/auth.js";
+import { ErrorResponse } from "../middleware/errorHandler.js";
 import type { AuthRequest } from "../types/index.js";
 import { socketService } from "../index.js";
 import { Op } from 'sequelize';
+import {
+  assertAcyclic,
+  blockingPrerequisites,
+  parseTaskPlanning,
+  prerequisitesOf,
+  scheduleTasks,
+  type TaskNode,
+} from "../services/taskGraphRules.js";
 
 const router = express.Router({ mergeParams: true }); // mergeParams to get :jobId from parent router
 
@@ -43,20 +52,48 @@ const isJobWorker = async (job: Job, userId: string): Promise<boolean> => {
 };
 
 /**
- * Helper: Get all tasks for a job with unlock status
+ * Helper: Check that the assignee of a task is one of the job's workers
  */
-const getTasksWithStatus = async (jobId: string): Promise<any[]> => {
+const assertAssignableWorker = async (job: Job, assigneeId: unknown): Promise<string | null> => {
+  if (assigneeId === null || assigneeId === '') return null;
+  if (typeof assigneeId !== 'string' || !(await isJobWorker(job, assigneeId))) {
+    throw new ErrorResponse("El responsable de la tarea debe ser un trabajador de este trabajo", 400);
+  }
+  return assigneeId;
+};
+
+/**
+ * Helper: Task graph with pending changes applied, to validate before saving
+ */
+const withChanges = (tasks: JobTask[], changes: Record<string, Partial<TaskNode>>): TaskNode[] =>
+  tasks.map((task) => ({ ...(task.toJSON() as TaskNode), ...(changes[task.id] || {}) }));
+
+/**
+ * Helper: Get all tasks for a job with unlock status, prerequisites and schedule
+ */
+const getTasksWithStatus = async (jobId: string, startDate?: Date | null): Promise<any[]> => {
   try {
     // Simple query without includes for reliability
     const tasks = await JobTask.findAll({
       where: { jobId },
       order: [['orderIndex', 'ASC']],
     });
+    const schedule = scheduleTasks(tasks, { startDate });
 
     // Manually fetch user data if needed
     const tasksWithData = await Promise.all(tasks.map(async (task) => {
       const taskData = task.toJSON();
       taskData.isUnlocked = task.isUnlocked(tasks);
+      taskData.prerequisiteIds = prerequisitesOf(task, tasks);
+      taskData.blockedBy = blockingPrerequisites(task, tasks).map((prerequisite) => prerequisite.id);
+      Object.assign(taskData, schedule.tasks[task.id]);
+
+      if (task.assigneeId) {
+        const assignee = await User.findByPk(task.assigneeId, {
+          attributes: ['id', 'name', 'avatar']
+        });
+        taskData.assignee = assignee?.toJSON() || null;
+      }
 
       // Fetch createdBy user if present
       if (task.createdById) {
@@ -109,8 +146,11 @@ router.get("/", protect, async (req: AuthRequest, res: Response): Promise<void>
       return;
     }
 
-    const tasks = await getTasksWithStatus(jobId);
+    const tasks = await getTasksWithStatus(jobId, job.startDate);
     const progress = JobTask.getProgressPercentage(tasks);
+    const projectedCompletion = tasks.length > 0
+      ? new Date(Math.max(...tasks.map(t => new Date(t.plannedFinish).getTime())))
+      : null;
 
     res.json({
       success: true,
@@ -118,6 +158,9 @@ router.get("/", protect, async (req: AuthRequest, res: Response): Promise<void>
       progress,
       totalTasks: tasks.length,
       completedTasks: tasks.filter(t => t.status === 'completed').length,
+      criticalPath: tasks.filter(t => t.isCritical).map(t => t.id),
+      projectedCompletion,
+      isBehindSchedule: !!(projectedCompletion && job.endDate && projectedCompletion > new Date(job.endDate)),
       isOwner,
       isWorker,
     });
@@ -141,6 +184,7 @@ router.post(
     body("dueDate").optional().isISO8601().withMessage("Fecha de entrega inválida"),
     body("orderIndex").optional().isInt({ min: 0 }),
     body("requiresPreviousCompletion").optional().isBoolean(),
+    body("assigneeId").optional({ values: "null" }).isUUID().withMessage("Responsable inválido"),
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -151,7 +195,7 @@ router.post(
       }
 
       const { jobId } = req.params;
-      const { title, description, dueDate, orderIndex, requiresPreviousCompletion = true } = req.body;
+      const { title, description, dueDate, orderIndex, requiresPreviousCompletion = true, assigneeId } = req.body;
 
       const job = await Job.findByPk(jobId);
       if (!job) {
@@ -179,6 +223,15 @@ router.post(
         finalOrderIndex = maxTask ? maxTask.orderIndex + 1 : 0;
       }
 
+      // Dependencies, estimate and assignee (validated against the rest of the graph)
+      const existingTasks = await JobTask.findAll({ where: { jobId } });
+      const planning = parseTaskPlanning(req.body, null, existingTasks.map(t => t.id));
+      assertAcyclic([
+        ...withChanges(existingTasks, {}),
+        { id: 'new', title, orderIndex: finalOrderIndex, status: 'pending', requiresPreviousCompletion, ...planning },
+      ]);
+      const finalAssigneeId = assigneeId !== undefined ? await assertAssignableWorker(job, assigneeId) : null;
+
       // Create task
       const task = await JobTask.create({
         jobId,
@@ -188,11 +241,13 @@ router.post(
         dueDate: dueDate || null, // Optional due date for the task
         orderIndex: finalOrderIndex,
         requiresPreviousCompletion,
+        ...planning,
+        assigneeId: finalAssigneeId,
         status: 'pending',
       });
 
       // Get updated tasks with status
-      const tasks = await getTasksWithStatus(jobId);
+      const tasks = await getTasksWithStatus(jobId, job.startDate);
       const progress = JobTask.getProgressPercentage(tasks);
 
       // Notify workers about new task via socket
@@ -211,7 +266,7 @@ router.post(
         progress,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
@@ -233,6 +288,7 @@ router.put(
     body("status").optional().isIn(['pending', 'in_progress', 'completed']),
     body("orderIndex").optional().isInt({ min: 0 }),
     body("requiresPreviousCompletion").optional().isBoolean(),
+    body("assigneeId").optional({ values: "null" }).isUUID().withMessage("Responsable inválido"),
   ],
   async (req: AuthRequest, res: Response): Promise<void> => {
     try {
@@ -243,7 +299,8 @@ router.put(
       }
 
       const { jobId, taskId } = req.params;
-      const { title, description, dueDate, status, orderIndex, requiresPreviousCompletion } = req.body;
+      const { title, description, dueDate, status, orderIndex, requiresPreviousCompletion, assigneeId } = req.body;
+      const planningFields = ['prerequisiteTaskIds', 'estimatedDays', 'assigneeId'].filter((field) => req.body[field] !== undefined);
 
       const job = await Job.findByPk(jobId);
       if (!job) {
@@ -277,10 +334,47 @@ router.put(
         order: [['orderIndex', 'ASC']]
       });
 
+      // Owner changes to the graph are validated before touching the status
+      const planning = isOwner ? parseTaskPlanning(req.body, task.id, allTasks.map(t => t.id)) : {};
+      const graph = withChanges(allTasks, {
+        [task.id]: {
+          ...planning,
+          ...(isOwner && orderIndex !== undefined ? { orderIndex } : {}),
+          ...(isOwner && requiresPreviousCompletion !== undefined ? { requiresPreviousCompletion } : {}),
+        },
+      });
+      if (isOwner) assertAcyclic(graph);
+      const current = graph.find(t => t.id === task.id)!;
+
+      // Nobody can start or complete a task while its prerequisites are incomplete
+      if (status && status !== 'pending' && status !== task.status) {
+        const blocking = blockingPrerequisites(current, graph);
+        if (blocking.length > 0) {
+          res.status(400).json({
+            success: false,
+            message: `Esta tarea está bloqueada. Primero hay que completar: ${blocking.map(t => `"${t.title}"`).join(', ')}`,
+            blockedBy: blocking.map(t => t.id),
+          });
+          return;
+        }
+      }
+
+      // Reopening a task is not allowed once a task that depends on it has started
+      if (status && status !== 'completed' && task.status === 'completed') {
+        const started = graph.filter(t => t.status !== 'pending' && prerequisitesOf(t, graph).includes(task.id));
+        if (started.length > 0) {
+          res.status(400).json({
+            success: false,
+            message: `No se puede reabrir: ya empezaron tareas que dependen de esta (${started.map(t => `"${t.title}"`).join(', ')})`,
+          });
+          return;
+        }
+      }
+
       // Workers can only change status if task is unlocked
       if (!isOwner && isWorker) {
         // Workers can only update status
-        if (title || description || dueDate || orderIndex !== undefined || requiresPreviousCompletion !== undefined) {
+        if (title || description || dueDate || orderIndex !== undefined || requiresPreviousCompletion !== undefined || planningFields.length > 0) {
           res.status(403).json({
             success: false,
             message: "Solo puedes cambiar el estado de las tareas"
@@ -288,16 +382,16 @@ router.put(
           return;
         }
 
-        if (status) {
-          // Check if task is unlocked
-          if (!task.isUnlocked(allTasks)) {
-            res.status(400).json({
-              success: false,
-              message: "Esta tarea está bloqueada. Debes completar las tareas anteriores primero."
-            });
-            return;
-          }
+        // Tasks assigned to someone else are only moved by their assignee
+        if (status && task.assigneeId && task.assigneeId !== req.user.id) {
+          res.status(403).json({
+            success: false,
+            message: "Esta tarea está asignada a otro trabajador"
+          });
+          return;
+        }
 
+        if (status) {
           // Validate status transition
           const validTransitions: { [key: string]: string[] } = {
             'pending': ['in_progress'],
@@ -325,6 +419,8 @@ router.put(
         if (dueDate !== undefined) updateData.dueDate = dueDate || null;
         if (orderIndex !== undefined) updateData.orderIndex = orderIndex;
         if (requiresPreviousCompletion !== undefined) updateData.requiresPreviousCompletion = requiresPreviousCompletion;
+        Object.assign(updateData, planning);
+        if (assigneeId !== undefined) updateData.assigneeId = await assertAssignableWorker(job, assigneeId);
       }
 
       // Both owner and worker can update status
@@ -348,7 +444,7 @@ router.put(
       await task.update(updateData);
 
       // Get updated tasks with status
-      const tasks = await getTasksWithStatus(jobId);
+      const tasks = await getTasksWithStatus(jobId, job.startDate);
       const progress = JobTask.getProgressPercentage(tasks);
 
       // Notify about task update via socket
@@ -368,7 +464,7 @@ router.put(
         progress,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
@@ -414,6 +510,14 @@ router.delete(
       const deletedOrderIndex = task.orderIndex;
       await task.destroy();
 
+      // Remove the deleted task from other tasks' prerequisites
+      const dependents = await JobTask.findAll({
+        where: { jobId, prerequisiteTaskIds: { [Op.contains]: [taskId] } }
+      });
+      for (const dependent of dependents) {
+        await dependent.update({ prerequisiteTaskIds: (dependent.prerequisiteTaskIds || []).filter(id => id !== taskId) });
+      }
+
       // Reorder remaining tasks to fill the gap
       await JobTask.update(
         { orderIndex: JobTask.sequelize!.literal('order_index - 1') },
@@ -426,7 +530,7 @@ router.delete(
       );
 
       // Get updated tasks with status
-      const tasks = await getTasksWithStatus(jobId);
+      const tasks = await getTasksWithStatus(jobId, job.startDate);
       const progress = JobTask.getProgressPercentage(tasks);
 
       // Notify about task deletion via socket
@@ -444,7 +548,7 @@ router.delete(
         progress,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
@@ -510,7 +614,7 @@ router.post(
       });
 
       // Get updated tasks with status
-      const tasks = await getTasksWithStatus(jobId);
+      const tasks = await getTasksWithStatus(jobId, job.startDate);
 
       // Notify job owner about evidence upload
       socketService.notifyJobUpdate(jobId, job.clientId, {
@@ -527,7 +631,7 @@ router.post(
         tasks,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
@@ -585,7 +689,7 @@ router.get(
         totalTasksWithoutEvidence: tasksWithoutEvidence.length,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
@@ -631,8 +735,7 @@ router.put(
 
       // Verify all taskIds belong to this job
       const existingTasks = await JobTask.findAll({
-        where: { jobId },
-        attributes: ['id']
+        where: { jobId }
       });
       const existingIds = existingTasks.map(t => t.id);
 
@@ -645,6 +748,11 @@ router.put(
         return;
       }
 
+      // A new order changes the previous-task rule, so it must not close a cycle
+      assertAcyclic(withChanges(existingTasks, Object.fromEntries(
+        taskIds.map((id: string, index: number) => [id, { orderIndex: index }])
+      )));
+
       // Update order indices
       for (let i = 0; i < taskIds.length; i++) {
         await JobTask.update(
@@ -654,7 +762,7 @@ router.put(
       }
 
       // Get updated tasks with status
-      const tasks = await getTasksWithStatus(jobId);
+      const tasks = await getTasksWithStatus(jobId, job.startDate);
       const progress = JobTask.getProgressPercentage(tasks);
 
       // Notify about reorder via socket
@@ -671,7 +779,7 @@ router.put(
         progress,
       });
     } catch (error: any) {
-      res.status(500).json({
+      res.status(error instanceof ErrorResponse ? error.statusCode : 500).json({
         success: false,
         message: error.message || "Error del servidor"
       });
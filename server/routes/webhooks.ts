@@ -8,6 +8,10 @@ import mercadopagoService from '../services/mercadopago.js';
 import membershipService from '../services/membershipService.js';
 import emailService from '../services/email.js';
 import logger from '../services/logger.js';
+import ledger from '../services/ledger.js';
+import { sequelize } from '../config/database.js';
+import webhookInbox from '../services/webhookInbox.js';
+import type { WebhookSignatureStatus } from '../services/webhookInboxRules.js';
 import { Op } from 'sequelize';
 import crypto from 'crypto';
 
@@ -15,17 +19,17 @@ const router = express.Router();
 
 /**
  * Verifica la firma `x-signature` de MercadoPago (HMAC-SHA256).
- * Si MERCADOPAGO_WEBHOOK_SECRET no está configurado, se omite (no rompe el flujo
- * actual; configurar el secret en el panel de MP activa la verificación).
+ * Si MERCADOPAGO_WEBHOOK_SECRET no está configurado, se omite ('skipped'; no
+ * rompe el flujo actual; configurar el secret en el panel de MP activa la verificación).
  * Manifest (doc MP): `id:<data.id>;request-id:<x-request-id>;ts:<ts>;`
  */
-function verifyMpSignature(req: express.Request): boolean {
+function mpSignatureStatus(req: express.Request): WebhookSignatureStatus {
   const secret = process.env.MERCADOPAGO_WEBHOOK_SECRET;
-  if (!secret) return true; // no configurado → no verificar
+  if (!secret) return 'skipped'; // no configurado → no verificar
 
   const sigHeader = req.headers['x-signature'] as string | undefined;
   const requestId = req.headers['x-request-id'] as string | undefined;
-  if (!sigHeader) return false;
+  if (!sigHeader) return 'invalid';
 
   const parts: Record<string, string> = {};
   for (const kv of sigHeader.split(',')) {
@@ -34,7 +38,7 @@ function verifyMpSignature(req: express.Request): boolean {
   }
   const ts = parts['ts'];
   const v1 = parts['v1'];
-  if (!ts || !v1) return false;
+  if (!ts || !v1) return 'invalid';
 
   let dataId = (req.query['data.id'] ?? (req.body?.data?.id)) as string | undefined;
   if (dataId) dataId = String(dataId).toLowerCase();
@@ -42,31 +46,61 @@ function verifyMpSignature(req: express.Request): boolean {
   const manifest = `id:${dataId ?? ''};request-id:${requestId ?? ''};ts:${ts};`;
   const computed = crypto.createHmac('sha256', secret).update(manifest).digest('hex');
   try {
-    return crypto.timingSafeEqual(Buffer.from(computed, 'hex'), Buffer.from(v1, 'hex'));
+    return crypto.timingSafeEqual(Buffer.from(computed, 'hex'), Buffer.from(v1, 'hex')) ? 'valid' : 'invalid';
   } catch {
-    return false;
+    return 'invalid';
   }
 }
 
+function requestIp(req: express.Request): string {
+  return req.ip || (Array.isArray(req.headers['x-forwarded-for']) ? req.headers['x-forwarded-for'][0] : req.headers['x-forwarded-for'] as string) || 'unknown';
+}
+
 /**
- * POST /api/webhooks/mercadopago
- * Webhook para recibir notificaciones de MercadoPago
+ * Processor del inbox para MercadoPago: despacha según el tipo de notificación.
+ * Los errores se propagan para que el inbox registre el fallo y reintente.
  */
-router.post('/mercadopago', async (req, res) => {
-  const startTime = Date.now();
+webhookInbox.registerProcessor('mercadopago', async (event) => {
+  const { type, data, action } = event.payload;
+  const ip = event.ip || 'unknown';
+
+  if (type === 'payment' || action === 'payment.created' || action === 'payment.updated') {
+    await handlePaymentWebhook(data, ip);
+  } else if (type === 'subscription' || action?.startsWith('subscription') || String(type || '').includes('preapproval')) {
+    await handleSubscriptionWebhook(data, action || type, ip);
+  } else {
+    logger.webhook('mercadopago', type || action || 'unknown', 'Unhandled notification type, ignored', {
+      data: { webhookEventId: event.id },
+    });
+  }
+});
 
+/**
+ * Guarda la notificación en el inbox, responde 200 y la procesa.
+ * Los reenvíos de MP con el mismo id no se vuelven a procesar.
+ */
+async function receiveMercadoPagoWebhook(req: express.Request, res: express.Response, source: string) {
   try {
     const { type, data, action } = req.body;
-    const ip = req.ip || (Array.isArray(req.headers['x-forwarded-for']) ? req.headers['x-forwarded-for'][0] : req.headers['x-forwarded-for'] as string) || 'unknown';
+    const ip = requestIp(req);
 
     // Log webhook recibido
-    logger.webhook('mercadopago', type || action || 'unknown', 'Webhook received', {
+    logger.webhook('mercadopago', type || action || 'unknown', `Webhook received${source}`, {
       data: { type, action, dataId: data?.id },
       ip
     });
 
     // Verificar firma (si MERCADOPAGO_WEBHOOK_SECRET está configurado)
-    if (!verifyMpSignature(req)) {
+    const signatureStatus = mpSignatureStatus(req);
+    const { event, duplicate } = await webhookInbox.receive({
+      provider: 'mercadopago',
+      payload: req.body,
+      headers: req.headers,
+      signatureStatus,
+      ip,
+    });
+
+    if (signatureStatus === 'invalid') {
       logger.webhook('mercadopago', 'invalid_signature', 'Webhook signature verification failed', { ip });
       res.status(401).send('invalid signature');
       return;
@@ -75,26 +109,26 @@ router.post('/mercadopago', async (req, res) => {
     // Responder inmediatamente a MercadoPago (evitar timeout)
     res.status(200).send('OK');
 
-    // Procesar el webhook de forma asíncrona
-    if (type === 'payment' || action === 'payment.created' || action === 'payment.updated') {
-      await handlePaymentWebhook(data, ip);
-    } else if (type === 'subscription' || action?.startsWith('subscription')) {
-      await handleSubscriptionWebhook(data, action, ip);
+    if (!duplicate) {
+      await webhookInbox.process(event.id);
     }
-
-    // Log tiempo de procesamiento
-    const processingTime = Date.now() - startTime;
-    logger.webhook('mercadopago', type || action || 'unknown', `Webhook processed in ${processingTime}ms`, {
-      data: { processingTime, dataId: data?.id }
-    });
   } catch (error: any) {
-    logger.error('webhooks', 'Error processing MercadoPago webhook', {
+    logger.error('webhooks', 'Error receiving MercadoPago webhook', {
       data: { error: error.message, stack: error.stack },
       ip: req.ip
     });
-    // Ya respondimos 200, solo loguear el error
+    // Si no se pudo guardar el evento, pedir a MP que reintente
+    if (!res.headersSent) {
+      res.status(500).send('Error processing webhook');
+    }
   }
-});
+}
+
+/**
+ * POST /api/webhooks/mercadopago
+ * Webhook para recibir notificaciones de MercadoPago
+ */
+router.post('/mercadopago', (req, res) => receiveMercadoPagoWebhook(req, res, ''));
 
 /**
  * Manejar webhook de pago
@@ -196,6 +230,7 @@ async function handlePaymentWebhook(data: any, ip: string) {
     logger.error('webhooks', `Error handling payment webhook: ${error.message}`, {
       data: { error: error.message, stack: error.stack, paymentId: data?.id }
     });
+    throw error;
   }
 }
 
@@ -382,7 +417,11 @@ async function handleRejectedPayment(payment: any) {
 async function handleRefundedPayment(payment: any) {
   payment.status = 'refunded';
   payment.refundedAt = new Date();
-  await payment.save();
+  // Si el asiento falla, el error llega a la bandeja de webhooks y el evento se reintenta
+  await sequelize.transaction(async (transaction) => {
+    await payment.save({ transaction });
+    await ledger.settleRefund(payment, Number(payment.amountArs || payment.amount) || 0, { transaction });
+  });
 
   const contract = await Contract.findByPk(payment.contractId);
   if (contract) {
@@ -598,6 +637,7 @@ async function handleSubscriptionWebhook(data: any, action: string, ip: string)
     logger.error('webhooks', `Error handling subscription webhook: ${error.message}`, {
       data: { error: error.message, action }
     });
+    throw error;
   }
 }
 
@@ -605,26 +645,6 @@ async function handleSubscriptionWebhook(data: any, action: string, ip: string)
  * POST /api/webhooks/mercadopago/subscription
  * Webhook para suscripciones de MercadoPago (legacy endpoint)
  */
-router.post('/mercadopago/subscription', async (req, res) => {
-  try {
-    const { type, data, action } = req.body;
-    const ip = req.ip || (Array.isArray(req.headers['x-forwarded-for']) ? req.headers['x-forwarded-for'][0] : req.headers['x-forwarded-for'] as string) || 'unknown';
-
-    logger.webhook('mercadopago', 'subscription', 'Subscription webhook received (legacy)', {
-      data: { type, action, dataId: data?.id },
-      ip: ip as string
-    });
-
-    res.status(200).send('OK');
-
-    // Procesar usando el handler unificado
-    await handleSubscriptionWebhook(data, action || type, ip as string);
-  } catch (error: any) {
-    logger.error('webhooks', `Error processing subscription webhook: ${error.message}`, {
-      data: { error: error.message }
-    });
-    res.status(500).send('Error processing webhook');
-  }
-});
+router.post('/mercadopago/subscription', (req, res) => receiveMercadoPagoWebhook(req, res, ' (legacy subscription endpoint)'));
 
 export default router;
@@ -0,0 +1,64 @@
+/**
+ * Offline verification of an audit log export.
+ *
+ * Takes the CSV of a day (GET /api/admin/audit-logs/chain/export/:date.csv)
+ * and its signed checkpoint (.../export/:date/checkpoint.json) and checks,
+ * without database access:
+ *   - every entry hash recomputes from the exported fields,
+ *   - sequences are consecutive and each prevHash links to the previous entry,
+ *   - the checkpoint hash matches its payload and its signature is valid,
+ *   - the checkpoint's last hash is in the chain (and, if final, nothing is
+ *     missing at the end of the day).
+ *
+ * Ed25519 checkpoints carry their public key; pass --public-key <pem file> to
+ * pin the key published by the platform instead of trusting the one in the
+ * file. HMAC checkpoints need --secret (only the platform can verify them).
+ *
+ * Run:  npx tsx server/scripts/verifyAuditExport.ts audit-log-2026-08-20.csv audit-checkpoint-2026-08-20.json
+ * Exit: 0 = valid, 1 = broken chain or bad signature, 2 = error.
+ */
+import fs from 'fs';
+import {
+  parseAuditCsv,
+  verifyChain,
+  verifyCheckpointSignature,
+  type SignedCheckpoint,
+} from '../services/auditChainRules.js';
+
+const args = process.argv.slice(2);
+const option = (name: string): string | undefined => {
+  const index = args.indexOf(name);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+const [csvPath, checkpointPath] = args.filter((arg, i) => !arg.startsWith('--') && !args[i - 1]?.startsWith('--'));
+
+try {
+  if (!csvPath || !checkpointPath) {
+    console.error('Uso: npx tsx server/scripts/verifyAuditExport.ts <export.csv> <checkpoint.json> [--public-key key.pem] [--secret s]');
+    process.exit(2);
+  }
+
+  const entries = parseAuditCsv(fs.readFileSync(csvPath, 'utf8'));
+  const checkpoint = JSON.parse(fs.readFileSync(checkpointPath, 'utf8')) as SignedCheckpoint & { publicKey?: string | null };
+  const publicKeyPath = option('--public-key');
+  const publicKey = publicKeyPath ? fs.readFileSync(publicKeyPath, 'utf8') : checkpoint.publicKey || undefined;
+
+  const signatureValid = verifyCheckpointSignature(checkpoint, { publicKey, secret: option('--secret') });
+  const chain = verifyChain(entries, { checkpoints: [checkpoint] });
+
+  console.log(`Día ${checkpoint.chainDate}: ${entries.length} entradas, checkpoint ${checkpoint.final ? 'final' : 'parcial'} hasta la secuencia ${checkpoint.sequence}`);
+  console.log(`Firma del checkpoint (${checkpoint.algorithm}): ${signatureValid ? 'válida' : 'INVÁLIDA'}`);
+  if (chain.valid) {
+    console.log(`Cadena: válida (${chain.checked} entradas verificadas)`);
+  } else {
+    const broken = chain.firstBroken!;
+    console.log(`Cadena: ROTA en la secuencia ${broken.sequence} (${broken.reason})${broken.id ? ` — entrada ${broken.id}` : ''}`);
+    if (broken.expected !== undefined) console.log(`  esperado: ${broken.expected}`);
+    if (broken.actual !== undefined) console.log(`  encontrado: ${broken.actual}`);
+  }
+
+  process.exit(signatureValid && chain.valid ? 0 : 1);
+} catch (error: any) {
+  console.error('Error verificando el export:', error.message);
+  process.exit(2);
+}
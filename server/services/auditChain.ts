@@ -0,0 +1,389 @@
+/**
+ * Audit Chain Service
+ *
+ * Escritura encadenada, checkpoints y verificación del audit log (reglas en
+ * auditChainRules.ts):
+ *
+ * 1. append(): toda entrada pasa por acá (AuditLog.logAdminAction). Un
+ *    advisory lock de PostgreSQL serializa las escrituras para que la
+ *    secuencia y el prevHash no se pisen entre requests concurrentes.
+ * 2. createCheckpoints(): lo corre el job auditLogCheckpoints cada hora.
+ *    Firma el estado actual del día y cierra (checkpoint final) los días
+ *    anteriores.
+ * 3. verifyDay()/health(): recorren la cadena y reportan el primer eslabón
+ *    roto. Los usa el panel de admin y el job de verificación diaria.
+ * 4. exportDay(): CSV del día + último checkpoint firmado, para verificar
+ *    offline con server/scripts/verifyAuditExport.ts.
+ *
+ * Firma de checkpoints: Ed25519 si AUDIT_CHECKPOINT_PRIVATE_KEY tiene una
+ * clave privada PEM (verificable por terceros con la clave pública); si no,
+ * HMAC-SHA256 con JWT_SECRET (solo verificable por el servidor).
+ */
+
+import crypto from 'crypto';
+import { Op, QueryTypes, literal } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { config } from '../config/env.js';
+import { AuditLog, type AuditLogInput } from '../models/sql/AuditLog.model.js';
+import { AuditLogCheckpoint } from '../models/sql/AuditLogCheckpoint.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import {
+  GENESIS_HASH,
+  auditEntriesToCsv,
+  chainDateOf,
+  computeCheckpointHash,
+  computeEntryHash,
+  signCheckpointHash,
+  verifyChain,
+  verifyCheckpointSignature,
+  type ChainedAuditEntry,
+  type ChainVerification,
+  type CheckpointPayload,
+  type SignedCheckpoint,
+} from './auditChainRules.js';
+
+// Clave del advisory lock que serializa las escrituras de la cadena
+const CHAIN_LOCK_KEY = 'audit_log_chain';
+
+type SigningKey =
+  | { algorithm: 'ed25519'; privateKey: string; publicKey: string }
+  | { algorithm: 'hmac-sha256'; secret: string };
+
+export interface DayHealth {
+  chainDate: string;
+  entries: number;
+  status: 'ok' | 'broken' | 'pruned';
+  verification: ChainVerification;
+  checkpoints: number;
+  finalized: boolean;
+  lastCheckpointAt: Date | null;
+  signatureValid: boolean | null;
+}
+
+const isValidDate = (date: string) => /^\d{4}-\d{2}-\d{2}$/.test(date) && !isNaN(new Date(date).getTime());
+
+const toSigned = (checkpoint: AuditLogCheckpoint): SignedCheckpoint => ({
+  chainDate: checkpoint.chainDate,
+  sequence: checkpoint.sequence,
+  entryCount: checkpoint.entryCount,
+  anchorHash: checkpoint.anchorHash,
+  lastHash: checkpoint.lastHash,
+  final: checkpoint.final,
+  previousCheckpointHash: checkpoint.previousCheckpointHash,
+  createdAt: new Date(checkpoint.createdAt).toISOString(),
+  checkpointHash: checkpoint.checkpointHash,
+  signature: checkpoint.signature,
+  algorithm: checkpoint.algorithm,
+  prunedCount: checkpoint.prunedCount,
+});
+
+class AuditChainService {
+  private signingKey: SigningKey | null = null;
+
+  private getSigningKey(): SigningKey {
+    if (this.signingKey) return this.signingKey;
+
+    const raw = process.env.AUDIT_CHECKPOINT_PRIVATE_KEY;
+    if (raw) {
+      const privateKey = raw.replace(/\\n/g, '\n');
+      const publicKey = crypto.createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString();
+      this.signingKey = { algorithm: 'ed25519', privateKey, publicKey };
+    } else {
+      this.signingKey = { algorithm: 'hmac-sha256', secret: config.jwtSecret };
+    }
+    return this.signingKey;
+  }
+
+  /**
+   * Clave pública para verificar checkpoints offline (null con HMAC)
+   */
+  getPublicKey(): string | null {
+    const key = this.getSigningKey();
+    return key.algorithm === 'ed25519' ? key.publicKey : null;
+  }
+
+  /**
+   * Agrega una entrada al final de la cadena del día
+   */
+  async append(data: AuditLogInput): Promise<AuditLog> {
+    return sequelize.transaction(async (transaction) => {
+      await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+        replacements: { key: CHAIN_LOCK_KEY },
+        transaction,
+      });
+
+      // La hora se toma con el lock tomado: el orden de la cadena es el de createdAt
+      const createdAt = new Date();
+      const chainDate = chainDateOf(createdAt);
+
+      const last = await AuditLog.findOne({
+        where: { chainDate: { [Op.lte]: chainDate }, sequence: { [Op.ne]: null } },
+        attributes: ['chainDate', 'sequence', 'signature'],
+        order: [['chainDate', 'DESC'], ['sequence', 'DESC']],
+        transaction,
+      });
+
+      const sameDay = last?.chainDate === chainDate;
+      // Si la retención borró los últimos días, el ancla sale de su checkpoint final
+      const closed = sameDay
+        ? null
+        : await AuditLogCheckpoint.findOne({
+            where: { chainDate: { [Op.lt]: chainDate }, final: true },
+            order: [['chainDate', 'DESC']],
+            transaction,
+          });
+      const entry: ChainedAuditEntry = {
+        id: crypto.randomUUID(),
+        chainDate,
+        sequence: sameDay ? Number(last!.sequence) + 1 : 1,
+        prevHash: closed && (!last || closed.chainDate >= last.chainDate!) ? closed.lastHash : last?.signature || GENESIS_HASH,
+        createdAt,
+        performedBy: data.performedBy,
+        adminRole: data.adminRole,
+        action: data.action,
+        category: data.category,
+        severity: data.severity || 'low',
+        targetModel: data.targetModel ?? null,
+        targetId: data.targetId ?? null,
+        targetIdentifier: data.targetIdentifier ?? null,
+        description: data.description,
+        changes: data.changes ?? null,
+        metadata: data.metadata ?? null,
+        ip: data.ip,
+        userAgent: data.userAgent,
+        passwordVerified: data.passwordVerified || false,
+        twoFactorVerified: data.twoFactorVerified || false,
+      };
+
+      return AuditLog.create({ ...entry, signature: computeEntryHash(entry) }, { transaction });
+    });
+  }
+
+  private async loadDay(chainDate: string): Promise<ChainedAuditEntry[]> {
+    const rows = await AuditLog.findAll({
+      where: { chainDate, sequence: { [Op.ne]: null } },
+      order: [['sequence', 'ASC']],
+      raw: true,
+    });
+    return rows as unknown as ChainedAuditEntry[];
+  }
+
+  /**
+   * Último hash del día anterior con entradas (ancla del día). Si ese día está
+   * cerrado se toma del checkpoint final: la retención pudo borrarlo entero.
+   */
+  private async anchorFor(chainDate: string): Promise<string> {
+    const [previous, closed] = await Promise.all([
+      AuditLog.findOne({
+        where: { chainDate: { [Op.lt]: chainDate }, sequence: { [Op.ne]: null } },
+        attributes: ['chainDate', 'signature'],
+        order: [['chainDate', 'DESC'], ['sequence', 'DESC']],
+      }),
+      AuditLogCheckpoint.findOne({
+        where: { chainDate: { [Op.lt]: chainDate }, final: true },
+        order: [['chainDate', 'DESC']],
+      }),
+    ]);
+    if (closed && (!previous || closed.chainDate >= previous.chainDate!)) return closed.lastHash;
+    return previous?.signature || GENESIS_HASH;
+  }
+
+  /**
+   * Firma el estado de los días con entradas nuevas desde su último
+   * checkpoint; los días anteriores a hoy quedan cerrados (final)
+   */
+  async createCheckpoints(now = new Date()): Promise<number> {
+    const today = chainDateOf(now);
+    const lastFinal = await AuditLogCheckpoint.findOne({ where: { final: true }, order: [['chainDate', 'DESC']] });
+
+    const days = await sequelize.query<{ chain_date: string; max_sequence: number; entries: number }>(
+      `SELECT "chainDate"::text AS chain_date, MAX(sequence)::int AS max_sequence, COUNT(*)::int AS entries
+         FROM audit_logs
+        WHERE sequence IS NOT NULL ${lastFinal ? 'AND "chainDate" > :after' : ''}
+        GROUP BY "chainDate"
+        ORDER BY "chainDate" ASC`,
+      { type: QueryTypes.SELECT, replacements: { after: lastFinal?.chainDate } }
+    );
+
+    let created = 0;
+    for (const day of days) {
+      const final = day.chain_date < today;
+      const latest = await AuditLogCheckpoint.findOne({
+        where: { chainDate: day.chain_date },
+        order: [['sequence', 'DESC'], ['final', 'DESC']],
+      });
+      if (latest && latest.sequence === day.max_sequence && (latest.final || !final)) continue;
+
+      const [tail, first] = await Promise.all([
+        AuditLog.findOne({ where: { chainDate: day.chain_date, sequence: day.max_sequence }, attributes: ['signature'] }),
+        AuditLog.findOne({ where: { chainDate: day.chain_date, sequence: 1 }, attributes: ['prevHash'] }),
+      ]);
+      const previous = await AuditLogCheckpoint.findOne({ order: [['chainDate', 'DESC'], ['sequence', 'DESC']] });
+
+      const payload: CheckpointPayload = {
+        chainDate: day.chain_date,
+        sequence: day.max_sequence,
+        entryCount: day.entries,
+        anchorHash: first?.prevHash || GENESIS_HASH,
+        lastHash: tail?.signature || GENESIS_HASH,
+        final,
+        previousCheckpointHash: previous?.checkpointHash || GENESIS_HASH,
+        createdAt: new Date().toISOString(),
+      };
+      const checkpointHash = computeCheckpointHash(payload);
+      const key = this.getSigningKey();
+
+      await AuditLogCheckpoint.create({
+        ...payload,
+        createdAt: new Date(payload.createdAt),
+        checkpointHash,
+        signature: signCheckpointHash(checkpointHash, key),
+        algorithm: key.algorithm,
+        publicKey: key.algorithm === 'ed25519' ? key.publicKey : null,
+      });
+      created++;
+    }
+    return created;
+  }
+
+  private verifySignature(checkpoint: SignedCheckpoint, publicKey?: string | null): boolean {
+    const key = this.getSigningKey();
+    return verifyCheckpointSignature(checkpoint, {
+      publicKey: publicKey || (key.algorithm === 'ed25519' ? key.publicKey : undefined),
+      secret: key.algorithm === 'hmac-sha256' ? key.secret : undefined,
+    });
+  }
+
+  /**
+   * Verifica la cadena de un día contra su ancla y sus checkpoints
+   */
+  async verifyDay(chainDate: string): Promise<DayHealth> {
+    if (!isValidDate(chainDate)) throw new ErrorResponse('Fecha inválida (YYYY-MM-DD)', 400);
+
+    const [entries, anchorHash, checkpoints] = await Promise.all([
+      this.loadDay(chainDate),
+      this.anchorFor(chainDate),
+      AuditLogCheckpoint.findAll({ where: { chainDate }, order: [['sequence', 'ASC']] }),
+    ]);
+    const signed = checkpoints.map(toSigned);
+    const verification = verifyChain(entries, { anchorHash, checkpoints: signed });
+    const signatureValid = checkpoints.length
+      ? checkpoints.every((cp, i) => this.verifySignature(signed[i], cp.publicKey))
+      : null;
+
+    const finalCheckpoint = checkpoints.find((cp) => cp.final);
+    const broken = !verification.valid || signatureValid === false;
+    return {
+      chainDate,
+      entries: entries.length,
+      status: broken ? 'broken' : (finalCheckpoint?.prunedCount || 0) > 0 ? 'pruned' : 'ok',
+      verification,
+      checkpoints: checkpoints.length,
+      finalized: Boolean(finalCheckpoint),
+      lastCheckpointAt: checkpoints.length ? checkpoints[checkpoints.length - 1].createdAt : null,
+      signatureValid,
+    };
+  }
+
+  /**
+   * Estado de la cadena de los últimos `days` días con entradas
+   */
+  async health({ days = 14 }: { days?: number } = {}) {
+    const since = new Date();
+    since.setUTCDate(since.getUTCDate() - Math.min(Math.max(days, 1), 90) + 1);
+
+    const [chainDays, legacyEntries, lastCheckpoint] = await Promise.all([
+      sequelize.query<{ chain_date: string }>(
+        `SELECT DISTINCT "chainDate"::text AS chain_date FROM audit_logs
+          WHERE sequence IS NOT NULL AND "chainDate" >= :since
+          ORDER BY "chainDate" DESC`,
+        { type: QueryTypes.SELECT, replacements: { since: chainDateOf(since) } }
+      ),
+      AuditLog.count({ where: { sequence: null } }),
+      AuditLogCheckpoint.findOne({ order: [['createdAt', 'DESC']] }),
+    ]);
+
+    const results: DayHealth[] = [];
+    for (const { chain_date } of chainDays) {
+      results.push(await this.verifyDay(chain_date));
+    }
+
+    // Los checkpoints también forman una cadena (previousCheckpointHash)
+    const checkpoints = await AuditLogCheckpoint.findAll({
+      where: { chainDate: { [Op.gte]: chainDateOf(since) } },
+      attributes: ['chainDate', 'sequence', 'checkpointHash', 'previousCheckpointHash'],
+      order: [['createdAt', 'ASC']],
+    });
+    const brokenCheckpoint = checkpoints.find((cp, i) =>
+      i > 0 && cp.previousCheckpointHash !== checkpoints[i - 1].checkpointHash
+    );
+
+    const firstBroken = [...results].reverse().find((day) => day.status === 'broken') || null;
+    return {
+      healthy: !firstBroken && !brokenCheckpoint,
+      checkpointChainValid: !brokenCheckpoint,
+      algorithm: this.getSigningKey().algorithm,
+      publicKey: this.getPublicKey(),
+      legacyEntries,
+      lastCheckpointAt: lastCheckpoint?.createdAt || null,
+      firstBroken: firstBroken ? { chainDate: firstBroken.chainDate, ...firstBroken.verification.firstBroken } : null,
+      days: results,
+    };
+  }
+
+  /**
+   * Retención: borra días cerrados completos anteriores a `before` que no
+   * tengan entradas high/critical. Solo poda días cuya cadena verifica; el
+   * borrado y el prunedCount del checkpoint final van en una transacción.
+   */
+  async pruneDays(before: Date): Promise<number> {
+    const checkpoints = await AuditLogCheckpoint.findAll({
+      where: {
+        final: true,
+        prunedCount: 0,
+        chainDate: { [Op.lt]: chainDateOf(before) },
+        [Op.and]: literal(
+          `NOT EXISTS (SELECT 1 FROM audit_logs WHERE audit_logs."chainDate" = "AuditLogCheckpoint".chain_date AND audit_logs.severity IN ('critical', 'high'))`
+        ),
+      },
+      order: [['chainDate', 'ASC']],
+    });
+
+    let removed = 0;
+    for (const checkpoint of checkpoints) {
+      // Un día roto queda como está para que lo reporte health()
+      const day = await this.verifyDay(checkpoint.chainDate);
+      if (day.status !== 'ok') continue;
+
+      removed += await sequelize.transaction(async (transaction) => {
+        const deleted = await AuditLog.destroy({ where: { chainDate: checkpoint.chainDate }, transaction });
+        if (deleted !== checkpoint.entryCount) {
+          throw new Error(`La cadena del ${checkpoint.chainDate} cambió durante la retención`);
+        }
+        await checkpoint.update({ prunedCount: deleted }, { transaction });
+        return deleted;
+      });
+    }
+    return removed;
+  }
+
+  /**
+   * CSV del día y su último checkpoint firmado, para verificación offline
+   */
+  async exportDay(chainDate: string): Promise<{ csv: string; checkpoint: (SignedCheckpoint & { publicKey: string | null }) | null }> {
+    if (!isValidDate(chainDate)) throw new ErrorResponse('Fecha inválida (YYYY-MM-DD)', 400);
+
+    const [entries, checkpoint] = await Promise.all([
+      this.loadDay(chainDate),
+      AuditLogCheckpoint.findOne({ where: { chainDate }, order: [['sequence', 'DESC']] }),
+    ]);
+    if (entries.length === 0) throw new ErrorResponse('No hay entradas encadenadas para esa fecha', 404);
+
+    return {
+      csv: auditEntriesToCsv(entries),
+      checkpoint: checkpoint ? { ...toSigned(checkpoint), publicKey: checkpoint.publicKey || null } : null,
+    };
+  }
+}
+
+export default new AuditChainService();
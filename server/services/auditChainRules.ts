@@ -0,0 +1,330 @@
+/**
+ * Audit Chain Rules
+ *
+ * Cadena de hashes del audit log:
+ *
+ * - Cada entrada pertenece a la cadena de su día (UTC, `chainDate`), tiene un
+ *   número de secuencia consecutivo dentro del día y guarda el hash de la
+ *   entrada anterior (`prevHash`). La primera entrada del día se encadena al
+ *   último hash del día anterior (o a GENESIS_HASH).
+ * - El hash de la entrada (columna `signature`) es SHA-256 sobre el JSON
+ *   canónico (claves ordenadas) de todos los campos guardados, incluido el
+ *   `createdAt` que quedó en la base. Cambiar, borrar o reordenar filas rompe
+ *   la cadena.
+ * - Los checkpoints firman el estado de un día (última secuencia y último
+ *   hash) y se encadenan entre sí. Con Ed25519 un auditor puede verificar un
+ *   export CSV offline con la clave pública; con HMAC solo el servidor.
+ *
+ * Módulo puro (sin base de datos): lo usan auditChain.ts y el script
+ * server/scripts/verifyAuditExport.ts.
+ */
+
+import crypto from 'crypto';
+
+export const GENESIS_HASH = '0'.repeat(64);
+
+// Campos que entran en el hash, en el orden de las columnas del export CSV
+export const AUDIT_HASH_FIELDS = [
+  'id', 'chainDate', 'sequence', 'prevHash', 'createdAt',
+  'performedBy', 'adminRole', 'action', 'category', 'severity',
+  'targetModel', 'targetId', 'targetIdentifier', 'description',
+  'changes', 'metadata', 'ip', 'userAgent', 'passwordVerified', 'twoFactorVerified',
+] as const;
+
+export const AUDIT_EXPORT_COLUMNS = [...AUDIT_HASH_FIELDS, 'signature'] as const;
+
+export type CheckpointAlgorithm = 'ed25519' | 'hmac-sha256';
+
+export interface ChainedAuditEntry {
+  id: string;
+  chainDate: string;
+  sequence: number;
+  prevHash: string;
+  createdAt: Date | string;
+  performedBy: string;
+  adminRole: string;
+  action: string;
+  category: string;
+  severity: string;
+  targetModel?: string | null;
+  targetId?: string | null;
+  targetIdentifier?: string | null;
+  description: string;
+  changes?: unknown;
+  metadata?: unknown;
+  ip: string;
+  userAgent: string;
+  passwordVerified?: boolean | null;
+  twoFactorVerified?: boolean | null;
+  signature?: string | null;
+}
+
+export interface CheckpointPayload {
+  chainDate: string;
+  sequence: number;
+  entryCount: number;
+  anchorHash: string;
+  lastHash: string;
+  final: boolean;
+  previousCheckpointHash: string;
+  createdAt: string;
+}
+
+export interface SignedCheckpoint extends CheckpointPayload {
+  checkpointHash: string;
+  signature: string;
+  algorithm: CheckpointAlgorithm;
+  prunedCount?: number;
+}
+
+export type ChainBreakReason =
+  | 'hash_mismatch'
+  | 'broken_link'
+  | 'sequence_gap'
+  | 'anchor_mismatch'
+  | 'checkpoint_mismatch'
+  | 'missing_entries';
+
+export interface ChainBreak {
+  reason: ChainBreakReason;
+  sequence: number;
+  id?: string;
+  expected?: string | number;
+  actual?: string | number;
+}
+
+export interface ChainVerification {
+  valid: boolean;
+  checked: number;
+  lastSequence: number;
+  lastHash: string | null;
+  firstBroken: ChainBreak | null;
+}
+
+export const sha256 = (data: string): string =>
+  crypto.createHash('sha256').update(data).digest('hex');
+
+/**
+ * Fecha de la cadena (día UTC) de un instante
+ */
+export function chainDateOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+const sortKeys = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>).sort().map((key) => [key, sortKeys((value as any)[key])])
+    );
+  }
+  return value;
+};
+
+/**
+ * JSON con claves ordenadas. Pasa primero por JSON para quedar igual que lo
+ * que devuelve JSONB (sin undefined, fechas como string).
+ */
+export function canonicalJson(value: unknown): string {
+  const plain = value === undefined ? null : JSON.parse(JSON.stringify(value));
+  return JSON.stringify(sortKeys(plain));
+}
+
+/**
+ * Valores normalizados de los campos del hash (null en lugar de undefined,
+ * fechas ISO, secuencia numérica)
+ */
+export function hashableEntry(entry: ChainedAuditEntry): Record<string, unknown> {
+  const record: Record<string, unknown> = {};
+  for (const field of AUDIT_HASH_FIELDS) {
+    const value = (entry as any)[field];
+    if (field === 'createdAt') record[field] = new Date(value).toISOString();
+    else if (field === 'sequence') record[field] = Number(value);
+    else if (field === 'passwordVerified' || field === 'twoFactorVerified') record[field] = Boolean(value);
+    else record[field] = value ?? null;
+  }
+  return record;
+}
+
+export function computeEntryHash(entry: ChainedAuditEntry): string {
+  return sha256(canonicalJson(hashableEntry(entry)));
+}
+
+export function computeCheckpointHash(payload: CheckpointPayload): string {
+  const { chainDate, sequence, entryCount, anchorHash, lastHash, final, previousCheckpointHash, createdAt } = payload;
+  return sha256(canonicalJson({ chainDate, sequence, entryCount, anchorHash, lastHash, final, previousCheckpointHash, createdAt }));
+}
+
+/**
+ * Firma el hash del checkpoint: Ed25519 con una clave privada PEM, o
+ * HMAC-SHA256 con un secreto
+ */
+export function signCheckpointHash(
+  checkpointHash: string,
+  key: { algorithm: 'ed25519'; privateKey: string } | { algorithm: 'hmac-sha256'; secret: string }
+): string {
+  if (key.algorithm === 'ed25519') {
+    return crypto.sign(null, Buffer.from(checkpointHash), key.privateKey).toString('base64');
+  }
+  return crypto.createHmac('sha256', key.secret).update(checkpointHash).digest('hex');
+}
+
+export function verifyCheckpointSignature(
+  checkpoint: SignedCheckpoint,
+  key: { publicKey?: string; secret?: string }
+): boolean {
+  if (computeCheckpointHash(checkpoint) !== checkpoint.checkpointHash) return false;
+  try {
+    if (checkpoint.algorithm === 'ed25519') {
+      if (!key.publicKey) return false;
+      return crypto.verify(null, Buffer.from(checkpoint.checkpointHash), key.publicKey, Buffer.from(checkpoint.signature, 'base64'));
+    }
+    if (!key.secret) return false;
+    const expected = crypto.createHmac('sha256', key.secret).update(checkpoint.checkpointHash).digest('hex');
+    return expected.length === checkpoint.signature.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(checkpoint.signature));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Recorre la cadena de un día (entradas ordenadas por secuencia) y devuelve el
+ * primer eslabón roto.
+ *
+ * - anchorHash: último hash del día anterior, si se conoce.
+ * - checkpoints: checkpoints del día; el último hash firmado tiene que estar
+ *   en la cadena y un checkpoint final fija la cantidad de entradas.
+ * - La retención borra días cerrados completos: un día podado (prunedCount
+ *   en el checkpoint final) no puede conservar entradas y tiene que haber
+ *   podado todas las que firmó. Un hueco dentro de un día siempre es un
+ *   borrado.
+ */
+export function verifyChain(
+  entries: ChainedAuditEntry[],
+  { anchorHash, checkpoints = [] }: { anchorHash?: string | null; checkpoints?: SignedCheckpoint[] } = {}
+): ChainVerification {
+  const finalCheckpoint = checkpoints.find((cp) => cp.final);
+  const pruned = (finalCheckpoint?.prunedCount || 0) > 0;
+  const bySequence = new Map<number, ChainedAuditEntry>();
+  let previous: ChainedAuditEntry | null = null;
+  let checked = 0;
+
+  const result = (firstBroken: ChainBreak | null): ChainVerification => ({
+    valid: firstBroken === null,
+    checked,
+    lastSequence: previous ? Number(previous.sequence) : 0,
+    lastHash: previous?.signature ?? null,
+    firstBroken,
+  });
+
+  if (finalCheckpoint && pruned) {
+    if (entries.length > 0) {
+      const [first] = entries;
+      return result({ reason: 'missing_entries', sequence: Number(first.sequence), id: first.id, expected: 0, actual: entries.length });
+    }
+    if (finalCheckpoint.prunedCount !== finalCheckpoint.entryCount) {
+      return result({ reason: 'missing_entries', sequence: finalCheckpoint.sequence, expected: finalCheckpoint.entryCount, actual: finalCheckpoint.prunedCount });
+    }
+    return result(null);
+  }
+
+  for (const entry of entries) {
+    const sequence = Number(entry.sequence);
+    const expectedSequence = previous ? Number(previous.sequence) + 1 : 1;
+
+    if (computeEntryHash(entry) !== entry.signature) {
+      return result({ reason: 'hash_mismatch', sequence, id: entry.id, expected: computeEntryHash(entry), actual: entry.signature ?? '' });
+    }
+
+    if (sequence !== expectedSequence) {
+      return result({ reason: 'sequence_gap', sequence, id: entry.id, expected: expectedSequence, actual: sequence });
+    } else if (previous && entry.prevHash !== previous.signature) {
+      return result({ reason: 'broken_link', sequence, id: entry.id, expected: previous.signature ?? '', actual: entry.prevHash });
+    } else if (!previous && sequence === 1) {
+      const anchor = anchorHash ?? finalCheckpoint?.anchorHash ?? checkpoints[0]?.anchorHash;
+      if (anchor && entry.prevHash !== anchor) {
+        return result({ reason: 'anchor_mismatch', sequence, id: entry.id, expected: anchor, actual: entry.prevHash });
+      }
+    }
+
+    bySequence.set(sequence, entry);
+    previous = entry;
+    checked++;
+  }
+
+  for (const checkpoint of checkpoints) {
+    const entry = bySequence.get(checkpoint.sequence);
+    if (!entry) {
+      return result({ reason: 'missing_entries', sequence: checkpoint.sequence, expected: checkpoint.lastHash });
+    }
+    if (entry.signature !== checkpoint.lastHash) {
+      return result({ reason: 'checkpoint_mismatch', sequence: checkpoint.sequence, id: entry.id, expected: checkpoint.lastHash, actual: entry.signature ?? '' });
+    }
+  }
+
+  if (finalCheckpoint) {
+    const lastSequence = previous ? Number(previous.sequence) : 0;
+    if (lastSequence !== finalCheckpoint.sequence || checked < finalCheckpoint.entryCount) {
+      return result({ reason: 'missing_entries', sequence: lastSequence, expected: finalCheckpoint.entryCount, actual: checked });
+    }
+  }
+
+  return result(null);
+}
+
+// ============================================
+// CSV export
+// ============================================
+
+/**
+ * Cada celda es el valor en JSON (así null, booleanos y objetos sobreviven al
+ * CSV sin ambigüedad), escapado como CSV
+ */
+export function auditEntriesToCsv(entries: ChainedAuditEntry[]): string {
+  const cell = (value: unknown) => `"${JSON.stringify(value ?? null).replace(/"/g, '""')}"`;
+  const lines = entries.map((entry) => {
+    const record: Record<string, unknown> = { ...hashableEntry(entry), signature: entry.signature ?? null };
+    return AUDIT_EXPORT_COLUMNS.map((column) => cell(record[column])).join(',');
+  });
+  return [AUDIT_EXPORT_COLUMNS.join(','), ...lines].join('\n');
+}
+
+const parseCsvRows = (csv: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field); field = '';
+    } else if (char === '\n') {
+      row.push(field); rows.push(row); row = []; field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+/**
+ * Lee un export generado por auditEntriesToCsv()
+ */
+export function parseAuditCsv(csv: string): ChainedAuditEntry[] {
+  const [header, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ''));
+  if (!header || header.join(',') !== AUDIT_EXPORT_COLUMNS.join(',')) {
+    throw new Error('El CSV no tiene las columnas de un export del audit log');
+  }
+  return rows
+    .filter((row) => row.length > 1)
+    .map((row) => Object.fromEntries(header.map((column, i) => [column, JSON.parse(row[i])])) as ChainedAuditEntry);
+}
@@ -0,0 +1,623 @@
+/**
+ * Availability Rules
+ *
+ * Agenda del Doer y detección de conflictos de reserva:
+ *
+ * - Agenda semanal (slots), excepciones por día y bloqueos por rango de
+ *   fechas (vacaciones, licencias): se guardan en User.availabilitySchedule
+ * - Un trabajo nuevo choca con los contratos activos del Doer (con margen de
+ *   traslado según la distancia entre los dos trabajos), con los bloques
+ *   ocupados importados de su calendario externo y con sus bloqueos. Dos
+ *   trabajos de tipos distintos (presencial y remoto) pueden superponerse,
+ *   igual que al publicar trabajos (canJobsOverlap).
+ * - Fuera del horario semanal publicado no es conflicto: solo se avisa.
+ * - Libre/ocupado: los horarios de la agenda menos lo ocupado, sin detalle
+ *   de qué trabajo o evento ocupa cada bloque.
+ * - Calendario externo: parseo de VEVENTs de un .ics (con RRULE diaria o
+ *   semanal) a bloques ocupados.
+ *
+ * Módulo puro; la carga de datos y la sincronización están en doerAvailability.ts.
+ */
+
+import { isIP } from 'net';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { canJobsOverlap, getCategoryType } from '../constants/categories.js';
+import { haversineKm, isValidCoordinate } from '../utils/geo.js';
+import { normalizeLocation } from '../utils/fullTextSearch.js';
+import type { AvailabilityBlackout, AvailabilityException, AvailabilitySchedule, AvailabilitySlot } from '../models/sql/User.model.js';
+import { DEFAULT_TIMEZONE, isValidTimezone, localParts, zonedTime } from './notificationDeliveryRules.js';
+
+export const MAX_SLOTS = 35;
+export const MAX_EXCEPTIONS = 100;
+export const MAX_BLACKOUTS = 50;
+export const MAX_BLACKOUT_DAYS = 366;
+export const MAX_TRAVEL_BUFFER_MINUTES = 240;
+// Margen entre dos trabajos presenciales cuando no se puede calcular la distancia
+export const DEFAULT_TRAVEL_BUFFER_MINUTES = 60;
+// Mismo barrio o ciudad sin coordenadas
+export const SAME_AREA_TRAVEL_MINUTES = 30;
+// Traslado estimado con coordenadas: base + minutos por km (~20 km/h en ciudad)
+export const BASE_TRAVEL_MINUTES = 15;
+export const TRAVEL_MINUTES_PER_KM = 3;
+export const MAX_FREE_BUSY_DAYS = 62;
+// Ventana de bloques importados del calendario externo
+export const EXTERNAL_SYNC_PAST_DAYS = 1;
+export const EXTERNAL_SYNC_DAYS = 90;
+export const MAX_EXTERNAL_EVENTS = 2000;
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const YMD = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface Interval {
+  startsAt: Date;
+  endsAt: Date;
+}
+
+/** El trabajo que se quiere reservar (propuesta o aprobación). */
+export interface BookingCandidate {
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  endDateFlexible?: boolean | null;
+  category: string;
+  location?: string | null;
+  neighborhood?: string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  remoteOk?: boolean | null;
+}
+
+/** Un bloque ocupado del Doer: un contrato activo o un evento de su calendario externo. */
+export interface BusyBlock extends Interval {
+  kind: 'contract' | 'external';
+  category?: string;
+  location?: string | null;
+  neighborhood?: string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  remoteOk?: boolean | null;
+  title?: string;
+  contractId?: string;
+  jobId?: string;
+}
+
+export interface BookingConflict extends Interval {
+  kind: 'contract' | 'external' | 'blackout';
+  bufferMinutes: number;
+  title?: string;
+  contractId?: string;
+  jobId?: string;
+  reason?: string;
+}
+
+export interface BookingCheck {
+  conflicts: BookingConflict[];
+  // El inicio cae fuera del horario semanal publicado (aviso, no bloquea)
+  outsideHours: boolean;
+}
+
+export interface FreeBusy {
+  busy: Interval[];
+  available: Interval[];
+}
+
+// ============================================
+// FECHAS
+// ============================================
+
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !YMD.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+function addDays(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function ymd(parts: { year: number; month: number; day: number }): string {
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/** Instante de una fecha (YYYY-MM-DD) y hora (HH:mm, '24:00' = fin del día) locales. */
+function localInstant(date: string, time: string, timezone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedTime({ year, month, day, hour, minute }, timezone);
+}
+
+function weekday(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay();
+}
+
+const overlaps = (a: Interval, b: Interval): boolean =>
+  a.startsAt.getTime() < b.endsAt.getTime() && b.startsAt.getTime() < a.endsAt.getTime();
+
+/** Une intervalos superpuestos o contiguos, ordenados por inicio. */
+export function mergeIntervals(intervals: Interval[]): Interval[] {
+  const sorted = [...intervals].sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  const merged: Interval[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.startsAt.getTime() <= last.endsAt.getTime()) {
+      if (interval.endsAt > last.endsAt) last.endsAt = interval.endsAt;
+    } else {
+      merged.push({ startsAt: interval.startsAt, endsAt: interval.endsAt });
+    }
+  }
+  return merged;
+}
+
+// ============================================
+// AGENDA
+// ============================================
+
+/**
+ * Valida la agenda que llega del cliente (PUT /api/availability/me o
+ * /api/auth/settings). Los slots de un mismo día no pueden superponerse.
+ */
+export function parseAvailabilitySchedule(input: unknown): AvailabilitySchedule {
+  if (!input || typeof input !== 'object') throw new ErrorResponse('La agenda es inválida', 400);
+  const body = input as Record<string, any>;
+
+  const timezone = body.timezone ?? DEFAULT_TIMEZONE;
+  if (!isValidTimezone(timezone)) throw new ErrorResponse('Zona horaria inválida', 400);
+
+  const rawSlots = body.slots ?? [];
+  if (!Array.isArray(rawSlots) || rawSlots.length > MAX_SLOTS) {
+    throw new ErrorResponse(`Podés cargar hasta ${MAX_SLOTS} horarios semanales`, 400);
+  }
+  const slots: AvailabilitySlot[] = rawSlots.map((slot: any) => {
+    const day = Number(slot?.day);
+    if (!Number.isInteger(day) || day < 0 || day > 6) throw new ErrorResponse('El día de un horario debe estar entre 0 (domingo) y 6 (sábado)', 400);
+    if (!HHMM.test(slot?.start) || !(HHMM.test(slot?.end) || slot?.end === '24:00')) {
+      throw new ErrorResponse('Los horarios deben tener el formato HH:mm', 400);
+    }
+    if (slot.start >= slot.end) throw new ErrorResponse('Un horario no puede terminar antes de empezar', 400);
+    return { day, start: slot.start, end: slot.end };
+  });
+  slots.sort((a, b) => a.day - b.day || a.start.localeCompare(b.start));
+  for (let i = 1; i < slots.length; i++) {
+    if (slots[i].day === slots[i - 1].day && slots[i].start < slots[i - 1].end) {
+      throw new ErrorResponse('Los horarios de un mismo día no pueden superponerse', 400);
+    }
+  }
+
+  const rawExceptions = body.exceptions ?? [];
+  if (!Array.isArray(rawExceptions) || rawExceptions.length > MAX_EXCEPTIONS) {
+    throw new ErrorResponse(`Podés cargar hasta ${MAX_EXCEPTIONS} excepciones`, 400);
+  }
+  const exceptions: AvailabilityException[] = rawExceptions.map((exception: any) => {
+    if (!isValidDate(exception?.date)) throw new ErrorResponse('La fecha de una excepción debe ser YYYY-MM-DD', 400);
+    return {
+      date: exception.date,
+      available: exception.available === true,
+      ...(exception.reason ? { reason: String(exception.reason).slice(0, 200) } : {}),
+    };
+  });
+
+  const rawBlackouts = body.blackouts ?? [];
+  if (!Array.isArray(rawBlackouts) || rawBlackouts.length > MAX_BLACKOUTS) {
+    throw new ErrorResponse(`Podés cargar hasta ${MAX_BLACKOUTS} bloqueos`, 400);
+  }
+  const blackouts: AvailabilityBlackout[] = rawBlackouts.map((blackout: any) => {
+    if (!isValidDate(blackout?.from) || !isValidDate(blackout?.to)) {
+      throw new ErrorResponse('Las fechas de un bloqueo deben ser YYYY-MM-DD', 400);
+    }
+    if (blackout.to < blackout.from) throw new ErrorResponse('Un bloqueo no puede terminar antes de empezar', 400);
+    if (addDays(blackout.from, MAX_BLACKOUT_DAYS) < blackout.to) {
+      throw new ErrorResponse(`Un bloqueo no puede durar más de ${MAX_BLACKOUT_DAYS} días`, 400);
+    }
+    return {
+      from: blackout.from,
+      to: blackout.to,
+      ...(blackout.reason ? { reason: String(blackout.reason).slice(0, 200) } : {}),
+    };
+  });
+
+  let travelBufferMinutes: number | undefined;
+  if (body.travelBufferMinutes !== undefined && body.travelBufferMinutes !== null && body.travelBufferMinutes !== '') {
+    travelBufferMinutes = Number(body.travelBufferMinutes);
+    if (!Number.isInteger(travelBufferMinutes) || travelBufferMinutes < 0 || travelBufferMinutes > MAX_TRAVEL_BUFFER_MINUTES) {
+      throw new ErrorResponse(`El margen de traslado debe estar entre 0 y ${MAX_TRAVEL_BUFFER_MINUTES} minutos`, 400);
+    }
+  }
+
+  return {
+    timezone,
+    slots,
+    exceptions,
+    blackouts,
+    ...(travelBufferMinutes !== undefined ? { travelBufferMinutes } : {}),
+  };
+}
+
+/** Bloqueos (rangos de fechas y excepciones no disponibles) que tocan el intervalo, como instantes. */
+export function blackoutIntervals(schedule: AvailabilitySchedule | null | undefined, range: Interval): Array<Interval & { reason?: string }> {
+  if (!schedule) return [];
+  const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+  const days = [
+    ...(schedule.blackouts || []).map((b) => ({ from: b.from, to: b.to, reason: b.reason })),
+    ...(schedule.exceptions || []).filter((e) => !e.available).map((e) => ({ from: e.date, to: e.date, reason: e.reason })),
+  ];
+  return days
+    .map((b) => ({
+      startsAt: localInstant(b.from, '00:00', timezone),
+      endsAt: localInstant(addDays(b.to, 1), '00:00', timezone),
+      reason: b.reason,
+    }))
+    .filter((b) => overlaps(b, range));
+}
+
+/** ¿El inicio cae dentro de un horario semanal (o de un día marcado disponible)? null = sin agenda. */
+export function withinWeeklyHours(schedule: AvailabilitySchedule | null | undefined, start: Date): boolean | null {
+  if (!schedule?.slots?.length) return null;
+  const timezone = schedule.timezone || DEFAULT_TIMEZONE;
+  const local = localParts(start, timezone);
+  const date = ymd(local);
+  if (schedule.exceptions?.some((e) => e.date === date && e.available)) return true;
+  const time = `${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')}`;
+  return schedule.slots.some((slot) => slot.day === weekday(date) && slot.start <= time && time < slot.end);
+}
+
+// ============================================
+// CONFLICTOS
+// ============================================
+
+/**
+ * Intervalo que ocupa el trabajo. Con fecha de fin flexible (o sin fin) se
+ * toma hasta el final del día de inicio, como al publicar trabajos.
+ */
+export function bookingWindow(candidate: Pick<BookingCandidate, 'startDate' | 'endDate' | 'endDateFlexible'>, timezone = DEFAULT_TIMEZONE): Interval {
+  const startsAt = new Date(candidate.startDate);
+  if (candidate.endDate && !candidate.endDateFlexible) {
+    const endsAt = new Date(candidate.endDate);
+    if (endsAt > startsAt) return { startsAt, endsAt };
+  }
+  const local = localParts(startsAt, timezone);
+  return { startsAt, endsAt: localInstant(addDays(ymd(local), 1), '00:00', timezone) };
+}
+
+type TravelPlace = Partial<Pick<BookingCandidate, 'category' | 'location' | 'neighborhood' | 'latitude' | 'longitude' | 'remoteOk'>>;
+
+const isRemote = (place: { category?: string; remoteOk?: boolean | null }): boolean =>
+  Boolean(place.remoteOk) || (place.category ? getCategoryType(place.category) === 'remoto' : false);
+
+/**
+ * Minutos de traslado entre dos trabajos. Remoto: 0. Con coordenadas, por
+ * distancia; sin coordenadas, mismo barrio/ciudad o el margen del Doer.
+ */
+export function travelMinutes(
+  a: TravelPlace,
+  b: TravelPlace,
+  fallbackMinutes = DEFAULT_TRAVEL_BUFFER_MINUTES
+): number {
+  if (isRemote(a) || isRemote(b)) return 0;
+  if (isValidCoordinate(a.latitude, a.longitude) && isValidCoordinate(b.latitude, b.longitude)) {
+    const km = haversineKm(Number(a.latitude), Number(a.longitude), Number(b.latitude), Number(b.longitude));
+    return Math.min(MAX_TRAVEL_BUFFER_MINUTES, Math.ceil(BASE_TRAVEL_MINUTES + km * TRAVEL_MINUTES_PER_KM));
+  }
+  const area = (place: typeof a) => normalizeLocation(place.neighborhood || place.location || '');
+  if (area(a) && area(a) === area(b)) return Math.min(fallbackMinutes, SAME_AREA_TRAVEL_MINUTES);
+  return fallbackMinutes;
+}
+
+/**
+ * Conflictos del trabajo con lo ocupado del Doer. Los contratos se comparan
+ * con el margen de traslado entre los dos trabajos; los eventos externos y
+ * los bloqueos, sin margen.
+ */
+export function findBookingConflicts(
+  candidate: BookingCandidate,
+  busy: BusyBlock[],
+  schedule?: AvailabilitySchedule | null
+): BookingCheck {
+  const timezone = schedule?.timezone || DEFAULT_TIMEZONE;
+  const window = bookingWindow(candidate, timezone);
+  const fallback = schedule?.travelBufferMinutes ?? DEFAULT_TRAVEL_BUFFER_MINUTES;
+  const conflicts: BookingConflict[] = [];
+
+  for (const block of busy) {
+    if (block.kind === 'external') {
+      if (overlaps(window, block)) {
+        conflicts.push({ kind: 'external', startsAt: block.startsAt, endsAt: block.endsAt, bufferMinutes: 0, title: block.title });
+      }
+      continue;
+    }
+    if (block.category && canJobsOverlap(candidate.category, block.category)) continue;
+    const bufferMinutes = travelMinutes(candidate, block, fallback);
+    const padded = {
+      startsAt: new Date(block.startsAt.getTime() - bufferMinutes * MINUTE_MS),
+      endsAt: new Date(block.endsAt.getTime() + bufferMinutes * MINUTE_MS),
+    };
+    if (overlaps(window, padded)) {
+      conflicts.push({
+        kind: 'contract',
+        startsAt: block.startsAt,
+        endsAt: block.endsAt,
+        bufferMinutes,
+        title: block.title,
+        contractId: block.contractId,
+        jobId: block.jobId,
+      });
+    }
+  }
+
+  for (const blackout of blackoutIntervals(schedule, window)) {
+    conflicts.push({ kind: 'blackout', startsAt: blackout.startsAt, endsAt: blackout.endsAt, bufferMinutes: 0, reason: blackout.reason });
+  }
+
+  conflicts.sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+  return { conflicts, outsideHours: withinWeeklyHours(schedule, window.startsAt) === false };
+}
+
+/**
+ * Mensaje con el conflicto, para el Doer que se postula ('doer') o para el
+ * cliente que lo elige ('client').
+ */
+export function describeConflict(conflict: BookingConflict, viewer: 'doer' | 'client', timezone = DEFAULT_TIMEZONE): string {
+  const when = conflict.startsAt.toLocaleString('es-AR', {
+    timeZone: timezone,
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+  const subject = viewer === 'doer' ? 'Tenés' : 'El Doer tiene';
+  if (conflict.kind === 'blackout') {
+    const reason = conflict.reason ? ` (${conflict.reason})` : '';
+    return viewer === 'doer'
+      ? `Marcaste esas fechas como no disponibles${reason}`
+      : `El Doer no está disponible en esas fechas${reason}`;
+  }
+  if (conflict.kind === 'external') {
+    return `${subject} otro compromiso en ${viewer === 'doer' ? 'tu' : 'su'} calendario externo el ${when}`;
+  }
+  const travel = conflict.bufferMinutes > 0 ? `, contando ${conflict.bufferMinutes} minutos de traslado` : '';
+  // Al cliente no se le muestra el título del trabajo de otro cliente
+  const title = viewer === 'doer' && conflict.title ? ` ("${conflict.title}")` : '';
+  return `${subject} otro contrato${title} el ${when} que se superpone con este trabajo${travel}`;
+}
+
+/** Conflictos sin detalle del otro trabajo, para mostrarle al cliente. */
+export function publicConflicts(conflicts: BookingConflict[]): Array<Pick<BookingConflict, 'kind' | 'startsAt' | 'endsAt' | 'bufferMinutes'>> {
+  return conflicts.map(({ kind, startsAt, endsAt, bufferMinutes }) => ({ kind, startsAt, endsAt, bufferMinutes }));
+}
+
+// ============================================
+// LIBRE / OCUPADO
+// ============================================
+
+/**
+ * Libre/ocupado del Doer en el rango: lo ocupado (contratos, eventos
+ * externos y bloqueos) unido y sin detalle, y los horarios de su agenda
+ * semanal que quedan libres.
+ */
+export function freeBusy(schedule: AvailabilitySchedule | null | undefined, busy: Interval[], range: Interval): FreeBusy {
+  const timezone = schedule?.timezone || DEFAULT_TIMEZONE;
+  const busyMerged = mergeIntervals([
+    ...busy.filter((block) => overlaps(block, range)),
+    ...blackoutIntervals(schedule, range),
+  ]).map((block) => ({
+    startsAt: block.startsAt < range.startsAt ? range.startsAt : block.startsAt,
+    endsAt: block.endsAt > range.endsAt ? range.endsAt : block.endsAt,
+  }));
+
+  const open: Interval[] = [];
+  if (schedule?.slots?.length) {
+    const last = ymd(localParts(range.endsAt, timezone));
+    for (let date = ymd(localParts(range.startsAt, timezone)); date <= last; date = addDays(date, 1)) {
+      for (const slot of schedule.slots.filter((s) => s.day === weekday(date))) {
+        const startsAt = localInstant(date, slot.start, timezone);
+        const endsAt = localInstant(date, slot.end, timezone);
+        if (overlaps({ startsAt, endsAt }, range)) {
+          open.push({
+            startsAt: startsAt < range.startsAt ? range.startsAt : startsAt,
+            endsAt: endsAt > range.endsAt ? range.endsAt : endsAt,
+          });
+        }
+      }
+    }
+  }
+
+  // Horarios libres = agenda menos lo ocupado
+  const available: Interval[] = [];
+  for (const slot of mergeIntervals(open)) {
+    let cursor = slot.startsAt;
+    for (const block of busyMerged) {
+      if (block.endsAt <= cursor || block.startsAt >= slot.endsAt) continue;
+      if (block.startsAt > cursor) available.push({ startsAt: cursor, endsAt: block.startsAt });
+      if (block.endsAt > cursor) cursor = block.endsAt;
+    }
+    if (cursor < slot.endsAt) available.push({ startsAt: cursor, endsAt: slot.endsAt });
+  }
+
+  return { busy: busyMerged, available };
+}
+
+/** Valida el rango ?from&to de libre/ocupado (por defecto las próximas dos semanas). */
+export function parseFreeBusyRange(from: unknown, to: unknown, now: Date): Interval {
+  const startsAt = from ? new Date(String(from)) : now;
+  const endsAt = to ? new Date(String(to)) : new Date(startsAt.getTime() + 14 * DAY_MS);
+  if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime()) || endsAt <= startsAt) {
+    throw new ErrorResponse('Rango de fechas inválido', 400);
+  }
+  if (endsAt.getTime() - startsAt.getTime() > MAX_FREE_BUSY_DAYS * DAY_MS) {
+    throw new ErrorResponse(`El rango no puede superar ${MAX_FREE_BUSY_DAYS} días`, 400);
+  }
+  return { startsAt, endsAt };
+}
+
+// ============================================
+// CALENDARIO EXTERNO (.ics)
+// ============================================
+
+/**
+ * Valida la URL del calendario externo (webcal:// se pide por https). No se
+ * aceptan hosts locales: la URL la pide el servidor.
+ */
+export function parseExternalCalendarUrl(value: unknown): string | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (typeof value !== 'string' || value.length > 2000) throw new ErrorResponse('La URL del calendario es inválida', 400);
+  let url: URL;
+  try {
+    url = new URL(value.trim().replace(/^webcal:\/\//i, 'https://'));
+  } catch {
+    throw new ErrorResponse('La URL del calendario es inválida', 400);
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+    throw new ErrorResponse('La URL del calendario debe ser https o webcal', 400);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal') || (isIP(host) && isPrivateAddress(host))) {
+    throw new ErrorResponse('La URL del calendario debe ser pública', 400);
+  }
+  return url.toString();
+}
+
+/** ¿La IP es de loopback, red privada, link-local o reservada? */
+export function isPrivateAddress(ip: string): boolean {
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+  const lower = ip.toLowerCase();
+  if (lower.startsWith('::ffff:')) return isPrivateAddress(lower.slice(7));
+  return lower === '::' || lower === '::1' || /^f[cd]/.test(lower) || /^fe[89ab]/.test(lower);
+}
+
+interface IcsProperty {
+  params: Record<string, string>;
+  value: string;
+}
+
+/** Instante de un DATE-TIME / DATE de iCalendar (UTC, con TZID o flotante). */
+function parseIcsDate(property: IcsProperty, defaultTimezone: string): { date: Date; allDay: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(property.value.trim());
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  if (hour === undefined) {
+    return { date: zonedTime({ year: +year, month: +month, day: +day, hour: 0, minute: 0 }, defaultTimezone), allDay: true };
+  }
+  if (utc) return { date: new Date(Date.UTC(+year, +month - 1, +day, +hour, +minute, +second)), allDay: false };
+  const timezone = isValidTimezone(property.params.TZID) ? property.params.TZID : defaultTimezone;
+  const date = zonedTime({ year: +year, month: +month, day: +day, hour: +hour, minute: +minute }, timezone);
+  return { date: new Date(date.getTime() + Number(second) * 1000), allDay: false };
+}
+
+/** Duración ISO 8601 de iCalendar (P1D, PT1H30M, P1W) en ms. */
+function parseIcsDuration(value: string): number | null {
+  const match = /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 60 + +(hours || 0) * 60 + +(minutes || 0)) * MINUTE_MS + +(seconds || 0) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+const ICS_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/**
+ * Inicios de un evento repetido (RRULE FREQ=DAILY o WEEKLY con INTERVAL,
+ * COUNT, UNTIL y BYDAY) hasta `until`. Otras frecuencias cuentan solo el
+ * primer inicio.
+ */
+function expandRecurrence(start: Date, rrule: string, until: Date, timezone: string): Date[] {
+  const rule = Object.fromEntries(rrule.split(';').map((part) => part.split('=') as [string, string]));
+  if (rule.FREQ !== 'DAILY' && rule.FREQ !== 'WEEKLY') return [start];
+  const interval = Math.max(1, Number(rule.INTERVAL) || 1);
+  const count = rule.COUNT ? Number(rule.COUNT) : Infinity;
+  const ruleUntil = rule.UNTIL ? parseIcsDate({ params: {}, value: rule.UNTIL }, timezone)?.date : null;
+  const last = ruleUntil && ruleUntil < until ? ruleUntil : until;
+
+  const first = localParts(start, timezone);
+  const firstDate = ymd(first);
+  const time = `${String(first.hour).padStart(2, '0')}:${String(first.minute).padStart(2, '0')}`;
+  const byDay = rule.FREQ === 'WEEKLY' && rule.BYDAY
+    ? rule.BYDAY.split(',').map((day: string) => ICS_WEEKDAYS.indexOf(day.slice(-2))).filter((day: number) => day >= 0)
+    : [weekday(firstDate)];
+  const firstSunday = addDays(firstDate, -weekday(firstDate));
+
+  const starts: Date[] = [];
+  for (let date = firstDate, n = 0; n < count && starts.length < MAX_EXTERNAL_EVENTS; date = addDays(date, 1)) {
+    const instant = localInstant(date, time, timezone);
+    if (instant > last) break;
+    const daysFromStart = Math.round((new Date(`${date}T00:00:00Z`).getTime() - new Date(`${firstDate}T00:00:00Z`).getTime()) / DAY_MS);
+    const matches = rule.FREQ === 'DAILY'
+      ? daysFromStart % interval === 0
+      : byDay.includes(weekday(date))
+        && Math.floor(Math.round((new Date(`${date}T00:00:00Z`).getTime() - new Date(`${firstSunday}T00:00:00Z`).getTime()) / DAY_MS) / 7) % interval === 0;
+    if (!matches) continue;
+    n++;
+    starts.push(instant);
+  }
+  return starts;
+}
+
+/**
+ * Bloques ocupados de un .ics dentro del rango. Se ignoran los eventos
+ * cancelados o marcados como libres (TRANSP:TRANSPARENT). El título no se
+ * guarda: el resto de los usuarios solo ve "ocupado".
+ */
+export function parseIcsBusyBlocks(text: string, range: Interval, defaultTimezone = DEFAULT_TIMEZONE): Array<Interval & { uid: string }> {
+  // Desplegar líneas continuadas (RFC 5545 §3.1)
+  const lines = text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const blocks: Array<Interval & { uid: string }> = [];
+  let event: Record<string, IcsProperty[]> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      blocks.push(...eventBlocks(event, range, defaultTimezone));
+      event = null;
+      if (blocks.length >= MAX_EXTERNAL_EVENTS) break;
+      continue;
+    }
+    if (!event) continue;
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const [name, ...rawParams] = line.slice(0, colon).split(';');
+    const params = Object.fromEntries(rawParams.map((param) => {
+      const [key, value = ''] = param.split('=');
+      return [key.toUpperCase(), value.replace(/^"|"$/g, '')];
+    }));
+    (event[name.toUpperCase()] ||= []).push({ params, value: line.slice(colon + 1) });
+  }
+
+  return blocks.slice(0, MAX_EXTERNAL_EVENTS).sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+function eventBlocks(event: Record<string, IcsProperty[]>, range: Interval, defaultTimezone: string): Array<Interval & { uid: string }> {
+  const value = (name: string) => event[name]?.[0]?.value?.trim().toUpperCase();
+  if (value('STATUS') === 'CANCELLED' || value('TRANSP') === 'TRANSPARENT') return [];
+  const start = event.DTSTART?.[0] && parseIcsDate(event.DTSTART[0], defaultTimezone);
+  if (!start) return [];
+
+  const end = event.DTEND?.[0] && parseIcsDate(event.DTEND[0], defaultTimezone);
+  const duration = event.DURATION?.[0] ? parseIcsDuration(event.DURATION[0].value) : null;
+  const length = end
+    ? end.date.getTime() - start.date.getTime()
+    : duration ?? (start.allDay ? DAY_MS : 0);
+  if (length <= 0) return [];
+
+  const timezone = isValidTimezone(event.DTSTART[0].params.TZID) ? event.DTSTART[0].params.TZID : defaultTimezone;
+  const excluded = new Set(
+    (event.EXDATE || []).flatMap((property) => property.value.split(',').map((date) =>
+      parseIcsDate({ params: property.params, value: date }, defaultTimezone)?.date.getTime()
+    ))
+  );
+  const starts = event.RRULE?.[0] ? expandRecurrence(start.date, event.RRULE[0].value, range.endsAt, timezone) : [start.date];
+  const uid = event.UID?.[0]?.value?.trim() || `${start.date.toISOString()}-${length}`;
+
+  return starts
+    .filter((startsAt) => !excluded.has(startsAt.getTime()))
+    .map((startsAt) => ({ uid: starts.length > 1 ? `${uid}#${startsAt.toISOString()}` : uid, startsAt, endsAt: new Date(startsAt.getTime() + length) }))
+    .filter((block) => overlaps(block, range));
+}
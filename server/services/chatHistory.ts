@@ -0,0 +1,267 @@
+/**
+ * Chat History Service
+ *
+ * Búsqueda y exportación de conversaciones (reglas en messageSearchRules.ts):
+ *
+ * - search busca en los mensajes de todas las conversaciones del usuario
+ *   (chat_messages.search_vector, ordenado por relevancia) y devuelve cada
+ *   resultado con su fragmento marcado y la conversación a la que pertenece
+ * - context trae los mensajes alrededor de uno dado, para abrir la
+ *   conversación en el resultado
+ * - buildExport arma el paquete JSON de la conversación; attachToDispute lo
+ *   guarda (JSON o PDF) y lo agrega como evidencia de una disputa
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Conversation } from '../models/sql/Conversation.model.js';
+import { ChatMessage } from '../models/sql/ChatMessage.model.js';
+import { Dispute, type IAttachment } from '../models/sql/Dispute.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { User } from '../models/sql/User.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { getFileUrl } from '../middleware/upload.js';
+import { tsQueryExpression } from '../utils/fullTextSearch.js';
+import disputeAnalytics from './disputeAnalytics.js';
+import pdfGenerator from './pdfGenerator.js';
+import {
+  CONTEXT_WINDOW,
+  assertCanAttachToDispute,
+  buildConversationExport,
+  exportFileName,
+  messageSnippet,
+  type ConversationExport,
+  type ExportFormat,
+  type MessageSearchFilters,
+  type MessageSnippet,
+} from './messageSearchRules.js';
+
+const SENDER_ATTRIBUTES = ['id', 'name', 'avatar', 'adminRole'];
+
+export interface MessageSearchResult {
+  messageId: string;
+  conversationId: string;
+  conversationType: string;
+  jobTitle: string | null;
+  counterparts: Array<{ id: string; name: string; avatar: string | null }>;
+  sender: { id: string; name: string; avatar: string | null } | null;
+  type: string;
+  fileName: string | null;
+  sentAt: Date;
+  snippet: MessageSnippet;
+}
+
+class ChatHistoryService {
+  /** Mensajes que coinciden con la búsqueda, en las conversaciones del usuario. */
+  async search(
+    userId: string,
+    filters: MessageSearchFilters
+  ): Promise<{ results: MessageSearchResult[]; total: number }> {
+    if (filters.conversationId) {
+      const conversation = await Conversation.findByPk(filters.conversationId, { attributes: ['id', 'participants'] });
+      if (!conversation) throw new ErrorResponse('Conversación no encontrada', 404);
+      if (!conversation.participants.includes(userId)) {
+        throw new ErrorResponse('No tienes permiso para ver esta conversación', 403);
+      }
+    }
+
+    const conversationWhere: any = {
+      participants: { [Op.contains]: filters.counterpartId ? [userId, filters.counterpartId] : [userId] },
+    };
+    if (filters.conversationId) conversationWhere.id = filters.conversationId;
+
+    const conversations = await Conversation.findAll({
+      where: conversationWhere,
+      attributes: ['id', 'type', 'participants', 'jobId'],
+      include: [{ model: Job, as: 'job', attributes: ['title'] }],
+    });
+    if (conversations.length === 0) return { results: [], total: 0 };
+
+    const tsQuerySql = `(${tsQueryExpression(sequelize.escape(filters.tsQuery))})`;
+    const where: any = {
+      conversationId: { [Op.in]: conversations.map((conversation) => conversation.id) },
+      deleted: false,
+      [Op.and]: [sequelize.literal(`"ChatMessage"."search_vector" @@ ${tsQuerySql}`)],
+    };
+    if (filters.from || filters.to) {
+      where.createdAt = {
+        ...(filters.from ? { [Op.gte]: filters.from } : {}),
+        ...(filters.to ? { [Op.lte]: filters.to } : {}),
+      };
+    }
+
+    const { rows, count } = await ChatMessage.findAndCountAll({
+      where,
+      include: [{ model: User, as: 'sender', attributes: SENDER_ATTRIBUTES }],
+      order: [
+        [sequelize.literal(`ts_rank("ChatMessage"."search_vector", ${tsQuerySql})`), 'DESC'],
+        ['createdAt', 'DESC'],
+      ],
+      limit: filters.limit,
+      offset: (filters.page - 1) * filters.limit,
+    });
+
+    const byId = new Map(conversations.map((conversation) => [conversation.id, conversation]));
+    const counterpartIds = new Set<string>();
+    for (const message of rows) {
+      byId.get(message.conversationId)?.participants.forEach((id) => id !== userId && counterpartIds.add(id));
+    }
+    const users = await User.findAll({
+      where: { id: { [Op.in]: [...counterpartIds] } },
+      attributes: ['id', 'name', 'avatar'],
+    });
+    const usersMap = new Map(users.map((user) => [user.id, user]));
+
+    const results = rows.map((message) => {
+      const conversation = byId.get(message.conversationId)!;
+      return {
+        messageId: message.id,
+        conversationId: conversation.id,
+        conversationType: conversation.type,
+        jobTitle: conversation.job?.title || null,
+        counterparts: conversation.participants
+          .filter((id) => id !== userId)
+          .map((id) => {
+            const user = usersMap.get(id);
+            return { id, name: user?.name || 'Usuario', avatar: user?.avatar || null };
+          }),
+        sender: message.sender
+          ? { id: message.sender.id, name: message.sender.name, avatar: message.sender.avatar || null }
+          : null,
+        type: message.type,
+        fileName: message.fileName || null,
+        sentAt: message.createdAt,
+        snippet: messageSnippet(message, filters.terms),
+      };
+    });
+
+    return { results, total: count };
+  }
+
+  /**
+   * Mensajes alrededor de `messageId` (hasta `window` antes y después), en
+   * orden cronológico, para abrir la conversación en un resultado.
+   */
+  async context(
+    conversation: Conversation,
+    messageId: string,
+    window: number = CONTEXT_WINDOW
+  ): Promise<{ messages: ChatMessage[]; focusMessageId: string; hasMoreBefore: boolean; hasMoreAfter: boolean }> {
+    const focus = await ChatMessage.findOne({
+      where: { id: messageId, conversationId: conversation.id, deleted: false },
+      include: [{ model: User, as: 'sender', attributes: SENDER_ATTRIBUTES }],
+    });
+    if (!focus) throw new ErrorResponse('Mensaje no encontrado', 404);
+
+    const around = (direction: 'before' | 'after') =>
+      ChatMessage.findAll({
+        where: {
+          conversationId: conversation.id,
+          deleted: false,
+          createdAt: { [direction === 'before' ? Op.lt : Op.gt]: focus.createdAt },
+        },
+        include: [{ model: User, as: 'sender', attributes: SENDER_ATTRIBUTES }],
+        order: [['createdAt', direction === 'before' ? 'DESC' : 'ASC']],
+        limit: window + 1,
+      });
+    const [before, after] = await Promise.all([around('before'), around('after')]);
+
+    return {
+      messages: [...before.slice(0, window).reverse(), focus, ...after.slice(0, window)],
+      focusMessageId: focus.id,
+      hasMoreBefore: before.length > window,
+      hasMoreAfter: after.length > window,
+    };
+  }
+
+  /** Paquete de exportación de la conversación completa (sin mensajes eliminados). */
+  async buildExport(conversation: Conversation, exportedBy: string): Promise<ConversationExport> {
+    const [messages, users, job] = await Promise.all([
+      ChatMessage.findAll({ where: { conversationId: conversation.id, deleted: false }, order: [['createdAt', 'ASC']] }),
+      User.findAll({ where: { id: { [Op.in]: conversation.participants } }, attributes: ['id', 'name'] }),
+      conversation.jobId ? Job.findByPk(conversation.jobId, { attributes: ['title'] }) : null,
+    ]);
+    const usersMap = new Map(users.map((user) => [user.id, user]));
+
+    return buildConversationExport({
+      conversation: {
+        id: conversation.id,
+        type: conversation.type,
+        jobId: conversation.jobId,
+        contractId: conversation.contractId,
+        createdAt: conversation.createdAt,
+        job,
+      },
+      participants: conversation.participants.map((id) => ({ id, name: usersMap.get(id)?.name || 'Usuario' })),
+      messages: messages.map((message) => message.get({ plain: true })),
+      exportedBy,
+      exportedAt: new Date(),
+    });
+  }
+
+  /** Genera el PDF de la conversación y devuelve la ruta del archivo. */
+  async exportPdf(bundle: ConversationExport, exportedByName: string): Promise<string> {
+    return pdfGenerator.generateChatTranscript(bundle, exportedByName);
+  }
+
+  /**
+   * Exporta la conversación (JSON o PDF) y la agrega a la evidencia de la
+   * disputa, con una entrada en el historial que registra el checksum.
+   */
+  async attachToDispute(
+    conversation: Conversation,
+    user: { id: string; name: string },
+    disputeId: string,
+    format: ExportFormat,
+    req: any
+  ): Promise<{ evidence: IAttachment; dispute: Dispute }> {
+    const dispute = await Dispute.findByPk(disputeId);
+    if (!dispute) throw new ErrorResponse('Disputa no encontrada', 404);
+    assertCanAttachToDispute(dispute, user.id, conversation.participants);
+
+    const bundle = await this.buildExport(conversation, user.id);
+    let filepath: string;
+    if (format === 'pdf') {
+      filepath = await this.exportPdf(bundle, user.name);
+    } else {
+      filepath = path.join(process.cwd(), 'uploads', 'chat-exports', `chat_${conversation.id.slice(0, 8)}_${Date.now()}.json`);
+      await fs.promises.writeFile(filepath, JSON.stringify(bundle, null, 2));
+    }
+    const { size } = await fs.promises.stat(filepath);
+
+    const evidence: IAttachment = {
+      fileName: exportFileName(conversation.id, format, new Date(bundle.exportedAt)),
+      fileUrl: getFileUrl(filepath, req),
+      fileType: format === 'pdf' ? 'pdf' : 'other',
+      fileSize: size,
+      uploadedAt: new Date(),
+    };
+
+    dispute.evidence = [...dispute.evidence, evidence];
+    dispute.changed('evidence', true);
+    dispute.logs = [
+      ...dispute.logs,
+      {
+        action: 'Conversación adjuntada como evidencia',
+        performedBy: user.id,
+        timestamp: new Date(),
+        details: `Conversación ${conversation.id} (${format.toUpperCase()}): ${bundle.messages.length} mensaje(s), ${bundle.attachments.length} adjunto(s). SHA-256 ${bundle.checksum}`,
+      },
+    ];
+    dispute.changed('logs', true);
+    await dispute.save();
+
+    await disputeAnalytics.trackDisputeEvent('evidence_added', dispute.id, {
+      filesCount: 1,
+      totalSize: size,
+      source: 'chat_export',
+    });
+
+    return { evidence, dispute };
+  }
+}
+
+const chatHistory = new ChatHistoryService();
+export default chatHistory;
@@ -0,0 +1,275 @@
+/**
+ * Commission Rules
+ *
+ * Motor de reglas de comisión. Cada regla tiene condiciones (plan de
+ * membresía, categoría del trabajo, plan familia, contrato gratuito,
+ * franja de volumen mensual y ventana de promoción) y un resultado (tasa
+ * más comisión mínima/máxima en pesos). Las reglas se evalúan por prioridad
+ * ascendente y gana la primera que cumple todas sus condiciones; una
+ * condición vacía (null) no restringe.
+ *
+ * Las reglas viven en `commission_rules` con versiones: editar una regla crea
+ * una versión nueva y los contratos guardan el id de la versión con la que se
+ * cotizaron. DEFAULT_COMMISSION_RULES reproduce el esquema original (FREE 8%,
+ * PRO 3%, SUPER PRO 1%, plan familia y contratos gratuitos) y se usa para
+ * sembrar la tabla.
+ *
+ * Módulo puro; la carga desde la base está en commissionService.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { max, min, percentage, zero, type Money } from './money.js';
+
+export const MEMBERSHIP_TIERS = ['free', 'pro', 'super_pro'] as const;
+
+export interface CommissionRuleConditions {
+  membershipTiers?: string[] | null;
+  categories?: string[] | null;
+  familyPlan?: boolean | null;
+  // El contrato se marcó como gratuito (useFreeContract)
+  freeContract?: boolean | null;
+  // El usuario tiene contratos gratuitos iniciales disponibles
+  hasFreeContracts?: boolean | null;
+  // Volumen mensual en ARS: desde (inclusive) / hasta (exclusive)
+  minMonthlyVolume?: number | null;
+  maxMonthlyVolume?: number | null;
+  // Ventana de promoción
+  validFrom?: Date | string | null;
+  validUntil?: Date | string | null;
+}
+
+export interface CommissionRuleDefinition extends CommissionRuleConditions {
+  id?: string | null;
+  ruleKey: string;
+  version?: number | null;
+  name: string;
+  description?: string | null;
+  priority: number;
+  rate: number;
+  // Comisión mínima y máxima en ARS (se convierten para contratos en USD/USDT)
+  minimumFee?: number | null;
+  maximumFee?: number | null;
+}
+
+export interface CommissionContext {
+  membershipTier: string;
+  category?: string | null;
+  familyPlan: boolean;
+  freeContract: boolean;
+  freeContractsRemaining: number;
+  monthlyVolume: number;
+  at: Date;
+}
+
+export type RuleCondition =
+  | 'membershipTier'
+  | 'category'
+  | 'familyPlan'
+  | 'freeContract'
+  | 'hasFreeContracts'
+  | 'monthlyVolume'
+  | 'validity';
+
+export interface RuleTraceEntry {
+  ruleKey: string;
+  version: number | null;
+  name: string;
+  priority: number;
+  matched: boolean;
+  failed: RuleCondition[];
+}
+
+export interface RuleEvaluation<R extends CommissionRuleDefinition> {
+  rule: R | null;
+  trace: RuleTraceEntry[];
+}
+
+export const DEFAULT_COMMISSION_RULES: CommissionRuleDefinition[] = [
+  { ruleKey: 'family-plan', name: 'Plan Familia', priority: 10, familyPlan: true, rate: 0 },
+  { ruleKey: 'free-contract', name: 'Contrato Gratuito', priority: 20, freeContract: true, rate: 0 },
+  { ruleKey: 'pro', name: 'PRO (3% fijo)', priority: 30, membershipTiers: ['pro'], rate: 3, minimumFee: 1000 },
+  { ruleKey: 'super-pro', name: 'SUPER PRO (1% fijo)', priority: 40, membershipTiers: ['super_pro'], rate: 1, minimumFee: 1000 },
+  {
+    ruleKey: 'initial-free-contracts',
+    name: 'Contrato Gratuito (contratos iniciales)',
+    description: 'Los primeros 1000 usuarios tienen 3 contratos gratis',
+    priority: 50,
+    membershipTiers: ['free'],
+    hasFreeContracts: true,
+    rate: 0,
+  },
+  { ruleKey: 'free', name: 'FREE (8% fijo)', priority: 100, rate: 8, minimumFee: 1000 },
+];
+
+const hasValues = (list?: string[] | null): list is string[] => Array.isArray(list) && list.length > 0;
+const isSet = <T>(value: T | null | undefined): value is T => value !== null && value !== undefined;
+
+/**
+ * Condiciones de la regla que el contexto no cumple (vacío = la regla aplica).
+ */
+export function failedConditions(rule: CommissionRuleConditions, context: CommissionContext): RuleCondition[] {
+  const failed: RuleCondition[] = [];
+
+  if (hasValues(rule.membershipTiers) && !rule.membershipTiers.includes(context.membershipTier)) {
+    failed.push('membershipTier');
+  }
+  if (hasValues(rule.categories)) {
+    const category = context.category?.trim().toLowerCase();
+    if (!category || !rule.categories.some((c) => c.trim().toLowerCase() === category)) {
+      failed.push('category');
+    }
+  }
+  if (isSet(rule.familyPlan) && rule.familyPlan !== context.familyPlan) failed.push('familyPlan');
+  if (isSet(rule.freeContract) && rule.freeContract !== context.freeContract) failed.push('freeContract');
+  if (isSet(rule.hasFreeContracts) && rule.hasFreeContracts !== context.freeContractsRemaining > 0) {
+    failed.push('hasFreeContracts');
+  }
+  if (
+    (isSet(rule.minMonthlyVolume) && context.monthlyVolume < Number(rule.minMonthlyVolume)) ||
+    (isSet(rule.maxMonthlyVolume) && context.monthlyVolume >= Number(rule.maxMonthlyVolume))
+  ) {
+    failed.push('monthlyVolume');
+  }
+  if (
+    (isSet(rule.validFrom) && context.at < new Date(rule.validFrom)) ||
+    (isSet(rule.validUntil) && context.at >= new Date(rule.validUntil))
+  ) {
+    failed.push('validity');
+  }
+
+  return failed;
+}
+
+/**
+ * Evalúa las reglas por prioridad y devuelve la primera que aplica, con el
+ * detalle de cada regla revisada (para la simulación desde soporte).
+ */
+export function evaluateRules<R extends CommissionRuleDefinition>(
+  rules: R[],
+  context: CommissionContext
+): RuleEvaluation<R> {
+  const ordered = [...rules].sort((a, b) => a.priority - b.priority || a.ruleKey.localeCompare(b.ruleKey));
+  const trace: RuleTraceEntry[] = [];
+  let matched: R | null = null;
+
+  for (const rule of ordered) {
+    const failed = failedConditions(rule, context);
+    const isMatch = !matched && failed.length === 0;
+    trace.push({
+      ruleKey: rule.ruleKey,
+      version: rule.version ?? null,
+      name: rule.name,
+      priority: rule.priority,
+      matched: isMatch,
+      failed,
+    });
+    if (isMatch) matched = rule;
+  }
+
+  return { rule: matched, trace };
+}
+
+/**
+ * Aplica la tasa de la regla al precio y acota la comisión. Los topes ya
+ * vienen en la moneda del precio.
+ */
+export function applyRule(
+  rule: Pick<CommissionRuleDefinition, 'rate'>,
+  price: Money,
+  bounds: { minimum?: Money | null; maximum?: Money | null } = {}
+): { commission: Money; minimumApplied: boolean; maximumApplied: boolean } {
+  let commission = Number(rule.rate) > 0 ? percentage(price, Number(rule.rate)) : zero(price.currency);
+  let minimumApplied = false;
+  let maximumApplied = false;
+
+  if (bounds.minimum && commission.amount < bounds.minimum.amount) {
+    commission = max(commission, bounds.minimum);
+    minimumApplied = true;
+  }
+  if (bounds.maximum && commission.amount > bounds.maximum.amount) {
+    commission = min(commission, bounds.maximum);
+    maximumApplied = true;
+  }
+
+  return { commission, minimumApplied, maximumApplied };
+}
+
+const optionalNumber = (value: unknown, field: string): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new ErrorResponse(`${field} debe ser un número mayor o igual a 0`, 400);
+  }
+  return number;
+};
+
+const optionalBoolean = (value: unknown): boolean | null =>
+  value === undefined || value === null || value === '' ? null : value === true || value === 'true';
+
+const optionalList = (value: unknown, field: string): string[] | null => {
+  if (value === undefined || value === null) return null;
+  if (!Array.isArray(value)) throw new ErrorResponse(`${field} debe ser una lista`, 400);
+  const list = value.map((v) => String(v).trim()).filter(Boolean);
+  return list.length ? list : null;
+};
+
+const optionalDate = (value: unknown, field: string): Date | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) throw new ErrorResponse(`${field} no es una fecha válida`, 400);
+  return date;
+};
+
+/**
+ * Valida y normaliza una regla enviada desde el panel de admin.
+ */
+export function parseRuleInput(input: Record<string, any>): Omit<CommissionRuleDefinition, 'id' | 'version'> {
+  const ruleKey = String(input.ruleKey ?? '').trim();
+  if (!/^[a-z0-9][a-z0-9_-]{1,99}$/.test(ruleKey)) {
+    throw new ErrorResponse('La clave de la regla solo admite minúsculas, números, "-" y "_"', 400);
+  }
+  const name = String(input.name ?? '').trim();
+  if (!name) throw new ErrorResponse('El nombre de la regla es obligatorio', 400);
+
+  const rate = Number(input.rate);
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+    throw new ErrorResponse('La tasa debe estar entre 0 y 100', 400);
+  }
+  const priority = Number(input.priority);
+  if (!Number.isInteger(priority)) throw new ErrorResponse('La prioridad debe ser un número entero', 400);
+
+  const membershipTiers = optionalList(input.membershipTiers, 'membershipTiers');
+  const unknownTier = membershipTiers?.find((t) => !(MEMBERSHIP_TIERS as readonly string[]).includes(t));
+  if (unknownTier) throw new ErrorResponse(`Plan de membresía desconocido: ${unknownTier}`, 400);
+
+  const rule = {
+    ruleKey,
+    name,
+    description: input.description ? String(input.description) : null,
+    priority,
+    rate,
+    minimumFee: optionalNumber(input.minimumFee, 'minimumFee'),
+    maximumFee: optionalNumber(input.maximumFee, 'maximumFee'),
+    membershipTiers,
+    categories: optionalList(input.categories, 'categories'),
+    familyPlan: optionalBoolean(input.familyPlan),
+    freeContract: optionalBoolean(input.freeContract),
+    hasFreeContracts: optionalBoolean(input.hasFreeContracts),
+    minMonthlyVolume: optionalNumber(input.minMonthlyVolume, 'minMonthlyVolume'),
+    maxMonthlyVolume: optionalNumber(input.maxMonthlyVolume, 'maxMonthlyVolume'),
+    validFrom: optionalDate(input.validFrom, 'validFrom'),
+    validUntil: optionalDate(input.validUntil, 'validUntil'),
+  };
+
+  if (isSet(rule.minimumFee) && isSet(rule.maximumFee) && rule.minimumFee > rule.maximumFee) {
+    throw new ErrorResponse('La comisión mínima no puede superar a la máxima', 400);
+  }
+  if (isSet(rule.minMonthlyVolume) && isSet(rule.maxMonthlyVolume) && rule.minMonthlyVolume >= rule.maxMonthlyVolume) {
+    throw new ErrorResponse('La franja de volumen es inválida: "desde" debe ser menor que "hasta"', 400);
+  }
+  if (rule.validFrom && rule.validUntil && rule.validFrom >= rule.validUntil) {
+    throw new ErrorResponse('La promoción debe terminar después de empezar', 400);
+  }
+
+  return rule;
+}
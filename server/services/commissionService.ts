@@ -1,7 +1,9 @@
 /**
  * Commission Service
  *
- * Sistema de comisiones:
+ * Las comisiones se calculan con el motor de reglas (commissionRules.ts)
+ * sobre las reglas guardadas en `commission_rules`, editables desde el panel
+ * de admin. Las reglas iniciales reproducen el sistema original:
  *
  * 1. USUARIOS FREE:
  *    - 8% comisión fija
@@ -18,29 +20,92 @@
  * - Contratos gratuitos: 0% comisión
  *
  * Mínimo de comisión: $1,000 ARS
+ *
+ * Cada resultado indica qué regla (y qué versión) se aplicó; los contratos
+ * guardan esa versión y los ajustes de precio posteriores la reutilizan.
+ *
+ * Los montos se calculan con Money en la moneda del contrato. Para contratos
+ * en USD/USDT los topes en pesos se convierten a la cotización del momento.
  */
 
 import { Op } from 'sequelize';
+import { sequelize } from '../config/database.js';
 import { Contract } from '../models/sql/Contract.model.js';
 import { User } from '../models/sql/User.model.js';
+import { CommissionRule } from '../models/sql/CommissionRule.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import currencyExchange from './currencyExchange.js';
+import {
+  DEFAULT_COMMISSION_RULES,
+  MEMBERSHIP_TIERS,
+  applyRule,
+  evaluateRules,
+  parseRuleInput,
+  type CommissionContext,
+  type CommissionRuleDefinition,
+  type RuleTraceEntry,
+} from './commissionRules.js';
+import {
+  DEFAULT_CURRENCY,
+  convert,
+  fromDecimal,
+  toCurrency,
+  toDecimal,
+  type Currency,
+  type Money,
+  type RateSnapshot,
+} from './money.js';
 
-// Fixed commission rates
-const FREE_COMMISSION_RATE = 8;       // 8% for free users
-const PRO_COMMISSION_RATE = 3;        // 3% for PRO
-const SUPER_PRO_COMMISSION_RATE = 1;  // 1% for SUPER PRO
+const MINIMUM_COMMISSION = 1000; // $1,000 ARS minimum (reglas por defecto)
 
-const MINIMUM_COMMISSION = 1000; // $1,000 ARS minimum
+// Las reglas activas se cachean; los cambios desde el admin invalidan la caché
+// de esta instancia y las demás la renuevan al vencer
+const RULES_CACHE_MS = 60 * 1000;
+
+export interface AppliedCommissionRule {
+  id: string | null;              // null = regla de respaldo (no está en la base)
+  ruleKey: string;
+  version: number | null;
+  name: string;
+}
 
 export interface CommissionResult {
   rate: number;                   // Porcentaje de comisión (ej: 6)
-  commission: number;             // Monto de comisión calculado
+  commission: number;             // Monto de comisión calculado, en `currency`
+  currency: Currency;             // Moneda del contrato
+  commissionMoney: Money;         // La comisión como Money
   monthlyVolume: number;          // Volumen mensual actual del usuario
-  tierDescription: string;        // Descripción del tier actual
+  tierDescription: string;        // Nombre de la regla aplicada
   isFamilyPlan: boolean;          // Si tiene plan familia
   isFreeContract: boolean;        // Si es contrato gratuito
-  minimumApplied: boolean;        // Si se aplicó el mínimo de $1,000
+  minimumApplied: boolean;        // Si se aplicó la comisión mínima
+  maximumApplied: boolean;        // Si se aplicó la comisión máxima
+  rule: AppliedCommissionRule | null;
 }
 
+interface CommissionOptions {
+  isFreeContract?: boolean;
+  skipVolumeCheck?: boolean;
+  currentVolume?: number;
+  // Categoría del trabajo, para reglas por categoría
+  category?: string | null;
+  // Versión de regla fijada en el contrato: se usa esa en lugar de evaluar
+  ruleId?: string | null;
+  // Cotización ARS→moneda del contrato para convertir los topes (si no, se cotiza en el momento)
+  rateSnapshot?: RateSnapshot;
+}
+
+type StoredRule = CommissionRuleDefinition & { id: string | null; version: number | null };
+
+// Si ninguna regla activa aplica (o la tabla quedó vacía) se cobra la tarifa FREE
+const FALLBACK_RULE: StoredRule = {
+  ...DEFAULT_COMMISSION_RULES.find((r) => r.ruleKey === 'free')!,
+  id: null,
+  version: null,
+};
+
+let rulesCache: { rules: StoredRule[]; loadedAt: number } | null = null;
+
 /**
  * Get the start of the current month
  */
@@ -65,10 +130,12 @@ export async function getUserMonthlyVolume(userId: string): Promise<number> {
   const monthEnd = getMonthEnd();
 
   // Sum of all contract prices for this user in the current month
-  // Consider contracts where the user is the client
+  // Consider contracts where the user is the client (volume is in ARS, so
+  // USD/USDT contracts are left out instead of adding mixed currencies)
   const result = await Contract.findAll({
     where: {
       clientId: userId,
+      currency: DEFAULT_CURRENCY,
       createdAt: {
         [Op.gte]: monthStart,
         [Op.lte]: monthEnd,
@@ -90,139 +157,244 @@ export async function getUserMonthlyVolume(userId: string): Promise<number> {
   return totalVolume;
 }
 
+// ============================================
+// REGLAS
+// ============================================
+
+const optionalNumber = (value: unknown): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+function toDefinition(rule: CommissionRule): StoredRule {
+  return {
+    id: rule.id,
+    ruleKey: rule.ruleKey,
+    version: rule.version,
+    name: rule.name,
+    description: rule.description ?? null,
+    priority: rule.priority,
+    membershipTiers: rule.membershipTiers ?? null,
+    categories: rule.categories ?? null,
+    familyPlan: rule.familyPlan ?? null,
+    freeContract: rule.freeContract ?? null,
+    hasFreeContracts: rule.hasFreeContracts ?? null,
+    minMonthlyVolume: optionalNumber(rule.minMonthlyVolume),
+    maxMonthlyVolume: optionalNumber(rule.maxMonthlyVolume),
+    validFrom: rule.validFrom ?? null,
+    validUntil: rule.validUntil ?? null,
+    rate: Number(rule.rate),
+    minimumFee: optionalNumber(rule.minimumFee),
+    maximumFee: optionalNumber(rule.maximumFee),
+  };
+}
+
+/**
+ * Siembra las reglas por defecto la primera vez (tabla vacía). Si un admin
+ * desactivó todas las reglas no se vuelven a crear.
+ */
+async function seedDefaultRules(): Promise<void> {
+  if (await CommissionRule.count() > 0) return;
+  await CommissionRule.bulkCreate(
+    DEFAULT_COMMISSION_RULES.map((rule) => ({ ...rule, version: 1, changeNote: 'Regla inicial' })),
+    { ignoreDuplicates: true }
+  );
+  console.log(`✅ [COMMISSION] ${DEFAULT_COMMISSION_RULES.length} reglas de comisión iniciales creadas`);
+}
+
+/**
+ * Versión activa de cada regla
+ */
+export async function getActiveCommissionRules(): Promise<StoredRule[]> {
+  if (rulesCache && Date.now() - rulesCache.loadedAt < RULES_CACHE_MS) return rulesCache.rules;
+
+  let rows = await CommissionRule.findAll({ where: { active: true } });
+  if (!rows.length) {
+    await seedDefaultRules();
+    rows = await CommissionRule.findAll({ where: { active: true } });
+  }
+
+  rulesCache = { rules: rows.map(toDefinition), loadedAt: Date.now() };
+  return rulesCache.rules;
+}
+
+export function invalidateCommissionRules(): void {
+  rulesCache = null;
+}
+
 /**
- * Get the commission rate for free users (flat 8%)
+ * Topes de la regla (en ARS) en la moneda del precio
  */
-export function getCommissionRateByVolume(_monthlyVolume: number): { rate: number; tierDescription: string } {
-  return { rate: FREE_COMMISSION_RATE, tierDescription: 'FREE (8% fijo)' };
+async function feeBounds(
+  rule: StoredRule,
+  currency: Currency,
+  rateSnapshot?: RateSnapshot
+): Promise<{ minimum: Money | null; maximum: Money | null }> {
+  const fees = [rule.minimumFee, rule.maximumFee].map((fee) =>
+    fee === null || fee === undefined ? null : fromDecimal(fee, DEFAULT_CURRENCY)
+  );
+  if (currency === DEFAULT_CURRENCY || fees.every((fee) => !fee)) {
+    return { minimum: fees[0], maximum: fees[1] };
+  }
+
+  const snapshot = rateSnapshot || await currencyExchange.snapshotRate(DEFAULT_CURRENCY, currency);
+  const [minimum, maximum] = fees.map((fee) => (fee ? convert(fee, currency, snapshot) : null));
+  return { minimum, maximum };
+}
+
+async function buildContext(
+  user: User | null,
+  rules: StoredRule[],
+  options: CommissionOptions & { at?: Date }
+): Promise<CommissionContext> {
+  // El volumen mensual solo se consulta si alguna regla tiene franja de volumen
+  const needsVolume = rules.some((r) => r.minMonthlyVolume != null || r.maxMonthlyVolume != null);
+  const monthlyVolume = options.currentVolume ??
+    (user && needsVolume && !options.skipVolumeCheck ? await getUserMonthlyVolume(user.id) : 0);
+
+  return {
+    membershipTier: user?.membershipTier || 'free',
+    category: options.category ?? null,
+    familyPlan: user?.hasFamilyPlan === true,
+    freeContract: options.isFreeContract === true,
+    freeContractsRemaining: user?.freeContractsRemaining || 0,
+    monthlyVolume,
+    at: options.at || new Date(),
+  };
+}
+
+async function priceWithRule(
+  price: Money,
+  rule: StoredRule,
+  context: CommissionContext,
+  rateSnapshot?: RateSnapshot
+): Promise<CommissionResult> {
+  const { commission, minimumApplied, maximumApplied } = applyRule(
+    rule,
+    price,
+    await feeBounds(rule, price.currency, rateSnapshot)
+  );
+
+  return {
+    rate: rule.rate,
+    commission: toDecimal(commission),
+    currency: price.currency,
+    commissionMoney: commission,
+    monthlyVolume: context.monthlyVolume,
+    tierDescription: rule.name,
+    isFamilyPlan: rule.familyPlan === true,
+    isFreeContract: rule.rate === 0 && (rule.freeContract === true || rule.hasFreeContracts === true),
+    minimumApplied,
+    maximumApplied,
+    rule: { id: rule.id, ruleKey: rule.ruleKey, version: rule.version, name: rule.name },
+  };
 }
 
 /**
  * Calculate commission for a contract
  *
  * @param userId - The client's user ID
- * @param contractPrice - The price of the contract
- * @param options - Additional options (isFreeContract, etc.)
+ * @param contractPrice - The price of the contract (a plain number is ARS)
+ * @param options - Additional options (isFreeContract, category, ruleId, etc.)
  */
 export async function calculateCommission(
   userId: string,
-  contractPrice: number,
-  options: {
-    isFreeContract?: boolean;
-    skipVolumeCheck?: boolean;
-    currentVolume?: number;
-  } = {}
+  contractPrice: number | Money,
+  options: CommissionOptions = {}
 ): Promise<CommissionResult> {
-  // Get user to check for membership, family plan, etc.
+  const price = typeof contractPrice === 'number' ? fromDecimal(contractPrice, DEFAULT_CURRENCY) : contractPrice;
   const user = await User.findByPk(userId);
-  if (!user) {
-    // Default to 8% if user not found
-    const calculatedCommission = contractPrice * (FREE_COMMISSION_RATE / 100);
-    const commission = Math.max(calculatedCommission, MINIMUM_COMMISSION);
-    return {
-      rate: FREE_COMMISSION_RATE,
-      commission,
-      monthlyVolume: 0,
-      tierDescription: 'FREE (8% fijo)',
-      isFamilyPlan: false,
-      isFreeContract: false,
-      minimumApplied: commission === MINIMUM_COMMISSION && calculatedCommission < MINIMUM_COMMISSION,
-    };
+
+  if (options.ruleId) {
+    const pinned = await CommissionRule.findByPk(options.ruleId);
+    if (pinned) {
+      const rule = toDefinition(pinned);
+      return priceWithRule(price, rule, await buildContext(user, [rule], options), options.rateSnapshot);
+    }
   }
 
-  const hasFamilyPlan = user.hasFamilyPlan === true;
-  const membershipType = user.membershipTier || 'free';
-  const freeContractsRemaining = user.freeContractsRemaining || 0;
+  const rules = await getActiveCommissionRules();
+  const context = await buildContext(user, rules, options);
+  const { rule } = evaluateRules(rules, context);
+  return priceWithRule(price, rule || FALLBACK_RULE, context, options.rateSnapshot);
+}
 
-  // 1. Family plan = 0% commission
-  if (hasFamilyPlan) {
-    return {
-      rate: 0,
-      commission: 0,
-      monthlyVolume: 0,
-      tierDescription: 'Plan Familia',
-      isFamilyPlan: true,
-      isFreeContract: false,
-      minimumApplied: false,
-    };
-  }
+export interface CommissionSimulationInput {
+  userId?: string | null;
+  price: number | string;
+  currency?: string | null;
+  category?: string | null;
+  isFreeContract?: boolean;
+  // Overrides del contexto del usuario
+  membershipTier?: string | null;
+  familyPlan?: boolean | null;
+  freeContractsRemaining?: number | null;
+  monthlyVolume?: number | null;
+  date?: string | Date | null;
+}
 
-  // 2. Free contract (passed as option) = 0% commission
-  if (options.isFreeContract) {
-    return {
-      rate: 0,
-      commission: 0,
-      monthlyVolume: 0,
-      tierDescription: 'Contrato Gratuito',
-      isFamilyPlan: false,
-      isFreeContract: true,
-      minimumApplied: false,
-    };
+/**
+ * Simula la comisión de un contrato (soporte): qué regla aplica, por qué no
+ * aplican las de mayor prioridad y cuánto se cobraría. No modifica nada.
+ */
+export async function simulateCommission(input: CommissionSimulationInput): Promise<{
+  result: CommissionResult;
+  context: CommissionContext;
+  trace: RuleTraceEntry[];
+}> {
+  const price = fromDecimal(input.price, toCurrency(input.currency));
+  if (price.amount <= 0) {
+    throw new ErrorResponse('El precio a simular debe ser mayor a 0', 400);
   }
 
-  // 3. PRO membership = 3% fixed commission
-  if (membershipType === 'pro') {
-    const calculatedCommission = contractPrice * (PRO_COMMISSION_RATE / 100);
-    const commission = Math.max(calculatedCommission, MINIMUM_COMMISSION);
-    return {
-      rate: PRO_COMMISSION_RATE,
-      commission,
-      monthlyVolume: 0,
-      tierDescription: 'PRO (3% fijo)',
-      isFamilyPlan: false,
-      isFreeContract: false,
-      minimumApplied: commission === MINIMUM_COMMISSION && calculatedCommission < MINIMUM_COMMISSION,
-    };
+  const at = input.date ? new Date(input.date) : new Date();
+  if (isNaN(at.getTime())) {
+    throw new ErrorResponse('Fecha inválida', 400);
   }
 
-  // 4. SUPER PRO membership = 1% fixed commission
-  if (membershipType === 'super_pro') {
-    const calculatedCommission = contractPrice * (SUPER_PRO_COMMISSION_RATE / 100);
-    const commission = Math.max(calculatedCommission, MINIMUM_COMMISSION);
-    return {
-      rate: SUPER_PRO_COMMISSION_RATE,
-      commission,
-      monthlyVolume: 0,
-      tierDescription: 'SUPER PRO (1% fijo)',
-      isFamilyPlan: false,
-      isFreeContract: false,
-      minimumApplied: commission === MINIMUM_COMMISSION && calculatedCommission < MINIMUM_COMMISSION,
-    };
+  let user: User | null = null;
+  if (input.userId) {
+    user = await User.findByPk(input.userId);
+    if (!user) throw new ErrorResponse('Usuario no encontrado', 404);
   }
 
-  // 5. FREE user WITH available contracts = FREE (0% commission)
-  // Los primeros 1000 usuarios tienen 3 contratos gratis
-  if (membershipType === 'free' && freeContractsRemaining > 0) {
-    return {
-      rate: 0,
-      commission: 0,
-      monthlyVolume: 0,
-      tierDescription: `Contrato Gratuito (${freeContractsRemaining} disponibles)`,
-      isFamilyPlan: false,
-      isFreeContract: true,
-      minimumApplied: false,
-    };
-  }
+  const rules = await getActiveCommissionRules();
+  const baseContext = await buildContext(user, rules, {
+    isFreeContract: input.isFreeContract,
+    category: input.category,
+    currentVolume: input.monthlyVolume ?? undefined,
+    at,
+  });
+  const context: CommissionContext = {
+    ...baseContext,
+    ...(input.membershipTier ? { membershipTier: input.membershipTier } : {}),
+    ...(typeof input.familyPlan === 'boolean' ? { familyPlan: input.familyPlan } : {}),
+    ...(input.freeContractsRemaining != null ? { freeContractsRemaining: Number(input.freeContractsRemaining) } : {}),
+  };
 
-  // 6. FREE user WITHOUT available contracts = flat 8% commission
-  const monthlyVolume = options.currentVolume ?? await getUserMonthlyVolume(userId);
-  const calculatedCommission = contractPrice * (FREE_COMMISSION_RATE / 100);
-  const commission = Math.max(calculatedCommission, MINIMUM_COMMISSION);
-  const minimumApplied = commission === MINIMUM_COMMISSION && calculatedCommission < MINIMUM_COMMISSION;
+  const { rule, trace } = evaluateRules(rules, context);
+  const result = await priceWithRule(price, rule || FALLBACK_RULE, context);
+  return { result, context, trace };
+}
 
-  return {
-    rate: FREE_COMMISSION_RATE,
-    commission,
+/**
+ * Tasa que aplicaría a un usuario FREE con ese volumen mensual
+ */
+export async function getCommissionRateByVolume(monthlyVolume: number): Promise<{ rate: number; tierDescription: string }> {
+  const rules = await getActiveCommissionRules();
+  const { rule } = evaluateRules(rules, {
+    membershipTier: 'free',
+    familyPlan: false,
+    freeContract: false,
+    freeContractsRemaining: 0,
     monthlyVolume,
-    tierDescription: 'FREE (8% fijo)',
-    isFamilyPlan: false,
-    isFreeContract: false,
-    minimumApplied,
-  };
+    at: new Date(),
+  });
+  const applied = rule || FALLBACK_RULE;
+  return { rate: applied.rate, tierDescription: applied.name };
 }
 
 /**
  * Get commission rate for a user (for display purposes)
+ * Es la tasa de un contrato pago (sin contratos gratuitos).
  */
 export async function getUserCommissionRate(userId: string): Promise<{
   rate: number;
@@ -231,59 +403,150 @@ export async function getUserCommissionRate(userId: string): Promise<{
   nextTier: { volume: number; rate: number } | null;
 }> {
   const user = await User.findByPk(userId);
+  const rules = await getActiveCommissionRules();
+  const context = {
+    ...await buildContext(user, rules, { currentVolume: user ? await getUserMonthlyVolume(userId) : 0 }),
+    freeContractsRemaining: 0,
+  };
+
+  const applied = evaluateRules(rules, context).rule || FALLBACK_RULE;
 
-  if (user?.hasFamilyPlan) {
-    return {
-      rate: 0,
+  // Suggest the next membership tier
+  const tierIndex = MEMBERSHIP_TIERS.indexOf(context.membershipTier as typeof MEMBERSHIP_TIERS[number]);
+  const nextMembership = context.familyPlan || tierIndex < 0 ? undefined : MEMBERSHIP_TIERS[tierIndex + 1];
+  const next = nextMembership
+    ? evaluateRules(rules, { ...context, membershipTier: nextMembership }).rule || FALLBACK_RULE
+    : null;
+
+  return {
+    rate: applied.rate,
+    monthlyVolume: context.monthlyVolume,
+    tierDescription: applied.name,
+    nextTier: next ? { volume: 0, rate: next.rate } : null,
+  };
+}
+
+const PLAN_PRICES_USD: Record<string, number> = { free: 0, pro: 6, super_pro: 8 };
+
+/**
+ * Get all commission plans (for API/frontend display)
+ */
+export async function getCommissionTiers() {
+  const rules = await getActiveCommissionRules();
+  return MEMBERSHIP_TIERS.map((plan) => {
+    const rule = evaluateRules(rules, {
+      membershipTier: plan,
+      familyPlan: false,
+      freeContract: false,
+      freeContractsRemaining: 0,
       monthlyVolume: 0,
-      tierDescription: 'Plan Familia',
-      nextTier: null,
-    };
-  }
+      at: new Date(),
+    }).rule || FALLBACK_RULE;
+    return { plan, rate: rule.rate, priceUSD: PLAN_PRICES_USD[plan], description: rule.name };
+  });
+}
 
-  const membershipType = user?.membershipTier || 'free';
-  const monthlyVolume = await getUserMonthlyVolume(userId);
+// ============================================
+// ADMINISTRACIÓN DE REGLAS (versionado)
+// ============================================
 
-  if (membershipType === 'super_pro') {
-    return {
-      rate: SUPER_PRO_COMMISSION_RATE,
-      monthlyVolume,
-      tierDescription: 'SUPER PRO (1% fijo)',
-      nextTier: null,
-    };
+/**
+ * Reglas con su versión vigente. Con `includeInactive` también aparecen las
+ * reglas desactivadas (su última versión).
+ */
+export async function listCommissionRules(options: { includeInactive?: boolean } = {}): Promise<CommissionRule[]> {
+  await getActiveCommissionRules(); // siembra las reglas por defecto si hace falta
+
+  if (!options.includeInactive) {
+    return CommissionRule.findAll({ where: { active: true }, order: [['priority', 'ASC'], ['ruleKey', 'ASC']] });
   }
 
-  if (membershipType === 'pro') {
-    return {
-      rate: PRO_COMMISSION_RATE,
-      monthlyVolume,
-      tierDescription: 'PRO (3% fijo)',
-      nextTier: { volume: 0, rate: SUPER_PRO_COMMISSION_RATE }, // Suggest SUPER PRO
-    };
+  const latest = await CommissionRule.findAll({
+    attributes: ['ruleKey', [sequelize.fn('MAX', sequelize.col('version')), 'version']],
+    group: ['ruleKey'],
+    raw: true,
+  }) as unknown as Array<{ ruleKey: string; version: number }>;
+  if (!latest.length) return [];
+
+  return CommissionRule.findAll({
+    where: { [Op.or]: latest.map(({ ruleKey, version }) => ({ ruleKey, version })) },
+    order: [['priority', 'ASC'], ['ruleKey', 'ASC']],
+  });
+}
+
+export async function getCommissionRuleHistory(ruleKey: string): Promise<CommissionRule[]> {
+  const versions = await CommissionRule.findAll({ where: { ruleKey }, order: [['version', 'DESC']] });
+  if (!versions.length) throw new ErrorResponse('Regla de comisión no encontrada', 404);
+  return versions;
+}
+
+export async function createCommissionRule(input: Record<string, any>, adminId: string): Promise<CommissionRule> {
+  const definition = parseRuleInput(input);
+  if (await CommissionRule.count({ where: { ruleKey: definition.ruleKey } })) {
+    throw new ErrorResponse('Ya existe una regla con esa clave', 409);
   }
 
-  // Free user
-  return {
-    rate: FREE_COMMISSION_RATE,
-    monthlyVolume,
-    tierDescription: 'FREE (8% fijo)',
-    nextTier: { volume: 0, rate: PRO_COMMISSION_RATE }, // Suggest PRO
-  };
+  const rule = await CommissionRule.create({
+    ...definition,
+    version: 1,
+    createdBy: adminId,
+    changeNote: input.changeNote ? String(input.changeNote).slice(0, 500) : 'Regla creada',
+  });
+  invalidateCommissionRules();
+  return rule;
 }
 
 /**
- * Get all commission plans (for API/frontend display)
+ * Nueva versión de una regla. La versión anterior queda como histórico
+ * (los contratos que la usan la siguen referenciando). También reactiva una
+ * regla desactivada.
  */
-export function getCommissionTiers() {
-  return [
-    { plan: 'free', rate: FREE_COMMISSION_RATE, priceUSD: 0, description: 'FREE - 8% fijo' },
-    { plan: 'pro', rate: PRO_COMMISSION_RATE, priceUSD: 6, description: 'PRO - 3% fijo (6 USD/mes al dólar blue)' },
-    { plan: 'super_pro', rate: SUPER_PRO_COMMISSION_RATE, priceUSD: 8, description: 'SUPER PRO - 1% fijo (8 USD/mes al dólar blue)' },
-  ];
+export async function updateCommissionRule(
+  ruleKey: string,
+  input: Record<string, any>,
+  adminId: string
+): Promise<{ rule: CommissionRule; previous: CommissionRule }> {
+  const definition = parseRuleInput({ ...input, ruleKey });
+
+  const result = await sequelize.transaction(async (transaction) => {
+    const previous = await CommissionRule.findOne({
+      where: { ruleKey },
+      order: [['version', 'DESC']],
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+    if (!previous) throw new ErrorResponse('Regla de comisión no encontrada', 404);
+
+    await CommissionRule.update(
+      { active: false, supersededAt: new Date() },
+      { where: { ruleKey, active: true }, transaction }
+    );
+    const rule = await CommissionRule.create({
+      ...definition,
+      version: previous.version + 1,
+      createdBy: adminId,
+      changeNote: input.changeNote ? String(input.changeNote).slice(0, 500) : null,
+    }, { transaction });
+
+    return { rule, previous };
+  });
+
+  invalidateCommissionRules();
+  return result;
+}
+
+export async function deactivateCommissionRule(ruleKey: string): Promise<CommissionRule> {
+  const rule = await CommissionRule.findOne({ where: { ruleKey, active: true } });
+  if (!rule) throw new ErrorResponse('Regla de comisión no encontrada o ya desactivada', 404);
+
+  await rule.update({ active: false, supersededAt: new Date() });
+  invalidateCommissionRules();
+  return rule;
 }
 
 export default {
   calculateCommission,
+  simulateCommission,
   getUserCommissionRate,
   getUserMonthlyVolume,
   getCommissionRateByVolume,
@@ -0,0 +1,227 @@
+/**
+ * Contract Lifecycle Service
+ *
+ * Único punto de entrada para cambiar `Contract.status`. Valida el evento
+ * contra la tabla de contractTransitions.ts, aplica sus efectos sobre los
+ * campos de pago/escrow y guarda el contrato junto con una fila de
+ * historial (ContractStatusTransition) en una sola transacción.
+ *
+ * Los handlers pueden seguir modificando otros campos del contrato antes de
+ * llamar a transitionContract: se persisten en el mismo save().
+ */
+
+import type { Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import type { ContractStatus } from '../models/sql/Contract.model.js';
+import { ContractStatusTransition } from '../models/sql/ContractStatusTransition.model.js';
+import { ContractMilestone } from '../models/sql/ContractMilestone.model.js';
+import {
+  planTransition,
+  resolveActorRole,
+  ContractTransitionError,
+  type ContractActorRole,
+  type ContractEvent,
+  type ContractPatch,
+} from './contractTransitions.js';
+import { escrowMovement, type EscrowMovement } from './ledgerRules.js';
+import { HELD_STATUSES, summarizeMilestones } from './milestoneRules.js';
+import ledger from './ledger.js';
+import { toCurrency } from './money.js';
+
+export { ContractTransitionError, resolveActorRole, canTransition } from './contractTransitions.js';
+export type { ContractEvent, ContractActorRole } from './contractTransitions.js';
+
+export interface TransitionContext {
+  actorId?: string | null;
+  actorRole: ContractActorRole;
+  to?: ContractStatus;
+  reason?: string;
+  patch?: ContractPatch;
+  metadata?: Record<string, any>;
+  // Monto devuelto cuando el pago queda parcialmente reembolsado
+  refundAmount?: number;
+  transaction?: Transaction;
+}
+
+/**
+ * Build the transition context for an authenticated user acting on a contract.
+ * Throws ACTOR_NOT_ALLOWED when the user is neither a party nor an admin.
+ */
+export function actorFromUser(
+  contract: Contract,
+  user: { id: string; adminRole?: string | null }
+): Pick<TransitionContext, 'actorId' | 'actorRole'> {
+  const actorRole = resolveActorRole(contract, user);
+  if (!actorRole) {
+    throw new ContractTransitionError('ACTOR_NOT_ALLOWED', 'No eres parte de este contrato', {
+      event: 'admin_override',
+      from: contract.status,
+    });
+  }
+  return { actorId: user.id.toString(), actorRole };
+}
+
+/**
+ * Fire a lifecycle event on a contract. Persists the contract (including any
+ * pending changes the caller made) and appends the status history row.
+ */
+export async function transitionContract(
+  contract: Contract,
+  event: ContractEvent,
+  context: TransitionContext
+): Promise<ContractStatusTransition> {
+  const run = async (transaction: Transaction): Promise<ContractStatusTransition> => {
+    // Re-leer el estado con lock para que dos requests concurrentes no partan del mismo estado
+    const current = await Contract.findByPk(contract.id, {
+      attributes: ['id', 'status', 'paymentStatus', 'escrowStatus'],
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+    if (!current) {
+      throw new Error('Contrato no encontrado');
+    }
+
+    const from = current.status;
+    const loadedStatus = contract.changed('status') ? contract.previous('status') : contract.status;
+    if (from !== loadedStatus) {
+      throw new ContractTransitionError(
+        'STALE_CONTRACT',
+        'El contrato fue modificado por otra operación. Recarga e intenta de nuevo.',
+        { event, from }
+      );
+    }
+
+    const plan = planTransition(
+      {
+        status: from,
+        paymentStatus: current.paymentStatus,
+        escrowStatus: current.escrowStatus,
+      },
+      event,
+      { actorRole: context.actorRole, to: context.to, reason: context.reason, patch: context.patch }
+    );
+
+    const paymentStatusBefore = contract.paymentStatus;
+    contract.set(plan.patch);
+    await contract.save({ transaction });
+
+    // Movimiento de escrow en el ledger, en la misma transacción que el cambio de estado
+    const movement = escrowMovement(
+      { paymentStatus: current.paymentStatus, escrowStatus: current.escrowStatus },
+      contract.paymentStatus
+    );
+    const ledgerOptions = { createdBy: context.actorId || null, transaction };
+    // Con hitos solo se mueve lo que sigue retenido: los hitos liberados o
+    // reembolsados antes ya pasaron por el ledger uno por uno
+    const heldInMilestones = movement && contract.milestoneFunding
+      ? await settleHeldMilestones(contract, movement, transaction)
+      : null;
+    const total = heldInMilestones ?? (Number(contract.allocatedAmount || contract.price) || 0);
+    let refunded = 0;
+    if (movement === 'release') {
+      await ledger.releaseContractEscrow(contract, { ...ledgerOptions, amount: total });
+    } else if (movement === 'refund') {
+      refunded = total;
+      await ledger.refundContractEscrow(contract, { ...ledgerOptions, amount: total });
+    } else if (movement === 'partial_refund') {
+      // Lo reembolsado vuelve al cliente; el resto se libera al trabajador
+      refunded = Math.min(Number(context.refundAmount) || 0, total);
+      await ledger.refundContractEscrow(contract, { ...ledgerOptions, amount: refunded });
+      await ledger.releaseContractEscrow(contract, { ...ledgerOptions, amount: total - refunded });
+    }
+
+    const transition = await ContractStatusTransition.create(
+      {
+        contractId: contract.id,
+        event,
+        fromStatus: plan.from,
+        toStatus: plan.to,
+        paymentStatusBefore,
+        paymentStatusAfter: contract.paymentStatus,
+        actorId: context.actorId || null,
+        actorRole: context.actorRole,
+        reason: context.reason,
+        metadata: context.metadata || {},
+      },
+      { transaction }
+    );
+
+    // Fuera de la transacción: factura electrónica del trabajador al cliente
+    // (pide el CAE a AFIP; si el trabajador no factura electrónicamente no hace
+    // nada) y notas de crédito por lo devuelto al cliente. En ese orden, para
+    // que un reembolso parcial al completar acredite la factura recién emitida
+    const completes = plan.to === 'completed' && plan.from !== 'completed';
+    if (completes || refunded > 0) {
+      transaction.afterCommit(async () => {
+        if (completes) {
+          await import('./fiscalInvoicing.js')
+            .then(({ default: fiscalInvoicing }) => fiscalInvoicing.issueForContract(contract.id))
+            .catch((error) => console.error(`[Fiscal] Error issuing invoice for contract ${contract.id}:`, error));
+        }
+        if (refunded > 0) {
+          await import('./creditNotes.js')
+            .then(({ default: creditNotes }) =>
+              creditNotes.issueForRefund(contract.id, {
+                source: event === 'resolve_dispute' ? 'dispute' : 'cancellation',
+                reference: transition.id,
+                amount: refunded,
+                detail: context.reason,
+              })
+            )
+            .catch((error) => console.error(`[CreditNote] Error crediting contract ${contract.id}:`, error));
+        }
+      });
+    }
+
+    return transition;
+  };
+
+  return context.transaction ? run(context.transaction) : sequelize.transaction(run);
+}
+
+/**
+ * Cierra los hitos que siguen abiertos cuando el contrato completo libera o
+ * reembolsa su escrow. Devuelve el monto que seguía retenido en ellos.
+ */
+async function settleHeldMilestones(
+  contract: Contract,
+  movement: Exclude<EscrowMovement, null>,
+  transaction: Transaction
+): Promise<number> {
+  const milestones = await ContractMilestone.findAll({
+    where: { contractId: contract.id },
+    lock: transaction.LOCK.UPDATE,
+    transaction,
+  });
+  const { held } = summarizeMilestones(milestones, toCurrency(contract.currency));
+
+  const now = new Date();
+  for (const milestone of milestones) {
+    if (HELD_STATUSES.includes(milestone.status)) {
+      await milestone.update(
+        movement === 'refund' ? { status: 'refunded', refundedAt: now } : { status: 'released', releasedAt: now },
+        { transaction }
+      );
+    } else if (milestone.status === 'pending') {
+      await milestone.update({ status: 'cancelled' }, { transaction });
+    }
+  }
+  return held;
+}
+
+/**
+ * Full status history of a contract, oldest first.
+ */
+export async function getStatusHistory(contractId: string): Promise<ContractStatusTransition[]> {
+  return ContractStatusTransition.findAll({
+    where: { contractId },
+    order: [['createdAt', 'ASC']],
+  });
+}
+
+export default {
+  transitionContract,
+  actorFromUser,
+  getStatusHistory,
+};
@@ -0,0 +1,145 @@
+/**
+ * Contract Payments
+ *
+ * Cobro con escrow de un contrato (o de sus hitos, ver milestoneEscrow.ts):
+ * arma el checkout de MercadoPago y registra el Payment pendiente. Lo usan
+ * la ruta POST /api/payments/contract/:contractId y las series recurrentes,
+ * que cobran cada ocurrencia por separado (recurringJobs.ts).
+ *
+ * MercadoPago cobra en pesos. Un contrato pactado en USD/USDT se cobra al
+ * tipo de cambio del momento y esa cotización queda congelada en el pago:
+ * el escrow y el pago al trabajador siguen en la moneda del contrato.
+ */
+
+import { Op } from 'sequelize';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { Payment } from '../models/sql/Payment.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import currencyExchange from './currencyExchange.js';
+import mercadopagoService from './mercadopago.js';
+import milestoneEscrow from './milestoneEscrow.js';
+import { convert, fromDecimal, toCurrency, toDecimal, type RateSnapshot } from './money.js';
+
+export interface ContractPaymentResult {
+  payment: Payment;
+  paymentUrl: string | null;
+  preferenceId: string | null;
+  amount: number;
+  rateSnapshot: RateSnapshot | null;
+  milestoneIds?: string[];
+  /** true si se devolvió un checkout pendiente ya creado */
+  resumed: boolean;
+}
+
+/**
+ * Crea el pago pendiente de un contrato para el cliente. Si ya hay un pago
+ * pendiente con su link de checkout guardado, lo devuelve en lugar de crear
+ * otro; uno ya aprobado o retenido es un 400.
+ */
+export async function createContractPayment(
+  contractId: string,
+  payerId: string,
+  options: { milestoneId?: string | null } = {}
+): Promise<ContractPaymentResult> {
+  const contract = await Contract.findByPk(contractId, {
+    include: [{ model: Job, as: 'job', attributes: ['id', 'title'] }],
+  });
+  if (!contract) throw new ErrorResponse('Contract not found', 404);
+  if (contract.clientId !== payerId) throw new ErrorResponse('Only the client can pay for this contract', 403);
+
+  // Escrow por hitos: el pago cubre todos los hitos (upfront) o uno solo (per_milestone)
+  const funding = contract.milestoneFunding
+    ? await milestoneEscrow.fundingFor(contract, options.milestoneId)
+    : null;
+
+  // Check if already paid (con hitos pagados de a uno el contrato ya está en curso)
+  if (!funding && (contract.status === 'in_progress' || contract.status === 'completed')) {
+    throw new ErrorResponse('Contract already paid', 400);
+  }
+
+  const existingPayments = await Payment.findAll({
+    where: {
+      contractId: contract.id,
+      status: { [Op.in]: ['pending', 'approved', 'held_escrow'] },
+    },
+  });
+  const existingPayment = funding
+    ? existingPayments.find((p) => (p.metadata?.milestoneIds || []).some((id: string) => funding.milestoneIds.includes(id)))
+    : existingPayments[0];
+
+  if (existingPayment) {
+    if (existingPayment.status === 'pending' && existingPayment.metadata?.checkoutUrl) {
+      return {
+        payment: existingPayment,
+        paymentUrl: existingPayment.metadata.checkoutUrl,
+        preferenceId: (existingPayment as any).mercadoPagoPreferenceId || null,
+        amount: Number(existingPayment.amount),
+        rateSnapshot: (existingPayment as any).rateSnapshot || null,
+        milestoneIds: funding?.milestoneIds,
+        resumed: true,
+      };
+    }
+    throw new ErrorResponse(funding ? 'Payment already exists for this milestone' : 'Payment already exists for this contract', 400);
+  }
+
+  const jobTitle = (contract.job as any)?.title || 'Contrato';
+  const contractCurrency = toCurrency(contract.currency);
+  const settlementAmount = funding ? funding.total : contract.totalPrice;
+  const platformFee = funding ? funding.fee : contract.commission;
+  const contractTotal = fromDecimal(settlementAmount, contractCurrency);
+  const rateSnapshot = contractCurrency === 'ARS'
+    ? null
+    : await currencyExchange.snapshotRate(contractCurrency, 'ARS');
+  const chargedAmount = rateSnapshot ? toDecimal(convert(contractTotal, 'ARS', rateSnapshot)) : Number(settlementAmount);
+
+  const checkout = await mercadopagoService.createPayment({
+    amount: chargedAmount,
+    currency: 'ARS',
+    description: `Contrato: ${jobTitle}`,
+    provider: 'mercadopago',
+    metadata: { contractId: contract.id, clientId: payerId, doerId: contract.doerId },
+  });
+
+  const payment = await Payment.create({
+    contractId: contract.id,
+    payerId,
+    recipientId: contract.doerId,
+    amount: chargedAmount,
+    currency: 'ARS',
+    amountArs: chargedAmount,
+    ...(rateSnapshot ? { exchangeRate: rateSnapshot.rate, rateSnapshot } : {}),
+    settlementCurrency: contractCurrency,
+    settlementAmount,
+    status: 'pending',
+    paymentType: 'contract',
+    mercadoPagoPreferenceId: checkout.providerPaymentId,
+    description: `Contrato: ${jobTitle}`,
+    platformFee,
+    platformFeePercentage: contract.commission > 0 ? ((contract.commission / contract.price) * 100) : 0,
+    isEscrow: true,
+    escrowStatus: 'pending',
+    metadata: {
+      checkoutUrl: checkout.checkoutUrl || null,
+      ...(funding ? { milestoneIds: funding.milestoneIds } : {}),
+    },
+  } as any);
+
+  // Update contract with payment reference (con hitos queda el primer pago)
+  if (!funding || !(contract as any).paymentId) {
+    (contract as any).paymentId = payment.id;
+    await contract.save();
+  }
+
+  return {
+    payment,
+    paymentUrl: checkout.checkoutUrl || null,
+    preferenceId: checkout.providerPaymentId || null,
+    amount: chargedAmount,
+    rateSnapshot,
+    milestoneIds: funding?.milestoneIds,
+    resumed: false,
+  };
+}
+
+export default { createContractPayment };
@@ -0,0 +1,394 @@
+/**
+ * Contract Transitions
+ *
+ * Tabla declarativa del ciclo de vida de un contrato. Cada evento define:
+ * - desde qué estados puede dispararse (`from`)
+ * - a qué estado(s) lleva (`to`, el primero es el destino por defecto)
+ * - quién puede dispararlo (`actors`)
+ * - qué paymentStatus requiere o bloquea (`requiresPaymentStatus` / `blockedPaymentStatus`)
+ * - qué campos de pago/escrow cambian como efecto (`effects`)
+ *
+ * Este módulo es puro (sin acceso a la base de datos) para poder testearlo
+ * aislado; la persistencia y el historial viven en contractLifecycle.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import type { ContractStatus, PaymentStatus } from '../models/sql/Contract.model.js';
+
+export type ContractActorRole = 'client' | 'doer' | 'admin' | 'system';
+
+export type ContractEvent =
+  | 'approve'             // Admin aprueba el contrato → ready
+  | 'reject'              // Rechazo antes de aceptar
+  | 'accept'              // Ambas partes aceptaron los términos
+  | 'start'               // Pareamiento confirmado / pago verificado → in_progress
+  | 'propose_completion'  // Una parte propone horas reales
+  | 'confirm_completion'  // La otra parte confirma las horas
+  | 'auto_confirm'        // Cron: sin respuesta dentro del plazo
+  | 'complete'            // El cliente marca el contrato como completado
+  | 'resume'              // Reclamo de tareas aceptado: vuelve a in_progress
+  | 'dispute'             // Se abre una disputa
+  | 'review'              // Admin toma la disputa
+  | 'resolve_dispute'     // Admin resuelve la disputa (o el workflow: acuerdo aceptado / resultado por defecto)
+  | 'cancel'              // Cancelación por una parte, admin o sistema
+  | 'admin_override';     // Corrección manual de estado (requiere motivo)
+
+// Cualquier paymentStatus que el resto del código escribe hoy, aunque no figure en el tipo del modelo
+type AnyPaymentStatus = PaymentStatus | 'pending_verification' | 'failed' | 'partially_refunded';
+
+export interface ContractSnapshot {
+  status: ContractStatus;
+  paymentStatus: AnyPaymentStatus;
+  escrowStatus?: 'pending' | 'held_escrow' | 'released' | 'refunded';
+}
+
+export type ContractPatch = Partial<Record<string, any>>;
+
+interface TransitionDefinition {
+  from: readonly ContractStatus[] | '*';
+  to: readonly ContractStatus[] | '*';
+  actors: readonly ContractActorRole[];
+  requiresPaymentStatus?: readonly AnyPaymentStatus[];
+  blockedPaymentStatus?: readonly AnyPaymentStatus[];
+  requiresReason?: boolean;
+  effects?: (contract: ContractSnapshot, now: Date, to: ContractStatus) => ContractPatch;
+}
+
+const ALL_STATUSES: readonly ContractStatus[] = [
+  'pending', 'ready', 'accepted', 'rejected', 'in_progress',
+  'awaiting_confirmation', 'completed', 'cancelled', 'disputed', 'in_review',
+];
+
+// Fondos retenidos en la plataforma (todavía no liberados ni reembolsados)
+const FUNDS_HELD: readonly AnyPaymentStatus[] = ['held', 'escrow'];
+// Fondos que ya salieron (o están saliendo) hacia el trabajador
+const FUNDS_PAID_OUT: readonly AnyPaymentStatus[] = ['released', 'completed', 'pending_payout'];
+
+/**
+ * Al completarse, los fondos retenidos pasan a "pendiente de pago" al trabajador.
+ * Nunca puede quedar un contrato completed con el dinero todavía retenido.
+ */
+const completionEffects = (contract: ContractSnapshot, now: Date): ContractPatch => {
+  const patch: ContractPatch = {};
+  if (contract.paymentStatus === 'pending' || FUNDS_HELD.includes(contract.paymentStatus)) {
+    patch.paymentStatus = 'pending_payout';
+  }
+  if (contract.escrowStatus === 'held_escrow') {
+    patch.escrowStatus = 'released';
+  }
+  patch.actualEndDate = now;
+  return patch;
+};
+
+export const CONTRACT_TRANSITIONS: Record<ContractEvent, TransitionDefinition> = {
+  approve: {
+    from: ['pending', 'in_review'],
+    to: ['ready'],
+    actors: ['admin'],
+  },
+  reject: {
+    from: ['pending', 'ready', 'in_review'],
+    to: ['rejected'],
+    actors: ['client', 'doer', 'admin'],
+    blockedPaymentStatus: FUNDS_PAID_OUT,
+    effects: (contract) => refundEffects(contract),
+  },
+  accept: {
+    from: ['pending', 'ready'],
+    to: ['accepted'],
+    actors: ['client', 'doer'],
+    effects: (contract, now) => ({
+      termsAccepted: true,
+      termsAcceptedAt: now,
+      ...(contract.paymentStatus === 'pending' ? { paymentStatus: 'held' } : {}),
+    }),
+  },
+  start: {
+    from: ['pending', 'ready', 'accepted'],
+    to: ['in_progress'],
+    actors: ['client', 'doer', 'admin', 'system'],
+    blockedPaymentStatus: ['refunded', 'failed'],
+    effects: (_contract, now) => ({ actualStartDate: now }),
+  },
+  propose_completion: {
+    // 'system': los trabajos vencidos sin respuesta del cliente (autoCancelExpiredJobs)
+    from: ['accepted', 'in_progress'],
+    to: ['awaiting_confirmation'],
+    actors: ['client', 'doer', 'system'],
+    blockedPaymentStatus: ['refunded', 'failed'],
+    effects: (_contract, now) => ({ awaitingConfirmationAt: now }),
+  },
+  confirm_completion: {
+    // Los contratos de propuesta directa nacen aceptados y pre-confirmados por ambas partes
+    from: ['accepted', 'in_progress', 'awaiting_confirmation'],
+    to: ['completed'],
+    actors: ['client', 'doer'],
+    blockedPaymentStatus: ['refunded', 'failed'],
+    effects: completionEffects,
+  },
+  auto_confirm: {
+    from: ['awaiting_confirmation'],
+    to: ['completed'],
+    actors: ['system'],
+    blockedPaymentStatus: ['refunded', 'failed'],
+    effects: completionEffects,
+  },
+  complete: {
+    from: ['accepted', 'in_progress', 'awaiting_confirmation'],
+    to: ['completed'],
+    actors: ['client'],
+    blockedPaymentStatus: ['refunded', 'failed'],
+    effects: completionEffects,
+  },
+  resume: {
+    from: ['in_progress', 'awaiting_confirmation'],
+    to: ['in_progress'],
+    actors: ['doer', 'admin'],
+    effects: () => ({ clientConfirmed: false, doerConfirmed: false }),
+  },
+  dispute: {
+    from: ['accepted', 'in_progress', 'awaiting_confirmation', 'completed'],
+    to: ['disputed'],
+    actors: ['client', 'doer', 'admin', 'system'],
+    // Una vez liberado el pago ya no hay fondos que congelar
+    blockedPaymentStatus: ['released', 'completed', 'refunded'],
+    effects: (_contract, now) => ({ disputedAt: now }),
+  },
+  review: {
+    from: ['disputed'],
+    to: ['in_review'],
+    actors: ['admin'],
+  },
+  resolve_dispute: {
+    from: ['disputed', 'in_review'],
+    to: ['completed', 'cancelled', 'in_progress'],
+    actors: ['admin', 'system'],
+    effects: (contract, now, to) => ({ ...settlementEffects(contract, now, to), disputeResolvedAt: now }),
+  },
+  cancel: {
+    from: ['pending', 'ready', 'accepted', 'in_progress', 'awaiting_confirmation', 'in_review'],
+    to: ['cancelled'],
+    actors: ['client', 'doer', 'admin', 'system'],
+    blockedPaymentStatus: FUNDS_PAID_OUT,
+    effects: (contract) => refundEffects(contract),
+  },
+  admin_override: {
+    from: '*',
+    to: '*',
+    actors: ['admin'],
+    requiresReason: true,
+    effects: settlementEffects,
+  },
+};
+
+/**
+ * Cancelar o rechazar un contrato con fondos retenidos los marca como reembolsados.
+ * Si nunca hubo fondos, el paymentStatus queda como está.
+ */
+function refundEffects(contract: ContractSnapshot): ContractPatch {
+  const patch: ContractPatch = {};
+  if (FUNDS_HELD.includes(contract.paymentStatus)) {
+    patch.paymentStatus = 'refunded';
+  }
+  if (contract.escrowStatus === 'held_escrow') {
+    patch.escrowStatus = 'refunded';
+  }
+  return patch;
+}
+
+/**
+ * Efectos de pago según el estado final, para eventos cuyo destino es variable.
+ */
+function settlementEffects(contract: ContractSnapshot, now: Date, to: ContractStatus): ContractPatch {
+  if (to === 'completed') return completionEffects(contract, now);
+  if (to === 'cancelled' || to === 'rejected') return refundEffects(contract);
+  return {};
+}
+
+/**
+ * Combinaciones status/paymentStatus que nunca deben persistirse,
+ * sin importar qué evento las produzca.
+ */
+const FORBIDDEN_PAYMENT_STATUSES: Partial<Record<ContractStatus, readonly AnyPaymentStatus[]>> = {
+  completed: FUNDS_HELD,
+  cancelled: FUNDS_HELD,
+  rejected: FUNDS_HELD,
+};
+
+export type ContractTransitionErrorCode =
+  | 'ILLEGAL_TRANSITION'
+  | 'ACTOR_NOT_ALLOWED'
+  | 'PAYMENT_STATUS_MISMATCH'
+  | 'REASON_REQUIRED'
+  | 'INCONSISTENT_STATE'
+  | 'STALE_CONTRACT';
+
+const ERROR_STATUS_CODES: Record<ContractTransitionErrorCode, number> = {
+  ILLEGAL_TRANSITION: 409,
+  ACTOR_NOT_ALLOWED: 403,
+  PAYMENT_STATUS_MISMATCH: 409,
+  REASON_REQUIRED: 400,
+  INCONSISTENT_STATE: 409,
+  STALE_CONTRACT: 409,
+};
+
+export class ContractTransitionError extends ErrorResponse {
+  code: ContractTransitionErrorCode;
+  event: ContractEvent;
+  from: ContractStatus;
+  to?: ContractStatus;
+
+  constructor(
+    code: ContractTransitionErrorCode,
+    message: string,
+    details: { event: ContractEvent; from: ContractStatus; to?: ContractStatus }
+  ) {
+    super(message, ERROR_STATUS_CODES[code]);
+    this.name = 'ContractTransitionError';
+    this.code = code;
+    this.event = details.event;
+    this.from = details.from;
+    this.to = details.to;
+  }
+}
+
+export interface TransitionRequest {
+  actorRole: ContractActorRole;
+  to?: ContractStatus;
+  reason?: string;
+  patch?: ContractPatch;
+  now?: Date;
+}
+
+export interface TransitionPlan {
+  event: ContractEvent;
+  from: ContractStatus;
+  to: ContractStatus;
+  patch: ContractPatch;
+}
+
+/**
+ * Admin roles that act as 'admin' on contracts and other users' jobs.
+ * Support and marketing roles do not.
+ */
+export function isAdminActor(adminRole?: string | null): boolean {
+  return !!adminRole && ['owner', 'super_admin', 'admin'].includes(adminRole);
+}
+
+/**
+ * Resolve the role of a user relative to a contract. Parties win over admin role,
+ * so an admin who is also the client acts as the client.
+ */
+export function resolveActorRole(
+  contract: { clientId: string; doerId: string },
+  user?: { id: string; adminRole?: string | null } | null
+): ContractActorRole | null {
+  if (!user) return 'system';
+  const userId = user.id.toString();
+  if (contract.clientId?.toString() === userId) return 'client';
+  if (contract.doerId?.toString() === userId) return 'doer';
+  if (isAdminActor(user.adminRole)) return 'admin';
+  return null;
+}
+
+/**
+ * Check whether an event could be fired from the contract's current state.
+ */
+export function canTransition(
+  contract: ContractSnapshot,
+  event: ContractEvent,
+  actorRole: ContractActorRole
+): boolean {
+  try {
+    planTransition(contract, event, { actorRole, reason: 'check' });
+    return true;
+  } catch (error) {
+    if (error instanceof ContractTransitionError) return false;
+    throw error;
+  }
+}
+
+/**
+ * Validate an event against the transition table and compute the resulting
+ * field changes. Throws ContractTransitionError when the transition is illegal.
+ */
+export function planTransition(
+  contract: ContractSnapshot,
+  event: ContractEvent,
+  request: TransitionRequest
+): TransitionPlan {
+  const definition = CONTRACT_TRANSITIONS[event];
+  const from = contract.status;
+  const details = { event, from, to: request.to };
+
+  if (!definition) {
+    throw new ContractTransitionError('ILLEGAL_TRANSITION', `Evento de contrato desconocido: ${event}`, details);
+  }
+
+  if (definition.from !== '*' && !definition.from.includes(from)) {
+    throw new ContractTransitionError(
+      'ILLEGAL_TRANSITION',
+      `No se puede ejecutar "${event}" sobre un contrato en estado "${from}"`,
+      details
+    );
+  }
+
+  const allowedTargets = definition.to === '*' ? ALL_STATUSES : definition.to;
+  const to = request.to ?? allowedTargets[0];
+  if (!allowedTargets.includes(to)) {
+    throw new ContractTransitionError(
+      'ILLEGAL_TRANSITION',
+      `"${event}" no puede llevar el contrato a "${to}"`,
+      { ...details, to }
+    );
+  }
+
+  if (!definition.actors.includes(request.actorRole)) {
+    throw new ContractTransitionError(
+      'ACTOR_NOT_ALLOWED',
+      `No tienes permiso para ejecutar "${event}" en este contrato`,
+      { ...details, to }
+    );
+  }
+
+  if (definition.requiresReason && !request.reason?.trim()) {
+    throw new ContractTransitionError('REASON_REQUIRED', 'Debes indicar un motivo para este cambio de estado', {
+      ...details,
+      to,
+    });
+  }
+
+  if (definition.requiresPaymentStatus && !definition.requiresPaymentStatus.includes(contract.paymentStatus)) {
+    throw new ContractTransitionError(
+      'PAYMENT_STATUS_MISMATCH',
+      `"${event}" requiere un pago en estado ${definition.requiresPaymentStatus.join(' / ')} (actual: ${contract.paymentStatus})`,
+      { ...details, to }
+    );
+  }
+
+  if (definition.blockedPaymentStatus?.includes(contract.paymentStatus)) {
+    throw new ContractTransitionError(
+      'PAYMENT_STATUS_MISMATCH',
+      `No se puede ejecutar "${event}" con el pago en estado "${contract.paymentStatus}"`,
+      { ...details, to }
+    );
+  }
+
+  const now = request.now ?? new Date();
+  const patch: ContractPatch = {
+    ...(definition.effects ? definition.effects(contract, now, to) : {}),
+    ...(request.patch || {}),
+    status: to,
+  };
+
+  const resultingPaymentStatus = (patch.paymentStatus ?? contract.paymentStatus) as AnyPaymentStatus;
+  if (FORBIDDEN_PAYMENT_STATUSES[to]?.includes(resultingPaymentStatus)) {
+    throw new ContractTransitionError(
+      'INCONSISTENT_STATE',
+      `Un contrato "${to}" no puede quedar con el pago en estado "${resultingPaymentStatus}"`,
+      { ...details, to }
+    );
+  }
+
+  return { event, from, to, patch };
+}
@@ -0,0 +1,96 @@
+/**
+ * Reglas de las notas de crédito
+ *
+ * Cuando se le devuelve plata al cliente de un contrato ya facturado, la
+ * factura original no se modifica: se emite una nota de crédito vinculada a
+ * ella, con numeración propia (NC-AAAA-NNNNNN), por lo que se devolvió:
+ *
+ * - qué facturas se acreditan (la del pago del cliente y la factura
+ *   electrónica que emitió el trabajador)
+ * - monto en la moneda de la factura (con la cotización congelada del pago si
+ *   se cobró en otra moneda), con tope en lo que le queda sin acreditar
+ * - total o parcial: la nota que deja la factura en cero la anula ('void')
+ * - motivo impreso según el origen (disputa, cancelación o baja de precio)
+ *
+ * Módulo puro; la emisión está en creditNotes.ts.
+ */
+
+import { convert, fromDecimal, min, subtract, toDecimal, type Currency, type Money, type RateSnapshot } from './money.js';
+
+export type CreditNoteSource = 'dispute' | 'cancellation' | 'price_change';
+export type CreditScope = 'total' | 'partial';
+
+export const CREDIT_NOTE_SERIES = 'NC';
+export const INVOICE_SERIES = 'DOAPP';
+
+// La comisión de DOAPP no se devuelve, así que la factura del pago del
+// cliente casi nunca queda anulada por un reembolso; la electrónica sí
+export const CREDITABLE_INVOICE_TYPES = ['client_payment', 'fiscal_invoice'] as const;
+
+export const CREDIT_SOURCE_LABELS: Record<CreditNoteSource, string> = {
+  dispute: 'Reembolso por resolución de disputa',
+  cancellation: 'Reembolso por cancelación del contrato',
+  price_change: 'Reducción del precio del contrato',
+};
+
+/** "NC-2026-000042" (y "DOAPP-2026-000042" para las facturas). */
+export function formatSeriesNumber(series: string, year: number, sequence: number): string {
+  return `${series}-${year}-${String(sequence).padStart(6, '0')}`;
+}
+
+/** Número siguiente de la serie a partir del último emitido en el año (null: primero). */
+export function nextSeriesNumber(series: string, year: number, last: string | null | undefined): string {
+  const lastSequence = last ? parseInt(last.split('-')[2], 10) : NaN;
+  return formatSeriesNumber(series, year, isNaN(lastSequence) ? 1 : lastSequence + 1);
+}
+
+/**
+ * Lo devuelto expresado en la moneda de la factura. Null si la factura está
+ * en otra moneda y el pago no guardó la cotización para convertir.
+ */
+export function refundInInvoiceCurrency(
+  refund: Money,
+  invoiceCurrency: Currency,
+  rateSnapshot?: RateSnapshot | null
+): Money | null {
+  if (refund.currency === invoiceCurrency) return refund;
+  return rateSnapshot ? convert(refund, invoiceCurrency, rateSnapshot) : null;
+}
+
+export interface CreditPlan {
+  amount: number;
+  scope: CreditScope;
+  // Lo que le queda a la factura sin acreditar después de esta nota
+  remaining: number;
+}
+
+/**
+ * Monto de la nota de crédito: lo devuelto, con tope en el saldo de la factura
+ * (total menos las notas anteriores). Null si no hay nada que acreditar.
+ */
+export function planCreditNote(invoiceTotal: number, credited: number[], refund: Money): CreditPlan | null {
+  const currency = refund.currency;
+  const alreadyCredited = credited.reduce((sum, value) => sum + fromDecimal(value, currency).amount, 0);
+  const balance = fromDecimal(invoiceTotal, currency).amount - alreadyCredited;
+  if (balance <= 0 || refund.amount <= 0) return null;
+
+  const available = { amount: balance, currency };
+  const amount = min(refund, available);
+  const remaining = subtract(available, amount);
+  return {
+    amount: toDecimal(amount),
+    scope: remaining.amount === 0 ? 'total' : 'partial',
+    remaining: toDecimal(remaining),
+  };
+}
+
+/** Clave que evita emitir dos veces la nota del mismo reembolso sobre la misma factura. */
+export function refundKey(source: CreditNoteSource, reference: string): string {
+  return `${source}:${reference}`;
+}
+
+/** Motivo impreso en la nota: origen y, si hay, el detalle (motivo de la baja de precio, resolución). */
+export function creditReason(source: CreditNoteSource, detail?: string | null): string {
+  const text = (detail || '').trim();
+  return text ? `${CREDIT_SOURCE_LABELS[source]}: ${text.slice(0, 200)}` : CREDIT_SOURCE_LABELS[source];
+}
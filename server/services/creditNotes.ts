@@ -0,0 +1,220 @@
+/**
+ * Credit Notes Service
+ *
+ * Notas de crédito por reembolsos (reglas en creditNoteRules.ts). Cuando se
+ * le devuelve plata al cliente de un contrato, issueForRefund acredita cada
+ * factura vigente del contrato:
+ *
+ * - la del pago del cliente: nota NC-AAAA-NNNNNN con su PDF
+ *   (invoiceService.generateCreditNote)
+ * - la factura electrónica del trabajador: nota de crédito B/C asociada a la
+ *   factura, que autoriza AFIP (fiscalInvoicing.authorize). Si la factura
+ *   todavía no tenía CAE no se acredita: se la achica o se la anula antes de
+ *   pedirlo
+ * - la nota que deja la factura en cero la anula ('void')
+ *
+ * La llaman transitionContract (escrow reembolsado al cancelar o al resolver
+ * una disputa), la resolución de disputas de un hito y las bajas de precio.
+ * Nunca lanza: el reembolso ya se hizo y la nota se puede volver a pedir con
+ * la misma referencia sin duplicarse.
+ */
+
+import { Op } from 'sequelize';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Invoice, type InvoiceType } from '../models/sql/Invoice.model.js';
+import { User } from '../models/sql/User.model.js';
+import { generateCreditNote, getNextCreditNoteNumber } from './invoiceService.js';
+import fiscalInvoicing from './fiscalInvoicing.js';
+import messageTemplates from './messageTemplates.js';
+import { fromDecimal, min, subtract, toCurrency, type Money } from './money.js';
+import {
+  CREDITABLE_INVOICE_TYPES,
+  creditReason,
+  planCreditNote,
+  refundInInvoiceCurrency,
+  refundKey,
+  type CreditNoteSource,
+  type CreditPlan,
+} from './creditNoteRules.js';
+import { FISCAL_VOUCHERS, creditNoteVoucherType, fiscalAmounts, formatFiscalNumber } from './fiscalRules.js';
+
+export interface RefundCredit {
+  source: CreditNoteSource;
+  // Id del origen (transición del contrato, disputa, movimiento del ledger)
+  reference: string;
+  // Lo devuelto, en la moneda del contrato
+  amount: number;
+  detail?: string | null;
+}
+
+class CreditNotesService {
+  /**
+   * Acredita las facturas del contrato por lo devuelto. Cada tipo de factura
+   * (la de DOAPP y la del trabajador) se acredita por separado: las dos
+   * facturaron el mismo trabajo.
+   */
+  async issueForRefund(contractId: string, refund: RefundCredit): Promise<Invoice[]> {
+    try {
+      const contract = await Contract.findByPk(contractId, { attributes: ['id', 'currency'] });
+      if (!contract) return [];
+      const refunded = fromDecimal(refund.amount, toCurrency(contract.currency));
+      if (refunded.amount <= 0) return [];
+
+      const invoices = await Invoice.findAll({
+        where: { contractId, type: [...CREDITABLE_INVOICE_TYPES], status: { [Op.ne]: 'void' } },
+        order: [['createdAt', 'DESC']],
+      });
+
+      const notes: Invoice[] = [];
+      const pending = new Map<InvoiceType, Money>();
+      for (const invoice of invoices) {
+        const left = pending.get(invoice.type) ?? refunded;
+        if (left.amount <= 0) continue;
+        try {
+          const { note, used } = await this.credit(invoice, left, refund);
+          pending.set(invoice.type, subtract(left, min(used, left)));
+          if (note) notes.push(note);
+        } catch (error: any) {
+          console.error(`[CreditNote] Error crediting invoice ${invoice.invoiceNumber}:`, error.message);
+        }
+      }
+      return notes;
+    } catch (error: any) {
+      console.error(`[CreditNote] Error issuing credit notes for contract ${contractId}:`, error.message);
+      return [];
+    }
+  }
+
+  /**
+   * Nota de crédito de una factura por hasta `refunded` (moneda del contrato).
+   * Devuelve la nota (o null si no hizo falta) y cuánto del reembolso cubrió.
+   */
+  private async credit(
+    invoice: Invoice,
+    refunded: Money,
+    refund: RefundCredit
+  ): Promise<{ note: Invoice | null; used: Money }> {
+    const key = refundKey(refund.source, refund.reference);
+    const none = { note: null, used: { amount: 0, currency: refunded.currency } };
+
+    const existing = await Invoice.findOne({ where: { creditedInvoiceId: invoice.id, refundKey: key } });
+    if (existing) return { note: existing, used: refunded };
+
+    const invoiceCurrency = toCurrency(invoice.currency);
+    const amount = refundInInvoiceCurrency(refunded, invoiceCurrency, invoice.metadata?.rateSnapshot);
+    if (!amount) {
+      console.warn(`[CreditNote] Invoice ${invoice.invoiceNumber} is in ${invoice.currency} without a rate snapshot: not credited`);
+      return none;
+    }
+
+    const previous = await Invoice.findAll({
+      attributes: ['total'],
+      where: { creditedInvoiceId: invoice.id, type: 'credit_note', status: { [Op.ne]: 'void' } },
+    });
+    const plan = planCreditNote(Number(invoice.total), previous.map((note) => Number(note.total)), amount);
+    if (!plan) return none;
+    // Lo acreditado, de vuelta en la moneda del contrato
+    const used = refundInInvoiceCurrency(fromDecimal(plan.amount, invoiceCurrency), refunded.currency, invoice.metadata?.rateSnapshot)!;
+    const reason = creditReason(refund.source, refund.detail);
+
+    if (invoice.fiscalType) {
+      if (invoice.fiscalStatus !== 'authorized') {
+        await this.adjustUnauthorized(invoice, plan);
+        return { note: null, used };
+      }
+      return { note: await this.issueFiscal(invoice, plan, reason, refund.source, key), used };
+    }
+
+    const note = await generateCreditNote(invoice, { ...plan, source: refund.source, reason, refundKey: key });
+    await this.notify(note, invoice.recipientId || invoice.userId);
+    return { note, used };
+  }
+
+  /**
+   * Nota de crédito electrónica (NC B / NC C) del trabajador, en el mismo
+   * punto de venta que la factura. La anulación de la factura la hace
+   * fiscalInvoicing cuando AFIP autoriza la nota.
+   */
+  private async issueFiscal(
+    invoice: Invoice,
+    plan: CreditPlan,
+    reason: string,
+    source: CreditNoteSource,
+    key: string
+  ): Promise<Invoice> {
+    const voucherType = creditNoteVoucherType(invoice.fiscalType!);
+    const amounts = fiscalAmounts(voucherType, plan.amount);
+    const original = FISCAL_VOUCHERS[invoice.fiscalType!];
+
+    const note = await Invoice.create({
+      invoiceNumber: await getNextCreditNoteNumber(),
+      type: 'credit_note',
+      userId: invoice.userId,
+      recipientId: invoice.recipientId || null,
+      contractId: invoice.contractId || null,
+      creditedInvoiceId: invoice.id,
+      refundKey: key,
+      amount: amounts.total,
+      commission: 0,
+      total: amounts.total,
+      currency: 'ARS',
+      status: 'generated',
+      fiscalType: voucherType,
+      issuerCuit: invoice.issuerCuit,
+      pointOfSale: invoice.pointOfSale,
+      fiscalStatus: 'pending',
+      metadata: {
+        jobTitle: invoice.metadata?.jobTitle,
+        jobId: invoice.metadata?.jobId,
+        workerName: invoice.metadata?.workerName,
+        clientName: invoice.metadata?.clientName,
+        receiverDocType: invoice.metadata?.receiverDocType,
+        receiverDocNumber: invoice.metadata?.receiverDocNumber,
+        receiverIvaCondition: invoice.metadata?.receiverIvaCondition,
+        netAmount: amounts.net,
+        vatAmount: amounts.vat,
+        creditSource: source,
+        creditReason: reason,
+        creditScope: plan.scope,
+        creditedInvoiceNumber: `Factura ${original.letter} ${formatFiscalNumber(invoice.pointOfSale!, invoice.fiscalNumber!)}`,
+      },
+    });
+
+    return fiscalInvoicing.authorize(note);
+  }
+
+  /**
+   * Factura electrónica sin CAE (pendiente o rechazada): no existe para AFIP,
+   * así que en vez de acreditarla se la anula o se le baja el importe.
+   */
+  private async adjustUnauthorized(invoice: Invoice, plan: CreditPlan): Promise<void> {
+    if (plan.scope === 'total') {
+      await invoice.update({ status: 'void' });
+      return;
+    }
+    const amounts = fiscalAmounts(invoice.fiscalType!, plan.remaining);
+    await invoice.update({
+      amount: amounts.total,
+      total: amounts.total,
+      metadata: { ...invoice.metadata, netAmount: amounts.net, vatAmount: amounts.vat },
+    });
+  }
+
+  private async notify(note: Invoice, recipientId: string): Promise<void> {
+    const recipient = await User.findByPk(recipientId, { attributes: ['id', 'name'] });
+    if (!recipient) return;
+    await messageTemplates
+      .notify(recipient.id, 'invoice.credit_note', {
+        recipientName: recipient.name || '',
+        voucher: `Nota de crédito ${note.invoiceNumber}`,
+        creditedVoucher: note.metadata?.creditedInvoiceNumber || '',
+        amount: Number(note.total),
+        currency: note.currency,
+        reason: note.metadata?.creditReason || '',
+      }, { channels: ['in_app', 'email'] })
+      .catch((error) => console.error('[CreditNote] Recipient notification error:', error.message));
+  }
+}
+
+const creditNotes = new CreditNotesService();
+export default creditNotes;
@@ -1,3 +1,7 @@
+import { snapshotOf, type Currency, type QuotedRate, type RateSnapshot } from './money.js';
+
+export type { QuotedRate } from './money.js';
+
 interface ExchangeRate {
   rate: number;
   timestamp: Date;
@@ -5,13 +9,6 @@ interface ExchangeRate {
   source?: string;
 }
 
-/** A rate plus its provenance, for callers that display freshness. */
-export interface QuotedRate {
-  rate: number;
-  timestamp: Date;
-  source: string;
-}
-
 /**
  * Servicio de conversión de moneda USD/EUR a ARS
  * Utiliza APIs públicas con fallback y caché en memoria
@@ -119,7 +116,8 @@ class CurrencyExchangeService {
         // Guardar en caché
         await this.cacheSet(this.CACHE_KEY, {
           rate: dolarBlueRate,
-          timestamp: new Date()
+          timestamp: new Date(),
+          source: 'dolarhoy'
         }, this.CACHE_TTL);
 
         return dolarBlueRate;
@@ -133,7 +131,8 @@ class CurrencyExchangeService {
       // Guardar en caché
       await this.cacheSet(this.CACHE_KEY, {
         rate,
-        timestamp: new Date()
+        timestamp: new Date(),
+        source: 'api'
       }, this.CACHE_TTL);
 
       return rate;
@@ -332,6 +331,47 @@ class CurrencyExchangeService {
     return Math.round(amountUSDT * rate * 100) / 100; // Redondear a 2 decimales
   }
 
+  /**
+   * Cotización USD/ARS con su procedencia (dolarhoy, APIs internacionales o
+   * la tasa de respaldo).
+   */
+  async getQuotedUSDRate(): Promise<QuotedRate> {
+    const rate = await this.getUSDtoARSRate();
+    // getUSDtoARSRate solo cachea cotizaciones reales; sin caché es la de respaldo
+    const cached = await this.cacheGet<ExchangeRate>(this.CACHE_KEY);
+    if (!cached) return { rate, timestamp: new Date(), source: 'fallback' };
+    return { rate, timestamp: new Date(cached.timestamp), source: cached.source || 'cache' };
+  }
+
+  /**
+   * Cotización entre dos monedas soportadas: 1 `from` = rate `to`.
+   * USD↔USDT se cruza a través del peso, que es donde se cotizan ambas.
+   */
+  async getQuotedRate(from: Currency, to: Currency): Promise<QuotedRate> {
+    if (from === to) return { rate: 1, timestamp: new Date(), source: 'identity' };
+
+    const toArs = async (currency: Currency): Promise<QuotedRate> => {
+      if (currency === 'ARS') return { rate: 1, timestamp: new Date(), source: 'identity' };
+      return currency === 'USDT' ? this.getQuotedUSDTRate() : this.getQuotedUSDRate();
+    };
+
+    const [fromArs, toArsRate] = await Promise.all([toArs(from), toArs(to)]);
+    const sources = [fromArs.source, toArsRate.source].filter((s) => s !== 'identity');
+    return {
+      rate: fromArs.rate / toArsRate.rate,
+      // La más vieja de las dos: es la que dice qué tan vigente es el cruce
+      timestamp: new Date(Math.min(fromArs.timestamp.getTime(), toArsRate.timestamp.getTime())),
+      source: sources.join('/') || 'identity',
+    };
+  }
+
+  /**
+   * Cotización lista para congelar en un pago (ver RateSnapshot).
+   */
+  async snapshotRate(from: Currency, to: Currency): Promise<RateSnapshot> {
+    return snapshotOf(from, to, await this.getQuotedRate(from, to));
+  }
+
   /**
    * Invalida el caché de tasas de cambio
    * Útil para forzar una actualización
@@ -0,0 +1,784 @@
+/**
+ * Dispute Workflow Service
+ *
+ * Lleva cada disputa por las fases de disputeWorkflowRules.ts: guarda la fase
+ * y su vencimiento, registra el historial, notifica a quien tiene que actuar
+ * y aplica los plazos vencidos (job dispute-deadlines). También concentra la
+ * ejecución de una resolución (contrato, pago, escrow y reembolso en
+ * MercadoPago), que comparten la resolución manual del admin, el acuerdo
+ * aceptado por ambas partes y el resultado por defecto.
+ */
+
+import crypto from 'crypto';
+import { Op, type Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Dispute, type ResolutionType, type DisputeStatus } from '../models/sql/Dispute.model.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Payment } from '../models/sql/Payment.model.js';
+import { ContractMilestone } from '../models/sql/ContractMilestone.model.js';
+import { ModuleConfig } from '../models/sql/ModuleConfig.model.js';
+import { Notification } from '../models/sql/Notification.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { transitionContract } from './contractLifecycle.js';
+import milestoneEscrow from './milestoneEscrow.js';
+import fcmService from './fcm.js';
+import emailService from './email.js';
+import mercadopagoService from './mercadopago.js';
+import creditNotes from './creditNotes.js';
+import {
+  PHASE_LABELS,
+  awaitingParties,
+  buildDisputeTimeline,
+  describeOffer,
+  nextPhase,
+  normalizeWorkflowConfig,
+  phaseDeadline,
+  planDeadline,
+  respondToOffer,
+  settlementSplit,
+  statusForPhase,
+  type DisputeParty,
+  type DisputePhase,
+  type DisputeWorkflowConfig,
+  type PhaseOutcome,
+  type SettlementOffer,
+} from './disputeWorkflowRules.js';
+
+const CONFIG_MODULE_ID = 'dispute:workflow';
+
+const RESOLVED_STATUS: Record<ResolutionType, DisputeStatus> = {
+  full_release: 'resolved_released',
+  full_refund: 'resolved_refunded',
+  partial_refund: 'resolved_partial',
+  no_action: 'resolved_released',
+};
+
+export interface ResolveDisputeInput {
+  resolutionType: ResolutionType;
+  resolution: string;
+  refundAmount?: number | null;
+  actorId: string | null;
+  actorRole: 'admin' | 'system';
+  outcome?: Extract<PhaseOutcome, 'resolved' | 'settled' | 'default_outcome'>;
+}
+
+interface ResolutionEffects {
+  contract: Contract;
+  payment: Payment | null;
+  resolutionType: ResolutionType;
+  resolution: string;
+  refundAmount: number | null;
+}
+
+interface PhaseChange {
+  outcome: PhaseOutcome;
+  actorId?: string | null;
+  note?: string;
+}
+
+class DisputeWorkflowService {
+  async getConfig(): Promise<DisputeWorkflowConfig> {
+    const row = await ModuleConfig.findByPk(CONFIG_MODULE_ID);
+    return normalizeWorkflowConfig(row?.config as Partial<DisputeWorkflowConfig> | undefined);
+  }
+
+  async updateConfig(input: Partial<DisputeWorkflowConfig>): Promise<DisputeWorkflowConfig> {
+    const config = normalizeWorkflowConfig(input);
+    await ModuleConfig.upsert({
+      moduleId: CONFIG_MODULE_ID,
+      category: 'dispute',
+      name: 'Workflow de disputas',
+      description: 'Plazos por fase y acción al vencer (avanzar, escalar o resultado por defecto)',
+      isActive: true,
+      config,
+    });
+    return config;
+  }
+
+  partyOf(dispute: Dispute, userId: string): DisputeParty | null {
+    if (dispute.initiatedBy === userId) return 'initiator';
+    if (dispute.against === userId) return 'defendant';
+    return null;
+  }
+
+  pendingOffer(dispute: Dispute): SettlementOffer | null {
+    return (dispute.settlementOffers || []).find((offer) => offer.status === 'pending') || null;
+  }
+
+  /**
+   * Estado del workflow para la UI: fase, vencimiento, quién debe actuar,
+   * propuesta vigente y la línea de tiempo completa.
+   */
+  describe(dispute: Dispute) {
+    const phase = (dispute.workflowPhase || null) as DisputePhase | null;
+    const pendingOffer = this.pendingOffer(dispute);
+    return {
+      phase,
+      phaseLabel: phase ? PHASE_LABELS[phase] : null,
+      phaseDeadline: dispute.phaseDeadline || null,
+      escalated: !!dispute.escalatedAt && !dispute.phaseDeadline && phase !== 'closed',
+      awaiting: phase ? awaitingParties(phase, { evidenceClosedBy: dispute.evidenceClosedBy, pendingOffer }) : [],
+      pendingOffer,
+      timeline: buildDisputeTimeline({
+        createdAt: dispute.createdAt as Date,
+        phaseHistory: dispute.phaseHistory,
+        settlementOffers: dispute.settlementOffers,
+        resolvedAt: dispute.resolvedAt,
+        resolutionType: dispute.resolutionType,
+      }),
+    };
+  }
+
+  /**
+   * Ubica una disputa recién creada en la primera fase del workflow.
+   */
+  async start(dispute: Dispute, actorId: string): Promise<void> {
+    if (dispute.workflowPhase) return;
+    const config = await this.getConfig();
+    this.enterPhase(dispute, 'filing', config, new Date(), { outcome: 'completed', actorId });
+    await dispute.save();
+    await this.notifyPhase(dispute);
+  }
+
+  // ============================================
+  // Acciones de las partes
+  // ============================================
+
+  /**
+   * El iniciador da por completo su reclamo antes de que venza el plazo.
+   */
+  async submitFiling(disputeId: string, userId: string): Promise<Dispute> {
+    return this.act(disputeId, async (dispute, config, transaction) => {
+      this.requirePhase(dispute, 'filing');
+      if (this.partyOf(dispute, userId) !== 'initiator') {
+        throw new ErrorResponse('Solo quien abrió la disputa puede cerrar el reclamo', 403);
+      }
+      this.enterPhase(dispute, 'defendant_response', config, new Date(), { outcome: 'completed', actorId: userId });
+      await dispute.save({ transaction });
+    });
+  }
+
+  /**
+   * Respuesta formal de la otra parte; abre la ronda de pruebas.
+   */
+  async respond(disputeId: string, userId: string, response: string): Promise<Dispute> {
+    const text = (response || '').trim();
+    if (!text) throw new ErrorResponse('La respuesta es requerida', 400);
+    if (text.length > 2000) throw new ErrorResponse('La respuesta no puede exceder 2000 caracteres', 400);
+
+    return this.act(disputeId, async (dispute, config, transaction) => {
+      this.requirePhase(dispute, 'defendant_response');
+      if (this.partyOf(dispute, userId) !== 'defendant') {
+        throw new ErrorResponse('Solo la otra parte puede responder el reclamo', 403);
+      }
+      const now = new Date();
+      dispute.defendantResponse = text;
+      dispute.defendantRespondedAt = now;
+      this.enterPhase(dispute, 'evidence', config, now, { outcome: 'completed', actorId: userId });
+      await dispute.save({ transaction });
+    });
+  }
+
+  /**
+   * Una parte cierra su ronda de pruebas; cuando cierran las dos pasa al mediador.
+   */
+  async closeEvidence(disputeId: string, userId: string): Promise<Dispute> {
+    return this.act(disputeId, async (dispute, config, transaction) => {
+      this.requirePhase(dispute, 'evidence');
+      const party = this.partyOf(dispute, userId);
+      if (!party) throw new ErrorResponse('No eres parte de esta disputa', 403);
+      if (dispute.evidenceClosedBy.includes(party)) {
+        throw new ErrorResponse('Ya cerraste tu ronda de pruebas', 409);
+      }
+
+      dispute.evidenceClosedBy = [...dispute.evidenceClosedBy, party];
+      this.addLog(dispute, 'Ronda de pruebas cerrada', userId, party === 'initiator' ? 'Iniciador' : 'Otra parte');
+      if (dispute.evidenceClosedBy.length === 2) {
+        this.enterPhase(dispute, 'mediator_proposal', config, new Date(), { outcome: 'completed', actorId: userId });
+      }
+      await dispute.save({ transaction });
+    });
+  }
+
+  /**
+   * Una parte acepta o rechaza la propuesta vigente. Si aceptan las dos se
+   * ejecuta la resolución del acuerdo; un rechazo pasa a decisión final.
+   */
+  async respondToSettlement(
+    disputeId: string,
+    userId: string,
+    offerId: string,
+    accept: boolean,
+    reason?: string
+  ): Promise<Dispute> {
+    let resolution: ResolutionEffects | null = null;
+
+    const dispute = await this.act(disputeId, async (dispute, config, transaction) => {
+      this.requirePhase(dispute, 'mediator_proposal');
+      const party = this.partyOf(dispute, userId);
+      if (!party) throw new ErrorResponse('No eres parte de esta disputa', 403);
+
+      const offer = (dispute.settlementOffers || []).find((o) => o.id === offerId);
+      if (!offer) throw new ErrorResponse('Propuesta no encontrada', 404);
+
+      const now = new Date();
+      const updated = respondToOffer(offer, party, accept, now, reason);
+      dispute.settlementOffers = dispute.settlementOffers.map((o) => (o.id === offerId ? updated : o));
+      this.addLog(
+        dispute,
+        accept ? 'Acuerdo aceptado' : 'Acuerdo rechazado',
+        userId,
+        `${party === 'initiator' ? 'Iniciador' : 'Otra parte'}: ${describeOffer(updated)}${reason ? ` — ${reason}` : ''}`
+      );
+
+      if (updated.status === 'accepted') {
+        resolution = await this.applyResolution(dispute, {
+          resolutionType: updated.resolutionType,
+          refundAmount: updated.refundAmount,
+          resolution: `Acuerdo aceptado por ambas partes: ${describeOffer(updated)}${updated.note ? `. ${updated.note}` : ''}`,
+          actorId: null,
+          actorRole: 'system',
+          outcome: 'settled',
+        }, transaction);
+        return;
+      } else if (updated.status === 'rejected') {
+        this.enterPhase(dispute, 'final_decision', config, now, {
+          outcome: 'completed',
+          actorId: userId,
+          note: 'Propuesta rechazada',
+        });
+      }
+      await dispute.save({ transaction });
+    });
+
+    if (resolution) await this.afterResolution(dispute, resolution);
+    return dispute;
+  }
+
+  // ============================================
+  // Acciones del mediador
+  // ============================================
+
+  /**
+   * El mediador propone un acuerdo. Reemplaza la propuesta anterior si la
+   * había y reinicia el plazo de la fase con la ventana de aceptación.
+   */
+  async proposeSettlement(
+    disputeId: string,
+    adminId: string,
+    input: { resolutionType: ResolutionType; refundAmount?: number | null; note?: string }
+  ): Promise<Dispute> {
+    return this.act(disputeId, async (dispute, config, transaction) => {
+      if (dispute.workflowPhase !== 'evidence' && dispute.workflowPhase !== 'mediator_proposal') {
+        throw new ErrorResponse('Solo se puede proponer un acuerdo durante las pruebas o la mediación', 409);
+      }
+
+      const contract = await Contract.findByPk(dispute.contractId, { transaction });
+      if (!contract) throw new ErrorResponse('Contrato no encontrado', 404);
+      const total = await this.disputedAmount(dispute, contract, transaction);
+      const split = settlementSplit(input.resolutionType, total, input.refundAmount);
+
+      const now = new Date();
+      if (dispute.workflowPhase === 'evidence') {
+        this.enterPhase(dispute, 'mediator_proposal', config, now, {
+          outcome: 'forced',
+          actorId: adminId,
+          note: 'El mediador presentó una propuesta',
+        });
+      }
+
+      const expiresAt = new Date(now.getTime() + config.settlementWindowHours * 3600_000);
+      const offer: SettlementOffer = {
+        id: crypto.randomUUID(),
+        proposedBy: adminId,
+        resolutionType: input.resolutionType,
+        ...split,
+        note: input.note?.trim() || undefined,
+        createdAt: now,
+        expiresAt,
+        status: 'pending',
+        acceptedBy: {},
+      };
+
+      dispute.settlementOffers = [
+        ...(dispute.settlementOffers || []).map((o) => (o.status === 'pending' ? { ...o, status: 'superseded' as const } : o)),
+        offer,
+      ];
+      dispute.phaseDeadline = expiresAt;
+      dispute.set('escalatedAt', null);
+      this.updateCurrentPhase(dispute, { deadline: expiresAt });
+      this.addLog(dispute, 'Propuesta de acuerdo', adminId, describeOffer(offer));
+      await dispute.save({ transaction });
+    });
+  }
+
+  /**
+   * El admin fuerza el paso a la fase siguiente (por ejemplo tras una escalación).
+   */
+  async forceAdvance(disputeId: string, adminId: string, reason: string): Promise<Dispute> {
+    if (!reason?.trim()) throw new ErrorResponse('El motivo es requerido', 400);
+
+    return this.act(disputeId, async (dispute, config, transaction) => {
+      const phase = dispute.workflowPhase as DisputePhase | null;
+      if (!phase || phase === 'closed') {
+        throw new ErrorResponse('La disputa no está en el workflow', 409);
+      }
+      const to = nextPhase(phase);
+      if (to === 'closed') {
+        throw new ErrorResponse('La decisión final se toma resolviendo la disputa', 409);
+      }
+      this.expirePendingOffers(dispute);
+      this.enterPhase(dispute, to, config, new Date(), { outcome: 'forced', actorId: adminId, note: reason.trim() });
+      await dispute.save({ transaction });
+    });
+  }
+
+  // ============================================
+  // Resolución
+  // ============================================
+
+  /**
+   * Ejecuta una resolución: transición del contrato, estado del pago y de la
+   * disputa en una transacción; reembolso en MercadoPago, emails y socket después.
+   */
+  async resolve(disputeId: string, input: ResolveDisputeInput): Promise<Dispute> {
+    let resolution: ResolutionEffects | null = null;
+    const dispute = await sequelize.transaction(async (transaction) => {
+      const dispute = await this.loadForUpdate(disputeId, transaction);
+      resolution = await this.applyResolution(dispute, input, transaction);
+      return dispute;
+    });
+    await this.afterResolution(dispute, resolution!);
+    return dispute;
+  }
+
+  private async applyResolution(
+    dispute: Dispute,
+    input: ResolveDisputeInput,
+    transaction: Transaction
+  ): Promise<ResolutionEffects> {
+    const { resolutionType, resolution, actorId, actorRole } = input;
+    const refundAmount = resolutionType === 'partial_refund' ? Number(input.refundAmount) || 0 : null;
+
+    if (dispute.isResolved()) {
+      throw new ErrorResponse('La disputa ya fue resuelta', 409);
+    }
+
+    const contract = await Contract.findByPk(dispute.contractId, { transaction });
+    if (!contract) throw new ErrorResponse('Contrato no encontrado', 404);
+    const payment = dispute.paymentId ? await Payment.findByPk(dispute.paymentId, { transaction }) : null;
+
+    if (resolutionType === 'partial_refund') {
+      settlementSplit(resolutionType, await this.disputedAmount(dispute, contract, transaction), refundAmount);
+    }
+
+    const context = {
+      actorId,
+      actorRole,
+      reason: resolution,
+      metadata: { disputeId: dispute.id, resolutionType, refundAmount, outcome: input.outcome || 'resolved' },
+      transaction,
+    };
+    const now = new Date();
+
+    if (dispute.milestoneId) {
+      // Disputa parcial: solo se resuelve el hito congelado; el contrato y el pago siguen su curso
+      await milestoneEscrow.resolveDispute(dispute, resolutionType, refundAmount, { actorId, transaction });
+    } else {
+      switch (resolutionType) {
+        case 'full_release':
+          // Release payment to doer - restore to completed status (was disputed)
+          await transitionContract(contract, 'resolve_dispute', {
+            ...context,
+            to: 'completed',
+            patch: {
+              paymentStatus: 'released',
+              escrowStatus: 'released',
+              disputeStatus: 'resolved',
+              clientConfirmed: true,
+              doerConfirmed: true,
+            },
+          });
+          await payment?.update({ status: 'completed', escrowReleasedAt: now }, { transaction });
+          break;
+
+        case 'full_refund':
+          await transitionContract(contract, 'resolve_dispute', {
+            ...context,
+            to: 'cancelled',
+            patch: {
+              paymentStatus: 'refunded',
+              escrowStatus: 'refunded',
+              disputeStatus: 'resolved',
+            },
+          });
+          await payment?.update({ status: 'refunded', refundedAt: now }, { transaction });
+          break;
+
+        case 'partial_refund':
+          await transitionContract(contract, 'resolve_dispute', {
+            ...context,
+            to: 'completed',
+            patch: {
+              paymentStatus: 'partially_refunded',
+              escrowStatus: 'released', // Escrow se libera (parcialmente al doer, parcialmente reembolsado)
+              disputeStatus: 'resolved',
+            },
+            refundAmount: refundAmount || 0,
+          });
+          await payment?.update({ status: 'partially_refunded', refundedAt: now }, { transaction });
+          break;
+
+        case 'no_action':
+          // No changes to payment, but clear dispute status
+          await contract.update({ disputeStatus: 'resolved' }, { transaction });
+          break;
+      }
+    }
+
+    if (dispute.workflowPhase && dispute.workflowPhase !== 'closed') {
+      this.expirePendingOffers(dispute);
+      const config = await this.getConfig();
+      this.enterPhase(dispute, 'closed', config, now, {
+        outcome: input.outcome || 'resolved',
+        actorId,
+        note: resolution,
+      });
+    }
+
+    dispute.status = RESOLVED_STATUS[resolutionType];
+    dispute.resolution = resolution;
+    dispute.resolutionType = resolutionType;
+    dispute.resolvedAt = now;
+    dispute.resolvedBy = actorId || undefined;
+    dispute.refundAmount = refundAmount ?? undefined;
+    dispute.platformFeeRefunded = false; // Nunca se devuelve la comisión
+    this.addLog(dispute, 'Disputa resuelta', actorId || 'system', `Tipo: ${resolutionType}`);
+    await dispute.save({ transaction });
+
+    return { contract, payment, resolutionType, resolution, refundAmount };
+  }
+
+  private async afterResolution(dispute: Dispute, effects: ResolutionEffects): Promise<void> {
+    const { contract, payment, resolutionType, resolution, refundAmount } = effects;
+
+    // Reembolsos en MercadoPago (fuera de la transacción: no se pueden deshacer)
+    if (payment?.mercadopagoPaymentId) {
+      try {
+        if (resolutionType === 'full_refund' && dispute.milestoneId) {
+          // Disputa parcial: se devuelve solo el hito, no todo lo cobrado
+          await mercadopagoService.refundPayment(
+            payment.mercadopagoPaymentId,
+            'mercadopago',
+            await this.disputedAmount(dispute, contract)
+          );
+        } else if (resolutionType === 'full_refund') {
+          // Refund to client (minus platform fee)
+          const commission = (payment as any).commission || 0;
+          await mercadopagoService.refundPayment(
+            payment.mercadopagoPaymentId,
+            'mercadopago',
+            (payment.amountArs || 0) - commission
+          );
+        } else if (resolutionType === 'partial_refund' && refundAmount) {
+          await mercadopagoService.refundPayment(payment.mercadopagoPaymentId, 'mercadopago', refundAmount);
+        } else if (resolutionType === 'full_release') {
+          // Release escrow - MercadoPago handles this automatically
+          console.log(`✅ Escrow released for payment: ${payment.mercadopagoPaymentId}`);
+        }
+      } catch (error) {
+        console.error(`Error processing ${resolutionType} for dispute ${dispute.id}:`, error);
+      }
+    }
+
+    // Disputa de un hito: el reembolso no pasa por transitionContract, que es
+    // quien emite las notas de crédito del contrato entero
+    if (dispute.milestoneId && (resolutionType === 'full_refund' || resolutionType === 'partial_refund')) {
+      const disputed = await this.disputedAmount(dispute, contract);
+      await creditNotes.issueForRefund(contract.id, {
+        source: 'dispute',
+        reference: dispute.id,
+        amount: resolutionType === 'full_refund' ? disputed : Math.min(refundAmount || 0, disputed),
+        detail: resolution,
+      });
+    }
+
+    await emailService.sendDisputeResolvedEmail(contract.clientId, dispute.id.toString(), resolution, 0);
+    await emailService.sendDisputeResolvedEmail(contract.doerId, dispute.id.toString(), resolution, 0);
+
+    // Emit socket event to notify contract update
+    try {
+      const { Job } = await import('../models/sql/Job.model.js');
+      const { User } = await import('../models/sql/User.model.js');
+      const { getIO } = await import('./socket.js');
+      await contract.reload({
+        include: [
+          { model: User, as: 'client', attributes: ['id', 'name', 'email'] },
+          { model: User, as: 'doer', attributes: ['id', 'name', 'email'] },
+          { model: Job, as: 'job', attributes: ['id', 'title'] },
+        ],
+      });
+      getIO()?.to(`user:${contract.clientId}`).to(`user:${contract.doerId}`).emit('contract:updated', {
+        contract: contract.toJSON(),
+        action: 'dispute_resolved',
+        resolutionType,
+      });
+    } catch (error) {
+      console.error(`Error emitting dispute resolution for ${dispute.id}:`, error);
+    }
+  }
+
+  // ============================================
+  // Plazos
+  // ============================================
+
+  /**
+   * Aplica los plazos vencidos: avanza de fase, escala o ejecuta el
+   * resultado por defecto según la config. Devuelve cuántas disputas procesó.
+   */
+  async processDeadlines(now: Date = new Date()): Promise<{ processed: number; failed: number }> {
+    const due = await Dispute.findAll({
+      attributes: ['id'],
+      where: {
+        workflowPhase: { [Op.notIn]: ['closed'] },
+        phaseDeadline: { [Op.lte]: now },
+        status: { [Op.in]: ['open', 'in_review', 'awaiting_info'] },
+      },
+      order: [['phaseDeadline', 'ASC']],
+      limit: 200,
+    });
+
+    let processed = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      try {
+        await this.applyDeadline(id, now);
+        processed++;
+      } catch (error) {
+        failed++;
+        console.error(`[DisputeWorkflow] Error applying deadline for dispute ${id}:`, error);
+      }
+    }
+    return { processed, failed };
+  }
+
+  private async applyDeadline(disputeId: string, now: Date): Promise<void> {
+    let resolution: ResolutionEffects | null = null;
+
+    const dispute = await this.act(disputeId, async (dispute, config, transaction) => {
+      const contract = await Contract.findByPk(dispute.contractId, { attributes: ['id', 'clientId'], transaction });
+      const action = planDeadline(
+        {
+          phase: dispute.workflowPhase as DisputePhase | null,
+          phaseDeadline: dispute.phaseDeadline || null,
+          initiatorRole: contract?.clientId === dispute.initiatedBy ? 'client' : 'doer',
+          pendingOffer: this.pendingOffer(dispute),
+        },
+        config,
+        now
+      );
+
+      switch (action.type) {
+        case 'none':
+          return;
+        case 'advance':
+          this.expirePendingOffers(dispute, now);
+          this.enterPhase(dispute, action.to, config, now, { outcome: 'timeout', note: action.reason });
+          break;
+        case 'escalate':
+          // Sin nuevo plazo: queda a la espera de un admin, con prioridad urgente
+          dispute.escalatedAt = now;
+          dispute.phaseDeadline = null;
+          if (dispute.priority !== 'urgent') dispute.priority = 'urgent';
+          this.updateCurrentPhase(dispute, { escalatedAt: now, escalationReason: action.reason });
+          this.addLog(dispute, 'Disputa escalada', 'system', action.reason);
+          break;
+        case 'default_outcome':
+          resolution = await this.applyResolution(dispute, {
+            resolutionType: action.resolutionType,
+            resolution: `${action.reason}. Resultado por defecto a favor de quien abrió la disputa.`,
+            actorId: null,
+            actorRole: 'system',
+            outcome: 'default_outcome',
+          }, transaction);
+          return;
+      }
+      await dispute.save({ transaction });
+    });
+
+    if (resolution) await this.afterResolution(dispute, resolution);
+  }
+
+  // ============================================
+  // Internos
+  // ============================================
+
+  /**
+   * Lee la disputa con lock, aplica el cambio y notifica a quien tenga que
+   * actuar en la fase resultante si la fase cambió.
+   */
+  private async act(
+    disputeId: string,
+    fn: (dispute: Dispute, config: DisputeWorkflowConfig, transaction: Transaction) => Promise<void>
+  ): Promise<Dispute> {
+    const config = await this.getConfig();
+    let phaseBefore: string | null | undefined;
+    const dispute = await sequelize.transaction(async (transaction) => {
+      const dispute = await this.loadForUpdate(disputeId, transaction);
+      phaseBefore = dispute.workflowPhase;
+      await fn(dispute, config, transaction);
+      return dispute;
+    });
+
+    if (dispute.workflowPhase !== phaseBefore) {
+      await this.notifyPhase(dispute);
+    }
+    return dispute;
+  }
+
+  /**
+   * Monto en juego: el del hito en una disputa parcial, si no el del contrato.
+   */
+  private async disputedAmount(dispute: Dispute, contract: Contract, transaction?: Transaction): Promise<number> {
+    if (dispute.milestoneId) {
+      const milestone = await ContractMilestone.findByPk(dispute.milestoneId, { attributes: ['id', 'amount'], transaction });
+      if (milestone) return Number(milestone.amount) || 0;
+    }
+    return Number(contract.allocatedAmount || contract.price) || 0;
+  }
+
+  private async loadForUpdate(disputeId: string, transaction: Transaction): Promise<Dispute> {
+    const dispute = await Dispute.findByPk(disputeId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!dispute) throw new ErrorResponse('Disputa no encontrada', 404);
+    return dispute;
+  }
+
+  private requirePhase(dispute: Dispute, phase: DisputePhase): void {
+    if (dispute.isResolved()) throw new ErrorResponse('La disputa ya fue resuelta', 409);
+    if (dispute.workflowPhase !== phase) {
+      throw new ErrorResponse(
+        `La disputa no está en la fase "${PHASE_LABELS[phase]}"${dispute.workflowPhase ? ` (fase actual: ${PHASE_LABELS[dispute.workflowPhase as DisputePhase]})` : ''}`,
+        409
+      );
+    }
+  }
+
+  /**
+   * Cierra la fase actual del historial y abre la siguiente con su plazo.
+   * Sequelize no detecta mutaciones en JSONB: siempre se asignan arrays nuevos.
+   */
+  private enterPhase(
+    dispute: Dispute,
+    phase: DisputePhase,
+    config: DisputeWorkflowConfig,
+    now: Date,
+    change: PhaseChange
+  ): void {
+    const history = (dispute.phaseHistory || []).map((entry, index, all) =>
+      index === all.length - 1 && !entry.endedAt
+        ? { ...entry, endedAt: now, outcome: change.outcome, actorId: change.actorId ?? null, note: change.note }
+        : entry
+    );
+
+    const deadline = phaseDeadline(phase, now, config);
+    if (phase !== 'closed') {
+      history.push({ phase, startedAt: now, deadline });
+    }
+
+    dispute.phaseHistory = history;
+    dispute.workflowPhase = phase;
+    dispute.phaseDeadline = deadline;
+    if (phase === 'evidence') dispute.evidenceClosedBy = [];
+
+    const status = statusForPhase(phase);
+    if (status) dispute.status = status;
+
+    if (phase !== 'closed') {
+      this.addLog(dispute, `Fase: ${PHASE_LABELS[phase]}`, change.actorId || 'system', change.note);
+    }
+  }
+
+  private updateCurrentPhase(dispute: Dispute, patch: Record<string, unknown>): void {
+    const history = [...(dispute.phaseHistory || [])];
+    const last = history[history.length - 1];
+    if (last && !last.endedAt) history[history.length - 1] = { ...last, ...patch };
+    dispute.phaseHistory = history;
+  }
+
+  private expirePendingOffers(dispute: Dispute, now?: Date): void {
+    if (!(dispute.settlementOffers || []).some((o) => o.status === 'pending')) return;
+    dispute.settlementOffers = dispute.settlementOffers.map((o) =>
+      o.status === 'pending' ? { ...o, status: now ? 'expired' : 'superseded', respondedAt: now } : o
+    );
+  }
+
+  private addLog(dispute: Dispute, action: string, performedBy: string, details?: string): void {
+    dispute.logs = [...(dispute.logs || []), { action, performedBy, timestamp: new Date(), details }];
+  }
+
+  /**
+   * Avisa (in-app + push) a quien tiene que actuar en la fase actual.
+   */
+  private async notifyPhase(dispute: Dispute): Promise<void> {
+    const phase = dispute.workflowPhase as DisputePhase | null;
+    if (!phase || phase === 'closed') return;
+
+    const awaiting = awaitingParties(phase, {
+      evidenceClosedBy: dispute.evidenceClosedBy,
+      pendingOffer: this.pendingOffer(dispute),
+    });
+    const deadline = dispute.phaseDeadline
+      ? ` Plazo: ${new Date(dispute.phaseDeadline).toLocaleString('es-AR', { timeZone: 'America/Argentina/Buenos_Aires' })}.`
+      : '';
+
+    const messages: Record<Exclude<DisputePhase, 'closed'>, string> = {
+      filing: 'Completá tu reclamo y adjuntá las pruebas iniciales.',
+      defendant_response: 'Se abrió una disputa en tu contra y tenés que responder.',
+      evidence: 'Empezó la ronda de pruebas: subí tus archivos y cerrá tu ronda.',
+      mediator_proposal: 'El mediador propuso un acuerdo: podés aceptarlo o rechazarlo.',
+      final_decision: 'La disputa pasó a decisión final.',
+    };
+
+    const recipients = new Set<string>();
+    for (const who of awaiting) {
+      if (who === 'initiator') recipients.add(dispute.initiatedBy);
+      else if (who === 'defendant') recipients.add(dispute.against);
+      else if (dispute.assignedTo) recipients.add(dispute.assignedTo);
+    }
+
+    for (const userId of recipients) {
+      try {
+        const isMediator = userId === dispute.assignedTo && !this.partyOf(dispute, userId);
+        const actionUrl = isMediator ? `/admin/disputes/${dispute.id}` : `/disputes/${dispute.id}`;
+        const message = isMediator && phase === 'mediator_proposal'
+          ? 'Las pruebas están cerradas: presentá una propuesta de acuerdo.'
+          : messages[phase];
+        await Notification.create({
+          recipientId: userId,
+          type: 'alert',
+          category: 'contract',
+          title: `Disputa: ${PHASE_LABELS[phase]}`,
+          message: `${message}${deadline}`,
+          relatedModel: 'Dispute',
+          relatedId: dispute.id,
+          actionUrl,
+          actionText: 'Ver disputa',
+          data: { disputeId: dispute.id, phase },
+          sentVia: ['in_app', 'push'],
+        });
+        await fcmService.sendToUser({
+          userId,
+          title: `Disputa: ${PHASE_LABELS[phase]}`,
+          body: message,
+          data: { type: 'dispute', disputeId: dispute.id, phase },
+          clickAction: actionUrl,
+        });
+      } catch (error) {
+        console.error(`[DisputeWorkflow] Error notifying ${userId} for dispute ${dispute.id}:`, error);
+      }
+    }
+  }
+}
+
+export const disputeWorkflow = new DisputeWorkflowService();
+export default disputeWorkflow;
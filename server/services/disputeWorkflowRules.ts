@@ -0,0 +1,464 @@
+/**
+ * Dispute Workflow Rules
+ *
+ * Fases de una disputa y qué pasa cuando vence el plazo de cada una:
+ *
+ *   filing → defendant_response → evidence → mediator_proposal → final_decision → closed
+ *
+ * - filing: el iniciador completa el reclamo (puede cerrarlo antes del plazo)
+ * - defendant_response: la otra parte debe responder; si no lo hace, por
+ *   defecto la disputa se resuelve a favor del iniciador
+ * - evidence: ambas partes suben pruebas; termina cuando las dos cierran su
+ *   ronda o vence el plazo
+ * - mediator_proposal: el mediador ofrece un acuerdo que ambas partes pueden
+ *   aceptar desde la app (dispara el ResolutionType del acuerdo)
+ * - final_decision: un admin resuelve; si no lo hace se escala
+ *
+ * Los plazos y la acción al vencer (avanzar, escalar o resultado por defecto)
+ * son configurables desde admin y se guardan en module_configs
+ * ('dispute:workflow').
+ *
+ * Módulo puro; la persistencia y los efectos sobre contrato y pago están en
+ * disputeWorkflow.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import type { DisputeStatus, ResolutionType } from '../models/sql/Dispute.model.js';
+
+export const DISPUTE_PHASES = [
+  'filing',
+  'defendant_response',
+  'evidence',
+  'mediator_proposal',
+  'final_decision',
+] as const;
+
+export type DisputePhase = (typeof DISPUTE_PHASES)[number] | 'closed';
+
+export type DisputeParty = 'initiator' | 'defendant';
+
+export type PhaseTimeoutAction = 'advance' | 'escalate' | 'default_outcome';
+
+export interface PhaseConfig {
+  durationHours: number;
+  onTimeout: PhaseTimeoutAction;
+}
+
+export interface DisputeWorkflowConfig {
+  phases: Record<(typeof DISPUTE_PHASES)[number], PhaseConfig>;
+  // Horas que tienen las partes para aceptar una propuesta del mediador
+  settlementWindowHours: number;
+}
+
+export const DEFAULT_DISPUTE_WORKFLOW: DisputeWorkflowConfig = {
+  phases: {
+    filing: { durationHours: 24, onTimeout: 'advance' },
+    defendant_response: { durationHours: 72, onTimeout: 'default_outcome' },
+    evidence: { durationHours: 72, onTimeout: 'advance' },
+    mediator_proposal: { durationHours: 72, onTimeout: 'advance' },
+    final_decision: { durationHours: 120, onTimeout: 'escalate' },
+  },
+  settlementWindowHours: 72,
+};
+
+// Qué acciones tienen sentido al vencer cada fase
+export const ALLOWED_TIMEOUT_ACTIONS: Record<(typeof DISPUTE_PHASES)[number], readonly PhaseTimeoutAction[]> = {
+  filing: ['advance'],
+  defendant_response: ['default_outcome', 'advance', 'escalate'],
+  evidence: ['advance', 'escalate'],
+  mediator_proposal: ['advance', 'escalate'],
+  final_decision: ['escalate'],
+};
+
+export const PHASE_LABELS: Record<DisputePhase, string> = {
+  filing: 'Presentación del reclamo',
+  defendant_response: 'Respuesta de la otra parte',
+  evidence: 'Presentación de pruebas',
+  mediator_proposal: 'Propuesta del mediador',
+  final_decision: 'Decisión final',
+  closed: 'Cerrada',
+};
+
+const MAX_PHASE_HOURS = 30 * 24;
+
+const isWorkflowPhase = (phase: string): phase is (typeof DISPUTE_PHASES)[number] =>
+  (DISPUTE_PHASES as readonly string[]).includes(phase);
+
+/**
+ * Completa la config guardada con los valores por defecto y la valida.
+ * Tira 400 si un plazo o una acción no es válida para su fase.
+ */
+export function normalizeWorkflowConfig(input?: Partial<DisputeWorkflowConfig> | null): DisputeWorkflowConfig {
+  const hours = (value: unknown, field: string): number => {
+    const n = Number(value);
+    if (!Number.isFinite(n) || n < 1 || n > MAX_PHASE_HOURS) {
+      throw new ErrorResponse(`${field}: el plazo debe estar entre 1 y ${MAX_PHASE_HOURS} horas`, 400);
+    }
+    return Math.round(n);
+  };
+
+  const phases = {} as DisputeWorkflowConfig['phases'];
+  for (const phase of DISPUTE_PHASES) {
+    const base = DEFAULT_DISPUTE_WORKFLOW.phases[phase];
+    const given = input?.phases?.[phase] || {};
+    const onTimeout = (given as Partial<PhaseConfig>).onTimeout ?? base.onTimeout;
+    if (!ALLOWED_TIMEOUT_ACTIONS[phase].includes(onTimeout)) {
+      throw new ErrorResponse(`${PHASE_LABELS[phase]}: acción al vencer inválida (${onTimeout})`, 400);
+    }
+    phases[phase] = {
+      durationHours: hours((given as Partial<PhaseConfig>).durationHours ?? base.durationHours, PHASE_LABELS[phase]),
+      onTimeout,
+    };
+  }
+
+  return {
+    phases,
+    settlementWindowHours: hours(
+      input?.settlementWindowHours ?? DEFAULT_DISPUTE_WORKFLOW.settlementWindowHours,
+      'Plazo para aceptar el acuerdo'
+    ),
+  };
+}
+
+export function nextPhase(phase: DisputePhase): DisputePhase {
+  if (!isWorkflowPhase(phase)) return 'closed';
+  const index = DISPUTE_PHASES.indexOf(phase);
+  return DISPUTE_PHASES[index + 1] ?? 'closed';
+}
+
+export function phaseDeadline(phase: DisputePhase, from: Date, config: DisputeWorkflowConfig): Date | null {
+  if (!isWorkflowPhase(phase)) return null;
+  return new Date(from.getTime() + config.phases[phase].durationHours * 3600_000);
+}
+
+/**
+ * Estado visible de la disputa en cada fase: mientras se esperan respuestas o
+ * pruebas de las partes queda en awaiting_info, con el mediador en in_review.
+ */
+export function statusForPhase(phase: DisputePhase): DisputeStatus | null {
+  switch (phase) {
+    case 'filing':
+      return 'open';
+    case 'defendant_response':
+    case 'evidence':
+      return 'awaiting_info';
+    case 'mediator_proposal':
+    case 'final_decision':
+      return 'in_review';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Quién tiene que actuar en la fase actual (para mostrarlo y para saber a
+ * quién notificar).
+ */
+export function awaitingParties(
+  phase: DisputePhase,
+  state: { evidenceClosedBy?: DisputeParty[]; pendingOffer?: SettlementOffer | null } = {}
+): Array<DisputeParty | 'mediator'> {
+  switch (phase) {
+    case 'filing':
+      return ['initiator'];
+    case 'defendant_response':
+      return ['defendant'];
+    case 'evidence': {
+      const closed = state.evidenceClosedBy || [];
+      return (['initiator', 'defendant'] as DisputeParty[]).filter((party) => !closed.includes(party));
+    }
+    case 'mediator_proposal': {
+      const offer = state.pendingOffer;
+      if (!offer) return ['mediator'];
+      return (['initiator', 'defendant'] as DisputeParty[]).filter((party) => !offer.acceptedBy[party]);
+    }
+    case 'final_decision':
+      return ['mediator'];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Resultado por defecto cuando el demandado no responde: gana el iniciador.
+ * Si reclamó el cliente se le reembolsa; si reclamó el trabajador se le libera el pago.
+ */
+export function defaultOutcomeFor(initiatorRole: 'client' | 'doer'): ResolutionType {
+  return initiatorRole === 'client' ? 'full_refund' : 'full_release';
+}
+
+// ============================================
+// Settlement offers
+// ============================================
+
+export type SettlementOfferStatus = 'pending' | 'accepted' | 'rejected' | 'expired' | 'superseded';
+
+export interface SettlementOffer {
+  id: string;
+  proposedBy: string;
+  resolutionType: ResolutionType;
+  // Reembolso al cliente / liberación al trabajador (solo partial_refund los usa los dos)
+  refundAmount: number;
+  releaseAmount: number;
+  note?: string;
+  createdAt: Date | string;
+  expiresAt: Date | string;
+  status: SettlementOfferStatus;
+  acceptedBy: Partial<Record<DisputeParty, Date | string>>;
+  rejectedBy?: DisputeParty;
+  rejectionReason?: string;
+  respondedAt?: Date | string;
+}
+
+/**
+ * Reparto del monto en disputa según el tipo de resolución. Para
+ * partial_refund el reembolso tiene que ser mayor a 0 y menor al total.
+ */
+export function settlementSplit(
+  resolutionType: ResolutionType,
+  total: number,
+  refundAmount?: number | null
+): { refundAmount: number; releaseAmount: number } {
+  const amount = Math.round(Number(total) * 100) / 100;
+  switch (resolutionType) {
+    case 'full_release':
+      return { refundAmount: 0, releaseAmount: amount };
+    case 'full_refund':
+      return { refundAmount: amount, releaseAmount: 0 };
+    case 'no_action':
+      return { refundAmount: 0, releaseAmount: 0 };
+    case 'partial_refund': {
+      const refund = Math.round(Number(refundAmount) * 100) / 100;
+      if (!Number.isFinite(refund) || refund <= 0 || refund >= amount) {
+        throw new ErrorResponse(
+          `El reembolso parcial debe ser mayor a $0 y menor al total en disputa ($${amount.toLocaleString('es-AR')})`,
+          400
+        );
+      }
+      return { refundAmount: refund, releaseAmount: Math.round((amount - refund) * 100) / 100 };
+    }
+    default:
+      throw new ErrorResponse(`Tipo de resolución inválido: ${resolutionType}`, 400);
+  }
+}
+
+/**
+ * Aplica la respuesta de una parte a una propuesta. Devuelve la propuesta
+ * actualizada: `accepted` cuando aceptaron las dos, `rejected` con el primer rechazo.
+ */
+export function respondToOffer(
+  offer: SettlementOffer,
+  party: DisputeParty,
+  accept: boolean,
+  now: Date,
+  reason?: string
+): SettlementOffer {
+  if (offer.status !== 'pending') {
+    throw new ErrorResponse('Esta propuesta ya no está vigente', 409);
+  }
+  if (new Date(offer.expiresAt).getTime() <= now.getTime()) {
+    throw new ErrorResponse('El plazo para responder a esta propuesta venció', 409);
+  }
+  if (offer.acceptedBy[party]) {
+    throw new ErrorResponse('Ya aceptaste esta propuesta', 409);
+  }
+
+  if (!accept) {
+    return { ...offer, status: 'rejected', rejectedBy: party, rejectionReason: reason, respondedAt: now };
+  }
+
+  const acceptedBy = { ...offer.acceptedBy, [party]: now };
+  const both = !!acceptedBy.initiator && !!acceptedBy.defendant;
+  return { ...offer, acceptedBy, status: both ? 'accepted' : 'pending', respondedAt: both ? now : offer.respondedAt };
+}
+
+// ============================================
+// Deadlines
+// ============================================
+
+export interface WorkflowSnapshot {
+  phase: DisputePhase | null;
+  phaseDeadline: Date | string | null;
+  initiatorRole: 'client' | 'doer';
+  pendingOffer?: SettlementOffer | null;
+}
+
+export type DeadlineAction =
+  | { type: 'none' }
+  | { type: 'advance'; to: DisputePhase; reason: string }
+  | { type: 'escalate'; reason: string }
+  | { type: 'default_outcome'; resolutionType: ResolutionType; reason: string };
+
+/**
+ * Qué hacer con una disputa cuyo plazo de fase puede haber vencido.
+ * Si en mediator_proposal el mediador no llegó a proponer nada se escala
+ * siempre: el atraso es de la plataforma, no de las partes.
+ */
+export function planDeadline(
+  snapshot: WorkflowSnapshot,
+  config: DisputeWorkflowConfig,
+  now: Date
+): DeadlineAction {
+  const { phase } = snapshot;
+  if (!phase || !isWorkflowPhase(phase) || !snapshot.phaseDeadline) return { type: 'none' };
+  if (new Date(snapshot.phaseDeadline).getTime() > now.getTime()) return { type: 'none' };
+
+  if (phase === 'mediator_proposal' && !snapshot.pendingOffer) {
+    return { type: 'escalate', reason: 'El mediador no presentó una propuesta dentro del plazo' };
+  }
+
+  const reasons: Record<(typeof DISPUTE_PHASES)[number], string> = {
+    filing: 'Venció el plazo para completar el reclamo',
+    defendant_response: 'La otra parte no respondió dentro del plazo',
+    evidence: 'Venció el plazo para presentar pruebas',
+    mediator_proposal: 'Las partes no aceptaron la propuesta dentro del plazo',
+    final_decision: 'No hubo decisión final dentro del plazo',
+  };
+  const reason = reasons[phase];
+
+  switch (config.phases[phase].onTimeout) {
+    case 'default_outcome':
+      return { type: 'default_outcome', resolutionType: defaultOutcomeFor(snapshot.initiatorRole), reason };
+    case 'escalate':
+      return { type: 'escalate', reason };
+    default:
+      return { type: 'advance', to: nextPhase(phase), reason };
+  }
+}
+
+// ============================================
+// Timeline
+// ============================================
+
+export type PhaseOutcome = 'completed' | 'timeout' | 'default_outcome' | 'settled' | 'resolved' | 'forced';
+
+export interface PhaseHistoryEntry {
+  phase: DisputePhase;
+  startedAt: Date | string;
+  deadline: Date | string | null;
+  endedAt?: Date | string;
+  outcome?: PhaseOutcome;
+  escalatedAt?: Date | string;
+  escalationReason?: string;
+  actorId?: string | null;
+  note?: string;
+}
+
+export interface TimelineEvent {
+  at: string;
+  kind: 'phase_started' | 'phase_ended' | 'escalated' | 'offer_made' | 'offer_accepted' | 'offer_rejected' | 'offer_expired' | 'resolved';
+  phase?: DisputePhase;
+  title: string;
+  detail?: string;
+  actorId?: string | null;
+  deadline?: string | null;
+}
+
+const OUTCOME_LABELS: Record<PhaseOutcome, string> = {
+  completed: 'completada',
+  timeout: 'plazo vencido',
+  default_outcome: 'resuelta por falta de respuesta',
+  settled: 'acuerdo aceptado',
+  resolved: 'resuelta por un admin',
+  forced: 'avanzada por un admin',
+};
+
+const RESOLUTION_LABELS: Record<ResolutionType, string> = {
+  full_release: 'Pago liberado al trabajador',
+  full_refund: 'Reembolso total al cliente',
+  partial_refund: 'Reembolso parcial',
+  no_action: 'Sin movimiento de fondos',
+};
+
+export function describeOffer(offer: Pick<SettlementOffer, 'resolutionType' | 'refundAmount' | 'releaseAmount'>): string {
+  const label = RESOLUTION_LABELS[offer.resolutionType] || offer.resolutionType;
+  if (offer.resolutionType !== 'partial_refund') return label;
+  return `${label}: $${offer.refundAmount.toLocaleString('es-AR')} al cliente y $${offer.releaseAmount.toLocaleString('es-AR')} al trabajador`;
+}
+
+const iso = (value: Date | string) => new Date(value).toISOString();
+
+/**
+ * Línea de tiempo de la disputa a partir del historial de fases y las
+ * propuestas del mediador, ordenada cronológicamente.
+ */
+export function buildDisputeTimeline(dispute: {
+  createdAt: Date | string;
+  phaseHistory?: PhaseHistoryEntry[] | null;
+  settlementOffers?: SettlementOffer[] | null;
+  resolvedAt?: Date | string | null;
+  resolutionType?: ResolutionType | null;
+}): TimelineEvent[] {
+  const events: TimelineEvent[] = [];
+
+  for (const entry of dispute.phaseHistory || []) {
+    if (entry.phase === 'closed') continue;
+    events.push({
+      at: iso(entry.startedAt),
+      kind: 'phase_started',
+      phase: entry.phase,
+      title: PHASE_LABELS[entry.phase],
+      deadline: entry.deadline ? iso(entry.deadline) : null,
+    });
+    if (entry.escalatedAt) {
+      events.push({
+        at: iso(entry.escalatedAt),
+        kind: 'escalated',
+        phase: entry.phase,
+        title: 'Caso escalado',
+        detail: entry.escalationReason,
+      });
+    }
+    if (entry.endedAt && entry.outcome) {
+      events.push({
+        at: iso(entry.endedAt),
+        kind: 'phase_ended',
+        phase: entry.phase,
+        title: `${PHASE_LABELS[entry.phase]}: ${OUTCOME_LABELS[entry.outcome]}`,
+        detail: entry.note,
+        actorId: entry.actorId ?? null,
+      });
+    }
+  }
+
+  for (const offer of dispute.settlementOffers || []) {
+    events.push({
+      at: iso(offer.createdAt),
+      kind: 'offer_made',
+      phase: 'mediator_proposal',
+      title: 'Propuesta de acuerdo',
+      detail: [describeOffer(offer), offer.note].filter(Boolean).join(' — '),
+      actorId: offer.proposedBy,
+      deadline: iso(offer.expiresAt),
+    });
+    if (offer.status === 'accepted' && offer.respondedAt) {
+      events.push({ at: iso(offer.respondedAt), kind: 'offer_accepted', phase: 'mediator_proposal', title: 'Ambas partes aceptaron el acuerdo' });
+    } else if (offer.status === 'rejected' && offer.respondedAt) {
+      events.push({
+        at: iso(offer.respondedAt),
+        kind: 'offer_rejected',
+        phase: 'mediator_proposal',
+        title: offer.rejectedBy === 'initiator' ? 'El iniciador rechazó el acuerdo' : 'La otra parte rechazó el acuerdo',
+        detail: offer.rejectionReason,
+      });
+    } else if (offer.status === 'expired') {
+      events.push({ at: iso(offer.expiresAt), kind: 'offer_expired', phase: 'mediator_proposal', title: 'La propuesta venció sin ser aceptada' });
+    }
+  }
+
+  if (dispute.resolvedAt) {
+    events.push({
+      at: iso(dispute.resolvedAt),
+      kind: 'resolved',
+      phase: 'closed',
+      title: 'Disputa resuelta',
+      detail: dispute.resolutionType ? RESOLUTION_LABELS[dispute.resolutionType] : undefined,
+    });
+  }
+
+  // Orden estable: a igual fecha se respeta el orden de inserción
+  return events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.at.localeCompare(b.event.at) || a.index - b.index)
+    .map(({ event }) => event);
+}
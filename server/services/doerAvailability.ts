@@ -0,0 +1,264 @@
+/**
+ * Doer Availability Service
+ *
+ * Agenda del Doer y conflictos de reserva (reglas en availabilityRules.ts):
+ *
+ * - checkBooking(): conflictos de un trabajo con los contratos activos del
+ *   Doer, su calendario externo y sus bloqueos. Lo usan la postulación
+ *   (POST /api/proposals) y la aprobación (PUT /api/proposals/:id/approve)
+ * - freeBusyFor(): libre/ocupado de un Doer para los clientes (si publica su
+ *   disponibilidad)
+ * - updateSchedule() / setExternalCalendar() / syncNow(): configuración del
+ *   propio Doer
+ * - syncExternalCalendar() / syncAll(): importa los bloques ocupados del .ics
+ *   externo (cron horario)
+ */
+
+import { lookup } from 'dns/promises';
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { ExternalBusyBlock } from '../models/sql/ExternalBusyBlock.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { User } from '../models/sql/User.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import {
+  EXTERNAL_SYNC_DAYS,
+  EXTERNAL_SYNC_PAST_DAYS,
+  MAX_TRAVEL_BUFFER_MINUTES,
+  bookingWindow,
+  findBookingConflicts,
+  freeBusy,
+  isPrivateAddress,
+  parseAvailabilitySchedule,
+  parseExternalCalendarUrl,
+  parseIcsBusyBlocks,
+  type BookingCandidate,
+  type BookingCheck,
+  type BusyBlock,
+  type FreeBusy,
+  type Interval,
+} from './availabilityRules.js';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+const FETCH_TIMEOUT_MS = 10000;
+const MAX_ICS_BYTES = 2 * 1024 * 1024;
+
+// Contratos que ocupan la agenda del Doer (igual que en las recomendaciones)
+const ACTIVE_CONTRACT_STATUSES = ['pending', 'ready', 'accepted', 'in_progress', 'awaiting_confirmation'];
+
+const AVAILABILITY_ATTRIBUTES = [
+  'id', 'availabilitySchedule', 'isAvailabilityPublic',
+  'externalCalendarUrl', 'externalCalendarSyncedAt', 'externalCalendarError',
+];
+
+class DoerAvailabilityService {
+  /**
+   * Contratos activos y bloques externos del Doer que tocan el rango.
+   * `excludeJobId` deja afuera los contratos del trabajo que se está reservando.
+   */
+  async busyFor(doerId: string, range: Interval, options: { excludeJobId?: string } = {}): Promise<BusyBlock[]> {
+    const [contracts, external] = await Promise.all([
+      Contract.findAll({
+        where: {
+          doerId,
+          status: { [Op.in]: ACTIVE_CONTRACT_STATUSES },
+          startDate: { [Op.lt]: range.endsAt },
+          endDate: { [Op.gt]: range.startsAt },
+          ...(options.excludeJobId ? { jobId: { [Op.ne]: options.excludeJobId } } : {}),
+        },
+        attributes: ['id', 'jobId', 'startDate', 'endDate'],
+        include: [{
+          model: Job,
+          as: 'job',
+          attributes: ['id', 'title', 'category', 'location', 'neighborhood', 'latitude', 'longitude', 'remoteOk'],
+        }],
+      }),
+      ExternalBusyBlock.findAll({
+        where: { userId: doerId, startsAt: { [Op.lt]: range.endsAt }, endsAt: { [Op.gt]: range.startsAt } },
+        attributes: ['startsAt', 'endsAt'],
+      }),
+    ]);
+
+    return [
+      ...contracts.map((contract) => {
+        const job = contract.job as Job | undefined;
+        return {
+          kind: 'contract' as const,
+          startsAt: new Date(contract.startDate),
+          endsAt: new Date(contract.endDate),
+          contractId: contract.id,
+          jobId: contract.jobId,
+          title: job?.title,
+          category: job?.category,
+          location: job?.location,
+          neighborhood: job?.neighborhood,
+          latitude: job?.latitude,
+          longitude: job?.longitude,
+          remoteOk: job?.remoteOk,
+        };
+      }),
+      ...external.map((block) => ({ kind: 'external' as const, startsAt: block.startsAt, endsAt: block.endsAt })),
+    ];
+  }
+
+  /** Conflictos de reservar al Doer para el trabajo. */
+  async checkBooking(doerId: string, job: BookingCandidate & { id?: string }): Promise<BookingCheck> {
+    const doer = await User.findByPk(doerId, { attributes: ['id', 'availabilitySchedule'] });
+    const schedule = doer?.availabilitySchedule ?? null;
+    const window = bookingWindow(job, schedule?.timezone);
+    // El margen de traslado puede alcanzar contratos que empiezan o terminan fuera del trabajo
+    const padding = MAX_TRAVEL_BUFFER_MINUTES * MINUTE_MS;
+    const busy = await this.busyFor(doerId, {
+      startsAt: new Date(window.startsAt.getTime() - padding),
+      endsAt: new Date(window.endsAt.getTime() + padding),
+    }, { excludeJobId: job.id });
+    return findBookingConflicts(job, busy, schedule);
+  }
+
+  /**
+   * Libre/ocupado del Doer. Otros usuarios solo lo ven si el Doer publica
+   * su disponibilidad (isAvailabilityPublic).
+   */
+  async freeBusyFor(doerId: string, viewerId: string, range: Interval): Promise<FreeBusy & { timezone: string }> {
+    const doer = await User.findByPk(doerId, { attributes: AVAILABILITY_ATTRIBUTES });
+    if (!doer) throw new ErrorResponse('Usuario no encontrado', 404);
+    if (doer.id !== viewerId && !doer.isAvailabilityPublic) {
+      throw new ErrorResponse('Este usuario no publica su disponibilidad', 403);
+    }
+    const busy = await this.busyFor(doer.id, range);
+    return {
+      timezone: doer.availabilitySchedule?.timezone || 'America/Argentina/Buenos_Aires',
+      ...freeBusy(doer.availabilitySchedule, busy, range),
+    };
+  }
+
+  async getSettings(userId: string) {
+    const user = await User.findByPk(userId, { attributes: AVAILABILITY_ATTRIBUTES });
+    if (!user) throw new ErrorResponse('Usuario no encontrado', 404);
+    return {
+      availabilitySchedule: user.availabilitySchedule ?? { timezone: 'America/Argentina/Buenos_Aires', slots: [], exceptions: [], blackouts: [] },
+      isAvailabilityPublic: user.isAvailabilityPublic,
+      externalCalendar: {
+        url: user.externalCalendarUrl ?? null,
+        syncedAt: user.externalCalendarSyncedAt ?? null,
+        error: user.externalCalendarError ?? null,
+      },
+    };
+  }
+
+  async updateSchedule(userId: string, body: Record<string, any>) {
+    const user = await User.findByPk(userId, { attributes: AVAILABILITY_ATTRIBUTES });
+    if (!user) throw new ErrorResponse('Usuario no encontrado', 404);
+    const updates: Record<string, unknown> = {};
+    if (body.availabilitySchedule !== undefined) updates.availabilitySchedule = parseAvailabilitySchedule(body.availabilitySchedule);
+    if (body.isAvailabilityPublic !== undefined) updates.isAvailabilityPublic = body.isAvailabilityPublic === true;
+    await user.update(updates);
+    return this.getSettings(userId);
+  }
+
+  /** Guarda (o quita, con null) el calendario externo y lo sincroniza en el momento. */
+  async setExternalCalendar(userId: string, value: unknown) {
+    const url = parseExternalCalendarUrl(value);
+    const user = await User.findByPk(userId, { attributes: AVAILABILITY_ATTRIBUTES });
+    if (!user) throw new ErrorResponse('Usuario no encontrado', 404);
+
+    if (!url) {
+      await sequelize.transaction(async (transaction) => {
+        await ExternalBusyBlock.destroy({ where: { userId }, transaction });
+        await user.update({ externalCalendarUrl: null, externalCalendarSyncedAt: null, externalCalendarError: null }, { transaction });
+      });
+      return this.getSettings(userId);
+    }
+
+    await user.update({ externalCalendarUrl: url, externalCalendarError: null });
+    await this.syncExternalCalendar(user);
+    return this.getSettings(userId);
+  }
+
+  /** Sincroniza en el momento el calendario externo del usuario. */
+  async syncNow(userId: string) {
+    const user = await User.findByPk(userId, { attributes: AVAILABILITY_ATTRIBUTES });
+    if (!user) throw new ErrorResponse('Usuario no encontrado', 404);
+    if (!user.externalCalendarUrl) throw new ErrorResponse('No tenés un calendario externo conectado', 400);
+    await this.syncExternalCalendar(user);
+    return this.getSettings(userId);
+  }
+
+  /**
+   * Descarga el .ics y reemplaza los bloques del usuario. Un error queda en
+   * externalCalendarError y se devuelve false; los bloques anteriores se
+   * conservan hasta la próxima sincronización exitosa.
+   */
+  async syncExternalCalendar(user: User, now = new Date()): Promise<boolean> {
+    if (!user.externalCalendarUrl) return false;
+    try {
+      const text = await this.fetchCalendar(user.externalCalendarUrl);
+      const range = {
+        startsAt: new Date(now.getTime() - EXTERNAL_SYNC_PAST_DAYS * DAY_MS),
+        endsAt: new Date(now.getTime() + EXTERNAL_SYNC_DAYS * DAY_MS),
+      };
+      const blocks = parseIcsBusyBlocks(text, range, user.availabilitySchedule?.timezone);
+      // UIDs repetidos en el .ics (p. ej. excepciones de un evento recurrente): queda el último
+      const byUid = new Map(blocks.map((block) => [block.uid.slice(0, 500), block]));
+
+      await sequelize.transaction(async (transaction) => {
+        await ExternalBusyBlock.destroy({ where: { userId: user.id }, transaction });
+        if (byUid.size > 0) {
+          await ExternalBusyBlock.bulkCreate(
+            [...byUid].map(([uid, block]) => ({ userId: user.id, uid, startsAt: block.startsAt, endsAt: block.endsAt })),
+            { transaction }
+          );
+        }
+        await user.update({ externalCalendarSyncedAt: now, externalCalendarError: null }, { transaction });
+      });
+      return true;
+    } catch (error) {
+      const message = error instanceof ErrorResponse ? error.message : `No se pudo leer el calendario: ${(error as Error).message}`;
+      await user.update({ externalCalendarError: message.slice(0, 500) });
+      return false;
+    }
+  }
+
+  /** Sincroniza todos los calendarios externos (cron). */
+  async syncAll(now = new Date()): Promise<{ processed: number; failed: number }> {
+    const users = await User.findAll({
+      where: { externalCalendarUrl: { [Op.ne]: null } },
+      attributes: AVAILABILITY_ATTRIBUTES,
+    });
+    let processed = 0;
+    let failed = 0;
+    for (const user of users) {
+      if (await this.syncExternalCalendar(user, now)) processed++;
+      else failed++;
+    }
+    return { processed, failed };
+  }
+
+  /** GET del .ics con timeout, tamaño máximo y sin hosts de red interna. */
+  private async fetchCalendar(url: string): Promise<string> {
+    const { hostname } = new URL(url);
+    const addresses = await lookup(hostname.replace(/^\[|\]$/g, ''), { all: true });
+    if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+      throw new ErrorResponse('La URL del calendario debe ser pública', 400);
+    }
+
+    const response = await fetch(url, {
+      headers: { Accept: 'text/calendar, text/plain;q=0.9' },
+      redirect: 'error',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS),
+    });
+    if (!response.ok) throw new ErrorResponse(`El calendario respondió ${response.status}`, 400);
+    if (Number(response.headers.get('content-length') || 0) > MAX_ICS_BYTES) {
+      throw new ErrorResponse('El calendario es demasiado grande', 400);
+    }
+    const text = await response.text();
+    if (text.length > MAX_ICS_BYTES) throw new ErrorResponse('El calendario es demasiado grande', 400);
+    if (!text.includes('BEGIN:VCALENDAR')) throw new ErrorResponse('La URL no devuelve un calendario .ics', 400);
+    return text;
+  }
+}
+
+const doerAvailability = new DoerAvailabilityService();
+export default doerAvailability;
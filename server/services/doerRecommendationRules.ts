@@ -0,0 +1,319 @@
+/**
+ * Doer Recommendation Rules
+ *
+ * Puntaje de afinidad entre un doer y un trabajo abierto (0-100), usado en
+ * los dos sentidos: doers recomendados para un trabajo y trabajos
+ * recomendados para un doer.
+ *
+ * Factores y puntaje máximo de cada uno:
+ * - category      historial de contratos en la categoría (o interés declarado)
+ * - ratings       calificaciones por dimensión, ponderadas por cantidad de reseñas
+ * - trust         trustScore del usuario
+ * - verification  nivel de verificación de identidad
+ * - distance      distancia entre el trabajo y la zona habitual del doer
+ * - availability  agenda semanal/excepciones y contratos que se superponen
+ *
+ * Cada factor que suma devuelve una explicación legible para mostrar por qué
+ * se sugirió el match. Un contrato activo que se superpone con el trabajo (y
+ * cuya categoría no permite superposición) marca el match como `conflict`.
+ *
+ * Módulo puro; la carga de datos está en doerRecommendations.ts.
+ */
+
+import { canJobsOverlap, getCategoryById, getCategoryType } from '../constants/categories.js';
+import { normalizeLocation } from '../utils/fullTextSearch.js';
+import { haversineKm, isValidCoordinate } from '../utils/geo.js';
+import type { AvailabilitySchedule } from '../models/sql/User.model.js';
+
+export const RECOMMENDATION_WEIGHTS = {
+  category: 30,
+  ratings: 25,
+  trust: 15,
+  verification: 10,
+  distance: 10,
+  availability: 10,
+} as const;
+
+export type RecommendationFactor = keyof typeof RECOMMENDATION_WEIGHTS;
+
+// Factores que dependen del trabajo: los únicos que ordenan el feed de un doer
+export const JOB_FEED_FACTORS: RecommendationFactor[] = ['category', 'distance', 'availability'];
+
+// Contratos en la categoría con los que el historial da el puntaje completo
+export const CATEGORY_HISTORY_CAP = 5;
+// Reseñas a partir de las cuales las calificaciones cuentan completas
+export const REVIEWS_FOR_FULL_CONFIDENCE = 5;
+// Hasta esta distancia el factor es completo; desde MAX_DISTANCE_KM vale 0
+export const NEAR_DISTANCE_KM = 5;
+export const MAX_DISTANCE_KM = 50;
+
+export const DEFAULT_TIMEZONE = 'America/Argentina/Buenos_Aires';
+
+const VERIFICATION_SCORES: Record<string, number> = {
+  none: 0,
+  email: 0.25,
+  phone: 0.5,
+  document: 0.8,
+  full: 1,
+};
+
+const VERIFICATION_LABELS: Record<string, string> = {
+  email: 'Email verificado',
+  phone: 'Teléfono verificado',
+  document: 'Identidad verificada con documento',
+  full: 'Verificación completa',
+};
+
+const SUB_RATINGS = [
+  { field: 'calidadTrabajoRating', label: 'calidad del trabajo' },
+  { field: 'puntualidadRating', label: 'puntualidad' },
+  { field: 'profesionalidadRating', label: 'profesionalidad' },
+  { field: 'precioJustoRating', label: 'precio justo' },
+  { field: 'presencialidadRating', label: 'presencialidad' },
+  { field: 'comoPersonaRating', label: 'trato' },
+] as const;
+
+type NumericLike = number | string | null | undefined;
+
+export interface RecommendationJob {
+  category: string;
+  location?: string | null;
+  latitude?: NumericLike;
+  longitude?: NumericLike;
+  remoteOk?: boolean | null;
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  endDateFlexible?: boolean | null;
+}
+
+export interface RecommendationDoer {
+  rating?: NumericLike;
+  reviewsCount?: number | null;
+  calidadTrabajoRating?: NumericLike;
+  puntualidadRating?: NumericLike;
+  profesionalidadRating?: NumericLike;
+  precioJustoRating?: NumericLike;
+  presencialidadRating?: NumericLike;
+  comoPersonaRating?: NumericLike;
+  trustScore?: number | null;
+  verificationLevel?: string | null;
+  interests?: string[] | null;
+  address?: { city?: string; state?: string } | null;
+  availabilitySchedule?: AvailabilitySchedule | null;
+}
+
+export interface BusyPeriod {
+  startDate: Date | string;
+  endDate?: Date | string | null;
+  category: string;
+  title?: string;
+}
+
+/**
+ * Datos del doer que no están en el usuario: historial por categoría, zona
+ * habitual (centro de los trabajos que hizo) y contratos activos
+ */
+export interface RecommendationContext {
+  categoryContracts?: number;
+  baseLocation?: { latitude: number; longitude: number } | null;
+  busy?: BusyPeriod[];
+}
+
+export interface RecommendationExplanation {
+  factor: RecommendationFactor;
+  points: number;
+  message: string;
+}
+
+export interface RecommendationScore {
+  score: number;
+  breakdown: Record<RecommendationFactor, number>;
+  explanations: RecommendationExplanation[];
+  distanceKm: number | null;
+  available: boolean | null;
+  conflict: boolean;
+}
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+const num = (value: NumericLike): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+};
+
+/**
+ * Día de la semana (0=Domingo), fecha YYYY-MM-DD y hora HH:mm de un instante
+ * en la zona horaria de la agenda
+ */
+export function localDateParts(date: Date, timeZone = DEFAULT_TIMEZONE): { day: number; date: string; time: string } {
+  let parts: Intl.DateTimeFormatPart[];
+  try {
+    parts = new Intl.DateTimeFormat('en-US', {
+      timeZone, weekday: 'short', year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', hourCycle: 'h23',
+    }).formatToParts(date);
+  } catch {
+    // Zona horaria inválida en la agenda: se usa la de la plataforma
+    return localDateParts(date, DEFAULT_TIMEZONE);
+  }
+  const get = (type: string) => parts.find((p) => p.type === type)?.value || '';
+  const days = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+  return {
+    day: days.indexOf(get('weekday')),
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    time: `${get('hour')}:${get('minute')}`,
+  };
+}
+
+/**
+ * ¿La agenda del doer lo tiene disponible al inicio del trabajo?
+ * true = dentro de un horario, 'day' = trabaja ese día pero en otro horario,
+ * false = no trabaja ese día o marcó la fecha como no disponible,
+ * null = no publicó agenda
+ */
+export function scheduleAvailability(schedule: AvailabilitySchedule | null | undefined, start: Date): boolean | 'day' | null {
+  if (!schedule || (!schedule.slots?.length && !schedule.exceptions?.length)) return null;
+  const local = localDateParts(start, schedule.timezone || DEFAULT_TIMEZONE);
+
+  const exception = schedule.exceptions?.find((e) => e.date === local.date);
+  if (exception) return exception.available;
+
+  const slots = (schedule.slots || []).filter((slot) => slot.day === local.day);
+  if (slots.length === 0) return schedule.slots?.length ? false : null;
+  return slots.some((slot) => slot.start <= local.time && local.time < slot.end) ? true : 'day';
+}
+
+/**
+ * ¿El período ocupado se superpone con el trabajo? Igual que al crear
+ * trabajos: con fecha de fin flexible se compara el día de inicio.
+ */
+export function periodsOverlap(job: RecommendationJob, busy: BusyPeriod): boolean {
+  const jobStart = new Date(job.startDate);
+  const busyStart = new Date(busy.startDate);
+  const jobEnd = job.endDate && !job.endDateFlexible ? new Date(job.endDate) : null;
+  const busyEnd = busy.endDate ? new Date(busy.endDate) : null;
+
+  if (!jobEnd || !busyEnd) return jobStart.toDateString() === busyStart.toDateString();
+  return jobStart <= busyEnd && jobEnd >= busyStart;
+}
+
+const isRemoteJob = (job: RecommendationJob): boolean =>
+  Boolean(job.remoteOk) || getCategoryType(job.category) === 'remoto';
+
+/**
+ * Puntaje del doer para el trabajo, con el desglose por factor y las
+ * explicaciones de los factores que sumaron
+ */
+export function scoreDoerForJob(
+  job: RecommendationJob,
+  doer: RecommendationDoer,
+  context: RecommendationContext = {}
+): RecommendationScore {
+  const explanations: RecommendationExplanation[] = [];
+  const breakdown = {} as Record<RecommendationFactor, number>;
+  const add = (factor: RecommendationFactor, ratio: number, message?: string) => {
+    const points = round1(RECOMMENDATION_WEIGHTS[factor] * clamp01(ratio));
+    breakdown[factor] = points;
+    if (message && points > 0) explanations.push({ factor, points, message });
+  };
+
+  // Categoría: contratos hechos en la categoría; el interés declarado cuenta poco
+  const categoryLabel = getCategoryById(job.category)?.label || job.category;
+  const contracts = context.categoryContracts || 0;
+  if (contracts > 0) {
+    add('category', 0.4 + 0.6 * Math.min(contracts, CATEGORY_HISTORY_CAP) / CATEGORY_HISTORY_CAP,
+      `Hizo ${contracts} ${contracts === 1 ? 'trabajo' : 'trabajos'} de ${categoryLabel}`);
+  } else if (doer.interests?.includes(job.category)) {
+    add('category', 0.25, `Le interesa ${categoryLabel}`);
+  } else {
+    add('category', 0);
+  }
+
+  // Calificaciones: promedio de las dimensiones calificadas, con menos peso si hay pocas reseñas
+  const rated = SUB_RATINGS
+    .map(({ field, label }) => ({ label, value: num(doer[field]) }))
+    .filter(({ value }) => value > 0);
+  const average = rated.length
+    ? rated.reduce((sum, { value }) => sum + value, 0) / rated.length
+    : num(doer.rating);
+  const reviews = doer.reviewsCount || 0;
+  if (average > 0 && reviews > 0) {
+    const confidence = Math.min(reviews, REVIEWS_FOR_FULL_CONFIDENCE) / REVIEWS_FOR_FULL_CONFIDENCE;
+    const best = rated.length ? rated.reduce((a, b) => (b.value > a.value ? b : a)) : null;
+    const message = best && best.value >= 4.5
+      ? `Muy bien calificado en ${best.label} (${best.value.toFixed(1)})`
+      : `Calificación promedio ${average.toFixed(1)} en ${reviews} ${reviews === 1 ? 'reseña' : 'reseñas'}`;
+    add('ratings', (average / 5) * (0.5 + 0.5 * confidence), message);
+  } else {
+    add('ratings', 0);
+  }
+
+  // Confianza
+  const trust = doer.trustScore ?? 100;
+  add('trust', trust / 100, trust >= 90 ? `Puntaje de confianza alto (${trust})` : undefined);
+
+  // Verificación
+  const level = doer.verificationLevel || 'none';
+  add('verification', VERIFICATION_SCORES[level] ?? 0, VERIFICATION_LABELS[level]);
+
+  // Distancia: remoto no depende de la zona; si no hay coordenadas se compara la ciudad
+  let distanceKm: number | null = null;
+  if (isRemoteJob(job)) {
+    add('distance', 1, 'Trabajo remoto');
+  } else if (context.baseLocation && isValidCoordinate(job.latitude, job.longitude)) {
+    distanceKm = round1(haversineKm(
+      context.baseLocation.latitude, context.baseLocation.longitude,
+      Number(job.latitude), Number(job.longitude)
+    ));
+    const ratio = distanceKm <= NEAR_DISTANCE_KM
+      ? 1
+      : 1 - (distanceKm - NEAR_DISTANCE_KM) / (MAX_DISTANCE_KM - NEAR_DISTANCE_KM);
+    add('distance', ratio, `Trabaja habitualmente a ${distanceKm} km`);
+  } else {
+    const city = normalizeLocation(doer.address?.city || '');
+    const sameCity = Boolean(city) && normalizeLocation(job.location || '').includes(city);
+    add('distance', sameCity ? 0.6 : 0, sameCity ? `Vive en ${doer.address!.city}` : undefined);
+  }
+
+  // Disponibilidad: un contrato superpuesto descarta; si no, manda la agenda
+  const start = new Date(job.startDate);
+  const clash = (context.busy || []).find((busy) =>
+    periodsOverlap(job, busy) && !canJobsOverlap(job.category, busy.category)
+  );
+  let available: boolean | null;
+  if (clash) {
+    available = false;
+    add('availability', 0);
+  } else {
+    const fromSchedule = scheduleAvailability(doer.availabilitySchedule, start);
+    if (fromSchedule === true) {
+      available = true;
+      add('availability', 1, 'Disponible en el horario de inicio');
+    } else if (fromSchedule === 'day') {
+      available = true;
+      add('availability', 0.6, 'Trabaja ese día, en otro horario');
+    } else if (fromSchedule === false) {
+      available = false;
+      add('availability', 0);
+    } else {
+      // Sin agenda publicada y sin contratos que choquen
+      available = null;
+      add('availability', 0.5, 'Sin otros trabajos en esas fechas');
+    }
+  }
+
+  const score = round1(Object.values(breakdown).reduce((sum, points) => sum + points, 0));
+  explanations.sort((a, b) => b.points - a.points);
+
+  return { score, breakdown, explanations, distanceKm, available, conflict: Boolean(clash) };
+}
+
+/**
+ * Puntaje 0-100 usando solo algunos factores (p. ej. JOB_FEED_FACTORS)
+ */
+export function partialScore(result: RecommendationScore, factors: RecommendationFactor[]): number {
+  const max = factors.reduce((sum, factor) => sum + RECOMMENDATION_WEIGHTS[factor], 0);
+  if (max === 0) return 0;
+  const points = factors.reduce((sum, factor) => sum + (result.breakdown[factor] || 0), 0);
+  return round1((points / max) * 100);
+}
@@ -0,0 +1,303 @@
+/**
+ * Doer Recommendations Service
+ *
+ * Recomendaciones en los dos sentidos con el puntaje de doerRecommendationRules:
+ *
+ * - recommendDoersForJob(): doers sugeridos para un trabajo abierto (solo lo
+ *   ve el cliente dueño o un admin). El pool de candidatos son los doers con
+ *   contratos completados en la categoría más los mejor calificados.
+ * - recommendJobsForDoer(): feed "trabajos recomendados para vos", ordenado
+ *   solo por los factores que dependen del trabajo (categoría, distancia y
+ *   disponibilidad).
+ *
+ * El historial por categoría combina UserAnalytics.contractsByCategory con los
+ * contratos completados; la zona habitual del doer es el centro de los
+ * trabajos con coordenadas en los que participó.
+ */
+
+import { Op, QueryTypes } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Job } from '../models/sql/Job.model.js';
+import { User } from '../models/sql/User.model.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Proposal } from '../models/sql/Proposal.model.js';
+import { UserAnalytics } from '../models/sql/UserAnalytics.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { isAdminActor } from './contractTransitions.js';
+import {
+  JOB_FEED_FACTORS,
+  partialScore,
+  scoreDoerForJob,
+  type BusyPeriod,
+  type RecommendationContext,
+  type RecommendationScore,
+} from './doerRecommendationRules.js';
+
+// Candidatos que se puntúan por trabajo (historial en la categoría + mejor calificados)
+const CATEGORY_POOL = 200;
+const TOP_RATED_POOL = 300;
+// Trabajos abiertos que se puntúan para el feed de un doer
+const FEED_POOL = 300;
+const MAX_LIMIT = 50;
+
+// Contratos que ocupan la agenda del doer
+const ACTIVE_CONTRACT_STATUSES = ['pending', 'ready', 'accepted', 'in_progress', 'awaiting_confirmation'];
+// Contratos que cuentan para la zona habitual
+const LOCATION_CONTRACT_STATUSES = [...ACTIVE_CONTRACT_STATUSES, 'completed'];
+
+const DOER_ATTRIBUTES = [
+  'id', 'name', 'username', 'avatar', 'role', 'rating', 'reviewsCount', 'completedJobs',
+  'calidadTrabajoRating', 'puntualidadRating', 'profesionalidadRating', 'precioJustoRating',
+  'presencialidadRating', 'comoPersonaRating', 'trustScore', 'verificationLevel',
+  'interests', 'address', 'availabilitySchedule',
+];
+
+const JOB_ATTRIBUTES = [
+  'id', 'title', 'summary', 'category', 'price', 'location', 'latitude', 'longitude',
+  'remoteOk', 'startDate', 'endDate', 'endDateFlexible', 'urgency', 'clientId', 'doerId',
+  'selectedWorkers', 'maxWorkers', 'status', 'createdAt',
+];
+
+const clampLimit = (limit?: number): number =>
+  Math.min(Math.max(Number(limit) || 20, 1), MAX_LIMIT);
+
+class DoerRecommendationService {
+  /**
+   * Doers recomendados para un trabajo, del mejor al peor puntaje.
+   * Por defecto se descartan los que tienen un contrato que choca en fechas.
+   */
+  async recommendDoersForJob(
+    jobId: string,
+    requester: { id: string; adminRole?: string | null },
+    { limit, includeUnavailable = false }: { limit?: number; includeUnavailable?: boolean } = {}
+  ) {
+    const job = await Job.findByPk(jobId, { attributes: JOB_ATTRIBUTES });
+    if (!job) throw new ErrorResponse('Trabajo no encontrado', 404);
+    if (job.clientId !== requester.id && !isAdminActor(requester.adminRole)) {
+      throw new ErrorResponse('Solo el dueño del trabajo puede ver los doers recomendados', 403);
+    }
+    if (job.status !== 'open') {
+      throw new ErrorResponse('Solo se recomiendan doers para trabajos abiertos', 400);
+    }
+
+    const excluded = new Set<string>([job.clientId, ...(job.selectedWorkers || [])]);
+    if (job.doerId) excluded.add(job.doerId);
+
+    const categoryDoers = await sequelize.query<{ doer_id: string }>(
+      `SELECT c.doer_id
+         FROM contracts c
+         JOIN jobs j ON j.id = c.job_id
+        WHERE c.status = 'completed' AND j.category = :category
+        GROUP BY c.doer_id
+        ORDER BY COUNT(*) DESC
+        LIMIT :limit`,
+      { type: QueryTypes.SELECT, replacements: { category: job.category, limit: CATEGORY_POOL } }
+    );
+
+    const eligible = { isBanned: false, role: { [Op.ne]: 'client' } };
+    const [fromCategory, topRated] = await Promise.all([
+      categoryDoers.length
+        ? User.findAll({ where: { ...eligible, id: categoryDoers.map((row) => row.doer_id) }, attributes: DOER_ATTRIBUTES })
+        : Promise.resolve([] as User[]),
+      User.findAll({
+        where: eligible,
+        attributes: DOER_ATTRIBUTES,
+        order: [['rating', 'DESC'], ['completedJobs', 'DESC']],
+        limit: TOP_RATED_POOL,
+      }),
+    ]);
+
+    const candidates = new Map<string, User>();
+    for (const doer of [...fromCategory, ...topRated]) {
+      if (!excluded.has(doer.id)) candidates.set(doer.id, doer);
+    }
+    if (candidates.size === 0) return [];
+
+    const doerIds = Array.from(candidates.keys());
+    const [contexts, proposals] = await Promise.all([
+      this.loadContexts(doerIds, job.category),
+      Proposal.findAll({ where: { jobId: job.id, freelancerId: doerIds }, attributes: ['freelancerId'] }),
+    ]);
+    const applied = new Set(proposals.map((p) => p.freelancerId));
+
+    return Array.from(candidates.values())
+      .map((doer) => ({ doer, result: scoreDoerForJob(job, doer, contexts.get(doer.id)) }))
+      .filter(({ result }) => includeUnavailable || !result.conflict)
+      .sort((a, b) => b.result.score - a.result.score || Number(b.doer.rating) - Number(a.doer.rating))
+      .slice(0, clampLimit(limit))
+      .map(({ doer, result }) => ({
+        doer: {
+          id: doer.id,
+          name: doer.name,
+          username: doer.username,
+          avatar: doer.avatar,
+          rating: Number(doer.rating),
+          reviewsCount: doer.reviewsCount,
+          completedJobs: doer.completedJobs,
+          verificationLevel: doer.verificationLevel,
+        },
+        ...this.present(result),
+        hasApplied: applied.has(doer.id),
+      }));
+  }
+
+  /**
+   * Feed de trabajos abiertos recomendados para el doer. Excluye sus propios
+   * trabajos, los completos, los que ya postuló y los que chocan con su agenda.
+   */
+  async recommendJobsForDoer(userId: string, { limit, category }: { limit?: number; category?: string } = {}) {
+    const doer = await User.findByPk(userId, { attributes: DOER_ATTRIBUTES });
+    if (!doer) throw new ErrorResponse('Usuario no encontrado', 404);
+
+    const jobs = await Job.findAll({
+      where: {
+        status: 'open',
+        clientId: { [Op.ne]: userId },
+        ...(category ? { category } : {}),
+      },
+      attributes: JOB_ATTRIBUTES,
+      order: [['createdAt', 'DESC']],
+      limit: FEED_POOL,
+    });
+
+    const proposals = await Proposal.findAll({
+      where: { freelancerId: userId, jobId: jobs.map((job) => job.id) },
+      attributes: ['jobId'],
+    });
+    const applied = new Set(proposals.map((p) => p.jobId));
+
+    const open = jobs.filter((job) =>
+      !applied.has(job.id) &&
+      !(job.selectedWorkers || []).includes(userId) &&
+      (job.selectedWorkers?.length || 0) < (job.maxWorkers || 1)
+    );
+    if (open.length === 0) return [];
+
+    const contexts = await this.loadContexts([userId]);
+    const context = contexts.get(userId) || {};
+    const historyByCategory = await this.categoryHistory([userId]);
+
+    return open
+      .map((job) => {
+        const result = scoreDoerForJob(job, doer, {
+          ...context,
+          categoryContracts: historyByCategory.get(userId)?.get(job.category) || 0,
+        });
+        return { job, result, score: partialScore(result, JOB_FEED_FACTORS) };
+      })
+      .filter(({ result, score }) => !result.conflict && score > 0)
+      .sort((a, b) => b.score - a.score || b.job.createdAt.getTime() - a.job.createdAt.getTime())
+      .slice(0, clampLimit(limit))
+      .map(({ job, result, score }) => {
+        const { breakdown, explanations, distanceKm, available } = this.present(result);
+        return {
+          job: {
+            id: job.id,
+            title: job.title,
+            summary: job.summary,
+            category: job.category,
+            price: Number(job.price),
+            location: job.location,
+            startDate: job.startDate,
+            endDate: job.endDate,
+            urgency: job.urgency,
+          },
+          score,
+          breakdown: Object.fromEntries(JOB_FEED_FACTORS.map((factor) => [factor, breakdown[factor]])),
+          explanations: explanations.filter((e) => JOB_FEED_FACTORS.includes(e.factor)),
+          distanceKm,
+          available,
+        };
+      });
+  }
+
+  private present(result: RecommendationScore) {
+    const { score, breakdown, explanations, distanceKm, available, conflict } = result;
+    return { score, breakdown, explanations, distanceKm, available, conflict };
+  }
+
+  /**
+   * Contratos por categoría de cada doer: el máximo entre UserAnalytics y los
+   * contratos completados (las analytics no siempre están al día)
+   */
+  private async categoryHistory(doerIds: string[]): Promise<Map<string, Map<string, number>>> {
+    const [rows, analytics] = await Promise.all([
+      sequelize.query<{ doer_id: string; category: string; count: number }>(
+        `SELECT c.doer_id, j.category, COUNT(*)::int AS count
+           FROM contracts c
+           JOIN jobs j ON j.id = c.job_id
+          WHERE c.status = 'completed' AND c.doer_id IN (:doerIds)
+          GROUP BY c.doer_id, j.category`,
+        { type: QueryTypes.SELECT, replacements: { doerIds } }
+      ),
+      UserAnalytics.findAll({ where: { userId: doerIds }, attributes: ['userId', 'contractsByCategory'] }),
+    ]);
+
+    const history = new Map<string, Map<string, number>>();
+    const set = (doerId: string, category: string, count: number) => {
+      const byCategory = history.get(doerId) || new Map<string, number>();
+      byCategory.set(category, Math.max(byCategory.get(category) || 0, count));
+      history.set(doerId, byCategory);
+    };
+    for (const row of rows) set(row.doer_id, row.category, row.count);
+    for (const entry of analytics) {
+      for (const stats of entry.contractsByCategory || []) set(entry.userId, stats.category, stats.count);
+    }
+    return history;
+  }
+
+  /**
+   * Zona habitual, contratos activos e historial (de la categoría pedida) de cada doer
+   */
+  private async loadContexts(doerIds: string[], category?: string): Promise<Map<string, RecommendationContext>> {
+    const [locations, contracts, history] = await Promise.all([
+      sequelize.query<{ doer_id: string; latitude: number; longitude: number }>(
+        `SELECT c.doer_id, AVG(j.latitude)::float AS latitude, AVG(j.longitude)::float AS longitude
+           FROM contracts c
+           JOIN jobs j ON j.id = c.job_id
+          WHERE c.doer_id IN (:doerIds) AND c.status IN (:statuses)
+            AND j.latitude IS NOT NULL AND j.longitude IS NOT NULL
+          GROUP BY c.doer_id`,
+        { type: QueryTypes.SELECT, replacements: { doerIds, statuses: LOCATION_CONTRACT_STATUSES } }
+      ),
+      Contract.findAll({
+        where: {
+          doerId: doerIds,
+          status: ACTIVE_CONTRACT_STATUSES,
+          endDate: { [Op.gte]: new Date() },
+        },
+        attributes: ['id', 'doerId', 'startDate', 'endDate'],
+        include: [{ model: Job, as: 'job', attributes: ['id', 'title', 'category'] }],
+      }),
+      category ? this.categoryHistory(doerIds) : Promise.resolve(new Map<string, Map<string, number>>()),
+    ]);
+
+    const contexts = new Map<string, RecommendationContext>();
+    const get = (doerId: string) => {
+      const context = contexts.get(doerId) || { busy: [] as BusyPeriod[] };
+      contexts.set(doerId, context);
+      return context;
+    };
+
+    for (const row of locations) {
+      get(row.doer_id).baseLocation = { latitude: row.latitude, longitude: row.longitude };
+    }
+    for (const contract of contracts) {
+      if (!contract.job) continue;
+      get(contract.doerId).busy!.push({
+        startDate: contract.startDate,
+        endDate: contract.endDate,
+        category: contract.job.category,
+        title: contract.job.title,
+      });
+    }
+    if (category) {
+      for (const [doerId, byCategory] of history) {
+        get(doerId).categoryContracts = byCategory.get(category) || 0;
+      }
+    }
+    return contexts;
+  }
+}
+
+export default new DoerRecommendationService();
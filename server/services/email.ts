@@ -4,6 +4,16 @@ import Mailgun from "mailgun.js";
 import nodemailer from "nodemailer";
 import { config } from "../config/env";
 import { User } from "../models/sql/User.model.js";
+import {
+  renderCallout,
+  renderDetailCard,
+  renderEmailLayout,
+  type CalloutTone,
+  type DetailRow,
+  type EmailLayoutOptions,
+} from "./emailLayout.js";
+import { resolveLocale, type MessageLocale, type RenderedMessage } from "./messageTemplateRules.js";
+import { renderTemplate, type TemplateId, type TemplateVars } from "./messageTemplateCatalog.js";
 
 interface EmailOptions {
   to: string;
@@ -294,150 +304,53 @@ class EmailService {
   }
 
   // ─────────────────────────────────────────────────────────────────────────
-  // SHARED TEMPLATE
+  // SHARED TEMPLATE (layout y partials en emailLayout.ts)
   // ─────────────────────────────────────────────────────────────────────────
 
-  private tpl(opts: {
-    title: string;
-    body: string;
-    eyebrow?: string;
-    cta?: { label: string; url: string };
-    accent?: 'sky' | 'green' | 'amber' | 'red' | 'orange';
-    amount?: string;
-    amountLabel?: string;
-    preheader?: string;
-    footerNote?: string;
-  }): string {
-    const ACCENTS = {
-      sky:    { eyebrowBg: '#e0f2fe', eyebrowBorder: '#bae6fd', eyebrowColor: '#0284c7', c1: '#0284c7', c2: '#2563eb', barGrad: 'linear-gradient(90deg,#38bdf8,#0ea5e9,#2563eb)' },
-      green:  { eyebrowBg: '#d1fae5', eyebrowBorder: '#a7f3d0', eyebrowColor: '#047857', c1: '#059669', c2: '#047857', barGrad: 'linear-gradient(90deg,#34d399,#10b981,#047857)' },
-      amber:  { eyebrowBg: '#fef3c7', eyebrowBorder: '#fde68a', eyebrowColor: '#92400e', c1: '#d97706', c2: '#b45309', barGrad: 'linear-gradient(90deg,#fbbf24,#f59e0b,#b45309)' },
-      red:    { eyebrowBg: '#fee2e2', eyebrowBorder: '#fecaca', eyebrowColor: '#b91c1c', c1: '#dc2626', c2: '#b91c1c', barGrad: 'linear-gradient(90deg,#f87171,#ef4444,#b91c1c)' },
-      orange: { eyebrowBg: '#ffedd5', eyebrowBorder: '#fed7aa', eyebrowColor: '#c2410c', c1: '#ea580c', c2: '#c2410c', barGrad: 'linear-gradient(90deg,#fb923c,#f97316,#c2410c)' },
-    };
-    const a = ACCENTS[opts.accent || 'sky'];
-    const year = new Date().getFullYear();
-    const base = config.clientUrl || 'https://doapparg.site';
-    const logo = `${base}/doapp-logo-email.png`;
-    const preheader = opts.preheader || String(opts.title).replace(/<[^>]+>/g, '').trim();
-    const footerNote = opts.footerNote || '¿No reconocés este email? Podés ignorarlo, no haremos nada con tu cuenta.';
-    const preheaderPad = ' ‌'.repeat(40);
-
-    const amountBlock = opts.amount ? `
-      <tr><td class="pad" style="padding:24px 40px 0;text-align:center;">
-        <p style="margin:0 0 4px;font-family:Arial,Helvetica,sans-serif;font-size:11.5px;color:#94a3b8;text-transform:uppercase;letter-spacing:0.07em;font-weight:700;">${opts.amountLabel || 'Monto'}</p>
-        <p style="margin:0;font-family:Arial,Helvetica,sans-serif;font-size:40px;font-weight:800;color:${a.c1};letter-spacing:-1.5px;">${opts.amount}</p>
-      </td></tr>` : '';
-
-    const ctaBlock = opts.cta ? `
-      <tr><td align="center" class="pad" style="padding:28px 40px 8px;">
-        <!--[if mso]>
-        <v:roundrect xmlns:v="urn:schemas-microsoft-com:vml" xmlns:w="urn:schemas-microsoft-com:office:word" href="${opts.cta.url}" style="height:52px;v-text-anchor:middle;width:300px;" arcsize="27%" strokecolor="${a.c1}" fillcolor="${a.c1}">
-        <w:anchorlock/><center style="color:#ffffff;font-family:Arial,sans-serif;font-size:15px;font-weight:bold;">${opts.cta.label}</center>
-        </v:roundrect>
-        <![endif]-->
-        <!--[if !mso]><!-->
-        <a href="${opts.cta.url}" style="background-color:${a.c1};background-image:linear-gradient(135deg,${a.c1} 0%,${a.c2} 100%);color:#ffffff;display:inline-block;font-family:Arial,Helvetica,sans-serif;font-size:15px;font-weight:700;line-height:22px;padding:16px 32px;border-radius:14px;text-decoration:none;">${opts.cta.label}</a>
-        <!--<![endif]-->
-        <p style="margin:14px 0 0;font-family:Arial,Helvetica,sans-serif;font-size:12px;color:#94a3b8;">¿No funciona el botón? Copiá y pegá este link:<br><a href="${opts.cta.url}" style="color:${a.c1};text-decoration:none;word-break:break-all;">${opts.cta.url}</a></p>
-      </td></tr>` : `<tr><td style="height:8px;line-height:8px;font-size:0;">&nbsp;</td></tr>`;
-
-    return `<!DOCTYPE html>
-<html lang="es" xmlns:v="urn:schemas-microsoft-com:vml" xmlns:o="urn:schemas-microsoft-com:office:office">
-<head>
-<meta charset="utf-8">
-<meta name="viewport" content="width=device-width,initial-scale=1">
-<meta http-equiv="X-UA-Compatible" content="IE=edge">
-<meta name="color-scheme" content="light dark">
-<meta name="supported-color-schemes" content="light dark">
-<title>${preheader}</title>
-<!--[if mso]>
-<noscript><xml><o:OfficeDocumentSettings><o:PixelsPerInch>96</o:PixelsPerInch></o:OfficeDocumentSettings></xml></noscript>
-<style>table,td,th{border-collapse:collapse;}</style>
-<![endif]-->
-<style>
-  body,table,td,a{-webkit-text-size-adjust:100%;-ms-text-size-adjust:100%;}
-  table,td{mso-table-lspace:0pt;mso-table-rspace:0pt;}
-  img{-ms-interpolation-mode:bicubic;border:0;outline:none;text-decoration:none;}
-  body{margin:0;padding:0;width:100% !important;height:100% !important;}
-  a[x-apple-data-detectors]{color:inherit !important;text-decoration:none !important;}
-  @media screen and (max-width:600px){.wrap{width:100% !important;}.pad{padding-left:24px !important;padding-right:24px !important;}.h1{font-size:23px !important;line-height:1.3 !important;}}
-  @media (prefers-color-scheme: dark){
-    .bg-body{background:#070d1a !important;}
-    .card{background:#0f1624 !important;}
-    .fg1{color:#f1f5f9 !important;}
-    .fg2{color:#94a3b8 !important;}
-    .body-text{color:#cbd5e1 !important;}
-    .footer-border{border-color:#1e2d42 !important;}
-  }
-</style>
-</head>
-<body class="bg-body" style="margin:0;padding:0;background:#eef2f7;">
-<div style="display:none;max-height:0;overflow:hidden;mso-hide:all;font-size:1px;line-height:1px;color:#eef2f7;">${preheader}${preheaderPad}</div>
-<center>
-<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" class="bg-body" style="background:#eef2f7;">
-<tr><td align="center" style="padding:32px 12px;">
-<table role="presentation" class="wrap card" width="600" cellpadding="0" cellspacing="0" border="0" style="width:600px;max-width:600px;background:#ffffff;border-radius:16px;overflow:hidden;">
-<tr><td style="background-color:#0c1a2e;background-image:linear-gradient(135deg,#0c1a2e 0%,#070d1a 100%);padding:26px 40px 22px;" class="pad">
-<table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr>
-<td valign="middle"><img src="${logo}" width="34" height="34" alt="DoApp" style="display:block;border:0;"></td>
-<td valign="middle" style="padding-left:10px;font-family:Arial,Helvetica,sans-serif;font-size:22px;font-weight:800;letter-spacing:-0.5px;color:#ffffff;">D<span style="color:#38bdf8;">o</span>App</td>
-</tr></table>
-</td></tr>
-<tr><td style="line-height:0;font-size:0;"><table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0"><tr><td height="3" bgcolor="${a.c1}" style="background:${a.barGrad};background-color:${a.c1};font-size:0;line-height:0;">&nbsp;</td></tr></table></td></tr>
-<tr><td class="pad fg1" style="padding:32px 40px 0;">
-${opts.eyebrow ? `<table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr><td bgcolor="${a.eyebrowBg}" style="background:${a.eyebrowBg};border:1px solid ${a.eyebrowBorder};border-radius:9999px;padding:5px 12px;"><span style="font-family:Arial,Helvetica,sans-serif;font-size:11px;font-weight:800;letter-spacing:2px;text-transform:uppercase;color:${a.eyebrowColor};">${opts.eyebrow}</span></td></tr></table>` : ''}
-<h1 class="h1 fg1" style="margin:14px 0 0;font-family:Arial,Helvetica,sans-serif;font-size:28px;line-height:1.25;font-weight:800;letter-spacing:-0.5px;color:#0f172a;">${opts.title}</h1>
-</td></tr>
-<tr><td class="pad body-text" style="padding:8px 40px 0;font-family:Arial,Helvetica,sans-serif;font-size:15.5px;line-height:1.6;color:#334155;">${opts.body}</td></tr>
-${amountBlock}
-${ctaBlock}
-<tr><td style="height:12px;line-height:12px;font-size:0;">&nbsp;</td></tr>
-<tr><td class="pad footer-border" style="padding:28px 40px 32px;border-top:1px solid #e2e8f0;text-align:center;">
-<p class="fg2" style="margin:0 0 8px;font-family:Arial,Helvetica,sans-serif;font-size:12px;line-height:1.6;color:#94a3b8;">${footerNote}</p>
-<p class="fg2" style="margin:0 0 8px;font-family:Arial,Helvetica,sans-serif;font-size:12px;line-height:1.6;color:#94a3b8;"><a href="${base}" style="color:${a.c1};text-decoration:none;">doapparg.site</a><span style="color:#cbd5e1;">&nbsp;·&nbsp;</span><a href="${base}/help" style="color:${a.c1};text-decoration:none;">Centro de ayuda</a></p>
-<p class="fg2" style="margin:0;font-family:Arial,Helvetica,sans-serif;font-size:12px;line-height:1.6;color:#94a3b8;">© ${year} DoApp · Buenos Aires, Argentina</p>
-</td></tr>
-</table>
-</td></tr>
-</table>
-</center>
-</body>
-</html>`;
-  }
-
-  /** Callout box: info | warning | success | danger */
-  private callout(type: 'info' | 'warning' | 'success' | 'danger', title: string, content: string): string {
-    const c = {
-      info:    { bg: '#e0f2fe', border: '#bae6fd', ic: '#0284c7', icBg: '#bae6fd', fg: '#075985', glyph: 'i' },
-      warning: { bg: '#fffbeb', border: '#fde68a', ic: '#92400e', icBg: '#fef3c7', fg: '#854d0e', glyph: '!' },
-      success: { bg: '#dcfce7', border: '#86efac', ic: '#065f46', icBg: '#bbf7d0', fg: '#065f46', glyph: '✓' },
-      danger:  { bg: '#fee2e2', border: '#fecaca', ic: '#991b1b', icBg: '#fecaca', fg: '#991b1b', glyph: '!' },
-    }[type];
-    return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background:${c.bg};border:1px solid ${c.border};border-radius:14px;margin:20px 0;">
-      <tr>
-        <td width="48" valign="top" style="padding:16px 0 16px 16px;">
-          <table role="presentation" cellpadding="0" cellspacing="0" border="0"><tr><td width="30" height="30" align="center" valign="middle" bgcolor="${c.icBg}" style="background:${c.icBg};border-radius:9999px;font-family:Arial,Helvetica,sans-serif;font-size:15px;font-weight:800;color:${c.ic};">${c.glyph}</td></tr></table>
-        </td>
-        <td style="padding:16px 16px 16px 12px;font-family:Arial,Helvetica,sans-serif;font-size:13.5px;line-height:1.5;color:${c.fg};">
-          ${title ? `<strong style="display:block;font-size:14px;margin-bottom:2px;color:${c.fg};">${title}</strong>` : ''}${content}
-        </td>
-      </tr>
-    </table>`;
-  }
-
-  /** Receipt-style detail card. `highlight` renders the emphasized total row. */
-  private detailCard(rows: Array<{ label: string; value: string; highlight?: boolean }>): string {
-    const rowsHtml = rows.map((r) => `
-      <tr>
-        <td style="padding:9px 0;font-family:Arial,Helvetica,sans-serif;font-size:14px;color:#64748b;border-top:${r.highlight ? '1px solid #e2e8f0' : 'none'};">${r.highlight ? '<div style="padding-top:5px;">' + r.label + '</div>' : r.label}</td>
-        <td align="right" style="padding:9px 0;font-family:Arial,Helvetica,sans-serif;font-weight:${r.highlight ? 900 : 700};font-size:${r.highlight ? '21px' : '14px'};color:${r.highlight ? '#0284c7' : '#0f172a'};border-top:${r.highlight ? '1px solid #e2e8f0' : 'none'};">${r.highlight ? '<div style="padding-top:5px;">' + r.value + '</div>' : r.value}</td>
-      </tr>`).join('');
-    return `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0" style="background:#f8fafc;border:1px solid #e2e8f0;border-radius:16px;margin:20px 0;">
-      <tr><td style="padding:20px 22px;">
-        <table role="presentation" width="100%" cellpadding="0" cellspacing="0" border="0">${rowsHtml}</table>
-      </td></tr>
-    </table>`;
+  private tpl(opts: EmailLayoutOptions): string {
+    return renderEmailLayout(opts, { baseUrl: config.clientUrl });
+  }
+
+  private callout(type: CalloutTone, title: string, content: string): string {
+    return renderCallout(type, title, content);
+  }
+
+  private detailCard(rows: DetailRow[]): string {
+    return renderDetailCard(rows);
+  }
+
+  // ─────────────────────────────────────────────────────────────────────────
+  // MESSAGE TEMPLATES (catálogo en messageTemplateCatalog.ts)
+  // ─────────────────────────────────────────────────────────────────────────
+
+  /** Send a message already rendered from a template (HTML + plain text). */
+  async sendRendered(to: string, message: Pick<RenderedMessage, 'subject' | 'html' | 'text'>): Promise<boolean> {
+    return this.sendEmail({ to, subject: message.subject, html: message.html, text: message.text });
+  }
+
+  /**
+   * Send a catalog template to an address. Without `locale` it uses the
+   * language of the user with that email (Spanish if there is none).
+   */
+  async sendTemplate<K extends TemplateId>(to: string, id: K, vars: TemplateVars<K>, locale?: MessageLocale): Promise<boolean> {
+    const message = renderTemplate(id, locale || (await this.localeForEmail(to)), vars, { baseUrl: config.clientUrl });
+    return this.sendRendered(to, message);
+  }
+
+  /** Send a catalog template to a user, respecting their email preference. */
+  async sendTemplateToUser<K extends TemplateId>(user: User | string, id: K, vars: TemplateVars<K>): Promise<boolean> {
+    const recipient = typeof user === 'string' ? await User.findByPk(user) : user;
+    if (!recipient) return false;
+    if (!recipient.notificationPreferences?.email) {
+      console.log(`User ${recipient.id} has email notifications disabled`);
+      return false;
+    }
+    return this.sendTemplate(recipient.email, id, vars, resolveLocale(recipient.notificationPreferences?.language));
+  }
+
+  private async localeForEmail(email: string): Promise<MessageLocale> {
+    const user = await User.findOne({ where: { email }, attributes: ['notificationPreferences'] }).catch(() => null);
+    return resolveLocale(user?.notificationPreferences?.language);
   }
 
 
@@ -450,19 +363,7 @@ ${ctaBlock}
    * Send welcome email
    */
   async sendWelcomeEmail(userId: string, userName: string): Promise<void> {
-    const html = this.tpl({
-      eyebrow: '¡Bienvenido!',
-      accent: 'green',
-      preheader: 'Tu cuenta ya está lista — publicá tu primer trabajo o postulate a uno.',
-      title: `Tu cuenta de DoApp está lista, ${userName}.`,
-      body: `
-        <p>Hola <strong>${userName}</strong>, ¡bienvenido! Ya podés <strong>publicar trabajos</strong> o <strong>postularte como Doer</strong>. Tu plata queda guardada en DoApp hasta que el trabajo se confirme — sin sorpresas.</p>
-        ${this.callout('success', 'Pago protegido', 'Todo lo que cobrés o pagués en DoApp queda en garantía hasta que ambas partes confirmen. Así de simple.')}
-        <p>¿Alguna duda? Estamos en el <a href="${config.clientUrl}/help" style="color:#0ea5e9;">Centro de Ayuda</a>.</p>
-      `,
-      cta: { label: 'Publicar mi primer trabajo', url: `${config.clientUrl}/` },
-    });
-    await this.sendToUser(userId, '¡Bienvenido a DoApp!', html);
+    await this.sendTemplateToUser(userId, 'welcome', { userName });
   }
 
   /** Admin verified the user's identity (DNI). */
@@ -573,64 +474,41 @@ ${ctaBlock}
   async sendNewMessageNotification(userId: string, senderName: string, messagePreview: string, conversationId: string): Promise<void> {
     const user = await User.findByPk(userId);
     if (!user?.notificationPreferences?.newMessage) return;
-    const html = this.tpl({
-      eyebrow: 'Mensaje',
-      title: `Nuevo mensaje de ${senderName}`,
-      body: `
-        <p>Hola <strong>${user.name}</strong>,</p>
-        <p><strong>${senderName}</strong> te envió un mensaje:</p>
-        ${this.callout('info', '', `<em>"${messagePreview}"</em>`)}
-      `,
-      cta: { label: '💬 Ver conversación', url: `${config.clientUrl}/chat/${conversationId}` },
-    });
-    await this.sendToUser(userId, `Nuevo mensaje de ${senderName}`, html);
+    await this.sendTemplateToUser(user, 'chat.new_message', { recipientName: user.name, senderName, messagePreview, conversationId });
   }
 
   async sendJobUpdateNotification(userId: string, jobTitle: string, updateType: string, jobId: string): Promise<void> {
     const user = await User.findByPk(userId);
     if (!user?.notificationPreferences?.jobUpdate) return;
-    const html = this.tpl({
-      eyebrow: 'Publicación',
-      title: 'Actualización de publicación',
-      body: `
-        <p>Hola <strong>${user.name}</strong>,</p>
-        <p>${updateType}</p>
-        ${this.callout('info', '', `<strong>Publicación:</strong> ${jobTitle}`)}
-      `,
-      cta: { label: 'Ver publicación', url: `${config.clientUrl}/jobs/${jobId}` },
+    await this.sendTemplateToUser(user, 'job.update', { recipientName: user.name, jobTitle, update: updateType, jobId });
+  }
+
+  async sendSavedSearchDigest(
+    userId: string,
+    groups: Array<{ searchName: string; jobs: Array<{ id: string; title: string; price: number; location?: string | null }> }>
+  ): Promise<boolean> {
+    const user = await User.findByPk(userId);
+    if (!user) return false;
+    return this.sendTemplateToUser(user, 'saved_search.digest', {
+      userName: user.name,
+      groups: groups.map((group) => ({
+        searchName: group.searchName,
+        jobs: group.jobs.map((job) => ({ id: job.id, title: job.title, price: Number(job.price), location: job.location || '' })),
+      })),
     });
-    await this.sendToUser(userId, `Actualización: ${jobTitle}`, html);
   }
 
   async sendContractUpdateNotification(userId: string, contractTitle: string, updateType: string, contractId: string): Promise<void> {
     const user = await User.findByPk(userId);
     if (!user?.notificationPreferences?.contractUpdate) return;
-    const html = this.tpl({
-      eyebrow: 'Contrato',
-      title: 'Actualización de contrato',
-      body: `
-        <p>Hola <strong>${user.name}</strong>,</p>
-        <p>${updateType}</p>
-        ${this.callout('info', '', `<strong>Contrato:</strong> ${contractTitle}`)}
-      `,
-      cta: { label: 'Ver contrato', url: `${config.clientUrl}/contracts/${contractId}` },
-    });
-    await this.sendToUser(userId, `Contrato actualizado: ${contractTitle}`, html);
+    await this.sendTemplateToUser(user, 'contract.update', { recipientName: user.name, contractTitle, update: updateType, contractId });
   }
 
   async sendPaymentNotification(userId: string, amount: number, updateType: string, _paymentId: string): Promise<void> {
     const user = await User.findByPk(userId);
     if (!user?.notificationPreferences?.paymentUpdate) return;
     const numericAmount = typeof amount === 'number' ? amount : parseFloat(String(amount)) || 0;
-    const html = this.tpl({
-      eyebrow: 'Pago',
-      accent: 'green',
-      title: 'Actualización de pago',
-      body: `<p>Hola <strong>${user.name}</strong>,</p><p>${updateType}</p>`,
-      amount: `$${numericAmount.toLocaleString('es-AR')} ARS`,
-      cta: { label: 'Ver balance', url: `${config.clientUrl}/balance` },
-    });
-    await this.sendToUser(userId, `Pago: $${numericAmount.toFixed(2)}`, html);
+    await this.sendTemplateToUser(user, 'payment.update', { recipientName: user.name, amount: numericAmount, update: updateType });
   }
 
   async sendContractCreatedEmail(clientId: string, doerId: string, contractId: string, jobTitle: string, price: number, currency = 'ARS'): Promise<void> {
@@ -796,66 +674,19 @@ ${ctaBlock}
   }
 
   async sendWithdrawalRequested(to: string, userName: string, amount: number): Promise<void> {
-    const html = this.tpl({
-      eyebrow: 'Retiro',
-      title: 'Retiro solicitado',
-      body: `
-        <p>Hola <strong>${userName}</strong>,</p>
-        <p>Recibimos tu solicitud de retiro. La procesaremos en los próximos días hábiles.</p>
-        ${this.callout('info', '', 'Recibirás un email de confirmación cuando la transferencia sea procesada.')}
-      `,
-      amount: `$${amount.toLocaleString('es-AR')} ARS`,
-      amountLabel: 'Monto solicitado',
-      cta: { label: 'Ver balance', url: `${config.clientUrl}/balance` },
-    });
-    await this.sendEmail({ to, subject: 'Solicitud de retiro · DOAPP', html });
+    await this.sendTemplate(to, 'withdrawal.requested', { userName, amount });
   }
 
   async sendWithdrawalApproved(to: string, userName: string, amount: number): Promise<void> {
-    const html = this.tpl({
-      eyebrow: 'Retiro',
-      accent: 'green',
-      title: 'Retiro aprobado',
-      body: `
-        <p>Hola <strong>${userName}</strong>,</p>
-        <p>Tu solicitud de retiro fue aprobada. Procederemos a transferirte el dinero a tu CBU en breve.</p>
-      `,
-      amount: `$${amount.toLocaleString('es-AR')} ARS`,
-      amountLabel: 'Monto aprobado',
-    });
-    await this.sendEmail({ to, subject: 'Retiro aprobado · DOAPP', html });
+    await this.sendTemplate(to, 'withdrawal.approved', { userName, amount });
   }
 
   async sendWithdrawalCompleted(to: string, userName: string, amount: number, newBalance: number): Promise<void> {
-    const html = this.tpl({
-      eyebrow: 'Retiro',
-      accent: 'green',
-      title: '¡Retiro completado!',
-      body: `
-        <p>Hola <strong>${userName}</strong>,</p>
-        <p>Tu retiro fue procesado exitosamente. El dinero ya está en camino a tu CBU.</p>
-        ${this.callout('success', 'Balance actualizado', `Tu nuevo balance disponible es <strong>$${newBalance.toLocaleString('es-AR')} ARS</strong>`)}
-      `,
-      amount: `$${amount.toLocaleString('es-AR')} ARS`,
-      amountLabel: 'Transferido',
-    });
-    await this.sendEmail({ to, subject: 'Retiro completado · DOAPP', html });
+    await this.sendTemplate(to, 'withdrawal.completed', { userName, amount, newBalance });
   }
 
   async sendWithdrawalRejected(to: string, userName: string, amount: number, reason: string): Promise<void> {
-    const html = this.tpl({
-      eyebrow: 'Retiro',
-      accent: 'red',
-      title: 'Retiro rechazado',
-      body: `
-        <p>Hola <strong>${userName}</strong>,</p>
-        <p>Tu solicitud de retiro no pudo ser procesada.</p>
-        ${this.callout('danger', 'Motivo del rechazo', reason)}
-        <p>El monto de <strong>$${amount.toLocaleString('es-AR')} ARS</strong> fue devuelto a tu balance disponible.</p>
-      `,
-      cta: { label: 'Ver balance', url: `${config.clientUrl}/balance` },
-    });
-    await this.sendEmail({ to, subject: 'Retiro rechazado · DOAPP', html });
+    await this.sendTemplate(to, 'withdrawal.rejected', { userName, amount, reason });
   }
 
   async sendPriceModificationEmail(to: string, userName: string, contractId: string, previousPrice: number, newPrice: number, isIncrease: boolean, balanceChange: number): Promise<void> {
@@ -1,9 +1,11 @@
-import cron from "node-cron";
+import jobScheduler from "./jobScheduler.js";
 import { Contract } from "../models/sql/Contract.model.js";
 import { User } from "../models/sql/User.model.js";
 import fcmService from "./fcm.js";
 import emailService from "./email.js";
 import { Op } from 'sequelize';
+import { transitionContract } from "./contractLifecycle.js";
+import { AUTO_RELEASE_DAYS } from "./milestoneRules.js";
 
 class EscrowAutomationService {
   /**
@@ -11,14 +13,15 @@ class EscrowAutomationService {
    */
   initialize() {
     // Run every hour
-    cron.schedule("0 * * * *", async () => {
+    // Los hitos entregados se liberan aparte (jobs/milestoneAutoRelease.ts)
+    jobScheduler.schedule("escrow-auto-release", "0 * * * *", async () => {
       await this.checkContractsForAutoRelease();
-    });
+    }, { description: "Libera el escrow de contratos sin confirmar después de 7 días" });
 
     // Run every 6 hours to send reminders
-    cron.schedule("0 */6 * * *", async () => {
+    jobScheduler.schedule("escrow-approval-reminders", "0 */6 * * *", async () => {
       await this.sendApprovalReminders();
-    });
+    }, { description: "Recuerda a los clientes aprobar los trabajos pendientes de confirmación" });
 
     console.log("✅ Escrow automation service initialized");
   }
@@ -29,7 +32,7 @@ class EscrowAutomationService {
   async checkContractsForAutoRelease() {
     try {
       const now = new Date();
-      const autoReleaseDelay = 7 * 24 * 60 * 60 * 1000; // 7 days in milliseconds
+      const autoReleaseDelay = AUTO_RELEASE_DAYS * 24 * 60 * 60 * 1000;
 
       // Find contracts awaiting_confirmation for more than 7 days without escrow release
       const eligibleContracts = await Contract.findAll({
@@ -62,11 +65,11 @@ class EscrowAutomationService {
    */
   private async releaseEscrowAutomatically(contract: any) {
     try {
-      await contract.update({
-        status: "completed",
-        escrowStatus: "released",
-        clientConfirmed: true,
-        doerConfirmed: true,
+      contract.clientConfirmed = true;
+      contract.doerConfirmed = true;
+      await transitionContract(contract, "auto_confirm", {
+        actorRole: "system",
+        reason: "Liberación automática de escrow tras 7 días sin objeciones",
       });
 
       console.log(`✅ Auto-released escrow for contract ${contract.id}`);
@@ -124,7 +127,7 @@ class EscrowAutomationService {
     try {
       const now = new Date();
       const reminderThreshold = 5 * 24 * 60 * 60 * 1000; // 5 days
-      const autoReleaseDelay = 7 * 24 * 60 * 60 * 1000; // 7 days
+      const autoReleaseDelay = AUTO_RELEASE_DAYS * 24 * 60 * 60 * 1000;
 
       // Find contracts waiting for approval between 5-7 days
       const contractsNeedingReminder = await Contract.findAll({
@@ -3,6 +3,8 @@ import { config } from "../config/env";
 import { User } from "../models/sql/User.model.js";
 import { Notification } from "../models/sql/Notification.model.js";
 import { Op } from 'sequelize';
+import { resolveLocale, type RenderedMessage } from "./messageTemplateRules.js";
+import { renderTemplate, type TemplateId, type TemplateVars } from "./messageTemplateCatalog.js";
 
 interface NotificationPayload {
   userId: string;
@@ -14,6 +16,8 @@ interface NotificationPayload {
   sound?: string;
   priority?: "high" | "normal";
   clickAction?: string;
+  // false: don't store a Notification row (the caller creates its own, see messageTemplates.ts)
+  persist?: boolean;
 }
 
 class FCMService {
@@ -157,7 +161,7 @@ class FCMService {
       }
 
       // Store notification in database
-      await Notification.create({
+      if (payload.persist !== false) await Notification.create({
         userId: payload.userId,
         type: "push",
         title: payload.title,
@@ -273,6 +277,41 @@ class FCMService {
     }
   }
 
+  /**
+   * Send the push text of a message rendered from a template
+   */
+  async sendRendered(userId: string, message: RenderedMessage, data?: Record<string, string>): Promise<boolean> {
+    return this.sendToUser({
+      userId,
+      title: message.push.title,
+      body: message.push.body,
+      data: { ...data, templateId: message.templateId },
+      clickAction: message.notification.actionUrl,
+      priority: "high",
+      persist: false,
+    });
+  }
+
+  /**
+   * Render a catalog template in the user's language and send its push text
+   */
+  private async sendTemplate<K extends TemplateId>(
+    user: User,
+    id: K,
+    vars: TemplateVars<K>,
+    data: Record<string, string>
+  ): Promise<void> {
+    const message = renderTemplate(id, resolveLocale(user.notificationPreferences?.language), vars, { baseUrl: config.clientUrl });
+    await this.sendToUser({
+      userId: user.id,
+      title: message.push.title,
+      body: message.push.body,
+      data: { ...data, templateId: id },
+      clickAction: message.notification.actionUrl,
+      priority: "high",
+    });
+  }
+
   /**
    * Send notification for new message
    */
@@ -287,16 +326,9 @@ class FCMService {
       return;
     }
 
-    await this.sendToUser({
-      userId,
-      title: `Nuevo mensaje de ${senderName}`,
-      body: messagePreview,
-      data: {
-        type: "new_message",
-        conversationId,
-      },
-      clickAction: `/chat/${conversationId}`,
-      priority: "high",
+    await this.sendTemplate(user, "chat.new_message", { recipientName: user.name, senderName, messagePreview, conversationId }, {
+      type: "new_message",
+      conversationId,
     });
   }
 
@@ -314,15 +346,9 @@ class FCMService {
       return;
     }
 
-    await this.sendToUser({
-      userId,
-      title: "Actualización de trabajo",
-      body: `${updateType}: ${jobTitle}`,
-      data: {
-        type: "job_update",
-        jobId,
-      },
-      clickAction: `/jobs/${jobId}`,
+    await this.sendTemplate(user, "job.update", { recipientName: user.name, jobTitle, update: updateType, jobId }, {
+      type: "job_update",
+      jobId,
     });
   }
 
@@ -340,16 +366,9 @@ class FCMService {
       return;
     }
 
-    await this.sendToUser({
-      userId,
-      title: "Actualización de contrato",
-      body: `${updateType}: ${contractTitle}`,
-      data: {
-        type: "contract_update",
-        contractId,
-      },
-      clickAction: `/contracts/${contractId}`,
-      priority: "high",
+    await this.sendTemplate(user, "contract.update", { recipientName: user.name, contractTitle, update: updateType, contractId }, {
+      type: "contract_update",
+      contractId,
     });
   }
 
@@ -367,16 +386,9 @@ class FCMService {
       return;
     }
 
-    await this.sendToUser({
-      userId,
-      title: "Actualización de pago",
-      body: `${updateType}: $${amount.toFixed(2)}`,
-      data: {
-        type: "payment_update",
-        paymentId,
-      },
-      clickAction: `/payments/${paymentId}`,
-      priority: "high",
+    await this.sendTemplate(user, "payment.update", { recipientName: user.name, amount: Number(amount) || 0, update: updateType }, {
+      type: "payment_update",
+      paymentId,
     });
   }
 }
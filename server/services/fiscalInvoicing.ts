@@ -0,0 +1,420 @@
+/**
+ * Fiscal Invoicing Service
+ *
+ * Facturas electrónicas (AFIP) que los trabajadores SUPER PRO le emiten al
+ * cliente cuando se completa un contrato (reglas en fiscalRules.ts, CAE del
+ * proveedor de fiscalProviders.ts):
+ *
+ * - issueForContract crea la factura (Invoice type 'fiscal_invoice', userId
+ *   el trabajador y recipientId el cliente) y pide el CAE
+ * - authorize numera con el último comprobante autorizado + 1 bajo un lock
+ *   por emisor, punto de venta y tipo; si AFIP no responde la factura queda
+ *   'pending' y la reintenta retryPending (job fiscal-invoice-retry)
+ * - con el CAE se genera el PDF con el QR, se avisa al cliente y, si el
+ *   trabajador es monotributista, se compara lo facturado en los últimos 12
+ *   meses con el tope de su categoría
+ * - las notas de crédito electrónicas (las crea creditNotes.ts) pasan por el
+ *   mismo authorize, asociadas a la factura que acreditan; al autorizarse una
+ *   nota total se anula la factura
+ */
+
+import QRCode from 'qrcode';
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Invoice } from '../models/sql/Invoice.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { Notification } from '../models/sql/Notification.model.js';
+import { User } from '../models/sql/User.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { getNextInvoiceNumber } from './invoiceService.js';
+import { getFiscalProvider } from './fiscalProviders.js';
+import messageTemplates from './messageTemplates.js';
+import pdfGenerator from './pdfGenerator.js';
+import { toCurrency } from './money.js';
+import {
+  DOC_TYPES,
+  FISCAL_VOUCHERS,
+  OFFLINE_NOTICE,
+  RECEIVER_IVA_CONDITIONS,
+  afipQrUrl,
+  fiscalAmounts,
+  fiscalLabels,
+  formatFiscalNumber,
+  invoicingReadiness,
+  monotributoCrossing,
+  monotributoUsage,
+  monotributoWindowStart,
+  receiverDocument,
+  type FiscalAmounts,
+  type MonotributoUsage,
+  type ReceiverDocument,
+  type WsfeAssociatedVoucher,
+} from './fiscalRules.js';
+
+const ISSUER_ATTRIBUTES = [
+  'id', 'name', 'email', 'address', 'membershipTier', 'fiscalCondition', 'monotributoAnnualLimit',
+  'fiscalCuit', 'fiscalPointOfSale', 'electronicInvoicingEnabled',
+];
+const RECIPIENT_ATTRIBUTES = ['id', 'name', 'email', 'address', 'legalInfo'];
+const RETRY_BATCH = 50;
+
+class FiscalInvoicingService {
+  /**
+   * Factura electrónica del contrato completado. Devuelve null si el
+   * trabajador no factura electrónicamente (o el contrato no es en pesos).
+   */
+  async issueForContract(contractId: string): Promise<Invoice | null> {
+    const contract = await Contract.findByPk(contractId, {
+      include: [
+        { model: User, as: 'doer', attributes: ISSUER_ATTRIBUTES },
+        { model: User, as: 'client', attributes: RECIPIENT_ATTRIBUTES },
+        { model: Job, as: 'job', attributes: ['id', 'title'] },
+      ],
+    });
+    if (!contract || contract.status !== 'completed' || !contract.doer || !contract.client) return null;
+
+    const doer = contract.doer;
+    const readiness = invoicingReadiness(doer);
+    if (!readiness.ready || !readiness.voucherType) return null;
+    if (toCurrency(contract.currency) !== 'ARS') {
+      console.warn(`[Fiscal] Contract ${contractId} is in ${contract.currency}: electronic invoices are only issued in ARS`);
+      return null;
+    }
+
+    const existing = await Invoice.findOne({ where: { contractId, type: 'fiscal_invoice', userId: doer.id } });
+    if (existing) return existing.fiscalStatus === 'pending' ? this.authorize(existing) : existing;
+
+    const client = contract.client;
+    const amounts = fiscalAmounts(readiness.voucherType, Number(contract.allocatedAmount || contract.price));
+    const receiver = receiverDocument(client.legalInfo, client.getDecryptedIdNumber());
+
+    const invoice = await Invoice.create({
+      invoiceNumber: await getNextInvoiceNumber(),
+      type: 'fiscal_invoice',
+      userId: doer.id,
+      recipientId: client.id,
+      contractId: contract.id,
+      amount: amounts.total,
+      commission: 0,
+      total: amounts.total,
+      currency: 'ARS',
+      status: 'generated',
+      fiscalType: readiness.voucherType,
+      issuerCuit: doer.fiscalCuit,
+      pointOfSale: doer.fiscalPointOfSale,
+      fiscalStatus: 'pending',
+      metadata: {
+        jobTitle: contract.job?.title,
+        jobId: contract.job?.id,
+        workerName: doer.name,
+        clientName: client.name,
+        receiverDocType: receiver.docType,
+        receiverDocNumber: receiver.docNumber,
+        receiverIvaCondition: receiver.ivaCondition,
+        netAmount: amounts.net,
+        vatAmount: amounts.vat,
+      },
+    });
+
+    return this.authorize(invoice);
+  }
+
+  /**
+   * Pide el CAE de una factura o nota de crédito pendiente (o rechazada, con
+   * la configuración actual del emisor). Si AFIP no responde queda pendiente
+   * para reintentar.
+   */
+  async authorize(invoice: Invoice): Promise<Invoice> {
+    if (!invoice.fiscalType) throw new ErrorResponse('No es un comprobante electrónico', 400);
+    if (invoice.status === 'void') throw new ErrorResponse('El comprobante está anulado', 400);
+    if (invoice.fiscalStatus === 'authorized') return invoice.pdfUrl ? invoice : this.finalize(invoice);
+
+    const [issuer, contract, associated] = await Promise.all([
+      User.findByPk(invoice.userId, { attributes: ISSUER_ATTRIBUTES }),
+      invoice.contractId ? Contract.findByPk(invoice.contractId, { attributes: ['id', 'startDate', 'endDate', 'createdAt'] }) : null,
+      this.associatedOf(invoice),
+    ]);
+    if (!issuer) throw new ErrorResponse('Emisor no encontrado', 404);
+
+    if (invoice.fiscalStatus === 'rejected') {
+      const readiness = invoicingReadiness(issuer);
+      if (!readiness.ready) {
+        throw new ErrorResponse(`Completá tu configuración fiscal: ${readiness.missing.join(', ')}`, 400);
+      }
+      await invoice.update({ issuerCuit: issuer.fiscalCuit, pointOfSale: issuer.fiscalPointOfSale, fiscalStatus: 'pending' });
+    }
+
+    const provider = getFiscalProvider();
+    const voucherType = invoice.fiscalType!;
+    const issuerCuit = invoice.issuerCuit!;
+    const pointOfSale = invoice.pointOfSale!;
+    const now = new Date();
+
+    try {
+      await sequelize.transaction(async (transaction) => {
+        // Un pedido a la vez por emisor, punto de venta y tipo: AFIP solo acepta
+        // el número siguiente al último autorizado
+        await sequelize.query('SELECT pg_advisory_xact_lock(hashtext(:key))', {
+          replacements: { key: `fiscal:${issuerCuit}:${pointOfSale}:${voucherType}` },
+          transaction,
+        });
+
+        const number = (await provider.lastAuthorized(issuerCuit, pointOfSale, voucherType)) + 1;
+        const serviceFrom = contract?.startDate ? new Date(contract.startDate) : invoice.createdAt;
+        const serviceTo = contract?.endDate && new Date(contract.endDate) < now ? new Date(contract.endDate) : now;
+        const result = await provider.authorize(issuerCuit, {
+          voucherType,
+          pointOfSale,
+          number,
+          date: now,
+          serviceFrom: serviceFrom > serviceTo ? serviceTo : serviceFrom,
+          serviceTo,
+          amounts: this.amountsOf(invoice),
+          receiver: this.receiverOf(invoice),
+          associated: associated ?? undefined,
+        });
+
+        const metadata = { ...invoice.metadata, voucherDate: now.toISOString(), fiscalMessages: result.messages };
+        if (result.result === 'A' && result.cae) {
+          await invoice.update(
+            {
+              fiscalNumber: result.number ?? number,
+              cae: result.cae,
+              caeExpiresAt: result.caeExpiresAt ? result.caeExpiresAt.toISOString().slice(0, 10) : null,
+              fiscalProvider: provider.name,
+              fiscalStatus: 'authorized',
+              metadata,
+            },
+            { transaction }
+          );
+        } else {
+          await invoice.update({ fiscalProvider: provider.name, fiscalStatus: 'rejected', metadata }, { transaction });
+        }
+      });
+    } catch (error: any) {
+      // AFIP caída, sin credenciales o sin delegación: queda pendiente
+      console.error(`[Fiscal] Invoice ${invoice.id} not authorized yet:`, error.message);
+      await invoice.update({ metadata: { ...invoice.metadata, fiscalMessages: [error.message] } });
+      return invoice;
+    }
+
+    if (invoice.fiscalStatus === 'rejected') {
+      await this.notifyRejected(invoice);
+      return invoice;
+    }
+    return this.finalize(invoice);
+  }
+
+  /** Reintenta los comprobantes que AFIP no llegó a autorizar y los PDF que faltan. */
+  async retryPending(): Promise<{ processed: number; failed: number }> {
+    const invoices = await Invoice.findAll({
+      where: {
+        fiscalType: { [Op.ne]: null },
+        status: { [Op.ne]: 'void' },
+        [Op.or]: [{ fiscalStatus: 'pending' }, { fiscalStatus: 'authorized', pdfUrl: null }],
+      },
+      order: [['createdAt', 'ASC']],
+      limit: RETRY_BATCH,
+    });
+
+    let processed = 0;
+    let failed = 0;
+    for (const invoice of invoices) {
+      try {
+        const result = await this.authorize(invoice);
+        if (result.fiscalStatus === 'authorized' && result.pdfUrl) processed++;
+        else failed++;
+      } catch (error: any) {
+        failed++;
+        console.error(`[Fiscal] Retry of invoice ${invoice.id} failed:`, error.message);
+      }
+    }
+    return { processed, failed };
+  }
+
+  /**
+   * Facturado (autorizado) por el trabajador en los últimos 12 meses contra
+   * su tope, neto de sus notas de crédito.
+   */
+  async usage(userId: string, limit: number | null | undefined, now: Date = new Date()): Promise<MonotributoUsage> {
+    const window = { userId, fiscalStatus: 'authorized', createdAt: { [Op.gte]: monotributoWindowStart(now) } };
+    const [invoiced, credited] = await Promise.all([
+      Invoice.sum('total', { where: { ...window, type: 'fiscal_invoice' } }),
+      Invoice.sum('total', { where: { ...window, type: 'credit_note', fiscalType: { [Op.ne]: null } } }),
+    ]);
+    return monotributoUsage(Math.max(0, (Number(invoiced) || 0) - (Number(credited) || 0)), limit);
+  }
+
+  /** PDF con CAE y QR, aviso al cliente y control del tope de monotributo. */
+  private async finalize(invoice: Invoice): Promise<Invoice> {
+    const [issuer, recipient] = await Promise.all([
+      User.findByPk(invoice.userId, { attributes: ISSUER_ATTRIBUTES }),
+      invoice.recipientId ? User.findByPk(invoice.recipientId, { attributes: RECIPIENT_ATTRIBUTES }) : null,
+    ]);
+    const voucher = FISCAL_VOUCHERS[invoice.fiscalType!];
+    const receiver = this.receiverOf(invoice);
+    const amounts = this.amountsOf(invoice);
+    const number = formatFiscalNumber(invoice.pointOfSale!, invoice.fiscalNumber!);
+    // Fecha del comprobante (CbteFch): la del pedido del CAE
+    const date = invoice.metadata?.voucherDate ? new Date(invoice.metadata.voucherDate) : invoice.updatedAt;
+    const qrUrl = afipQrUrl({
+      date,
+      issuerCuit: invoice.issuerCuit!,
+      pointOfSale: invoice.pointOfSale!,
+      voucherType: invoice.fiscalType!,
+      number: invoice.fiscalNumber!,
+      total: amounts.total,
+      receiver,
+      cae: invoice.cae!,
+    });
+    const labels = fiscalLabels(issuer?.fiscalCondition, receiver);
+    const isCreditNote = invoice.type === 'credit_note';
+
+    const pdfPath = await pdfGenerator.generateInvoice({
+      invoiceNumber: invoice.invoiceNumber,
+      date,
+      sellerName: issuer?.name || invoice.metadata?.workerName || 'Trabajador',
+      sellerEmail: issuer?.email || '',
+      sellerAddress: issuer?.address?.city || '',
+      sellerCuit: invoice.issuerCuit!.replace(/^(\d{2})(\d{8})(\d)$/, '$1-$2-$3'),
+      buyerName: recipient?.name || invoice.metadata?.clientName || 'Consumidor Final',
+      buyerEmail: recipient?.email || '',
+      buyerAddress: recipient?.address?.city || '',
+      items: [{
+        description: invoice.metadata?.jobTitle || 'Servicio',
+        quantity: 1,
+        unitPrice: amounts.net,
+        total: amounts.net,
+      }],
+      subtotal: amounts.net,
+      ...(amounts.vat > 0 && { tax: amounts.vat, taxRate: amounts.vatRate }),
+      total: amounts.total,
+      currency: 'ARS',
+      contractId: invoice.contractId || undefined,
+      jobTitle: invoice.metadata?.jobTitle,
+      ...(isCreditNote && {
+        creditNote: {
+          creditedNumber: invoice.metadata?.creditedInvoiceNumber || '',
+          reason: invoice.metadata?.creditReason || '',
+          scope: invoice.metadata?.creditScope || 'partial',
+        },
+      }),
+      fiscal: {
+        label: voucher.label,
+        letter: voucher.letter,
+        code: voucher.code,
+        number,
+        ...labels,
+        cae: invoice.cae!,
+        caeExpiresAt: new Date(`${invoice.caeExpiresAt}T00:00:00.000Z`),
+        qrPng: await QRCode.toBuffer(qrUrl, { margin: 1, width: 180 }),
+        notice: invoice.fiscalProvider === 'offline' ? OFFLINE_NOTICE : undefined,
+      },
+    });
+    await invoice.update({ pdfUrl: pdfPath, metadata: { ...invoice.metadata, qrUrl } });
+
+    if (isCreditNote) {
+      // Nota total: la factura queda anulada recién cuando AFIP autoriza la nota
+      if (invoice.metadata?.creditScope === 'total' && invoice.creditedInvoiceId) {
+        await Invoice.update({ status: 'void' }, { where: { id: invoice.creditedInvoiceId } });
+      }
+      if (recipient) {
+        await messageTemplates
+          .notify(recipient.id, 'invoice.credit_note', {
+            recipientName: recipient.name || '',
+            voucher: `Nota de crédito ${voucher.letter} ${number}`,
+            creditedVoucher: invoice.metadata?.creditedInvoiceNumber || '',
+            amount: amounts.total,
+            currency: 'ARS',
+            reason: invoice.metadata?.creditReason || '',
+          }, { channels: ['in_app', 'email'] })
+          .catch((error) => console.error('[Fiscal] Recipient notification error:', error.message));
+      }
+      console.log(`✅ [Fiscal] Credit note ${voucher.letter} ${number} authorized for issuer ${invoice.issuerCuit}`);
+      return invoice;
+    }
+
+    if (recipient) {
+      await messageTemplates
+        .notify(recipient.id, 'invoice.fiscal_issued', {
+          recipientName: recipient.name || '',
+          issuerName: issuer?.name || 'El trabajador',
+          voucher: `Factura ${voucher.letter} ${number}`,
+          amount: amounts.total,
+          jobTitle: invoice.metadata?.jobTitle || 'Servicio',
+        }, { channels: ['in_app', 'email'] })
+        .catch((error) => console.error('[Fiscal] Recipient notification error:', error.message));
+    }
+
+    if (issuer?.fiscalCondition === 'monotributo') await this.checkMonotributoLimit(issuer, amounts.total);
+
+    console.log(`✅ [Fiscal] Invoice ${voucher.letter} ${number} authorized for issuer ${invoice.issuerCuit}`);
+    return invoice;
+  }
+
+  /** Avisa una vez al cruzar el 80% y otra al pasar el 100% del tope. */
+  private async checkMonotributoLimit(issuer: User, lastTotal: number): Promise<void> {
+    const after = await this.usage(issuer.id, issuer.monotributoAnnualLimit);
+    const before = monotributoUsage(after.invoiced - lastTotal, after.limit);
+    const crossing = monotributoCrossing(before, after);
+    if (!crossing || after.limit === null || after.percent === null) return;
+
+    await messageTemplates
+      .notify(issuer.id, 'monotributo.limit', {
+        userName: issuer.name || '',
+        percent: after.percent,
+        invoiced: after.invoiced,
+        limit: after.limit,
+      }, { channels: ['in_app', 'email', 'push'], type: crossing === 'over' ? 'alert' : 'warning' })
+      .catch((error) => console.error('[Fiscal] Monotributo limit notification error:', error.message));
+  }
+
+  private async notifyRejected(invoice: Invoice): Promise<void> {
+    const messages = invoice.metadata?.fiscalMessages || [];
+    await Notification.create({
+      recipientId: invoice.userId,
+      type: 'error',
+      category: 'payment',
+      title: 'AFIP rechazó tu factura electrónica',
+      message: `La factura de "${invoice.metadata?.jobTitle || 'tu trabajo'}" no fue autorizada${messages.length ? `: ${messages.join('; ')}` : ''}. Revisá tu CUIT, punto de venta y la delegación del servicio y reintentá desde Impuestos y Obligaciones.`,
+      relatedModel: 'Invoice',
+      relatedId: invoice.id,
+      actionUrl: '/pro/finanzas',
+      actionText: 'Revisar',
+      data: { invoiceId: invoice.id },
+      sentVia: ['in_app'],
+    }).catch((error) => console.error('[Fiscal] Rejection notification error:', error.message));
+  }
+
+  /** Factura autorizada que acredita una nota de crédito (CbtesAsoc); null si no es una nota. */
+  private async associatedOf(invoice: Invoice): Promise<WsfeAssociatedVoucher | null> {
+    if (invoice.type !== 'credit_note') return null;
+    const original = invoice.creditedInvoiceId ? await Invoice.findByPk(invoice.creditedInvoiceId) : null;
+    if (!original?.fiscalType || original.fiscalStatus !== 'authorized' || !original.fiscalNumber) {
+      throw new ErrorResponse('La factura que acredita la nota no está autorizada por AFIP', 400);
+    }
+    return {
+      voucherType: original.fiscalType,
+      pointOfSale: original.pointOfSale!,
+      number: original.fiscalNumber,
+      issuerCuit: original.issuerCuit!,
+      date: original.metadata?.voucherDate ? new Date(original.metadata.voucherDate) : original.updatedAt,
+    };
+  }
+
+  private amountsOf(invoice: Invoice): FiscalAmounts {
+    return fiscalAmounts(invoice.fiscalType!, Number(invoice.total));
+  }
+
+  private receiverOf(invoice: Invoice): ReceiverDocument {
+    return {
+      docType: invoice.metadata?.receiverDocType ?? DOC_TYPES.consumidorFinal,
+      docNumber: invoice.metadata?.receiverDocNumber ?? '0',
+      ivaCondition: invoice.metadata?.receiverIvaCondition ?? RECEIVER_IVA_CONDITIONS.consumidorFinal,
+    };
+  }
+}
+
+const fiscalInvoicing = new FiscalInvoicingService();
+export default fiscalInvoicing;
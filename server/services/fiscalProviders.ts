@@ -0,0 +1,168 @@
+/**
+ * Fiscal Providers
+ *
+ * Quién autoriza los comprobantes electrónicos (reglas en fiscalRules.ts):
+ *
+ * - WsfeFiscalProvider: AFIP real. Firma el ticket de acceso con el
+ *   certificado de la plataforma (openssl cms), lo canjea en WSAA por un token
+ *   que se reutiliza hasta que vence, y pide el CAE a WSFEv1 en nombre del
+ *   trabajador (que le delegó el servicio "wsfe" a la plataforma)
+ * - OfflineFiscalProvider: sin conexión, para desarrollo y homologación
+ *   interna. Numera a partir de los comprobantes ya guardados y devuelve un
+ *   CAE de prueba; el PDF lo aclara (OFFLINE_NOTICE)
+ *
+ * FISCAL_PROVIDER elige cuál usa getFiscalProvider().
+ */
+
+import crypto from 'crypto';
+import { spawn } from 'child_process';
+import { config } from '../config/env.js';
+import { Invoice } from '../models/sql/Invoice.model.js';
+import {
+  buildFecaeSolicitar,
+  buildFecompUltimoAutorizado,
+  buildLoginTicketRequest,
+  parseFecaeResponse,
+  parseLastAuthorized,
+  parseLoginTicketResponse,
+  type FiscalProviderName,
+  type FiscalVoucherType,
+  type WsfeAuthorization,
+  type WsfeVoucher,
+} from './fiscalRules.js';
+
+export interface FiscalProvider {
+  readonly name: FiscalProviderName;
+  /** Último número autorizado para el punto de venta y tipo (0 si no hay). */
+  lastAuthorized(issuerCuit: string, pointOfSale: number, voucherType: FiscalVoucherType): Promise<number>;
+  /** Pide el CAE del comprobante. Un rechazo vuelve como result 'R', no como excepción. */
+  authorize(issuerCuit: string, voucher: WsfeVoucher): Promise<WsfeAuthorization>;
+}
+
+const AFIP_URLS = {
+  homologacion: {
+    wsaa: 'https://wsaahomo.afip.gov.ar/ws/services/LoginCms',
+    wsfe: 'https://wswhomo.afip.gov.ar/wsfev1/service.asmx',
+  },
+  production: {
+    wsaa: 'https://wsaa.afip.gov.ar/ws/services/LoginCms',
+    wsfe: 'https://servicios1.afip.gov.ar/wsfev1/service.asmx',
+  },
+};
+const REQUEST_TIMEOUT_MS = 30000;
+// Margen para no usar un token que vence en medio del pedido
+const TICKET_MARGIN_MS = 5 * 60 * 1000;
+
+export class WsfeFiscalProvider implements FiscalProvider {
+  readonly name = 'wsfe' as const;
+  private ticket: { token: string; sign: string; expiresAt: Date } | null = null;
+
+  constructor(
+    private readonly options: { env: 'homologacion' | 'production'; certPath: string; keyPath: string }
+  ) {}
+
+  async lastAuthorized(issuerCuit: string, pointOfSale: number, voucherType: FiscalVoucherType): Promise<number> {
+    const auth = { ...(await this.login()), cuit: issuerCuit };
+    const xml = await this.call('FECompUltimoAutorizado', buildFecompUltimoAutorizado(auth, pointOfSale, voucherType));
+    return parseLastAuthorized(xml);
+  }
+
+  async authorize(issuerCuit: string, voucher: WsfeVoucher): Promise<WsfeAuthorization> {
+    const auth = { ...(await this.login()), cuit: issuerCuit };
+    const xml = await this.call('FECAESolicitar', buildFecaeSolicitar(auth, voucher));
+    return parseFecaeResponse(xml);
+  }
+
+  /** Token y firma de WSAA para el servicio wsfe (WSAA no da otro mientras el actual siga vigente). */
+  private async login(): Promise<{ token: string; sign: string }> {
+    if (this.ticket && this.ticket.expiresAt.getTime() - TICKET_MARGIN_MS > Date.now()) return this.ticket;
+    if (!this.options.certPath || !this.options.keyPath) {
+      throw new Error('Faltan AFIP_CERT_PATH / AFIP_KEY_PATH para facturar con WSFE');
+    }
+
+    const cms = await this.signTicket(buildLoginTicketRequest('wsfe', new Date()));
+    const envelope = '<soapenv:Envelope xmlns:soapenv="http://schemas.xmlsoap.org/soap/envelope/" xmlns:wsaa="http://wsaa.view.sua.dvadac.desein.afip.gov">'
+      + `<soapenv:Header/><soapenv:Body><wsaa:loginCms><wsaa:in0>${cms}</wsaa:in0></wsaa:loginCms></soapenv:Body></soapenv:Envelope>`;
+    const response = await fetch(AFIP_URLS[this.options.env].wsaa, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: '' },
+      body: envelope,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    this.ticket = parseLoginTicketResponse(await response.text());
+    return this.ticket;
+  }
+
+  /** Firma CMS (PKCS#7) del ticket, en base64, con el certificado de la plataforma. */
+  private signTicket(ticket: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn('openssl', [
+        'cms', '-sign', '-signer', this.options.certPath, '-inkey', this.options.keyPath, '-nodetach', '-outform', 'DER',
+      ]);
+      const chunks: Buffer[] = [];
+      let stderr = '';
+      child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+      child.stderr.on('data', (chunk: Buffer) => { stderr += chunk.toString(); });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) resolve(Buffer.concat(chunks).toString('base64'));
+        else reject(new Error(`openssl cms terminó con código ${code}: ${stderr.trim()}`));
+      });
+      child.stdin.end(ticket);
+    });
+  }
+
+  private async call(method: string, envelope: string): Promise<string> {
+    const response = await fetch(AFIP_URLS[this.options.env].wsfe, {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/xml; charset=utf-8', SOAPAction: `http://ar.gov.afip.dif.FEV1/${method}` },
+      body: envelope,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text();
+    // Los errores de SOAP vienen con 500 y un faultstring que lee fiscalRules
+    if (!response.ok && !text.includes('faultstring')) {
+      throw new Error(`WSFE ${method} respondió ${response.status}`);
+    }
+    return text;
+  }
+}
+
+export class OfflineFiscalProvider implements FiscalProvider {
+  readonly name = 'offline' as const;
+
+  async lastAuthorized(issuerCuit: string, pointOfSale: number, voucherType: FiscalVoucherType): Promise<number> {
+    const last = await Invoice.max<number, Invoice>('fiscalNumber', {
+      where: { issuerCuit, pointOfSale, fiscalType: voucherType },
+    });
+    return Number(last) || 0;
+  }
+
+  async authorize(issuerCuit: string, voucher: WsfeVoucher): Promise<WsfeAuthorization> {
+    const digest = crypto
+      .createHash('sha256')
+      .update(`${issuerCuit}:${voucher.pointOfSale}:${voucher.voucherType}:${voucher.number}`)
+      .digest();
+    // 14 dígitos como el CAE real, siempre empezando con 9 para distinguirlo
+    const cae = `9${Array.from(digest.subarray(0, 13), (byte) => byte % 10).join('')}`;
+    const caeExpiresAt = new Date(voucher.date);
+    caeExpiresAt.setUTCHours(0, 0, 0, 0);
+    caeExpiresAt.setUTCDate(caeExpiresAt.getUTCDate() + 10);
+    return { result: 'A', cae, caeExpiresAt, number: voucher.number, messages: [] };
+  }
+}
+
+let provider: FiscalProvider | null = null;
+
+export function getFiscalProvider(): FiscalProvider {
+  if (!provider) {
+    provider = config.fiscalProvider === 'wsfe'
+      ? new WsfeFiscalProvider({
+          env: config.afipEnv as 'homologacion' | 'production',
+          certPath: config.afipCertPath,
+          keyPath: config.afipKeyPath,
+        })
+      : new OfflineFiscalProvider();
+  }
+  return provider;
+}
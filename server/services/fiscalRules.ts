@@ -0,0 +1,498 @@
+/**
+ * Reglas de facturación electrónica (AFIP, WSFEv1) de los trabajadores SUPER PRO
+ *
+ * Al completarse un contrato, el trabajador monotributista emite una Factura C
+ * y el responsable inscripto una Factura B al cliente, desde el punto de venta
+ * "Web Services" que configuró y con el CAE que devuelve AFIP:
+ *
+ * - configuración fiscal del emisor (CUIT, punto de venta) y si está lista
+ * - documento y condición frente al IVA del receptor (consumidor final si no
+ *   cargó sus datos)
+ * - importes (neto + IVA 21% en la B), pedido FECAESolicitar y lectura de las
+ *   respuestas de WSFE y WSAA
+ * - QR de la RG 4291 y número "00003-00000042"
+ * - notas de crédito (NC B / NC C) asociadas a la factura que acreditan
+ * - facturación de los últimos 12 meses contra el tope de la categoría de
+ *   monotributo (avisa al 80% y al 100%; no bloquea la emisión: el servicio ya
+ *   se prestó y hay que facturarlo)
+ *
+ * Módulo puro; los proveedores (WSFE y offline) están en fiscalProviders.ts y
+ * la emisión en fiscalInvoicing.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { fromDecimal, fromMinor, subtract, toDecimal } from './money.js';
+
+export type FiscalCondition = 'monotributo' | 'responsable_inscripto' | 'particular';
+export type FiscalVoucherType = 'factura_b' | 'factura_c' | 'nota_credito_b' | 'nota_credito_c';
+export type FiscalStatus = 'pending' | 'authorized' | 'rejected';
+export type FiscalProviderName = 'wsfe' | 'offline';
+
+/** Código de comprobante de AFIP y letra de cada tipo. */
+export const FISCAL_VOUCHERS: Record<FiscalVoucherType, { code: number; letter: 'B' | 'C'; label: string }> = {
+  factura_b: { code: 6, letter: 'B', label: 'FACTURA B' },
+  factura_c: { code: 11, letter: 'C', label: 'FACTURA C' },
+  nota_credito_b: { code: 8, letter: 'B', label: 'NOTA DE CRÉDITO B' },
+  nota_credito_c: { code: 13, letter: 'C', label: 'NOTA DE CRÉDITO C' },
+};
+
+const CREDIT_NOTE_VOUCHERS: Partial<Record<FiscalVoucherType, FiscalVoucherType>> = {
+  factura_b: 'nota_credito_b',
+  factura_c: 'nota_credito_c',
+};
+
+// Tablas de parámetros de WSFE (FEParamGetTiposDoc, FEParamGetCondicionIvaReceptor)
+export const DOC_TYPES = { cuit: 80, cuil: 86, dni: 96, consumidorFinal: 99 } as const;
+export const RECEIVER_IVA_CONDITIONS = { responsableInscripto: 1, consumidorFinal: 5, monotributo: 6 } as const;
+const CONCEPT_SERVICES = 2;
+const IVA_21_ID = 5;
+const IVA_21_RATE = 21;
+
+export const MAX_POINT_OF_SALE = 99999;
+export const MONOTRIBUTO_WINDOW_MONTHS = 12;
+export const MONOTRIBUTO_NEAR_PERCENT = 80;
+// CAE emitido fuera de AFIP (proveedor offline): no tiene validez fiscal
+export const OFFLINE_NOTICE = 'Comprobante de prueba emitido sin conexión a AFIP: sin validez fiscal';
+
+const AFIP_QR_URL = 'https://www.afip.gob.ar/fe/qr/';
+// Argentina no tiene horario de verano: las fechas de AFIP son UTC-3
+const AR_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+/** Tipo de comprobante según la condición fiscal del emisor (null: no factura). */
+export function fiscalVoucherType(condition: string | null | undefined): FiscalVoucherType | null {
+  if (condition === 'monotributo') return 'factura_c';
+  // El responsable inscripto factura B a consumidores finales y monotributistas;
+  // la Factura A (a otro responsable inscripto) no se emite desde la plataforma
+  if (condition === 'responsable_inscripto') return 'factura_b';
+  return null;
+}
+
+/** Nota de crédito de la misma letra que la factura que acredita. */
+export function creditNoteVoucherType(invoiceType: FiscalVoucherType): FiscalVoucherType {
+  const type = CREDIT_NOTE_VOUCHERS[invoiceType];
+  if (!type) throw new ErrorResponse('Solo se pueden acreditar facturas', 400);
+  return type;
+}
+
+export function isCreditNoteVoucher(type: FiscalVoucherType): boolean {
+  return type === 'nota_credito_b' || type === 'nota_credito_c';
+}
+
+export function normalizeCuit(value: unknown): string {
+  return String(value ?? '').replace(/\D/g, '');
+}
+
+/** CUIT/CUIL de 11 dígitos con dígito verificador válido. */
+export function isValidCuit(value: unknown): boolean {
+  const cuit = normalizeCuit(value);
+  if (!/^\d{11}$/.test(cuit)) return false;
+  const weights = [5, 4, 3, 2, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((total, weight, i) => total + weight * Number(cuit[i]), 0);
+  const check = 11 - (sum % 11);
+  const digit = check === 11 ? 0 : check === 10 ? 9 : check;
+  return digit === Number(cuit[10]);
+}
+
+export interface FiscalSettings {
+  fiscalCuit: string | null;
+  fiscalPointOfSale: number | null;
+  electronicInvoicingEnabled: boolean;
+}
+
+/**
+ * Cambios a la configuración de facturación electrónica (PUT /api/membership/fiscal).
+ * Solo devuelve los campos presentes en el body.
+ */
+export function parseFiscalSettings(body: Record<string, any> = {}): Partial<FiscalSettings> {
+  const settings: Partial<FiscalSettings> = {};
+
+  if (body.fiscalCuit !== undefined) {
+    const cuit = normalizeCuit(body.fiscalCuit);
+    if (cuit && !isValidCuit(cuit)) throw new ErrorResponse('CUIT inválido', 400);
+    settings.fiscalCuit = cuit || null;
+  }
+  if (body.fiscalPointOfSale !== undefined) {
+    if (body.fiscalPointOfSale === null || body.fiscalPointOfSale === '') {
+      settings.fiscalPointOfSale = null;
+    } else {
+      const pointOfSale = Number(body.fiscalPointOfSale);
+      if (!Number.isInteger(pointOfSale) || pointOfSale < 1 || pointOfSale > MAX_POINT_OF_SALE) {
+        throw new ErrorResponse(`El punto de venta debe ser un número entre 1 y ${MAX_POINT_OF_SALE}`, 400);
+      }
+      settings.fiscalPointOfSale = pointOfSale;
+    }
+  }
+  if (body.electronicInvoicingEnabled !== undefined) {
+    settings.electronicInvoicingEnabled = body.electronicInvoicingEnabled === true || body.electronicInvoicingEnabled === 'true';
+  }
+  return settings;
+}
+
+export interface FiscalIssuer {
+  membershipTier?: string | null;
+  fiscalCondition?: string | null;
+  fiscalCuit?: string | null;
+  fiscalPointOfSale?: number | null;
+  electronicInvoicingEnabled?: boolean | null;
+}
+
+/** Qué le falta al trabajador para facturar electrónicamente (vacío: listo). */
+export function invoicingReadiness(issuer: FiscalIssuer): { ready: boolean; voucherType: FiscalVoucherType | null; missing: string[] } {
+  const voucherType = fiscalVoucherType(issuer.fiscalCondition);
+  const missing: string[] = [];
+  if (issuer.membershipTier !== 'super_pro') missing.push('Membresía SUPER PRO');
+  if (!voucherType) missing.push('Condición fiscal monotributo o responsable inscripto');
+  if (!isValidCuit(issuer.fiscalCuit)) missing.push('CUIT');
+  if (!issuer.fiscalPointOfSale) missing.push('Punto de venta');
+  if (!issuer.electronicInvoicingEnabled) missing.push('Activar la facturación electrónica');
+  return { ready: missing.length === 0, voucherType, missing };
+}
+
+export interface ReceiverDocument {
+  docType: number;
+  docNumber: string;
+  ivaCondition: number;
+}
+
+/**
+ * Documento del cliente a partir de sus datos legales (idNumber ya
+ * desencriptado). Sin datos válidos se factura a consumidor final.
+ */
+export function receiverDocument(
+  legalInfo: { idType?: string | null; taxStatus?: string | null; vatNumber?: string | null } | null | undefined,
+  idNumber?: string | null
+): ReceiverDocument {
+  const ivaCondition = legalInfo?.taxStatus === 'responsable_inscripto'
+    ? RECEIVER_IVA_CONDITIONS.responsableInscripto
+    : legalInfo?.taxStatus === 'monotributo'
+      ? RECEIVER_IVA_CONDITIONS.monotributo
+      : RECEIVER_IVA_CONDITIONS.consumidorFinal;
+
+  const vat = normalizeCuit(legalInfo?.vatNumber);
+  if (isValidCuit(vat)) return { docType: DOC_TYPES.cuit, docNumber: vat, ivaCondition };
+
+  const id = normalizeCuit(idNumber);
+  if ((legalInfo?.idType === 'cuit' || legalInfo?.idType === 'cuil') && isValidCuit(id)) {
+    return { docType: legalInfo.idType === 'cuit' ? DOC_TYPES.cuit : DOC_TYPES.cuil, docNumber: id, ivaCondition };
+  }
+  if (legalInfo?.idType === 'dni' && /^\d{7,8}$/.test(id)) {
+    return { docType: DOC_TYPES.dni, docNumber: id, ivaCondition: RECEIVER_IVA_CONDITIONS.consumidorFinal };
+  }
+  return { docType: DOC_TYPES.consumidorFinal, docNumber: '0', ivaCondition: RECEIVER_IVA_CONDITIONS.consumidorFinal };
+}
+
+const ISSUER_CONDITION_LABELS: Record<string, string> = {
+  monotributo: 'Responsable Monotributo',
+  responsable_inscripto: 'IVA Responsable Inscripto',
+};
+
+const RECEIVER_CONDITION_LABELS: Record<number, string> = {
+  [RECEIVER_IVA_CONDITIONS.responsableInscripto]: 'IVA Responsable Inscripto',
+  [RECEIVER_IVA_CONDITIONS.consumidorFinal]: 'Consumidor Final',
+  [RECEIVER_IVA_CONDITIONS.monotributo]: 'Responsable Monotributo',
+};
+
+/** Condiciones frente al IVA y documento del receptor, como se imprimen en el comprobante. */
+export function fiscalLabels(issuerCondition: string | null | undefined, receiver: ReceiverDocument): {
+  issuerCondition: string;
+  receiverCondition: string;
+  receiverDocument: string | undefined;
+} {
+  const docName = Object.entries(DOC_TYPES).find(([, code]) => code === receiver.docType)?.[0];
+  const number = receiver.docType === DOC_TYPES.dni
+    ? receiver.docNumber
+    : receiver.docNumber.replace(/^(\d{2})(\d{8})(\d)$/, '$1-$2-$3');
+  return {
+    issuerCondition: ISSUER_CONDITION_LABELS[issuerCondition || ''] || '',
+    receiverCondition: RECEIVER_CONDITION_LABELS[receiver.ivaCondition] || 'Consumidor Final',
+    receiverDocument: docName && receiver.docType !== DOC_TYPES.consumidorFinal ? `${docName.toUpperCase()} ${number}` : undefined,
+  };
+}
+
+export interface FiscalAmounts {
+  total: number;
+  net: number;
+  vat: number;
+  vatRate: number;
+}
+
+/** Los comprobantes C no discriminan IVA; los B lo calculan incluido en el total (21%). */
+export function fiscalAmounts(voucherType: FiscalVoucherType, total: number): FiscalAmounts {
+  const gross = fromDecimal(total, 'ARS');
+  if (gross.amount <= 0) throw new ErrorResponse('El importe a facturar debe ser mayor a cero', 400);
+  if (FISCAL_VOUCHERS[voucherType].letter === 'C') {
+    return { total: toDecimal(gross), net: toDecimal(gross), vat: 0, vatRate: 0 };
+  }
+  const net = fromMinor(Math.round((gross.amount * 100) / (100 + IVA_21_RATE)), 'ARS');
+  return { total: toDecimal(gross), net: toDecimal(net), vat: toDecimal(subtract(gross, net)), vatRate: IVA_21_RATE };
+}
+
+/** Fecha AAAAMMDD de AFIP, en hora argentina. */
+export function wsfeDate(date: Date): string {
+  return new Date(date.getTime() - AR_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/** AAAAMMDD → Date (medianoche UTC), o null si no es una fecha. */
+export function parseWsfeDate(value: string | null | undefined): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})$/.exec(value || '');
+  return match ? new Date(`${match[1]}-${match[2]}-${match[3]}T00:00:00.000Z`) : null;
+}
+
+/** "00003-00000042" */
+export function formatFiscalNumber(pointOfSale: number, number: number): string {
+  return `${String(pointOfSale).padStart(5, '0')}-${String(number).padStart(8, '0')}`;
+}
+
+export interface WsfeVoucher {
+  voucherType: FiscalVoucherType;
+  pointOfSale: number;
+  number: number;
+  date: Date;
+  serviceFrom: Date;
+  serviceTo: Date;
+  amounts: FiscalAmounts;
+  receiver: ReceiverDocument;
+  // Notas de crédito: la factura que acreditan (CbtesAsoc)
+  associated?: WsfeAssociatedVoucher;
+}
+
+export interface WsfeAssociatedVoucher {
+  voucherType: FiscalVoucherType;
+  pointOfSale: number;
+  number: number;
+  issuerCuit: string;
+  date: Date;
+}
+
+export interface WsfeAuth {
+  token: string;
+  sign: string;
+  cuit: string;
+}
+
+function xmlEscape(value: string | number): string {
+  return String(value).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function xmlUnescape(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/** `{ A: 1, B: { C: 2 } }` → `<ar:A>1</ar:A><ar:B><ar:C>2</ar:C></ar:B>` (en orden). */
+function xmlFields(fields: Record<string, unknown>): string {
+  return Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([name, value]) =>
+      `<ar:${name}>${value !== null && typeof value === 'object' ? xmlFields(value as Record<string, unknown>) : xmlEscape(value as string | number)}</ar:${name}>`
+    )
+    .join('');
+}
+
+function wsfeEnvelope(method: string, auth: WsfeAuth, body: Record<string, unknown>): string {
+  return '<?xml version="1.0" encoding="utf-8"?>'
+    + '<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/" xmlns:ar="http://ar.gov.afip.dif.FEV1/">'
+    + `<soap:Body><ar:${method}>`
+    + xmlFields({ Auth: { Token: auth.token, Sign: auth.sign, Cuit: auth.cuit }, ...body })
+    + `</ar:${method}></soap:Body></soap:Envelope>`;
+}
+
+const amount = (value: number) => value.toFixed(2);
+
+/** Pedido FECAESolicitar de un comprobante (el orden de los campos es el del WSDL). */
+export function buildFecaeSolicitar(auth: WsfeAuth, voucher: WsfeVoucher): string {
+  const { amounts } = voucher;
+  const detail: Record<string, unknown> = {
+    Concepto: CONCEPT_SERVICES,
+    DocTipo: voucher.receiver.docType,
+    DocNro: voucher.receiver.docNumber,
+    CbteDesde: voucher.number,
+    CbteHasta: voucher.number,
+    CbteFch: wsfeDate(voucher.date),
+    ImpTotal: amount(amounts.total),
+    ImpTotConc: amount(0),
+    ImpNeto: amount(amounts.net),
+    ImpOpEx: amount(0),
+    ImpTrib: amount(0),
+    ImpIVA: amount(amounts.vat),
+    FchServDesde: wsfeDate(voucher.serviceFrom),
+    FchServHasta: wsfeDate(voucher.serviceTo),
+    FchVtoPago: wsfeDate(voucher.date),
+    MonId: 'PES',
+    MonCotiz: 1,
+    CondicionIVAReceptorId: voucher.receiver.ivaCondition,
+    CbtesAsoc: voucher.associated
+      ? {
+          CbteAsoc: {
+            Tipo: FISCAL_VOUCHERS[voucher.associated.voucherType].code,
+            PtoVta: voucher.associated.pointOfSale,
+            Nro: voucher.associated.number,
+            Cuit: normalizeCuit(voucher.associated.issuerCuit),
+            CbteFch: wsfeDate(voucher.associated.date),
+          },
+        }
+      : undefined,
+    Iva: amounts.vat > 0
+      ? { AlicIva: { Id: IVA_21_ID, BaseImp: amount(amounts.net), Importe: amount(amounts.vat) } }
+      : undefined,
+  };
+  return wsfeEnvelope('FECAESolicitar', auth, {
+    FeCAEReq: {
+      FeCabReq: { CantReg: 1, PtoVta: voucher.pointOfSale, CbteTipo: FISCAL_VOUCHERS[voucher.voucherType].code },
+      FeDetReq: { FECAEDetRequest: detail },
+    },
+  });
+}
+
+/** Pedido FECompUltimoAutorizado: último número autorizado del punto de venta y tipo. */
+export function buildFecompUltimoAutorizado(auth: WsfeAuth, pointOfSale: number, voucherType: FiscalVoucherType): string {
+  return wsfeEnvelope('FECompUltimoAutorizado', auth, { PtoVta: pointOfSale, CbteTipo: FISCAL_VOUCHERS[voucherType].code });
+}
+
+function xmlTag(xml: string, name: string): string | null {
+  const match = new RegExp(`<(?:\\w+:)?${name}>([^<]*)</(?:\\w+:)?${name}>`).exec(xml);
+  return match ? xmlUnescape(match[1].trim()) : null;
+}
+
+function xmlMessages(xml: string, container: 'Err' | 'Obs'): string[] {
+  const blocks = xml.match(new RegExp(`<(?:\\w+:)?${container}>[\\s\\S]*?</(?:\\w+:)?${container}>`, 'g')) || [];
+  return blocks.map((block) => `${xmlTag(block, 'Code') ?? ''}: ${xmlTag(block, 'Msg') ?? ''}`.replace(/^: /, ''));
+}
+
+/** Errores de WSFE o del SOAP que impiden leer la respuesta. */
+function assertNoFault(xml: string): void {
+  const fault = xmlTag(xml, 'faultstring');
+  if (fault) throw new ErrorResponse(`AFIP: ${fault}`, 502);
+}
+
+export interface WsfeAuthorization {
+  result: 'A' | 'R' | 'P';
+  cae: string | null;
+  caeExpiresAt: Date | null;
+  number: number | null;
+  messages: string[];
+}
+
+/** Respuesta de FECAESolicitar: A (aprobado), R (rechazado) o P (parcial). */
+export function parseFecaeResponse(xml: string): WsfeAuthorization {
+  assertNoFault(xml);
+  const detail = /<(?:\w+:)?FECAEDetResponse>[\s\S]*?<\/(?:\w+:)?FECAEDetResponse>/.exec(xml)?.[0] || xml;
+  const result = (xmlTag(detail, 'Resultado') || xmlTag(xml, 'Resultado') || 'R') as WsfeAuthorization['result'];
+  const cae = xmlTag(detail, 'CAE');
+  const number = Number(xmlTag(detail, 'CbteDesde'));
+  return {
+    result,
+    cae: result === 'A' && cae && /^\d{14}$/.test(cae) ? cae : null,
+    caeExpiresAt: parseWsfeDate(xmlTag(detail, 'CAEFchVto')),
+    number: Number.isInteger(number) && number > 0 ? number : null,
+    messages: [...xmlMessages(xml, 'Err'), ...xmlMessages(detail, 'Obs')],
+  };
+}
+
+/** Respuesta de FECompUltimoAutorizado (0 si el punto de venta no emitió nada). */
+export function parseLastAuthorized(xml: string): number {
+  assertNoFault(xml);
+  const errors = xmlMessages(xml, 'Err');
+  const raw = xmlTag(xml, 'CbteNro');
+  const number = Number(raw);
+  if (errors.length > 0 || !raw || !Number.isInteger(number) || number < 0) {
+    throw new ErrorResponse(`AFIP no devolvió el último comprobante${errors.length ? `: ${errors.join('; ')}` : ''}`, 502);
+  }
+  return number;
+}
+
+/** Ticket de acceso (TRA) que se firma para pedirle un token a WSAA. */
+export function buildLoginTicketRequest(service: string, now: Date): string {
+  const iso = (date: Date) => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+  return '<?xml version="1.0" encoding="UTF-8"?>'
+    + '<loginTicketRequest version="1.0"><header>'
+    + `<uniqueId>${Math.floor(now.getTime() / 1000)}</uniqueId>`
+    + `<generationTime>${iso(new Date(now.getTime() - 10 * 60 * 1000))}</generationTime>`
+    + `<expirationTime>${iso(new Date(now.getTime() + 10 * 60 * 1000))}</expirationTime>`
+    + `</header><service>${xmlEscape(service)}</service></loginTicketRequest>`;
+}
+
+/** Respuesta de loginCms: el ticket viene escapado dentro de loginCmsReturn. */
+export function parseLoginTicketResponse(xml: string): { token: string; sign: string; expiresAt: Date } {
+  assertNoFault(xml);
+  const ticket = xmlTag(xml, 'loginCmsReturn') || xml;
+  const token = xmlTag(ticket, 'token');
+  const sign = xmlTag(ticket, 'sign');
+  const expiresAt = new Date(xmlTag(ticket, 'expirationTime') || '');
+  if (!token || !sign || isNaN(expiresAt.getTime())) {
+    throw new ErrorResponse('AFIP (WSAA) no devolvió un ticket de acceso válido', 502);
+  }
+  return { token, sign, expiresAt };
+}
+
+export interface AfipQrData {
+  date: Date;
+  issuerCuit: string;
+  pointOfSale: number;
+  voucherType: FiscalVoucherType;
+  number: number;
+  total: number;
+  receiver: ReceiverDocument;
+  cae: string;
+}
+
+/** URL del QR que exige la RG 4291 (JSON en base64 en el parámetro `p`). */
+export function afipQrUrl(data: AfipQrData): string {
+  const payload: Record<string, string | number> = {
+    ver: 1,
+    fecha: `${wsfeDate(data.date).slice(0, 4)}-${wsfeDate(data.date).slice(4, 6)}-${wsfeDate(data.date).slice(6, 8)}`,
+    cuit: Number(normalizeCuit(data.issuerCuit)),
+    ptoVta: data.pointOfSale,
+    tipoCmp: FISCAL_VOUCHERS[data.voucherType].code,
+    nroCmp: data.number,
+    importe: Number(data.total.toFixed(2)),
+    moneda: 'PES',
+    ctz: 1,
+  };
+  if (data.receiver.docType !== DOC_TYPES.consumidorFinal) {
+    payload.tipoDocRec = data.receiver.docType;
+    payload.nroDocRec = Number(data.receiver.docNumber);
+  }
+  payload.tipoCodAut = 'E';
+  payload.codAut = Number(data.cae);
+  return `${AFIP_QR_URL}?p=${Buffer.from(JSON.stringify(payload)).toString('base64')}`;
+}
+
+/** Inicio de la ventana de 12 meses que mira AFIP para la recategorización. */
+export function monotributoWindowStart(now: Date): Date {
+  const start = new Date(now);
+  start.setMonth(start.getMonth() - MONOTRIBUTO_WINDOW_MONTHS);
+  return start;
+}
+
+export type MonotributoLevel = 'ok' | 'near' | 'over';
+
+export interface MonotributoUsage {
+  invoiced: number;
+  limit: number | null;
+  percent: number | null;
+  level: MonotributoLevel;
+}
+
+/** Facturado en la ventana contra el tope de la categoría (sin tope: siempre 'ok'). */
+export function monotributoUsage(invoiced: number, limit: number | null | undefined): MonotributoUsage {
+  const cap = Number(limit) > 0 ? Number(limit) : null;
+  const total = Math.round((Number(invoiced) || 0) * 100) / 100;
+  if (!cap) return { invoiced: total, limit: null, percent: null, level: 'ok' };
+  const percent = Math.round((total / cap) * 100);
+  const level: MonotributoLevel = percent >= 100 ? 'over' : percent >= MONOTRIBUTO_NEAR_PERCENT ? 'near' : 'ok';
+  return { invoiced: total, limit: cap, percent, level };
+}
+
+/**
+ * Nivel al que se pasó con la última factura, si subió de nivel (para avisar
+ * una sola vez al cruzar el 80% y otra al cruzar el 100%).
+ */
+export function monotributoCrossing(before: MonotributoUsage, after: MonotributoUsage): MonotributoLevel | null {
+  const rank: Record<MonotributoLevel, number> = { ok: 0, near: 1, over: 2 };
+  return rank[after.level] > rank[before.level] ? after.level : null;
+}
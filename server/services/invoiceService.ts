@@ -5,6 +5,15 @@ import { default as WithdrawalRequest } from '../models/sql/WithdrawalRequest.mo
 import { User } from '../models/sql/User.model.js';
 import { Job } from '../models/sql/Job.model.js';
 import pdfGenerator from './pdfGenerator.js';
+import { convert, fromDecimal, subtract, toCurrency, toDecimal } from './money.js';
+import { invoiceBreakdownFromContract } from './quoteContractRules.js';
+import {
+  CREDIT_NOTE_SERIES,
+  INVOICE_SERIES,
+  nextSeriesNumber,
+  type CreditNoteSource,
+  type CreditScope,
+} from './creditNoteRules.js';
 import { Op } from 'sequelize';
 
 /**
@@ -13,26 +22,33 @@ import { Op } from 'sequelize';
  */
 
 /**
- * Generate sequential invoice number: DOAPP-YYYY-NNNNNN
+ * Next number of a yearly series: SERIES-YYYY-NNNNNN
  */
-async function getNextInvoiceNumber(): Promise<string> {
+async function getNextSeriesNumber(series: string): Promise<string> {
   const year = new Date().getFullYear();
-  const prefix = `DOAPP-${year}-`;
 
-  const lastInvoice = await Invoice.findOne({
+  const last = await Invoice.findOne({
     where: {
-      invoiceNumber: { [Op.like]: `${prefix}%` },
+      invoiceNumber: { [Op.like]: `${series}-${year}-%` },
     },
     order: [['invoiceNumber', 'DESC']],
   });
 
-  let nextNum = 1;
-  if (lastInvoice) {
-    const lastNum = parseInt(lastInvoice.invoiceNumber.split('-')[2], 10);
-    if (!isNaN(lastNum)) nextNum = lastNum + 1;
-  }
+  return nextSeriesNumber(series, year, last?.invoiceNumber);
+}
+
+/**
+ * Generate sequential invoice number: DOAPP-YYYY-NNNNNN
+ */
+export async function getNextInvoiceNumber(): Promise<string> {
+  return getNextSeriesNumber(INVOICE_SERIES);
+}
 
-  return `${prefix}${String(nextNum).padStart(6, '0')}`;
+/**
+ * Credit notes have their own series: NC-YYYY-NNNNNN
+ */
+export async function getNextCreditNoteNumber(): Promise<string> {
+  return getNextSeriesNumber(CREDIT_NOTE_SERIES);
 }
 
 /**
@@ -61,10 +77,23 @@ export async function generateClientPaymentInvoice(paymentId: string): Promise<I
     const contract = (payment as any).contract;
     const job = contract?.job;
 
-    const amount = parseFloat(payment.amount as any) || 0;
-    const platformFee = parseFloat(payment.platformFee as any) || 0;
+    // La factura va en la moneda cobrada. La comisión se registra en la moneda
+    // del contrato; si difiere, se pasa con la cotización congelada del pago.
+    const charged = fromDecimal(payment.amount, toCurrency(payment.currency));
+    const settledFee = fromDecimal(payment.platformFee, toCurrency(payment.settlementCurrency || payment.currency));
+    const fee = settledFee.currency !== charged.currency && payment.rateSnapshot
+      ? convert(settledFee, charged.currency, payment.rateSnapshot)
+      : { ...settledFee, currency: charged.currency };
+
+    const amount = toDecimal(charged);
+    const platformFee = toDecimal(fee);
     const total = amount;
 
+    // Contrato desde una cotización: mismos ítems e impuestos que su PDF (si se cobró en su moneda)
+    const breakdown = contract && charged.currency === toCurrency(contract.currency)
+      ? invoiceBreakdownFromContract(contract, contract.price, charged.currency)
+      : null;
+
     // Generate PDF
     const pdfPath = await pdfGenerator.generateInvoice({
       invoiceNumber,
@@ -77,21 +106,23 @@ export async function generateClientPaymentInvoice(paymentId: string): Promise<I
       buyerEmail: payer?.email || '',
       buyerAddress: payer?.address?.city || '',
       buyerCuit: payer?.legalInfo?.vatNumber || payer?.legalInfo?.idNumber || '',
-      items: [{
+      items: breakdown?.items || [{
         description: job?.title || payment.description || 'Servicio de publicación',
         quantity: 1,
         unitPrice: amount,
         total: amount,
       }],
-      subtotal: amount,
+      subtotal: breakdown?.subtotal ?? amount,
+      ...(breakdown && { tax: breakdown.tax, taxRate: breakdown.taxRate, otherTaxes: breakdown.otherTaxes }),
       commission: platformFee,
       commissionRate: parseFloat(payment.platformFeePercentage as any) || 0,
       total,
-      currency: payment.currency || 'ARS',
+      currency: charged.currency,
       paymentMethod: payment.paymentMethod || 'mercadopago',
       transactionId: payment.mercadopagoPaymentId || payment.id,
       contractId: payment.contractId || undefined,
       jobTitle: job?.title,
+      quoteNumber: breakdown ? contract.taxBreakdown?.quoteNumber : undefined,
     });
 
     // Create invoice record
@@ -104,7 +135,7 @@ export async function generateClientPaymentInvoice(paymentId: string): Promise<I
       amount,
       commission: platformFee,
       total,
-      currency: payment.currency || 'ARS',
+      currency: charged.currency,
       pdfUrl: pdfPath,
       status: 'generated',
       metadata: {
@@ -113,6 +144,12 @@ export async function generateClientPaymentInvoice(paymentId: string): Promise<I
         paymentMethod: payment.paymentMethod,
         transactionId: payment.mercadopagoPaymentId,
         description: payment.description,
+        ...(breakdown && { quoteId: contract.quoteId || undefined, quoteNumber: contract.taxBreakdown?.quoteNumber }),
+        ...(payment.rateSnapshot && {
+          settlementCurrency: payment.settlementCurrency,
+          settlementAmount: payment.settlementAmount,
+          rateSnapshot: payment.rateSnapshot,
+        }),
       },
     });
 
@@ -151,9 +188,15 @@ export async function generateWorkerPaymentInvoice(contractId: string): Promise<
     const client = (contract as any).client;
     const job = (contract as any).job;
 
-    const allocatedAmount = parseFloat(contract.allocatedAmount as any) || parseFloat(contract.price as any) || 0;
-    const commission = parseFloat(contract.commission as any) || 0;
-    const workerAmount = allocatedAmount - commission;
+    // El trabajador cobra en la moneda del contrato, sin conversión
+    const currency = toCurrency(contract.currency);
+    const allocated = fromDecimal(contract.allocatedAmount || contract.price, currency);
+    const commissionMoney = fromDecimal(contract.commission, currency);
+
+    const allocatedAmount = toDecimal(allocated);
+    const commission = toDecimal(commissionMoney);
+    const workerAmount = toDecimal(subtract(allocated, commissionMoney));
+    const breakdown = invoiceBreakdownFromContract(contract, allocatedAmount, currency);
 
     // Generate PDF
     const pdfPath = await pdfGenerator.generateInvoice({
@@ -167,20 +210,22 @@ export async function generateWorkerPaymentInvoice(contractId: string): Promise<
       buyerEmail: 'pagos@doapp.com.ar',
       buyerAddress: 'Argentina',
       buyerCuit: process.env.COMPANY_CUIT || '30-12345678-9',
-      items: [{
+      items: breakdown?.items || [{
         description: `Trabajo: ${job?.title || 'Servicio completado'}`,
         quantity: 1,
         unitPrice: allocatedAmount,
         total: allocatedAmount,
       }],
-      subtotal: allocatedAmount,
+      subtotal: breakdown?.subtotal ?? allocatedAmount,
+      ...(breakdown && { tax: breakdown.tax, taxRate: breakdown.taxRate, otherTaxes: breakdown.otherTaxes }),
       commission,
       commissionRate: allocatedAmount > 0 ? (commission / allocatedAmount) * 100 : 0,
       total: workerAmount,
-      currency: 'ARS',
+      currency,
       paymentMethod: 'Transferencia bancaria',
       contractId: contract.id,
       jobTitle: job?.title,
+      quoteNumber: breakdown ? contract.taxBreakdown?.quoteNumber : undefined,
       notes: `Pago por contrato completado. Cliente: ${client?.name || 'N/A'}`,
     });
 
@@ -192,7 +237,7 @@ export async function generateWorkerPaymentInvoice(contractId: string): Promise<
       amount: allocatedAmount,
       commission,
       total: workerAmount,
-      currency: 'ARS',
+      currency,
       pdfUrl: pdfPath,
       status: 'generated',
       metadata: {
@@ -201,6 +246,7 @@ export async function generateWorkerPaymentInvoice(contractId: string): Promise<
         clientName: client?.name,
         commissionRate: allocatedAmount > 0 ? (commission / allocatedAmount) * 100 : 0,
         paymentMethod: 'bank_transfer',
+        ...(breakdown && { quoteId: contract.quoteId || undefined, quoteNumber: contract.taxBreakdown?.quoteNumber }),
       },
     });
 
@@ -276,21 +322,91 @@ export async function generateWithdrawalReceipt(withdrawalId: string): Promise<I
 }
 
 /**
- * Get all invoices for a user
+ * Generate a credit note (NC-YYYY-NNNNNN) against a platform invoice when part
+ * or all of it is refunded. A total credit note voids the original invoice.
+ * Electronic invoices (AFIP) are credited by creditNotes.ts instead.
+ */
+export async function generateCreditNote(
+  original: Invoice,
+  credit: { amount: number; scope: CreditScope; source: CreditNoteSource; reason: string; refundKey: string }
+): Promise<Invoice> {
+  const invoiceNumber = await getNextCreditNoteNumber();
+  const holder = await User.findByPk(original.recipientId || original.userId, {
+    attributes: ['id', 'name', 'email', 'address', 'legalInfo'],
+  });
+
+  const pdfPath = await pdfGenerator.generateInvoice({
+    invoiceNumber,
+    date: new Date(),
+    sellerName: 'DOAPP S.R.L.',
+    sellerEmail: 'facturacion@doapp.com.ar',
+    sellerAddress: 'Argentina',
+    sellerCuit: process.env.COMPANY_CUIT || '30-12345678-9',
+    buyerName: holder?.name || 'Cliente',
+    buyerEmail: holder?.email || '',
+    buyerAddress: holder?.address?.city || '',
+    buyerCuit: holder?.legalInfo?.vatNumber || holder?.getDecryptedIdNumber() || '',
+    items: [{
+      description: original.metadata?.jobTitle || original.metadata?.description || 'Servicio',
+      quantity: 1,
+      unitPrice: credit.amount,
+      total: credit.amount,
+    }],
+    subtotal: credit.amount,
+    total: credit.amount,
+    currency: original.currency,
+    contractId: original.contractId || undefined,
+    jobTitle: original.metadata?.jobTitle,
+    creditNote: { creditedNumber: original.invoiceNumber, reason: credit.reason, scope: credit.scope },
+  });
+
+  const note = await Invoice.create({
+    invoiceNumber,
+    type: 'credit_note',
+    userId: original.userId,
+    recipientId: original.recipientId || null,
+    paymentId: original.paymentId || null,
+    contractId: original.contractId || null,
+    creditedInvoiceId: original.id,
+    refundKey: credit.refundKey,
+    amount: credit.amount,
+    commission: 0,
+    total: credit.amount,
+    currency: original.currency,
+    pdfUrl: pdfPath,
+    status: 'generated',
+    metadata: {
+      jobTitle: original.metadata?.jobTitle,
+      jobId: original.metadata?.jobId,
+      creditSource: credit.source,
+      creditReason: credit.reason,
+      creditScope: credit.scope,
+      creditedInvoiceNumber: original.invoiceNumber,
+    },
+  });
+
+  if (credit.scope === 'total') await original.update({ status: 'void' });
+
+  console.log(`✅ [Invoice] Generated credit note ${invoiceNumber} for invoice ${original.invoiceNumber}`);
+  return note;
+}
+
+/**
+ * Get all invoices for a user (including electronic invoices issued to them by a worker)
  */
 export async function getUserInvoices(userId: string): Promise<Invoice[]> {
   return Invoice.findAll({
-    where: { userId },
+    where: { [Op.or]: [{ userId }, { recipientId: userId }] },
     order: [['createdAt', 'DESC']],
   });
 }
 
 /**
- * Get invoice by ID (with ownership check)
+ * Get invoice by ID (with ownership check: issuer or recipient)
  */
 export async function getInvoiceById(invoiceId: string, userId: string): Promise<Invoice | null> {
   return Invoice.findOne({
-    where: { id: invoiceId, userId },
+    where: { id: invoiceId, [Op.or]: [{ userId }, { recipientId: userId }] },
   });
 }
 
@@ -298,6 +414,7 @@ export default {
   generateClientPaymentInvoice,
   generateWorkerPaymentInvoice,
   generateWithdrawalReceipt,
+  generateCreditNote,
   getUserInvoices,
   getInvoiceById,
 };
@@ -0,0 +1,366 @@
+/**
+ * Job Scheduler
+ *
+ * Scheduler durable respaldado en Postgres que reemplaza a node-cron. Los jobs
+ * se declaran en código con schedule(nombre, cron, handler) y su estado vive
+ * en `scheduled_jobs`:
+ *
+ * - Cada instancia del servidor revisa los jobs vencidos cada 30s. Para
+ *   ejecutar un horario hay que avanzar `next_run_at` y tomar el lock con un
+ *   UPDATE condicional; solo una instancia lo logra, así que con varias
+ *   instancias de PM2 cada horario corre una única vez y un job nunca se
+ *   solapa consigo mismo.
+ * - Si el proceso estuvo caído, los horarios perdidos se agrupan en una
+ *   ejecución de catch-up al volver.
+ * - Cada ejecución queda registrada en `job_runs` (trigger, instancia,
+ *   duración, ítems procesados, errores) y un admin puede dispararla a mano.
+ *
+ * Las reglas puras (parser cron, horarios perdidos) viven en jobSchedulerRules.ts.
+ */
+
+import os from 'os';
+import { Op, type WhereOptions } from 'sequelize';
+import { ScheduledJob } from '../models/sql/ScheduledJob.model.js';
+import { JobRun } from '../models/sql/JobRun.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import {
+  DEFAULT_LEASE_MS,
+  TICK_INTERVAL_MS,
+  dueRun,
+  nextRunAfter,
+  parseCron,
+  type JobRunStatus,
+  type JobRunTrigger,
+} from './jobSchedulerRules.js';
+
+export interface JobRunContext {
+  runId: string;
+  trigger: JobRunTrigger;
+  scheduledFor: Date | null;
+  /** Suma ítems procesados (contratos, usuarios, emails...) a la ejecución */
+  addProcessed(count?: number): void;
+  /** Registra un error de un ítem sin cortar la ejecución */
+  recordError(error: unknown): void;
+}
+
+export type JobHandler = (run: JobRunContext) => Promise<void>;
+
+interface JobDefinition {
+  name: string;
+  cronExpression: string;
+  description: string | null;
+  leaseMs: number;
+  handler: JobHandler;
+}
+
+interface ScheduleOptions {
+  description?: string;
+  // Tiempo máximo que la instancia retiene el lock; pasado ese tiempo otra
+  // instancia asume que la ejecución murió
+  leaseMs?: number;
+}
+
+interface RunListFilters {
+  jobName?: string;
+  status?: JobRunStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Días que se conservan los registros de ejecución
+const RUN_RETENTION_DAYS = 30;
+
+const errorText = (error: unknown): string =>
+  String((error as any)?.stack || (error as any)?.message || error).slice(0, 4000);
+
+class JobScheduler {
+  private definitions = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  readonly instanceId = `${os.hostname()}:${process.pid}${
+    process.env.NODE_APP_INSTANCE !== undefined ? `:${process.env.NODE_APP_INSTANCE}` : ''
+  }`;
+
+  /**
+   * Declara un job. Reemplaza a `cron.schedule`: misma expresión cron, pero
+   * el handler recibe el contexto de la ejecución para reportar ítems y errores.
+   */
+  schedule(name: string, cronExpression: string, handler: JobHandler, options: ScheduleOptions = {}): void {
+    parseCron(cronExpression); // falla al arrancar si la expresión es inválida
+    this.definitions.set(name, {
+      name,
+      cronExpression,
+      description: options.description || null,
+      leaseMs: options.leaseMs || DEFAULT_LEASE_MS,
+      handler,
+    });
+  }
+
+  /**
+   * Sincroniza las definiciones con `scheduled_jobs` y arranca el loop.
+   * Un job nuevo (o con cron modificado) se programa desde ahora, sin catch-up.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.schedule('prune-job-runs', '30 3 * * *', async (run) => {
+      const cutoff = new Date(Date.now() - RUN_RETENTION_DAYS * 24 * 60 * 60 * 1000);
+      const deleted = await JobRun.destroy({
+        where: { startedAt: { [Op.lt]: cutoff }, status: { [Op.ne]: 'running' } },
+      });
+      run.addProcessed(deleted);
+    }, { description: `Elimina registros de ejecución de más de ${RUN_RETENTION_DAYS} días` });
+
+    const now = new Date();
+    for (const def of this.definitions.values()) {
+      const [job, created] = await ScheduledJob.findOrCreate({
+        where: { name: def.name },
+        defaults: {
+          name: def.name,
+          cronExpression: def.cronExpression,
+          description: def.description,
+          nextRunAt: nextRunAfter(def.cronExpression, now),
+        },
+      });
+      if (created) continue;
+
+      if (job.cronExpression !== def.cronExpression) {
+        await job.update({
+          cronExpression: def.cronExpression,
+          description: def.description,
+          nextRunAt: nextRunAfter(def.cronExpression, now),
+        });
+      } else if (job.description !== def.description) {
+        await job.update({ description: def.description });
+      }
+    }
+
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+    console.log(`✅ [SCHEDULER] ${this.definitions.size} jobs programados (instancia ${this.instanceId})`);
+
+    await this.tick();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Ejecuta los jobs vencidos que esta instancia logre tomar.
+   */
+  async tick(): Promise<void> {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const now = new Date();
+      const due = await ScheduledJob.findAll({
+        where: {
+          name: { [Op.in]: [...this.definitions.keys()] },
+          enabled: true,
+          nextRunAt: { [Op.lte]: now },
+          [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lt]: now } }],
+        },
+      });
+
+      for (const job of due) {
+        const def = this.definitions.get(job.name)!;
+        const plan = dueRun(def.cronExpression, job.nextRunAt, now);
+        if (!plan) continue;
+
+        const claimed = await this.claim(def, { expectedNextRunAt: job.nextRunAt, nextRunAt: plan.nextRunAt });
+        if (!claimed) continue; // otra instancia lo tomó
+
+        const run = await this.startRun(def, {
+          trigger: plan.trigger,
+          scheduledFor: plan.scheduledFor,
+          missedRuns: plan.missedRuns,
+        });
+        void this.execute(def, run);
+      }
+    } catch (error) {
+      console.error('❌ [SCHEDULER] Error revisando jobs programados:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Ejecución manual desde el panel de admin. No altera el próximo horario.
+   * Devuelve el registro de la ejecución apenas arranca.
+   */
+  async runNow(name: string, adminId: string | null): Promise<JobRun> {
+    const def = this.definitions.get(name);
+    if (!def) {
+      throw new ErrorResponse('Job no encontrado', 404);
+    }
+
+    const claimed = await this.claim(def, {});
+    if (!claimed) {
+      throw new ErrorResponse('El job se está ejecutando en este momento', 409);
+    }
+
+    const run = await this.startRun(def, { trigger: 'manual', scheduledFor: null, missedRuns: 0, triggeredBy: adminId });
+    void this.execute(def, run);
+    return run;
+  }
+
+  async setEnabled(name: string, enabled: boolean): Promise<ScheduledJob> {
+    const job = await ScheduledJob.findByPk(name);
+    if (!job || !this.definitions.has(name)) {
+      throw new ErrorResponse('Job no encontrado', 404);
+    }
+    // Al reactivar, se retoma desde el próximo horario (sin catch-up de la pausa)
+    await job.update({
+      enabled,
+      ...(enabled && !job.enabled ? { nextRunAt: nextRunAfter(job.cronExpression, new Date()) } : {}),
+    });
+    return job;
+  }
+
+  /**
+   * Jobs con su estado y la última ejecución de cada uno.
+   */
+  async listJobs() {
+    const jobs = await ScheduledJob.findAll({
+      where: { name: { [Op.in]: [...this.definitions.keys()] } },
+      order: [['name', 'ASC']],
+    });
+
+    const lastRuns = await Promise.all(
+      jobs.map((job) => JobRun.findOne({ where: { jobName: job.name }, order: [['startedAt', 'DESC']] }))
+    );
+
+    return jobs.map((job, i) => ({
+      ...job.toJSON(),
+      running: !!job.lockedUntil && job.lockedUntil.getTime() > Date.now(),
+      lastRun: lastRuns[i],
+    }));
+  }
+
+  async listRuns(filters: RunListFilters = {}) {
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 50));
+
+    const where: WhereOptions = {};
+    if (filters.jobName) Object.assign(where, { jobName: filters.jobName });
+    if (filters.status) Object.assign(where, { status: filters.status });
+
+    const { rows, count } = await JobRun.findAndCountAll({
+      where,
+      order: [['startedAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    return {
+      runs: rows,
+      pagination: { page, limit, total: count, pages: Math.ceil(count / limit) },
+    };
+  }
+
+  /**
+   * Toma el lock del job. Para los horarios programados además avanza
+   * `next_run_at`, condicionado a que nadie lo haya avanzado antes.
+   */
+  private async claim(
+    def: JobDefinition,
+    options: { expectedNextRunAt?: Date; nextRunAt?: Date }
+  ): Promise<boolean> {
+    const now = new Date();
+    const where: WhereOptions = {
+      name: def.name,
+      [Op.or]: [{ lockedUntil: null }, { lockedUntil: { [Op.lt]: now } }],
+    };
+    if (options.expectedNextRunAt) {
+      Object.assign(where, { enabled: true, nextRunAt: options.expectedNextRunAt });
+    }
+
+    const [claimed] = await ScheduledJob.update(
+      {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + def.leaseMs),
+        lastRunAt: now,
+        ...(options.nextRunAt ? { nextRunAt: options.nextRunAt } : {}),
+      },
+      { where }
+    );
+    return claimed > 0;
+  }
+
+  private async startRun(
+    def: JobDefinition,
+    options: { trigger: JobRunTrigger; scheduledFor: Date | null; missedRuns: number; triggeredBy?: string | null }
+  ): Promise<JobRun> {
+    // Con el lock tomado, cualquier ejecución que siga en 'running' quedó
+    // huérfana (la instancia murió antes de que venciera su lock)
+    await JobRun.update(
+      {
+        status: 'failed',
+        finishedAt: new Date(),
+        error: 'Interrumpida: la instancia no terminó la ejecución antes de que venciera el lock',
+      },
+      { where: { jobName: def.name, status: 'running' } }
+    );
+
+    return JobRun.create({
+      jobName: def.name,
+      trigger: options.trigger,
+      scheduledFor: options.scheduledFor,
+      missedRuns: options.missedRuns,
+      startedAt: new Date(),
+      instanceId: this.instanceId,
+      triggeredBy: options.triggeredBy || null,
+    });
+  }
+
+  private async execute(def: JobDefinition, run: JobRun): Promise<void> {
+    let itemsProcessed = 0;
+    let errorCount = 0;
+    let firstError: string | null = null;
+
+    const context: JobRunContext = {
+      runId: run.id,
+      trigger: run.trigger,
+      scheduledFor: run.scheduledFor || null,
+      addProcessed: (count = 1) => { itemsProcessed += count; },
+      recordError: (error) => {
+        errorCount++;
+        firstError = firstError || errorText(error);
+      },
+    };
+
+    let status: JobRunStatus = 'succeeded';
+    try {
+      await def.handler(context);
+    } catch (error) {
+      status = 'failed';
+      errorCount++;
+      firstError = errorText(error);
+      console.error(`❌ [SCHEDULER] Job ${def.name} falló:`, error);
+    }
+
+    try {
+      const finishedAt = new Date();
+      await run.update({
+        status,
+        finishedAt,
+        durationMs: finishedAt.getTime() - run.startedAt.getTime(),
+        itemsProcessed,
+        errorCount,
+        error: firstError,
+      });
+      await ScheduledJob.update(
+        { lockedBy: null, lockedUntil: null, lastStatus: status },
+        { where: { name: def.name, lockedBy: this.instanceId } }
+      );
+    } catch (error) {
+      console.error(`❌ [SCHEDULER] No se pudo registrar la ejecución de ${def.name}:`, error);
+    }
+  }
+}
+
+export default new JobScheduler();
@@ -0,0 +1,187 @@
+/**
+ * Job Scheduler Rules
+ *
+ * Parser de expresiones cron (5 campos, misma sintaxis que node-cron: `*`,
+ * `*\/n`, rangos `a-b`, listas `a,b` y rangos con paso `a-b/n`) y cálculo de
+ * la próxima ejecución y de las ejecuciones perdidas. Los horarios se evalúan
+ * en la hora local del proceso, igual que node-cron.
+ *
+ * Módulo puro para poder testearlo aislado; la persistencia y el locking
+ * viven en jobScheduler.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+
+export type JobRunTrigger = 'schedule' | 'catch_up' | 'manual';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+// Cada cuánto cada instancia revisa los jobs vencidos
+export const TICK_INTERVAL_MS = 30 * 1000;
+// Tiempo por defecto que una instancia retiene el lock de un job en ejecución
+export const DEFAULT_LEASE_MS = 30 * 60 * 1000;
+// Tope de ejecuciones perdidas que se cuentan (se ejecuta UNA sola de catch-up)
+export const MAX_MISSED_COUNT = 1000;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Con día del mes y día de la semana restringidos, cron usa OR entre ambos
+  domRestricted: boolean;
+  dowRestricted: boolean;
+}
+
+const FIELDS = [
+  { name: 'minuto', min: 0, max: 59 },
+  { name: 'hora', min: 0, max: 23 },
+  { name: 'día del mes', min: 1, max: 31 },
+  { name: 'mes', min: 1, max: 12 },
+  { name: 'día de la semana', min: 0, max: 7 },
+] as const;
+
+function invalid(expression: string, detail: string): ErrorResponse {
+  return new ErrorResponse(`Expresión cron inválida "${expression}": ${detail}`, 400);
+}
+
+function parseField(expression: string, raw: string, index: number): Set<number> {
+  const { name, min, max } = FIELDS[index];
+  const values = new Set<number>();
+
+  for (const part of raw.split(',')) {
+    const [range, stepRaw] = part.split('/');
+    const step = stepRaw === undefined ? 1 : Number(stepRaw);
+    if (!Number.isInteger(step) || step < 1) throw invalid(expression, `paso inválido en ${name}`);
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      from = min;
+      to = max;
+    } else if (range.includes('-')) {
+      [from, to] = range.split('-').map(Number);
+    } else {
+      from = Number(range);
+      // `5/15` equivale a `5-max/15`
+      to = stepRaw === undefined ? from : max;
+    }
+
+    if (!Number.isInteger(from) || !Number.isInteger(to) || from < min || to > max || from > to) {
+      throw invalid(expression, `valor fuera de rango en ${name}`);
+    }
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  // 7 también es domingo
+  if (index === 4 && values.has(7)) {
+    values.delete(7);
+    values.add(0);
+  }
+  return values;
+}
+
+export function parseCron(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw invalid(expression, 'se esperaban 5 campos');
+
+  return {
+    minutes: parseField(expression, parts[0], 0),
+    hours: parseField(expression, parts[1], 1),
+    daysOfMonth: parseField(expression, parts[2], 2),
+    months: parseField(expression, parts[3], 3),
+    daysOfWeek: parseField(expression, parts[4], 4),
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+function dayMatches(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getDate());
+  const dow = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  return dom && dow;
+}
+
+/**
+ * Primera ejecución estrictamente posterior a `after`.
+ */
+export function nextRunAfter(expression: string | CronSchedule, after: Date): Date {
+  const schedule = typeof expression === 'string' ? parseCron(expression) : expression;
+  const date = new Date(after.getTime());
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  // Salta mes / día / hora completos cuando no coinciden; 5 años alcanzan
+  // para cualquier expresión válida (p. ej. 29 de febrero)
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+  while (date.getTime() <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!dayMatches(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new ErrorResponse(`La expresión cron "${typeof expression === 'string' ? expression : ''}" nunca se ejecuta`, 400);
+}
+
+export interface DueRun {
+  // Horario programado que se ejecuta ahora (el más reciente vencido)
+  scheduledFor: Date;
+  // Horarios vencidos que se omiten porque se agrupan en esta ejecución
+  missedRuns: number;
+  trigger: Extract<JobRunTrigger, 'schedule' | 'catch_up'>;
+  // Próximo horario a guardar en scheduled_jobs.next_run_at
+  nextRunAt: Date;
+}
+
+/**
+ * Qué ejecutar para un job cuyo `nextRunAt` ya venció. Si el proceso estuvo
+ * caído y se perdieron varios horarios, se agrupan en UNA ejecución de
+ * catch-up (los jobs procesan "todo lo pendiente", no un horario puntual).
+ * Devuelve null si todavía no venció.
+ */
+export function dueRun(expression: string, nextRunAt: Date, now: Date): DueRun | null {
+  if (nextRunAt.getTime() > now.getTime()) return null;
+
+  const schedule = parseCron(expression);
+  let scheduledFor = nextRunAt;
+  let missedRuns = 0;
+  let following = nextRunAfter(schedule, scheduledFor);
+
+  while (following.getTime() <= now.getTime() && missedRuns < MAX_MISSED_COUNT) {
+    scheduledFor = following;
+    missedRuns++;
+    following = nextRunAfter(schedule, scheduledFor);
+  }
+  if (following.getTime() <= now.getTime()) {
+    following = nextRunAfter(schedule, now);
+  }
+
+  // Un horario que venció hace más de dos ticks no se ejecutó a tiempo
+  // (proceso caído o reiniciando): también es catch-up
+  const late = now.getTime() - scheduledFor.getTime() > 2 * TICK_INTERVAL_MS;
+
+  return {
+    scheduledFor,
+    missedRuns,
+    trigger: missedRuns > 0 || late ? 'catch_up' : 'schedule',
+    nextRunAt: following,
+  };
+}
@@ -0,0 +1,374 @@
+/**
+ * Job Team Chat Service
+ *
+ * Chat de equipo de los trabajos con varios trabajadores (reglas en
+ * teamChatRules.ts):
+ *
+ * - syncMembers crea la conversación 'job_team' del trabajo o ajusta sus
+ *   miembros al cliente más los trabajadores seleccionados; los que entran
+ *   reciben aviso y los que salen dejan el room al instante
+ * - markRead guarda la lectura por miembro y avisa al room (conversation:read)
+ *   para el "Visto por X de Y"
+ * - Menciones con aviso a los mencionados, anuncios de tareas del cliente y
+ *   mensajes fijados
+ */
+
+import { Op } from 'sequelize';
+import { Conversation } from '../models/sql/Conversation.model.js';
+import { ChatMessage } from '../models/sql/ChatMessage.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { JobTask } from '../models/sql/JobTask.model.js';
+import { User } from '../models/sql/User.model.js';
+import { Notification } from '../models/sql/Notification.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import {
+  bumpUnread,
+  diffMembers,
+  needsTeamChat,
+  parseAnnouncement,
+  pinMessage,
+  resolveMentions,
+  teamMembers,
+  unpinMessage,
+  withoutMembers,
+  type TeamMember,
+} from './teamChatRules.js';
+
+const SENDER_ATTRIBUTES = ['id', 'name', 'avatar', 'adminRole'];
+
+// socket.ts importa este servicio: se resuelve al usarlo para no cerrar el ciclo
+async function io() {
+  const { getIO } = await import('./socket.js');
+  return getIO();
+}
+
+class JobTeamChatService {
+  /** Conversación de equipo del trabajo (o el chat grupal viejo guardado en groupChatId). */
+  async findForJob(job: Job): Promise<Conversation | null> {
+    if (job.groupChatId) {
+      const conversation = await Conversation.findByPk(job.groupChatId);
+      if (conversation) return conversation;
+    }
+    return Conversation.findOne({ where: { jobId: job.id, type: 'job_team' } });
+  }
+
+  /**
+   * Ajusta el chat de equipo a los trabajadores seleccionados del trabajo.
+   * Devuelve null si el trabajo no lo necesita; los errores se registran y no
+   * cortan la operación que lo llamó.
+   */
+  async syncMembers(job: Job): Promise<Conversation | null> {
+    try {
+      const desired = teamMembers(job.clientId, job.selectedWorkers);
+      let conversation = await this.findForJob(job);
+
+      if (!conversation) {
+        if (!needsTeamChat(job)) return null;
+        conversation = await Conversation.create({
+          participants: desired,
+          jobId: job.id,
+          type: 'job_team',
+          lastMessage: `Chat grupal creado para el trabajo "${job.title}"`,
+          lastMessageAt: new Date(),
+        });
+        job.groupChatId = conversation.id;
+        await job.save();
+
+        await this.postSystemMessage(
+          conversation,
+          job.clientId,
+          `📋 Chat grupal del trabajo: ${job.title}||Equipo de trabajo||Este chat incluye al cliente y a todos los trabajadores seleccionados para este trabajo.\n\n👥 Participantes: ${desired.length}\n📍 Ubicación: ${job.location}\n📅 Inicio: ${new Date(job.startDate).toLocaleDateString('es-AR')}`,
+          { jobId: job.id, action: 'group_chat_created' }
+        );
+        await this.notifyJoined(job, conversation, desired);
+        return conversation;
+      }
+
+      const { joined, left } = diffMembers(conversation.participants, desired);
+      const upgraded = conversation.type !== 'job_team';
+      if (!joined.length && !left.length && !upgraded) return conversation;
+
+      conversation.type = 'job_team';
+      conversation.participants = desired;
+      conversation.unreadCount = withoutMembers(conversation.unreadCount, left);
+      conversation.lastReadAt = withoutMembers(conversation.lastReadAt, left);
+      conversation.archivedBy = (conversation.archivedBy || []).filter((id) => !left.includes(id));
+      conversation.changed('unreadCount', true);
+      conversation.changed('lastReadAt', true);
+      await conversation.save();
+
+      if (job.groupChatId !== conversation.id) {
+        job.groupChatId = conversation.id;
+        await job.save();
+      }
+
+      const users = await User.findAll({ where: { id: { [Op.in]: [...joined, ...left] } }, attributes: ['id', 'name'] });
+      const nameOf = (id: string) => users.find((user) => user.id === id)?.name || 'Un trabajador';
+      for (const userId of joined) {
+        await this.postSystemMessage(conversation, job.clientId, `👋 ${nameOf(userId)} se sumó al equipo`, {
+          jobId: job.id,
+          action: 'team_member_joined',
+          userId,
+        });
+      }
+      for (const userId of left) {
+        await this.postSystemMessage(conversation, job.clientId, `${nameOf(userId)} dejó el equipo`, {
+          jobId: job.id,
+          action: 'team_member_left',
+          userId,
+        });
+      }
+      await this.notifyJoined(job, conversation, joined);
+
+      const server = await io();
+      if (server) {
+        for (const userId of left) {
+          server.in(`user:${userId}`).socketsLeave(`conversation:${conversation.id}`);
+          server.to(`user:${userId}`).emit('conversation:removed', { conversationId: conversation.id });
+        }
+        server.to(`conversation:${conversation.id}`).emit('conversation:members', {
+          conversationId: conversation.id,
+          participants: conversation.participants,
+        });
+      }
+      return conversation;
+    } catch (error) {
+      console.error('Error syncing job team chat:', error);
+      return null;
+    }
+  }
+
+  /** Conversación de la que el usuario es miembro (404/403 si no). */
+  async loadForMember(conversationId: string, userId: string): Promise<Conversation> {
+    const conversation = await Conversation.findByPk(conversationId);
+    if (!conversation) throw new ErrorResponse('Conversación no encontrada', 404);
+    if (!conversation.participants.includes(userId)) {
+      throw new ErrorResponse('No tienes permiso para ver esta conversación', 403);
+    }
+    return conversation;
+  }
+
+  /**
+   * Marca la conversación leída por el usuario. En job_team guarda su última
+   * lectura y avisa al room; en las de dos personas marca los mensajes leídos.
+   */
+  async markRead(conversation: Conversation, userId: string): Promise<Date> {
+    const readAt = new Date();
+    if (conversation.type === 'job_team') {
+      conversation.lastReadAt = { ...(conversation.lastReadAt || {}), [userId]: readAt.toISOString() };
+      conversation.changed('lastReadAt', true);
+    } else {
+      await ChatMessage.update(
+        { read: true, readAt },
+        { where: { conversationId: conversation.id, senderId: { [Op.ne]: userId }, read: false } }
+      );
+    }
+    conversation.unreadCount = { ...(conversation.unreadCount || {}), [userId]: 0 };
+    conversation.changed('unreadCount', true);
+    await conversation.save();
+
+    if (conversation.type === 'job_team') {
+      (await io())?.to(`conversation:${conversation.id}`).emit('conversation:read', {
+        conversationId: conversation.id,
+        userId,
+        readAt,
+      });
+    }
+    return readAt;
+  }
+
+  /** Miembros mencionados en un mensaje del chat de equipo. */
+  async mentionsFor(conversation: Conversation, senderId: string, text: string, explicit?: unknown): Promise<string[]> {
+    if (conversation.type !== 'job_team') return [];
+    return resolveMentions(text, await this.members(conversation), senderId, explicit);
+  }
+
+  async notifyMentions(
+    conversation: Conversation,
+    message: ChatMessage,
+    sender: { id: string; name?: string },
+    mentions: string[]
+  ): Promise<void> {
+    const firstName = (sender.name || 'Alguien').split(' ')[0];
+    for (const recipientId of mentions) {
+      const notification = await Notification.create({
+        recipientId,
+        type: 'group_chat',
+        category: 'chat',
+        title: `${firstName} te mencionó`,
+        message: message.message.substring(0, 120),
+        relatedModel: 'Conversation',
+        relatedId: conversation.id,
+        actionText: 'Ir al chat',
+        data: { conversationId: conversation.id, messageId: message.id, jobId: conversation.jobId },
+        read: false,
+      });
+      (await io())?.to(`user:${recipientId}`).emit('notification:new', notification.toJSON());
+    }
+  }
+
+  /** Anuncio del cliente para el equipo, opcionalmente sobre una tarea; queda fijado. */
+  async announce(
+    conversation: Conversation,
+    sender: { id: string; name?: string },
+    input: { message?: unknown; taskId?: unknown; mentions?: unknown }
+  ): Promise<ChatMessage> {
+    const job = await this.requireTeamOwner(conversation, sender.id);
+    const { message, taskId } = parseAnnouncement(input);
+
+    let task: JobTask | null = null;
+    if (taskId) {
+      task = await JobTask.findOne({ where: { id: taskId, jobId: job.id } });
+      if (!task) throw new ErrorResponse('Tarea no encontrada en este trabajo', 404);
+    }
+
+    const mentions = await this.mentionsFor(conversation, sender.id, message, input.mentions);
+    const announcement = await ChatMessage.create({
+      conversationId: conversation.id,
+      senderId: sender.id,
+      message,
+      type: 'announcement',
+      metadata: {
+        action: 'task_announcement',
+        jobId: job.id,
+        taskId: task?.id || null,
+        taskTitle: task?.title || null,
+        mentions,
+      },
+    });
+
+    conversation.pinnedMessageIds = pinMessage(conversation.pinnedMessageIds, announcement.id);
+    conversation.unreadCount = bumpUnread(conversation.unreadCount, conversation.participants, sender.id);
+    conversation.changed('unreadCount', true);
+    conversation.lastMessage = `📌 ${message}`.substring(0, 200);
+    conversation.lastMessageAt = new Date();
+    await conversation.save();
+
+    const populated = (await ChatMessage.findByPk(announcement.id, {
+      include: [{ model: User, as: 'sender', attributes: SENDER_ATTRIBUTES }],
+    }))!;
+    const server = await io();
+    if (server) {
+      server.to(`conversation:${conversation.id}`).emit('message:new', populated);
+      this.emitPinned(server, conversation);
+      for (const participantId of conversation.participants.filter((id) => id !== sender.id)) {
+        server.to(`user:${participantId}`).emit('chat:message', { conversationId: conversation.id, message: populated });
+      }
+    }
+
+    const firstName = (sender.name || 'El cliente').split(' ')[0];
+    for (const recipientId of conversation.participants.filter((id) => id !== sender.id)) {
+      const mentioned = mentions.includes(recipientId);
+      const notification = await Notification.create({
+        recipientId,
+        type: 'group_chat',
+        category: 'chat',
+        title: mentioned ? `${firstName} te mencionó en un anuncio` : `Nuevo anuncio en "${job.title}"`,
+        message: task ? `${task.title}: ${message.substring(0, 100)}` : message.substring(0, 120),
+        relatedModel: 'Conversation',
+        relatedId: conversation.id,
+        actionText: 'Ir al chat',
+        data: { conversationId: conversation.id, messageId: announcement.id, jobId: job.id, taskId: task?.id || null },
+        read: false,
+      });
+      server?.to(`user:${recipientId}`).emit('notification:new', notification.toJSON());
+    }
+    return populated;
+  }
+
+  /** Fija o desfija un mensaje del chat de equipo (solo el cliente del trabajo). */
+  async setPinned(conversation: Conversation, userId: string, messageId: string, pinned: boolean): Promise<string[]> {
+    await this.requireTeamOwner(conversation, userId);
+    const message = await ChatMessage.findOne({ where: { id: messageId, conversationId: conversation.id, deleted: false } });
+    if (!message) throw new ErrorResponse('Mensaje no encontrado', 404);
+
+    conversation.pinnedMessageIds = pinned
+      ? pinMessage(conversation.pinnedMessageIds, messageId)
+      : unpinMessage(conversation.pinnedMessageIds, messageId);
+    await conversation.save();
+
+    const server = await io();
+    if (server) this.emitPinned(server, conversation);
+    return conversation.pinnedMessageIds;
+  }
+
+  /** Mensajes fijados con su remitente, en el orden en que se fijaron. */
+  async pinnedMessages(conversation: Conversation): Promise<ChatMessage[]> {
+    const ids = conversation.pinnedMessageIds || [];
+    if (ids.length === 0) return [];
+    const messages = await ChatMessage.findAll({
+      where: { id: { [Op.in]: ids }, deleted: false },
+      include: [{ model: User, as: 'sender', attributes: SENDER_ATTRIBUTES }],
+    });
+    return ids.map((id) => messages.find((message) => message.id === id)).filter((message): message is ChatMessage => !!message);
+  }
+
+  private async members(conversation: Conversation): Promise<TeamMember[]> {
+    const users = await User.findAll({ where: { id: { [Op.in]: conversation.participants } }, attributes: ['id', 'name'] });
+    return users.map((user) => ({ id: user.id, name: user.name || '' }));
+  }
+
+  private async requireTeamOwner(conversation: Conversation, userId: string): Promise<Job> {
+    if (conversation.type !== 'job_team' || !conversation.jobId) {
+      throw new ErrorResponse('Solo los chats de equipo admiten anuncios y mensajes fijados', 400);
+    }
+    const job = await Job.findByPk(conversation.jobId);
+    if (!job) throw new ErrorResponse('Trabajo no encontrado', 404);
+    if (job.clientId !== userId) {
+      throw new ErrorResponse('Solo el cliente del trabajo puede publicar anuncios y fijar mensajes', 403);
+    }
+    return job;
+  }
+
+  private emitPinned(server: NonNullable<Awaited<ReturnType<typeof io>>>, conversation: Conversation): void {
+    server.to(`conversation:${conversation.id}`).emit('conversation:pinned', {
+      conversationId: conversation.id,
+      pinnedMessageIds: conversation.pinnedMessageIds,
+    });
+  }
+
+  private async postSystemMessage(
+    conversation: Conversation,
+    senderId: string,
+    message: string,
+    metadata: Record<string, unknown>
+  ): Promise<void> {
+    const systemMessage = await ChatMessage.create({
+      conversationId: conversation.id,
+      senderId,
+      message,
+      type: 'system',
+      metadata,
+    });
+    conversation.lastMessage = message.split('||')[0].substring(0, 200);
+    conversation.lastMessageAt = new Date();
+    await conversation.save();
+    (await io())?.to(`conversation:${conversation.id}`).emit('message:new', systemMessage);
+  }
+
+  private async notifyJoined(job: Job, conversation: Conversation, userIds: string[]): Promise<void> {
+    const server = await io();
+    for (const participantId of userIds) {
+      const notification = await Notification.create({
+        recipientId: participantId,
+        type: 'group_chat',
+        category: 'chat',
+        title: 'Chat grupal disponible',
+        message: `Se ha creado un chat grupal para el trabajo "${job.title}" con ${conversation.participants.length} participantes.`,
+        relatedModel: 'Conversation',
+        relatedId: conversation.id,
+        actionText: 'Ir al chat',
+        data: {
+          jobId: job.id,
+          conversationId: conversation.id,
+          participantCount: conversation.participants.length,
+        },
+        read: false,
+      });
+      server?.to(`user:${participantId}`).emit('notification:new', notification.toJSON());
+    }
+  }
+}
+
+const jobTeamChat = new JobTeamChatService();
+export default jobTeamChat;
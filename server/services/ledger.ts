@@ -0,0 +1,837 @@
+/**
+ * Ledger Service
+ *
+ * Libro mayor de doble partida detrás de los saldos de usuario y de los
+ * ingresos de la plataforma. Todo movimiento de dinero (retención en escrow,
+ * liberación, reembolso, comisión, bonificación, retiro) se registra como un
+ * asiento balanceado; si el asiento toca billeteras de usuario, el saldo
+ * (`User.balanceArs`, o balanceUsd/balanceUsdt según la moneda del asiento)
+ * se actualiza en la MISMA transacción, de modo que el saldo siempre es la
+ * suma de la billetera en el ledger (ver reconcile()).
+ *
+ * Las reglas puras (validación, centavos, conciliación) viven en ledgerRules.ts.
+ */
+
+import { Op, QueryTypes, type Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { User, WALLET_BALANCE_FIELDS } from '../models/sql/User.model.js';
+import { LedgerAccount } from '../models/sql/LedgerAccount.model.js';
+import { LedgerEntry } from '../models/sql/LedgerEntry.model.js';
+import { LedgerLine } from '../models/sql/LedgerLine.model.js';
+import { BalanceTransaction } from '../models/sql/BalanceTransaction.model.js';
+import type { TransactionType, TransactionStatus } from '../models/sql/BalanceTransaction.model.js';
+import {
+  SYSTEM_ACCOUNTS,
+  WALLET_PREFIX,
+  LedgerError,
+  assertBalanced,
+  findWalletDrift,
+  fromCents,
+  normalizeLines,
+  paymentCapturePlan,
+  toCents,
+  walletDeltas,
+  accountBalanceCents,
+  type LedgerAccountType,
+  type LedgerEntryKind,
+  type LedgerLineInput,
+  type SystemAccountCode,
+  type WalletDrift,
+} from './ledgerRules.js';
+import { CURRENCIES, DEFAULT_CURRENCY, convert, fromDecimal, toCurrency, toDecimal, type Currency } from './money.js';
+
+export { LedgerError } from './ledgerRules.js';
+export type { LedgerEntryKind, LedgerLineInput, WalletDrift } from './ledgerRules.js';
+
+/**
+ * Fila de historial (BalanceTransaction) que acompaña el movimiento de una
+ * billetera. El monto, el saldo anterior y el posterior los completa post().
+ */
+export interface WalletHistory {
+  type: TransactionType;
+  description: string;
+  status?: TransactionStatus;
+  relatedContractId?: string;
+  relatedPaymentId?: string;
+  metadata?: Record<string, any>;
+}
+
+export interface PostEntryInput {
+  kind: LedgerEntryKind;
+  description: string;
+  lines: LedgerLineInput[];
+  // Moneda de todas las líneas del asiento (ARS por defecto)
+  currency?: Currency;
+  idempotencyKey?: string;
+  contractId?: string | null;
+  paymentId?: string | null;
+  jobId?: string | null;
+  withdrawalId?: string | null;
+  createdBy?: string | null;
+  metadata?: Record<string, any>;
+  // Permite dejar una billetera en negativo (ajustes administrativos)
+  allowNegative?: boolean;
+  history?: WalletHistory;
+  transaction?: Transaction;
+}
+
+export interface PostEntryResult {
+  entry: LedgerEntry;
+  // false cuando la clave de idempotencia ya estaba registrada
+  created: boolean;
+  currency: Currency;
+  // Saldo resultante de cada billetera tocada, en `currency`
+  balances: Record<string, number>;
+  balanceTransactions: BalanceTransaction[];
+}
+
+export interface ReconciliationReport {
+  checkedAt: Date;
+  usersChecked: number;
+  walletsInDrift: number;
+  // Por moneda: no se suman pesos con dólares
+  totalDrift: Partial<Record<Currency, number>>;
+  drift: Array<WalletDrift & { name?: string; email?: string }>;
+  unbalancedEntries: string[];
+  accounts: Array<{ code: string; name: string; type: LedgerAccountType; currency: Currency; debit: number; credit: number; balance: number }>;
+  walletsTotal: Partial<Record<Currency, number>>;
+}
+
+type PostOptions = Pick<PostEntryInput, 'createdBy' | 'transaction'>;
+
+const PAYMENT_TYPES_WITHOUT_ESCROW = ['membership', 'escrow_release', 'refund'];
+
+class LedgerService {
+  /**
+   * Registrar un asiento balanceado. Idempotente por `idempotencyKey`.
+   */
+  async post(input: PostEntryInput): Promise<PostEntryResult> {
+    const currency = input.currency || DEFAULT_CURRENCY;
+    const balanceField = WALLET_BALANCE_FIELDS[currency];
+    const lines = normalizeLines(input.lines, currency);
+    assertBalanced(lines);
+
+    const run = async (transaction: Transaction): Promise<PostEntryResult> => {
+      if (input.idempotencyKey) {
+        const existing = await LedgerEntry.findOne({
+          where: { idempotencyKey: input.idempotencyKey },
+          transaction,
+        });
+        if (existing) {
+          return { entry: existing, created: false, currency, balances: {}, balanceTransactions: [] };
+        }
+      }
+
+      const accountIds = await this.resolveAccounts(
+        lines.map((l) => ({ code: l.accountCode, userId: l.userId })),
+        currency,
+        transaction
+      );
+
+      const entry = await LedgerEntry.create(
+        {
+          kind: input.kind,
+          description: input.description,
+          idempotencyKey: input.idempotencyKey,
+          contractId: input.contractId || null,
+          paymentId: input.paymentId || null,
+          jobId: input.jobId || null,
+          withdrawalId: input.withdrawalId || null,
+          createdBy: input.createdBy || null,
+          metadata: { ...(input.metadata || {}), currency },
+        },
+        { transaction }
+      );
+
+      await LedgerLine.bulkCreate(
+        lines.map((l) => ({
+          entryId: entry.id,
+          accountId: accountIds.get(l.accountCode)!,
+          debit: fromCents(l.debitCents),
+          credit: fromCents(l.creditCents),
+        })),
+        { transaction }
+      );
+
+      const balances: Record<string, number> = {};
+      const balanceTransactions: BalanceTransaction[] = [];
+      const deltas = walletDeltas(lines);
+
+      for (const [userId, deltaCents] of deltas) {
+        if (deltaCents === 0) continue;
+
+        const user = await User.findByPk(userId, {
+          attributes: ['id', balanceField],
+          lock: transaction.LOCK.UPDATE,
+          transaction,
+        });
+        if (!user) {
+          throw new LedgerError('ACCOUNT_NOT_FOUND', `Usuario ${userId} no encontrado`);
+        }
+
+        const beforeCents = toCents(user[balanceField]);
+        const afterCents = beforeCents + deltaCents;
+        if (afterCents < 0 && deltaCents < 0 && !input.allowNegative) {
+          throw new LedgerError('INSUFFICIENT_FUNDS', currency === DEFAULT_CURRENCY ? 'Saldo insuficiente' : `Saldo en ${currency} insuficiente`);
+        }
+
+        user[balanceField] = fromCents(afterCents);
+        await user.save({ transaction, fields: [balanceField] });
+        balances[userId] = fromCents(afterCents);
+
+        if (input.history) {
+          balanceTransactions.push(
+            await BalanceTransaction.create(
+              {
+                userId,
+                type: input.history.type,
+                currency,
+                amount: fromCents(deltaCents),
+                balanceBefore: fromCents(beforeCents),
+                balanceAfter: fromCents(afterCents),
+                description: input.history.description,
+                status: input.history.status || 'completed',
+                relatedContractId: input.history.relatedContractId || input.contractId || undefined,
+                relatedPaymentId: input.history.relatedPaymentId || input.paymentId || undefined,
+                metadata: { ...(input.history.metadata || {}), ledgerEntryId: entry.id },
+              },
+              { transaction }
+            )
+          );
+        }
+      }
+
+      return { entry, created: true, currency, balances, balanceTransactions };
+    };
+
+    return input.transaction ? run(input.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Map account code -> id, creando billeteras y cuentas de sistema que falten.
+   */
+  private async resolveAccounts(
+    refs: Array<{ code: string; userId: string | null }>,
+    currency: Currency,
+    transaction: Transaction
+  ): Promise<Map<string, string>> {
+    const codes = [...new Set(refs.map((r) => r.code))];
+    const found = await LedgerAccount.findAll({
+      where: { code: codes },
+      attributes: ['id', 'code'],
+      transaction,
+    });
+    const ids = new Map(found.map((a) => [a.code, a.id]));
+
+    for (const ref of refs) {
+      if (ids.has(ref.code)) continue;
+
+      const system = SYSTEM_ACCOUNTS[ref.code.split('@')[0] as SystemAccountCode];
+      const suffix = currency === DEFAULT_CURRENCY ? '' : ` (${currency})`;
+      const [account] = await LedgerAccount.findOrCreate({
+        where: { code: ref.code },
+        defaults: ref.userId
+          ? { code: ref.code, name: `Billetera de usuario${suffix}`, type: 'liability', userId: ref.userId, currency }
+          : { code: ref.code, name: `${system?.name || ref.code}${suffix}`, type: system?.type || 'liability', currency },
+        transaction,
+      });
+      ids.set(ref.code, account.id);
+    }
+
+    return ids;
+  }
+
+  // ============================================
+  // ESCROW
+  // ============================================
+
+  /**
+   * Cobro de un pago: el dinero entra a caja y queda retenido en escrow;
+   * la comisión cobrada al pagador se reconoce como ingreso.
+   *
+   * Si el contrato está en otra moneda que la cobrada, la caja recibe la
+   * moneda cobrada y el escrow queda en la del contrato, unidos por
+   * `fx_conversion` a la cotización congelada en el pago.
+   */
+  async recordPaymentCapture(payment: any, options: PostOptions = {}): Promise<PostEntryResult | null> {
+    if (PAYMENT_TYPES_WITHOUT_ESCROW.includes(payment.paymentType)) return null;
+
+    const plan = paymentCapturePlan(payment);
+    if (!plan) return null;
+    const { charged, settled, rateSnapshot } = plan;
+
+    const metadata = {
+      paymentType: payment.paymentType,
+      chargedCurrency: charged.currency,
+      amount: charged.amount,
+      ...(rateSnapshot ? { rateSnapshot } : {}),
+    };
+    const capture = (cashAccount: SystemAccountCode, transaction?: Transaction) =>
+      this.post({
+        kind: 'escrow_hold',
+        description: `Pago ${payment.id} retenido en escrow`,
+        idempotencyKey: `payment:${payment.id}:capture`,
+        paymentId: payment.id,
+        contractId: payment.contractId,
+        currency: settled.currency,
+        lines: [
+          { account: cashAccount, debit: settled.amount },
+          { account: 'escrow_holding', credit: settled.amount - settled.fee },
+          { account: 'platform_commission', credit: settled.fee },
+        ],
+        metadata,
+        ...options,
+        ...(transaction ? { transaction } : {}),
+      });
+
+    if (charged.currency === settled.currency) return capture('platform_cash');
+
+    const run = async (transaction: Transaction) => {
+      await this.post({
+        kind: 'escrow_hold',
+        description: `Pago ${payment.id}: ${charged.currency} cobrados para un contrato en ${settled.currency}`,
+        idempotencyKey: `payment:${payment.id}:capture_fx`,
+        paymentId: payment.id,
+        contractId: payment.contractId,
+        currency: charged.currency,
+        lines: [
+          { account: 'platform_cash', debit: charged.amount },
+          { account: 'fx_conversion', credit: charged.amount },
+        ],
+        metadata,
+        ...options,
+        transaction,
+      });
+      return capture('fx_conversion', transaction);
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * El contrato terminó: el escrow pasa a "pendiente de pago al trabajador".
+   */
+  async releaseContractEscrow(
+    contract: any,
+    options: PostOptions & { amount?: number } = {}
+  ): Promise<PostEntryResult | null> {
+    const { amount: partial, ...postOptions } = options;
+    const amount = Number(partial ?? (contract.allocatedAmount || contract.price)) || 0;
+    if (amount <= 0) return null;
+
+    return this.post({
+      kind: 'escrow_release',
+      description: `Escrow liberado - contrato ${contract.id}`,
+      idempotencyKey: `contract:${contract.id}:release`,
+      contractId: contract.id,
+      jobId: contract.jobId,
+      currency: toCurrency(contract.currency),
+      lines: [
+        { account: 'escrow_holding', debit: amount },
+        { account: 'payout_clearing', credit: amount },
+      ],
+      ...postOptions,
+    });
+  }
+
+  /**
+   * El contrato se canceló con fondos retenidos: el escrow pasa a
+   * "reembolsos pendientes" hasta que la pasarela confirma la devolución.
+   */
+  async refundContractEscrow(
+    contract: any,
+    options: PostOptions & { amount?: number } = {}
+  ): Promise<PostEntryResult | null> {
+    const { amount: partial, ...postOptions } = options;
+    const amount = Number(partial ?? (contract.allocatedAmount || contract.price)) || 0;
+    if (amount <= 0) return null;
+
+    return this.post({
+      kind: 'refund',
+      description: `Escrow a reembolsar - contrato ${contract.id}`,
+      idempotencyKey: `contract:${contract.id}:refund`,
+      contractId: contract.id,
+      jobId: contract.jobId,
+      currency: toCurrency(contract.currency),
+      lines: [
+        { account: 'escrow_holding', debit: amount },
+        { account: 'refunds', credit: amount },
+      ],
+      ...postOptions,
+    });
+  }
+
+  /**
+   * Un hito del contrato se liberó: su monto pasa a "pendiente de pago al
+   * trabajador" con su propia clave, así cada hito se registra una sola vez.
+   */
+  async releaseMilestoneEscrow(
+    contract: any,
+    milestone: { id: string; amount: number | string; title?: string },
+    options: PostOptions & { amount?: number } = {}
+  ): Promise<PostEntryResult | null> {
+    const { amount: partial, ...postOptions } = options;
+    const amount = Number(partial ?? milestone.amount) || 0;
+    if (amount <= 0) return null;
+
+    return this.post({
+      kind: 'escrow_release',
+      description: `Escrow liberado - hito ${milestone.title || milestone.id} del contrato ${contract.id}`,
+      idempotencyKey: `contract:${contract.id}:milestone:${milestone.id}:release`,
+      contractId: contract.id,
+      jobId: contract.jobId,
+      currency: toCurrency(contract.currency),
+      lines: [
+        { account: 'escrow_holding', debit: amount },
+        { account: 'payout_clearing', credit: amount },
+      ],
+      metadata: { milestoneId: milestone.id },
+      ...postOptions,
+    });
+  }
+
+  /**
+   * Un hito en disputa se resolvió a favor del cliente (total o parcialmente).
+   */
+  async refundMilestoneEscrow(
+    contract: any,
+    milestone: { id: string; amount: number | string; title?: string },
+    options: PostOptions & { amount?: number } = {}
+  ): Promise<PostEntryResult | null> {
+    const { amount: partial, ...postOptions } = options;
+    const amount = Number(partial ?? milestone.amount) || 0;
+    if (amount <= 0) return null;
+
+    return this.post({
+      kind: 'refund',
+      description: `Escrow a reembolsar - hito ${milestone.title || milestone.id} del contrato ${contract.id}`,
+      idempotencyKey: `contract:${contract.id}:milestone:${milestone.id}:refund`,
+      contractId: contract.id,
+      jobId: contract.jobId,
+      currency: toCurrency(contract.currency),
+      lines: [
+        { account: 'escrow_holding', debit: amount },
+        { account: 'refunds', credit: amount },
+      ],
+      metadata: { milestoneId: milestone.id },
+      ...postOptions,
+    });
+  }
+
+  /**
+   * La pasarela devolvió un pago: sale de caja contra la cuenta de reembolsos
+   * (o directamente del escrow si el contrato no pasó por la cancelación).
+   * `amount` está en la moneda cobrada; si el contrato está en otra, se
+   * convierte con la cotización congelada en el pago.
+   */
+  async settleRefund(payment: any, amount: number, options: PostOptions = {}): Promise<PostEntryResult | null> {
+    if (!(amount > 0)) return null;
+
+    // Pagos anteriores al soporte multi-moneda: todo quedó en pesos (ver paymentCapturePlan)
+    const chargedCurrency = payment.settlementCurrency ? toCurrency(payment.currency) : DEFAULT_CURRENCY;
+    const settledCurrency = payment.settlementCurrency ? toCurrency(payment.settlementCurrency) : DEFAULT_CURRENCY;
+    const fx = settledCurrency !== chargedCurrency && payment.rateSnapshot;
+
+    const run = async (transaction: Transaction) => {
+      const pending = payment.contractId
+        ? await LedgerEntry.count({ where: { idempotencyKey: `contract:${payment.contractId}:refund` }, transaction })
+        : 0;
+      const source = pending ? 'refunds' : 'escrow_holding';
+
+      if (!fx) {
+        return this.post({
+          kind: 'refund',
+          description: `Reembolso del pago ${payment.id} devuelto por la pasarela`,
+          idempotencyKey: `payment:${payment.id}:refund_settled`,
+          paymentId: payment.id,
+          contractId: payment.contractId,
+          currency: chargedCurrency,
+          lines: [
+            { account: source, debit: amount },
+            { account: 'platform_cash', credit: amount },
+          ],
+          ...options,
+          transaction,
+        });
+      }
+
+      const settledAmount = toDecimal(convert(fromDecimal(amount, chargedCurrency), settledCurrency, payment.rateSnapshot));
+      await this.post({
+        kind: 'refund',
+        description: `Reembolso del pago ${payment.id}: ${settledCurrency} a devolver en ${chargedCurrency}`,
+        idempotencyKey: `payment:${payment.id}:refund_settled_fx`,
+        paymentId: payment.id,
+        contractId: payment.contractId,
+        currency: settledCurrency,
+        lines: [
+          { account: source, debit: settledAmount },
+          { account: 'fx_conversion', credit: settledAmount },
+        ],
+        metadata: { rateSnapshot: payment.rateSnapshot },
+        ...options,
+        transaction,
+      });
+      return this.post({
+        kind: 'refund',
+        description: `Reembolso del pago ${payment.id} devuelto por la pasarela`,
+        idempotencyKey: `payment:${payment.id}:refund_settled`,
+        paymentId: payment.id,
+        contractId: payment.contractId,
+        currency: chargedCurrency,
+        lines: [
+          { account: 'fx_conversion', debit: amount },
+          { account: 'platform_cash', credit: amount },
+        ],
+        ...options,
+        transaction,
+      });
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Transferencia bancaria al trabajador: se cancela lo pendiente de pago,
+   * la comisión del contrato queda como ingreso y el neto sale de caja.
+   */
+  async settleContractPayout(
+    contract: any,
+    { commission, netAmount }: { commission: number; netAmount: number },
+    options: PostOptions & { metadata?: Record<string, any> } = {}
+  ): Promise<PostEntryResult | null> {
+    const gross = Number(commission) + Number(netAmount);
+    if (!(gross > 0)) return null;
+
+    const run = async (transaction: Transaction) => {
+      const from = await this.payoutSource(contract.id, transaction);
+      return this.post({
+        kind: 'payout',
+        description: `Pago al trabajador - contrato ${contract.id}`,
+        idempotencyKey: `contract:${contract.id}:payout`,
+        contractId: contract.id,
+        jobId: contract.jobId,
+        currency: toCurrency(contract.currency),
+        lines: [
+          { account: from, debit: gross },
+          { account: 'platform_commission', credit: Number(commission) },
+          { account: 'platform_cash', credit: Number(netAmount) },
+        ],
+        ...options,
+        transaction,
+      });
+    };
+
+    return options.transaction ? run(options.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * De dónde sale el pago de un contrato: "pendiente de pago" si el escrow
+   * (o alguno de sus hitos) ya se liberó en el ledger, si no directamente del escrow.
+   */
+  private async payoutSource(contractId: string, transaction: Transaction): Promise<SystemAccountCode> {
+    const released = await LedgerEntry.count({
+      where: {
+        idempotencyKey: {
+          [Op.or]: [{ [Op.eq]: `contract:${contractId}:release` }, { [Op.like]: `contract:${contractId}:milestone:%:release` }],
+        },
+      },
+      transaction,
+    });
+    return released ? 'payout_clearing' : 'escrow_holding';
+  }
+
+  // ============================================
+  // BILLETERAS
+  // ============================================
+
+  /**
+   * Acreditar el pago de un contrato a la billetera del trabajador, en la
+   * moneda del contrato (un contrato en USDT acredita la billetera en USDT).
+   */
+  async payoutToWallet(
+    contract: any,
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    const run = async (transaction: Transaction) =>
+      this.escrowToWallet(
+        userId,
+        { amount, from: await this.payoutSource(contract.id, transaction) },
+        {
+          kind: 'payout',
+          idempotencyKey: `contract:${contract.id}:payout`,
+          contractId: contract.id,
+          jobId: contract.jobId,
+          currency: toCurrency(contract.currency),
+          ...input,
+          transaction,
+        }
+      );
+
+    return input.transaction ? run(input.transaction) : sequelize.transaction(run);
+  }
+
+  /**
+   * Debitar la billetera del usuario para retener fondos en escrow
+   * (más la comisión de la plataforma, si corresponde).
+   */
+  async walletToEscrow(
+    userId: string,
+    { amount, commission = 0 }: { amount: number; commission?: number },
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'wallet_payment',
+      lines: [
+        { account: { userWallet: userId }, debit: Number(amount) + Number(commission) },
+        { account: 'escrow_holding', credit: Number(amount) },
+        { account: 'platform_commission', credit: Number(commission) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * Acreditar fondos retenidos en escrow a una billetera (reembolso al
+   * cliente o pago/compensación al trabajador). `commission` devuelve
+   * también la comisión cobrada.
+   */
+  async escrowToWallet(
+    userId: string,
+    { amount, commission = 0, from = 'escrow_holding' }: { amount: number; commission?: number; from?: SystemAccountCode },
+    input: Omit<PostEntryInput, 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      lines: [
+        { account: from, debit: Number(amount) },
+        { account: 'platform_commission', debit: Number(commission) },
+        { account: { userWallet: userId }, credit: Number(amount) + Number(commission) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * Bonificación de la plataforma acreditada en la billetera.
+   */
+  async grantBonus(
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'bonus',
+      lines: [
+        { account: 'promotions', debit: Number(amount) },
+        { account: { userWallet: userId }, credit: Number(amount) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * Ajuste manual de una billetera (positivo acredita, negativo debita)
+   * contra la cuenta de saldos iniciales y ajustes.
+   */
+  async adjustWallet(
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    const value = Math.abs(Number(amount));
+    const wallet = { userWallet: userId };
+    return this.post({
+      kind: 'adjustment',
+      lines: Number(amount) >= 0
+        ? [{ account: 'opening_balance', debit: value }, { account: wallet, credit: value }]
+        : [{ account: wallet, debit: value }, { account: 'opening_balance', credit: value }],
+      allowNegative: true,
+      ...input,
+    });
+  }
+
+  /**
+   * Retiro completado: sale de la billetera y de caja.
+   */
+  async withdraw(
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'withdrawal',
+      lines: [
+        { account: { userWallet: userId }, debit: Number(amount) },
+        { account: 'platform_cash', credit: Number(amount) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * Retiro incluido en un lote de pago: sale de la billetera y queda en
+   * "pagos pendientes de transferir" hasta que el banco confirma el resultado.
+   */
+  async reserveWithdrawal(
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'withdrawal',
+      lines: [
+        { account: { userWallet: userId }, debit: Number(amount) },
+        { account: 'payout_clearing', credit: Number(amount) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * El banco confirmó la transferencia de un retiro reservado: sale de caja.
+   */
+  async settleWithdrawal(
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'payout',
+      lines: [
+        { account: 'payout_clearing', debit: Number(amount) },
+        { account: 'platform_cash', credit: Number(amount) },
+      ],
+      ...input,
+    });
+  }
+
+  /**
+   * El banco rechazó la transferencia de un retiro reservado: el monto vuelve
+   * a la billetera del usuario.
+   */
+  async reverseWithdrawal(
+    userId: string,
+    amount: number,
+    input: Omit<PostEntryInput, 'kind' | 'lines'>
+  ): Promise<PostEntryResult> {
+    return this.post({
+      kind: 'withdrawal_reversal',
+      lines: [
+        { account: 'payout_clearing', debit: Number(amount) },
+        { account: { userWallet: userId }, credit: Number(amount) },
+      ],
+      ...input,
+    });
+  }
+
+  // ============================================
+  // CONCILIACIÓN
+  // ============================================
+
+  /**
+   * Compara el saldo de cada moneda (balanceArs, balanceUsd, balanceUsdt)
+   * con la suma de la billetera en esa moneda y verifica que todos los
+   * asientos estén balanceados.
+   */
+  async reconcile({ limit = 100 }: { limit?: number } = {}): Promise<ReconciliationReport> {
+    const driftRows = await sequelize.query<any>(
+      `SELECT u.id AS "userId", u.name, u.email, c.currency,
+              CASE c.currency WHEN 'USD' THEN u.balance_usd WHEN 'USDT' THEN u.balance_usdt ELSE u.balance_ars END AS balance,
+              COALESCE(SUM(l.credit - l.debit), 0) AS "ledgerBalance"
+         FROM users u
+        CROSS JOIN (SELECT unnest(ARRAY[:currencies]::varchar[]) AS currency) c
+         LEFT JOIN ledger_accounts a ON a.user_id = u.id AND a.code LIKE :walletPattern AND a.currency = c.currency
+         LEFT JOIN ledger_lines l ON l.account_id = a.id
+        GROUP BY u.id, c.currency
+       HAVING COALESCE(CASE c.currency WHEN 'USD' THEN u.balance_usd WHEN 'USDT' THEN u.balance_usdt ELSE u.balance_ars END, 0)
+              <> COALESCE(SUM(l.credit - l.debit), 0)`,
+      { type: QueryTypes.SELECT, replacements: { walletPattern: `${WALLET_PREFIX}%`, currencies: [...CURRENCIES] } }
+    );
+
+    const [{ count: usersChecked }] = await sequelize.query<{ count: string }>(
+      `SELECT COUNT(*) AS count FROM users`,
+      { type: QueryTypes.SELECT }
+    );
+
+    const unbalanced = await sequelize.query<{ entryId: string }>(
+      `SELECT entry_id AS "entryId" FROM ledger_lines GROUP BY entry_id HAVING SUM(debit) <> SUM(credit)`,
+      { type: QueryTypes.SELECT }
+    );
+
+    const accountRows = await sequelize.query<any>(
+      `SELECT a.code, a.name, a.type, a.currency, COALESCE(SUM(l.debit), 0) AS debit, COALESCE(SUM(l.credit), 0) AS credit
+         FROM ledger_accounts a
+         LEFT JOIN ledger_lines l ON l.account_id = a.id
+        WHERE a.user_id IS NULL
+        GROUP BY a.id
+        ORDER BY a.code`,
+      { type: QueryTypes.SELECT }
+    );
+
+    const walletRows = await sequelize.query<{ currency: Currency; total: string }>(
+      `SELECT a.currency, COALESCE(SUM(l.credit - l.debit), 0) AS total
+         FROM ledger_lines l
+         JOIN ledger_accounts a ON a.id = l.account_id
+        WHERE a.code LIKE :walletPattern
+        GROUP BY a.currency`,
+      { type: QueryTypes.SELECT, replacements: { walletPattern: `${WALLET_PREFIX}%` } }
+    );
+
+    const profiles = new Map(driftRows.map((r: any) => [r.userId, r]));
+    const drift = findWalletDrift(driftRows).map((d) => ({
+      ...d,
+      name: profiles.get(d.userId)?.name,
+      email: profiles.get(d.userId)?.email,
+    }));
+
+    const totalDrift: Partial<Record<Currency, number>> = {};
+    for (const d of drift) {
+      totalDrift[d.currency] = fromCents(toCents(totalDrift[d.currency]) + Math.abs(toCents(d.drift)));
+    }
+
+    return {
+      checkedAt: new Date(),
+      usersChecked: Number(usersChecked),
+      walletsInDrift: drift.length,
+      totalDrift,
+      drift: drift.slice(0, limit),
+      unbalancedEntries: unbalanced.map((r) => r.entryId),
+      accounts: accountRows.map((a: any) => {
+        const debitCents = toCents(a.debit);
+        const creditCents = toCents(a.credit);
+        return {
+          code: a.code,
+          name: a.name,
+          type: a.type,
+          currency: a.currency,
+          debit: fromCents(debitCents),
+          credit: fromCents(creditCents),
+          balance: fromCents(accountBalanceCents(a.type, debitCents, creditCents)),
+        };
+      }),
+      walletsTotal: Object.fromEntries(walletRows.map((r) => [r.currency, Number(r.total)])),
+    };
+  }
+
+  /**
+   * Movimientos de una cuenta, más recientes primero.
+   */
+  async getAccountLines(code: string, { limit = 50, offset = 0 }: { limit?: number; offset?: number } = {}) {
+    const account = await LedgerAccount.findOne({ where: { code } });
+    if (!account) {
+      throw new LedgerError('ACCOUNT_NOT_FOUND', `Cuenta ${code} no encontrada`);
+    }
+
+    const { rows, count } = await LedgerLine.findAndCountAll({
+      where: { accountId: account.id },
+      include: [{ model: LedgerEntry, as: 'entry' }],
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset,
+    });
+
+    return { account, lines: rows, total: count };
+  }
+}
+
+export default new LedgerService();
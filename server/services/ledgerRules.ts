@@ -0,0 +1,305 @@
+/**
+ * Ledger Rules
+ *
+ * Reglas del libro mayor de doble partida: plan de cuentas, validación de
+ * asientos y cálculo de saldos. Todos los montos se manejan en centavos
+ * (enteros) para que la suma de débitos y créditos sea exacta.
+ *
+ * Cada asiento está en una sola moneda. Las cuentas en pesos conservan su
+ * código; las de otra moneda llevan el sufijo `@<moneda>`
+ * (`escrow_holding@USDT`, `user_wallet:<userId>@USDT`). Un cobro en pesos
+ * de un contrato en USDT pasa por `fx_conversion` con dos asientos, uno por
+ * moneda, a la cotización congelada en el pago.
+ *
+ * Este módulo es puro (sin acceso a la base de datos) para poder testearlo
+ * aislado; la persistencia vive en ledger.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { DEFAULT_CURRENCY, toCurrency, type Currency, type RateSnapshot } from './money.js';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'revenue' | 'expense' | 'equity';
+
+/**
+ * Cuentas de la plataforma. Las billeteras de usuario se crean bajo demanda
+ * con el código `user_wallet:<userId>`.
+ */
+export const SYSTEM_ACCOUNTS = {
+  escrow_holding: { name: 'Escrow - fondos retenidos', type: 'liability' },
+  platform_commission: { name: 'Comisiones de la plataforma', type: 'revenue' },
+  payout_clearing: { name: 'Pagos a usuarios pendientes de transferir', type: 'liability' },
+  refunds: { name: 'Reembolsos pendientes de devolver', type: 'liability' },
+  platform_cash: { name: 'Fondos en pasarelas y banco', type: 'asset' },
+  promotions: { name: 'Bonificaciones', type: 'expense' },
+  opening_balance: { name: 'Saldos iniciales y ajustes', type: 'equity' },
+  fx_conversion: { name: 'Conversión de moneda', type: 'equity' },
+} as const satisfies Record<string, { name: string; type: LedgerAccountType }>;
+
+export type SystemAccountCode = keyof typeof SYSTEM_ACCOUNTS;
+
+export type AccountRef = SystemAccountCode | { userWallet: string };
+
+export type LedgerEntryKind =
+  | 'escrow_hold'      // Cobro de un pago que queda retenido
+  | 'escrow_release'   // Escrow liberado al trabajador
+  | 'refund'           // Devolución al cliente (billetera o medio de pago)
+  | 'commission'       // Comisión cobrada (o devuelta) por la plataforma
+  | 'bonus'            // Bonificación acreditada por la plataforma
+  | 'withdrawal'       // Retiro de saldo de la billetera
+  | 'withdrawal_reversal' // Retiro devuelto por el banco (vuelve a la billetera)
+  | 'payout'           // Transferencia efectiva a un usuario
+  | 'wallet_payment'   // Pago con saldo de la billetera
+  | 'adjustment'       // Corrección manual
+  | 'opening_balance'; // Saldo inicial al habilitar el ledger
+
+export interface LedgerLineInput {
+  account: AccountRef;
+  debit?: number;
+  credit?: number;
+}
+
+export interface NormalizedLine {
+  accountCode: string;
+  userId: string | null;
+  debitCents: number;
+  creditCents: number;
+}
+
+export type LedgerErrorCode =
+  | 'EMPTY_ENTRY'
+  | 'INVALID_AMOUNT'
+  | 'UNBALANCED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'ACCOUNT_NOT_FOUND';
+
+const ERROR_STATUS: Record<LedgerErrorCode, number> = {
+  EMPTY_ENTRY: 400,
+  INVALID_AMOUNT: 400,
+  UNBALANCED: 500,
+  INSUFFICIENT_FUNDS: 400,
+  ACCOUNT_NOT_FOUND: 404,
+};
+
+export class LedgerError extends ErrorResponse {
+  code: LedgerErrorCode;
+
+  constructor(code: LedgerErrorCode, message: string) {
+    super(message, ERROR_STATUS[code]);
+    this.name = 'LedgerError';
+    this.code = code;
+  }
+}
+
+export const WALLET_PREFIX = 'user_wallet:';
+
+export function walletAccountCode(userId: string, currency: Currency = DEFAULT_CURRENCY): string {
+  return withCurrency(`${WALLET_PREFIX}${userId}`, currency);
+}
+
+export function accountCode(ref: AccountRef, currency: Currency = DEFAULT_CURRENCY): string {
+  return typeof ref === 'string' ? withCurrency(ref, currency) : walletAccountCode(ref.userWallet, currency);
+}
+
+function withCurrency(code: string, currency: Currency): string {
+  return currency === DEFAULT_CURRENCY ? code : `${code}@${currency}`;
+}
+
+export function toCents(amount: number | string | null | undefined): number {
+  const value = Number(amount ?? 0);
+  if (!Number.isFinite(value)) {
+    throw new LedgerError('INVALID_AMOUNT', `Monto inválido: ${amount}`);
+  }
+  return Math.round(value * 100);
+}
+
+export function fromCents(cents: number): number {
+  return cents / 100;
+}
+
+/**
+ * Valida y normaliza las líneas de un asiento. Cada línea debe tener un
+ * único lado (débito o crédito) positivo; las líneas en cero se descartan.
+ */
+export function normalizeLines(lines: LedgerLineInput[], currency: Currency = DEFAULT_CURRENCY): NormalizedLine[] {
+  const normalized: NormalizedLine[] = [];
+
+  for (const line of lines) {
+    const debitCents = toCents(line.debit);
+    const creditCents = toCents(line.credit);
+
+    if (debitCents < 0 || creditCents < 0) {
+      throw new LedgerError('INVALID_AMOUNT', 'Los montos de un asiento no pueden ser negativos');
+    }
+    if (debitCents > 0 && creditCents > 0) {
+      throw new LedgerError('INVALID_AMOUNT', 'Una línea no puede tener débito y crédito a la vez');
+    }
+    if (debitCents === 0 && creditCents === 0) continue;
+
+    normalized.push({
+      accountCode: accountCode(line.account, currency),
+      userId: typeof line.account === 'string' ? null : line.account.userWallet,
+      debitCents,
+      creditCents,
+    });
+  }
+
+  if (normalized.length < 2) {
+    throw new LedgerError('EMPTY_ENTRY', 'Un asiento necesita al menos dos líneas con monto');
+  }
+
+  return normalized;
+}
+
+/**
+ * Débitos = créditos, al centavo.
+ */
+export function assertBalanced(lines: NormalizedLine[]): void {
+  const debits = lines.reduce((sum, l) => sum + l.debitCents, 0);
+  const credits = lines.reduce((sum, l) => sum + l.creditCents, 0);
+  if (debits !== credits) {
+    throw new LedgerError(
+      'UNBALANCED',
+      `Asiento desbalanceado: débitos ${fromCents(debits)} ≠ créditos ${fromCents(credits)}`
+    );
+  }
+}
+
+/**
+ * Variación (en centavos) de cada billetera de usuario tocada por el asiento.
+ * Las billeteras son pasivos: un crédito aumenta el saldo del usuario.
+ */
+export function walletDeltas(lines: NormalizedLine[]): Map<string, number> {
+  const deltas = new Map<string, number>();
+  for (const line of lines) {
+    if (!line.userId) continue;
+    deltas.set(line.userId, (deltas.get(line.userId) || 0) + line.creditCents - line.debitCents);
+  }
+  // Orden estable por userId para bloquear filas siempre en el mismo orden
+  return new Map([...deltas.entries()].sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Saldo de una cuenta según su naturaleza (deudora o acreedora).
+ */
+export function accountBalanceCents(type: LedgerAccountType, debitCents: number, creditCents: number): number {
+  return type === 'asset' || type === 'expense' ? debitCents - creditCents : creditCents - debitCents;
+}
+
+// ============================================
+// ESCROW SEGÚN EL CICLO DE VIDA DEL CONTRATO
+// ============================================
+
+const FUNDS_HELD = ['held', 'escrow'];
+const FUNDS_RELEASED = ['pending_payout', 'released', 'completed'];
+
+export type EscrowMovement = 'release' | 'refund' | 'partial_refund' | null;
+
+/**
+ * Qué movimiento de escrow implica un cambio de paymentStatus del contrato.
+ */
+export function escrowMovement(
+  before: { paymentStatus?: string | null; escrowStatus?: string | null },
+  afterPaymentStatus: string | null | undefined
+): EscrowMovement {
+  const held = FUNDS_HELD.includes(before.paymentStatus || '') || before.escrowStatus === 'held_escrow';
+  if (!held || afterPaymentStatus === before.paymentStatus) return null;
+
+  if (FUNDS_RELEASED.includes(afterPaymentStatus || '')) return 'release';
+  if (afterPaymentStatus === 'refunded') return 'refund';
+  if (afterPaymentStatus === 'partially_refunded') return 'partial_refund';
+  return null;
+}
+
+// ============================================
+// COBROS EN OTRA MONEDA
+// ============================================
+
+export interface PaymentCapturePlan {
+  // Lo que entró a caja, en la moneda cobrada
+  charged: { currency: Currency; amount: number };
+  // Lo que queda en escrow + comisión, en la moneda del contrato
+  settled: { currency: Currency; amount: number; fee: number };
+  rateSnapshot: RateSnapshot | null;
+}
+
+/**
+ * Montos del asiento de cobro de un pago. Sin `settlementCurrency` (pagos
+ * anteriores al soporte multi-moneda) todo se registra en pesos usando
+ * amountArs o exchangeRate, como hacía el ledger original.
+ */
+export function paymentCapturePlan(payment: {
+  amount: number | string;
+  currency?: string | null;
+  amountArs?: number | string | null;
+  exchangeRate?: number | string | null;
+  platformFee?: number | string | null;
+  settlementCurrency?: string | null;
+  settlementAmount?: number | string | null;
+  rateSnapshot?: RateSnapshot | null;
+}): PaymentCapturePlan | null {
+  let chargedCurrency = toCurrency(payment.currency);
+  let chargedAmount = fromCents(toCents(payment.amount));
+  let settledAmount: number;
+
+  if (!payment.settlementCurrency) {
+    if (chargedCurrency !== DEFAULT_CURRENCY) {
+      chargedAmount = fromCents(toCents(Number(payment.amountArs) || chargedAmount * (Number(payment.exchangeRate) || 1)));
+    }
+    chargedCurrency = DEFAULT_CURRENCY;
+    settledAmount = chargedAmount;
+  } else if (payment.settlementAmount !== undefined && payment.settlementAmount !== null) {
+    settledAmount = fromCents(toCents(payment.settlementAmount));
+  } else {
+    settledAmount = chargedAmount;
+  }
+  const settledCurrency = toCurrency(payment.settlementCurrency || DEFAULT_CURRENCY);
+  if (!(settledAmount > 0)) return null;
+
+  const fee = Math.min(fromCents(toCents(payment.platformFee)), settledAmount);
+  return {
+    charged: { currency: chargedCurrency, amount: chargedAmount },
+    settled: { currency: settledCurrency, amount: settledAmount, fee },
+    rateSnapshot: payment.rateSnapshot || null,
+  };
+}
+
+// ============================================
+// CONCILIACIÓN
+// ============================================
+
+export interface WalletReconciliationRow {
+  userId: string;
+  currency?: Currency;
+  balance: number | string | null;
+  ledgerBalance: number | string | null;
+}
+
+export interface WalletDrift {
+  userId: string;
+  currency: Currency;
+  balance: number;
+  ledgerBalance: number;
+  drift: number;
+}
+
+/**
+ * Usuarios cuyo saldo (balanceArs, balanceUsd o balanceUsdt) no coincide
+ * con la suma de su billetera en esa moneda en el ledger.
+ */
+export function findWalletDrift(rows: WalletReconciliationRow[]): WalletDrift[] {
+  const drift: WalletDrift[] = [];
+  for (const row of rows) {
+    const balanceCents = toCents(row.balance);
+    const ledgerCents = toCents(row.ledgerBalance);
+    if (balanceCents !== ledgerCents) {
+      drift.push({
+        userId: row.userId,
+        currency: row.currency || DEFAULT_CURRENCY,
+        balance: fromCents(balanceCents),
+        ledgerBalance: fromCents(ledgerCents),
+        drift: fromCents(balanceCents - ledgerCents),
+      });
+    }
+  }
+  return drift.sort((a, b) => Math.abs(b.drift) - Math.abs(a.drift));
+}
@@ -0,0 +1,362 @@
+/**
+ * Message Search Rules
+ *
+ * Búsqueda en los mensajes de todas las conversaciones del usuario y
+ * exportación de una conversación:
+ *
+ * - La búsqueda usa la columna chat_messages.search_vector (texto del mensaje,
+ *   con las partes de los mensajes del sistema separadas por '||', y nombre de
+ *   archivo) con una tsquery de prefijos; se filtra por conversación,
+ *   contraparte y rango de fechas
+ * - Cada resultado trae un fragmento del texto con los términos marcados y el
+ *   id del mensaje para abrir la conversación en ese punto
+ * - La exportación (JSON o PDF) incluye participantes, mensajes, la lista de
+ *   adjuntos y los eventos del sistema, con un checksum SHA-256 de su
+ *   contenido; se puede adjuntar como evidencia de una disputa entre dos de
+ *   los participantes
+ *
+ * Módulo puro; las consultas, el PDF y la evidencia están en chatHistory.ts.
+ */
+
+import crypto from 'crypto';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { buildPrefixTsQuery, searchTerms, stripAccents } from '../utils/fullTextSearch.js';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const SNIPPET_RADIUS = 60;
+export const CONTEXT_WINDOW = 25;
+export const EXPORT_FORMATS = ['json', 'pdf'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+// Disputas en las que ya no se agrega evidencia
+const CLOSED_DISPUTE_STATUSES = ['resolved_released', 'resolved_refunded', 'resolved_partial', 'cancelled'];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface MessageSearchFilters {
+  tsQuery: string;
+  terms: string[];
+  conversationId: string | null;
+  counterpartId: string | null;
+  from: Date | null;
+  to: Date | null;
+  page: number;
+  limit: number;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export interface MessageSnippet {
+  field: 'message' | 'fileName';
+  segments: SnippetSegment[];
+}
+
+interface SearchableMessage {
+  message: string;
+  type: string;
+  fileName?: string | null;
+}
+
+function optionalUuid(value: unknown, label: string): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string' || !UUID.test(value)) throw new ErrorResponse(`${label} inválido`, 400);
+  return value;
+}
+
+/** Fecha de un filtro; una fecha sola en `to` cubre el día entero. */
+function optionalDate(value: unknown, endOfDay: boolean): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const text = String(value);
+  const date = new Date(DATE_ONLY.test(text) && endOfDay ? `${text}T23:59:59.999Z` : text);
+  if (Number.isNaN(date.getTime())) throw new ErrorResponse('Rango de fechas inválido', 400);
+  return date;
+}
+
+/** Valida ?q, conversationId, counterpartId, from, to, page y limit de la búsqueda. */
+export function parseMessageSearch(query: Record<string, unknown>): MessageSearchFilters {
+  const text = typeof query.q === 'string' ? query.q : '';
+  const tsQuery = buildPrefixTsQuery(text);
+  if (!tsQuery) throw new ErrorResponse('Ingresá al menos una palabra para buscar', 400);
+
+  const from = optionalDate(query.from, false);
+  const to = optionalDate(query.to, true);
+  if (from && to && to < from) throw new ErrorResponse('Rango de fechas inválido', 400);
+
+  const page = Math.max(1, Math.floor(Number(query.page)) || 1);
+  const limit = Math.min(MAX_SEARCH_LIMIT, Math.max(1, Math.floor(Number(query.limit)) || DEFAULT_SEARCH_LIMIT));
+
+  return {
+    tsQuery,
+    terms: searchTerms(text),
+    conversationId: optionalUuid(query.conversationId, 'ID de conversación'),
+    counterpartId: optionalUuid(query.counterpartId, 'ID de contraparte'),
+    from,
+    to,
+    page,
+    limit,
+  };
+}
+
+/** Texto legible de un mensaje: las partes de los mensajes del sistema van separadas por '||'. */
+export function messageDisplayText(message: SearchableMessage): string {
+  if (!message.message.includes('||')) return message.message;
+  return message.message
+    .split('||')
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .join(' - ');
+}
+
+/**
+ * Fragmento de `text` alrededor del primer término encontrado (como prefijo
+ * de palabra, sin tildes ni mayúsculas), con todas las coincidencias del
+ * fragmento marcadas. Sin coincidencias devuelve null.
+ */
+export function buildSnippet(text: string, terms: string[], radius: number = SNIPPET_RADIUS): SnippetSegment[] | null {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const matches: Array<{ start: number; end: number }> = [];
+  for (const word of flat.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const normalized = stripAccents(word[0]).toLowerCase();
+    if (terms.some((term) => normalized.startsWith(term))) {
+      matches.push({ start: word.index!, end: word.index! + word[0].length });
+    }
+  }
+  if (matches.length === 0) return null;
+
+  // Corta en espacios para no partir palabras
+  let start = Math.max(0, matches[0].start - radius);
+  if (start > 0) {
+    const space = flat.indexOf(' ', start);
+    start = space >= 0 && space < matches[0].start ? space + 1 : matches[0].start;
+  }
+  let end = Math.min(flat.length, matches[0].end + radius);
+  if (end < flat.length) {
+    const space = flat.lastIndexOf(' ', end);
+    end = space > matches[0].end ? space : matches[0].end;
+  }
+
+  const segments: SnippetSegment[] = [];
+  const push = (segment: SnippetSegment) => {
+    if (!segment.text) return;
+    const last = segments[segments.length - 1];
+    if (last && last.match === segment.match) last.text += segment.text;
+    else segments.push(segment);
+  };
+
+  if (start > 0) push({ text: '…', match: false });
+  let cursor = start;
+  for (const match of matches) {
+    if (match.start < start || match.end > end) continue;
+    push({ text: flat.slice(cursor, match.start), match: false });
+    push({ text: flat.slice(match.start, match.end), match: true });
+    cursor = match.end;
+  }
+  push({ text: flat.slice(cursor, end), match: false });
+  if (end < flat.length) push({ text: '…', match: false });
+  return segments;
+}
+
+/**
+ * Fragmento de un resultado: del texto del mensaje o, si el término solo está
+ * en el nombre del archivo, del nombre. Si la base encontró el mensaje por la
+ * raíz de una palabra (stemming) y no hay prefijo que marcar, va el comienzo
+ * del texto sin marcas.
+ */
+export function messageSnippet(message: SearchableMessage, terms: string[]): MessageSnippet {
+  const text = messageDisplayText(message);
+  const inText = buildSnippet(text, terms);
+  if (inText) return { field: 'message', segments: inText };
+
+  const inFileName = message.fileName ? buildSnippet(message.fileName, terms) : null;
+  if (inFileName) return { field: 'fileName', segments: inFileName };
+
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const cut = flat.length > SNIPPET_RADIUS * 2;
+  return { field: 'message', segments: [{ text: cut ? `${flat.slice(0, SNIPPET_RADIUS * 2)}…` : flat, match: false }] };
+}
+
+// ============================================
+// EXPORTACIÓN
+// ============================================
+
+export interface ExportParticipant {
+  id: string;
+  name: string;
+}
+
+export interface ExportSourceMessage {
+  id: string;
+  senderId: string;
+  message: string;
+  type: string;
+  fileUrl?: string | null;
+  fileName?: string | null;
+  fileSize?: number | null;
+  metadata?: Record<string, any> | null;
+  createdAt: Date | string;
+}
+
+export interface ExportedMessage {
+  id: string;
+  sentAt: string;
+  senderId: string;
+  senderName: string;
+  type: string;
+  text: string;
+  fileName?: string;
+  fileUrl?: string;
+  action?: string;
+}
+
+export interface ConversationExport {
+  format: 'doapp.conversation';
+  version: 1;
+  exportedAt: string;
+  exportedBy: string;
+  conversation: {
+    id: string;
+    type: string;
+    jobId: string | null;
+    jobTitle: string | null;
+    contractId: string | null;
+    createdAt: string;
+  };
+  participants: ExportParticipant[];
+  messages: ExportedMessage[];
+  attachments: Array<{
+    messageId: string;
+    sentAt: string;
+    senderId: string;
+    fileName: string;
+    fileUrl: string;
+    fileSize: number | null;
+    type: string;
+  }>;
+  systemEvents: Array<{ messageId: string; at: string; action: string | null; text: string }>;
+  checksum: string;
+}
+
+const iso = (date: Date | string) => new Date(date).toISOString();
+
+const isSystemEvent = (message: ExportSourceMessage) => message.type === 'system' || message.message.includes('||');
+
+/**
+ * Arma el paquete de exportación de una conversación, en orden cronológico.
+ * El checksum es el SHA-256 del paquete sin el propio checksum, para poder
+ * verificar que la evidencia no se modificó.
+ */
+export function buildConversationExport(input: {
+  conversation: {
+    id: string;
+    type: string;
+    jobId?: string | null;
+    contractId?: string | null;
+    createdAt: Date | string;
+    job?: { title?: string | null } | null;
+  };
+  participants: ExportParticipant[];
+  messages: ExportSourceMessage[];
+  exportedBy: string;
+  exportedAt: Date;
+}): ConversationExport {
+  const { conversation, participants } = input;
+  const names = new Map(participants.map((participant) => [participant.id, participant.name]));
+  const ordered = [...input.messages].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+  const bundle: Omit<ConversationExport, 'checksum'> = {
+    format: 'doapp.conversation',
+    version: 1,
+    exportedAt: input.exportedAt.toISOString(),
+    exportedBy: input.exportedBy,
+    conversation: {
+      id: conversation.id,
+      type: conversation.type,
+      jobId: conversation.jobId || null,
+      jobTitle: conversation.job?.title || null,
+      contractId: conversation.contractId || null,
+      createdAt: iso(conversation.createdAt),
+    },
+    participants,
+    messages: ordered.map((message) => ({
+      id: message.id,
+      sentAt: iso(message.createdAt),
+      senderId: message.senderId,
+      senderName: isSystemEvent(message) ? 'Sistema' : names.get(message.senderId) || 'Usuario',
+      type: message.type,
+      text: messageDisplayText(message),
+      ...(message.fileName ? { fileName: message.fileName } : {}),
+      ...(message.fileUrl ? { fileUrl: message.fileUrl } : {}),
+      ...(message.metadata?.action ? { action: String(message.metadata.action) } : {}),
+    })),
+    attachments: ordered
+      .filter((message) => !!message.fileUrl)
+      .map((message) => ({
+        messageId: message.id,
+        sentAt: iso(message.createdAt),
+        senderId: message.senderId,
+        fileName: message.fileName || 'archivo',
+        fileUrl: message.fileUrl!,
+        fileSize: message.fileSize ?? null,
+        type: message.type,
+      })),
+    systemEvents: ordered.filter(isSystemEvent).map((message) => ({
+      messageId: message.id,
+      at: iso(message.createdAt),
+      action: message.metadata?.action ? String(message.metadata.action) : null,
+      text: messageDisplayText(message),
+    })),
+  };
+
+  return { ...bundle, checksum: crypto.createHash('sha256').update(JSON.stringify(bundle)).digest('hex') };
+}
+
+export function parseExportFormat(value: unknown): ExportFormat {
+  if (value === undefined || value === null || value === '') return 'json';
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new ErrorResponse(`Formato inválido: usá ${EXPORT_FORMATS.join(' o ')}`, 400);
+  }
+  return value as ExportFormat;
+}
+
+/** conversacion_1a2b3c4d_20261102.json */
+export function exportFileName(conversationId: string, format: ExportFormat, exportedAt: Date): string {
+  const day = exportedAt.toISOString().slice(0, 10).replace(/-/g, '');
+  return `conversacion_${conversationId.slice(0, 8)}_${day}.${format}`;
+}
+
+/** Texto apto para las fuentes estándar del PDF (Latin-1): descarta emojis y otros símbolos. */
+export function pdfSafeText(text: string): string {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[^\t\n\r\x20-\x7E\xA0-\xFF]/g, '');
+}
+
+/**
+ * Valida que la conversación se pueda adjuntar como evidencia: quien la
+ * adjunta es parte de la disputa, la otra parte también participa de la
+ * conversación y la disputa sigue abierta.
+ */
+export function assertCanAttachToDispute(
+  dispute: { initiatedBy: string; against: string; status: string },
+  userId: string,
+  participants: string[]
+): void {
+  if (dispute.initiatedBy !== userId && dispute.against !== userId) {
+    throw new ErrorResponse('No tienes permiso para añadir archivos a esta disputa', 403);
+  }
+  const otherParty = dispute.initiatedBy === userId ? dispute.against : dispute.initiatedBy;
+  if (!participants.includes(otherParty)) {
+    throw new ErrorResponse('La otra parte de la disputa no participa de esta conversación', 400);
+  }
+  if (CLOSED_DISPUTE_STATUSES.includes(dispute.status)) {
+    throw new ErrorResponse('La disputa ya está cerrada', 400);
+  }
+}
@@ -0,0 +1,652 @@
+/**
+ * Message Template Catalog
+ *
+ * Plantillas de mensajes transaccionales con sus variantes es/en. El mismo id
+ * se usa para el email, el push y la notificación in-app (ver
+ * messageTemplateRules.ts). Las variables de cada plantilla quedan tipadas por
+ * su `sample`, así que renderTemplate() no compila con variables de otra forma.
+ *
+ * Para agregar una plantilla: definirla acá con ambos idiomas y datos de
+ * ejemplo realistas (son los que muestra la vista previa del admin).
+ */
+
+import { defineTemplate, renderMessage, type MessageLocale, type MessageTemplate, type RenderedMessage } from './messageTemplateRules.js';
+
+export const MESSAGE_TEMPLATES = {
+  welcome: defineTemplate({
+    description: 'Bienvenida al crear la cuenta',
+    category: 'user',
+    accent: 'green',
+    sample: { userName: 'Lucía' },
+    locales: {
+      es: ({ userName }) => ({
+        subject: '¡Bienvenido a DoApp!',
+        eyebrow: '¡Bienvenido!',
+        preheader: 'Tu cuenta ya está lista — publicá tu primer trabajo o postulate a uno.',
+        title: `Tu cuenta de DoApp está lista, ${userName}.`,
+        blocks: [
+          { p: `Hola **${userName}**, ¡bienvenido! Ya podés **publicar trabajos** o **postularte como Doer**. Tu plata queda guardada en DoApp hasta que el trabajo se confirme — sin sorpresas.` },
+          { callout: 'success', title: 'Pago protegido', text: 'Todo lo que cobrés o pagués en DoApp queda en garantía hasta que ambas partes confirmen. Así de simple.' },
+          { p: '¿Alguna duda? Estamos en el Centro de Ayuda.' },
+        ],
+        cta: { label: 'Publicar mi primer trabajo', url: '/' },
+        push: { title: '¡Bienvenido a DoApp!', body: 'Tu cuenta está lista. Publicá tu primer trabajo o postulate a uno.' },
+      }),
+      en: ({ userName }) => ({
+        subject: 'Welcome to DoApp!',
+        eyebrow: 'Welcome!',
+        preheader: 'Your account is ready — post your first job or apply to one.',
+        title: `Your DoApp account is ready, ${userName}.`,
+        blocks: [
+          { p: `Hi **${userName}**, welcome! You can now **post jobs** or **apply as a Doer**. Your money stays safe in DoApp until the job is confirmed — no surprises.` },
+          { callout: 'success', title: 'Protected payments', text: 'Everything you earn or pay on DoApp is held in escrow until both parties confirm. That simple.' },
+          { p: 'Any questions? Visit our Help Center.' },
+        ],
+        cta: { label: 'Post my first job', url: '/' },
+        push: { title: 'Welcome to DoApp!', body: 'Your account is ready. Post your first job or apply to one.' },
+      }),
+    },
+  }),
+
+  'chat.new_message': defineTemplate({
+    description: 'Mensaje nuevo en una conversación',
+    category: 'chat',
+    preference: 'newMessage',
+    sample: { recipientName: 'Lucía', senderName: 'Martín', messagePreview: '¿Podés pasar el jueves a las 10?', conversationId: '6f1c2b9e-2d7a-4c1e-9f0b-3a5d8e7c1b24' },
+    locales: {
+      es: (v) => ({
+        subject: `Nuevo mensaje de ${v.senderName}`,
+        eyebrow: 'Mensaje',
+        title: `Nuevo mensaje de ${v.senderName}`,
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: `**${v.senderName}** te envió un mensaje:` },
+          { callout: 'info', text: `"${v.messagePreview}"` },
+        ],
+        cta: { label: 'Ver conversación', url: `/chat/${v.conversationId}` },
+        push: { title: `Nuevo mensaje de ${v.senderName}`, body: v.messagePreview },
+      }),
+      en: (v) => ({
+        subject: `New message from ${v.senderName}`,
+        eyebrow: 'Message',
+        title: `New message from ${v.senderName}`,
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: `**${v.senderName}** sent you a message:` },
+          { callout: 'info', text: `"${v.messagePreview}"` },
+        ],
+        cta: { label: 'Open conversation', url: `/chat/${v.conversationId}` },
+        push: { title: `New message from ${v.senderName}`, body: v.messagePreview },
+      }),
+    },
+  }),
+
+  'proposal.received': defineTemplate({
+    description: 'Postulación nueva a un trabajo del cliente',
+    category: 'proposal',
+    preference: 'jobUpdate',
+    sample: { recipientName: 'Lucía', applicantName: 'Martín', jobTitle: 'Pintar departamento de 2 ambientes', jobId: '3c7e1a9b-4f2d-4b8e-a6c0-1d9f5e2b7a43' },
+    locales: {
+      es: (v) => ({
+        subject: `${v.applicantName} se postuló a tu trabajo: ${v.jobTitle}`,
+        eyebrow: 'Postulación',
+        title: 'Nueva postulación',
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: `**${v.applicantName}** se postuló a tu trabajo **${v.jobTitle}**. Podés revisar todas las postulaciones y elegir al trabajador ideal.` },
+        ],
+        cta: { label: 'Ver postulaciones', url: `/jobs/${v.jobId}/applications` },
+        push: { title: 'Nueva postulación', body: `${v.applicantName} se postuló a ${v.jobTitle}` },
+      }),
+      en: (v) => ({
+        subject: `${v.applicantName} applied to your job: ${v.jobTitle}`,
+        eyebrow: 'Application',
+        title: 'New application',
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: `**${v.applicantName}** applied to your job **${v.jobTitle}**. You can review every application and pick the right person.` },
+        ],
+        cta: { label: 'View applications', url: `/jobs/${v.jobId}/applications` },
+        push: { title: 'New application', body: `${v.applicantName} applied to ${v.jobTitle}` },
+      }),
+    },
+  }),
+
+  'job.update': defineTemplate({
+    description: 'Cambio en una publicación',
+    category: 'jobs',
+    preference: 'jobUpdate',
+    sample: { recipientName: 'Lucía', jobTitle: 'Pintar living y comedor', update: 'Recibiste una nueva postulación', jobId: '0b8e4f2a-6c1d-4e3b-a9f7-2d5c8b1e4a60' },
+    locales: {
+      es: (v) => ({
+        subject: `Actualización: ${v.jobTitle}`,
+        eyebrow: 'Publicación',
+        title: 'Actualización de publicación',
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: v.update },
+          { callout: 'info', text: `**Publicación:** ${v.jobTitle}` },
+        ],
+        cta: { label: 'Ver publicación', url: `/jobs/${v.jobId}` },
+        push: { title: 'Actualización de trabajo', body: `${v.update}: ${v.jobTitle}` },
+      }),
+      en: (v) => ({
+        subject: `Update: ${v.jobTitle}`,
+        eyebrow: 'Job post',
+        title: 'Job post update',
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: v.update },
+          { callout: 'info', text: `**Job:** ${v.jobTitle}` },
+        ],
+        cta: { label: 'View job', url: `/jobs/${v.jobId}` },
+        push: { title: 'Job update', body: `${v.update}: ${v.jobTitle}` },
+      }),
+    },
+  }),
+
+  'contract.update': defineTemplate({
+    description: 'Cambio en un contrato',
+    category: 'contract',
+    preference: 'contractUpdate',
+    sample: { recipientName: 'Lucía', contractTitle: 'Pintar living y comedor', update: 'El Doer marcó el trabajo como terminado', contractId: '9d2a7c4e-1b3f-4d6a-8e0c-5f7b2a9d1c38' },
+    locales: {
+      es: (v) => ({
+        subject: `Contrato actualizado: ${v.contractTitle}`,
+        eyebrow: 'Contrato',
+        title: 'Actualización de contrato',
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: v.update },
+          { callout: 'info', text: `**Contrato:** ${v.contractTitle}` },
+        ],
+        cta: { label: 'Ver contrato', url: `/contracts/${v.contractId}` },
+        push: { title: 'Actualización de contrato', body: `${v.update}: ${v.contractTitle}` },
+      }),
+      en: (v) => ({
+        subject: `Contract updated: ${v.contractTitle}`,
+        eyebrow: 'Contract',
+        title: 'Contract update',
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: v.update },
+          { callout: 'info', text: `**Contract:** ${v.contractTitle}` },
+        ],
+        cta: { label: 'View contract', url: `/contracts/${v.contractId}` },
+        push: { title: 'Contract update', body: `${v.update}: ${v.contractTitle}` },
+      }),
+    },
+  }),
+
+  'payment.update': defineTemplate({
+    description: 'Movimiento de un pago',
+    category: 'payment',
+    preference: 'paymentUpdate',
+    accent: 'green',
+    sample: { recipientName: 'Lucía', amount: 45000, update: 'Tu pago quedó en garantía' },
+    locales: {
+      es: (v, f) => ({
+        subject: `Pago: ${f.money(v.amount)}`,
+        eyebrow: 'Pago',
+        title: 'Actualización de pago',
+        blocks: [{ p: `Hola **${v.recipientName}**,` }, { p: v.update }],
+        amount: { label: 'Monto', value: f.money(v.amount) },
+        cta: { label: 'Ver balance', url: '/balance' },
+        push: { title: 'Actualización de pago', body: `${v.update}: ${f.money(v.amount)}` },
+      }),
+      en: (v, f) => ({
+        subject: `Payment: ${f.money(v.amount)}`,
+        eyebrow: 'Payment',
+        title: 'Payment update',
+        blocks: [{ p: `Hi **${v.recipientName}**,` }, { p: v.update }],
+        amount: { label: 'Amount', value: f.money(v.amount) },
+        cta: { label: 'View balance', url: '/balance' },
+        push: { title: 'Payment update', body: `${v.update}: ${f.money(v.amount)}` },
+      }),
+    },
+  }),
+
+  'withdrawal.requested': defineTemplate({
+    description: 'Solicitud de retiro recibida',
+    category: 'payment',
+    sample: { userName: 'Lucía', amount: 120000 },
+    locales: {
+      es: (v, f) => ({
+        subject: 'Solicitud de retiro · DOAPP',
+        eyebrow: 'Retiro',
+        title: 'Retiro solicitado',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: 'Recibimos tu solicitud de retiro. La procesaremos en los próximos días hábiles.' },
+          { callout: 'info', text: 'Recibirás un email de confirmación cuando la transferencia sea procesada.' },
+        ],
+        amount: { label: 'Monto solicitado', value: f.money(v.amount) },
+        cta: { label: 'Ver balance', url: '/balance' },
+        push: { title: 'Retiro solicitado', body: `Recibimos tu pedido de retiro por ${f.money(v.amount)}.` },
+      }),
+      en: (v, f) => ({
+        subject: 'Withdrawal request · DOAPP',
+        eyebrow: 'Withdrawal',
+        title: 'Withdrawal requested',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: 'We received your withdrawal request. We will process it within the next business days.' },
+          { callout: 'info', text: 'You will get a confirmation email once the transfer is processed.' },
+        ],
+        amount: { label: 'Requested amount', value: f.money(v.amount) },
+        cta: { label: 'View balance', url: '/balance' },
+        push: { title: 'Withdrawal requested', body: `We received your ${f.money(v.amount)} withdrawal request.` },
+      }),
+    },
+  }),
+
+  'withdrawal.approved': defineTemplate({
+    description: 'Retiro aprobado por un admin',
+    category: 'payment',
+    accent: 'green',
+    sample: { userName: 'Lucía', amount: 120000 },
+    locales: {
+      es: (v, f) => ({
+        subject: 'Retiro aprobado · DOAPP',
+        eyebrow: 'Retiro',
+        title: 'Retiro aprobado',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: 'Tu solicitud de retiro fue aprobada. Procederemos a transferirte el dinero a tu CBU en breve.' },
+        ],
+        amount: { label: 'Monto aprobado', value: f.money(v.amount) },
+        push: { title: 'Retiro aprobado', body: `Tu retiro de ${f.money(v.amount)} fue aprobado.` },
+        inApp: { actionText: 'Ver balance' },
+      }),
+      en: (v, f) => ({
+        subject: 'Withdrawal approved · DOAPP',
+        eyebrow: 'Withdrawal',
+        title: 'Withdrawal approved',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: 'Your withdrawal request was approved. We will transfer the money to your CBU shortly.' },
+        ],
+        amount: { label: 'Approved amount', value: f.money(v.amount) },
+        push: { title: 'Withdrawal approved', body: `Your ${f.money(v.amount)} withdrawal was approved.` },
+        inApp: { actionText: 'View balance' },
+      }),
+    },
+  }),
+
+  'withdrawal.completed': defineTemplate({
+    description: 'Transferencia del retiro realizada',
+    category: 'payment',
+    accent: 'green',
+    sample: { userName: 'Lucía', amount: 120000, newBalance: 8500 },
+    locales: {
+      es: (v, f) => ({
+        subject: 'Retiro completado · DOAPP',
+        eyebrow: 'Retiro',
+        title: '¡Retiro completado!',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: 'Tu retiro fue procesado exitosamente. El dinero ya está en camino a tu CBU.' },
+          { callout: 'success', title: 'Balance actualizado', text: `Tu nuevo balance disponible es **${f.money(v.newBalance)}**` },
+        ],
+        amount: { label: 'Transferido', value: f.money(v.amount) },
+        push: { title: 'Retiro completado', body: `Transferimos ${f.money(v.amount)} a tu cuenta bancaria.` },
+      }),
+      en: (v, f) => ({
+        subject: 'Withdrawal completed · DOAPP',
+        eyebrow: 'Withdrawal',
+        title: 'Withdrawal completed!',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: 'Your withdrawal was processed successfully. The money is on its way to your CBU.' },
+          { callout: 'success', title: 'Balance updated', text: `Your new available balance is **${f.money(v.newBalance)}**` },
+        ],
+        amount: { label: 'Transferred', value: f.money(v.amount) },
+        push: { title: 'Withdrawal completed', body: `We transferred ${f.money(v.amount)} to your bank account.` },
+      }),
+    },
+  }),
+
+  'withdrawal.rejected': defineTemplate({
+    description: 'Retiro rechazado por un admin',
+    category: 'payment',
+    accent: 'red',
+    sample: { userName: 'Lucía', amount: 120000, reason: 'El CBU no coincide con el titular de la cuenta' },
+    locales: {
+      es: (v, f) => ({
+        subject: 'Retiro rechazado · DOAPP',
+        eyebrow: 'Retiro',
+        title: 'Retiro rechazado',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: 'Tu solicitud de retiro no pudo ser procesada.' },
+          { callout: 'danger', title: 'Motivo del rechazo', text: v.reason },
+          { p: `El monto de **${f.money(v.amount)}** fue devuelto a tu balance disponible.` },
+        ],
+        cta: { label: 'Ver balance', url: '/balance' },
+        push: { title: 'Retiro rechazado', body: v.reason },
+      }),
+      en: (v, f) => ({
+        subject: 'Withdrawal rejected · DOAPP',
+        eyebrow: 'Withdrawal',
+        title: 'Withdrawal rejected',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: 'Your withdrawal request could not be processed.' },
+          { callout: 'danger', title: 'Reason', text: v.reason },
+          { p: `The amount of **${f.money(v.amount)}** was returned to your available balance.` },
+        ],
+        cta: { label: 'View balance', url: '/balance' },
+        push: { title: 'Withdrawal rejected', body: v.reason },
+      }),
+    },
+  }),
+
+  'withdrawal.failed': defineTemplate({
+    description: 'El banco rechazó la transferencia de un lote de pago',
+    category: 'payment',
+    accent: 'red',
+    sample: { userName: 'Lucía', amount: 120000, reason: 'CBU inexistente' },
+    locales: {
+      es: (v, f) => ({
+        subject: 'No pudimos transferir tu retiro · DOAPP',
+        eyebrow: 'Retiro',
+        title: 'El banco rechazó la transferencia',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: 'Intentamos transferir tu retiro pero el banco rechazó la operación.' },
+          { callout: 'danger', title: 'Motivo informado por el banco', text: v.reason },
+          { p: `El monto de **${f.money(v.amount)}** volvió a tu saldo. Revisá tus datos bancarios antes de pedir un nuevo retiro.` },
+        ],
+        cta: { label: 'Revisar datos bancarios', url: '/settings' },
+        push: { title: 'Retiro rechazado por el banco', body: `${v.reason}. ${f.money(v.amount)} volvieron a tu saldo.` },
+      }),
+      en: (v, f) => ({
+        subject: "We couldn't transfer your withdrawal · DOAPP",
+        eyebrow: 'Withdrawal',
+        title: 'The bank rejected the transfer',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: 'We tried to transfer your withdrawal but the bank rejected it.' },
+          { callout: 'danger', title: 'Reason given by the bank', text: v.reason },
+          { p: `The amount of **${f.money(v.amount)}** is back in your balance. Please check your bank details before requesting a new withdrawal.` },
+        ],
+        cta: { label: 'Check bank details', url: '/settings' },
+        push: { title: 'Withdrawal rejected by the bank', body: `${v.reason}. ${f.money(v.amount)} returned to your balance.` },
+      }),
+    },
+  }),
+
+  'saved_search.digest': defineTemplate({
+    description: 'Resumen de trabajos nuevos para las búsquedas guardadas',
+    category: 'jobs',
+    preference: 'jobUpdate',
+    sample: {
+      userName: 'Lucía',
+      groups: [
+        {
+          searchName: 'Pintura en Palermo',
+          jobs: [{ id: '3c7e1a9b-4f2d-4b8e-a6c0-1d9f5e2b7a43', title: 'Pintar departamento de 2 ambientes', price: 180000, location: 'Palermo, CABA' }],
+        },
+      ],
+    },
+    locales: {
+      es: (v, f) => {
+        const total = v.groups.reduce((sum, group) => sum + group.jobs.length, 0);
+        const count = `${total} ${total === 1 ? 'trabajo nuevo' : 'trabajos nuevos'}`;
+        return {
+          subject: `${count} para tus búsquedas · DOAPP`,
+          eyebrow: 'Búsquedas guardadas',
+          preheader: `${count} para tus búsquedas.`,
+          title: total === 1 ? 'Hay un trabajo nuevo para vos.' : `Hay ${total} trabajos nuevos para vos.`,
+          blocks: [
+            { p: `Hola **${v.userName}**, estos trabajos se publicaron desde el último resumen y cumplen tus búsquedas guardadas:` },
+            ...v.groups.flatMap((group) => [
+              { p: `**${group.searchName}**` },
+              { details: group.jobs.map((job) => ({ label: job.title, note: job.location || undefined, href: `/jobs/${job.id}`, value: f.money(job.price).replace(/ ARS$/, '') })) },
+            ]),
+          ],
+          cta: { label: 'Ver trabajos', url: '/' },
+          footerNote: 'Podés silenciar tus búsquedas o cambiar la frecuencia desde Configuración → Notificaciones.',
+          push: { title: 'Búsquedas guardadas', body: `${count} para tus búsquedas.` },
+        };
+      },
+      en: (v, f) => {
+        const total = v.groups.reduce((sum, group) => sum + group.jobs.length, 0);
+        const count = `${total} new ${total === 1 ? 'job' : 'jobs'}`;
+        return {
+          subject: `${count} for your searches · DOAPP`,
+          eyebrow: 'Saved searches',
+          preheader: `${count} for your searches.`,
+          title: total === 1 ? 'There is a new job for you.' : `There are ${total} new jobs for you.`,
+          blocks: [
+            { p: `Hi **${v.userName}**, these jobs were posted since your last summary and match your saved searches:` },
+            ...v.groups.flatMap((group) => [
+              { p: `**${group.searchName}**` },
+              { details: group.jobs.map((job) => ({ label: job.title, note: job.location || undefined, href: `/jobs/${job.id}`, value: f.money(job.price).replace(/ ARS$/, '') })) },
+            ]),
+          ],
+          cta: { label: 'View jobs', url: '/' },
+          footerNote: 'You can mute your searches or change how often you get them in Settings → Notifications.',
+          push: { title: 'Saved searches', body: `${count} for your searches.` },
+        };
+      },
+    },
+  }),
+
+  'monotributo.recategorization': defineTemplate({
+    description: 'Recordatorio de recategorización de monotributo (enero y julio)',
+    category: 'system',
+    accent: 'amber',
+    sample: { userName: 'Lucía' },
+    locales: {
+      es: ({ userName }) => ({
+        subject: 'Período de recategorización de monotributo · DOAPP',
+        eyebrow: 'Centro Profesional',
+        title: 'Período de recategorización de monotributo',
+        blocks: [
+          { p: `Hola **${userName}**,` },
+          { p: 'Es momento de revisar tu categoría: AFIP recategoriza en enero y julio según tu facturación de los últimos 12 meses. Mirá tu facturación en tu Centro Profesional y, si te pasaste de categoría, recategorizate antes del día 20.' },
+          { callout: 'info', text: 'Recordá que esto es orientativo: ante dudas, consultá con tu contador.' },
+        ],
+        cta: { label: 'Ver Centro Profesional', url: '/pro/finanzas' },
+        push: { title: 'Período de recategorización de monotributo', body: 'Revisá tu facturación de los últimos 12 meses y recategorizate antes del día 20 si corresponde.' },
+        inApp: {
+          message: 'Es momento de revisar tu categoría: AFIP recategoriza en enero y julio según tu facturación de los últimos 12 meses. Mirá tu facturación en tu Centro Profesional y, si te pasaste de categoría, recategorizate antes del día 20.',
+        },
+      }),
+      en: ({ userName }) => ({
+        subject: 'Monotributo recategorization period · DOAPP',
+        eyebrow: 'Professional Center',
+        title: 'Monotributo recategorization period',
+        blocks: [
+          { p: `Hi **${userName}**,` },
+          { p: 'Time to review your category: AFIP recategorizes in January and July based on your invoicing over the last 12 months. Check your invoicing in your Professional Center and, if you exceeded your category, recategorize before the 20th.' },
+          { callout: 'info', text: 'This is only guidance: if in doubt, ask your accountant.' },
+        ],
+        cta: { label: 'Open Professional Center', url: '/pro/finanzas' },
+        push: { title: 'Monotributo recategorization period', body: 'Review your last 12 months of invoicing and recategorize before the 20th if needed.' },
+        inApp: {
+          message: 'Time to review your category: AFIP recategorizes in January and July based on your invoicing over the last 12 months. Check your invoicing in your Professional Center and, if you exceeded your category, recategorize before the 20th.',
+        },
+      }),
+    },
+  }),
+
+  'monotributo.limit': defineTemplate({
+    description: 'Facturación electrónica de los últimos 12 meses cerca o por encima del tope de monotributo',
+    category: 'system',
+    accent: 'amber',
+    sample: { userName: 'Lucía', percent: 84, invoiced: 5418000, limit: 6450000 },
+    locales: {
+      es: (v, f) => ({
+        subject: v.percent >= 100 ? 'Superaste el tope de tu categoría de monotributo' : `Llevás el ${v.percent}% del tope de monotributo`,
+        eyebrow: 'Centro Profesional',
+        title: v.percent >= 100 ? 'Superaste el tope de tu categoría' : 'Te estás acercando al tope de tu categoría',
+        blocks: [
+          { p: `Hola **${v.userName}**,` },
+          { p: `Con tu última factura electrónica llevás facturados **${f.money(v.invoiced)}** en los últimos 12 meses: el **${v.percent}%** del tope de tu categoría (${f.money(v.limit)}).` },
+          { callout: v.percent >= 100 ? 'warning' : 'info', text: v.percent >= 100 ? 'Vas a tener que recategorizarte (o pasar a responsable inscripto). Consultá con tu contador.' : 'Revisá tu categoría antes de la próxima recategorización. Ante dudas, consultá con tu contador.' },
+        ],
+        cta: { label: 'Ver Centro Profesional', url: '/pro/finanzas' },
+        push: { title: 'Tope de monotributo', body: `Llevás el ${v.percent}% del tope de tu categoría.` },
+      }),
+      en: (v, f) => ({
+        subject: v.percent >= 100 ? 'You exceeded your monotributo category cap' : `You are at ${v.percent}% of your monotributo cap`,
+        eyebrow: 'Professional Center',
+        title: v.percent >= 100 ? 'You exceeded your category cap' : 'You are getting close to your category cap',
+        blocks: [
+          { p: `Hi **${v.userName}**,` },
+          { p: `With your latest electronic invoice you have invoiced **${f.money(v.invoiced)}** over the last 12 months: **${v.percent}%** of your category cap (${f.money(v.limit)}).` },
+          { callout: v.percent >= 100 ? 'warning' : 'info', text: v.percent >= 100 ? 'You will need to recategorize (or register for VAT). Ask your accountant.' : 'Review your category before the next recategorization. If in doubt, ask your accountant.' },
+        ],
+        cta: { label: 'Open Professional Center', url: '/pro/finanzas' },
+        push: { title: 'Monotributo cap', body: `You are at ${v.percent}% of your category cap.` },
+      }),
+    },
+  }),
+
+  'invoice.fiscal_issued': defineTemplate({
+    description: 'Factura electrónica recibida del trabajador al completarse el contrato',
+    category: 'payment',
+    preference: 'paymentUpdate',
+    sample: { recipientName: 'Lucía', issuerName: 'Martín', voucher: 'Factura C 00003-00000042', amount: 45000, jobTitle: 'Pintar living y comedor' },
+    locales: {
+      es: (v, f) => ({
+        subject: `${v.voucher} de ${v.issuerName}`,
+        eyebrow: 'Factura',
+        title: 'Recibiste una factura electrónica',
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: `**${v.issuerName}** te emitió la **${v.voucher}** por el trabajo "${v.jobTitle}", autorizada por AFIP. La podés descargar desde tus facturas.` },
+        ],
+        amount: { label: 'Total', value: f.money(v.amount) },
+        cta: { label: 'Ver balance', url: '/balance' },
+        push: { title: 'Factura electrónica', body: `${v.issuerName} te emitió la ${v.voucher} por ${f.money(v.amount)}.` },
+      }),
+      en: (v, f) => ({
+        subject: `${v.voucher} from ${v.issuerName}`,
+        eyebrow: 'Invoice',
+        title: 'You received an electronic invoice',
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: `**${v.issuerName}** issued you **${v.voucher}** for the job "${v.jobTitle}", authorized by AFIP. You can download it from your invoices.` },
+        ],
+        amount: { label: 'Total', value: f.money(v.amount) },
+        cta: { label: 'View balance', url: '/balance' },
+        push: { title: 'Electronic invoice', body: `${v.issuerName} issued you ${v.voucher} for ${f.money(v.amount)}.` },
+      }),
+    },
+  }),
+
+  'invoice.credit_note': defineTemplate({
+    description: 'Nota de crédito emitida por un reembolso (disputa, cancelación o baja de precio)',
+    category: 'payment',
+    preference: 'paymentUpdate',
+    sample: {
+      recipientName: 'Lucía',
+      voucher: 'Nota de crédito NC-2026-000012',
+      creditedVoucher: 'DOAPP-2026-000345',
+      amount: 15000,
+      currency: 'ARS',
+      reason: 'Reembolso por resolución de disputa',
+    },
+    locales: {
+      es: (v, f) => ({
+        subject: `${v.voucher} sobre ${v.creditedVoucher}`,
+        eyebrow: 'Factura',
+        title: 'Te emitimos una nota de crédito',
+        blocks: [
+          { p: `Hola **${v.recipientName}**,` },
+          { p: `Por el reembolso que recibiste se emitió la **${v.voucher}**, que acredita la factura **${v.creditedVoucher}**. Motivo: ${v.reason}.` },
+          { p: 'La podés descargar desde tus facturas.' },
+        ],
+        amount: { label: 'Acreditado', value: f.money(v.amount, v.currency) },
+        cta: { label: 'Ver balance', url: '/balance' },
+        push: { title: 'Nota de crédito', body: `${v.voucher} por ${f.money(v.amount, v.currency)} sobre ${v.creditedVoucher}.` },
+      }),
+      en: (v, f) => ({
+        subject: `${v.voucher} for ${v.creditedVoucher}`,
+        eyebrow: 'Invoice',
+        title: 'A credit note was issued to you',
+        blocks: [
+          { p: `Hi **${v.recipientName}**,` },
+          { p: `For the refund you received we issued **${v.voucher}**, crediting invoice **${v.creditedVoucher}**. Reason: ${v.reason}.` },
+          { p: 'You can download it from your invoices.' },
+        ],
+        amount: { label: 'Credited', value: f.money(v.amount, v.currency) },
+        cta: { label: 'View balance', url: '/balance' },
+        push: { title: 'Credit note', body: `${v.voucher} for ${f.money(v.amount, v.currency)} on ${v.creditedVoucher}.` },
+      }),
+    },
+  }),
+
+  'notification.digest': defineTemplate({
+    description: 'Resumen de notificaciones diferidas (silencio, resumen por hora o diario, agrupadas)',
+    category: 'system',
+    sample: {
+      userName: 'Lucía',
+      items: [
+        { title: 'Nuevo mensaje de Martín', message: '¿Podés pasar el jueves a las 10?', count: 12, actionUrl: '/chat/6f1c2b9e-2d7a-4c1e-9f0b-3a5d8e7c1b24' },
+        { title: 'Nueva postulación', message: 'Sofía se postuló a Pintar departamento de 2 ambientes', count: 1, actionUrl: '/jobs/3c7e1a9b-4f2d-4b8e-a6c0-1d9f5e2b7a43/applications' },
+      ],
+    },
+    locales: {
+      es: (v) => {
+        const total = v.items.reduce((sum, item) => sum + item.count, 0);
+        const count = `${total} ${total === 1 ? 'novedad' : 'novedades'}`;
+        return {
+          subject: `Tenés ${count} en DOAPP`,
+          eyebrow: 'Resumen',
+          preheader: `${count} desde tu último resumen.`,
+          title: `Tenés ${count}`,
+          blocks: [
+            { p: `Hola **${v.userName}**, esto pasó desde tu último resumen:` },
+            { details: v.items.map((item) => ({ label: item.title, note: item.message, href: item.actionUrl || undefined, value: item.count > 1 ? `+${item.count - 1} más` : '' })) },
+          ],
+          cta: { label: 'Ver notificaciones', url: '/notifications' },
+          footerNote: 'Podés elegir qué llega al instante, en resumen o nunca, y tu horario de silencio, desde Configuración → Notificaciones.',
+          // Un solo evento (aunque agrupe varios) se avisa con su propio texto
+          push: v.items.length === 1
+            ? { title: v.items[0].title, body: v.items[0].count > 1 ? `${v.items[0].message} (+${v.items[0].count - 1} más)` : v.items[0].message }
+            : { title: `Tenés ${count}`, body: v.items.map((item) => item.title).join(' · ') },
+        };
+      },
+      en: (v) => {
+        const total = v.items.reduce((sum, item) => sum + item.count, 0);
+        const count = `${total} ${total === 1 ? 'update' : 'updates'}`;
+        return {
+          subject: `You have ${count} on DOAPP`,
+          eyebrow: 'Summary',
+          preheader: `${count} since your last summary.`,
+          title: `You have ${count}`,
+          blocks: [
+            { p: `Hi **${v.userName}**, here is what happened since your last summary:` },
+            { details: v.items.map((item) => ({ label: item.title, note: item.message, href: item.actionUrl || undefined, value: item.count > 1 ? `+${item.count - 1} more` : '' })) },
+          ],
+          cta: { label: 'View notifications', url: '/notifications' },
+          footerNote: 'You can choose what arrives instantly, in a summary or never, and set your quiet hours, in Settings → Notifications.',
+          push: v.items.length === 1
+            ? { title: v.items[0].title, body: v.items[0].count > 1 ? `${v.items[0].message} (+${v.items[0].count - 1} more)` : v.items[0].message }
+            : { title: `You have ${count}`, body: v.items.map((item) => item.title).join(' · ') },
+        };
+      },
+    },
+  }),
+};
+
+export type TemplateId = keyof typeof MESSAGE_TEMPLATES;
+export type TemplateVars<K extends TemplateId> = (typeof MESSAGE_TEMPLATES)[K] extends MessageTemplate<infer V> ? V : never;
+
+export function isTemplateId(value: unknown): value is TemplateId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_TEMPLATES, value);
+}
+
+export function renderTemplate<K extends TemplateId>(
+  id: K,
+  locale: MessageLocale,
+  vars: TemplateVars<K>,
+  options: { baseUrl: string }
+): RenderedMessage {
+  const template = MESSAGE_TEMPLATES[id] as unknown as MessageTemplate<TemplateVars<K>>;
+  return renderMessage(id, template, locale, vars, options);
+}
@@ -0,0 +1,278 @@
+/**
+ * Message Template Rules
+ *
+ * Motor de las plantillas de mensajes transaccionales. Cada plantilla tiene
+ * un id, variantes en español e inglés y, con las mismas variables, produce
+ * el email (asunto, HTML con el layout compartido y alternativa en texto
+ * plano), el texto del push de FCM y la notificación in-app.
+ *
+ * El cuerpo se describe en bloques (párrafo, callout, detalle, lista) para
+ * generar el HTML y el texto plano desde la misma fuente. Las variables se
+ * escapan siempre al armar el HTML; dentro de un texto, **así** marca negrita.
+ *
+ * Módulo puro; el catálogo está en messageTemplateCatalog.ts y el envío por
+ * canal en messageTemplates.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import type { NotificationCategory } from '../models/sql/Notification.model.js';
+import {
+  renderCallout,
+  renderDetailCard,
+  renderEmailLayout,
+  type CalloutTone,
+  type EmailAccent,
+  type EmailLocale,
+} from './emailLayout.js';
+
+export const MESSAGE_LOCALES = ['es', 'en'] as const;
+export type MessageLocale = EmailLocale;
+export const DEFAULT_MESSAGE_LOCALE: MessageLocale = 'es';
+
+// Preferencia de notificationPreferences que habilita email y push de la plantilla
+export type MessagePreference = 'newMessage' | 'jobUpdate' | 'contractUpdate' | 'paymentUpdate' | 'marketing';
+
+// Límites de las columnas de notifications y de lo que muestra un push
+const NOTIFICATION_TITLE_MAX = 200;
+const NOTIFICATION_MESSAGE_MAX = 1000;
+const PUSH_BODY_MAX = 180;
+
+export interface DetailItem {
+  label: string;
+  value: string;
+  href?: string;
+  note?: string;
+  highlight?: boolean;
+}
+
+export type MessageBlock =
+  | { p: string }
+  | { callout: CalloutTone; title?: string; text: string }
+  | { details: DetailItem[] }
+  | { list: string[] };
+
+export interface LocalizedMessage {
+  subject: string;
+  title: string;
+  blocks: MessageBlock[];
+  preheader?: string;
+  eyebrow?: string;
+  amount?: { label: string; value: string };
+  // Ruta de la app ('/balance') o URL absoluta
+  cta?: { label: string; url: string };
+  footerNote?: string;
+  push: { title: string; body: string };
+  // Por defecto la notificación in-app usa el texto del push
+  inApp?: { title?: string; message?: string; actionText?: string };
+}
+
+export interface MessageFormat {
+  locale: MessageLocale;
+  money: (amount: number, currency?: string) => string;
+  number: (value: number) => string;
+  date: (value: Date | string) => string;
+}
+
+export interface MessageTemplate<V extends object> {
+  description: string;
+  category: NotificationCategory;
+  preference?: MessagePreference;
+  accent?: EmailAccent;
+  // Datos de ejemplo: los usa la vista previa y definen la forma de las variables
+  sample: V;
+  locales: Record<MessageLocale, (vars: V, format: MessageFormat) => LocalizedMessage>;
+}
+
+export interface RenderedMessage {
+  templateId: string;
+  locale: MessageLocale;
+  category: NotificationCategory;
+  subject: string;
+  html: string;
+  text: string;
+  push: { title: string; body: string };
+  notification: { title: string; message: string; actionText?: string; actionUrl?: string };
+}
+
+/** Identidad tipada: fija el tipo de las variables de la plantilla. */
+export function defineTemplate<V extends object>(template: MessageTemplate<V>): MessageTemplate<V> {
+  return template;
+}
+
+/**
+ * Idioma del destinatario: acepta 'en', 'en-US', 'es-AR'... y cae al español
+ * ante cualquier otro valor.
+ */
+export function resolveLocale(value: unknown): MessageLocale {
+  if (typeof value !== 'string') return DEFAULT_MESSAGE_LOCALE;
+  const lang = value.trim().toLowerCase().slice(0, 2);
+  return (MESSAGE_LOCALES as readonly string[]).includes(lang) ? (lang as MessageLocale) : DEFAULT_MESSAGE_LOCALE;
+}
+
+export function messageFormat(locale: MessageLocale): MessageFormat {
+  const intl = locale === 'en' ? 'en-US' : 'es-AR';
+  return {
+    locale,
+    money: (amount, currency = 'ARS') => `$${(Number(amount) || 0).toLocaleString(intl)} ${currency}`,
+    number: (value) => (Number(value) || 0).toLocaleString(intl),
+    date: (value) => new Date(value).toLocaleDateString(intl),
+  };
+}
+
+export function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Escapa el texto y convierte **negrita** en <strong>. */
+function inlineHtml(text: string): string {
+  return escapeHtml(text).replace(/\*\*(.+?)\*\*/g, '<strong>$1</strong>');
+}
+
+function inlineText(text: string): string {
+  return text.replace(/\*\*(.+?)\*\*/g, '$1');
+}
+
+function truncate(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max - 1).trimEnd()}…` : text;
+}
+
+function absoluteUrl(url: string, baseUrl: string): string {
+  return /^https?:\/\//i.test(url) ? url : `${baseUrl.replace(/\/$/, '')}${url.startsWith('/') ? '' : '/'}${url}`;
+}
+
+export function renderBlocksHtml(blocks: MessageBlock[], baseUrl: string): string {
+  return blocks.map((block) => {
+    if ('p' in block) return `<p>${inlineHtml(block.p)}</p>`;
+    if ('callout' in block) return renderCallout(block.callout, block.title ? inlineHtml(block.title) : '', inlineHtml(block.text));
+    if ('list' in block) return `<ul style="padding-left:20px;margin:12px 0;">${block.list.map((item) => `<li style="margin:4px 0;">${inlineHtml(item)}</li>`).join('')}</ul>`;
+    return renderDetailCard(block.details.map((item) => {
+      const label = item.href
+        ? `<a href="${escapeHtml(absoluteUrl(item.href, baseUrl))}" style="color:#0284c7;text-decoration:none;">${inlineHtml(item.label)}</a>`
+        : inlineHtml(item.label);
+      return {
+        label: item.note ? `${label}<br><span style="font-size:12px;color:#94a3b8;">${inlineHtml(item.note)}</span>` : label,
+        value: inlineHtml(item.value),
+        highlight: item.highlight,
+      };
+    }));
+  }).join('\n');
+}
+
+export function renderBlocksText(blocks: MessageBlock[], baseUrl: string): string {
+  return blocks.map((block) => {
+    if ('p' in block) return inlineText(block.p);
+    if ('callout' in block) return [block.title && `[${inlineText(block.title)}]`, inlineText(block.text)].filter(Boolean).join('\n');
+    if ('list' in block) return block.list.map((item) => `- ${inlineText(item)}`).join('\n');
+    return block.details.map((item) => [
+      `- ${inlineText(item.label)}: ${inlineText(item.value)}`,
+      item.note && `  ${inlineText(item.note)}`,
+      item.href && `  ${absoluteUrl(item.href, baseUrl)}`,
+    ].filter(Boolean).join('\n')).join('\n');
+  }).join('\n\n');
+}
+
+/**
+ * Renderiza una plantilla para un idioma. `baseUrl` es la URL del cliente web
+ * (los links del email son absolutos; el actionUrl in-app queda relativo).
+ */
+export function renderMessage<V extends object>(
+  templateId: string,
+  template: MessageTemplate<V>,
+  locale: MessageLocale,
+  vars: V,
+  options: { baseUrl: string }
+): RenderedMessage {
+  const content = template.locales[locale](vars, messageFormat(locale));
+  const ctaUrl = content.cta && absoluteUrl(content.cta.url, options.baseUrl);
+
+  const html = renderEmailLayout({
+    title: escapeHtml(content.title),
+    body: renderBlocksHtml(content.blocks, options.baseUrl),
+    eyebrow: content.eyebrow && escapeHtml(content.eyebrow),
+    accent: template.accent,
+    preheader: content.preheader && escapeHtml(content.preheader),
+    footerNote: content.footerNote && escapeHtml(content.footerNote),
+    amount: content.amount && escapeHtml(content.amount.value),
+    amountLabel: content.amount && escapeHtml(content.amount.label),
+    cta: content.cta && ctaUrl ? { label: escapeHtml(content.cta.label), url: escapeHtml(ctaUrl) } : undefined,
+  }, { baseUrl: options.baseUrl, locale });
+
+  const text = [
+    content.title,
+    renderBlocksText(content.blocks, options.baseUrl),
+    content.amount && `${content.amount.label}: ${content.amount.value}`,
+    content.cta && ctaUrl && `${content.cta.label}: ${ctaUrl}`,
+    content.footerNote && `--\n${content.footerNote}`,
+  ].filter(Boolean).join('\n\n');
+
+  const internalUrl = content.cta && !/^https?:\/\//i.test(content.cta.url) ? content.cta.url : undefined;
+
+  return {
+    templateId,
+    locale,
+    category: template.category,
+    subject: content.subject,
+    html,
+    text: `${text}\n`,
+    push: { title: truncate(content.push.title, NOTIFICATION_TITLE_MAX), body: truncate(content.push.body, PUSH_BODY_MAX) },
+    notification: {
+      title: truncate(content.inApp?.title || content.push.title, NOTIFICATION_TITLE_MAX),
+      message: truncate(content.inApp?.message || content.push.body, NOTIFICATION_MESSAGE_MAX),
+      actionText: content.inApp?.actionText || (content.cta && truncate(content.cta.label, 50)),
+      actionUrl: internalUrl,
+    },
+  };
+}
+
+function kindOf(value: unknown): string {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+const KIND_LABELS: Record<string, string> = {
+  string: 'texto',
+  number: 'número',
+  boolean: 'booleano',
+  array: 'lista',
+  object: 'objeto',
+};
+
+/**
+ * Compara variables recibidas (p. ej. en la vista previa del admin) contra la
+ * forma del ejemplo de la plantilla. Un null en el ejemplo acepta cualquier
+ * valor; las listas se validan contra su primer elemento de ejemplo.
+ */
+export function templateVarProblems(sample: unknown, vars: unknown, path = ''): string[] {
+  const expected = kindOf(sample);
+  if (expected === 'null') return [];
+  const actual = kindOf(vars);
+  if (actual === 'null') return [path ? `Falta la variable "${path}"` : 'Faltan las variables'];
+  if (actual !== expected) return [`"${path || 'variables'}" debe ser ${KIND_LABELS[expected] || expected}`];
+
+  if (expected === 'array') {
+    const [itemSample] = sample as unknown[];
+    if (itemSample === undefined) return [];
+    return (vars as unknown[]).flatMap((item, index) => templateVarProblems(itemSample, item, `${path}[${index}]`));
+  }
+  if (expected !== 'object') return [];
+
+  const shape = sample as Record<string, unknown>;
+  const given = vars as Record<string, unknown>;
+  const problems = Object.keys(shape).flatMap((key) => templateVarProblems(shape[key], given[key], path ? `${path}.${key}` : key));
+  for (const key of Object.keys(given)) {
+    if (!(key in shape)) problems.push(`Variable desconocida "${path ? `${path}.${key}` : key}"`);
+  }
+  return problems;
+}
+
+/** Igual que templateVarProblems pero corta con un 400. */
+export function assertTemplateVars(sample: unknown, vars: unknown): void {
+  const problems = templateVarProblems(sample, vars);
+  if (problems.length) throw new ErrorResponse(`Variables inválidas: ${problems.slice(0, 5).join('; ')}`, 400);
+}
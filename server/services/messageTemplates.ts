@@ -0,0 +1,166 @@
+/**
+ * Message Templates
+ *
+ * Envío de las plantillas de messageTemplateCatalog.ts por los tres canales
+ * con un solo id: email (HTML + texto plano), push de FCM y notificación
+ * in-app. El idioma sale de notificationPreferences.language del destinatario.
+ *
+ * - notify(): renderiza una vez y entrega por los canales pedidos, respetando
+ *   las preferencias (email/push y la de la categoría de la plantilla). La
+ *   notificación in-app registra en sentVia/emailSent/pushSent lo que salió.
+ *   Email y push pasan por el plan de entrega (notificationDeliveryRules.ts):
+ *   lo que cae en horario de silencio, en una categoría con resumen o dentro
+ *   de la ventana de agrupado queda en pendingChannels y lo manda
+ *   notificationDigests.ts.
+ * - preview(): render con datos de ejemplo o propios, para el panel de admin.
+ */
+
+import { config } from '../config/env.js';
+import { User } from '../models/sql/User.model.js';
+import { Notification, type NotificationChannel, type NotificationType } from '../models/sql/Notification.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import emailService from './email.js';
+import fcmService from './fcm.js';
+import { planDelivery } from './notificationDeliveryRules.js';
+import {
+  MESSAGE_LOCALES,
+  assertTemplateVars,
+  resolveLocale,
+  type MessageLocale,
+  type MessageTemplate,
+  type RenderedMessage,
+} from './messageTemplateRules.js';
+import { MESSAGE_TEMPLATES, isTemplateId, renderTemplate, type TemplateId, type TemplateVars } from './messageTemplateCatalog.js';
+
+export interface NotifyOptions {
+  channels?: NotificationChannel[];
+  type?: NotificationType;
+  relatedModel?: string;
+  relatedId?: string;
+  data?: Record<string, string>;
+  // Eventos con la misma clave se agrupan en un solo aviso (p. ej. 'chat:<conversationId>')
+  coalesceKey?: string;
+}
+
+export interface TemplateSummary {
+  id: TemplateId;
+  description: string;
+  category: string;
+  preference: string | null;
+  locales: readonly MessageLocale[];
+  sample: object;
+}
+
+const ALL_CHANNELS: NotificationChannel[] = ['in_app', 'email', 'push'];
+
+class MessageTemplateService {
+  list(): TemplateSummary[] {
+    return (Object.keys(MESSAGE_TEMPLATES) as TemplateId[]).map((id) => {
+      const template = MESSAGE_TEMPLATES[id] as MessageTemplate<object>;
+      return {
+        id,
+        description: template.description,
+        category: template.category,
+        preference: template.preference || null,
+        locales: MESSAGE_LOCALES,
+        sample: template.sample,
+      };
+    });
+  }
+
+  localeFor(user?: Pick<User, 'notificationPreferences'> | null): MessageLocale {
+    return resolveLocale(user?.notificationPreferences?.language);
+  }
+
+  render<K extends TemplateId>(id: K, locale: MessageLocale, vars: TemplateVars<K>): RenderedMessage {
+    return renderTemplate(id, locale, vars, { baseUrl: config.clientUrl });
+  }
+
+  /**
+   * Vista previa para el admin: sin `vars` usa los datos de ejemplo; con vars
+   * propias valida que tengan la forma de la plantilla.
+   */
+  preview(id: string, locale?: unknown, vars?: unknown): RenderedMessage {
+    if (!isTemplateId(id)) throw new ErrorResponse('Plantilla no encontrada', 404);
+    if (locale !== undefined && !(MESSAGE_LOCALES as readonly unknown[]).includes(locale)) {
+      throw new ErrorResponse(`Idioma inválido. Opciones: ${MESSAGE_LOCALES.join(', ')}`, 400);
+    }
+    const template = MESSAGE_TEMPLATES[id] as MessageTemplate<object>;
+    if (vars !== undefined) assertTemplateVars(template.sample, vars);
+    return this.render(id, resolveLocale(locale), (vars ?? template.sample) as TemplateVars<typeof id>);
+  }
+
+  /**
+   * Renderiza la plantilla en el idioma del usuario y la entrega por los
+   * canales pedidos (todos por defecto). Devuelve la notificación in-app
+   * creada, o null si no se pidió ese canal o el usuario no existe.
+   *
+   * Solo se puede diferir email/push si hay notificación in-app (es la fila
+   * que guarda lo pendiente); sin ella salen en el momento.
+   */
+  async notify<K extends TemplateId>(userId: string, id: K, vars: TemplateVars<K>, options: NotifyOptions = {}): Promise<Notification | null> {
+    const user = await User.findByPk(userId, { attributes: ['id', 'email', 'notificationPreferences'] });
+    if (!user) return null;
+
+    const template = MESSAGE_TEMPLATES[id] as MessageTemplate<object>;
+    const message = this.render(id, this.localeFor(user), vars);
+    const channels = options.channels || ALL_CHANNELS;
+    const preferences = user.notificationPreferences;
+    const categoryEnabled = !template.preference || preferences?.[template.preference] !== false;
+
+    const owed: NotificationChannel[] = [];
+    if (channels.includes('email') && categoryEnabled && preferences?.email !== false && !!user.email) owed.push('email');
+    if (channels.includes('push') && categoryEnabled) owed.push('push');
+
+    const now = new Date();
+    const lastDeliveredAt = options.coalesceKey && owed.length
+      ? await Notification.max<Date, Notification>('deliveredAt', { where: { recipientId: user.id, coalesceKey: options.coalesceKey } })
+      : null;
+    const plan = owed.length && channels.includes('in_app')
+      ? planDelivery({ now, category: message.category, preferences, lastDeliveredAt })
+      : { kind: 'now' as const };
+
+    let emailSent = false;
+    let pushSent = false;
+    if (plan.kind === 'now') {
+      emailSent = owed.includes('email')
+        ? await emailService.sendRendered(user.email, message).catch((err) => {
+            console.error(`[Templates] ${id} email error:`, err.message);
+            return false;
+          })
+        : false;
+
+      pushSent = owed.includes('push')
+        ? await fcmService.sendRendered(user.id, message, options.data).catch((err) => {
+            console.error(`[Templates] ${id} push error:`, err.message);
+            return false;
+          })
+        : false;
+    }
+
+    if (!channels.includes('in_app')) return null;
+
+    return Notification.create({
+      recipientId: user.id,
+      type: options.type || 'info',
+      category: message.category,
+      title: message.notification.title,
+      message: message.notification.message,
+      actionText: message.notification.actionText,
+      actionUrl: message.notification.actionUrl,
+      relatedModel: options.relatedModel,
+      relatedId: options.relatedId,
+      sentVia: ['in_app', ...(emailSent ? ['email' as const] : []), ...(pushSent ? ['push' as const] : [])],
+      emailSent,
+      pushSent,
+      pendingChannels: plan.kind === 'defer' ? owed : [],
+      deliverAfter: plan.kind === 'defer' ? plan.deliverAfter : null,
+      coalesceKey: options.coalesceKey || null,
+      deliveredAt: emailSent || pushSent ? now : null,
+      data: { ...options.data, templateId: id },
+    });
+  }
+}
+
+const messageTemplates = new MessageTemplateService();
+export default messageTemplates;
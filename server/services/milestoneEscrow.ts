@@ -0,0 +1,403 @@
+/**
+ * Milestone Escrow Service
+ *
+ * Escrow por hitos (reglas en milestoneRules.ts):
+ *
+ * - createForContract(): guarda los hitos pactados al crear el contrato
+ * - fundingFor() / markFunded(): qué cubre el próximo pago y marcar los
+ *   hitos como financiados cuando el pago queda retenido
+ * - submitDelivery() / approveDelivery() / rejectDelivery(): la entrega de
+ *   cada hito; aprobarla libera solo ese hito en el ledger
+ * - releaseDue(): liberación automática de entregas sin respuesta en 7 días
+ *   (job milestone-auto-release)
+ * - openDispute() / resolveDispute(): disputas que congelan un solo hito
+ *
+ * Cada cambio de un hito y su asiento en el ledger van en la misma
+ * transacción, con el hito bloqueado, así dos aprobaciones simultáneas no
+ * liberan dos veces.
+ */
+
+import crypto from 'crypto';
+import { Op, type Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Contract, type Delivery } from '../models/sql/Contract.model.js';
+import { ContractMilestone } from '../models/sql/ContractMilestone.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { User } from '../models/sql/User.model.js';
+import type { Dispute, ResolutionType } from '../models/sql/Dispute.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import ledger from './ledger.js';
+import messageTemplates from './messageTemplates.js';
+import { fromDecimal, toCurrency, toDecimal, fromMinor } from './money.js';
+import {
+  AUTO_RELEASE_DAYS,
+  fundingPlan,
+  isAutoReleaseDue,
+  planMilestoneTransition,
+  summarizeMilestones,
+  type FundingPlan,
+  type MilestoneEvent,
+  type MilestoneFunding,
+  type MilestoneSpec,
+  type MilestoneSummary,
+} from './milestoneRules.js';
+
+// Estados del contrato en los que se puede entregar y aprobar hitos
+const WORKING_STATUSES = ['accepted', 'in_progress', 'awaiting_confirmation'];
+
+interface ActorOptions {
+  actorId?: string | null;
+  transaction?: Transaction;
+}
+
+class MilestoneEscrowService {
+  /**
+   * Guarda los hitos de un contrato y marca el contrato como escrow por hitos.
+   */
+  async createForContract(
+    contract: Contract,
+    plan: { funding: MilestoneFunding; milestones: MilestoneSpec[] },
+    transaction?: Transaction
+  ): Promise<ContractMilestone[]> {
+    await contract.update({ milestoneFunding: plan.funding }, { transaction });
+    return ContractMilestone.bulkCreate(
+      plan.milestones.map((milestone) => ({
+        contractId: contract.id,
+        position: milestone.position,
+        title: milestone.title,
+        description: milestone.description,
+        amount: milestone.amount,
+        dueDate: milestone.dueDate,
+        deliveryId: milestone.deliveryId ?? null,
+        quoteLineIndex: milestone.quoteLineIndex ?? null,
+      })) as any[],
+      { transaction, returning: true }
+    );
+  }
+
+  async list(contractId: string, transaction?: Transaction): Promise<ContractMilestone[]> {
+    return ContractMilestone.findAll({ where: { contractId }, order: [['position', 'ASC']], transaction });
+  }
+
+  async summary(contract: Contract): Promise<{ milestones: ContractMilestone[]; summary: MilestoneSummary }> {
+    const milestones = await this.list(contract.id);
+    return { milestones, summary: summarizeMilestones(milestones, toCurrency(contract.currency)) };
+  }
+
+  /**
+   * Hitos y montos que cubre el próximo pago del cliente.
+   */
+  async fundingFor(contract: Contract, milestoneId?: string | null): Promise<FundingPlan> {
+    if (!contract.milestoneFunding) throw new ErrorResponse('El contrato no tiene hitos', 400);
+    const milestones = await this.list(contract.id);
+    return fundingPlan(milestones, contract.milestoneFunding, {
+      commission: contract.commission,
+      currency: toCurrency(contract.currency),
+    }, milestoneId);
+  }
+
+  /**
+   * El pago quedó retenido en escrow: los hitos que cubre pasan a financiados.
+   * Seguro de repetir (los hitos ya financiados se saltean).
+   */
+  async markFunded(payment: { id: string; contractId?: string | null; metadata?: Record<string, any> | null }): Promise<number> {
+    const milestoneIds: string[] = payment.metadata?.milestoneIds || [];
+    if (!payment.contractId || !milestoneIds.length) return 0;
+
+    return sequelize.transaction(async (transaction) => {
+      const contract = await Contract.findByPk(payment.contractId!, { lock: transaction.LOCK.UPDATE, transaction });
+      if (!contract) return 0;
+      const milestones = await ContractMilestone.findAll({
+        where: { id: { [Op.in]: milestoneIds }, contractId: contract.id, status: 'pending' },
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+
+      const now = new Date();
+      const currency = toCurrency(contract.currency);
+      let fundedMinor = 0;
+      for (const milestone of milestones) {
+        await milestone.update({ ...planMilestoneTransition(milestone, 'fund', now), paymentId: payment.id }, { transaction });
+        fundedMinor += fromDecimal(milestone.amount, currency).amount;
+      }
+      if (!milestones.length) return 0;
+
+      // Líneas de la cotización cobradas por hito (pago por línea)
+      const paidLines = new Set(milestones.map((milestone) => milestone.quoteLineIndex).filter((index) => index !== null && index !== undefined));
+      if (paidLines.size && contract.lineItems?.length) {
+        contract.lineItems = contract.lineItems.map((line) =>
+          paidLines.has(line.index) ? { ...line, paymentStatus: 'paid' as const } : line
+        );
+      }
+      contract.escrowAmount = toDecimal(fromMinor(fromDecimal(contract.escrowAmount || 0, currency).amount + fundedMinor, currency));
+      await contract.save({ transaction });
+      return milestones.length;
+    });
+  }
+
+  // ============================================
+  // Entregas
+  // ============================================
+
+  /**
+   * El trabajador entrega un hito financiado. Reutiliza la entrega que ya
+   * cubría el hito (planificada desde la cotización o rechazada antes).
+   */
+  async submitDelivery(
+    contract: Contract,
+    milestoneId: string,
+    userId: string,
+    input: { description: string; files?: string[] }
+  ): Promise<ContractMilestone> {
+    if (contract.doerId !== userId) throw new ErrorResponse('Solo el trabajador puede entregar un hito', 403);
+    this.assertWorking(contract);
+    const description = String(input.description || '').trim();
+    if (!description) throw new ErrorResponse('La descripción de la entrega es requerida', 400);
+
+    const milestone = await sequelize.transaction(async (transaction) => {
+      const milestone = await this.lockMilestone(contract.id, { id: milestoneId }, transaction);
+      const now = new Date();
+      const patch = planMilestoneTransition(milestone, 'submit', now);
+
+      const deliveries = [...(contract.deliveries || [])];
+      const existing = milestone.deliveryId ? deliveries.findIndex((delivery) => delivery.id === milestone.deliveryId) : -1;
+      const delivery: Delivery = {
+        ...(existing >= 0 ? deliveries[existing] : {}),
+        id: existing >= 0 ? deliveries[existing].id : crypto.randomUUID(),
+        description,
+        files: input.files || [],
+        status: 'completed',
+        submittedBy: userId,
+        submittedAt: now,
+        feedback: undefined,
+        milestoneId: milestone.id,
+      };
+      if (existing >= 0) deliveries[existing] = delivery;
+      else deliveries.push(delivery);
+
+      contract.deliveries = deliveries;
+      await contract.save({ transaction });
+      return milestone.update({ ...patch, deliveryId: delivery.id }, { transaction });
+    });
+
+    await this.notify(contract, contract.clientId,
+      `Se entregó el hito "${milestone.title}". Revisalo: si no respondés en ${AUTO_RELEASE_DAYS} días se libera automáticamente.`);
+    return milestone;
+  }
+
+  /**
+   * El cliente aprueba la entrega: se libera el hito que cubre.
+   */
+  async approveDelivery(contract: Contract, deliveryId: string, userId: string): Promise<ContractMilestone> {
+    if (contract.clientId !== userId) throw new ErrorResponse('Solo el cliente puede aprobar una entrega', 403);
+    this.assertWorking(contract);
+
+    const milestone = await sequelize.transaction(async (transaction) => {
+      const milestone = await this.lockMilestone(contract.id, { deliveryId }, transaction);
+      this.updateDelivery(contract, deliveryId, { status: 'approved', reviewedBy: userId, reviewedAt: new Date() });
+      await contract.save({ transaction });
+      return this.release(contract, milestone, 'approve', { actorId: userId, transaction });
+    });
+
+    await this.notify(contract, contract.doerId, `El cliente aprobó el hito "${milestone.title}" y se liberó su pago.`);
+    return milestone;
+  }
+
+  /**
+   * El cliente rechaza la entrega: el hito vuelve a trabajo con los fondos retenidos.
+   */
+  async rejectDelivery(contract: Contract, deliveryId: string, userId: string, feedback: string): Promise<ContractMilestone> {
+    if (contract.clientId !== userId) throw new ErrorResponse('Solo el cliente puede rechazar una entrega', 403);
+    this.assertWorking(contract);
+    const reason = String(feedback || '').trim();
+    if (!reason) throw new ErrorResponse('Indicá qué hay que corregir', 400);
+
+    const milestone = await sequelize.transaction(async (transaction) => {
+      const milestone = await this.lockMilestone(contract.id, { deliveryId }, transaction);
+      const patch = planMilestoneTransition(milestone, 'reject');
+      this.updateDelivery(contract, deliveryId, { status: 'rejected', reviewedBy: userId, reviewedAt: new Date(), feedback: reason.slice(0, 1000) });
+      await contract.save({ transaction });
+      return milestone.update(patch, { transaction });
+    });
+
+    await this.notify(contract, contract.doerId, `El cliente pidió cambios en el hito "${milestone.title}": ${reason}`);
+    return milestone;
+  }
+
+  /**
+   * Libera los hitos entregados hace más de 7 días sin respuesta del cliente.
+   */
+  async releaseDue(now: Date = new Date()): Promise<{ released: number; failed: number }> {
+    const cutoff = new Date(now.getTime() - AUTO_RELEASE_DAYS * 24 * 60 * 60 * 1000);
+    const due = await ContractMilestone.findAll({
+      attributes: ['id', 'contractId'],
+      where: { status: 'submitted', submittedAt: { [Op.lte]: cutoff } },
+      order: [['submittedAt', 'ASC']],
+      limit: 200,
+    });
+
+    let released = 0;
+    let failed = 0;
+    for (const { id, contractId } of due) {
+      try {
+        const result = await sequelize.transaction(async (transaction) => {
+          const contract = await Contract.findByPk(contractId, { transaction });
+          // Una disputa sobre el contrato completo congela todos sus hitos
+          if (!contract || contract.status === 'disputed') return null;
+          const milestone = await this.lockMilestone(contractId, { id }, transaction);
+          if (!isAutoReleaseDue(milestone, now)) return null;
+          if (milestone.deliveryId) {
+            this.updateDelivery(contract, milestone.deliveryId, { status: 'approved', reviewedAt: now });
+            await contract.save({ transaction });
+          }
+          return { contract, milestone: await this.release(contract, milestone, 'auto_release', { transaction }) };
+        });
+        if (!result) continue;
+        released++;
+
+        const { contract, milestone } = result;
+        await this.notify(contract, contract.doerId, `El hito "${milestone.title}" se liberó automáticamente tras ${AUTO_RELEASE_DAYS} días sin objeciones.`);
+        await this.notify(contract, contract.clientId, `El pago del hito "${milestone.title}" se liberó automáticamente tras ${AUTO_RELEASE_DAYS} días sin objeciones.`);
+      } catch (error) {
+        failed++;
+        console.error(`[MilestoneEscrow] Error auto-releasing milestone ${id}:`, error);
+      }
+    }
+    return { released, failed };
+  }
+
+  // ============================================
+  // Disputas parciales
+  // ============================================
+
+  /**
+   * Hito que se quiere disputar; falla si no tiene fondos retenidos para congelar.
+   */
+  async findDisputable(contractId: string, milestoneId: string): Promise<ContractMilestone> {
+    const milestone = await ContractMilestone.findOne({ where: { id: milestoneId, contractId } });
+    if (!milestone) throw new ErrorResponse('Hito no encontrado', 404);
+    planMilestoneTransition(milestone, 'dispute');
+    return milestone;
+  }
+
+  async openDispute(milestone: ContractMilestone, disputeId: string, transaction?: Transaction): Promise<ContractMilestone> {
+    return milestone.update({ ...planMilestoneTransition(milestone, 'dispute'), disputeId }, { transaction });
+  }
+
+  /**
+   * Aplica la resolución de una disputa parcial solo sobre su hito. Sin
+   * acción, el hito vuelve a estar financiado y el trabajador puede volver a entregar.
+   */
+  async resolveDispute(
+    dispute: Dispute,
+    resolutionType: ResolutionType,
+    refundAmount: number | null,
+    options: ActorOptions & { transaction: Transaction }
+  ): Promise<ContractMilestone> {
+    const { transaction } = options;
+    const contract = await Contract.findByPk(dispute.contractId, { transaction });
+    if (!contract) throw new ErrorResponse('Contrato no encontrado', 404);
+    const milestone = await this.lockMilestone(contract.id, { id: dispute.milestoneId! }, transaction);
+    const ledgerOptions = { createdBy: options.actorId || null, transaction };
+
+    switch (resolutionType) {
+      case 'full_release':
+        return this.release(contract, milestone, 'resolve_release', options);
+
+      case 'full_refund':
+        await ledger.refundMilestoneEscrow(contract, milestone, ledgerOptions);
+        return milestone.update(planMilestoneTransition(milestone, 'resolve_refund'), { transaction });
+
+      case 'partial_refund': {
+        const currency = toCurrency(contract.currency);
+        const total = fromDecimal(milestone.amount, currency).amount;
+        const refunded = Math.min(fromDecimal(refundAmount || 0, currency).amount, total);
+        await ledger.refundMilestoneEscrow(contract, milestone, { ...ledgerOptions, amount: toDecimal(fromMinor(refunded, currency)) });
+        if (refunded >= total) {
+          return milestone.update(planMilestoneTransition(milestone, 'resolve_refund'), { transaction });
+        }
+        // Lo que no se reembolsa se libera al trabajador
+        await ledger.releaseMilestoneEscrow(contract, milestone, { ...ledgerOptions, amount: toDecimal(fromMinor(total - refunded, currency)) });
+        return milestone.update({
+          ...planMilestoneTransition(milestone, 'resolve_release'),
+          ...(refunded > 0 ? { refundedAt: new Date() } : {}),
+        }, { transaction });
+      }
+
+      case 'no_action':
+      default:
+        return milestone.update(planMilestoneTransition(milestone, 'resume'), { transaction });
+    }
+  }
+
+  // ============================================
+  // Internos
+  // ============================================
+
+  private async release(
+    contract: Contract,
+    milestone: ContractMilestone,
+    event: Extract<MilestoneEvent, 'approve' | 'auto_release' | 'resolve_release'>,
+    options: ActorOptions & { transaction: Transaction }
+  ): Promise<ContractMilestone> {
+    const patch = planMilestoneTransition(milestone, event);
+    await ledger.releaseMilestoneEscrow(contract, milestone, {
+      createdBy: options.actorId || null,
+      transaction: options.transaction,
+    });
+    return milestone.update({ ...patch, autoReleased: event === 'auto_release' }, { transaction: options.transaction });
+  }
+
+  private async lockMilestone(
+    contractId: string,
+    where: { id: string } | { deliveryId: string },
+    transaction: Transaction
+  ): Promise<ContractMilestone> {
+    const milestone = await ContractMilestone.findOne({
+      where: { ...where, contractId },
+      lock: transaction.LOCK.UPDATE,
+      transaction,
+    });
+    if (!milestone) {
+      throw new ErrorResponse('deliveryId' in where ? 'La entrega no corresponde a un hito del contrato' : 'Hito no encontrado', 404);
+    }
+    return milestone;
+  }
+
+  private assertWorking(contract: Contract): void {
+    if (!contract.milestoneFunding) throw new ErrorResponse('El contrato no tiene hitos', 400);
+    if (contract.status === 'disputed') {
+      throw new ErrorResponse('El contrato está en disputa: sus hitos quedan congelados hasta la resolución', 409);
+    }
+    if (!WORKING_STATUSES.includes(contract.status)) {
+      throw new ErrorResponse(`No se pueden gestionar hitos de un contrato en estado "${contract.status}"`, 409);
+    }
+  }
+
+  private updateDelivery(contract: Contract, deliveryId: string, patch: Partial<Delivery>): void {
+    contract.deliveries = (contract.deliveries || []).map((delivery) =>
+      delivery.id === deliveryId ? { ...delivery, ...patch } : delivery
+    );
+  }
+
+  private async notify(contract: Contract, userId: string, update: string): Promise<void> {
+    try {
+      const [user, job] = await Promise.all([
+        User.findByPk(userId, { attributes: ['id', 'name'] }),
+        Job.findByPk(contract.jobId, { attributes: ['id', 'title'] }),
+      ]);
+      if (!user) return;
+      await messageTemplates.notify(user.id, 'contract.update', {
+        recipientName: user.name || '',
+        contractTitle: job?.title || 'Contrato',
+        update,
+        contractId: contract.id,
+      }, { relatedModel: 'Contract', relatedId: contract.id, data: { contractId: contract.id } });
+    } catch (error) {
+      console.error(`[MilestoneEscrow] Error notifying user ${userId}:`, error);
+    }
+  }
+}
+
+const milestoneEscrow = new MilestoneEscrowService();
+export default milestoneEscrow;
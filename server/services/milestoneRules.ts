@@ -0,0 +1,314 @@
+/**
+ * Milestone Escrow Rules
+ *
+ * Escrow por hitos: el precio del contrato se reparte en hitos con monto y
+ * fecha de entrega. Cada hito se libera por separado cuando el cliente
+ * aprueba la entrega que lo cubre, o automáticamente si pasan los mismos
+ * 7 días sin respuesta que usa el escrow del contrato completo.
+ *
+ * - Financiación `upfront`: un único pago retiene todos los hitos.
+ *   `per_milestone`: cada hito se paga antes de empezarlo.
+ * - La comisión del contrato se prorratea por monto entre los hitos, así lo
+ *   cobrado hito por hito suma exactamente el total del contrato.
+ * - Una disputa sobre un hito congela solo ese hito; el resto sigue su curso.
+ *
+ * Estados de un hito:
+ *   pending → funded → submitted → released
+ *                 ↑        │
+ *                 └────────┘ (entrega rechazada)
+ *   funded/submitted → disputed → released | refunded | funded (sin acción)
+ *   pending → cancelled (contrato cancelado sin haberlo pagado)
+ *
+ * Módulo puro; la persistencia y el ledger viven en milestoneEscrow.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { fromDecimal, fromMinor, toDecimal, type Currency } from './money.js';
+import { allocateMinor, type ContractLineItem } from './quoteContractRules.js';
+
+export const MILESTONE_FUNDING_MODES = ['upfront', 'per_milestone'] as const;
+export type MilestoneFunding = (typeof MILESTONE_FUNDING_MODES)[number];
+
+export const MILESTONE_STATUSES = ['pending', 'funded', 'submitted', 'released', 'disputed', 'refunded', 'cancelled'] as const;
+export type MilestoneStatus = (typeof MILESTONE_STATUSES)[number];
+
+// Misma regla que la liberación automática de contratos en EscrowAutomationService
+export const AUTO_RELEASE_DAYS = 7;
+export const MAX_MILESTONES = 20;
+
+// Fondos del hito retenidos en escrow
+export const HELD_STATUSES: readonly MilestoneStatus[] = ['funded', 'submitted', 'disputed'];
+// Hitos que ya no mueven dinero
+export const SETTLED_STATUSES: readonly MilestoneStatus[] = ['released', 'refunded', 'cancelled'];
+
+export type MilestoneEvent =
+  | 'fund'          // Se acreditó el pago que lo cubre
+  | 'submit'        // El trabajador entregó
+  | 'approve'       // El cliente aprobó la entrega
+  | 'reject'        // El cliente rechazó la entrega: vuelve a trabajo
+  | 'auto_release'  // Cron: entrega sin respuesta dentro del plazo
+  | 'dispute'       // Disputa sobre este hito
+  | 'resolve_release'
+  | 'resolve_refund'
+  | 'resume'        // Disputa cerrada sin acción: vuelve a trabajo
+  | 'cancel';       // El contrato se canceló antes de pagarlo
+
+const MILESTONE_TRANSITIONS: Record<MilestoneEvent, { from: readonly MilestoneStatus[]; to: MilestoneStatus }> = {
+  fund: { from: ['pending'], to: 'funded' },
+  submit: { from: ['funded'], to: 'submitted' },
+  approve: { from: ['submitted'], to: 'released' },
+  reject: { from: ['submitted'], to: 'funded' },
+  auto_release: { from: ['submitted'], to: 'released' },
+  dispute: { from: ['funded', 'submitted'], to: 'disputed' },
+  resolve_release: { from: ['disputed'], to: 'released' },
+  resolve_refund: { from: ['disputed'], to: 'refunded' },
+  resume: { from: ['disputed'], to: 'funded' },
+  cancel: { from: ['pending'], to: 'cancelled' },
+};
+
+export interface MilestoneSnapshot {
+  id?: string;
+  position: number;
+  amount: number | string;
+  status: MilestoneStatus;
+  submittedAt?: Date | null;
+}
+
+export interface MilestoneSpec {
+  position: number;
+  title: string;
+  description: string | null;
+  amount: number;
+  dueDate: Date;
+  deliveryId?: string | null;
+  quoteLineIndex?: number | null;
+}
+
+export interface MilestonePlan {
+  funding: MilestoneFunding;
+  milestones: MilestoneSpec[];
+}
+
+/**
+ * Cambios de un hito ante un evento. Lanza 409 si el evento no aplica al
+ * estado actual (p. ej. aprobar una entrega de un hito en disputa).
+ */
+export function planMilestoneTransition(
+  milestone: Pick<MilestoneSnapshot, 'status'>,
+  event: MilestoneEvent,
+  now: Date = new Date()
+): { status: MilestoneStatus } & Record<string, any> {
+  const definition = MILESTONE_TRANSITIONS[event];
+  if (!definition.from.includes(milestone.status)) {
+    throw new ErrorResponse(`No se puede aplicar "${event}" a un hito en estado "${milestone.status}"`, 409);
+  }
+
+  const patch: { status: MilestoneStatus } & Record<string, any> = { status: definition.to };
+  switch (event) {
+    case 'fund':
+      patch.fundedAt = now;
+      break;
+    case 'submit':
+      patch.submittedAt = now;
+      break;
+    case 'reject':
+    case 'resume':
+      patch.submittedAt = null;
+      break;
+    case 'approve':
+    case 'auto_release':
+    case 'resolve_release':
+      patch.releasedAt = now;
+      break;
+    case 'resolve_refund':
+      patch.refundedAt = now;
+      break;
+  }
+  return patch;
+}
+
+/**
+ * Una entrega sin respuesta del cliente se libera sola a los 7 días.
+ */
+export function isAutoReleaseDue(milestone: Pick<MilestoneSnapshot, 'status' | 'submittedAt'>, now: Date): boolean {
+  if (milestone.status !== 'submitted' || !milestone.submittedAt) return false;
+  return new Date(milestone.submittedAt).getTime() <= now.getTime() - AUTO_RELEASE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (value === undefined || value === null || value === '') return null;
+  const date = new Date(value as any);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Valida los hitos que llegan al crear un contrato. Devuelve null si no se
+ * pidieron hitos (escrow del contrato completo, como siempre).
+ */
+export function parseMilestonePlan(
+  body: Record<string, any>,
+  contract: { price: number | string; currency: Currency; startDate: Date | string }
+): MilestonePlan | null {
+  const input = body.milestones;
+  if (input === undefined || input === null) return null;
+  if (!Array.isArray(input) || input.length === 0) {
+    throw new ErrorResponse('milestones debe ser una lista con al menos un hito', 400);
+  }
+  if (input.length > MAX_MILESTONES) {
+    throw new ErrorResponse(`Un contrato admite hasta ${MAX_MILESTONES} hitos`, 400);
+  }
+
+  const funding = body.milestoneFunding ?? 'upfront';
+  if (!(MILESTONE_FUNDING_MODES as readonly unknown[]).includes(funding)) {
+    throw new ErrorResponse(`milestoneFunding inválido. Opciones: ${MILESTONE_FUNDING_MODES.join(', ')}`, 400);
+  }
+
+  const start = parseDate(contract.startDate);
+  const startDay = start ? new Date(start.getFullYear(), start.getMonth(), start.getDate()) : null;
+  const milestones = input.map((raw: any, position: number): MilestoneSpec => {
+    const label = `Hito ${position + 1}`;
+    const title = typeof raw?.title === 'string' ? raw.title.trim() : '';
+    if (!title || title.length > 200) {
+      throw new ErrorResponse(`${label}: el título es requerido (máx. 200 caracteres)`, 400);
+    }
+    const amount = Number(raw.amount);
+    if (!Number.isFinite(amount) || fromDecimal(amount, contract.currency).amount <= 0) {
+      throw new ErrorResponse(`${label}: el monto debe ser mayor a cero`, 400);
+    }
+    const dueDate = parseDate(raw.dueDate);
+    if (!dueDate) throw new ErrorResponse(`${label}: fecha de entrega inválida`, 400);
+    if (startDay && dueDate < startDay) {
+      throw new ErrorResponse(`${label}: la fecha de entrega no puede ser anterior al inicio del contrato`, 400);
+    }
+    return {
+      position,
+      title,
+      description: typeof raw.description === 'string' && raw.description.trim() ? raw.description.trim().slice(0, 1000) : null,
+      amount: toDecimal(fromDecimal(amount, contract.currency)),
+      dueDate,
+    };
+  });
+
+  const sum = milestones.reduce((acc, milestone) => acc + fromDecimal(milestone.amount, contract.currency).amount, 0);
+  if (sum !== fromDecimal(contract.price, contract.currency).amount) {
+    throw new ErrorResponse('La suma de los hitos debe ser igual al precio del contrato', 400);
+  }
+
+  return { funding, milestones };
+}
+
+/**
+ * Hitos de un contrato que viene de una cotización con pago por línea: uno
+ * por línea, por su total con impuestos y con la entrega planificada que la cubre.
+ */
+export function milestonesFromLines(lines: ContractLineItem[], dueDate: Date): MilestoneSpec[] {
+  return lines.map((line, position) => ({
+    position,
+    title: line.description.slice(0, 200),
+    description: null,
+    amount: line.total,
+    dueDate,
+    deliveryId: line.deliveryId ?? null,
+    quoteLineIndex: line.index,
+  }));
+}
+
+/**
+ * Parte de la comisión del contrato que corresponde a cada hito (en el orden
+ * de `milestones`), prorrateada por monto.
+ */
+export function commissionShares(
+  milestones: Array<Pick<MilestoneSnapshot, 'amount'>>,
+  commission: number | string,
+  currency: Currency
+): number[] {
+  const shares = allocateMinor(
+    fromDecimal(commission || 0, currency).amount,
+    milestones.map((milestone) => fromDecimal(milestone.amount, currency).amount)
+  );
+  return shares.map((share) => toDecimal(fromMinor(share, currency)));
+}
+
+export interface FundingPlan {
+  milestoneIds: string[];
+  amount: number; // lo que queda retenido en escrow
+  fee: number;    // comisión de la plataforma
+  total: number;  // lo que paga el cliente
+}
+
+/**
+ * Qué hitos cubre el próximo pago del cliente. Con `upfront` son todos
+ * (solo antes de pagar ninguno); con `per_milestone`, el pedido o el primero
+ * pendiente.
+ */
+export function fundingPlan(
+  milestones: Array<MilestoneSnapshot & { id: string }>,
+  funding: MilestoneFunding,
+  contract: { commission: number | string; currency: Currency },
+  milestoneId?: string | null
+): FundingPlan {
+  const ordered = [...milestones].sort((a, b) => a.position - b.position);
+  const fees = commissionShares(ordered, contract.commission, contract.currency);
+
+  let selected: number[];
+  if (funding === 'upfront') {
+    if (ordered.some((milestone) => milestone.status !== 'pending')) {
+      throw new ErrorResponse('Los hitos de este contrato ya fueron pagados', 409);
+    }
+    selected = ordered.map((_, index) => index);
+  } else {
+    const index = milestoneId
+      ? ordered.findIndex((milestone) => milestone.id === milestoneId)
+      : ordered.findIndex((milestone) => milestone.status === 'pending');
+    if (index === -1) {
+      throw new ErrorResponse(milestoneId ? 'Hito no encontrado' : 'No quedan hitos por pagar', milestoneId ? 404 : 409);
+    }
+    if (ordered[index].status !== 'pending') {
+      throw new ErrorResponse('Este hito ya fue pagado', 409);
+    }
+    selected = [index];
+  }
+
+  const sum = (values: number[]) =>
+    toDecimal(fromMinor(values.reduce((acc, value) => acc + fromDecimal(value, contract.currency).amount, 0), contract.currency));
+  const amount = sum(selected.map((index) => Number(ordered[index].amount)));
+  const fee = sum(selected.map((index) => fees[index]));
+  return {
+    milestoneIds: selected.map((index) => ordered[index].id),
+    amount,
+    fee,
+    total: sum([amount, fee]),
+  };
+}
+
+export interface MilestoneSummary {
+  total: number;
+  funded: number;   // pagado alguna vez (retenido + liberado + reembolsado)
+  held: number;
+  released: number;
+  refunded: number;
+  disputed: number;
+  settled: boolean; // todos los hitos cerrados
+}
+
+export function summarizeMilestones(milestones: Array<Pick<MilestoneSnapshot, 'amount' | 'status'>>, currency: Currency): MilestoneSummary {
+  const minor = { total: 0, held: 0, released: 0, refunded: 0, disputed: 0 };
+  for (const milestone of milestones) {
+    const amount = fromDecimal(milestone.amount, currency).amount;
+    minor.total += amount;
+    if (HELD_STATUSES.includes(milestone.status)) minor.held += amount;
+    if (milestone.status === 'released') minor.released += amount;
+    if (milestone.status === 'refunded') minor.refunded += amount;
+    if (milestone.status === 'disputed') minor.disputed += amount;
+  }
+  const decimal = (value: number) => toDecimal(fromMinor(value, currency));
+  return {
+    total: decimal(minor.total),
+    funded: decimal(minor.held + minor.released + minor.refunded),
+    held: decimal(minor.held),
+    released: decimal(minor.released),
+    refunded: decimal(minor.refunded),
+    disputed: decimal(minor.disputed),
+    settled: milestones.length > 0 && milestones.every((milestone) => SETTLED_STATUSES.includes(milestone.status)),
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Money
+ *
+ * Tipo de valor compartido para montos con moneda. El monto se guarda en
+ * unidades menores (centavos) como entero, así sumas, porcentajes y
+ * redondeos son exactos y nunca se mezclan pesos con dólares sin una
+ * conversión explícita.
+ *
+ * Las columnas de la base siguen siendo DECIMAL(12,2) en unidades mayores;
+ * fromDecimal()/toDecimal() hacen la traducción en el borde.
+ *
+ * Módulo puro; las cotizaciones en vivo vienen de currencyExchange.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+
+export const CURRENCIES = ['ARS', 'USD', 'USDT'] as const;
+
+export type Currency = typeof CURRENCIES[number];
+
+export const DEFAULT_CURRENCY: Currency = 'ARS';
+
+export interface Money {
+  // Unidades menores (centavos), siempre entero
+  amount: number;
+  currency: Currency;
+}
+
+/** Una cotización con su procedencia y antigüedad. */
+export interface QuotedRate {
+  rate: number;
+  timestamp: Date;
+  source: string;
+}
+
+/**
+ * Cotización congelada en un pago: 1 `from` = `rate` `to`. Se guarda junto
+ * al pago para que la conversión sea auditable y no cambie después.
+ */
+export interface RateSnapshot {
+  from: Currency;
+  to: Currency;
+  rate: number;
+  source: string;
+  quotedAt: string;
+}
+
+const MINOR_UNITS = 100;
+
+export function isCurrency(value: unknown): value is Currency {
+  return typeof value === 'string' && (CURRENCIES as readonly string[]).includes(value);
+}
+
+/**
+ * Normaliza una moneda que viene de la base o de un request. Lo que no se
+ * reconoce (null, legado) se considera ARS; un valor explícito inválido falla.
+ */
+export function toCurrency(value: unknown): Currency {
+  if (value === undefined || value === null || value === '') return DEFAULT_CURRENCY;
+  const upper = String(value).toUpperCase();
+  if (!isCurrency(upper)) {
+    throw new ErrorResponse(`Moneda no soportada: ${value}. Usá ${CURRENCIES.join(', ')}`, 400);
+  }
+  return upper;
+}
+
+export function fromMinor(amount: number, currency: Currency = DEFAULT_CURRENCY): Money {
+  if (!Number.isInteger(amount)) {
+    throw new ErrorResponse(`Monto en unidades menores inválido: ${amount}`, 400);
+  }
+  return { amount, currency };
+}
+
+/**
+ * Monto decimal (columna DECIMAL, body de un request) a Money.
+ */
+export function fromDecimal(value: number | string | null | undefined, currency: Currency = DEFAULT_CURRENCY): Money {
+  const number = Number(value ?? 0);
+  if (!Number.isFinite(number)) {
+    throw new ErrorResponse(`Monto inválido: ${value}`, 400);
+  }
+  return { amount: Math.round(number * MINOR_UNITS), currency };
+}
+
+export function toDecimal(money: Money): number {
+  return money.amount / MINOR_UNITS;
+}
+
+export function zero(currency: Currency = DEFAULT_CURRENCY): Money {
+  return { amount: 0, currency };
+}
+
+function assertSameCurrency(a: Money, b: Money): void {
+  if (a.currency !== b.currency) {
+    throw new ErrorResponse(`No se pueden operar montos en ${a.currency} y ${b.currency} sin convertir`, 500);
+  }
+}
+
+export function add(a: Money, ...rest: Money[]): Money {
+  return rest.reduce((sum, m) => {
+    assertSameCurrency(sum, m);
+    return { amount: sum.amount + m.amount, currency: sum.currency };
+  }, a);
+}
+
+export function subtract(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return { amount: a.amount - b.amount, currency: a.currency };
+}
+
+/**
+ * Porcentaje de un monto (ej. comisión del 8%), redondeado al centavo.
+ */
+export function percentage(money: Money, percent: number): Money {
+  return { amount: Math.round((money.amount * percent) / 100), currency: money.currency };
+}
+
+export function max(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount >= b.amount ? a : b;
+}
+
+export function min(a: Money, b: Money): Money {
+  assertSameCurrency(a, b);
+  return a.amount <= b.amount ? a : b;
+}
+
+export function isZero(money: Money): boolean {
+  return money.amount === 0;
+}
+
+export function equals(a: Money, b: Money): boolean {
+  return a.currency === b.currency && a.amount === b.amount;
+}
+
+/**
+ * Convierte con una cotización congelada. La cotización puede usarse en
+ * cualquier sentido (from→to multiplica, to→from divide).
+ */
+export function convert(money: Money, to: Currency, snapshot: RateSnapshot): Money {
+  if (money.currency === to) return money;
+  if (!(snapshot.rate > 0)) {
+    throw new ErrorResponse(`Cotización inválida ${snapshot.from}/${snapshot.to}: ${snapshot.rate}`, 400);
+  }
+  if (snapshot.from === money.currency && snapshot.to === to) {
+    return { amount: Math.round(money.amount * snapshot.rate), currency: to };
+  }
+  if (snapshot.from === to && snapshot.to === money.currency) {
+    return { amount: Math.round(money.amount / snapshot.rate), currency: to };
+  }
+  throw new ErrorResponse(
+    `La cotización ${snapshot.from}/${snapshot.to} no sirve para convertir ${money.currency} a ${to}`,
+    400
+  );
+}
+
+export function snapshotOf(from: Currency, to: Currency, quote: QuotedRate): RateSnapshot {
+  return {
+    from,
+    to,
+    rate: quote.rate,
+    source: quote.source,
+    quotedAt: new Date(quote.timestamp).toISOString(),
+  };
+}
+
+/**
+ * Formato para mostrar (PDFs, emails). USDT no es un código ISO 4217, así
+ * que Intl no lo conoce: se muestra como "USDT 1.234,50".
+ */
+export function formatMoney(money: Money, locale = 'es-AR'): string {
+  const value = toDecimal(money);
+  if (money.currency === 'USDT') {
+    return `USDT ${value.toLocaleString(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: money.currency,
+    minimumFractionDigits: 2,
+  }).format(value);
+}
@@ -0,0 +1,288 @@
+/**
+ * Notification Delivery Rules
+ *
+ * Cuándo sale por email y push una notificación: horario de silencio por
+ * usuario (con su zona horaria), modo por categoría (instantáneo, resumen por
+ * hora, resumen diario o apagado) y agrupado de eventos repetidos, p. ej. los
+ * mensajes seguidos de una misma conversación.
+ *
+ * - En modo instantáneo, si ya se entregó un evento con la misma clave de
+ *   agrupado hace menos de COALESCE_WINDOW_MINUTES, el nuevo espera al fin de
+ *   esa ventana y sale junto con los demás en un solo resumen.
+ * - Lo que caiga en horario de silencio se corre al fin del silencio.
+ * - La notificación in-app se crea siempre; esto solo decide email y push.
+ *
+ * Módulo puro; la entrega está en messageTemplates.ts (inmediata) y en
+ * notificationDigests.ts (diferida).
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { MESSAGE_LOCALES } from './messageTemplateRules.js';
+
+export const DELIVERY_MODES = ['instant', 'hourly', 'daily', 'off'] as const;
+export type DeliveryMode = (typeof DELIVERY_MODES)[number];
+
+// Categorías de Notification que el usuario puede configurar; el resto es siempre instantáneo
+export const DELIVERY_CATEGORIES = ['chat', 'proposal', 'jobs', 'contract', 'payment'] as const;
+export type DeliveryCategory = (typeof DELIVERY_CATEGORIES)[number];
+
+export const DEFAULT_TIMEZONE = 'America/Argentina/Buenos_Aires';
+export const DEFAULT_DIGEST_HOUR = 9;
+export const COALESCE_WINDOW_MINUTES = 15;
+
+export interface QuietHours {
+  enabled: boolean;
+  start: string; // HH:mm
+  end: string;   // HH:mm
+  timezone: string;
+}
+
+export interface DeliveryPreferences {
+  quietHours?: QuietHours;
+  delivery?: Partial<Record<DeliveryCategory, DeliveryMode>>;
+  digestHour?: number; // hora local del resumen diario (0-23)
+}
+
+export type DeliveryPlan =
+  | { kind: 'now' }
+  | { kind: 'defer'; deliverAfter: Date; reason: 'coalesced' | 'hourly' | 'daily' | 'quiet_hours' }
+  | { kind: 'skip' };
+
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+export function isValidTimezone(timezone: unknown): timezone is string {
+  if (typeof timezone !== 'string' || !timezone) return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [, h, m] = HHMM.exec(hhmm) || [];
+  return Number(h) * 60 + Number(m);
+}
+
+interface LocalParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+export function localParts(date: Date, timezone: string): LocalParts {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value);
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/** Instante UTC de una hora local (día/mes pueden desbordar: se normalizan). */
+export function zonedTime(parts: LocalParts, timezone: string): Date {
+  const guess = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  const offsetAt = (utc: number) => {
+    const local = localParts(new Date(utc), timezone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - utc;
+  };
+  const first = guess - offsetAt(guess);
+  // Segunda pasada por si el offset cambia entre la estimación y el resultado (horario de verano)
+  return new Date(guess - offsetAt(first));
+}
+
+/** Próxima vez (estrictamente después de `after`) que son las hh:mm locales. */
+function nextLocalTime(after: Date, timezone: string, minutesOfDay: number): Date {
+  const today = localParts(after, timezone);
+  const at = (dayOffset: number) => zonedTime({
+    year: today.year,
+    month: today.month,
+    day: today.day + dayOffset,
+    hour: Math.floor(minutesOfDay / 60),
+    minute: minutesOfDay % 60,
+  }, timezone);
+  const candidate = at(0);
+  return candidate.getTime() > after.getTime() ? candidate : at(1);
+}
+
+export function isQuietAt(date: Date, quietHours?: QuietHours | null): boolean {
+  if (!quietHours?.enabled) return false;
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  if (start === end) return false;
+  const { hour, minute } = localParts(date, quietHours.timezone || DEFAULT_TIMEZONE);
+  const now = hour * 60 + minute;
+  // Ventana que cruza la medianoche (22:00 → 08:00)
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/** Fin del silencio si `date` cae dentro; si no, la misma fecha. */
+export function quietHoursEnd(date: Date, quietHours?: QuietHours | null): Date {
+  if (!quietHours || !isQuietAt(date, quietHours)) return date;
+  return nextLocalTime(date, quietHours.timezone || DEFAULT_TIMEZONE, toMinutes(quietHours.end));
+}
+
+export function deliveryModeFor(preferences: DeliveryPreferences | null | undefined, category: string): DeliveryMode {
+  if (!(DELIVERY_CATEGORIES as readonly string[]).includes(category)) return 'instant';
+  return preferences?.delivery?.[category as DeliveryCategory] || 'instant';
+}
+
+/**
+ * Decide si email y push salen ahora, esperan o no salen. `lastDeliveredAt`
+ * es la última entrega de un evento con la misma clave de agrupado.
+ */
+export function planDelivery(input: {
+  now: Date;
+  category: string;
+  preferences?: DeliveryPreferences | null;
+  lastDeliveredAt?: Date | null;
+}): DeliveryPlan {
+  const { now, preferences } = input;
+  const mode = deliveryModeFor(preferences, input.category);
+  if (mode === 'off') return { kind: 'skip' };
+
+  const timezone = preferences?.quietHours?.timezone || DEFAULT_TIMEZONE;
+  let at = now;
+  let reason: 'coalesced' | 'hourly' | 'daily' | 'quiet_hours' | null = null;
+
+  if (mode === 'hourly') {
+    at = new Date((Math.floor(now.getTime() / HOUR_MS) + 1) * HOUR_MS);
+    reason = 'hourly';
+  } else if (mode === 'daily') {
+    at = nextLocalTime(now, timezone, (preferences?.digestHour ?? DEFAULT_DIGEST_HOUR) * 60);
+    reason = 'daily';
+  } else if (input.lastDeliveredAt) {
+    const windowEnd = input.lastDeliveredAt.getTime() + COALESCE_WINDOW_MINUTES * 60 * 1000;
+    if (windowEnd > now.getTime()) {
+      at = new Date(windowEnd);
+      reason = 'coalesced';
+    }
+  }
+
+  const afterQuiet = quietHoursEnd(at, preferences?.quietHours);
+  if (afterQuiet.getTime() !== at.getTime()) {
+    at = afterQuiet;
+    reason = reason || 'quiet_hours';
+  }
+
+  return reason ? { kind: 'defer', deliverAfter: at, reason } : { kind: 'now' };
+}
+
+export interface PendingNotification {
+  id: string;
+  category: string;
+  coalesceKey?: string | null;
+  title: string;
+  message: string;
+  actionUrl?: string | null;
+  createdAt: Date;
+}
+
+export interface DigestItem {
+  key: string;
+  category: string;
+  count: number;
+  title: string;
+  message: string;
+  actionUrl: string | null;
+  latestAt: Date;
+  ids: string[];
+}
+
+/**
+ * Agrupa las notificaciones pendientes por clave (sin clave, cada una va
+ * sola). Cada grupo muestra el texto del evento más reciente y la cantidad;
+ * el resumen queda ordenado del más reciente al más viejo.
+ */
+export function coalesceNotifications(rows: PendingNotification[]): DigestItem[] {
+  const groups = new Map<string, DigestItem>();
+  for (const row of rows) {
+    const key = row.coalesceKey || `id:${row.id}`;
+    const createdAt = new Date(row.createdAt);
+    const group = groups.get(key);
+    if (!group) {
+      groups.set(key, {
+        key,
+        category: row.category,
+        count: 1,
+        title: row.title,
+        message: row.message,
+        actionUrl: row.actionUrl || null,
+        latestAt: createdAt,
+        ids: [row.id],
+      });
+      continue;
+    }
+    group.count += 1;
+    group.ids.push(row.id);
+    if (createdAt.getTime() >= group.latestAt.getTime()) {
+      group.title = row.title;
+      group.message = row.message;
+      group.actionUrl = row.actionUrl || group.actionUrl;
+      group.latestAt = createdAt;
+    }
+  }
+  return [...groups.values()].sort((a, b) => b.latestAt.getTime() - a.latestAt.getTime());
+}
+
+/**
+ * Valida la parte de entrega de PUT /api/notifications/preferences (idioma,
+ * silencio, modo por categoría, hora del resumen) y devuelve solo esas claves
+ * normalizadas, listas para mezclar con el resto de las preferencias.
+ */
+export function normalizeDeliveryPreferences(input: Record<string, any>): DeliveryPreferences & { language?: 'es' | 'en' } {
+  const result: DeliveryPreferences & { language?: 'es' | 'en' } = {};
+
+  if (input.language !== undefined) {
+    if (!(MESSAGE_LOCALES as readonly unknown[]).includes(input.language)) {
+      throw new ErrorResponse(`Idioma inválido. Opciones: ${MESSAGE_LOCALES.join(', ')}`, 400);
+    }
+    result.language = input.language;
+  }
+
+  if (input.quietHours !== undefined) {
+    const quiet = input.quietHours;
+    if (!quiet || typeof quiet !== 'object') throw new ErrorResponse('quietHours debe ser un objeto', 400);
+    if (!HHMM.test(quiet.start) || !HHMM.test(quiet.end)) {
+      throw new ErrorResponse('El horario de silencio debe tener inicio y fin en formato HH:mm', 400);
+    }
+    const timezone = quiet.timezone ?? DEFAULT_TIMEZONE;
+    if (!isValidTimezone(timezone)) throw new ErrorResponse(`Zona horaria inválida: ${timezone}`, 400);
+    result.quietHours = { enabled: quiet.enabled !== false, start: quiet.start, end: quiet.end, timezone };
+  }
+
+  if (input.delivery !== undefined) {
+    if (!input.delivery || typeof input.delivery !== 'object' || Array.isArray(input.delivery)) {
+      throw new ErrorResponse('delivery debe ser un objeto { categoría: modo }', 400);
+    }
+    const delivery: Partial<Record<DeliveryCategory, DeliveryMode>> = {};
+    for (const [category, mode] of Object.entries(input.delivery)) {
+      if (!(DELIVERY_CATEGORIES as readonly string[]).includes(category)) {
+        throw new ErrorResponse(`Categoría inválida: ${category}. Opciones: ${DELIVERY_CATEGORIES.join(', ')}`, 400);
+      }
+      if (!(DELIVERY_MODES as readonly unknown[]).includes(mode)) {
+        throw new ErrorResponse(`Modo inválido para ${category}. Opciones: ${DELIVERY_MODES.join(', ')}`, 400);
+      }
+      delivery[category as DeliveryCategory] = mode as DeliveryMode;
+    }
+    result.delivery = delivery;
+  }
+
+  if (input.digestHour !== undefined) {
+    if (!Number.isInteger(input.digestHour) || input.digestHour < 0 || input.digestHour > 23) {
+      throw new ErrorResponse('digestHour debe ser una hora entre 0 y 23', 400);
+    }
+    result.digestHour = input.digestHour;
+  }
+
+  return result;
+}
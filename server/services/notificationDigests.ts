@@ -0,0 +1,164 @@
+/**
+ * Notification Digests
+ *
+ * Entrega diferida de email y push: junta por usuario las notificaciones con
+ * pendingChannels cuyo deliverAfter ya pasó, agrupa las repetidas por
+ * coalesceKey y manda un solo resumen (plantilla 'notification.digest').
+ * Después deja en sentVia/emailSent/pushSent de cada fila lo que salió.
+ *
+ * - Si el usuario está en horario de silencio, se corre al fin del silencio.
+ * - Las que ya leyó en la app no se reenvían: solo se cierran.
+ * - Un canal que falló sigue pendiente y se reintenta más tarde, hasta
+ *   RETRY_WINDOW_MS después de creada la notificación. Los canales que el
+ *   usuario no puede recibir (sin email, push apagado o sin tokens) se cierran.
+ *
+ * Lo corre jobs/notificationDigests.ts cada 5 minutos.
+ */
+
+import { Op } from 'sequelize';
+import { config } from '../config/env.js';
+import { User } from '../models/sql/User.model.js';
+import { Notification, type NotificationChannel } from '../models/sql/Notification.model.js';
+import emailService from './email.js';
+import fcmService from './fcm.js';
+import { resolveLocale } from './messageTemplateRules.js';
+import { renderTemplate } from './messageTemplateCatalog.js';
+import { coalesceNotifications, isQuietAt, quietHoursEnd } from './notificationDeliveryRules.js';
+
+// Tope por corrida; lo que quede sale en la siguiente
+const BATCH_LIMIT = 2000;
+
+// Espera entre reintentos de un canal que falló, y hasta cuándo se reintenta
+const RETRY_DELAY_MS = 15 * 60 * 1000;
+const RETRY_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface DigestRunResult {
+  users: number;
+  notifications: number;
+  deferred: number;
+  failed: number;
+}
+
+class NotificationDigestService {
+  async deliverDue(now: Date = new Date()): Promise<DigestRunResult> {
+    const due = await Notification.findAll({
+      where: { deliverAfter: { [Op.lte]: now } },
+      order: [['createdAt', 'ASC']],
+      limit: BATCH_LIMIT,
+    });
+
+    const byUser = new Map<string, Notification[]>();
+    for (const row of due) {
+      const rows = byUser.get(row.recipientId) || [];
+      rows.push(row);
+      byUser.set(row.recipientId, rows);
+    }
+
+    const result: DigestRunResult = { users: 0, notifications: 0, deferred: 0, failed: 0 };
+    for (const [userId, rows] of byUser) {
+      try {
+        const outcome = await this.deliverToUser(userId, rows, now);
+        if (outcome === 'deferred') result.deferred += rows.length;
+        if (outcome === 'sent') {
+          result.users += 1;
+          result.notifications += rows.length;
+        }
+      } catch (error: any) {
+        result.failed += 1;
+        console.error(`[Digests] user ${userId} error:`, error?.message);
+      }
+    }
+    return result;
+  }
+
+  private async deliverToUser(userId: string, rows: Notification[], now: Date): Promise<'sent' | 'deferred' | 'closed'> {
+    const user = await User.findByPk(userId, { attributes: ['id', 'name', 'email', 'fcmTokens', 'notificationPreferences'] });
+    const preferences = user?.notificationPreferences;
+
+    if (user && isQuietAt(now, preferences?.quietHours)) {
+      await Notification.update(
+        { deliverAfter: quietHoursEnd(now, preferences?.quietHours) },
+        { where: { id: rows.map((row) => row.id) } }
+      );
+      return 'deferred';
+    }
+
+    const unread = rows.filter((row) => !row.read);
+    const owed = new Set(unread.flatMap((row) => row.pendingChannels || []));
+    if (!user || !unread.length || !owed.size) {
+      await this.close(rows, { email: false, push: false }, now);
+      return 'closed';
+    }
+
+    const items = coalesceNotifications(unread.map((row) => ({
+      id: row.id,
+      category: row.category,
+      coalesceKey: row.coalesceKey,
+      title: row.title,
+      message: row.message,
+      actionUrl: row.actionUrl,
+      createdAt: row.createdAt,
+    })));
+    const message = renderTemplate('notification.digest', resolveLocale(preferences?.language), {
+      userName: user.name || '',
+      items: items.map((item) => ({ title: item.title, message: item.message, count: item.count, actionUrl: item.actionUrl || '' })),
+    }, { baseUrl: config.clientUrl });
+
+    const reachable = {
+      email: preferences?.email !== false && !!user.email,
+      push: preferences?.push !== false && (user.fcmTokens || []).length > 0,
+    };
+    const email = owed.has('email') && reachable.email
+      ? await emailService.sendRendered(user.email, message).catch((err) => {
+          console.error('[Digests] email error:', err.message);
+          return false;
+        })
+      : false;
+    const push = owed.has('push') && reachable.push
+      ? await fcmService.sendRendered(user.id, message, { type: 'digest' }).catch((err) => {
+          console.error('[Digests] push error:', err.message);
+          return false;
+        })
+      : false;
+
+    const failed: NotificationChannel[] = [];
+    if (owed.has('email') && reachable.email && !email) failed.push('email');
+    if (owed.has('push') && reachable.push && !push) failed.push('push');
+
+    await this.close(rows, { email, push }, now, failed);
+    return 'sent';
+  }
+
+  /**
+   * Anota por qué canales salió cada fila. Los canales de `failed` quedan
+   * pendientes para el próximo intento; el resto se cierra.
+   */
+  private async close(
+    rows: Notification[],
+    sent: { email: boolean; push: boolean },
+    now: Date,
+    failed: NotificationChannel[] = []
+  ): Promise<void> {
+    for (const row of rows) {
+      const pending = row.pendingChannels || [];
+      const delivered: NotificationChannel[] = [];
+      if (!row.read && sent.email && pending.includes('email')) delivered.push('email');
+      if (!row.read && sent.push && pending.includes('push')) delivered.push('push');
+
+      const retryable = !row.read && now.getTime() - new Date(row.createdAt).getTime() < RETRY_WINDOW_MS;
+      const retry = retryable ? pending.filter((channel) => failed.includes(channel)) : [];
+
+      await row.update({
+        sentVia: [...new Set([...(row.sentVia || []), ...delivered])],
+        emailSent: row.emailSent || delivered.includes('email'),
+        pushSent: row.pushSent || delivered.includes('push'),
+        pendingChannels: retry,
+        deliverAfter: retry.length ? new Date(now.getTime() + RETRY_DELAY_MS) : null,
+        deliveredAt: delivered.length ? now : row.deliveredAt,
+      });
+    }
+  }
+}
+
+const notificationDigests = new NotificationDigestService();
+export default notificationDigests;
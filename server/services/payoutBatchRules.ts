@@ -0,0 +1,316 @@
+/**
+ * Payout Batch Rules
+ *
+ * Lotes de pago de retiros: los retiros aprobados se agrupan en un lote, se
+ * genera el archivo de transferencias para el banco (CSV o ancho fijo) y
+ * después se importa el archivo de resultados que devuelve el banco para
+ * marcar cada retiro como completado o fallido.
+ *
+ *   open → exported → settled        (open → cancelled libera los retiros)
+ *
+ * Módulo puro; la persistencia y los movimientos del ledger están en
+ * payoutBatches.ts.
+ */
+import { ErrorResponse } from '../middleware/errorHandler.js';
+
+export type PayoutBatchStatus = 'open' | 'exported' | 'settled' | 'cancelled';
+
+export const PAYOUT_FILE_FORMATS = ['csv', 'fixed_width'] as const;
+export type PayoutFileFormat = (typeof PAYOUT_FILE_FORMATS)[number];
+
+export interface PayoutItem {
+  withdrawalId: string;
+  reference: string;
+  accountHolder: string;
+  bankName: string;
+  accountType: 'savings' | 'checking';
+  // CBU desencriptado (22 dígitos)
+  cbu: string;
+  alias?: string | null;
+  amount: number;
+}
+
+export interface PayoutBatchHeader {
+  reference: string;
+  createdAt: Date;
+}
+
+const toCents = (amount: number) => Math.round(Number(amount) * 100);
+
+/**
+ * Referencia de la transferencia: 12 caracteres derivados del id del retiro
+ * (los bancos limitan el largo del concepto). Es la clave con la que se
+ * cruza el archivo de resultados.
+ */
+export function payoutReference(withdrawalId: string): string {
+  return withdrawalId.replace(/-/g, '').slice(0, 12).toUpperCase();
+}
+
+export function batchReference(batchId: string, createdAt: Date): string {
+  const day = createdAt.toISOString().slice(0, 10).replace(/-/g, '');
+  return `LP-${day}-${batchId.replace(/-/g, '').slice(0, 6).toUpperCase()}`;
+}
+
+export function batchTotal(items: Pick<PayoutItem, 'amount'>[]): number {
+  return items.reduce((sum, item) => sum + toCents(item.amount), 0) / 100;
+}
+
+/**
+ * Valida un ítem antes de incluirlo en el archivo. Devuelve el motivo por el
+ * que no se puede pagar, o null si está bien.
+ */
+export function payoutItemProblem(item: Pick<PayoutItem, 'cbu' | 'accountHolder' | 'amount'>): string | null {
+  if (!/^\d{22}$/.test(item.cbu || '')) return 'CBU inválido';
+  if (!item.accountHolder?.trim()) return 'Falta el titular de la cuenta';
+  if (!(toCents(item.amount) > 0)) return 'Monto inválido';
+  return null;
+}
+
+// ============================================
+// Archivo de transferencias
+// ============================================
+
+export const PAYOUT_CSV_COLUMNS = ['referencia', 'cbu', 'alias', 'titular', 'banco', 'tipo_cuenta', 'importe', 'concepto'] as const;
+
+// Comillas siempre; un apóstrofe delante de =, +, - o @ evita que la
+// planilla interprete el nombre del titular como fórmula
+const csvCell = (value: string) => {
+  const safe = /^[=+\-@]/.test(value) ? `'${value}` : value;
+  return `"${safe.replace(/"/g, '""')}"`;
+};
+
+export function buildPayoutCsv(batch: PayoutBatchHeader, items: PayoutItem[]): string {
+  const lines = items.map((item) =>
+    [
+      item.reference,
+      item.cbu,
+      item.alias || '',
+      item.accountHolder,
+      item.bankName,
+      item.accountType === 'checking' ? 'CC' : 'CA',
+      (toCents(item.amount) / 100).toFixed(2),
+      `Retiro ${batch.reference}`,
+    ]
+      .map(csvCell)
+      .join(',')
+  );
+  return [PAYOUT_CSV_COLUMNS.join(','), ...lines].join('\r\n') + '\r\n';
+}
+
+// Mayúsculas sin acentos ni caracteres fuera de ASCII imprimible
+const plain = (value: string) =>
+  value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x20-\x7E]/g, ' ')
+    .toUpperCase();
+
+const alpha = (value: string, width: number) => plain(value || '').slice(0, width).padEnd(width, ' ');
+const numeric = (value: number | string, width: number) => {
+  const text = String(value);
+  if (text.length > width) throw new ErrorResponse(`El valor ${text} no entra en un campo de ${width} dígitos`, 400);
+  return text.padStart(width, '0');
+};
+
+/**
+ * Archivo de ancho fijo (registros de 120 caracteres, CRLF):
+ *
+ *   H | referencia del lote (20) | fecha AAAAMMDD | cantidad (6) | total en centavos (17) | relleno
+ *   D | referencia (12) | CBU (22) | tipo CA/CC (2) | importe en centavos (15) | titular (40) | alias (20) | relleno
+ *   T | cantidad (6) | total en centavos (17) | relleno
+ */
+export const FIXED_WIDTH_RECORD_LENGTH = 120;
+
+export function buildPayoutFixedWidth(batch: PayoutBatchHeader, items: PayoutItem[]): string {
+  const totalCents = items.reduce((sum, item) => sum + toCents(item.amount), 0);
+  const day = batch.createdAt.toISOString().slice(0, 10).replace(/-/g, '');
+  const record = (content: string) => content.padEnd(FIXED_WIDTH_RECORD_LENGTH, ' ');
+
+  const lines = [
+    record(`H${alpha(batch.reference, 20)}${day}${numeric(items.length, 6)}${numeric(totalCents, 17)}`),
+    ...items.map((item) =>
+      record(
+        `D${alpha(item.reference, 12)}${numeric(item.cbu, 22)}${item.accountType === 'checking' ? 'CC' : 'CA'}` +
+          `${numeric(toCents(item.amount), 15)}${alpha(item.accountHolder, 40)}${alpha(item.alias || '', 20)}`
+      )
+    ),
+    record(`T${numeric(items.length, 6)}${numeric(totalCents, 17)}`),
+  ];
+  return lines.join('\r\n') + '\r\n';
+}
+
+export function buildPayoutFile(
+  format: PayoutFileFormat,
+  batch: PayoutBatchHeader,
+  items: PayoutItem[]
+): { content: string; fileName: string; contentType: string } {
+  if (format === 'fixed_width') {
+    return { content: buildPayoutFixedWidth(batch, items), fileName: `${batch.reference}.txt`, contentType: 'text/plain; charset=us-ascii' };
+  }
+  return { content: buildPayoutCsv(batch, items), fileName: `${batch.reference}.csv`, contentType: 'text/csv; charset=utf-8' };
+}
+
+// ============================================
+// Archivo de resultados del banco
+// ============================================
+
+export type BankOutcome = 'completed' | 'failed';
+
+export interface BankResultRow {
+  line: number;
+  reference: string;
+  outcome: BankOutcome;
+  reason?: string;
+}
+
+export interface BankResultParse {
+  rows: BankResultRow[];
+  errors: Array<{ line: number; message: string }>;
+}
+
+const COMPLETED_STATUSES = ['ok', 'acreditada', 'acreditado', 'aceptada', 'aceptado', 'procesada', 'procesado', 'completed', 'paid', 'exitosa'];
+const FAILED_STATUSES = ['rechazada', 'rechazado', 'fallida', 'fallido', 'devuelta', 'devuelto', 'error', 'failed', 'rejected'];
+
+export function normalizeBankStatus(value: string): BankOutcome | null {
+  const status = plain(value.trim()).toLowerCase();
+  if (COMPLETED_STATUSES.includes(status)) return 'completed';
+  if (FAILED_STATUSES.includes(status)) return 'failed';
+  return null;
+}
+
+const splitCsvRows = (csv: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') { field += '"'; i++; }
+      else if (char === '"') quoted = false;
+      else field += char;
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field); field = '';
+    } else if (char === '\n') {
+      row.push(field); rows.push(row); row = []; field = '';
+    } else if (char !== '\r') {
+      field += char;
+    }
+  }
+  if (field || row.length) { row.push(field); rows.push(row); }
+  return rows;
+};
+
+const HEADER_ALIASES: Record<'reference' | 'status' | 'reason', string[]> = {
+  reference: ['referencia', 'reference', 'ref', 'concepto'],
+  status: ['estado', 'status', 'resultado', 'result'],
+  reason: ['motivo', 'reason', 'detalle', 'observaciones', 'descripcion'],
+};
+
+/**
+ * Lee el archivo de resultados del banco: CSV separado por coma o punto y
+ * coma, con encabezado. Reconoce las columnas referencia/estado/motivo (o
+ * sus equivalentes en inglés); las filas que no se pueden interpretar
+ * vuelven en `errors` con su número de línea.
+ */
+export function parseBankResultFile(content: string): BankResultParse {
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split('\n', 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length || 0) > (firstLine.match(/,/g)?.length || 0) ? ';' : ',';
+  const [header, ...rows] = splitCsvRows(text, delimiter);
+
+  const columns = (header || []).map((name) => plain(name.trim()).toLowerCase());
+  const indexOf = (key: keyof typeof HEADER_ALIASES) => columns.findIndex((name) => HEADER_ALIASES[key].includes(name));
+  const referenceIndex = indexOf('reference');
+  const statusIndex = indexOf('status');
+  const reasonIndex = indexOf('reason');
+  if (referenceIndex < 0 || statusIndex < 0) {
+    throw new ErrorResponse('El archivo de resultados necesita las columnas "referencia" y "estado"', 400);
+  }
+
+  const result: BankResultParse = { rows: [], errors: [] };
+  rows.forEach((row, i) => {
+    const line = i + 2;
+    if (row.every((cell) => !cell.trim())) return;
+    const reference = (row[referenceIndex] || '').trim().replace(/^'/, '').toUpperCase();
+    const outcome = normalizeBankStatus(row[statusIndex] || '');
+    if (!reference) {
+      result.errors.push({ line, message: 'Falta la referencia' });
+    } else if (!outcome) {
+      result.errors.push({ line, message: `Estado desconocido: "${(row[statusIndex] || '').trim()}"` });
+    } else {
+      const reason = reasonIndex >= 0 ? (row[reasonIndex] || '').trim() : '';
+      result.rows.push({ line, reference, outcome, ...(reason && { reason }) });
+    }
+  });
+  return result;
+}
+
+// ============================================
+// Conciliación
+// ============================================
+
+export interface BatchItemState {
+  withdrawalId: string;
+  reference: string;
+  status: string;
+}
+
+export interface ResultPlan {
+  complete: Array<{ withdrawalId: string; row: BankResultRow }>;
+  fail: Array<{ withdrawalId: string; row: BankResultRow }>;
+  // Ya tenían resultado (el archivo se importó dos veces o es parcial)
+  alreadySettled: Array<{ withdrawalId: string; row: BankResultRow }>;
+  unmatched: BankResultRow[];
+  conflicts: Array<{ line: number; reference: string; message: string }>;
+}
+
+/**
+ * Cruza las filas del banco con los retiros del lote. Solo los retiros en
+ * `processing` cambian de estado; una referencia repetida con resultados
+ * distintos queda como conflicto y no se aplica.
+ */
+export function planResultImport(items: BatchItemState[], rows: BankResultRow[]): ResultPlan {
+  const plan: ResultPlan = { complete: [], fail: [], alreadySettled: [], unmatched: [], conflicts: [] };
+  const byReference = new Map(items.map((item) => [item.reference.toUpperCase(), item]));
+
+  const seen = new Map<string, BankResultRow>();
+  const conflicted = new Set<string>();
+  for (const row of rows) {
+    const previous = seen.get(row.reference);
+    if (previous && previous.outcome !== row.outcome) {
+      conflicted.add(row.reference);
+      plan.conflicts.push({ line: row.line, reference: row.reference, message: `Resultado distinto al de la línea ${previous.line}` });
+    }
+    if (!previous) seen.set(row.reference, row);
+  }
+
+  for (const [reference, row] of seen) {
+    const item = byReference.get(reference);
+    if (!item) {
+      plan.unmatched.push(row);
+    } else if (conflicted.has(reference)) {
+      continue;
+    } else if (item.status !== 'processing') {
+      plan.alreadySettled.push({ withdrawalId: item.withdrawalId, row });
+    } else if (row.outcome === 'completed') {
+      plan.complete.push({ withdrawalId: item.withdrawalId, row });
+    } else {
+      plan.fail.push({ withdrawalId: item.withdrawalId, row });
+    }
+  }
+  return plan;
+}
+
+/**
+ * El lote queda liquidado cuando ningún retiro sigue esperando resultado.
+ */
+export function batchSettlement(items: Pick<BatchItemState, 'status'>[]): { completed: number; failed: number; pending: number; settled: boolean } {
+  const completed = items.filter((item) => item.status === 'completed').length;
+  const failed = items.filter((item) => item.status === 'failed').length;
+  const pending = items.filter((item) => item.status === 'processing').length;
+  return { completed, failed, pending, settled: items.length > 0 && pending === 0 };
+}
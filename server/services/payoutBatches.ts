@@ -0,0 +1,469 @@
+/**
+ * Payout Batch Service
+ *
+ * Pago de retiros por lotes (reglas en payoutBatchRules.ts):
+ *
+ * - create(): bloquea retiros aprobados en un lote nuevo
+ * - exportBatch(): debita cada billetera contra "pagos pendientes de
+ *   transferir" y pasa los retiros a processing; los que no se pueden pagar
+ *   (saldo insuficiente, CBU ilegible) salen del lote
+ * - buildFile(): arma el archivo de transferencias con el CBU desencriptado
+ * - importResults(): aplica el archivo de resultados del banco; los
+ *   fallidos devuelven el saldo a la billetera
+ *
+ * Cada retiro se mueve en su propia transacción con el ledger, así un error
+ * en uno no deja a medias a los demás y reimportar un archivo es seguro.
+ */
+
+import crypto from 'crypto';
+import { Op, type Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { PayoutBatch, type PayoutResultImport } from '../models/sql/PayoutBatch.model.js';
+import { WithdrawalRequest } from '../models/sql/WithdrawalRequest.model.js';
+import { User } from '../models/sql/User.model.js';
+import { BalanceTransaction } from '../models/sql/BalanceTransaction.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import ledger, { LedgerError } from './ledger.js';
+import messageTemplates from './messageTemplates.js';
+import { generateWithdrawalReceipt } from './invoiceService.js';
+import { decryptCBU } from '../utils/encryption.js';
+import {
+  PAYOUT_FILE_FORMATS,
+  batchReference,
+  batchSettlement,
+  batchTotal,
+  buildPayoutFile,
+  parseBankResultFile,
+  payoutItemProblem,
+  payoutReference,
+  planResultImport,
+  type BankResultParse,
+  type PayoutFileFormat,
+  type PayoutItem,
+  type ResultPlan,
+} from './payoutBatchRules.js';
+
+// Tope de retiros por lote (el archivo del banco también tiene límite)
+const MAX_BATCH_ITEMS = 500;
+
+export interface ExportSkip {
+  withdrawalId: string;
+  reason: string;
+}
+
+export interface ResultImportSummary {
+  batch: PayoutBatch;
+  completed: string[];
+  failed: string[];
+  alreadySettled: string[];
+  unmatched: ResultPlan['unmatched'];
+  conflicts: ResultPlan['conflicts'];
+  errors: BankResultParse['errors'];
+}
+
+class PayoutBatchService {
+  async list({ status, limit = 20, offset = 0 }: { status?: string; limit?: number; offset?: number } = {}) {
+    return PayoutBatch.findAndCountAll({
+      where: status ? { status } : {},
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset,
+      include: [{ model: User, as: 'creator', attributes: ['id', 'name', 'email'] }],
+    });
+  }
+
+  async get(batchId: string): Promise<PayoutBatch> {
+    const batch = await PayoutBatch.findByPk(batchId, {
+      include: [
+        { model: User, as: 'creator', attributes: ['id', 'name', 'email'] },
+        {
+          model: WithdrawalRequest,
+          as: 'withdrawals',
+          include: [{ model: User, as: 'user', attributes: ['id', 'name', 'email'] }],
+        },
+      ],
+      order: [[{ model: WithdrawalRequest, as: 'withdrawals' }, 'requestedAt', 'ASC']],
+    });
+    if (!batch) throw new ErrorResponse('Lote no encontrado', 404);
+    return batch;
+  }
+
+  /**
+   * Bloquea retiros aprobados en un lote nuevo. Sin `withdrawalIds` toma
+   * todos los aprobados que no estén en otro lote (los más antiguos primero).
+   */
+  async create(adminId: string, { withdrawalIds, notes }: { withdrawalIds?: string[]; notes?: string } = {}): Promise<PayoutBatch> {
+    const batchId = await sequelize.transaction(async (transaction) => {
+      const withdrawals = await WithdrawalRequest.findAll({
+        where: {
+          status: 'approved',
+          payoutBatchId: null,
+          ...(withdrawalIds?.length && { id: { [Op.in]: withdrawalIds } }),
+        },
+        order: [['requestedAt', 'ASC']],
+        limit: MAX_BATCH_ITEMS,
+        lock: transaction.LOCK.UPDATE,
+        transaction,
+      });
+
+      if (!withdrawals.length) {
+        throw new ErrorResponse('No hay retiros aprobados disponibles para armar un lote', 400);
+      }
+      if (withdrawalIds?.length && withdrawals.length !== new Set(withdrawalIds).size) {
+        const found = new Set(withdrawals.map((w) => w.id));
+        const missing = withdrawalIds.filter((id) => !found.has(id));
+        throw new ErrorResponse(
+          `${missing.length} retiro(s) no están aprobados o ya pertenecen a otro lote: ${missing.slice(0, 5).join(', ')}`,
+          409
+        );
+      }
+
+      const id = crypto.randomUUID();
+      const createdAt = new Date();
+      await PayoutBatch.create(
+        {
+          id,
+          reference: batchReference(id, createdAt),
+          status: 'open',
+          itemCount: withdrawals.length,
+          totalAmount: batchTotal(withdrawals.map((w) => ({ amount: Number(w.amount) }))),
+          createdBy: adminId,
+          notes: notes?.trim() || null,
+        },
+        { transaction }
+      );
+      await WithdrawalRequest.update(
+        { payoutBatchId: id },
+        { where: { id: { [Op.in]: withdrawals.map((w) => w.id) } }, transaction }
+      );
+      return id;
+    });
+
+    return this.get(batchId);
+  }
+
+  /**
+   * Cancela un lote que todavía no se exportó: los retiros vuelven a quedar
+   * aprobados y disponibles para otro lote.
+   */
+  async cancel(batchId: string): Promise<PayoutBatch> {
+    await sequelize.transaction(async (transaction) => {
+      const batch = await this.loadForUpdate(batchId, transaction);
+      if (batch.status !== 'open') {
+        throw new ErrorResponse('Solo se puede cancelar un lote que no fue exportado', 409);
+      }
+      await WithdrawalRequest.update({ payoutBatchId: null }, { where: { payoutBatchId: batch.id }, transaction });
+      await batch.update({ status: 'cancelled', cancelledAt: new Date() }, { transaction });
+    });
+    return this.get(batchId);
+  }
+
+  /**
+   * Reserva el saldo de cada retiro del lote y lo pasa a processing. Los que
+   * no se pueden pagar salen del lote (siguen aprobados) y se informan.
+   */
+  async exportBatch(batchId: string, adminId: string): Promise<{ batch: PayoutBatch; skipped: ExportSkip[] }> {
+    const batch = await PayoutBatch.findByPk(batchId);
+    if (!batch) throw new ErrorResponse('Lote no encontrado', 404);
+    if (batch.status !== 'open') {
+      throw new ErrorResponse('El lote ya fue exportado; descargá el archivo de nuevo si lo necesitás', 409);
+    }
+
+    const withdrawals = await WithdrawalRequest.findAll({ where: { payoutBatchId: batch.id, status: 'approved' } });
+    const skipped: ExportSkip[] = [];
+
+    for (const candidate of withdrawals) {
+      try {
+        await sequelize.transaction(async (transaction) => {
+          const withdrawal = await WithdrawalRequest.findByPk(candidate.id, { lock: transaction.LOCK.UPDATE, transaction });
+          if (!withdrawal || withdrawal.payoutBatchId !== batch.id || withdrawal.status !== 'approved') return;
+
+          const problem = payoutItemProblem({
+            cbu: withdrawal.getDecryptedCBU() || '',
+            accountHolder: withdrawal.bankingInfo?.accountHolder,
+            amount: Number(withdrawal.amount),
+          });
+          if (problem) throw new ErrorResponse(problem, 400);
+
+          const result = await ledger.reserveWithdrawal(withdrawal.userId, Number(withdrawal.amount), {
+            description: `Retiro ${withdrawal.id} en el lote ${batch.reference}`,
+            idempotencyKey: `withdrawal:${withdrawal.id}`,
+            withdrawalId: withdrawal.id,
+            createdBy: adminId,
+            metadata: { payoutBatchId: batch.id },
+            history: {
+              type: 'withdrawal',
+              description: `Retiro a cuenta bancaria (${withdrawal.bankingInfo.bankName}) - en proceso`,
+              status: 'pending',
+              metadata: { withdrawalId: withdrawal.id, payoutBatchId: batch.id },
+            },
+            transaction,
+          });
+
+          await withdrawal.update(
+            {
+              status: 'processing',
+              processedBy: adminId,
+              transactionId: result.balanceTransactions[0]?.id,
+              metadata: {
+                ...withdrawal.metadata,
+                payout: { batchId: batch.id, batchReference: batch.reference, reference: payoutReference(withdrawal.id) },
+              },
+            },
+            { transaction }
+          );
+        });
+      } catch (error: any) {
+        const reason =
+          error instanceof LedgerError && error.code === 'INSUFFICIENT_FUNDS'
+            ? 'Saldo insuficiente'
+            : error instanceof ErrorResponse
+              ? error.message
+              : 'Error al reservar el saldo';
+        if (!(error instanceof LedgerError) && !(error instanceof ErrorResponse)) {
+          console.error(`[PayoutBatch] Error exporting withdrawal ${candidate.id}:`, error);
+        }
+        await WithdrawalRequest.update(
+          { payoutBatchId: null, adminNotes: `Excluido del lote ${batch.reference}: ${reason}` },
+          { where: { id: candidate.id, status: 'approved' } }
+        );
+        skipped.push({ withdrawalId: candidate.id, reason });
+      }
+    }
+
+    const included = await WithdrawalRequest.findAll({
+      where: { payoutBatchId: batch.id },
+      attributes: ['id', 'amount'],
+    });
+    await batch.update({
+      status: included.length ? 'exported' : 'cancelled',
+      itemCount: included.length,
+      totalAmount: batchTotal(included.map((w) => ({ amount: Number(w.amount) }))),
+      exportedBy: adminId,
+      exportedAt: new Date(),
+      ...(!included.length && { cancelledAt: new Date() }),
+    });
+
+    return { batch: await this.get(batch.id), skipped };
+  }
+
+  /**
+   * Archivo de transferencias del lote exportado. Se puede volver a generar
+   * (mismo contenido para el mismo formato); el checksum queda en el lote.
+   */
+  async buildFile(batchId: string, format: PayoutFileFormat) {
+    if (!PAYOUT_FILE_FORMATS.includes(format)) {
+      throw new ErrorResponse(`Formato inválido. Opciones: ${PAYOUT_FILE_FORMATS.join(', ')}`, 400);
+    }
+    const batch = await PayoutBatch.findByPk(batchId);
+    if (!batch) throw new ErrorResponse('Lote no encontrado', 404);
+    if (!['exported', 'settled'].includes(batch.status)) {
+      throw new ErrorResponse('Exportá el lote antes de descargar el archivo del banco', 409);
+    }
+
+    const withdrawals = await WithdrawalRequest.findAll({
+      where: { payoutBatchId: batch.id },
+      order: [['requestedAt', 'ASC']],
+    });
+    const items: PayoutItem[] = withdrawals.map((withdrawal) => ({
+      withdrawalId: withdrawal.id,
+      reference: payoutReference(withdrawal.id),
+      accountHolder: withdrawal.bankingInfo.accountHolder,
+      bankName: withdrawal.bankingInfo.bankName,
+      accountType: withdrawal.bankingInfo.accountType,
+      cbu: decryptCBU(withdrawal.bankingInfo.cbu),
+      alias: withdrawal.bankingInfo.alias,
+      amount: Number(withdrawal.amount),
+    }));
+
+    const file = buildPayoutFile(format, { reference: batch.reference, createdAt: batch.createdAt }, items);
+    const checksum = crypto.createHash('sha256').update(file.content).digest('hex');
+    await batch.update({ lastFileFormat: format, lastFileChecksum: checksum });
+    return { ...file, checksum, itemCount: items.length };
+  }
+
+  /**
+   * Aplica el archivo de resultados del banco. Reimportar el mismo archivo
+   * no cambia nada: los retiros que ya tienen resultado se informan como tales.
+   */
+  async importResults(batchId: string, adminId: string, content: string, fileName?: string | null): Promise<ResultImportSummary> {
+    const batch = await PayoutBatch.findByPk(batchId);
+    if (!batch) throw new ErrorResponse('Lote no encontrado', 404);
+    if (batch.status !== 'exported') {
+      throw new ErrorResponse(
+        batch.status === 'settled' ? 'El lote ya tiene el resultado de todos sus retiros' : 'El lote todavía no fue exportado',
+        409
+      );
+    }
+
+    const parsed = parseBankResultFile(content);
+    const withdrawals = await WithdrawalRequest.findAll({
+      where: { payoutBatchId: batch.id },
+      attributes: ['id', 'status'],
+    });
+    const plan = planResultImport(
+      withdrawals.map((w) => ({ withdrawalId: w.id, reference: payoutReference(w.id), status: w.status })),
+      parsed.rows
+    );
+
+    const completed: string[] = [];
+    const failed: string[] = [];
+    for (const { withdrawalId, row } of plan.complete) {
+      if (await this.settleItem(batch, withdrawalId, adminId, row.reason)) completed.push(withdrawalId);
+    }
+    for (const { withdrawalId, row } of plan.fail) {
+      if (await this.failItem(batch, withdrawalId, adminId, row.reason || 'Transferencia rechazada por el banco')) {
+        failed.push(withdrawalId);
+      }
+    }
+
+    const states = await WithdrawalRequest.findAll({ where: { payoutBatchId: batch.id }, attributes: ['status'] });
+    const settlement = batchSettlement(states);
+    const entry: PayoutResultImport = {
+      importedAt: new Date().toISOString(),
+      importedBy: adminId,
+      fileName: fileName || null,
+      completed: completed.length,
+      failed: failed.length,
+      alreadySettled: plan.alreadySettled.length,
+      unmatched: plan.unmatched.length,
+      errors: parsed.errors.length + plan.conflicts.length,
+    };
+    await batch.update({
+      completedCount: settlement.completed,
+      failedCount: settlement.failed,
+      resultImports: [...(batch.resultImports || []), entry],
+      ...(settlement.settled && { status: 'settled', settledAt: new Date() }),
+    });
+
+    void this.notifyResults(completed, failed);
+
+    return {
+      batch: await this.get(batch.id),
+      completed,
+      failed,
+      alreadySettled: plan.alreadySettled.map((item) => item.withdrawalId),
+      unmatched: plan.unmatched,
+      conflicts: plan.conflicts,
+      errors: parsed.errors,
+    };
+  }
+
+  // ============================================
+  // PRIVATE
+  // ============================================
+
+  private async loadForUpdate(batchId: string, transaction: Transaction): Promise<PayoutBatch> {
+    const batch = await PayoutBatch.findByPk(batchId, { lock: transaction.LOCK.UPDATE, transaction });
+    if (!batch) throw new ErrorResponse('Lote no encontrado', 404);
+    return batch;
+  }
+
+  private async settleItem(batch: PayoutBatch, withdrawalId: string, adminId: string, bankNote?: string): Promise<boolean> {
+    return sequelize.transaction(async (transaction) => {
+      const withdrawal = await WithdrawalRequest.findByPk(withdrawalId, { lock: transaction.LOCK.UPDATE, transaction });
+      if (!withdrawal || withdrawal.status !== 'processing') return false;
+
+      await ledger.settleWithdrawal(Number(withdrawal.amount), {
+        description: `Transferencia del retiro ${withdrawal.id} confirmada (lote ${batch.reference})`,
+        idempotencyKey: `withdrawal:${withdrawal.id}:settled`,
+        withdrawalId: withdrawal.id,
+        createdBy: adminId,
+        metadata: { payoutBatchId: batch.id },
+        transaction,
+      });
+      await withdrawal.update(
+        {
+          status: 'completed',
+          completedAt: new Date(),
+          processedBy: adminId,
+          metadata: { ...withdrawal.metadata, payout: { ...withdrawal.metadata?.payout, result: 'completed', bankNote: bankNote || null } },
+        },
+        { transaction }
+      );
+      if (withdrawal.transactionId) {
+        await BalanceTransaction.update(
+          { status: 'completed' },
+          { where: { id: withdrawal.transactionId }, transaction }
+        );
+      }
+      return true;
+    });
+  }
+
+  private async failItem(batch: PayoutBatch, withdrawalId: string, adminId: string, reason: string): Promise<boolean> {
+    return sequelize.transaction(async (transaction) => {
+      const withdrawal = await WithdrawalRequest.findByPk(withdrawalId, { lock: transaction.LOCK.UPDATE, transaction });
+      if (!withdrawal || withdrawal.status !== 'processing') return false;
+
+      await ledger.reverseWithdrawal(withdrawal.userId, Number(withdrawal.amount), {
+        description: `Retiro ${withdrawal.id} devuelto por el banco (lote ${batch.reference})`,
+        idempotencyKey: `withdrawal:${withdrawal.id}:reversed`,
+        withdrawalId: withdrawal.id,
+        createdBy: adminId,
+        metadata: { payoutBatchId: batch.id, reason },
+        history: {
+          type: 'refund',
+          description: `Devolución de retiro rechazado por el banco: ${reason}`.slice(0, 500),
+          metadata: { withdrawalId: withdrawal.id, payoutBatchId: batch.id, reason },
+        },
+        transaction,
+      });
+      await withdrawal.update(
+        {
+          status: 'failed',
+          failedAt: new Date(),
+          processedBy: adminId,
+          rejectionReason: reason.slice(0, 500),
+          metadata: { ...withdrawal.metadata, payout: { ...withdrawal.metadata?.payout, result: 'failed', bankNote: reason } },
+        },
+        { transaction }
+      );
+      if (withdrawal.transactionId) {
+        await BalanceTransaction.update(
+          { status: 'failed' },
+          { where: { id: withdrawal.transactionId }, transaction }
+        );
+      }
+      return true;
+    });
+  }
+
+  private async notifyResults(completedIds: string[], failedIds: string[]): Promise<void> {
+    const load = (ids: string[]) =>
+      ids.length
+        ? WithdrawalRequest.findAll({
+            where: { id: { [Op.in]: ids } },
+            include: [{ model: User, as: 'user', attributes: ['id', 'name', 'email', 'balanceArs'] }],
+          })
+        : Promise.resolve([] as WithdrawalRequest[]);
+
+    try {
+      for (const withdrawal of await load(completedIds)) {
+        const user = withdrawal.user;
+        await messageTemplates.notify(user.id, 'withdrawal.completed', {
+          userName: user.name,
+          amount: Number(withdrawal.amount),
+          newBalance: parseFloat(user.balanceArs as any) || 0,
+        }, { type: 'success', relatedModel: 'WithdrawalRequest', relatedId: withdrawal.id, data: { withdrawalId: withdrawal.id } });
+        generateWithdrawalReceipt(withdrawal.id).catch((err) =>
+          console.error('[Invoice] Failed to generate withdrawal receipt:', err.message)
+        );
+      }
+
+      for (const withdrawal of await load(failedIds)) {
+        const user = withdrawal.user;
+        await messageTemplates.notify(user.id, 'withdrawal.failed', {
+          userName: user.name,
+          amount: Number(withdrawal.amount),
+          reason: withdrawal.rejectionReason || 'Transferencia rechazada',
+        }, { type: 'error', relatedModel: 'WithdrawalRequest', relatedId: withdrawal.id, data: { withdrawalId: withdrawal.id } });
+      }
+    } catch (error) {
+      console.error('[PayoutBatch] Error sending payout notifications:', error);
+    }
+  }
+}
+
+const payoutBatches = new PayoutBatchService();
+export default payoutBatches;
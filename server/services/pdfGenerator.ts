@@ -1,6 +1,8 @@
 import PDFDocument from 'pdfkit';
 import fs from 'fs';
 import path from 'path';
+import { formatMoney, fromDecimal, toCurrency } from './money.js';
+import { pdfSafeText, type ConversationExport } from './messageSearchRules.js';
 
 interface InvoiceData {
   invoiceNumber: string;
@@ -33,6 +35,8 @@ interface InvoiceData {
   commissionRate?: number;
   tax?: number;
   taxRate?: number;
+  // Percepciones / otros impuestos, como en la cotización
+  otherTaxes?: Array<{ name: string; rate: number; amount: number }>;
   total: number;
   currency: string;
 
@@ -42,6 +46,29 @@ interface InvoiceData {
   transactionId?: string;
   contractId?: string;
   jobTitle?: string;
+  quoteNumber?: string;
+
+  // Nota de crédito: la factura que acredita, el motivo y si la anula
+  creditNote?: {
+    creditedNumber: string;
+    reason: string;
+    scope: 'total' | 'partial';
+  };
+
+  // Factura electrónica AFIP: la emite el trabajador, con CAE y QR (RG 4291)
+  fiscal?: {
+    label: string;
+    letter: string;
+    code: number;
+    number: string;
+    issuerCondition: string;
+    receiverCondition: string;
+    receiverDocument?: string;
+    cae: string;
+    caeExpiresAt: Date;
+    qrPng: Buffer;
+    notice?: string;
+  };
 }
 
 interface ReceiptData {
@@ -66,14 +93,16 @@ class PDFGenerator {
   private readonly uploadsDir: string;
   private readonly invoicesDir: string;
   private readonly receiptsDir: string;
+  private readonly chatExportsDir: string;
 
   constructor() {
     this.uploadsDir = path.join(process.cwd(), 'uploads');
     this.invoicesDir = path.join(this.uploadsDir, 'invoices');
     this.receiptsDir = path.join(this.uploadsDir, 'receipts');
+    this.chatExportsDir = path.join(this.uploadsDir, 'chat-exports');
 
     // Ensure directories exist
-    [this.invoicesDir, this.receiptsDir].forEach((dir) => {
+    [this.invoicesDir, this.receiptsDir, this.chatExportsDir].forEach((dir) => {
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
       }
@@ -93,17 +122,37 @@ class PDFGenerator {
 
       doc.pipe(stream);
 
-      // Header
-      doc.fontSize(24).font('Helvetica-Bold').text('FACTURA', { align: 'center' });
-      doc.moveDown(0.5);
-      doc.fontSize(12).font('Helvetica').text(`Nº ${data.invoiceNumber}`, { align: 'center' });
-      doc.moveDown(1);
+      const { fiscal, creditNote } = data;
 
-      // Company info (DOAPP)
-      doc.fontSize(14).font('Helvetica-Bold').text('DOAPP');
-      doc.fontSize(10).font('Helvetica').text('Plataforma de Servicios Freelance');
-      doc.text('Argentina');
-      doc.moveDown(1);
+      // Header
+      if (fiscal) {
+        // Recuadro con la letra y el código del comprobante, como exige AFIP
+        doc.rect(280, 45, 50, 50).stroke();
+        doc.fontSize(28).font('Helvetica-Bold').text(fiscal.letter, 280, 52, { width: 50, align: 'center' });
+        doc.fontSize(7).font('Helvetica').text(`COD. ${String(fiscal.code).padStart(3, '0')}`, 280, 84, { width: 50, align: 'center' });
+        doc.y = 105;
+        doc.fontSize(20).font('Helvetica-Bold').text(fiscal.label, 50, doc.y, { align: 'center', width: 510 });
+        doc.moveDown(0.5);
+        doc.fontSize(12).font('Helvetica').text(`Nº ${fiscal.number}`, { align: 'center', width: 510 });
+        doc.moveDown(1);
+
+        // El emisor es el trabajador; DOAPP solo genera el comprobante
+        doc.fontSize(14).font('Helvetica-Bold').text(data.sellerName, 50);
+        doc.fontSize(10).font('Helvetica').text(fiscal.issuerCondition);
+        doc.text(`Emitida a través de DOAPP · Ref. ${data.invoiceNumber}`);
+        doc.moveDown(1);
+      } else {
+        doc.fontSize(24).font('Helvetica-Bold').text(creditNote ? 'NOTA DE CRÉDITO' : 'FACTURA', { align: 'center' });
+        doc.moveDown(0.5);
+        doc.fontSize(12).font('Helvetica').text(`Nº ${data.invoiceNumber}`, { align: 'center' });
+        doc.moveDown(1);
+
+        // Company info (DOAPP)
+        doc.fontSize(14).font('Helvetica-Bold').text('DOAPP');
+        doc.fontSize(10).font('Helvetica').text('Plataforma de Servicios Freelance');
+        doc.text('Argentina');
+        doc.moveDown(1);
+      }
 
       // Two columns: Seller and Buyer
       const startY = doc.y;
@@ -115,6 +164,7 @@ class PDFGenerator {
       doc.text(data.sellerEmail);
       if (data.sellerCuit) doc.text(`CUIT: ${data.sellerCuit}`);
       if (data.sellerAddress) doc.text(data.sellerAddress);
+      if (fiscal) doc.text(`IVA: ${fiscal.issuerCondition}`);
 
       // Buyer column
       doc.fontSize(11).font('Helvetica-Bold').text('COMPRADOR:', 300, startY);
@@ -122,7 +172,9 @@ class PDFGenerator {
       doc.text(data.buyerName, 300, startY + 15);
       doc.text(data.buyerEmail, 300);
       if (data.buyerCuit) doc.text(`CUIT: ${data.buyerCuit}`, 300);
+      if (fiscal?.receiverDocument) doc.text(fiscal.receiverDocument, 300);
       if (data.buyerAddress) doc.text(data.buyerAddress, 300);
+      if (fiscal) doc.text(`IVA: ${fiscal.receiverCondition}`, 300);
 
       doc.y = Math.max(doc.y, startY + 80);
       doc.moveDown(1);
@@ -143,6 +195,18 @@ class PDFGenerator {
         doc.font('Helvetica-Bold').text('Contrato Nº:', { continued: true });
         doc.font('Helvetica').text(` ${data.contractId}`);
       }
+      if (data.quoteNumber) {
+        doc.font('Helvetica-Bold').text('Cotización Nº:', { continued: true });
+        doc.font('Helvetica').text(` ${data.quoteNumber}`);
+      }
+      if (creditNote) {
+        doc.font('Helvetica-Bold').text('Comprobante asociado:', { continued: true });
+        doc.font('Helvetica').text(
+          ` ${creditNote.creditedNumber}${creditNote.scope === 'total' ? ' (anulado por esta nota)' : ' (acreditación parcial)'}`
+        );
+        doc.font('Helvetica-Bold').text('Motivo:', { continued: true });
+        doc.font('Helvetica').text(` ${creditNote.reason}`);
+      }
       doc.moveDown(1);
 
       // Items table header
@@ -189,6 +253,12 @@ class PDFGenerator {
         y += 15;
       }
 
+      for (const other of data.otherTaxes || []) {
+        doc.text(`${other.name} (${other.rate}%):`, 350, y);
+        doc.text(this.formatCurrency(other.amount, data.currency), 450, y);
+        y += 15;
+      }
+
       // Total
       doc.font('Helvetica-Bold').fontSize(12);
       doc.text('TOTAL:', 350, y);
@@ -211,6 +281,17 @@ class PDFGenerator {
         doc.fontSize(9).text(`Notas: ${data.notes}`, 50, y);
       }
 
+      // CAE y QR de AFIP al pie
+      if (fiscal) {
+        const caeTop = doc.page.height - 170;
+        doc.image(fiscal.qrPng, 50, caeTop, { width: 90, height: 90 });
+        doc.font('Helvetica-Bold').fontSize(10).text(`CAE Nº: ${fiscal.cae}`, 160, caeTop + 15);
+        const caeExpiry = new Intl.DateTimeFormat('es-AR', { day: '2-digit', month: '2-digit', year: 'numeric', timeZone: 'UTC' })
+          .format(fiscal.caeExpiresAt);
+        doc.font('Helvetica').text(`Fecha de Vto. de CAE: ${caeExpiry}`, 160, caeTop + 30);
+        doc.fontSize(8).text(fiscal.notice || 'Comprobante autorizado por AFIP', 160, caeTop + 50, { width: 390 });
+      }
+
       // Footer
       doc.fontSize(8).text(
         'Este documento fue generado automáticamente por DOAPP. Para consultas: soporte@doapp.com',
@@ -337,6 +418,96 @@ class PDFGenerator {
     });
   }
 
+  /**
+   * Generate conversation transcript PDF (chat export / dispute evidence)
+   */
+  async generateChatTranscript(data: ConversationExport, exportedByName: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const filename = `chat_${data.conversation.id.slice(0, 8)}_${Date.now()}.pdf`;
+      const filepath = path.join(this.chatExportsDir, filename);
+
+      const doc = new PDFDocument({ margin: 50 });
+      const stream = fs.createWriteStream(filepath);
+
+      doc.pipe(stream);
+
+      // Header
+      doc.fontSize(18).font('Helvetica-Bold').text('TRANSCRIPCIÓN DE CONVERSACIÓN', { align: 'center' });
+      doc.moveDown(0.5);
+      doc.fontSize(12).text('DOAPP');
+      doc.fontSize(9).font('Helvetica').text('Plataforma de Servicios Freelance');
+      doc.moveDown(1);
+
+      // Conversation info
+      doc.fontSize(10);
+      doc.text(`Conversación: ${data.conversation.id}`);
+      if (data.conversation.jobTitle) {
+        doc.text(`Trabajo: ${pdfSafeText(data.conversation.jobTitle)}`);
+      }
+      if (data.conversation.contractId) {
+        doc.text(`Contrato: ${data.conversation.contractId}`);
+      }
+      doc.text(`Exportada: ${this.formatDateTime(new Date(data.exportedAt))} por ${pdfSafeText(exportedByName)}`);
+      doc.moveDown(0.5);
+
+      doc.font('Helvetica-Bold').text('Participantes:');
+      doc.font('Helvetica');
+      data.participants.forEach((participant) => {
+        doc.text(`- ${pdfSafeText(participant.name)}`);
+      });
+      doc.moveDown(1);
+
+      // Messages
+      doc.fontSize(12).font('Helvetica-Bold').text('Mensajes');
+      doc.moveDown(0.5);
+      data.messages.forEach((message) => {
+        const header = `${this.formatDateTime(new Date(message.sentAt))} - ${pdfSafeText(message.senderName)}`;
+        const isEvent = data.systemEvents.some((event) => event.messageId === message.id);
+
+        doc.fontSize(8).font('Helvetica-Bold').fillColor('#6b7280').text(header);
+        doc.fontSize(10).font(isEvent ? 'Helvetica-Oblique' : 'Helvetica').fillColor(isEvent ? '#6b7280' : '#111827');
+        doc.text(pdfSafeText(message.text));
+        if (message.fileName) {
+          doc.fontSize(9).fillColor('#2563eb').text(`Adjunto: ${pdfSafeText(message.fileName)}`);
+        }
+        doc.fillColor('#111827').moveDown(0.5);
+      });
+
+      // Attachments
+      if (data.attachments.length > 0) {
+        doc.moveDown(0.5);
+        doc.fontSize(12).font('Helvetica-Bold').text('Adjuntos');
+        doc.moveDown(0.5);
+        doc.fontSize(9).font('Helvetica');
+        data.attachments.forEach((attachment) => {
+          doc.text(`${this.formatDateTime(new Date(attachment.sentAt))} - ${pdfSafeText(attachment.fileName)}`);
+          doc.fillColor('#6b7280').text(attachment.fileUrl).fillColor('#111827');
+        });
+      }
+
+      // Integrity
+      doc.moveDown(1);
+      doc.fontSize(8).font('Helvetica').fillColor('#6b7280');
+      doc.text(`SHA-256 del contenido (exportación JSON): ${data.checksum}`);
+      doc.text('Documento generado por DOAPP');
+
+      doc.end();
+
+      stream.on('finish', () => resolve(filepath));
+      stream.on('error', reject);
+    });
+  }
+
+  private formatDateTime(date: Date): string {
+    return new Intl.DateTimeFormat('es-AR', {
+      day: '2-digit',
+      month: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  }
+
   private formatDate(date: Date): string {
     return new Intl.DateTimeFormat('es-AR', {
       day: '2-digit',
@@ -346,10 +517,7 @@ class PDFGenerator {
   }
 
   private formatCurrency(amount: number, currency: string): string {
-    return new Intl.NumberFormat('es-AR', {
-      style: 'currency',
-      currency: currency === 'ARS' ? 'ARS' : 'USD',
-    }).format(amount);
+    return formatMoney(fromDecimal(amount, toCurrency(currency)));
   }
 
   /**
@@ -438,6 +606,8 @@ class PDFGenerator {
       let rowY = tableTop + 20;
       doc.font('Helvetica').fontSize(9);
       const items: any[] = quote.items || [];
+      const currency = toCurrency(quote.currency);
+      const money = (value: unknown) => this.formatCurrency(Number(value), currency);
 
       for (const item of items) {
         const rowHeight = 22;
@@ -445,8 +615,8 @@ class PDFGenerator {
         doc.fillColor('#000000');
         doc.text(String(item.qty), colX.cant, rowY + 6, { width: colWidths.cant, align: 'center' });
         doc.text(String(item.description), colX.desc, rowY + 6, { width: colWidths.desc });
-        doc.text(`$${Number(item.unitPrice).toLocaleString('es-AR')}`, colX.unit, rowY + 6, { width: colWidths.unit, align: 'right' });
-        doc.text(`$${Number(item.amount).toLocaleString('es-AR')}`, colX.amount, rowY + 6, { width: colWidths.amount, align: 'right' });
+        doc.text(money(item.unitPrice), colX.unit, rowY + 6, { width: colWidths.unit, align: 'right' });
+        doc.text(money(item.amount), colX.amount, rowY + 6, { width: colWidths.amount, align: 'right' });
         rowY += rowHeight;
       }
 
@@ -462,16 +632,16 @@ class PDFGenerator {
         rowY += bold ? 18 : 15;
       };
 
-      addTotal('Subtotal', `$${Number(quote.subtotal).toLocaleString('es-AR')}`);
-      addTotal(`IVA ${Number(quote.taxRate).toFixed(1)}%`, `$${Number(quote.taxAmount).toLocaleString('es-AR')}`);
+      addTotal('Subtotal', money(quote.subtotal));
+      addTotal(`IVA ${Number(quote.taxRate).toFixed(1)}%`, money(quote.taxAmount));
 
       for (const other of (quote.otherTaxes || []) as any[]) {
-        addTotal(`${other.name} ${other.rate}%`, `$${Number(other.amount).toLocaleString('es-AR')}`);
+        addTotal(`${other.name} ${other.rate}%`, money(other.amount));
       }
 
       doc.moveTo(totalsX, rowY).lineTo(50 + pageWidth, rowY).strokeColor('#333333').lineWidth(1).stroke();
       rowY += 6;
-      addTotal('TOTAL', `$${Number(quote.total).toLocaleString('es-AR')} ARS`, true);
+      addTotal('TOTAL', money(quote.total), true);
 
       // ── Signature area ────────────────────────────────────────────────────
       rowY += 30;
@@ -0,0 +1,83 @@
+/**
+ * Presence Rules
+ *
+ * Presencia de usuarios por dispositivo (una fila de socket_presence por
+ * socket conectado, en cualquier instancia del servidor):
+ *
+ * - Cada instancia renueva lastSeenAt de sus sockets cada HEARTBEAT_INTERVAL_MS;
+ *   una fila sin renovar por STALE_AFTER_MS es de una instancia caída y se
+ *   descarta
+ * - Un usuario está en línea mientras tenga al menos un dispositivo vigente;
+ *   se avisa "desconectado" recién cuando se va el último
+ * - El tipo de dispositivo lo manda el cliente (auth.device) o se deduce del
+ *   User-Agent
+ *
+ * Módulo puro; las filas y los avisos por socket están en socketPresence.ts.
+ */
+
+export const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+export const STALE_AFTER_MS = 3 * HEARTBEAT_INTERVAL_MS;
+export const MAX_PRESENCE_QUERY = 100;
+
+export const DEVICE_TYPES = ['web', 'mobile', 'unknown'] as const;
+export type DeviceType = (typeof DEVICE_TYPES)[number];
+
+export interface PresenceRow {
+  userId: string;
+  device: DeviceType;
+  lastSeenAt: Date;
+}
+
+export interface UserPresence {
+  userId: string;
+  isOnline: boolean;
+  devices: Array<{ device: DeviceType; lastSeenAt: Date }>;
+  // Último momento visto: el dispositivo más reciente o, sin dispositivos, User.lastActivity
+  lastSeenAt: Date | null;
+}
+
+const MOBILE_USER_AGENT = /okhttp|expo|react-native|cfnetwork|darwin|dalvik/i;
+
+/** Tipo de dispositivo del handshake: el declarado por el cliente o el del User-Agent. */
+export function detectDevice(declared: unknown, userAgent?: string | null): DeviceType {
+  if (typeof declared === 'string' && (DEVICE_TYPES as readonly string[]).includes(declared)) {
+    return declared as DeviceType;
+  }
+  if (!userAgent) return 'unknown';
+  return MOBILE_USER_AGENT.test(userAgent) ? 'mobile' : 'web';
+}
+
+export function isFresh(lastSeenAt: Date, now: Date): boolean {
+  return now.getTime() - lastSeenAt.getTime() < STALE_AFTER_MS;
+}
+
+/**
+ * Presencia de cada usuario pedido a partir de sus filas vigentes. Los que no
+ * tienen filas quedan desconectados con su última actividad guardada.
+ */
+export function summarizePresence(
+  userIds: string[],
+  rows: PresenceRow[],
+  lastActivity: Map<string, Date | null | undefined>,
+  now: Date
+): UserPresence[] {
+  return userIds.map((userId) => {
+    const devices = rows
+      .filter((row) => row.userId === userId && isFresh(row.lastSeenAt, now))
+      .map(({ device, lastSeenAt }) => ({ device, lastSeenAt }))
+      .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime());
+    return {
+      userId,
+      isOnline: devices.length > 0,
+      devices,
+      lastSeenAt: devices[0]?.lastSeenAt ?? lastActivity.get(userId) ?? null,
+    };
+  });
+}
+
+/** Valida la lista de usuarios de presence:get (UUIDs, sin repetir, con tope). */
+export function parsePresenceQuery(input: unknown): string[] {
+  const ids = Array.isArray(input) ? input : [input];
+  const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+  return [...new Set(ids.filter((id): id is string => typeof id === 'string' && uuid.test(id)))].slice(0, MAX_PRESENCE_QUERY);
+}
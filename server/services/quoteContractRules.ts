@@ -0,0 +1,182 @@
+/**
+ * Quote → Contract Rules
+ *
+ * Cómo pasa una cotización aceptada a contrato sin perder el detalle: cada
+ * ítem queda como línea del contrato con su parte de los impuestos (IVA y
+ * otros, prorrateados por importe) y el desglose completo se guarda para que
+ * las facturas muestren lo mismo que el PDF de la cotización.
+ *
+ * - Los importes se reparten en centavos con el método del mayor resto, así
+ *   la suma de las líneas da exactamente el subtotal y el total cotizados.
+ * - Cada línea puede convertirse en una tarea del trabajo (JobTask) o en una
+ *   entrega planificada del contrato. Con pago por línea cada una queda como
+ *   un hito con su propio estado de pago.
+ *
+ * Módulo puro; la conversión está en quoteConversion.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { fromDecimal, fromMinor, toDecimal, type Currency } from './money.js';
+
+export const LINE_MAPPINGS = ['none', 'tasks', 'deliveries'] as const;
+export type LineMapping = (typeof LINE_MAPPINGS)[number];
+
+export const PAYMENT_SCHEDULES = ['single', 'per_line'] as const;
+export type PaymentSchedule = (typeof PAYMENT_SCHEDULES)[number];
+
+export type LinePaymentStatus = 'pending' | 'paid';
+
+export interface ContractLineItem {
+  index: number; // posición del ítem en la cotización
+  description: string;
+  qty: number;
+  unitPrice: number;
+  amount: number;    // neto
+  taxAmount: number; // IVA + otros impuestos prorrateados
+  total: number;     // amount + taxAmount
+  taskId?: string | null;
+  deliveryId?: string | null;
+  // Solo con pago por línea: cada línea es un hito que se cobra por separado
+  paymentStatus?: LinePaymentStatus;
+}
+
+export interface ContractTaxBreakdown {
+  quoteNumber: string;
+  subtotal: number;
+  taxRate: number;
+  taxAmount: number;
+  otherTaxes: Array<{ name: string; rate: number; amount: number }>;
+  total: number;
+}
+
+/** Lo que usa la conversión de una cotización (columnas de Quote). */
+export interface QuoteSnapshot {
+  quoteNumber: string;
+  items: Array<{ qty: number | string; description: string; unitPrice: number | string; amount: number | string }>;
+  subtotal: number | string;
+  taxRate: number | string;
+  taxAmount: number | string;
+  otherTaxes?: Array<{ name: string; rate: number | string; amount?: number | string | null }> | null;
+  total: number | string;
+}
+
+/**
+ * Reparte `total` en partes proporcionales a `weights` (mayor resto): las
+ * partes suman exactamente el total. Con pesos en cero reparte en partes iguales.
+ */
+export function allocateMinor(total: number, weights: number[]): number[] {
+  if (!weights.length) return [];
+  const sum = weights.reduce((acc, weight) => acc + weight, 0);
+  const shares = sum > 0 ? weights.map((weight) => (total * weight) / sum) : weights.map(() => total / weights.length);
+  const floors = shares.map((share) => Math.floor(share));
+  let remainder = total - floors.reduce((acc, value) => acc + value, 0);
+  const order = shares
+    .map((share, index) => ({ index, fraction: share - Math.floor(share) }))
+    .sort((a, b) => b.fraction - a.fraction || a.index - b.index);
+  for (const { index } of order) {
+    if (remainder <= 0) break;
+    floors[index] += 1;
+    remainder -= 1;
+  }
+  return floors;
+}
+
+export function taxBreakdownFromQuote(quote: QuoteSnapshot, currency: Currency): ContractTaxBreakdown {
+  const subtotal = fromDecimal(quote.subtotal, currency);
+  return {
+    quoteNumber: quote.quoteNumber,
+    subtotal: toDecimal(subtotal),
+    taxRate: Number(quote.taxRate),
+    taxAmount: toDecimal(fromDecimal(quote.taxAmount, currency)),
+    // Cotizaciones viejas guardaban solo nombre y alícuota
+    otherTaxes: (quote.otherTaxes || []).map((tax) => ({
+      name: String(tax.name),
+      rate: Number(tax.rate),
+      amount: tax.amount !== undefined && tax.amount !== null
+        ? toDecimal(fromDecimal(tax.amount, currency))
+        : Math.round(subtotal.amount * Number(tax.rate) / 100) / 100,
+    })),
+    total: toDecimal(fromDecimal(quote.total, currency)),
+  };
+}
+
+/**
+ * Líneas del contrato a partir de los ítems de la cotización. El neto se
+ * reparte sobre el subtotal guardado y los impuestos (total − subtotal) según
+ * el neto de cada línea.
+ */
+export function buildContractLines(quote: QuoteSnapshot, currency: Currency, schedule: PaymentSchedule = 'single'): ContractLineItem[] {
+  if (!quote.items?.length) throw new ErrorResponse('La cotización no tiene ítems', 400);
+
+  const subtotal = fromDecimal(quote.subtotal, currency);
+  const total = fromDecimal(quote.total, currency);
+  if (subtotal.amount <= 0 || total.amount < subtotal.amount) {
+    throw new ErrorResponse('Los totales de la cotización no son válidos', 400);
+  }
+
+  const nets = allocateMinor(subtotal.amount, quote.items.map((item) => Math.max(0, fromDecimal(item.amount, currency).amount)));
+  const taxes = allocateMinor(total.amount - subtotal.amount, nets);
+
+  return quote.items.map((item, index) => {
+    const line: ContractLineItem = {
+      index,
+      description: String(item.description),
+      qty: Number(item.qty),
+      unitPrice: Number(item.unitPrice),
+      amount: toDecimal(fromMinor(nets[index], currency)),
+      taxAmount: toDecimal(fromMinor(taxes[index], currency)),
+      total: toDecimal(fromMinor(nets[index] + taxes[index], currency)),
+    };
+    if (schedule === 'per_line') line.paymentStatus = 'pending';
+    return line;
+  });
+}
+
+export function parseConversionOptions(body: Record<string, any> = {}): { lineMapping: LineMapping; paymentSchedule: PaymentSchedule } {
+  const lineMapping = body.lineMapping ?? 'none';
+  const paymentSchedule = body.paymentSchedule ?? 'single';
+  if (!(LINE_MAPPINGS as readonly unknown[]).includes(lineMapping)) {
+    throw new ErrorResponse(`lineMapping inválido. Opciones: ${LINE_MAPPINGS.join(', ')}`, 400);
+  }
+  if (!(PAYMENT_SCHEDULES as readonly unknown[]).includes(paymentSchedule)) {
+    throw new ErrorResponse(`paymentSchedule inválido. Opciones: ${PAYMENT_SCHEDULES.join(', ')}`, 400);
+  }
+  return { lineMapping, paymentSchedule };
+}
+
+export interface InvoiceBreakdown {
+  items: Array<{ description: string; quantity: number; unitPrice: number; total: number }>;
+  subtotal: number;
+  tax: number;
+  taxRate: number;
+  otherTaxes: Array<{ name: string; rate: number; amount: number }>;
+}
+
+/**
+ * Ítems e impuestos de la factura de un contrato que viene de una cotización,
+ * iguales a los del PDF de la cotización. Devuelve null si el contrato no
+ * tiene desglose o si el monto facturado ya no coincide con el cotizado (p.
+ * ej. después de una modificación de precio): ahí va una sola línea.
+ */
+export function invoiceBreakdownFromContract(
+  contract: { lineItems?: ContractLineItem[] | null; taxBreakdown?: ContractTaxBreakdown | null },
+  invoicedAmount: number,
+  currency: Currency,
+): InvoiceBreakdown | null {
+  const breakdown = contract.taxBreakdown;
+  if (!breakdown || !contract.lineItems?.length) return null;
+  if (fromDecimal(breakdown.total, currency).amount !== fromDecimal(invoicedAmount, currency).amount) return null;
+
+  return {
+    items: contract.lineItems.map((line) => ({
+      description: line.description,
+      quantity: line.qty,
+      unitPrice: line.unitPrice,
+      total: line.amount,
+    })),
+    subtotal: breakdown.subtotal,
+    tax: breakdown.taxAmount,
+    taxRate: breakdown.taxRate,
+    otherTaxes: breakdown.otherTaxes,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Quote Conversion
+ *
+ * Crea el contrato de una cotización aceptada conservando ítems e impuestos
+ * (lineItems + taxBreakdown, ver quoteContractRules.ts). En la misma
+ * transacción asigna el trabajo al que cotizó, aprueba su propuesta y, si se
+ * pidió, convierte cada línea en una tarea del trabajo o en una entrega
+ * planificada del contrato. Con pago por línea, cada línea es además un hito
+ * del escrow que se paga y se libera por separado (milestoneRules.ts).
+ */
+
+import crypto from 'crypto';
+import { sequelize } from '../config/database.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { JobTask } from '../models/sql/JobTask.model.js';
+import { Proposal } from '../models/sql/Proposal.model.js';
+import type { Quote } from '../models/sql/Quote.model.js';
+import { calculateCommission } from './commissionService.js';
+import milestoneEscrow from './milestoneEscrow.js';
+import { milestonesFromLines } from './milestoneRules.js';
+import { fromDecimal, toCurrency } from './money.js';
+import {
+  buildContractLines,
+  taxBreakdownFromQuote,
+  type LineMapping,
+  type PaymentSchedule,
+} from './quoteContractRules.js';
+
+export interface QuoteConversionOptions {
+  clientId: string;
+  lineMapping?: LineMapping;
+  paymentSchedule?: PaymentSchedule;
+}
+
+/**
+ * Devuelve el contrato creado, o null si la cotización no está ligada a un
+ * trabajo abierto (en ese caso solo queda aceptada).
+ */
+export async function convertQuoteToContract(quote: Quote, options: QuoteConversionOptions): Promise<{ contract: Contract; job: Job } | null> {
+  const jobId = quote.jobId;
+  if (!jobId) return null;
+
+  const { clientId, lineMapping = 'none', paymentSchedule = 'single' } = options;
+  const doerId = quote.senderId; // worker sent the quote
+  const currency = toCurrency(quote.currency);
+  const lineItems = buildContractLines(quote, currency, paymentSchedule);
+  const taxBreakdown = taxBreakdownFromQuote(quote, currency);
+  const price = taxBreakdown.total;
+
+  return sequelize.transaction(async (transaction) => {
+    // Releído con lock: dos aceptaciones simultáneas no asignan el mismo trabajo
+    const job = await Job.findByPk(jobId, { transaction, lock: transaction.LOCK.UPDATE });
+    if (!job || job.status !== 'open') return null;
+
+    const commissionResult = await calculateCommission(clientId, fromDecimal(price, currency), {
+      category: job.category,
+    });
+
+    if (lineMapping === 'tasks') {
+      const maxTask = await JobTask.findOne({ where: { jobId: job.id }, order: [['orderIndex', 'DESC']], transaction });
+      let orderIndex = maxTask ? maxTask.orderIndex + 1 : 0;
+      for (const line of lineItems) {
+        const task = await JobTask.create({
+          jobId: job.id,
+          createdById: clientId,
+          title: line.description.slice(0, 200),
+          description: `${quote.quoteNumber} · ítem ${line.index + 1} (cant. ${line.qty})`,
+          orderIndex: orderIndex++,
+          status: 'pending',
+        }, { transaction });
+        line.taskId = task.id;
+      }
+    }
+
+    const deliveries = lineMapping === 'deliveries'
+      ? lineItems.map((line) => {
+          line.deliveryId = crypto.randomUUID();
+          return { id: line.deliveryId, description: line.description, status: 'pending' as const, quoteLineIndex: line.index };
+        })
+      : [];
+
+    const endDate = job.endDate || new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+    const created = await Contract.create({
+      jobId: job.id,
+      clientId,
+      doerId,
+      type: 'trabajo',
+      price,
+      commission: commissionResult.commission,
+      commissionPercentage: commissionResult.rate,
+      commissionRuleId: commissionResult.rule?.id ?? null,
+      totalPrice: price + commissionResult.commission,
+      currency,
+      startDate: job.startDate || new Date(),
+      endDate,
+      status: 'pending',
+      termsAccepted: false,
+      termsAcceptedByClient: false,
+      termsAcceptedByDoer: false,
+      quoteId: quote.id,
+      lineItems,
+      taxBreakdown,
+      paymentSchedule,
+      deliveries,
+    }, { transaction });
+
+    if (paymentSchedule === 'per_line') {
+      await milestoneEscrow.createForContract(created, {
+        funding: 'per_milestone',
+        milestones: milestonesFromLines(lineItems, endDate),
+      }, transaction);
+    }
+
+    // Mark job in_progress and assign worker
+    await job.update({
+      doerId,
+      status: 'in_progress',
+      selectedWorkers: [doerId],
+    }, { transaction });
+
+    // Approve or create proposal
+    if (quote.proposalId) {
+      await Proposal.update({ status: 'approved' }, { where: { id: quote.proposalId }, transaction });
+    } else {
+      const [proposal, proposalCreated] = await Proposal.findOrCreate({
+        where: { jobId: job.id, freelancerId: doerId },
+        defaults: {
+          jobId: job.id,
+          freelancerId: doerId,
+          coverLetter: quote.title,
+          proposedPrice: price,
+          estimatedDuration: 1,
+          status: 'approved',
+        },
+        transaction,
+      });
+      if (!proposalCreated) await proposal.update({ status: 'approved' }, { transaction });
+    }
+
+    return { contract: created, job };
+  });
+}
+
+export default { convertQuoteToContract };
@@ -0,0 +1,299 @@
+/**
+ * Recurrence Rules
+ *
+ * Trabajos recurrentes (suscripciones de servicio): una serie con su regla
+ * de recurrencia genera una ocurrencia por fecha, y cada ocurrencia tiene su
+ * propio trabajo, contrato y pago.
+ *
+ * - Frecuencias: semanal o quincenal en días puntuales de la semana, o
+ *   mensual un día del mes (31 = último día en los meses más cortos).
+ * - Las fechas son días locales de Argentina ('YYYY-MM-DD'); la hora de
+ *   inicio y la duración dan el horario de cada ocurrencia.
+ * - La serie termina en `endsOn` o al llegar a `maxOccurrences` (contando
+ *   desde `startsOn`, también las salteadas).
+ * - Una ocurrencia salteada o reprogramada se guarda como fila; las que no
+ *   tienen fila salen de la regla (planOccurrences).
+ * - El Doer preferido tiene la primera opción durante firstRefusalHours,
+ *   siempre dejando tiempo para publicar el trabajo si no responde.
+ *
+ * Módulo puro; la persistencia vive en recurringJobs.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { DEFAULT_TIMEZONE, localParts, zonedTime } from './notificationDeliveryRules.js';
+
+export const RECURRENCE_FREQUENCIES = ['weekly', 'biweekly', 'monthly'] as const;
+export type RecurrenceFrequency = (typeof RECURRENCE_FREQUENCIES)[number];
+
+export type OccurrenceStatus =
+  | 'scheduled'   // todavía sin trabajo generado
+  | 'offered'     // contrato ofrecido al Doer preferido
+  | 'open'        // trabajo publicado para cualquier Doer
+  | 'contracted'  // contrato firmado, esperando el pago
+  | 'paid'        // pago retenido en escrow
+  | 'skipped'
+  | 'cancelled';
+
+// Cuántos días antes de cada ocurrencia se genera su trabajo
+export const GENERATION_LEAD_DAYS = 7;
+export const DEFAULT_FIRST_REFUSAL_HOURS = 24;
+export const MAX_FIRST_REFUSAL_HOURS = 72;
+// Tiempo mínimo de publicación abierta si el Doer preferido no toma la ocurrencia
+export const MIN_OPEN_HOURS = 12;
+export const MIN_DURATION_MINUTES = 30;
+export const MAX_DURATION_MINUTES = 12 * 60;
+export const MAX_OCCURRENCES = 520;
+// Horizonte del calendario y del feed ICS
+export const CALENDAR_HORIZON_DAYS = 90;
+
+export const SKIPPABLE_STATUSES: OccurrenceStatus[] = ['scheduled', 'offered', 'open', 'contracted'];
+export const RESCHEDULABLE_STATUSES: OccurrenceStatus[] = ['scheduled', 'offered', 'open'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const HHMM = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const YMD = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  weekdays: number[];        // 0 = domingo (weekly / biweekly)
+  dayOfMonth: number | null; // 1-31 (monthly)
+  startTime: string;         // HH:mm local
+  durationMinutes: number;
+  startsOn: string;          // YYYY-MM-DD
+  endsOn: string | null;
+  maxOccurrences: number | null;
+}
+
+export interface OccurrenceRow {
+  id?: string;
+  occurrenceDate: string;
+  startsAt: Date | string;
+  endsAt: Date | string;
+  status: OccurrenceStatus;
+  jobId?: string | null;
+  contractId?: string | null;
+  doerId?: string | null;
+  paymentId?: string | null;
+}
+
+export interface PlannedOccurrence {
+  id: string | null;
+  occurrenceDate: string;
+  startsAt: Date;
+  endsAt: Date;
+  status: OccurrenceStatus;
+  rescheduled: boolean;
+  jobId: string | null;
+  contractId: string | null;
+  doerId: string | null;
+  paymentId: string | null;
+}
+
+function dayNumber(date: string): number {
+  const [, y, m, d] = YMD.exec(date) || [];
+  return Date.UTC(Number(y), Number(m) - 1, Number(d)) / DAY_MS;
+}
+
+function fromDayNumber(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+function isValidDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !YMD.test(value)) return false;
+  return fromDayNumber(dayNumber(value)) === value;
+}
+
+/** Día local (YYYY-MM-DD) de un instante. */
+export function localDate(date: Date, timezone = DEFAULT_TIMEZONE): string {
+  const parts = localParts(date, timezone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * Valida la regla que llega en el body. `today` es el día local de hoy:
+ * la serie no puede empezar antes.
+ */
+export function parseRecurrenceRule(body: Record<string, any>, today: string): RecurrenceRule {
+  const frequency = body.frequency;
+  if (!RECURRENCE_FREQUENCIES.includes(frequency)) {
+    throw new ErrorResponse('La frecuencia debe ser semanal, quincenal o mensual', 400);
+  }
+
+  if (!isValidDate(body.startsOn)) throw new ErrorResponse('startsOn debe ser una fecha YYYY-MM-DD', 400);
+  if (body.startsOn < today) throw new ErrorResponse('La serie no puede empezar en el pasado', 400);
+  const startsOn: string = body.startsOn;
+
+  let endsOn: string | null = null;
+  if (body.endsOn !== undefined && body.endsOn !== null && body.endsOn !== '') {
+    if (!isValidDate(body.endsOn)) throw new ErrorResponse('endsOn debe ser una fecha YYYY-MM-DD', 400);
+    if (body.endsOn < startsOn) throw new ErrorResponse('La serie no puede terminar antes de empezar', 400);
+    endsOn = body.endsOn;
+  }
+
+  let maxOccurrences: number | null = null;
+  if (body.maxOccurrences !== undefined && body.maxOccurrences !== null && body.maxOccurrences !== '') {
+    const count = Number(body.maxOccurrences);
+    if (!Number.isInteger(count) || count < 1 || count > MAX_OCCURRENCES) {
+      throw new ErrorResponse(`maxOccurrences debe ser un entero entre 1 y ${MAX_OCCURRENCES}`, 400);
+    }
+    maxOccurrences = count;
+  }
+
+  const startWeekday = new Date(dayNumber(startsOn) * DAY_MS).getUTCDay();
+  let weekdays: number[] = [];
+  let dayOfMonth: number | null = null;
+  if (frequency === 'monthly') {
+    const day = body.dayOfMonth === undefined || body.dayOfMonth === null ? Number(startsOn.slice(8)) : Number(body.dayOfMonth);
+    if (!Number.isInteger(day) || day < 1 || day > 31) throw new ErrorResponse('dayOfMonth debe estar entre 1 y 31', 400);
+    dayOfMonth = day;
+  } else {
+    const input = body.weekdays === undefined || body.weekdays === null ? [startWeekday] : body.weekdays;
+    const days = Array.isArray(input) ? input.map(Number) : [];
+    if (days.length === 0 || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+      throw new ErrorResponse('weekdays debe ser una lista de días de la semana (0 = domingo a 6 = sábado)', 400);
+    }
+    weekdays = [...new Set(days)].sort((a, b) => a - b);
+  }
+
+  if (typeof body.startTime !== 'string' || !HHMM.test(body.startTime)) {
+    throw new ErrorResponse('startTime debe tener el formato HH:mm', 400);
+  }
+  const durationMinutes = Number(body.durationMinutes);
+  if (!Number.isInteger(durationMinutes) || durationMinutes < MIN_DURATION_MINUTES || durationMinutes > MAX_DURATION_MINUTES) {
+    throw new ErrorResponse(`La duración debe estar entre ${MIN_DURATION_MINUTES} y ${MAX_DURATION_MINUTES} minutos`, 400);
+  }
+
+  return { frequency, weekdays, dayOfMonth, startTime: body.startTime, durationMinutes, startsOn, endsOn, maxOccurrences };
+}
+
+function matches(rule: RecurrenceRule, day: number, startDay: number): boolean {
+  const date = new Date(day * DAY_MS);
+  if (rule.frequency === 'monthly') {
+    const lastDay = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+    return date.getUTCDate() === Math.min(rule.dayOfMonth ?? 1, lastDay);
+  }
+  if (!rule.weekdays.includes(date.getUTCDay())) return false;
+  if (rule.frequency === 'weekly') return true;
+  // Quincenal: semanas (domingo a sábado) pares contando desde la de startsOn
+  const firstSunday = startDay - new Date(startDay * DAY_MS).getUTCDay();
+  return Math.floor((day - firstSunday) / 7) % 2 === 0;
+}
+
+/**
+ * Fechas de la regla entre `from` y `to` (inclusive), respetando el inicio,
+ * el fin y la cantidad máxima de la serie.
+ */
+export function occurrenceDates(rule: RecurrenceRule, from: string, to: string): string[] {
+  const startDay = dayNumber(rule.startsOn);
+  const lastDay = Math.min(dayNumber(to), rule.endsOn ? dayNumber(rule.endsOn) : Infinity);
+  const firstDay = dayNumber(from);
+  const dates: string[] = [];
+  let count = 0;
+  for (let day = startDay; day <= lastDay; day++) {
+    if (!matches(rule, day, startDay)) continue;
+    count++;
+    if (rule.maxOccurrences !== null && count > rule.maxOccurrences) break;
+    if (day >= firstDay) dates.push(fromDayNumber(day));
+  }
+  return dates;
+}
+
+/** Próxima fecha de la regla desde `from` (inclusive), o null si la serie terminó. */
+export function nextOccurrenceDate(rule: RecurrenceRule, from: string): string | null {
+  const startDay = dayNumber(rule.startsOn);
+  const lastDay = rule.endsOn ? dayNumber(rule.endsOn) : Infinity;
+  let count = 0;
+  // Con una regla válida siempre hay una fecha en menos de dos meses
+  for (let day = startDay; day <= lastDay && day <= Math.max(startDay, dayNumber(from)) + 62; day++) {
+    if (!matches(rule, day, startDay)) continue;
+    count++;
+    if (rule.maxOccurrences !== null && count > rule.maxOccurrences) return null;
+    if (day >= dayNumber(from)) return fromDayNumber(day);
+  }
+  return null;
+}
+
+/** Horario de una ocurrencia (hora local de la regla). */
+export function occurrenceWindow(rule: Pick<RecurrenceRule, 'startTime' | 'durationMinutes'>, date: string, timezone = DEFAULT_TIMEZONE): { startsAt: Date; endsAt: Date } {
+  const [hour, minute] = rule.startTime.split(':').map(Number);
+  const [year, month, day] = date.split('-').map(Number);
+  const startsAt = zonedTime({ year, month, day, hour, minute }, timezone);
+  return { startsAt, endsAt: new Date(startsAt.getTime() + rule.durationMinutes * 60 * 1000) };
+}
+
+/**
+ * Ocurrencias que empiezan en [from, to): las de la regla más las filas
+ * guardadas, que mandan (salteadas, reprogramadas o ya generadas).
+ */
+export function planOccurrences(rule: RecurrenceRule, rows: OccurrenceRow[], range: { from: Date; to: Date }): PlannedOccurrence[] {
+  const byDate = new Map<string, PlannedOccurrence>();
+  // Un día de margen: una reprogramación puede mover la ocurrencia de día
+  const fromDate = fromDayNumber(dayNumber(localDate(range.from)) - 1);
+  for (const date of occurrenceDates(rule, fromDate, localDate(range.to))) {
+    const { startsAt, endsAt } = occurrenceWindow(rule, date);
+    byDate.set(date, { id: null, occurrenceDate: date, startsAt, endsAt, status: 'scheduled', rescheduled: false, jobId: null, contractId: null, doerId: null, paymentId: null });
+  }
+
+  for (const row of rows) {
+    const startsAt = new Date(row.startsAt);
+    byDate.set(row.occurrenceDate, {
+      id: row.id ?? null,
+      occurrenceDate: row.occurrenceDate,
+      startsAt,
+      endsAt: new Date(row.endsAt),
+      status: row.status,
+      rescheduled: startsAt.getTime() !== occurrenceWindow(rule, row.occurrenceDate).startsAt.getTime(),
+      jobId: row.jobId ?? null,
+      contractId: row.contractId ?? null,
+      doerId: row.doerId ?? null,
+      paymentId: row.paymentId ?? null,
+    });
+  }
+
+  return [...byDate.values()]
+    .filter((occurrence) => occurrence.startsAt >= range.from && occurrence.startsAt < range.to)
+    .sort((a, b) => a.startsAt.getTime() - b.startsAt.getTime());
+}
+
+/**
+ * Hasta cuándo tiene el Doer preferido para aceptar: firstRefusalHours desde
+ * ahora, pero dejando al menos MIN_OPEN_HOURS de publicación abierta antes
+ * del inicio.
+ */
+export function firstRefusalDeadline(now: Date, startsAt: Date, hours: number = DEFAULT_FIRST_REFUSAL_HOURS): Date {
+  const byHours = now.getTime() + hours * HOUR_MS;
+  const latest = startsAt.getTime() - MIN_OPEN_HOURS * HOUR_MS;
+  return new Date(Math.max(now.getTime(), Math.min(byHours, latest)));
+}
+
+/** Valida firstRefusalHours del body (default si no viene). */
+export function parseFirstRefusalHours(value: unknown): number {
+  if (value === undefined || value === null || value === '') return DEFAULT_FIRST_REFUSAL_HOURS;
+  const hours = Number(value);
+  if (!Number.isInteger(hours) || hours < 1 || hours > MAX_FIRST_REFUSAL_HOURS) {
+    throw new ErrorResponse(`firstRefusalHours debe estar entre 1 y ${MAX_FIRST_REFUSAL_HOURS}`, 400);
+  }
+  return hours;
+}
+
+/**
+ * Lanza 409 si la ocurrencia no admite la acción en su estado. Una ocurrencia
+ * pagada ya es un contrato en curso: se cancela o se cambia desde el contrato.
+ */
+export function assertOccurrenceAction(status: OccurrenceStatus, action: 'skip' | 'reschedule'): void {
+  const allowed = action === 'skip' ? SKIPPABLE_STATUSES : RESCHEDULABLE_STATUSES;
+  if (allowed.includes(status)) return;
+  if (status === 'paid' || status === 'contracted') {
+    throw new ErrorResponse('La ocurrencia ya tiene contrato firmado: gestioná el cambio desde el contrato', 409);
+  }
+  throw new ErrorResponse(`No se puede ${action === 'skip' ? 'saltear' : 'reprogramar'} una ocurrencia ${status === 'skipped' ? 'salteada' : 'cancelada'}`, 409);
+}
+
+/** Nuevo inicio de una ocurrencia reprogramada: futuro y con fecha válida. */
+export function parseReschedule(value: unknown, now: Date): Date {
+  const startsAt = typeof value === 'string' || value instanceof Date ? new Date(value) : null;
+  if (!startsAt || Number.isNaN(startsAt.getTime())) throw new ErrorResponse('startsAt debe ser una fecha válida', 400);
+  if (startsAt.getTime() <= now.getTime()) throw new ErrorResponse('La ocurrencia no se puede mover al pasado', 400);
+  return startsAt;
+}
@@ -0,0 +1,694 @@
+/**
+ * Recurring Jobs Service
+ *
+ * Series de trabajos recurrentes (reglas en recurrenceRules.ts):
+ *
+ * - create(): guarda la plantilla y la regla, y genera lo que ya entra en
+ *   la ventana de generación
+ * - processDue(): corrida horaria. Genera el trabajo de cada ocurrencia
+ *   GENERATION_LEAD_DAYS antes; con Doer preferido le ofrece el contrato
+ *   (primera opción) y si no responde a tiempo publica el trabajo. Después
+ *   sigue cada ocurrencia: contrato firmado → crea su pago; pago retenido →
+ *   pagada.
+ * - acceptOffer() / declineOffer(): respuesta del Doer preferido
+ * - skip() / reschedule() / end(): gestión de la serie por el cliente
+ * - calendarFor(): ocurrencias de un usuario para JobsCalendar y el feed ICS
+ *
+ * Cada ocurrencia es un trabajo y un contrato comunes: el resto del flujo
+ * (postulaciones, confirmación, disputas) no cambia.
+ */
+
+import { Op, type Transaction } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { Contract } from '../models/sql/Contract.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { Payment } from '../models/sql/Payment.model.js';
+import { RecurringJob } from '../models/sql/RecurringJob.model.js';
+import { RecurringJobOccurrence } from '../models/sql/RecurringJobOccurrence.model.js';
+import { User } from '../models/sql/User.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { getCategoryById } from '../constants/categories.js';
+import { cacheService } from './cacheService.js';
+import { calculateCommission } from './commissionService.js';
+import { transitionContract } from './contractLifecycle.js';
+import { createContractPayment } from './contractPayments.js';
+import currencyExchange from './currencyExchange.js';
+import messageTemplates from './messageTemplates.js';
+import { convert, formatMoney, fromDecimal, toCurrency, type Currency, type Money } from './money.js';
+import {
+  CALENDAR_HORIZON_DAYS,
+  GENERATION_LEAD_DAYS,
+  assertOccurrenceAction,
+  firstRefusalDeadline,
+  localDate,
+  nextOccurrenceDate,
+  occurrenceWindow,
+  parseFirstRefusalHours,
+  parseRecurrenceRule,
+  parseReschedule,
+  planOccurrences,
+  type PlannedOccurrence,
+} from './recurrenceRules.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MIN_PRICE = 1000;
+
+// Estados del contrato que cuentan como firmado por ambas partes
+const SIGNED_STATUSES = ['accepted', 'in_progress', 'awaiting_confirmation', 'completed'];
+const CLOSED_STATUSES = ['cancelled', 'rejected'];
+// Estados del Payment con los fondos ya cobrados
+const CAPTURED_PAYMENT_STATUSES = ['approved', 'held_escrow', 'completed', 'released'];
+const FAILED_PAYMENT_STATUSES = ['failed', 'cancelled', 'rejected', 'refunded'];
+
+export interface CalendarOccurrence extends PlannedOccurrence {
+  recurringJobId: string;
+  title: string;
+  description: string;
+  price: number;
+  category: string;
+  location: string;
+  frequency: RecurringJob['frequency'];
+  role: 'client' | 'doer';
+  paymentUrl: string | null;
+}
+
+function trimmed(value: unknown, field: string, max: number): string {
+  const text = typeof value === 'string' ? value.trim() : '';
+  if (!text) throw new ErrorResponse(`${field} es requerido`, 400);
+  if (text.length > max) throw new ErrorResponse(`${field} no puede exceder ${max} caracteres`, 400);
+  return text;
+}
+
+/** Mínimo de cada ocurrencia en la moneda de la serie (se define en pesos). */
+async function minimumPrice(currency: Currency): Promise<Money> {
+  const minimum = fromDecimal(MIN_PRICE, 'ARS');
+  if (currency === 'ARS') return minimum;
+  return convert(minimum, currency, await currencyExchange.snapshotRate('ARS', currency));
+}
+
+function formatOccurrence(date: Date): string {
+  return date.toLocaleString('es-AR', {
+    timeZone: 'America/Argentina/Buenos_Aires',
+    weekday: 'long',
+    day: 'numeric',
+    month: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+class RecurringJobsService {
+  /**
+   * Crea la serie para el cliente. Valida la plantilla como la publicación
+   * de un trabajo y la regla en recurrenceRules.ts.
+   */
+  async create(clientId: string, body: Record<string, any>, now = new Date()): Promise<RecurringJob> {
+    const rule = parseRecurrenceRule(body, localDate(now));
+    const firstRefusalHours = parseFirstRefusalHours(body.firstRefusalHours);
+
+    const currency = toCurrency(body.currency);
+    const price = Number(body.price);
+    const minimum = await minimumPrice(currency);
+    if (!Number.isFinite(price) || fromDecimal(price, currency).amount < minimum.amount) {
+      throw new ErrorResponse(`El precio mínimo es ${formatMoney(minimum)}`, 400);
+    }
+    if (!getCategoryById(body.category)) throw new ErrorResponse('Categoría inválida', 400);
+
+    let preferredDoerId: string | null = null;
+    if (body.preferredDoerId) {
+      if (body.preferredDoerId === clientId) throw new ErrorResponse('No podés ser el Doer de tu propia serie', 400);
+      const doer = await User.findByPk(body.preferredDoerId, { attributes: ['id'] });
+      if (!doer) throw new ErrorResponse('El Doer preferido no existe', 404);
+      preferredDoerId = doer.id;
+    }
+
+    const description = trimmed(body.description, 'La descripción', 2000);
+    const series = await RecurringJob.create({
+      clientId,
+      title: trimmed(body.title, 'El título', 100),
+      summary: body.summary ? trimmed(body.summary, 'El resumen', 200) : description.slice(0, 200),
+      description,
+      price,
+      currency,
+      category: body.category,
+      tags: Array.isArray(body.tags) ? body.tags.filter((tag: unknown) => typeof tag === 'string').slice(0, 10) : [],
+      location: trimmed(body.location, 'La ubicación', 255),
+      neighborhood: body.neighborhood || null,
+      latitude: body.latitude ? Number(body.latitude) : null,
+      longitude: body.longitude ? Number(body.longitude) : null,
+      remoteOk: body.remoteOk === true || body.remoteOk === 'true',
+      ...rule,
+      preferredDoerId,
+      firstRefusalHours,
+      status: 'active',
+    });
+
+    await this.generateDue(series, now);
+    return series;
+  }
+
+  /** Series del usuario como cliente o como Doer preferido, con sus próximas ocurrencias. */
+  async listFor(userId: string, now = new Date()): Promise<Array<{ series: RecurringJob; upcoming: PlannedOccurrence[] }>> {
+    const series = await RecurringJob.findAll({
+      where: { [Op.or]: [{ clientId: userId }, { preferredDoerId: userId }] },
+      include: [
+        { model: User, as: 'client', attributes: ['id', 'name', 'avatar'] },
+        { model: User, as: 'preferredDoer', attributes: ['id', 'name', 'avatar'] },
+      ],
+      order: [['createdAt', 'DESC']],
+    });
+    const range = { from: now, to: new Date(now.getTime() + CALENDAR_HORIZON_DAYS * DAY_MS) };
+    const rows = await this.rowsInRange(series.map((s) => s.id), range);
+    return series.map((s) => ({
+      series: s,
+      upcoming: s.status === 'active' || rows.some((row) => row.recurringJobId === s.id)
+        ? this.plan(s, rows, range)
+        : [],
+    }));
+  }
+
+  async get(id: string, userId: string): Promise<RecurringJob> {
+    const series = await RecurringJob.findByPk(id);
+    if (!series) throw new ErrorResponse('Serie no encontrada', 404);
+    if (series.clientId !== userId && series.preferredDoerId !== userId) {
+      throw new ErrorResponse('No tenés acceso a esta serie', 403);
+    }
+    return series;
+  }
+
+  /**
+   * Ocurrencias del usuario entre `from` y `to`: las de sus series como
+   * cliente y, como Doer preferido, las que todavía puede tomar o ya tomó.
+   */
+  async calendarFor(userId: string, range: { from: Date; to: Date }): Promise<CalendarOccurrence[]> {
+    const series = await RecurringJob.findAll({
+      where: { [Op.or]: [{ clientId: userId }, { preferredDoerId: userId }] },
+    });
+    const rows = await this.rowsInRange(series.map((s) => s.id), range);
+    const paymentUrls = new Map(rows.map((row) => [row.id, row.paymentUrl ?? null]));
+
+    return series.flatMap((s) => {
+      const role = s.clientId === userId ? 'client' as const : 'doer' as const;
+      return this.plan(s, rows, range)
+        .filter((occurrence) => {
+          if (occurrence.status === 'cancelled') return false;
+          if (role === 'client') return true;
+          // El Doer ve las fechas que le van a ofrecer y las que tiene
+          if (occurrence.status === 'skipped') return false;
+          return occurrence.status === 'scheduled' ? s.status === 'active' : occurrence.doerId === userId;
+        })
+        .map((occurrence) => ({
+          ...occurrence,
+          recurringJobId: s.id,
+          title: s.title,
+          description: s.description,
+          price: Number(s.price),
+          category: s.category,
+          location: s.location,
+          frequency: s.frequency,
+          role,
+          paymentUrl: role === 'client' && occurrence.id ? paymentUrls.get(occurrence.id) ?? null : null,
+        }));
+    });
+  }
+
+  /**
+   * Saltea una ocurrencia. Si ya tenía trabajo o contrato sin pagar, se
+   * cancelan; una pagada se cancela desde su contrato.
+   */
+  async skip(id: string, occurrenceDate: string, userId: string): Promise<RecurringJobOccurrence> {
+    const series = await this.ownedBy(id, userId);
+    const occurrence = await this.occurrenceFor(series, occurrenceDate);
+    assertOccurrenceAction(occurrence.status, 'skip');
+
+    await this.closeOccurrence(occurrence, 'skipped', { actorId: userId, reason: 'Ocurrencia salteada por el cliente' });
+    if (occurrence.doerId && occurrence.doerId !== userId) {
+      await this.notifyContract(occurrence.doerId, series, occurrence, `El cliente salteó la ocurrencia del ${formatOccurrence(occurrence.startsAt)}`);
+    }
+    return occurrence;
+  }
+
+  /**
+   * Mueve una ocurrencia que todavía no tiene contrato firmado. La fecha
+   * original de la regla (occurrenceDate) no cambia; el trabajo y la oferta
+   * generados se actualizan con el nuevo horario.
+   */
+  async reschedule(id: string, occurrenceDate: string, startsAtInput: unknown, userId: string, now = new Date()): Promise<RecurringJobOccurrence> {
+    const series = await this.ownedBy(id, userId);
+    const occurrence = await this.occurrenceFor(series, occurrenceDate);
+    assertOccurrenceAction(occurrence.status, 'reschedule');
+    const startsAt = parseReschedule(startsAtInput, now);
+    const endsAt = new Date(startsAt.getTime() + series.durationMinutes * 60 * 1000);
+
+    await sequelize.transaction(async (transaction) => {
+      await occurrence.update({ startsAt, endsAt }, { transaction });
+      const job = occurrence.jobId ? await Job.findByPk(occurrence.jobId, { transaction }) : null;
+      await job?.update({ startDate: startsAt, endDate: endsAt }, { transaction });
+      const contract = occurrence.contractId ? await Contract.findByPk(occurrence.contractId, { transaction }) : null;
+      await contract?.update({ startDate: startsAt, endDate: endsAt }, { transaction });
+    });
+    if (occurrence.jobId) cacheService.delPattern('jobs:*');
+
+    if (occurrence.doerId && occurrence.doerId !== userId) {
+      await this.notifyContract(occurrence.doerId, series, occurrence, `La ocurrencia se movió al ${formatOccurrence(startsAt)}`);
+    }
+    return occurrence;
+  }
+
+  /**
+   * Termina la serie: no se generan más ocurrencias y las ya generadas sin
+   * pagar se cancelan. Las pagadas siguen su curso como cualquier contrato.
+   */
+  async end(id: string, userId: string, now = new Date()): Promise<{ series: RecurringJob; cancelled: number }> {
+    const series = await this.ownedBy(id, userId);
+    if (series.status === 'ended') throw new ErrorResponse('La serie ya terminó', 409);
+
+    await series.update({ status: 'ended', endedAt: now });
+    const pending = await RecurringJobOccurrence.findAll({
+      where: { recurringJobId: series.id, status: { [Op.in]: ['offered', 'open', 'contracted'] } },
+    });
+    for (const occurrence of pending) {
+      await this.closeOccurrence(occurrence, 'cancelled', { actorId: userId, reason: 'Serie recurrente finalizada por el cliente' });
+      if (occurrence.doerId && occurrence.doerId !== userId) {
+        await this.notifyContract(occurrence.doerId, series, occurrence, 'El cliente terminó el servicio recurrente');
+      }
+    }
+    return { series, cancelled: pending.length };
+  }
+
+  /** El Doer preferido toma la ocurrencia: el contrato queda firmado y se crea su pago. */
+  async acceptOffer(id: string, occurrenceDate: string, userId: string): Promise<RecurringJobOccurrence> {
+    const { series, occurrence, contract } = await this.offerFor(id, occurrenceDate, userId);
+
+    contract.termsAcceptedByDoer = true;
+    await transitionContract(contract, 'accept', { actorId: userId, actorRole: 'doer' });
+    await this.assignDoer(occurrence, userId);
+    await this.collectPayment(series, occurrence);
+    return occurrence;
+  }
+
+  /** El Doer preferido no toma la ocurrencia: se publica para cualquier Doer. */
+  async declineOffer(id: string, occurrenceDate: string, userId: string): Promise<RecurringJobOccurrence> {
+    const { series, occurrence, contract } = await this.offerFor(id, occurrenceDate, userId);
+
+    await transitionContract(contract, 'reject', {
+      actorId: userId,
+      actorRole: 'doer',
+      reason: 'El Doer preferido no tomó la ocurrencia',
+    });
+    await this.publishOpen(series, occurrence, 'Tu Doer preferido no puede en esta fecha: publicamos el trabajo');
+    return occurrence;
+  }
+
+  /**
+   * Corrida del scheduler: genera lo que entra en la ventana y avanza las
+   * ocurrencias en curso. Los errores de una ocurrencia no frenan al resto.
+   */
+  async processDue(now = new Date()): Promise<{ processed: number; failed: number }> {
+    let processed = 0;
+    let failed = 0;
+
+    const active = await RecurringJob.findAll({ where: { status: 'active' } });
+    for (const series of active) {
+      try {
+        processed += await this.generateDue(series, now);
+      } catch (error) {
+        failed++;
+        console.error(`[RecurringJobs] Error generating series ${series.id}:`, error);
+      }
+    }
+
+    const inFlight = await RecurringJobOccurrence.findAll({
+      where: { status: { [Op.in]: ['offered', 'open', 'contracted'] } },
+      order: [['startsAt', 'ASC']],
+    });
+    const seriesById = new Map<string, RecurringJob>();
+    for (const occurrence of inFlight) {
+      try {
+        if (!seriesById.has(occurrence.recurringJobId)) {
+          const series = await RecurringJob.findByPk(occurrence.recurringJobId);
+          if (!series) continue;
+          seriesById.set(series.id, series);
+        }
+        if (await this.advance(seriesById.get(occurrence.recurringJobId)!, occurrence, now)) processed++;
+      } catch (error) {
+        failed++;
+        await occurrence.update({ lastError: (error as Error).message?.slice(0, 500) || 'Error' }).catch(() => undefined);
+        console.error(`[RecurringJobs] Error advancing occurrence ${occurrence.id}:`, error);
+      }
+    }
+
+    return { processed, failed };
+  }
+
+  // ============================================
+  // GENERACIÓN Y SEGUIMIENTO
+  // ============================================
+
+  /** Genera las ocurrencias que empiezan dentro de la ventana; cierra la serie agotada. */
+  private async generateDue(series: RecurringJob, now: Date): Promise<number> {
+    const rule = series.rule;
+    if (!nextOccurrenceDate(rule, localDate(now))) {
+      await series.update({ status: 'ended', endedAt: now });
+      return 0;
+    }
+
+    const range = { from: now, to: new Date(now.getTime() + GENERATION_LEAD_DAYS * DAY_MS) };
+    const rows = await this.rowsInRange([series.id], range);
+    let generated = 0;
+    for (const occurrence of this.plan(series, rows, range)) {
+      if (occurrence.status !== 'scheduled' || occurrence.jobId) continue;
+      await this.generate(series, occurrence, now);
+      generated++;
+    }
+    return generated;
+  }
+
+  /** Crea el trabajo de una ocurrencia y, con Doer preferido, su contrato ofrecido. */
+  private async generate(series: RecurringJob, planned: PlannedOccurrence, now: Date): Promise<void> {
+    const offerExpiresAt = series.preferredDoerId
+      ? firstRefusalDeadline(now, planned.startsAt, series.firstRefusalHours)
+      : null;
+    const offerTo = offerExpiresAt && offerExpiresAt.getTime() > now.getTime() ? series.preferredDoerId! : null;
+
+    const occurrence = await sequelize.transaction(async (transaction) => {
+      const [row] = await RecurringJobOccurrence.findOrCreate({
+        where: { recurringJobId: series.id, occurrenceDate: planned.occurrenceDate },
+        defaults: {
+          recurringJobId: series.id,
+          occurrenceDate: planned.occurrenceDate,
+          startsAt: planned.startsAt,
+          endsAt: planned.endsAt,
+          status: 'scheduled',
+        },
+        transaction,
+        lock: transaction.LOCK.UPDATE,
+      });
+      // Otra corrida ya la generó
+      if (row.status !== 'scheduled' || row.jobId) return null;
+
+      const job = await Job.create({
+        title: series.title,
+        summary: series.summary,
+        description: series.description,
+        price: series.price,
+        category: series.category,
+        tags: series.tags || [],
+        location: series.location,
+        neighborhood: series.neighborhood,
+        latitude: series.latitude,
+        longitude: series.longitude,
+        remoteOk: series.remoteOk,
+        startDate: row.startsAt,
+        endDate: row.endsAt,
+        endDateFlexible: false,
+        clientId: series.clientId,
+        // La serie ya se publicó: cada ocurrencia paga solo la comisión de su
+        // contrato. Mientras el Doer preferido tiene la primera opción el
+        // trabajo queda sin publicar y sin asignar (draft)
+        status: offerTo ? 'draft' : 'open',
+        publicationPaid: true,
+        publicationAmount: 0,
+        maxWorkers: 1,
+        singleDelivery: true,
+      }, { transaction });
+
+      const contract = offerTo ? await this.createContract(series, job, offerTo, transaction) : null;
+      await row.update({
+        jobId: job.id,
+        contractId: contract?.id ?? null,
+        doerId: offerTo,
+        status: offerTo ? 'offered' : 'open',
+        offerExpiresAt: offerTo ? offerExpiresAt : null,
+        lastError: null,
+      }, { transaction });
+      return row;
+    });
+    if (!occurrence) return;
+
+    if (offerTo) {
+      await this.notifyContract(offerTo, series, occurrence,
+        `Tenés la primera opción para la ocurrencia del ${formatOccurrence(occurrence.startsAt)} hasta el ${formatOccurrence(occurrence.offerExpiresAt!)}`);
+    } else {
+      cacheService.delPattern('jobs:*');
+      await this.notifyJob(series.clientId, series, occurrence, `Publicamos la ocurrencia del ${formatOccurrence(occurrence.startsAt)}`);
+    }
+  }
+
+  /** Avanza una ocurrencia en curso según su contrato y su pago. true si cambió algo. */
+  private async advance(series: RecurringJob, occurrence: RecurringJobOccurrence, now: Date): Promise<boolean> {
+    if (occurrence.status === 'offered') {
+      const contract = occurrence.contractId ? await Contract.findByPk(occurrence.contractId) : null;
+      if (contract && SIGNED_STATUSES.includes(contract.status)) {
+        // Aceptó desde el detalle del contrato
+        await this.assignDoer(occurrence, contract.doerId);
+        await this.collectPayment(series, occurrence);
+        return true;
+      }
+      if (!contract || CLOSED_STATUSES.includes(contract.status)) {
+        await this.publishOpen(series, occurrence, 'Tu Doer preferido no tomó esta fecha: publicamos el trabajo');
+        return true;
+      }
+      if (occurrence.offerExpiresAt && occurrence.offerExpiresAt.getTime() <= now.getTime()) {
+        await transitionContract(contract, 'cancel', {
+          actorRole: 'system',
+          reason: 'Venció la primera opción del Doer preferido',
+        });
+        await this.publishOpen(series, occurrence, 'Tu Doer preferido no respondió a tiempo: publicamos el trabajo');
+        return true;
+      }
+      return false;
+    }
+
+    if (occurrence.status === 'open') {
+      const job = occurrence.jobId ? await Job.findByPk(occurrence.jobId, { attributes: ['id', 'status'] }) : null;
+      if (!job || job.status === 'cancelled') {
+        await occurrence.update({ status: 'cancelled' });
+        return true;
+      }
+      const contract = await Contract.findOne({
+        where: { jobId: job.id, status: { [Op.in]: SIGNED_STATUSES } },
+        order: [['createdAt', 'DESC']],
+      });
+      if (!contract) return false;
+      await occurrence.update({ status: 'contracted', contractId: contract.id, doerId: contract.doerId });
+      await this.collectPayment(series, occurrence);
+      return true;
+    }
+
+    // contracted: esperando el pago
+    const contract = occurrence.contractId ? await Contract.findByPk(occurrence.contractId, { attributes: ['id', 'status'] }) : null;
+    if (!contract || CLOSED_STATUSES.includes(contract.status)) {
+      await occurrence.update({ status: 'cancelled' });
+      return true;
+    }
+    const payment = occurrence.paymentId ? await Payment.findByPk(occurrence.paymentId, { attributes: ['id', 'status'] }) : null;
+    if (payment && CAPTURED_PAYMENT_STATUSES.includes(payment.status)) {
+      await occurrence.update({ status: 'paid', paidAt: now, lastError: null });
+      return true;
+    }
+    if (!payment || FAILED_PAYMENT_STATUSES.includes(payment.status)) {
+      await occurrence.update({ paymentId: null, paymentUrl: null });
+      return this.collectPayment(series, occurrence);
+    }
+    return false;
+  }
+
+  /**
+   * Crea (o recupera) el pago de la ocurrencia y le manda el link al
+   * cliente. Si el checkout falla queda el error y se reintenta en la
+   * próxima corrida.
+   */
+  private async collectPayment(series: RecurringJob, occurrence: RecurringJobOccurrence): Promise<boolean> {
+    if (!occurrence.contractId) return false;
+    try {
+      const result = await createContractPayment(occurrence.contractId, series.clientId);
+      await occurrence.update({ paymentId: result.payment.id, paymentUrl: result.paymentUrl, lastError: null });
+      if (!result.resumed) {
+        await this.notifyContract(series.clientId, series, occurrence,
+          `La ocurrencia del ${formatOccurrence(occurrence.startsAt)} ya tiene Doer: pagala para confirmarla`);
+      }
+      return true;
+    } catch (error) {
+      await occurrence.update({ lastError: (error as Error).message?.slice(0, 500) || 'Error' });
+      console.error(`[RecurringJobs] Error creating payment for occurrence ${occurrence.id}:`, error);
+      return false;
+    }
+  }
+
+  /** Contrato de la ocurrencia: el cliente ya aceptó los términos al crear la serie. */
+  private async createContract(series: RecurringJob, job: Job, doerId: string, transaction: Transaction): Promise<Contract> {
+    const price = Number(series.price);
+    const currency = toCurrency(series.currency);
+    const commissionResult = await calculateCommission(series.clientId, fromDecimal(price, currency), {
+      category: series.category,
+    });
+    return Contract.create({
+      jobId: job.id,
+      clientId: series.clientId,
+      doerId,
+      type: 'trabajo',
+      price,
+      commission: commissionResult.commission,
+      commissionPercentage: commissionResult.rate,
+      commissionRuleId: commissionResult.rule?.id ?? null,
+      totalPrice: price + commissionResult.commission,
+      currency,
+      startDate: job.startDate,
+      endDate: job.endDate,
+      status: 'pending',
+      termsAccepted: false,
+      termsAcceptedByClient: true,
+      termsAcceptedByDoer: false,
+    }, { transaction });
+  }
+
+  /** El Doer preferido aceptó: el trabajo pasa a in_progress asignado a él. */
+  private async assignDoer(occurrence: RecurringJobOccurrence, doerId: string): Promise<void> {
+    await sequelize.transaction(async (transaction) => {
+      const job = occurrence.jobId ? await Job.findByPk(occurrence.jobId, { transaction }) : null;
+      await job?.update({ status: 'in_progress', doerId, selectedWorkers: [doerId] }, { transaction });
+      await occurrence.update({ status: 'contracted', offerExpiresAt: null }, { transaction });
+    });
+    cacheService.delPattern('jobs:*');
+  }
+
+  /** Publica el trabajo de una ocurrencia ofrecida para cualquier Doer. */
+  private async publishOpen(series: RecurringJob, occurrence: RecurringJobOccurrence, update: string): Promise<void> {
+    await sequelize.transaction(async (transaction) => {
+      // Con los hooks del modelo: publicar el trabajo dispara las alertas de búsquedas guardadas
+      const job = occurrence.jobId ? await Job.findByPk(occurrence.jobId, { transaction }) : null;
+      await job?.update({ status: 'open', doerId: null, selectedWorkers: [] }, { transaction });
+      await occurrence.update({ status: 'open', contractId: null, doerId: null, offerExpiresAt: null }, { transaction });
+    });
+    cacheService.delPattern('jobs:*');
+    await this.notifyJob(series.clientId, series, occurrence, update);
+  }
+
+  /** Cancela el contrato sin pagar y el trabajo de una ocurrencia, y la cierra. */
+  private async closeOccurrence(
+    occurrence: RecurringJobOccurrence,
+    status: 'skipped' | 'cancelled',
+    context: { actorId: string; reason: string }
+  ): Promise<void> {
+    if (occurrence.contractId) {
+      const contract = await Contract.findByPk(occurrence.contractId);
+      if (contract && !CLOSED_STATUSES.includes(contract.status)) {
+        contract.cancellationReason = context.reason;
+        contract.cancelledBy = context.actorId;
+        await transitionContract(contract, 'cancel', { actorId: context.actorId, actorRole: 'client', reason: context.reason });
+      }
+    }
+    const job = occurrence.jobId ? await Job.findByPk(occurrence.jobId) : null;
+    if (job && !['completed', 'cancelled'].includes(job.status)) {
+      await job.update({
+        status: 'cancelled',
+        cancellationReason: context.reason,
+        cancelledAt: new Date(),
+        cancelledById: context.actorId,
+        cancelledByRole: 'owner',
+      });
+      cacheService.delPattern('jobs:*');
+    }
+    await occurrence.update({ status, offerExpiresAt: null });
+  }
+
+  // ============================================
+  // HELPERS
+  // ============================================
+
+  private async ownedBy(id: string, userId: string): Promise<RecurringJob> {
+    const series = await RecurringJob.findByPk(id);
+    if (!series) throw new ErrorResponse('Serie no encontrada', 404);
+    if (series.clientId !== userId) throw new ErrorResponse('Solo el cliente puede gestionar la serie', 403);
+    return series;
+  }
+
+  /** La fila de una fecha de la serie; si todavía no existe y la fecha es de la regla, la crea. */
+  private async occurrenceFor(series: RecurringJob, occurrenceDate: string): Promise<RecurringJobOccurrence> {
+    const existing = await RecurringJobOccurrence.findOne({ where: { recurringJobId: series.id, occurrenceDate } });
+    if (existing) return existing;
+
+    if (series.status !== 'active' || nextOccurrenceDate(series.rule, occurrenceDate) !== occurrenceDate) {
+      throw new ErrorResponse('La serie no tiene una ocurrencia en esa fecha', 404);
+    }
+    const { startsAt, endsAt } = occurrenceWindow(series.rule, occurrenceDate);
+    const [row] = await RecurringJobOccurrence.findOrCreate({
+      where: { recurringJobId: series.id, occurrenceDate },
+      defaults: { recurringJobId: series.id, occurrenceDate, startsAt, endsAt, status: 'scheduled' },
+    });
+    return row;
+  }
+
+  private async offerFor(id: string, occurrenceDate: string, userId: string) {
+    const series = await RecurringJob.findByPk(id);
+    if (!series) throw new ErrorResponse('Serie no encontrada', 404);
+    const occurrence = await RecurringJobOccurrence.findOne({ where: { recurringJobId: id, occurrenceDate } });
+    if (!occurrence || occurrence.status !== 'offered' || !occurrence.contractId) {
+      throw new ErrorResponse('La ocurrencia no tiene una oferta pendiente', 409);
+    }
+    if (occurrence.doerId !== userId) throw new ErrorResponse('La oferta es para otro Doer', 403);
+    const contract = await Contract.findByPk(occurrence.contractId);
+    if (!contract) throw new ErrorResponse('Contrato no encontrado', 404);
+    return { series, occurrence, contract };
+  }
+
+  /** Filas que empiezan en el rango o cuya fecha original cae en él (reprogramadas afuera). */
+  private async rowsInRange(seriesIds: string[], range: { from: Date; to: Date }): Promise<RecurringJobOccurrence[]> {
+    if (seriesIds.length === 0) return [];
+    return RecurringJobOccurrence.findAll({
+      where: {
+        recurringJobId: { [Op.in]: seriesIds },
+        [Op.or]: [
+          { startsAt: { [Op.gte]: range.from, [Op.lt]: range.to } },
+          { occurrenceDate: { [Op.gte]: localDate(new Date(range.from.getTime() - DAY_MS)), [Op.lte]: localDate(range.to) } },
+        ],
+      },
+    });
+  }
+
+  private plan(series: RecurringJob, rows: RecurringJobOccurrence[], range: { from: Date; to: Date }): PlannedOccurrence[] {
+    const own = rows.filter((row) => row.recurringJobId === series.id);
+    const planned = planOccurrences(series.rule, own, range);
+    // Una serie terminada no proyecta fechas nuevas: solo quedan las que ya tienen fila
+    return series.status === 'active' ? planned : planned.filter((occurrence) => occurrence.id);
+  }
+
+  private async notifyContract(userId: string, series: RecurringJob, occurrence: RecurringJobOccurrence, update: string): Promise<void> {
+    try {
+      const user = await User.findByPk(userId, { attributes: ['id', 'name'] });
+      if (!user) return;
+      if (occurrence.contractId) {
+        await messageTemplates.notify(user.id, 'contract.update', {
+          recipientName: user.name || '',
+          contractTitle: series.title,
+          update,
+          contractId: occurrence.contractId,
+        }, { relatedModel: 'Contract', relatedId: occurrence.contractId, data: { contractId: occurrence.contractId, recurringJobId: series.id } });
+      } else if (occurrence.jobId) {
+        await this.notifyJob(userId, series, occurrence, update);
+      }
+    } catch (error) {
+      console.error(`[RecurringJobs] Error notifying user ${userId}:`, error);
+    }
+  }
+
+  private async notifyJob(userId: string, series: RecurringJob, occurrence: RecurringJobOccurrence, update: string): Promise<void> {
+    if (!occurrence.jobId) return;
+    try {
+      const user = await User.findByPk(userId, { attributes: ['id', 'name'] });
+      if (!user) return;
+      await messageTemplates.notify(user.id, 'job.update', {
+        recipientName: user.name || '',
+        jobTitle: series.title,
+        update,
+        jobId: occurrence.jobId,
+      }, { relatedModel: 'Job', relatedId: occurrence.jobId, data: { jobId: occurrence.jobId, recurringJobId: series.id } });
+    } catch (error) {
+      console.error(`[RecurringJobs] Error notifying user ${userId}:`, error);
+    }
+  }
+}
+
+const recurringJobs = new RecurringJobsService();
+export default recurringJobs;
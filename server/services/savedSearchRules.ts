@@ -0,0 +1,234 @@
+/**
+ * Saved Search Rules
+ *
+ * Reglas de las búsquedas guardadas: validación de los filtros que se guardan
+ * (los mismos de GET /api/search/jobs, sin orden ni paginación) y el matching
+ * en memoria de un trabajo recién publicado contra esos filtros.
+ *
+ * El matching replica los criterios de SearchService.searchJobs(): categoría
+ * exacta, tags por intersección, rango de precio inclusivo, ubicación
+ * normalizada por substring y radio por haversine. El texto libre se compara
+ * por prefijos contra título, resumen y descripción (todos los términos deben
+ * aparecer), sin el stemming de PostgreSQL.
+ *
+ * Módulo puro; la persistencia y el envío de alertas están en savedSearches.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import { normalizeLocation, searchTerms, stripAccents } from '../utils/fullTextSearch.js';
+import { haversineKm, isValidCoordinate } from '../utils/geo.js';
+import type { SearchFilters } from './search.js';
+
+export const SAVED_SEARCH_FREQUENCIES = ['instant', 'daily'] as const;
+export type SavedSearchFrequency = (typeof SAVED_SEARCH_FREQUENCIES)[number];
+
+// Máximo de búsquedas guardadas por usuario
+export const MAX_SAVED_SEARCHES = 20;
+
+// Estados desde los que pasar a 'open' publica el trabajo: los previos a la
+// publicación y 'in_progress' (se reabre tras cancelar la selección o la
+// primera opción de una ocurrencia recurrente). Reanudar una pausa no alerta;
+// cada búsqueda alerta una sola vez por trabajo (SavedSearchMatch)
+export const PRE_PUBLICATION_STATUSES = ['draft', 'pending_payment', 'pending_approval', 'in_progress'];
+
+const URGENCIES = ['low', 'medium', 'high'];
+const EXPERIENCE_LEVELS = ['beginner', 'intermediate', 'expert'];
+
+export type SavedSearchFilters = Omit<SearchFilters, 'sortBy' | 'sortOrder' | 'page' | 'limit' | 'startDateFrom' | 'startDateTo'> & {
+  startDateFrom?: string;
+  startDateTo?: string;
+};
+
+export interface MatchableJob {
+  title: string;
+  summary?: string | null;
+  description?: string | null;
+  category: string;
+  tags?: string[] | null;
+  price: number | string;
+  location?: string | null;
+  latitude?: number | string | null;
+  longitude?: number | string | null;
+  remoteOk?: boolean | null;
+  urgency?: string | null;
+  experienceLevel?: string | null;
+  materialsProvided?: boolean | null;
+  startDate?: Date | string | null;
+}
+
+export interface SavedSearchInput {
+  name?: string;
+  filters?: SavedSearchFilters;
+  muted?: boolean;
+  frequency?: SavedSearchFrequency;
+  emailDigest?: boolean;
+}
+
+/**
+ * ¿El cambio de estado publica el trabajo? (previous undefined = recién creado)
+ */
+export function isPublicationTransition(previous: string | null | undefined, next: string): boolean {
+  return next === 'open' && (!previous || PRE_PUBLICATION_STATUSES.includes(previous));
+}
+
+const optionalNumber = (value: unknown, field: string): number | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < 0) {
+    throw new ErrorResponse(`${field} debe ser un número mayor o igual a 0`, 400);
+  }
+  return number;
+};
+
+const optionalBoolean = (value: unknown): boolean | undefined =>
+  value === undefined || value === null || value === '' ? undefined : value === true || value === 'true';
+
+const optionalDate = (value: unknown, field: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  if (isNaN(date.getTime())) throw new ErrorResponse(`${field} no es una fecha válida`, 400);
+  return date.toISOString();
+};
+
+const optionalEnum = (value: unknown, allowed: string[], field: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (!allowed.includes(String(value))) throw new ErrorResponse(`${field} inválido: ${value}`, 400);
+  return String(value);
+};
+
+/**
+ * Valida y normaliza los filtros de una búsqueda guardada. Descarta claves
+ * desconocidas y vacías; exige al menos un filtro.
+ */
+export function normalizeSearchFilters(input: unknown): SavedSearchFilters {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new ErrorResponse('Los filtros de la búsqueda son obligatorios', 400);
+  }
+  const raw = input as Record<string, any>;
+  const filters: SavedSearchFilters = {};
+
+  const query = typeof raw.query === 'string' ? raw.query.trim().slice(0, 200) : '';
+  if (query) filters.query = query;
+  const category = typeof raw.category === 'string' ? raw.category.trim() : '';
+  if (category) filters.category = category;
+  const location = typeof raw.location === 'string' ? raw.location.trim().slice(0, 200) : '';
+  if (location) filters.location = location;
+
+  const tags = (Array.isArray(raw.tags) ? raw.tags : typeof raw.tags === 'string' ? raw.tags.split(',') : [])
+    .map((tag: unknown) => String(tag).trim())
+    .filter(Boolean)
+    .slice(0, 20);
+  if (tags.length) filters.tags = Array.from(new Set<string>(tags));
+
+  filters.minPrice = optionalNumber(raw.minPrice, 'minPrice');
+  filters.maxPrice = optionalNumber(raw.maxPrice, 'maxPrice');
+  if (filters.minPrice !== undefined && filters.maxPrice !== undefined && filters.minPrice > filters.maxPrice) {
+    throw new ErrorResponse('El precio mínimo no puede superar al máximo', 400);
+  }
+
+  filters.maxDistance = optionalNumber(raw.maxDistance, 'maxDistance');
+  if (filters.maxDistance !== undefined) {
+    if (!isValidCoordinate(raw.latitude, raw.longitude)) {
+      throw new ErrorResponse('Para buscar por radio se necesita una ubicación con coordenadas', 400);
+    }
+    filters.latitude = Number(raw.latitude);
+    filters.longitude = Number(raw.longitude);
+  }
+
+  filters.remoteOk = optionalBoolean(raw.remoteOk);
+  filters.materialsProvided = optionalBoolean(raw.materialsProvided);
+  filters.urgency = optionalEnum(raw.urgency, URGENCIES, 'urgency') as SavedSearchFilters['urgency'];
+  filters.experienceLevel = optionalEnum(raw.experienceLevel, EXPERIENCE_LEVELS, 'experienceLevel') as SavedSearchFilters['experienceLevel'];
+  filters.startDateFrom = optionalDate(raw.startDateFrom, 'startDateFrom');
+  filters.startDateTo = optionalDate(raw.startDateTo, 'startDateTo');
+
+  const normalized = Object.fromEntries(
+    Object.entries(filters).filter(([, value]) => value !== undefined)
+  ) as SavedSearchFilters;
+
+  if (Object.keys(normalized).length === 0) {
+    throw new ErrorResponse('La búsqueda guardada necesita al menos un filtro', 400);
+  }
+  return normalized;
+}
+
+/**
+ * Valida el body de creación/edición. Con `partial` solo se validan los
+ * campos presentes (PATCH).
+ */
+export function parseSavedSearchInput(input: Record<string, any>, { partial = false } = {}): SavedSearchInput {
+  const result: SavedSearchInput = {};
+
+  if (!partial || input.name !== undefined) {
+    const name = String(input.name ?? '').trim();
+    if (!name) throw new ErrorResponse('El nombre de la búsqueda es obligatorio', 400);
+    if (name.length > 100) throw new ErrorResponse('El nombre no puede superar los 100 caracteres', 400);
+    result.name = name;
+  }
+  if (!partial || input.filters !== undefined) {
+    result.filters = normalizeSearchFilters(input.filters);
+  }
+  if (input.frequency !== undefined) {
+    if (!(SAVED_SEARCH_FREQUENCIES as readonly string[]).includes(input.frequency)) {
+      throw new ErrorResponse(`Frecuencia inválida: ${input.frequency}`, 400);
+    }
+    result.frequency = input.frequency;
+  }
+  if (input.muted !== undefined) result.muted = input.muted === true || input.muted === 'true';
+  if (input.emailDigest !== undefined) result.emailDigest = input.emailDigest === true || input.emailDigest === 'true';
+
+  return result;
+}
+
+const words = (job: MatchableJob): string[] =>
+  stripAccents([job.title, job.summary, job.description].filter(Boolean).join(' '))
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+
+/**
+ * ¿El trabajo cumple los filtros de la búsqueda guardada?
+ */
+export function jobMatchesFilters(filters: SavedSearchFilters, job: MatchableJob): boolean {
+  const terms = searchTerms(filters.query);
+  if (terms.length > 0) {
+    const jobWords = words(job);
+    if (!terms.every((term) => jobWords.some((word) => word.startsWith(term)))) return false;
+  }
+
+  if (filters.category && job.category !== filters.category) return false;
+
+  if (filters.tags?.length && !filters.tags.some((tag) => (job.tags || []).includes(tag))) return false;
+
+  const price = Number(job.price);
+  if (filters.minPrice !== undefined && price < filters.minPrice) return false;
+  if (filters.maxPrice !== undefined && price > filters.maxPrice) return false;
+
+  if (filters.location) {
+    const wanted = normalizeLocation(filters.location);
+    if (wanted && !normalizeLocation(job.location || '').includes(wanted)) return false;
+  }
+
+  if (filters.maxDistance && isValidCoordinate(filters.latitude, filters.longitude)) {
+    if (!isValidCoordinate(job.latitude, job.longitude)) return false;
+    const distance = haversineKm(
+      Number(filters.latitude), Number(filters.longitude),
+      Number(job.latitude), Number(job.longitude)
+    );
+    if (distance > filters.maxDistance) return false;
+  }
+
+  if (filters.remoteOk !== undefined && Boolean(job.remoteOk) !== filters.remoteOk) return false;
+  if (filters.materialsProvided !== undefined && Boolean(job.materialsProvided) !== filters.materialsProvided) return false;
+  if (filters.urgency && job.urgency !== filters.urgency) return false;
+  if (filters.experienceLevel && job.experienceLevel !== filters.experienceLevel) return false;
+
+  if (filters.startDateFrom || filters.startDateTo) {
+    if (!job.startDate) return false;
+    const startDate = new Date(job.startDate);
+    if (filters.startDateFrom && startDate < new Date(filters.startDateFrom)) return false;
+    if (filters.startDateTo && startDate > new Date(filters.startDateTo)) return false;
+  }
+
+  return true;
+}
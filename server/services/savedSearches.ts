@@ -0,0 +1,253 @@
+/**
+ * Saved Searches Service
+ *
+ * Búsquedas guardadas y sus alertas:
+ *
+ * 1. Los usuarios guardan los filtros de /api/search/jobs con un nombre
+ *    (CRUD en routes/savedSearches.ts).
+ * 2. Cuando un trabajo se publica (pasa a 'open' desde borrador, pago o
+ *    aprobación pendiente) el hook del modelo Job llama a matchPublishedJob():
+ *    se registra un SavedSearchMatch por cada búsqueda que cumple y, para las
+ *    de frecuencia 'instant', se avisa con una notificación in-app + push.
+ * 3. El job savedSearchDigest ejecuta sendDailyDigests(): agrupa los matches
+ *    pendientes por usuario, manda un aviso in-app + push para las búsquedas
+ *    'daily' y el email de resumen para las que tienen emailDigest.
+ *
+ * Las búsquedas silenciadas (`muted`) no generan matches ni avisos.
+ */
+
+import { Op } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { SavedSearch } from '../models/sql/SavedSearch.model.js';
+import { SavedSearchMatch } from '../models/sql/SavedSearchMatch.model.js';
+import { Job } from '../models/sql/Job.model.js';
+import { Notification } from '../models/sql/Notification.model.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import fcmService from './fcm.js';
+import emailService from './email.js';
+import searchService from './search.js';
+import {
+  MAX_SAVED_SEARCHES,
+  jobMatchesFilters,
+  parseSavedSearchInput,
+  type SavedSearchFilters,
+} from './savedSearchRules.js';
+
+// Trabajos por búsqueda en el email de resumen
+const DIGEST_JOBS_PER_SEARCH = 10;
+// Matches pendientes que procesa cada corrida del resumen
+const DIGEST_BATCH = 5000;
+
+const DIGEST_JOB_ATTRIBUTES = ['id', 'title', 'price', 'location', 'status'];
+
+class SavedSearchService {
+  async list(userId: string): Promise<SavedSearch[]> {
+    return SavedSearch.findAll({ where: { userId }, order: [['createdAt', 'DESC']] });
+  }
+
+  private async findOwned(userId: string, id: string): Promise<SavedSearch> {
+    const search = await SavedSearch.findOne({ where: { id, userId } });
+    if (!search) throw new ErrorResponse('Búsqueda guardada no encontrada', 404);
+    return search;
+  }
+
+  async create(userId: string, body: Record<string, any>): Promise<SavedSearch> {
+    const input = parseSavedSearchInput(body);
+
+    const count = await SavedSearch.count({ where: { userId } });
+    if (count >= MAX_SAVED_SEARCHES) {
+      throw new ErrorResponse(`Podés guardar hasta ${MAX_SAVED_SEARCHES} búsquedas`, 400);
+    }
+
+    return SavedSearch.create({ userId, ...input });
+  }
+
+  async update(userId: string, id: string, body: Record<string, any>): Promise<SavedSearch> {
+    const search = await this.findOwned(userId, id);
+    await search.update(parseSavedSearchInput(body, { partial: true }));
+    return search;
+  }
+
+  async remove(userId: string, id: string): Promise<void> {
+    const search = await this.findOwned(userId, id);
+    await search.destroy();
+  }
+
+  /**
+   * Ejecuta la búsqueda guardada ahora (trabajos abiertos que la cumplen)
+   */
+  async results(userId: string, id: string, { page = 1, limit = 20 }: { page?: number; limit?: number } = {}) {
+    const search = await this.findOwned(userId, id);
+    const { startDateFrom, startDateTo, ...filters } = search.filters;
+    return searchService.searchJobs({
+      ...filters,
+      startDateFrom: startDateFrom ? new Date(startDateFrom) : undefined,
+      startDateTo: startDateTo ? new Date(startDateTo) : undefined,
+      page,
+      limit,
+    });
+  }
+
+  /**
+   * Cruza un trabajo recién publicado con todas las búsquedas guardadas.
+   * Idempotente: un trabajo ya registrado para una búsqueda no vuelve a avisar.
+   * Devuelve la cantidad de matches nuevos.
+   */
+  async matchPublishedJob(jobId: string): Promise<number> {
+    const job = await Job.findByPk(jobId);
+    if (!job || job.status !== 'open') return 0;
+
+    // La categoría se filtra en SQL; el resto de los filtros en memoria
+    const candidates = await SavedSearch.findAll({
+      where: {
+        muted: false,
+        userId: { [Op.ne]: job.clientId },
+        [Op.and]: [
+          sequelize.literal(
+            `("SavedSearch"."filters"->>'category' IS NULL OR "SavedSearch"."filters"->>'category' = ${sequelize.escape(job.category)})`
+          ),
+        ],
+      },
+    });
+
+    const now = new Date();
+    const instantByUser = new Map<string, { search: SavedSearch; match: SavedSearchMatch }[]>();
+    let created = 0;
+
+    for (const search of candidates) {
+      if (!jobMatchesFilters(search.filters as SavedSearchFilters, job)) continue;
+
+      const [match, isNew] = await SavedSearchMatch.findOrCreate({
+        where: { savedSearchId: search.id, jobId: job.id },
+        defaults: {
+          userId: search.userId,
+          // Sin resumen pendiente: las instantáneas sin email ya quedan cerradas
+          digestedAt: search.frequency === 'instant' && !search.emailDigest ? now : null,
+        },
+      });
+      if (!isNew) continue;
+
+      created++;
+      await search.update({ matchCount: search.matchCount + 1, lastMatchedAt: now });
+
+      if (search.frequency === 'instant') {
+        const list = instantByUser.get(search.userId) || [];
+        list.push({ search, match });
+        instantByUser.set(search.userId, list);
+      }
+    }
+
+    // Un solo aviso por usuario aunque el trabajo cumpla varias de sus búsquedas
+    for (const [userId, matches] of instantByUser) {
+      try {
+        const names = matches.map(({ search }) => `"${search.name}"`).join(', ');
+        await Notification.create({
+          recipientId: userId,
+          type: 'info',
+          category: 'jobs',
+          title: 'Nuevo trabajo para tu búsqueda',
+          message: `"${job.title}" cumple tu búsqueda ${names}.`,
+          relatedModel: 'Job',
+          relatedId: job.id,
+          actionUrl: `/jobs/${job.id}`,
+          actionText: 'Ver trabajo',
+          data: { jobId: job.id, savedSearchIds: matches.map(({ search }) => search.id) },
+          sentVia: ['in_app', 'push'],
+        });
+        await fcmService.sendToUser({
+          userId,
+          title: 'Nuevo trabajo para tu búsqueda',
+          body: `${job.title} · ${matches[0].search.name}`,
+          data: { type: 'saved_search_match', jobId: job.id },
+          clickAction: `/jobs/${job.id}`,
+        });
+        await SavedSearchMatch.update(
+          { notifiedAt: now },
+          { where: { id: matches.map(({ match }) => match.id) } }
+        );
+      } catch (error) {
+        console.error(`[SavedSearch] Error notifying user ${userId} for job ${job.id}:`, error);
+      }
+    }
+
+    return created;
+  }
+
+  /**
+   * Resumen diario: aviso in-app + push para las búsquedas 'daily' y email
+   * para las que tienen emailDigest. Los trabajos que ya no están abiertos se
+   * descartan. Todos los matches procesados quedan con digestedAt.
+   */
+  async sendDailyDigests(): Promise<{ users: number; matches: number; failed: number }> {
+    const pending = await SavedSearchMatch.findAll({
+      where: { digestedAt: null },
+      include: [
+        { model: SavedSearch, as: 'savedSearch' },
+        { model: Job, as: 'job', attributes: DIGEST_JOB_ATTRIBUTES },
+      ],
+      order: [['createdAt', 'ASC']],
+      limit: DIGEST_BATCH,
+    });
+
+    const byUser = new Map<string, SavedSearchMatch[]>();
+    for (const match of pending) {
+      const list = byUser.get(match.userId) || [];
+      list.push(match);
+      byUser.set(match.userId, list);
+    }
+
+    let failed = 0;
+    for (const [userId, matches] of byUser) {
+      try {
+        const deliverable = matches.filter((m) => m.savedSearch && !m.savedSearch.muted && m.job?.status === 'open');
+        const daily = deliverable.filter((m) => m.savedSearch!.frequency === 'daily');
+        const forEmail = deliverable.filter((m) => m.savedSearch!.emailDigest);
+        const now = new Date();
+
+        if (daily.length > 0) {
+          const jobCount = new Set(daily.map((m) => m.jobId)).size;
+          await Notification.create({
+            recipientId: userId,
+            type: 'info',
+            category: 'jobs',
+            title: 'Trabajos nuevos para tus búsquedas',
+            message: jobCount === 1
+              ? `Se publicó "${daily[0].job!.title}", que cumple tu búsqueda "${daily[0].savedSearch!.name}".`
+              : `Se publicaron ${jobCount} trabajos que cumplen tus búsquedas guardadas.`,
+            actionUrl: jobCount === 1 ? `/jobs/${daily[0].jobId}` : '/settings?tab=notifications',
+            data: { jobIds: Array.from(new Set(daily.map((m) => m.jobId))) },
+            sentVia: ['in_app', 'push'],
+          });
+          await fcmService.sendToUser({
+            userId,
+            title: 'Trabajos nuevos para tus búsquedas',
+            body: jobCount === 1 ? daily[0].job!.title : `${jobCount} trabajos nuevos cumplen tus búsquedas guardadas`,
+            data: { type: 'saved_search_digest' },
+          });
+          await SavedSearchMatch.update({ notifiedAt: now }, { where: { id: daily.map((m) => m.id) } });
+        }
+
+        if (forEmail.length > 0) {
+          const groups = new Map<string, { searchName: string; jobs: { id: string; title: string; price: number; location?: string | null }[] }>();
+          for (const match of forEmail) {
+            const group = groups.get(match.savedSearchId) || { searchName: match.savedSearch!.name, jobs: [] };
+            if (group.jobs.length < DIGEST_JOBS_PER_SEARCH) {
+              group.jobs.push({ id: match.job!.id, title: match.job!.title, price: Number(match.job!.price), location: match.job!.location });
+            }
+            groups.set(match.savedSearchId, group);
+          }
+          await emailService.sendSavedSearchDigest(userId, Array.from(groups.values()));
+        }
+
+        await SavedSearchMatch.update({ digestedAt: now }, { where: { id: matches.map((m) => m.id) } });
+      } catch (error) {
+        failed++;
+        console.error(`[SavedSearch] Error sending digest to user ${userId}:`, error);
+      }
+    }
+
+    return { users: byUser.size, matches: pending.length, failed };
+  }
+}
+
+export default new SavedSearchService();
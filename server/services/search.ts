@@ -1,5 +1,8 @@
 import { Job } from "../models/sql/Job.model.js";
 import { User } from "../models/sql/User.model.js";
+import { sequelize } from "../config/database.js";
+import { buildPrefixTsQuery, normalizeLocation, tsQueryExpression } from "../utils/fullTextSearch.js";
+import { JOB_COORDINATES, distanceKmSql, isValidCoordinate, radiusWhere } from "../utils/geo.js";
 import { Op } from 'sequelize';
 
 // Simple in-memory cache
@@ -22,16 +25,7 @@ const cacheSet = async (key: string, data: any, ttl: number): Promise<void> => {
   });
 };
 
-// Normalize location string: remove punctuation and convert to lowercase
-const normalizeLocation = (location: string): string => {
-  return location
-    .toLowerCase()
-    .replace(/[.,\\/#!$%^&*;:{}=\-_`~()]/g, '') // Remove punctuation
-    .replace(/\s+/g, ' ') // Normalize spaces
-    .trim();
-};
-
-interface SearchFilters {
+export interface SearchFilters {
   query?: string;
   category?: string;
   tags?: string[];
@@ -47,7 +41,7 @@ interface SearchFilters {
   materialsProvided?: boolean;
   startDateFrom?: Date;
   startDateTo?: Date;
-  sortBy?: "createdAt" | "price" | "views" | "startDate";
+  sortBy?: "relevance" | "distance" | "createdAt" | "price" | "views" | "startDate";
   sortOrder?: "asc" | "desc";
   page?: number;
   limit?: number;
@@ -74,7 +68,6 @@ class SearchService {
       materialsProvided,
       startDateFrom,
       startDateTo,
-      sortBy = "createdAt",
       sortOrder = "desc",
       page = 1,
       limit = 20,
@@ -94,14 +87,13 @@ class SearchService {
       status: "open", // Only show open jobs
     };
 
-    // Text search using ILIKE for PostgreSQL
-    if (query) {
-      const searchPattern = `%${query}%`;
-      where[Op.or] = [
-        { title: { [Op.iLike]: searchPattern } },
-        { summary: { [Op.iLike]: searchPattern } },
-        { description: { [Op.iLike]: searchPattern } },
-      ];
+    // Full-text search on jobs.search_vector (tsvector + GIN index, prefix matching)
+    const tsQuery = buildPrefixTsQuery(query);
+    const tsQuerySql = tsQuery ? `(${tsQueryExpression(sequelize.escape(tsQuery))})` : null;
+    const conditions: any[] = [];
+
+    if (tsQuerySql) {
+      conditions.push(sequelize.literal(`"Job"."search_vector" @@ ${tsQuerySql}`));
     }
 
     // Category filter
@@ -125,15 +117,25 @@ class SearchService {
       }
     }
 
-    // Location filter - will be handled in post-processing for normalized matching
+    // Location filter - same normalization as normalizeLocation(), applied in SQL
     if (location) {
-      where.location = { [Op.ne]: null };
+      const normalizedSearchLocation = normalizeLocation(location);
+      if (normalizedSearchLocation) {
+        conditions.push(
+          sequelize.literal(
+            `regexp_replace(regexp_replace(lower("Job"."location"), '[.,\\\\/#!$%^&*;:{}=_\`~()-]', '', 'g'), '\\s+', ' ', 'g') LIKE ${sequelize.escape(`%${normalizedSearchLocation}%`)}`
+          )
+        );
+      }
     }
 
-    // Geolocation filter - will be handled in post-processing
-    if (latitude !== undefined && longitude !== undefined && maxDistance) {
-      where.latitude = { [Op.ne]: null };
-      where.longitude = { [Op.ne]: null };
+    // Geolocation - bounding box (indexed) + haversine, resolved in PostgreSQL
+    const center = isValidCoordinate(latitude, longitude)
+      ? { latitude: Number(latitude), longitude: Number(longitude) }
+      : null;
+
+    if (center && maxDistance && maxDistance > 0) {
+      conditions.push(...radiusWhere(center, maxDistance, JOB_COORDINATES));
     }
 
     // Remote work filter
@@ -167,12 +169,41 @@ class SearchService {
       }
     }
 
+    if (conditions.length > 0) {
+      where[Op.and] = conditions;
+    }
+
+    // Relevance is the default order for text searches
+    const sortBy = filters.sortBy || (tsQuerySql ? "relevance" : "createdAt");
+    const direction = sortOrder === "asc" ? "ASC" : "DESC";
+    const rankSql = tsQuerySql ? `ts_rank("Job"."search_vector", ${tsQuerySql})` : null;
+    const distanceSql = center
+      ? distanceKmSql(center, JOB_COORDINATES.latColumn, JOB_COORDINATES.lngColumn)
+      : null;
+
     // Build sort order for Sequelize
-    const order: any[] = [[sortBy, sortOrder === "asc" ? "ASC" : "DESC"]];
+    let order: any[];
+    if (sortBy === "relevance") {
+      order = rankSql
+        ? [[sequelize.literal(rankSql), direction], ["createdAt", "DESC"]]
+        : [["createdAt", direction]];
+    } else if (sortBy === "distance") {
+      // Closest first by default; jobs without coordinates go last
+      order = distanceSql
+        ? [[sequelize.literal(distanceSql), filters.sortOrder === "desc" ? "DESC NULLS LAST" : "ASC NULLS LAST"], ["createdAt", "DESC"]]
+        : [["createdAt", "DESC"]];
+    } else {
+      order = [[sortBy, direction]];
+    }
 
-    // Execute query
-    const jobs = await Job.findAll({
+    const extraAttributes: any[] = [];
+    if (rankSql) extraAttributes.push([sequelize.literal(rankSql), "relevance"]);
+    if (distanceSql) extraAttributes.push([sequelize.literal(distanceSql), "distance"]);
+
+    // Execute query - filtering, counting and pagination happen in PostgreSQL
+    const { rows: jobs, count: total } = await Job.findAndCountAll({
       where,
+      attributes: extraAttributes.length > 0 ? { include: extraAttributes } : undefined,
       include: [
         {
           model: User,
@@ -181,45 +212,12 @@ class SearchService {
         },
       ],
       order,
+      limit,
+      offset: (page - 1) * limit,
     });
 
-    // Convert to plain objects
-    let plainJobs = jobs.map(job => job.toJSON());
-
-    // Apply location filter with normalization if provided (post-processing)
-    if (location) {
-      const normalizedSearchLocation = normalizeLocation(location);
-      plainJobs = plainJobs.filter((job: any) => {
-        if (!job.location) return false;
-        const normalizedJobLocation = normalizeLocation(job.location);
-        return normalizedJobLocation.includes(normalizedSearchLocation);
-      });
-    }
-
-    // Apply geolocation filtering if coordinates provided (post-processing)
-    if (latitude !== undefined && longitude !== undefined && maxDistance) {
-      plainJobs = plainJobs.filter((job: any) => {
-        if (!job.latitude || !job.longitude) return false;
-
-        const distance = this.calculateDistance(
-          latitude,
-          longitude,
-          job.latitude,
-          job.longitude
-        );
-
-        return distance <= maxDistance;
-      });
-    }
-
-    // Count after filtering
-    const total = plainJobs.length;
-
-    // Apply pagination after filtering
-    const paginatedJobs = plainJobs.slice((page - 1) * limit, page * limit);
-
     const result = {
-      jobs: paginatedJobs,
+      jobs: jobs.map(job => job.toJSON()),
       total,
       page,
       limit,
@@ -346,34 +344,6 @@ class SearchService {
     return Array.from(suggestions).slice(0, limit);
   }
 
-  /**
-   * Calculate distance between two coordinates using Haversine formula
-   */
-  private calculateDistance(
-    lat1: number,
-    lon1: number,
-    lat2: number,
-    lon2: number
-  ): number {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = this.toRadians(lat2 - lat1);
-    const dLon = this.toRadians(lon2 - lon1);
-
-    const a =
-      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-      Math.cos(this.toRadians(lat1)) *
-        Math.cos(this.toRadians(lat2)) *
-        Math.sin(dLon / 2) *
-        Math.sin(dLon / 2);
-
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    return R * c;
-  }
-
-  private toRadians(degrees: number): number {
-    return degrees * (Math.PI / 180);
-  }
-
   /**
    * Sort jobs array
    */
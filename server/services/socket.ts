@@ -5,9 +5,11 @@ import { config } from "../config/env";
 import { ChatMessage } from "../models/sql/ChatMessage.model.js";
 import { Conversation } from "../models/sql/Conversation.model.js";
 import { User } from "../models/sql/User.model.js";
-import { Notification } from "../models/sql/Notification.model.js";
-import fcmService from "./fcm";
-import emailService from "./email";
+import messageTemplates from "./messageTemplates.js";
+import jobTeamChat from "./jobTeamChat.js";
+import socketPresence from "./socketPresence.js";
+import { detectDevice, parsePresenceQuery } from "./presenceRules.js";
+import { createPostgresAdapter, type PostgresAdapterHandle } from "./socketPostgresAdapter.js";
 import { Op } from 'sequelize';
 
 // UUID validation regex
@@ -34,6 +36,8 @@ interface MessageData {
   fileUrl?: string;
   fileName?: string;
   fileSize?: number;
+  // Ids de miembros mencionados (chat de equipo); también se detectan @Nombre en el texto
+  mentions?: string[];
 }
 
 interface ReadReceiptData {
@@ -43,18 +47,36 @@ interface ReadReceiptData {
 
 export class SocketService {
   private io: Server;
-  private userSockets: Map<string, string> = new Map(); // userId -> socketId
+  // Con SOCKET_ADAPTER=postgres los eventos llegan a los sockets de todas las instancias
+  private cluster: PostgresAdapterHandle | null = null;
 
   constructor(httpServer: HTTPServer) {
+    if (config.socketAdapter === "postgres") {
+      this.cluster = createPostgresAdapter({
+        host: config.dbHost,
+        port: config.dbPort,
+        database: config.dbName,
+        user: config.dbUser,
+        password: config.dbPassword,
+        ssl: process.env.DB_SSL === "true" ? { rejectUnauthorized: false } : undefined,
+      });
+    }
+
     this.io = new Server(httpServer, {
       cors: {
         origin: config.clientUrl,
         credentials: true,
       },
+      ...(this.cluster ? { adapter: this.cluster.adapter } : {}),
     });
 
     this.setupMiddleware();
     this.setupEventHandlers();
+    // Solo avisa desconexiones: el último dispositivo que se va o instancias caídas
+    socketPresence.start(
+      () => [...this.io.sockets.sockets.keys()],
+      (userId, isOnline, lastSeenAt) => this.broadcastOnlineStatus(userId, isOnline, lastSeenAt)
+    );
   }
 
   private setupMiddleware() {
@@ -89,16 +111,26 @@ export class SocketService {
     this.io.on("connection", (socket: AuthenticatedSocket) => {
       console.log(`✅ User connected: ${socket.userId}`);
 
-      // Store user socket mapping
-      if (socket.userId) {
-        this.userSockets.set(socket.userId, socket.id);
-      }
-
-      // Join user's personal room
+      // Join user's personal room (one per user, shared by all their devices)
       socket.join(`user:${socket.userId}`);
 
-      // Send online status to contacts
-      this.broadcastOnlineStatus(socket.userId!, true);
+      // Track this device and send online status to contacts
+      const device = detectDevice(socket.handshake.auth.device, socket.handshake.headers["user-agent"]);
+      const presenceReady = socketPresence
+        .connect(socket.id, socket.userId!, device, socket.handshake.headers["user-agent"])
+        .then(() => this.broadcastOnlineStatus(socket.userId!, true))
+        .catch((error) => console.error("Presence connect error:", error));
+
+      // Handle presence queries (online status, devices and last seen of other users)
+      socket.on("presence:get", async (userIds: unknown, ack?: (presence: unknown) => void) => {
+        if (typeof ack !== "function") return;
+        try {
+          ack(await socketPresence.getPresence(parsePresenceQuery(userIds)));
+        } catch (error) {
+          console.error("Presence query error:", error);
+          ack([]);
+        }
+      });
 
       // Handle joining conversation rooms
       socket.on("join:conversation", async (conversationId: string) => {
@@ -138,8 +170,10 @@ export class SocketService {
       socket.on("disconnect", () => {
         console.log(`❌ User disconnected: ${socket.userId}`);
         if (socket.userId) {
-          this.userSockets.delete(socket.userId);
-          this.broadcastOnlineStatus(socket.userId, false);
+          // Offline is only broadcast when the user's last device is gone
+          presenceReady
+            .then(() => socketPresence.disconnect(socket.id, socket.userId!))
+            .catch((error) => console.error("Presence disconnect error:", error));
         }
       });
     });
@@ -195,7 +229,7 @@ export class SocketService {
 
   private async handleSendMessage(socket: AuthenticatedSocket, data: MessageData) {
     try {
-      const { conversationId, message, type = "text", fileUrl, fileName, fileSize } = data;
+      const { conversationId, message, type = "text", fileUrl, fileName, fileSize, mentions: explicitMentions } = data;
 
       // Verify conversation exists and user is participant
       const conversation = await Conversation.findByPk(conversationId);
@@ -216,6 +250,8 @@ export class SocketService {
         return;
       }
 
+      const mentions = await jobTeamChat.mentionsFor(conversation, senderId, message, explicitMentions);
+
       // Create message
       const chatMessage = await ChatMessage.create({
         conversationId,
@@ -225,6 +261,7 @@ export class SocketService {
         fileUrl,
         fileName,
         fileSize,
+        ...(mentions.length ? { metadata: { mentions } } : {}),
       });
 
       // Reload with sender data (include id for message alignment in frontend)
@@ -256,6 +293,10 @@ export class SocketService {
       // Broadcast message to all participants in the conversation
       this.io.to(`conversation:${conversationId}`).emit("message:new", chatMessage);
 
+      if (mentions.length) {
+        await jobTeamChat.notifyMentions(conversation, chatMessage, socket.user, mentions);
+      }
+
       // Send push notification to offline participants
       const otherParticipants = conversation.participants.filter(
         (p) => p.toString() !== socket.userId
@@ -270,7 +311,7 @@ export class SocketService {
           continue;
         }
 
-        const isOnline = this.userSockets.has(participantIdStr);
+        const isOnline = await socketPresence.isOnline(participantIdStr);
 
         // Notify unread count update to the recipient
         const participantConversations = await Conversation.findAll({
@@ -281,23 +322,14 @@ export class SocketService {
           attributes: ['id', 'unreadCount']
         });
 
-        const conversationIds = participantConversations.map(c => c.id);
-
-        const unreadCount = await ChatMessage.count({
-          where: {
-            conversationId: {
-              [Op.in]: conversationIds
-            },
-            senderId: { [Op.ne]: participantId },
-            read: false,
-          }
-        });
-
-        // Count conversations with unread messages for this user
+        // Unread messages and conversations for this user (per-member counts;
+        // the shared read flag does not apply to job team chats)
+        let unreadCount = 0;
         let unreadConversationsCount = 0;
         participantConversations.forEach((conv) => {
           const unreadMap = conv.unreadCount as Record<string, number> | null;
           const count = unreadMap?.[participantIdStr] || 0;
+          unreadCount += count;
           if (count > 0) {
             unreadConversationsCount++;
           }
@@ -306,35 +338,20 @@ export class SocketService {
         this.notifyUnreadMessagesUpdate(participantIdStr, unreadCount, unreadConversationsCount);
 
         if (!isOnline) {
-          // Create notification for offline user
-          await Notification.create({
-            recipientId: participantIdStr,
-            type: "info",
-            category: "chat",
-            title: "Nuevo mensaje",
-            message: `${socket.user.name}: ${message.substring(0, 100)}`,
-            data: {
-              conversationId,
-              senderId: socket.userId,
-            },
-            read: false,
+          // In-app + push + email; repeated messages in the same conversation are
+          // coalesced and quiet hours / digest preferences apply (see notificationDeliveryRules)
+          const recipient = await User.findByPk(participantIdStr, { attributes: ["name"] });
+          await messageTemplates.notify(participantIdStr, "chat.new_message", {
+            recipientName: recipient?.name || "",
+            senderName: socket.user.name,
+            messagePreview: message.substring(0, 100),
+            conversationId,
+          }, {
+            coalesceKey: `chat:${conversationId}`,
+            relatedModel: "Conversation",
+            relatedId: conversationId,
+            data: { conversationId, senderId: String(socket.userId) },
           });
-
-          // Send push notification
-          await fcmService.notifyNewMessage(
-            participantIdStr,
-            socket.user.name,
-            message.substring(0, 100),
-            conversationId
-          );
-
-          // Send email notification
-          await emailService.sendNewMessageNotification(
-            participantIdStr,
-            socket.user.name,
-            message.substring(0, 100),
-            conversationId
-          );
         }
       }
     } catch (error: any) {
@@ -371,6 +388,13 @@ export class SocketService {
         return;
       }
 
+      // In job team chats reading is tracked per member, not on the message
+      const conversation = await Conversation.findByPk(message.conversationId);
+      if (conversation?.type === 'job_team') {
+        if (conversation.isParticipant(socket.userId!)) await jobTeamChat.markRead(conversation, socket.userId!);
+        return;
+      }
+
       // Update message as read
       message.read = true;
       message.readAt = new Date();
@@ -392,30 +416,12 @@ export class SocketService {
     try {
       const conversation = await Conversation.findByPk(conversationId);
 
-      if (!conversation) {
+      if (!conversation || !conversation.isParticipant(socket.userId!)) {
         return;
       }
 
-      // Mark all unread messages as read
-      await ChatMessage.update(
-        {
-          read: true,
-          readAt: new Date(),
-        },
-        {
-          where: {
-            conversationId,
-            senderId: { [Op.ne]: socket.userId },
-            read: false,
-          }
-        }
-      );
-
-      // Reset unread count for this user
-      if (!conversation.unreadCount) conversation.unreadCount = {};
-      conversation.unreadCount[socket.userId!] = 0;
-      conversation.changed('unreadCount', true);
-      await conversation.save();
+      // Marks messages read (or, in job team chats, the member's last read) and resets the unread count
+      await jobTeamChat.markRead(conversation, socket.userId!);
 
       socket.emit("conversation:marked-read", { conversationId });
     } catch (error: any) {
@@ -423,10 +429,11 @@ export class SocketService {
     }
   }
 
-  private broadcastOnlineStatus(userId: string, isOnline: boolean) {
+  private broadcastOnlineStatus(userId: string, isOnline: boolean, lastSeenAt: Date = new Date()) {
     this.io.emit("user:status", {
       userId,
       isOnline,
+      lastSeenAt,
       timestamp: new Date(),
     });
   }
@@ -447,11 +454,9 @@ export class SocketService {
     }
   }
 
+  // Reaches every device of the user, on any server instance
   public async notifyUser(userId: string, event: string, data: any) {
-    const socketId = this.userSockets.get(userId);
-    if (socketId) {
-      this.io.to(socketId).emit(event, data);
-    }
+    this.io.to(`user:${userId}`).emit(event, data);
   }
 
   // Broadcast updates to specific users
@@ -604,6 +609,13 @@ export class SocketService {
   public getIO(): Server {
     return this.io;
   }
+
+  // Graceful shutdown: drop this instance's devices from presence and close the adapter
+  public async shutdown() {
+    await socketPresence.shutdown().catch((error) => console.error("Presence shutdown error:", error));
+    await new Promise<void>((resolve) => this.io.close(() => resolve()));
+    await this.cluster?.close();
+  }
 }
 
 // Singleton instance for global access
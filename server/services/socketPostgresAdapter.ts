@@ -0,0 +1,231 @@
+/**
+ * Socket.IO Postgres Adapter
+ *
+ * Adapter de Socket.IO para varias instancias del servidor sobre
+ * LISTEN/NOTIFY de PostgreSQL (la base que ya usa la app, sin Redis):
+ *
+ * - Cada namespace publica en el canal `socket_io#<namespace>` los mensajes
+ *   del cluster (broadcasts, join/leave de rooms, fetchSockets,
+ *   serverSideEmit, heartbeats); las respuestas van al mismo canal con el
+ *   uid de la instancia que preguntó
+ * - NOTIFY admite hasta 8000 bytes: los mensajes más grandes se guardan en
+ *   socket_io_attachments y se publica solo su id (se borran a los 30 s)
+ * - Una conexión LISTEN por proceso (se reconecta sola) y un pool chico para
+ *   publicar
+ *
+ * Con `io.to(room).emit()` desde cualquier instancia (getIO(), notifyUser,
+ * broadcastToUser) el evento llega a los sockets de todas.
+ */
+
+import pg from 'pg';
+import {
+  ClusterAdapterWithHeartbeat,
+  type ClusterAdapterOptions,
+  type ClusterMessage,
+  type ClusterResponse,
+  type Offset,
+} from 'socket.io-adapter';
+
+const CHANNEL_PREFIX = 'socket_io';
+// Margen bajo el límite de 8000 bytes de NOTIFY para el nombre del canal
+const MAX_NOTIFY_BYTES = 7500;
+const ATTACHMENT_TTL_SECONDS = 30;
+const RECONNECT_DELAY_MS = 2000;
+
+/** Lo que viaja en el NOTIFY: el mensaje, o el id del attachment que lo guarda. */
+export interface Envelope {
+  // uid de la instancia destino (solo respuestas)
+  to?: string;
+  message?: ClusterMessage | ClusterResponse;
+  attachmentId?: string;
+}
+
+/** JSON con los Buffers de los paquetes binarios restaurados al leer. */
+export function encodeMessage(message: ClusterMessage | ClusterResponse): string {
+  return JSON.stringify(message);
+}
+
+const reviveBuffers = (_key: string, value: any) =>
+  value && value.type === 'Buffer' && Array.isArray(value.data) ? Buffer.from(value.data) : value;
+
+export function decodeMessage(text: string): ClusterMessage | ClusterResponse {
+  return JSON.parse(text, reviveBuffers);
+}
+
+/** NOTIFY del mensaje si entra; si no, null (va por socket_io_attachments). */
+export function buildEnvelope(message: ClusterMessage | ClusterResponse, to?: string): string | null {
+  const payload = `{"to":${JSON.stringify(to ?? null)},"message":${encodeMessage(message)}}`;
+  return Buffer.byteLength(payload) <= MAX_NOTIFY_BYTES ? payload : null;
+}
+
+export function parseEnvelope(payload: string): Envelope {
+  const envelope = JSON.parse(payload, reviveBuffers);
+  return {
+    ...(envelope.to ? { to: String(envelope.to) } : {}),
+    ...(envelope.attachmentId ? { attachmentId: String(envelope.attachmentId) } : {}),
+    ...(envelope.message ? { message: envelope.message } : {}),
+  };
+}
+
+type Handler = (envelope: Envelope) => void;
+
+/** Conexión LISTEN compartida por los namespaces del proceso, más el pool para publicar. */
+class PostgresPubSub {
+  private listener: pg.Client | null = null;
+  private readonly pool: pg.Pool;
+  private readonly handlers = new Map<string, Set<Handler>>();
+  private cleanupTimer: NodeJS.Timeout;
+  private closed = false;
+
+  constructor(private readonly connection: pg.ClientConfig) {
+    this.pool = new pg.Pool({ ...connection, max: 2 });
+    this.pool.on('error', (error) => console.error('Socket adapter pool error:', error.message));
+    this.cleanupTimer = setInterval(() => {
+      this.pool
+        .query(`DELETE FROM socket_io_attachments WHERE created_at < now() - interval '${ATTACHMENT_TTL_SECONDS} seconds'`)
+        .catch((error) => console.error('Socket adapter cleanup error:', error.message));
+    }, ATTACHMENT_TTL_SECONDS * 1000);
+    this.cleanupTimer.unref();
+    void this.connect();
+  }
+
+  private async connect(): Promise<void> {
+    if (this.closed) return;
+    const client = new pg.Client(this.connection);
+    client.on('notification', ({ channel, payload }) => {
+      if (payload) void this.dispatch(channel, payload);
+    });
+    client.on('error', (error) => {
+      console.error('Socket adapter LISTEN error:', error.message);
+      this.reconnect(client);
+    });
+    client.on('end', () => this.reconnect(client));
+
+    try {
+      await client.connect();
+      for (const channel of this.handlers.keys()) {
+        await client.query(`LISTEN ${client.escapeIdentifier(channel)}`);
+      }
+      this.listener = client;
+    } catch (error) {
+      console.error('Socket adapter could not LISTEN:', (error as Error).message);
+      this.reconnect(client);
+    }
+  }
+
+  private reconnect(client: pg.Client): void {
+    if (this.listener && this.listener !== client) return;
+    this.listener = null;
+    client.removeAllListeners();
+    client.end().catch(() => {});
+    if (!this.closed) setTimeout(() => void this.connect(), RECONNECT_DELAY_MS).unref();
+  }
+
+  private async dispatch(channel: string, payload: string): Promise<void> {
+    const handlers = this.handlers.get(channel);
+    if (!handlers?.size) return;
+    try {
+      const envelope = parseEnvelope(payload);
+      if (envelope.attachmentId) {
+        const { rows } = await this.pool.query('SELECT payload FROM socket_io_attachments WHERE id = $1', [envelope.attachmentId]);
+        if (!rows[0]) return;
+        envelope.message = decodeMessage(rows[0].payload);
+      }
+      for (const handler of handlers) handler(envelope);
+    } catch (error) {
+      console.error('Socket adapter could not read message:', (error as Error).message);
+    }
+  }
+
+  subscribe(channel: string, handler: Handler): () => void {
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      this.listener?.query(`LISTEN ${this.listener.escapeIdentifier(channel)}`).catch((error) => {
+        console.error('Socket adapter could not LISTEN:', error.message);
+      });
+    }
+    handlers.add(handler);
+    return () => {
+      handlers!.delete(handler);
+    };
+  }
+
+  async publish(channel: string, message: ClusterMessage | ClusterResponse, to?: string): Promise<void> {
+    let payload = buildEnvelope(message, to);
+    if (!payload) {
+      const { rows } = await this.pool.query(
+        'INSERT INTO socket_io_attachments (payload) VALUES ($1) RETURNING id',
+        [encodeMessage(message)]
+      );
+      payload = JSON.stringify({ to: to ?? null, attachmentId: String(rows[0].id) });
+    }
+    await this.pool.query('SELECT pg_notify($1, $2)', [channel, payload]);
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    clearInterval(this.cleanupTimer);
+    const listener = this.listener;
+    this.listener = null;
+    listener?.removeAllListeners();
+    await Promise.allSettled([listener?.end(), this.pool.end()]);
+  }
+}
+
+class PostgresAdapter extends ClusterAdapterWithHeartbeat {
+  private readonly channel: string;
+  private readonly unsubscribe: () => void;
+
+  constructor(nsp: any, private readonly pubsub: PostgresPubSub, opts: ClusterAdapterOptions) {
+    super(nsp, opts);
+    this.channel = `${CHANNEL_PREFIX}#${nsp.name}`;
+    this.unsubscribe = pubsub.subscribe(this.channel, (envelope) => this.onEnvelope(envelope));
+  }
+
+  private onEnvelope({ to, message }: Envelope): void {
+    if (!message || message.uid === this.uid) return;
+    if (to) {
+      if (to === this.uid) this.onResponse(message as ClusterResponse);
+      return;
+    }
+    this.onMessage(message as ClusterMessage);
+  }
+
+  protected async doPublish(message: ClusterMessage): Promise<Offset> {
+    await this.pubsub.publish(this.channel, message);
+    return '';
+  }
+
+  protected async doPublishResponse(requesterUid: string, response: ClusterResponse): Promise<void> {
+    await this.pubsub.publish(this.channel, response, requesterUid);
+  }
+
+  close(): void {
+    super.close();
+    this.unsubscribe();
+  }
+}
+
+export interface PostgresAdapterHandle {
+  adapter: (nsp: any) => PostgresAdapter;
+  close: () => Promise<void>;
+}
+
+/**
+ * Adapter para `new Server(httpServer, { adapter })`. `close()` corta la
+ * conexión LISTEN y el pool al apagar el servidor.
+ */
+export function createPostgresAdapter(connection: pg.ClientConfig, opts: ClusterAdapterOptions = {}): PostgresAdapterHandle {
+  const pubsub = new PostgresPubSub(connection);
+  return {
+    // Socket.IO lo invoca con `new`: tiene que ser una function, no una arrow
+    adapter: function (nsp: any) {
+      const adapter = new PostgresAdapter(nsp, pubsub, opts);
+      adapter.init();
+      return adapter;
+    },
+    close: () => pubsub.close(),
+  };
+}
@@ -0,0 +1,141 @@
+/**
+ * Socket Presence Service
+ *
+ * Presencia por dispositivo compartida entre instancias (reglas en
+ * presenceRules.ts). Cada instancia:
+ *
+ * - registra sus sockets en socket_presence al conectar y los borra al
+ *   desconectar; si era el último dispositivo del usuario guarda
+ *   User.lastActivity y avisa "desconectado"
+ * - renueva lastSeenAt de sus sockets cada HEARTBEAT_INTERVAL_MS y descarta
+ *   las filas vencidas de instancias caídas (avisando a quienes quedaron sin
+ *   dispositivos)
+ *
+ * Los avisos salen por el adapter de Socket.IO, así que llegan a todas las
+ * instancias.
+ */
+
+import { randomUUID } from 'crypto';
+import { Op } from 'sequelize';
+import { SocketPresence } from '../models/sql/SocketPresence.model.js';
+import { User } from '../models/sql/User.model.js';
+import {
+  HEARTBEAT_INTERVAL_MS,
+  STALE_AFTER_MS,
+  summarizePresence,
+  type DeviceType,
+  type UserPresence,
+} from './presenceRules.js';
+
+type StatusListener = (userId: string, isOnline: boolean, lastSeenAt: Date) => void;
+
+class SocketPresenceService {
+  // Identifica a esta instancia en socket_presence
+  readonly serverId = randomUUID();
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private liveSocketIds: () => string[] = () => [];
+  private onStatus: StatusListener = () => {};
+
+  /**
+   * Empieza el heartbeat. `liveSocketIds` son los sockets conectados a esta
+   * instancia; `onStatus` recibe los cambios en línea/desconectado a avisar.
+   */
+  start(liveSocketIds: () => string[], onStatus: StatusListener): void {
+    this.liveSocketIds = liveSocketIds;
+    this.onStatus = onStatus;
+    if (this.heartbeatTimer) return;
+    this.heartbeatTimer = setInterval(() => {
+      this.heartbeat().catch((error) => console.error('Presence heartbeat error:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  /** Registra el socket (un dispositivo más del usuario). */
+  async connect(socketId: string, userId: string, device: DeviceType, userAgent?: string | null): Promise<void> {
+    const now = new Date();
+    await SocketPresence.upsert({
+      socketId,
+      userId,
+      serverId: this.serverId,
+      device,
+      userAgent: userAgent ? userAgent.slice(0, 300) : null,
+      connectedAt: now,
+      lastSeenAt: now,
+    });
+  }
+
+  /** Borra el socket. Si era el último dispositivo del usuario, lo marca desconectado. */
+  async disconnect(socketId: string, userId: string): Promise<void> {
+    await SocketPresence.destroy({ where: { socketId } });
+    await this.markOfflineIfGone([userId]);
+  }
+
+  /** ¿El usuario tiene algún dispositivo conectado en cualquier instancia? */
+  async isOnline(userId: string): Promise<boolean> {
+    return (await this.freshDeviceCount(userId, new Date())) > 0;
+  }
+
+  async getPresence(userIds: string[]): Promise<UserPresence[]> {
+    if (userIds.length === 0) return [];
+    const now = new Date();
+    const [rows, users] = await Promise.all([
+      SocketPresence.findAll({
+        where: { userId: { [Op.in]: userIds }, lastSeenAt: { [Op.gt]: new Date(now.getTime() - STALE_AFTER_MS) } },
+        attributes: ['userId', 'device', 'lastSeenAt'],
+      }),
+      User.findAll({ where: { id: { [Op.in]: userIds } }, attributes: ['id', 'lastActivity'] }),
+    ]);
+    return summarizePresence(
+      userIds.filter((id) => users.some((user) => user.id === id)),
+      rows,
+      new Map(users.map((user) => [user.id, user.lastActivity])),
+      now
+    );
+  }
+
+  /**
+   * Renueva los sockets conectados a esta instancia y descarta las filas
+   * vencidas (instancias caídas o desconexiones que no se pudieron borrar).
+   */
+  async heartbeat(now = new Date()): Promise<void> {
+    const live = this.liveSocketIds();
+    if (live.length > 0) {
+      await SocketPresence.update({ lastSeenAt: now }, { where: { serverId: this.serverId, socketId: { [Op.in]: live } } });
+    }
+    const stale = await SocketPresence.findAll({
+      where: { lastSeenAt: { [Op.lt]: new Date(now.getTime() - STALE_AFTER_MS) } },
+      attributes: ['socketId', 'userId'],
+    });
+    if (stale.length === 0) return;
+    // Otra instancia puede estar descartando las mismas filas: avisa solo la que las borra
+    const deleted = await SocketPresence.destroy({ where: { socketId: { [Op.in]: stale.map((row) => row.socketId) } } });
+    if (deleted > 0) await this.markOfflineIfGone([...new Set(stale.map((row) => row.userId))]);
+  }
+
+  /** Al apagar la instancia: borra sus sockets y avisa a quienes quedaron sin dispositivos. */
+  async shutdown(): Promise<void> {
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.heartbeatTimer = null;
+    const rows = await SocketPresence.findAll({ where: { serverId: this.serverId }, attributes: ['userId'] });
+    await SocketPresence.destroy({ where: { serverId: this.serverId } });
+    await this.markOfflineIfGone([...new Set(rows.map((row) => row.userId))]);
+  }
+
+  private async freshDeviceCount(userId: string, now: Date): Promise<number> {
+    return SocketPresence.count({
+      where: { userId, lastSeenAt: { [Op.gt]: new Date(now.getTime() - STALE_AFTER_MS) } },
+    });
+  }
+
+  private async markOfflineIfGone(userIds: string[]): Promise<void> {
+    const now = new Date();
+    for (const userId of userIds) {
+      if ((await this.freshDeviceCount(userId, now)) > 0) continue;
+      await User.update({ lastActivity: now }, { where: { id: userId } });
+      this.onStatus(userId, false, now);
+    }
+  }
+}
+
+const socketPresence = new SocketPresenceService();
+export default socketPresence;
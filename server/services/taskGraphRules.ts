@@ -0,0 +1,280 @@
+/**
+ * Task Graph Rules
+ *
+ * Dependencias entre tareas de un trabajo como grafo dirigido acíclico y
+ * cálculo del camino crítico para la vista Gantt.
+ *
+ * - `prerequisiteTaskIds` en JobTask define los prerrequisitos explícitos.
+ *   Mientras sea null rige la regla anterior: la tarea anterior por
+ *   orderIndex (requiresPreviousCompletion) y/o dependsOnTaskId.
+ * - Una tarea no puede pasar a en curso ni a completada mientras tenga
+ *   prerrequisitos sin completar.
+ * - La planificación usa `estimatedDays` (1 día si no se estimó). Lo
+ *   completado queda en su fecha real, lo pendiente no empieza antes de hoy.
+ *   Las tareas sin holgura forman el camino crítico y la última en terminar
+ *   da la fecha de finalización proyectada.
+ *
+ * Módulo puro; la persistencia vive en routes/tasks.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+
+export const DEFAULT_TASK_DAYS = 1;
+export const MAX_TASK_DAYS = 365;
+export const MAX_PREREQUISITES = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskNode {
+  id: string;
+  title?: string;
+  orderIndex: number;
+  status: 'pending' | 'in_progress' | 'completed';
+  requiresPreviousCompletion?: boolean | null;
+  dependsOnTaskId?: string | null;
+  prerequisiteTaskIds?: string[] | null;
+  estimatedDays?: number | string | null;
+  startedAt?: Date | string | null;
+  completedAt?: Date | string | null;
+}
+
+export interface TaskScheduleEntry {
+  plannedStart: Date;
+  plannedFinish: Date;
+  slackDays: number;
+  isCritical: boolean;
+}
+
+export interface TaskSchedule {
+  tasks: Record<string, TaskScheduleEntry>;
+  criticalPath: string[];
+  projectedCompletion: Date | null;
+}
+
+/**
+ * Prerrequisitos efectivos de una tarea: los explícitos o, si nunca se
+ * definieron, los de la regla secuencial anterior. Ignora ids de tareas que
+ * ya no existen.
+ */
+export function prerequisitesOf(task: TaskNode, tasks: TaskNode[]): string[] {
+  const ids = new Set(tasks.map((other) => other.id));
+  if (Array.isArray(task.prerequisiteTaskIds)) {
+    return [...new Set(task.prerequisiteTaskIds)].filter((id) => id !== task.id && ids.has(id));
+  }
+
+  const legacy: string[] = [];
+  if (task.requiresPreviousCompletion !== false && task.orderIndex > 0) {
+    const previous = tasks.find((other) => other.orderIndex === task.orderIndex - 1);
+    if (previous) legacy.push(previous.id);
+  }
+  if (task.dependsOnTaskId && ids.has(task.dependsOnTaskId) && !legacy.includes(task.dependsOnTaskId)) {
+    legacy.push(task.dependsOnTaskId);
+  }
+  return legacy.filter((id) => id !== task.id);
+}
+
+/**
+ * Prerrequisitos todavía sin completar (vacío = la tarea está desbloqueada).
+ */
+export function blockingPrerequisites(task: TaskNode, tasks: TaskNode[]): TaskNode[] {
+  const byId = new Map(tasks.map((other) => [other.id, other]));
+  return prerequisitesOf(task, tasks)
+    .map((id) => byId.get(id)!)
+    .filter((prerequisite) => prerequisite.status !== 'completed');
+}
+
+/**
+ * Un ciclo del grafo como lista de ids (el primero se repite al final), o
+ * null si el grafo es acíclico.
+ */
+export function findCycle(tasks: TaskNode[]): string[] | null {
+  const edges = new Map(tasks.map((task) => [task.id, prerequisitesOf(task, tasks)]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const next of edges.get(id) || []) {
+      if (state.get(next) === 'visiting') return [...stack.slice(stack.indexOf(next)), next];
+      if (!state.has(next)) {
+        const cycle = visit(next);
+        if (cycle) return cycle;
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const task of [...tasks].sort((a, b) => a.orderIndex - b.orderIndex)) {
+    if (!state.has(task.id)) {
+      const cycle = visit(task.id);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Lanza 400 si el grafo tiene un ciclo, nombrando las tareas involucradas.
+ * Se valida con los cambios ya aplicados en memoria, antes de guardar.
+ */
+export function assertAcyclic(tasks: TaskNode[]): void {
+  const cycle = findCycle(tasks);
+  if (!cycle) return;
+  const titles = new Map(tasks.map((task) => [task.id, task.title || task.id]));
+  // findCycle sigue aristas tarea → prerrequisito; se muestra en orden de ejecución
+  const path = [...cycle].reverse().map((id) => `"${titles.get(id)}"`).join(' → ');
+  throw new ErrorResponse(`Las dependencias forman un ciclo: ${path}`, 400);
+}
+
+/**
+ * Valida los campos de planificación que llegan en el body. Solo devuelve
+ * los presentes; null borra el valor.
+ */
+export function parseTaskPlanning(
+  body: Record<string, any>,
+  taskId: string | null,
+  taskIds: string[]
+): { prerequisiteTaskIds?: string[] | null; estimatedDays?: number | null } {
+  const patch: { prerequisiteTaskIds?: string[] | null; estimatedDays?: number | null } = {};
+
+  if (body.prerequisiteTaskIds !== undefined) {
+    const input = body.prerequisiteTaskIds;
+    if (input === null) {
+      patch.prerequisiteTaskIds = null;
+    } else {
+      if (!Array.isArray(input) || input.some((id) => typeof id !== 'string')) {
+        throw new ErrorResponse('prerequisiteTaskIds debe ser una lista de ids de tareas', 400);
+      }
+      const ids = [...new Set(input as string[])];
+      if (ids.length > MAX_PREREQUISITES) {
+        throw new ErrorResponse(`Una tarea admite hasta ${MAX_PREREQUISITES} prerrequisitos`, 400);
+      }
+      if (taskId && ids.includes(taskId)) {
+        throw new ErrorResponse('Una tarea no puede depender de sí misma', 400);
+      }
+      if (ids.some((id) => !taskIds.includes(id))) {
+        throw new ErrorResponse('Algunos prerrequisitos no pertenecen a este trabajo', 400);
+      }
+      patch.prerequisiteTaskIds = ids;
+    }
+  }
+
+  if (body.estimatedDays !== undefined) {
+    if (body.estimatedDays === null || body.estimatedDays === '') {
+      patch.estimatedDays = null;
+    } else {
+      const days = Number(body.estimatedDays);
+      if (!Number.isFinite(days) || days <= 0 || days > MAX_TASK_DAYS) {
+        throw new ErrorResponse(`estimatedDays debe ser mayor a 0 y hasta ${MAX_TASK_DAYS}`, 400);
+      }
+      patch.estimatedDays = Math.round(days * 100) / 100;
+    }
+  }
+
+  return patch;
+}
+
+function toTime(value: Date | string | null | undefined): number | null {
+  if (!value) return null;
+  const time = new Date(value).getTime();
+  return Number.isNaN(time) ? null : time;
+}
+
+function durationOf(task: TaskNode): number {
+  const days = Number(task.estimatedDays);
+  return (Number.isFinite(days) && days > 0 ? days : DEFAULT_TASK_DAYS) * DAY_MS;
+}
+
+/**
+ * Orden topológico (prerrequisitos primero, desempata por orderIndex).
+ * Asume un grafo acíclico.
+ */
+export function topologicalOrder(tasks: TaskNode[]): TaskNode[] {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  const pending = new Map(tasks.map((task) => [task.id, prerequisitesOf(task, tasks).length]));
+  const dependents = new Map<string, string[]>(tasks.map((task) => [task.id, []]));
+  for (const task of tasks) {
+    for (const id of prerequisitesOf(task, tasks)) dependents.get(id)!.push(task.id);
+  }
+
+  const ready = tasks.filter((task) => pending.get(task.id) === 0);
+  const ordered: TaskNode[] = [];
+  while (ready.length > 0) {
+    ready.sort((a, b) => a.orderIndex - b.orderIndex);
+    const task = ready.shift()!;
+    ordered.push(task);
+    for (const id of dependents.get(task.id)!) {
+      pending.set(id, pending.get(id)! - 1);
+      if (pending.get(id) === 0) ready.push(byId.get(id)!);
+    }
+  }
+  return ordered;
+}
+
+/**
+ * Planificación del trabajo (método del camino crítico) a partir del
+ * inicio del trabajo y de hoy.
+ */
+export function scheduleTasks(tasks: TaskNode[], options: { startDate?: Date | string | null; now?: Date } = {}): TaskSchedule {
+  const now = (options.now || new Date()).getTime();
+  const anchor = toTime(options.startDate) ?? now;
+  const ordered = topologicalOrder(tasks);
+  const prerequisites = new Map(tasks.map((task) => [task.id, prerequisitesOf(task, tasks)]));
+
+  // Pasada hacia adelante: inicio y fin de cada tarea
+  const start = new Map<string, number>();
+  const finish = new Map<string, number>();
+  for (const task of ordered) {
+    const ready = Math.max(anchor, ...prerequisites.get(task.id)!.map((id) => finish.get(id)!));
+    const duration = durationOf(task);
+    const startedAt = toTime(task.startedAt);
+    const completedAt = toTime(task.completedAt);
+
+    if (task.status === 'completed' && completedAt !== null) {
+      start.set(task.id, Math.min(startedAt ?? completedAt - duration, completedAt));
+      finish.set(task.id, completedAt);
+    } else if (task.status === 'in_progress') {
+      const begun = startedAt ?? now;
+      start.set(task.id, begun);
+      finish.set(task.id, Math.max(begun + duration, now));
+    } else {
+      const begin = Math.max(ready, now);
+      start.set(task.id, begin);
+      finish.set(task.id, begin + duration);
+    }
+  }
+
+  if (ordered.length === 0) return { tasks: {}, criticalPath: [], projectedCompletion: null };
+  const projectEnd = Math.max(...ordered.map((task) => finish.get(task.id)!));
+
+  // Pasada hacia atrás: lo más tarde que puede terminar cada tarea sin mover el fin
+  const latestFinish = new Map<string, number>();
+  for (const task of [...ordered].reverse()) {
+    latestFinish.set(task.id, latestFinish.get(task.id) ?? projectEnd);
+    const latestStart = latestFinish.get(task.id)! - (finish.get(task.id)! - start.get(task.id)!);
+    for (const id of prerequisites.get(task.id)!) {
+      latestFinish.set(id, Math.min(latestFinish.get(id) ?? projectEnd, latestStart));
+    }
+  }
+
+  const entries: Record<string, TaskScheduleEntry> = {};
+  for (const task of ordered) {
+    const slack = Math.max(0, latestFinish.get(task.id)! - finish.get(task.id)!);
+    entries[task.id] = {
+      plannedStart: new Date(start.get(task.id)!),
+      plannedFinish: new Date(finish.get(task.id)!),
+      slackDays: Math.round((slack / DAY_MS) * 100) / 100,
+      // Lo ya completado no puede atrasar el trabajo
+      isCritical: task.status !== 'completed' && slack < 60 * 1000,
+    };
+  }
+
+  return {
+    tasks: entries,
+    criticalPath: ordered.filter((task) => entries[task.id].isCritical).map((task) => task.id),
+    projectedCompletion: new Date(projectEnd),
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Team Chat Rules
+ *
+ * Conversación grupal de un trabajo con varios trabajadores (type 'job_team'):
+ *
+ * - Miembros: el cliente más todos los trabajadores seleccionados; se
+ *   sincronizan cuando se aprueba, reasigna o remueve un trabajador
+ * - No leídos por miembro (unreadCount) y lectura por miembro (lastReadAt):
+ *   un mensaje está "visto" por quien leyó la conversación después de que se
+ *   envió, y se muestra como "Visto por X de Y"
+ * - Menciones: @Nombre, @todos o ids explícitos, siempre entre los miembros
+ * - Anuncios de tareas del cliente, fijados arriba (hasta MAX_PINNED)
+ *
+ * Módulo puro; la conversación, los avisos y los sockets están en
+ * jobTeamChat.ts.
+ */
+
+import { ErrorResponse } from '../middleware/errorHandler.js';
+
+export const MAX_PINNED = 5;
+export const MAX_ANNOUNCEMENT_LENGTH = 2000;
+export const MENTION_ALL = ['todos', 'all'];
+
+export interface TeamMember {
+  id: string;
+  name: string;
+}
+
+export interface SeenSummary {
+  seenBy: string[];
+  total: number;
+}
+
+/** El trabajo necesita chat de equipo si admite o ya tiene más de un trabajador. */
+export function needsTeamChat(job: { maxWorkers?: number | null; selectedWorkers?: string[] | null }): boolean {
+  return (job.maxWorkers || 1) > 1 || (job.selectedWorkers?.length || 0) > 1;
+}
+
+/** Cliente primero y después los trabajadores, sin repetir. */
+export function teamMembers(clientId: string, workerIds: string[] | null | undefined): string[] {
+  return [...new Set([clientId, ...(workerIds || [])].filter(Boolean))];
+}
+
+export function diffMembers(current: string[], desired: string[]): { joined: string[]; left: string[] } {
+  return {
+    joined: desired.filter((id) => !current.includes(id)),
+    left: current.filter((id) => !desired.includes(id)),
+  };
+}
+
+/** Suma un no leído a cada participante menos al que envía. */
+export function bumpUnread(
+  unread: Record<string, number> | null | undefined,
+  participants: string[],
+  senderId: string
+): Record<string, number> {
+  const next = { ...(unread || {}) };
+  for (const id of participants) {
+    if (id !== senderId) next[id] = (next[id] || 0) + 1;
+  }
+  return next;
+}
+
+/** Saca de los mapas por miembro (unreadCount, lastReadAt) a quienes dejaron el equipo. */
+export function withoutMembers<T>(map: Record<string, T> | null | undefined, left: string[]): Record<string, T> {
+  return Object.fromEntries(Object.entries(map || {}).filter(([id]) => !left.includes(id)));
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Miembros mencionados en el texto (@Nombre completo, @Nombre o @todos) o
+ * pasados explícitamente por el cliente. Nunca incluye al que envía ni a
+ * quien no es miembro.
+ */
+export function resolveMentions(text: string, members: TeamMember[], senderId: string, explicit?: unknown): string[] {
+  const others = members.filter((member) => member.id !== senderId);
+  const mentioned = new Set<string>();
+  const tag = (word: string) => new RegExp(`(^|\\s)@${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`, 'iu');
+
+  if (MENTION_ALL.some((word) => tag(word).test(text))) {
+    others.forEach((member) => mentioned.add(member.id));
+  }
+  for (const member of others) {
+    const name = member.name.trim();
+    if (!name) continue;
+    const firstName = name.split(/\s+/)[0];
+    if (tag(name).test(text) || tag(firstName).test(text)) mentioned.add(member.id);
+  }
+  if (Array.isArray(explicit)) {
+    for (const id of explicit) {
+      if (others.some((member) => member.id === id)) mentioned.add(id);
+    }
+  }
+  return others.filter((member) => mentioned.has(member.id)).map((member) => member.id);
+}
+
+/**
+ * "Visto por X de Y": miembros (sin contar al que envió) que leyeron la
+ * conversación después del mensaje.
+ */
+export function seenSummary(
+  message: { senderId: string; createdAt: Date | string },
+  participants: string[],
+  lastReadAt: Record<string, string> | null | undefined
+): SeenSummary {
+  const sentAt = new Date(message.createdAt).getTime();
+  const others = participants.filter((id) => id !== message.senderId);
+  return {
+    seenBy: others.filter((id) => {
+      const readAt = lastReadAt?.[id];
+      return !!readAt && new Date(readAt).getTime() >= sentAt;
+    }),
+    total: others.length,
+  };
+}
+
+/** Fija el mensaje arriba de todo; los más viejos salen pasado MAX_PINNED. */
+export function pinMessage(pinned: string[] | null | undefined, messageId: string): string[] {
+  return [messageId, ...(pinned || []).filter((id) => id !== messageId)].slice(0, MAX_PINNED);
+}
+
+export function unpinMessage(pinned: string[] | null | undefined, messageId: string): string[] {
+  return (pinned || []).filter((id) => id !== messageId);
+}
+
+/** Valida el texto de un anuncio del cliente. */
+export function parseAnnouncement(input: { message?: unknown; taskId?: unknown }): { message: string; taskId: string | null } {
+  const message = typeof input.message === 'string' ? input.message.trim() : '';
+  if (!message) throw new ErrorResponse('El anuncio no puede estar vacío', 400);
+  if (message.length > MAX_ANNOUNCEMENT_LENGTH) {
+    throw new ErrorResponse(`El anuncio no puede superar los ${MAX_ANNOUNCEMENT_LENGTH} caracteres`, 400);
+  }
+  const taskId = typeof input.taskId === 'string' && input.taskId ? input.taskId : null;
+  return { message, taskId };
+}
@@ -0,0 +1,312 @@
+/**
+ * Webhook Inbox Service
+ *
+ * Toda notificación de pago (MercadoPago, AstroPay, PayPal) pasa por aquí:
+ *
+ * 1. receive(): se persiste en `webhook_events` antes de responder 200. Un
+ *    reintento del proveedor con el mismo id cae en la misma fila (índice único
+ *    provider + externalEventId) y solo suma `duplicateCount`.
+ * 2. process(): toma el evento con un UPDATE condicional (solo un worker puede
+ *    pasarlo a 'processing') y ejecuta el processor registrado por la ruta del
+ *    proveedor. Un evento 'processed' no se vuelve a ejecutar.
+ * 3. retryDue(): el job retryWebhookEvents reintenta los fallidos con backoff
+ *    exponencial y rescata los que quedaron colgados en 'processing'.
+ * 4. replay(): un admin puede volver a ejecutar cualquier evento manualmente.
+ *
+ * Los processors deben ser idempotentes respecto del estado de negocio
+ * (p. ej. el ledger usa idempotencyKey), ya que un replay vuelve a ejecutarlos.
+ */
+
+import crypto from 'crypto';
+import { Op, type WhereOptions } from 'sequelize';
+import { sequelize } from '../config/database.js';
+import { WebhookEvent } from '../models/sql/WebhookEvent.model.js';
+import logger from './logger.js';
+import { ErrorResponse } from '../middleware/errorHandler.js';
+import {
+  PROCESSING_TIMEOUT_MS,
+  externalEventId,
+  retryDelayMs,
+  statusAfterFailure,
+  webhookEventType,
+  type WebhookEventStatus,
+  type WebhookProvider,
+  type WebhookSignatureStatus,
+} from './webhookInboxRules.js';
+
+export type WebhookProcessor = (event: WebhookEvent) => Promise<void>;
+
+// Headers que se guardan con el evento (necesarios para re-verificar o depurar)
+const STORED_HEADERS = [
+  'x-signature',
+  'x-request-id',
+  'merchant-gateway-signature',
+  'x-astropay-signature',
+  'paypal-transmission-id',
+  'paypal-transmission-time',
+  'user-agent',
+  'content-type',
+];
+
+// Un evento 'pending' que nadie tomó en este tiempo (p. ej. el proceso se
+// reinició después de guardarlo) lo retoma el job de reintentos
+const ORPHAN_PENDING_MS = 2 * 60 * 1000;
+
+interface ReceiveInput {
+  provider: WebhookProvider;
+  payload: Record<string, any>;
+  headers?: Record<string, string | string[] | undefined>;
+  signatureStatus: WebhookSignatureStatus;
+  ip?: string | null;
+}
+
+interface ListFilters {
+  provider?: WebhookProvider;
+  status?: WebhookEventStatus;
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
+function pickHeaders(headers: ReceiveInput['headers'] = {}): Record<string, string> {
+  const stored: Record<string, string> = {};
+  for (const name of STORED_HEADERS) {
+    const value = headers[name];
+    if (value !== undefined) stored[name] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return stored;
+}
+
+class WebhookInboxService {
+  private processors = new Map<WebhookProvider, WebhookProcessor>();
+
+  /**
+   * Registra el handler de un proveedor. Lo llaman los módulos de rutas al cargarse.
+   */
+  registerProcessor(provider: WebhookProvider, processor: WebhookProcessor): void {
+    this.processors.set(provider, processor);
+  }
+
+  /**
+   * Persiste una notificación entrante. Devuelve `duplicate: true` si el
+   * evento ya estaba en el inbox (el caller no debe procesarlo otra vez).
+   */
+  async receive(input: ReceiveInput): Promise<{ event: WebhookEvent; duplicate: boolean }> {
+    const headers = pickHeaders(input.headers);
+    const eventId =
+      externalEventId(input.provider, input.payload, input.headers) ||
+      `sha256:${crypto.createHash('sha256').update(JSON.stringify(input.payload)).digest('hex')}`;
+    const status: WebhookEventStatus = input.signatureStatus === 'invalid' ? 'rejected' : 'pending';
+
+    const [event, created] = await WebhookEvent.findOrCreate({
+      where: { provider: input.provider, externalEventId: eventId },
+      defaults: {
+        provider: input.provider,
+        externalEventId: eventId,
+        eventType: webhookEventType(input.provider, input.payload).slice(0, 100),
+        payload: input.payload,
+        headers,
+        signatureStatus: input.signatureStatus,
+        status,
+        ip: input.ip?.slice(0, 64) || null,
+      },
+    });
+
+    if (created) return { event, duplicate: false };
+
+    // Si la copia guardada tenía firma inválida y llega una válida, la válida
+    // reemplaza a la rechazada (si no, un evento falsificado bloquearía al real)
+    if (event.status === 'rejected' && input.signatureStatus !== 'invalid') {
+      await event.update({
+        payload: input.payload,
+        headers,
+        signatureStatus: input.signatureStatus,
+        status: 'pending',
+        ip: input.ip?.slice(0, 64) || null,
+      });
+      return { event, duplicate: false };
+    }
+
+    await event.increment('duplicateCount');
+    logger.webhook(input.provider, event.eventType, `Duplicate event ignored: ${eventId}`, {
+      data: { webhookEventId: event.id, status: event.status },
+    });
+    return { event, duplicate: true };
+  }
+
+  /**
+   * Toma el evento y ejecuta su processor. Nunca lanza: los errores quedan
+   * registrados en el evento y se reintentan con backoff.
+   * Devuelve null si el evento no estaba disponible (ya procesado, tomado por
+   * otro worker o esperando su próximo reintento).
+   */
+  async process(id: string): Promise<WebhookEvent | null> {
+    const staleBefore = new Date(Date.now() - PROCESSING_TIMEOUT_MS);
+    const [claimed, rows] = await WebhookEvent.update(
+      {
+        status: 'processing',
+        attempts: sequelize.literal('attempts + 1'),
+        lockedAt: new Date(),
+      },
+      {
+        where: {
+          id,
+          [Op.or]: [
+            { status: { [Op.in]: ['pending', 'failed'] } },
+            { status: 'processing', lockedAt: { [Op.lt]: staleBefore } },
+          ],
+        },
+        returning: true,
+      }
+    );
+    if (claimed === 0) return null;
+
+    const event = rows[0];
+    const startTime = Date.now();
+
+    try {
+      const processor = this.processors.get(event.provider);
+      if (!processor) {
+        throw new Error(`No hay processor registrado para ${event.provider}`);
+      }
+
+      await processor(event);
+
+      await event.update({
+        status: 'processed',
+        processedAt: new Date(),
+        lockedAt: null,
+        nextAttemptAt: null,
+        lastError: null,
+      });
+
+      logger.webhook(event.provider, event.eventType, `Webhook processed in ${Date.now() - startTime}ms`, {
+        data: { webhookEventId: event.id, externalEventId: event.externalEventId, attempts: event.attempts },
+      });
+    } catch (error: any) {
+      const status = statusAfterFailure(event.attempts);
+      await event.update({
+        status,
+        lastError: String(error?.stack || error?.message || error).slice(0, 4000),
+        lockedAt: null,
+        nextAttemptAt: status === 'failed' ? new Date(Date.now() + retryDelayMs(event.attempts)) : null,
+      });
+
+      logger.error('webhooks', `Error processing ${event.provider} webhook: ${error?.message}`, {
+        data: {
+          webhookEventId: event.id,
+          externalEventId: event.externalEventId,
+          attempts: event.attempts,
+          status,
+        },
+      });
+    }
+
+    return event;
+  }
+
+  /**
+   * Reintenta los eventos vencidos: fallidos cuyo nextAttemptAt pasó,
+   * 'pending' huérfanos y 'processing' abandonados. Se procesan en serie.
+   */
+  async retryDue(limit = 25): Promise<{ attempted: number; processed: number; failed: number }> {
+    const now = Date.now();
+    const due = await WebhookEvent.findAll({
+      attributes: ['id'],
+      where: {
+        [Op.or]: [
+          { status: 'failed', nextAttemptAt: { [Op.lte]: new Date(now) } },
+          { status: 'pending', createdAt: { [Op.lt]: new Date(now - ORPHAN_PENDING_MS) } },
+          { status: 'processing', lockedAt: { [Op.lt]: new Date(now - PROCESSING_TIMEOUT_MS) } },
+        ],
+      },
+      order: [['createdAt', 'ASC']],
+      limit,
+    });
+
+    let processed = 0;
+    let failed = 0;
+    for (const { id } of due) {
+      const event = await this.process(id);
+      if (!event) continue;
+      if (event.status === 'processed') processed++;
+      else failed++;
+    }
+
+    return { attempted: due.length, processed, failed };
+  }
+
+  /**
+   * Replay manual desde el panel de admin: vuelve el evento a 'pending' y lo
+   * procesa de inmediato. Los eventos con firma inválida no se re-ejecutan.
+   */
+  async replay(id: string, adminId: string | null): Promise<WebhookEvent> {
+    const event = await WebhookEvent.findByPk(id);
+    if (!event) {
+      throw new ErrorResponse('Evento no encontrado', 404);
+    }
+    if (event.status === 'rejected') {
+      throw new ErrorResponse('No se puede reprocesar un evento con firma inválida', 400);
+    }
+    const staleBefore = Date.now() - PROCESSING_TIMEOUT_MS;
+    if (event.status === 'processing' && event.lockedAt && event.lockedAt.getTime() > staleBefore) {
+      throw new ErrorResponse('El evento se está procesando en este momento', 409);
+    }
+
+    await event.update({
+      status: 'pending',
+      nextAttemptAt: null,
+      lockedAt: null,
+      replayCount: event.replayCount + 1,
+      lastReplayedBy: adminId,
+    });
+
+    return (await this.process(event.id)) || event;
+  }
+
+  async list(filters: ListFilters = {}) {
+    const page = Math.max(1, Number(filters.page) || 1);
+    const limit = Math.min(100, Math.max(1, Number(filters.limit) || 50));
+
+    const where: WhereOptions = {};
+    if (filters.provider) Object.assign(where, { provider: filters.provider });
+    if (filters.status) Object.assign(where, { status: filters.status });
+    if (filters.search) {
+      Object.assign(where, {
+        [Op.or]: [
+          { externalEventId: { [Op.iLike]: `%${filters.search}%` } },
+          { eventType: { [Op.iLike]: `%${filters.search}%` } },
+        ],
+      });
+    }
+
+    const { rows, count } = await WebhookEvent.findAndCountAll({
+      where,
+      attributes: { exclude: ['payload', 'headers'] },
+      order: [['createdAt', 'DESC']],
+      limit,
+      offset: (page - 1) * limit,
+    });
+
+    const statusRows = (await WebhookEvent.findAll({
+      attributes: ['status', [sequelize.fn('COUNT', sequelize.col('id')), 'count']],
+      group: ['status'],
+      raw: true,
+    })) as unknown as Array<{ status: WebhookEventStatus; count: string }>;
+
+    const stats: Record<string, number> = {};
+    for (const row of statusRows) stats[row.status] = Number(row.count);
+
+    return {
+      events: rows,
+      stats,
+      pagination: { page, limit, total: count, pages: Math.ceil(count / limit) },
+    };
+  }
+
+  async get(id: string): Promise<WebhookEvent | null> {
+    return WebhookEvent.findByPk(id);
+  }
+}
+
+export default new WebhookInboxService();
@@ -0,0 +1,93 @@
+/**
+ * Webhook Inbox Rules
+ *
+ * Reglas puras del inbox de webhooks: identificación de eventos por proveedor
+ * (para deduplicar reintentos) y backoff de reprocesamiento. Sin acceso a la
+ * base de datos; la persistencia vive en webhookInbox.ts.
+ */
+
+export type WebhookProvider = 'mercadopago' | 'astropay' | 'paypal';
+
+export type WebhookSignatureStatus = 'valid' | 'invalid' | 'skipped';
+
+export type WebhookEventStatus =
+  | 'pending'     // Recibido, todavía no procesado
+  | 'processing'  // Un worker lo tomó
+  | 'processed'   // Procesado con éxito (no se vuelve a ejecutar salvo replay manual)
+  | 'failed'      // Falló; se reintenta en nextAttemptAt
+  | 'dead'        // Agotó los reintentos: requiere replay manual
+  | 'rejected';   // Firma inválida: se guarda para inspección, nunca se procesa
+
+export const MAX_ATTEMPTS = 8;
+export const BASE_RETRY_DELAY_MS = 60 * 1000;          // 1 minuto
+export const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;  // 6 horas
+// Un evento en 'processing' más tiempo que esto se considera abandonado (proceso caído)
+export const PROCESSING_TIMEOUT_MS = 15 * 60 * 1000;
+
+/**
+ * Demora antes del próximo intento: exponencial (1m, 2m, 4m, ...) con tope
+ * de 6h y ±20% de jitter para no reintentar todo a la vez.
+ */
+export function retryDelayMs(attempts: number, random: () => number = Math.random): number {
+  const exponent = Math.max(0, attempts - 1);
+  const base = Math.min(BASE_RETRY_DELAY_MS * 2 ** exponent, MAX_RETRY_DELAY_MS);
+  const jitter = 1 + (random() * 0.4 - 0.2);
+  return Math.round(base * jitter);
+}
+
+/**
+ * Estado después de un intento fallido.
+ */
+export function statusAfterFailure(attempts: number): Extract<WebhookEventStatus, 'failed' | 'dead'> {
+  return attempts >= MAX_ATTEMPTS ? 'dead' : 'failed';
+}
+
+const str = (value: unknown): string | null =>
+  value === undefined || value === null || value === '' ? null : String(value);
+
+/**
+ * Tipo de evento legible para el listado (p. ej. "payment.updated").
+ */
+export function webhookEventType(provider: WebhookProvider, payload: any): string {
+  switch (provider) {
+    case 'mercadopago':
+      return str(payload?.action) || str(payload?.type) || 'unknown';
+    case 'astropay':
+      return `deposit.${(str(payload?.status) || 'unknown').toLowerCase()}`;
+    case 'paypal':
+      return str(payload?.event_type) || 'unknown';
+  }
+}
+
+/**
+ * Identificador externo del evento, estable entre reintentos del proveedor.
+ *
+ * - MercadoPago: el `id` de la notificación; las notificaciones legacy (IPN)
+ *   no lo traen, así que se usa acción + recurso + x-request-id.
+ * - AstroPay: no envía id de notificación; un depósito solo cambia de estado
+ *   una vez, así que depósito + estado identifica el evento.
+ * - PayPal: `id` del evento.
+ */
+export function externalEventId(
+  provider: WebhookProvider,
+  payload: any,
+  headers: Record<string, string | string[] | undefined> = {}
+): string | null {
+  switch (provider) {
+    case 'mercadopago': {
+      const notificationId = str(payload?.id);
+      if (notificationId) return notificationId;
+      const resourceId = str(payload?.data?.id);
+      if (!resourceId) return null;
+      const requestId = str(headers['x-request-id']);
+      return [webhookEventType(provider, payload), resourceId, requestId].filter(Boolean).join(':');
+    }
+    case 'astropay': {
+      const depositId = str(payload?.deposit_id) || str(payload?.id);
+      if (!depositId) return null;
+      return `${depositId}:${(str(payload?.status) || 'unknown').toUpperCase()}`;
+    }
+    case 'paypal':
+      return str(payload?.id);
+  }
+}
@@ -47,7 +47,7 @@ export const logAudit = async (params: LogAuditParams): Promise<void> => {
 
     const userAgent = req.headers["user-agent"] || "unknown";
 
-    await AuditLog.create({
+    await AuditLog.logAdminAction({
       performedBy: req.user.id || req.user._id,
       adminRole: req.user.adminRole,
       action,
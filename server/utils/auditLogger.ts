@@ -1,6 +1,7 @@
 import crypto from "crypto";
 import { Request } from "express";
 import { AuditLog } from "../models/sql/AuditLog.model.js";
+import { computeEntryHash } from "../services/auditChainRules.js";
 
 /**
  * Generate SHA256 hash for audit integrity
@@ -28,7 +29,7 @@ export function getUserAgent(req: Request): string {
 }
 
 /**
- * Create audit log entry with signature
+ * Create audit log entry (hash-chained, see services/auditChainRules.ts)
  */
 export async function createAuditLog(params: {
   userId?: any;
@@ -48,18 +49,6 @@ export async function createAuditLog(params: {
   twoFactorVerified?: boolean;
 }) {
   try {
-    const timestamp = new Date().toISOString();
-    const dataToHash = JSON.stringify({
-      userId: params.userId?.toString() || "system",
-      action: params.action,
-      entity: params.entity,
-      entityId: params.entityId || "",
-      timestamp,
-      description: params.description,
-    });
-
-    const signature = generateHash(dataToHash);
-
     const auditEntry = await AuditLog.logAdminAction({
       performedBy: params.userId?.toString() || 'system',
       adminRole: 'system',
@@ -72,7 +61,6 @@ export async function createAuditLog(params: {
       userAgent: params.userAgent || "unknown",
       changes: params.changes || [],
       metadata: params.metadata || {},
-      signature,
       passwordVerified: params.ownerPasswordVerified || false,
       twoFactorVerified: params.twoFactorVerified || false,
     });
@@ -86,20 +74,14 @@ export async function createAuditLog(params: {
 }
 
 /**
- * Verify audit log integrity
+ * Verify a single audit log entry: recomputes its hash from the stored fields.
+ * Legacy entries written before the chain (no sequence) can't be verified.
+ * Use services/auditChain.ts to verify links, order and deletions.
  */
 export function verifyAuditLogIntegrity(log: any): boolean {
-  const dataToHash = JSON.stringify({
-    userId: log.userId?.toString() || "system",
-    action: log.action,
-    entity: log.entity,
-    entityId: log.entityId || "",
-    timestamp: log.createdAt.toISOString(),
-    description: log.description,
-  });
-
-  const expectedHash = generateHash(dataToHash);
-  return expectedHash === log.signature;
+  if (log.sequence === null || log.sequence === undefined) return false;
+  const entry = typeof log.get === "function" ? log.get({ plain: true }) : log;
+  return computeEntryHash(entry) === log.signature;
 }
 
 /**
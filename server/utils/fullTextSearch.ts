@@ -0,0 +1,72 @@
+/**
+ * Helpers de búsqueda full-text sobre PostgreSQL (tsvector/tsquery).
+ *
+ * La columna `jobs.search_vector` la mantiene un trigger de la base
+ * (ver migración 20260806100000-add-jobs-search-vector): título con peso A,
+ * resumen B y descripción C, indexados con las configuraciones 'spanish' y
+ * 'english' sobre el texto pasado por unaccent().
+ *
+ * Este módulo no importa modelos: solo arma strings SQL a partir de input
+ * del usuario, de forma que nunca llegue sintaxis de tsquery sin sanear.
+ */
+
+/** Configuraciones de texto con las que se indexa y se consulta. */
+export const SEARCH_CONFIGS = ['spanish', 'english'] as const;
+
+const MAX_TERMS = 8;
+
+/**
+ * Quitar tildes y diéresis (equivalente a unaccent() para el alfabeto español).
+ */
+export function stripAccents(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Términos de búsqueda de un texto libre: sin tildes, en minúsculas, solo
+ * letras y números, sin repetidos y como máximo MAX_TERMS.
+ */
+export function searchTerms(text: string | undefined | null): string[] {
+  if (!text) return [];
+
+  const terms = stripAccents(text)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean)
+    .slice(0, MAX_TERMS);
+
+  return Array.from(new Set(terms));
+}
+
+/**
+ * Convierte texto libre en una tsquery de prefijos: "Plomeró urgente" →
+ * "plomero:* & urgente:*". Todo lo que no sea letra o número se descarta,
+ * así que el resultado es seguro para pasarlo a to_tsquery().
+ * Devuelve null si no queda ningún término.
+ */
+export function buildPrefixTsQuery(text: string | undefined | null): string | null {
+  const terms = searchTerms(text);
+  if (terms.length === 0) return null;
+
+  return terms.map((term) => `${term}:*`).join(' & ');
+}
+
+/**
+ * Normalizar una ubicación para compararla: minúsculas, sin puntuación y con
+ * espacios simples. search.ts aplica la misma transformación en SQL.
+ */
+export function normalizeLocation(location: string): string {
+  return location
+    .toLowerCase()
+    .replace(/[.,\\/#!$%^&*;:{}=\-_`~()]/g, '') // Remove punctuation
+    .replace(/\s+/g, ' ') // Normalize spaces
+    .trim();
+}
+
+/**
+ * Expresión SQL de la tsquery combinada (OR entre configuraciones).
+ * `quotedQuery` debe venir ya escapado con sequelize.escape().
+ */
+export function tsQueryExpression(quotedQuery: string): string {
+  return SEARCH_CONFIGS.map((config) => `to_tsquery('${config}', ${quotedQuery})`).join(' || ');
+}
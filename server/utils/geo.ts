@@ -0,0 +1,134 @@
+import { Op, literal, where as sqlWhere } from 'sequelize';
+import type { WhereOptions } from 'sequelize';
+
+/**
+ * Geo Utility
+ * Distancias y búsquedas por radio sobre columnas latitude/longitude.
+ *
+ * Las búsquedas por radio se resuelven en PostgreSQL en dos pasos:
+ * un bounding box (BETWEEN sobre latitud/longitud, que usa el índice
+ * compuesto de la tabla) descarta casi todas las filas, y la fórmula de
+ * haversine filtra las esquinas del cuadrado y da la distancia exacta.
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  // null cuando el cuadrado cruza el antimeridiano o un polo: no se filtra por longitud
+  minLng: number | null;
+  maxLng: number | null;
+}
+
+const toRadians = (degrees: number): number => degrees * (Math.PI / 180);
+const toDegrees = (radians: number): number => radians * (180 / Math.PI);
+
+/**
+ * Validate a latitude/longitude pair (finite numbers within range)
+ */
+export function isValidCoordinate(latitude: unknown, longitude: unknown): boolean {
+  const lat = Number(latitude);
+  const lng = Number(longitude);
+  return (
+    latitude !== null && latitude !== undefined && latitude !== '' &&
+    longitude !== null && longitude !== undefined && longitude !== '' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180
+  );
+}
+
+/**
+ * Great-circle distance in kilometers (haversine)
+ */
+export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Smallest lat/lng box that contains every point within radiusKm of the center
+ */
+export function boundingBox(center: GeoPoint, radiusKm: number): BoundingBox {
+  const angular = radiusKm / EARTH_RADIUS_KM;
+  const minLat = center.latitude - toDegrees(angular);
+  const maxLat = center.latitude + toDegrees(angular);
+
+  if (minLat <= -90 || maxLat >= 90) {
+    return { minLat: Math.max(minLat, -90), maxLat: Math.min(maxLat, 90), minLng: null, maxLng: null };
+  }
+
+  const ratio = Math.sin(angular) / Math.cos(toRadians(center.latitude));
+  if (ratio >= 1) {
+    return { minLat, maxLat, minLng: null, maxLng: null };
+  }
+
+  const deltaLng = toDegrees(Math.asin(ratio));
+  const minLng = center.longitude - deltaLng;
+  const maxLng = center.longitude + deltaLng;
+
+  if (minLng < -180 || maxLng > 180) {
+    return { minLat, maxLat, minLng: null, maxLng: null };
+  }
+
+  return { minLat, maxLat, minLng, maxLng };
+}
+
+/**
+ * Haversine distance (km) from `center` to the given columns, as SQL.
+ * Column names must be trusted identifiers (e.g. '"Job"."latitude"').
+ */
+export function distanceKmSql(center: GeoPoint, latColumn: string, lngColumn: string): string {
+  const lat = Number(center.latitude);
+  const lng = Number(center.longitude);
+  return (
+    `(${EARTH_RADIUS_KM} * 2 * asin(sqrt(` +
+    `power(sin(radians(${latColumn} - ${lat}) / 2), 2) + ` +
+    `cos(radians(${lat})) * cos(radians(${latColumn})) * power(sin(radians(${lngColumn} - ${lng}) / 2), 2)` +
+    `)))`
+  );
+}
+
+/**
+ * Where conditions for "within radiusKm of center": bounding box on the
+ * model attributes plus the exact haversine check on the SQL columns.
+ */
+export function radiusWhere(
+  center: GeoPoint,
+  radiusKm: number,
+  columns: { latAttr: string; lngAttr: string; latColumn: string; lngColumn: string }
+): WhereOptions[] {
+  const box = boundingBox(center, radiusKm);
+  const conditions: WhereOptions[] = [
+    { [columns.latAttr]: { [Op.between]: [box.minLat, box.maxLat] } },
+  ];
+
+  if (box.minLng !== null && box.maxLng !== null) {
+    conditions.push({ [columns.lngAttr]: { [Op.between]: [box.minLng, box.maxLng] } });
+  } else {
+    conditions.push({ [columns.lngAttr]: { [Op.ne]: null } });
+  }
+
+  conditions.push(
+    sqlWhere(literal(distanceKmSql(center, columns.latColumn, columns.lngColumn)), { [Op.lte]: radiusKm })
+  );
+
+  return conditions;
+}
+
+/** Coordinate columns of the jobs table, as seen from a `Job` query */
+export const JOB_COORDINATES = {
+  latAttr: 'latitude',
+  lngAttr: 'longitude',
+  latColumn: '"Job"."latitude"',
+  lngColumn: '"Job"."longitude"',
+};
@@ -0,0 +1,201 @@
+/**
+ * Tests de la cadena de hashes del audit log (server/services/auditChainRules.ts):
+ * hash canónico de las entradas, detección de cambios, borrados y
+ * reordenamientos, checkpoints firmados y export CSV verificable offline.
+ * No toca la base de datos.
+ */
+
+import crypto from 'crypto';
+import { describe, it, expect } from '@jest/globals';
+import {
+  GENESIS_HASH,
+  auditEntriesToCsv,
+  canonicalJson,
+  computeCheckpointHash,
+  computeEntryHash,
+  parseAuditCsv,
+  signCheckpointHash,
+  verifyChain,
+  verifyCheckpointSignature,
+  type ChainedAuditEntry,
+  type CheckpointPayload,
+  type SignedCheckpoint,
+} from '../../server/services/auditChainRules.js';
+
+const buildChain = (count: number, anchor = GENESIS_HASH): ChainedAuditEntry[] => {
+  const entries: ChainedAuditEntry[] = [];
+  for (let i = 1; i <= count; i++) {
+    const entry: ChainedAuditEntry = {
+      id: `00000000-0000-4000-8000-00000000000${i}`,
+      chainDate: '2026-08-20',
+      sequence: i,
+      prevHash: entries.length ? entries[entries.length - 1].signature! : anchor,
+      createdAt: new Date(Date.UTC(2026, 7, 20, 10, i)),
+      performedBy: '11111111-1111-4111-8111-111111111111',
+      adminRole: 'admin',
+      action: 'ban_user',
+      category: 'user',
+      severity: 'high',
+      targetModel: 'User',
+      targetId: null,
+      description: `Acción ${i}`,
+      changes: [{ field: 'isBanned', oldValue: false, newValue: true }],
+      metadata: { reason: 'spam', extra: { b: 2, a: 1 } },
+      ip: '127.0.0.1',
+      userAgent: 'jest',
+      passwordVerified: true,
+      twoFactorVerified: false,
+    };
+    entry.signature = computeEntryHash(entry);
+    entries.push(entry);
+  }
+  return entries;
+};
+
+const checkpointFor = (entries: ChainedAuditEntry[], final: boolean, secret = 'secreto'): SignedCheckpoint => {
+  const last = entries[entries.length - 1];
+  const payload: CheckpointPayload = {
+    chainDate: '2026-08-20',
+    sequence: last.sequence,
+    entryCount: entries.length,
+    anchorHash: entries[0].prevHash,
+    lastHash: last.signature!,
+    final,
+    previousCheckpointHash: GENESIS_HASH,
+    createdAt: '2026-08-21T00:05:00.000Z',
+  };
+  const checkpointHash = computeCheckpointHash(payload);
+  return {
+    ...payload,
+    checkpointHash,
+    signature: signCheckpointHash(checkpointHash, { algorithm: 'hmac-sha256', secret }),
+    algorithm: 'hmac-sha256',
+  };
+};
+
+describe('computeEntryHash', () => {
+  it('no depende del orden de las claves del JSONB', () => {
+    const [entry] = buildChain(1);
+    const reordered = { ...entry, metadata: { extra: { a: 1, b: 2 }, reason: 'spam' } };
+    expect(computeEntryHash(reordered)).toBe(entry.signature);
+    expect(canonicalJson({ b: [{ d: 1, c: undefined }], a: null })).toBe('{"a":null,"b":[{"d":1}]}');
+  });
+
+  it('usa el createdAt guardado y cambia con cualquier campo', () => {
+    const [entry] = buildChain(1);
+    expect(computeEntryHash({ ...entry, createdAt: (entry.createdAt as Date).toISOString() })).toBe(entry.signature);
+    expect(computeEntryHash({ ...entry, createdAt: new Date(Date.UTC(2026, 7, 20, 10, 2)) })).not.toBe(entry.signature);
+    expect(computeEntryHash({ ...entry, description: 'otra' })).not.toBe(entry.signature);
+    expect(computeEntryHash({ ...entry, targetIdentifier: undefined })).toBe(entry.signature);
+  });
+});
+
+describe('verifyChain', () => {
+  it('acepta una cadena íntegra anclada al día anterior', () => {
+    const entries = buildChain(4, 'a'.repeat(64));
+    const result = verifyChain(entries, { anchorHash: 'a'.repeat(64) });
+    expect(result).toMatchObject({ valid: true, checked: 4, lastSequence: 4, lastHash: entries[3].signature });
+  });
+
+  it('detecta una entrada modificada', () => {
+    const entries = buildChain(4);
+    entries[1] = { ...entries[1], description: 'editada' };
+    expect(verifyChain(entries).firstBroken).toMatchObject({ reason: 'hash_mismatch', sequence: 2 });
+  });
+
+  it('detecta una entrada modificada y re-hasheada por el enlace siguiente', () => {
+    const entries = buildChain(4);
+    entries[1] = { ...entries[1], description: 'editada' };
+    entries[1].signature = computeEntryHash(entries[1]);
+    expect(verifyChain(entries).firstBroken).toMatchObject({ reason: 'broken_link', sequence: 3 });
+  });
+
+  it('detecta borrados y reordenamientos', () => {
+    const entries = buildChain(4);
+    expect(verifyChain([entries[0], entries[2], entries[3]]).firstBroken).toMatchObject({ reason: 'sequence_gap', sequence: 3, expected: 2 });
+    expect(verifyChain([entries[0], entries[2], entries[1], entries[3]]).firstBroken).toMatchObject({ reason: 'sequence_gap' });
+    expect(verifyChain(entries.slice(1)).firstBroken).toMatchObject({ reason: 'sequence_gap', sequence: 2, expected: 1 });
+  });
+
+  it('detecta que el día no continúa al anterior', () => {
+    const entries = buildChain(2);
+    expect(verifyChain(entries, { anchorHash: 'b'.repeat(64) }).firstBroken).toMatchObject({ reason: 'anchor_mismatch', sequence: 1 });
+  });
+
+  it('un checkpoint detecta el borrado de la cola', () => {
+    const entries = buildChain(4);
+    const checkpoint = checkpointFor(entries, false);
+    expect(verifyChain(entries, { checkpoints: [checkpoint] }).valid).toBe(true);
+    expect(verifyChain(entries.slice(0, 3), { checkpoints: [checkpoint] }).firstBroken).toMatchObject({ reason: 'missing_entries', sequence: 4 });
+
+    const final = checkpointFor(entries.slice(0, 3), true);
+    expect(verifyChain(entries, { checkpoints: [final] }).firstBroken).toMatchObject({ reason: 'missing_entries' });
+  });
+
+  it('detecta una cola reescrita que no coincide con el hash firmado', () => {
+    const entries = buildChain(3);
+    const checkpoint = checkpointFor(entries, true);
+    entries[2] = { ...entries[2], description: 'reescrita' };
+    entries[2].signature = computeEntryHash(entries[2]);
+    expect(verifyChain(entries, { checkpoints: [checkpoint] }).firstBroken).toMatchObject({ reason: 'checkpoint_mismatch', sequence: 3 });
+  });
+
+  it('un día podado por retención no conserva entradas', () => {
+    const entries = buildChain(5);
+    const checkpoint = { ...checkpointFor(entries, true), prunedCount: 5 };
+    expect(verifyChain([], { checkpoints: [checkpoint] }).valid).toBe(true);
+
+    // Borrar filas sueltas y anotarlas como podadas no pasa por retención
+    const kept = [entries[0], entries[2], entries[4]];
+    expect(verifyChain(kept, { checkpoints: [{ ...checkpoint, prunedCount: 2 }] }).firstBroken).toMatchObject({ reason: 'missing_entries', expected: 0, actual: 3 });
+    expect(verifyChain([], { checkpoints: [{ ...checkpoint, prunedCount: 3 }] }).firstBroken).toMatchObject({ reason: 'missing_entries', expected: 5, actual: 3 });
+  });
+});
+
+describe('checkpoints firmados', () => {
+  it('verifica HMAC y rechaza un payload alterado', () => {
+    const checkpoint = checkpointFor(buildChain(2), true);
+    expect(verifyCheckpointSignature(checkpoint, { secret: 'secreto' })).toBe(true);
+    expect(verifyCheckpointSignature(checkpoint, { secret: 'otro' })).toBe(false);
+    expect(verifyCheckpointSignature({ ...checkpoint, entryCount: 1 }, { secret: 'secreto' })).toBe(false);
+  });
+
+  it('verifica Ed25519 con la clave pública', () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519');
+    const pem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+    const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    const unsigned = checkpointFor(buildChain(2), true);
+    const checkpoint: SignedCheckpoint = {
+      ...unsigned,
+      algorithm: 'ed25519',
+      signature: signCheckpointHash(unsigned.checkpointHash, { algorithm: 'ed25519', privateKey: pem }),
+    };
+    expect(verifyCheckpointSignature(checkpoint, { publicKey: publicPem })).toBe(true);
+
+    const other = crypto.generateKeyPairSync('ed25519').publicKey.export({ type: 'spki', format: 'pem' }).toString();
+    expect(verifyCheckpointSignature(checkpoint, { publicKey: other })).toBe(false);
+  });
+});
+
+describe('export CSV', () => {
+  it('el export se verifica offline contra el checkpoint', () => {
+    const entries = buildChain(3);
+    entries[1].description = 'Texto con "comillas", comas\ny saltos de línea';
+    entries[1].signature = computeEntryHash(entries[1]);
+    entries[2].prevHash = entries[1].signature;
+    entries[2].signature = computeEntryHash(entries[2]);
+    const checkpoint = checkpointFor(entries, true);
+
+    const parsed = parseAuditCsv('\uFEFF' + auditEntriesToCsv(entries));
+    expect(parsed).toHaveLength(3);
+    expect(parsed[1].description).toBe(entries[1].description);
+    expect(verifyChain(parsed, { checkpoints: [checkpoint] }).valid).toBe(true);
+
+    parsed.splice(1, 1);
+    expect(verifyChain(parsed, { checkpoints: [checkpoint] }).valid).toBe(false);
+  });
+
+  it('rechaza un CSV con otras columnas', () => {
+    expect(() => parseAuditCsv('id,action\n"1","x"')).toThrow('columnas');
+  });
+});
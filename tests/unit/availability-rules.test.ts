@@ -0,0 +1,252 @@
+/**
+ * Tests de las reglas de disponibilidad del Doer (server/services/availabilityRules.ts):
+ * validación de la agenda, conflictos con contratos (margen de traslado),
+ * calendario externo y bloqueos, libre/ocupado, parseo de .ics y URLs del
+ * calendario externo.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  bookingWindow,
+  describeConflict,
+  findBookingConflicts,
+  freeBusy,
+  isPrivateAddress,
+  parseAvailabilitySchedule,
+  parseExternalCalendarUrl,
+  parseFreeBusyRange,
+  parseIcsBusyBlocks,
+  publicConflicts,
+  travelMinutes,
+  type BookingCandidate,
+  type BusyBlock,
+} from '../../server/services/availabilityRules.js';
+
+const at = (iso: string) => new Date(iso);
+
+// Lunes 2 de noviembre de 2026, 10 a 12 hs en Buenos Aires (UTC-3)
+const job = (patch: Partial<BookingCandidate> = {}): BookingCandidate => ({
+  startDate: '2026-11-02T13:00:00Z',
+  endDate: '2026-11-02T15:00:00Z',
+  category: 'plomeria',
+  location: 'Palermo, CABA',
+  ...patch,
+});
+
+const contract = (startsAt: string, endsAt: string, patch: Partial<BusyBlock> = {}): BusyBlock => ({
+  kind: 'contract',
+  startsAt: at(startsAt),
+  endsAt: at(endsAt),
+  category: 'limpieza',
+  location: 'Belgrano, CABA',
+  title: 'Limpieza de oficina',
+  contractId: 'contract-1',
+  ...patch,
+});
+
+describe('parseAvailabilitySchedule', () => {
+  it('normalizes slots, blackouts and the travel buffer', () => {
+    expect(parseAvailabilitySchedule({
+      slots: [{ day: '3', start: '14:00', end: '24:00' }, { day: 1, start: '09:00', end: '13:00' }],
+      blackouts: [{ from: '2026-12-24', to: '2027-01-02', reason: 'Vacaciones' }],
+      travelBufferMinutes: '45',
+    })).toEqual({
+      timezone: 'America/Argentina/Buenos_Aires',
+      slots: [{ day: 1, start: '09:00', end: '13:00' }, { day: 3, start: '14:00', end: '24:00' }],
+      exceptions: [],
+      blackouts: [{ from: '2026-12-24', to: '2027-01-02', reason: 'Vacaciones' }],
+      travelBufferMinutes: 45,
+    });
+  });
+
+  it('rejects invalid schedules with 400', () => {
+    const invalid: unknown[] = [
+      null,
+      { timezone: 'Mars/Olympus' },
+      { slots: [{ day: 7, start: '09:00', end: '10:00' }] },
+      { slots: [{ day: 1, start: '9:00', end: '10:00' }] },
+      { slots: [{ day: 1, start: '12:00', end: '10:00' }] },
+      { slots: [{ day: 1, start: '09:00', end: '12:00' }, { day: 1, start: '11:00', end: '13:00' }] },
+      { exceptions: [{ date: '2026-02-30' }] },
+      { blackouts: [{ from: '2026-12-24', to: '2026-12-20' }] },
+      { blackouts: [{ from: '2026-01-01', to: '2027-06-01' }] },
+      { travelBufferMinutes: 241 },
+      { travelBufferMinutes: 12.5 },
+    ];
+    for (const input of invalid) {
+      expect(() => parseAvailabilitySchedule(input)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    }
+  });
+});
+
+describe('bookingWindow', () => {
+  it('runs a flexible or missing end date until the end of the local start day', () => {
+    expect(bookingWindow(job({ endDateFlexible: true })).endsAt.toISOString()).toBe('2026-11-03T03:00:00.000Z');
+    expect(bookingWindow(job({ endDate: null })).endsAt.toISOString()).toBe('2026-11-03T03:00:00.000Z');
+  });
+});
+
+describe('travelMinutes', () => {
+  it('uses the distance when both jobs have coordinates', () => {
+    const palermo = { category: 'plomeria', latitude: -34.5889, longitude: -58.4305 };
+    const belgrano = { category: 'limpieza', latitude: -34.5627, longitude: -58.4566 };
+    expect(travelMinutes(palermo, belgrano)).toBe(27);
+    expect(travelMinutes(palermo, { category: 'limpieza', latitude: -31.4201, longitude: -64.1888 })).toBe(240);
+  });
+
+  it('uses the same-area cap, the fallback or no buffer for remote jobs', () => {
+    expect(travelMinutes({ category: 'plomeria', neighborhood: 'Palermo' }, { category: 'limpieza', neighborhood: 'palermo' }, 90)).toBe(30);
+    expect(travelMinutes({ category: 'plomeria', location: 'Palermo' }, { category: 'limpieza', location: 'Quilmes' }, 90)).toBe(90);
+    expect(travelMinutes({ category: 'plomeria', remoteOk: true }, { category: 'limpieza' })).toBe(0);
+  });
+});
+
+describe('findBookingConflicts', () => {
+  it('pads other contracts by the travel buffer', () => {
+    // Termina 9:30 hs; con 60 minutos de traslado choca con el inicio a las 10
+    const busy = [contract('2026-11-02T10:00:00Z', '2026-11-02T12:30:00Z')];
+    const { conflicts } = findBookingConflicts(job(), busy, null);
+    expect(conflicts).toEqual([expect.objectContaining({ kind: 'contract', bufferMinutes: 60, contractId: 'contract-1' })]);
+
+    const shortBuffer = parseAvailabilitySchedule({ travelBufferMinutes: 20 });
+    expect(findBookingConflicts(job(), busy, shortBuffer).conflicts).toEqual([]);
+  });
+
+  it('lets an in-person job overlap a remote one', () => {
+    const busy = [contract('2026-11-02T13:00:00Z', '2026-11-02T15:00:00Z', { category: 'tecnologia' })];
+    expect(findBookingConflicts(job(), busy, null).conflicts).toEqual([]);
+  });
+
+  it('reports external events and blackouts without buffer', () => {
+    const schedule = parseAvailabilitySchedule({ blackouts: [{ from: '2026-11-02', to: '2026-11-02', reason: 'Turno médico' }] });
+    const busy: BusyBlock[] = [
+      { kind: 'external', startsAt: at('2026-11-02T15:00:00Z'), endsAt: at('2026-11-02T16:00:00Z') },
+      { kind: 'external', startsAt: at('2026-11-02T14:00:00Z'), endsAt: at('2026-11-02T14:30:00Z') },
+    ];
+    const { conflicts } = findBookingConflicts(job(), busy, schedule);
+    expect(conflicts.map((c) => [c.kind, c.bufferMinutes])).toEqual([['blackout', 0], ['external', 0]]);
+    expect(conflicts[0]).toMatchObject({ startsAt: at('2026-11-02T03:00:00Z'), endsAt: at('2026-11-03T03:00:00Z') });
+  });
+
+  it('only warns when the job starts outside the weekly hours', () => {
+    const schedule = parseAvailabilitySchedule({ slots: [{ day: 1, start: '14:00', end: '18:00' }] });
+    expect(findBookingConflicts(job(), [], schedule)).toEqual({ conflicts: [], outsideHours: true });
+    expect(findBookingConflicts(job({ startDate: '2026-11-02T17:00:00Z', endDate: '2026-11-02T18:00:00Z' }), [], schedule).outsideHours).toBe(false);
+  });
+});
+
+describe('describeConflict', () => {
+  const conflict = findBookingConflicts(job(), [contract('2026-11-02T12:00:00Z', '2026-11-02T14:00:00Z')], null).conflicts[0];
+
+  it('hides the other job from the client', () => {
+    expect(describeConflict(conflict, 'doer')).toContain('"Limpieza de oficina"');
+    expect(describeConflict(conflict, 'client')).not.toContain('Limpieza de oficina');
+    expect(publicConflicts([conflict])[0]).toEqual({
+      kind: 'contract',
+      startsAt: conflict.startsAt,
+      endsAt: conflict.endsAt,
+      bufferMinutes: 60,
+    });
+  });
+});
+
+describe('freeBusy', () => {
+  it('subtracts busy blocks and blackouts from the weekly slots', () => {
+    const schedule = parseAvailabilitySchedule({
+      slots: [{ day: 1, start: '09:00', end: '18:00' }, { day: 2, start: '09:00', end: '18:00' }],
+      blackouts: [{ from: '2026-11-03', to: '2026-11-03' }],
+    });
+    const range = { startsAt: at('2026-11-02T03:00:00Z'), endsAt: at('2026-11-04T03:00:00Z') };
+    const result = freeBusy(schedule, [{ startsAt: at('2026-11-02T13:00:00Z'), endsAt: at('2026-11-02T15:00:00Z') }], range);
+    expect(result.available).toEqual([
+      { startsAt: at('2026-11-02T12:00:00Z'), endsAt: at('2026-11-02T13:00:00Z') },
+      { startsAt: at('2026-11-02T15:00:00Z'), endsAt: at('2026-11-02T21:00:00Z') },
+    ]);
+    expect(result.busy).toEqual([
+      { startsAt: at('2026-11-02T13:00:00Z'), endsAt: at('2026-11-02T15:00:00Z') },
+      { startsAt: at('2026-11-03T03:00:00Z'), endsAt: at('2026-11-04T03:00:00Z') },
+    ]);
+  });
+
+  it('validates the requested range', () => {
+    const now = at('2026-11-01T12:00:00Z');
+    expect(parseFreeBusyRange(undefined, undefined, now).endsAt.toISOString()).toBe('2026-11-15T12:00:00.000Z');
+    expect(() => parseFreeBusyRange('2026-11-05', '2026-11-01', now)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseFreeBusyRange('2026-11-01', '2027-02-01', now)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('parseIcsBusyBlocks', () => {
+  const range = { startsAt: at('2026-11-01T00:00:00Z'), endsAt: at('2026-11-20T00:00:00Z') };
+  const ics = [
+    'BEGIN:VCALENDAR',
+    'BEGIN:VEVENT',
+    'UID:dentist',
+    'DTSTART;TZID=America/Argentina/Buenos_Aires:20261104T100000',
+    'DTEND;TZID=America/Argentina/Buenos_Aires:20261104T113000',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:holiday',
+    'DTSTART;VALUE=DATE:20261106',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:gym',
+    'DTSTART:20261102T220000Z',
+    'DURATION:PT1H',
+    'RRULE:FREQ=WEEKLY;BYDAY=MO,WE;COUNT=5',
+    'EXDATE:20261104T220000Z',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:cancelled',
+    'STATUS:CANCELLED',
+    'DTSTART:20261105T120000Z',
+    'DTEND:20261105T130000Z',
+    'END:VEVENT',
+    'BEGIN:VEVENT',
+    'UID:free',
+    'TRANSP:TRANSPARENT',
+    'DTSTART:20261105T120000Z',
+    'DTEND:20261105T130000Z',
+    'END:VEVENT',
+    'END:VCALENDAR',
+  ].join('\r\n');
+
+  it('reads timezones, all-day events, weekly rules and exclusions', () => {
+    const blocks = parseIcsBusyBlocks(ics, range);
+    expect(blocks.map((b) => [b.uid, b.startsAt.toISOString(), b.endsAt.toISOString()])).toEqual([
+      ['gym#2026-11-02T22:00:00.000Z', '2026-11-02T22:00:00.000Z', '2026-11-02T23:00:00.000Z'],
+      ['dentist', '2026-11-04T13:00:00.000Z', '2026-11-04T14:30:00.000Z'],
+      ['holiday', '2026-11-06T03:00:00.000Z', '2026-11-07T03:00:00.000Z'],
+      ['gym#2026-11-09T22:00:00.000Z', '2026-11-09T22:00:00.000Z', '2026-11-09T23:00:00.000Z'],
+      ['gym#2026-11-11T22:00:00.000Z', '2026-11-11T22:00:00.000Z', '2026-11-11T23:00:00.000Z'],
+      ['gym#2026-11-16T22:00:00.000Z', '2026-11-16T22:00:00.000Z', '2026-11-16T23:00:00.000Z'],
+    ]);
+  });
+
+  it('unfolds continued lines', () => {
+    const folded = 'BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:long-\r\n uid\r\nDTSTART:20261103T120000Z\r\nDTEND:20261103T130000Z\r\nEND:VEVENT\r\nEND:VCALENDAR';
+    expect(parseIcsBusyBlocks(folded, range).map((b) => b.uid)).toEqual(['long-uid']);
+  });
+});
+
+describe('external calendar URL', () => {
+  it('accepts public http(s) and webcal URLs', () => {
+    expect(parseExternalCalendarUrl('webcal://calendar.example.com/a.ics')).toBe('https://calendar.example.com/a.ics');
+    expect(parseExternalCalendarUrl('')).toBeNull();
+  });
+
+  it('rejects other protocols and internal hosts', () => {
+    for (const url of ['ftp://example.com/a.ics', 'not a url', 'http://localhost/a.ics', 'http://10.0.0.5/a.ics', 'http://[::1]/a.ics', 'http://metadata.internal/']) {
+      expect(() => parseExternalCalendarUrl(url)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    }
+  });
+
+  it('detects private addresses', () => {
+    expect(isPrivateAddress('192.168.1.10')).toBe(true);
+    expect(isPrivateAddress('169.254.169.254')).toBe(true);
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('fd00::1')).toBe(true);
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * Tests del motor de reglas de comisión (server/services/commissionRules.ts):
+ * prioridad, condiciones, topes y validación de reglas del admin.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_COMMISSION_RULES,
+  applyRule,
+  evaluateRules,
+  parseRuleInput,
+  type CommissionContext,
+} from '../../server/services/commissionRules.js';
+import { fromDecimal } from '../../server/services/money.js';
+
+const context = (overrides: Partial<CommissionContext> = {}): CommissionContext => ({
+  membershipTier: 'free',
+  category: null,
+  familyPlan: false,
+  freeContract: false,
+  freeContractsRemaining: 0,
+  monthlyVolume: 0,
+  at: new Date('2026-03-10T12:00:00Z'),
+  ...overrides,
+});
+
+const matchedKey = (overrides: Partial<CommissionContext>) =>
+  evaluateRules(DEFAULT_COMMISSION_RULES, context(overrides)).rule?.ruleKey;
+
+describe('default rules', () => {
+  it('reproduce the original plans and exceptions', () => {
+    expect(matchedKey({})).toBe('free');
+    expect(matchedKey({ membershipTier: 'pro' })).toBe('pro');
+    expect(matchedKey({ membershipTier: 'super_pro' })).toBe('super-pro');
+    expect(matchedKey({ membershipTier: 'pro', familyPlan: true })).toBe('family-plan');
+    expect(matchedKey({ membershipTier: 'pro', freeContract: true })).toBe('free-contract');
+  });
+
+  it('only give initial free contracts to FREE users that still have them', () => {
+    expect(matchedKey({ freeContractsRemaining: 2 })).toBe('initial-free-contracts');
+    expect(matchedKey({ membershipTier: 'pro', freeContractsRemaining: 2 })).toBe('pro');
+  });
+});
+
+describe('evaluateRules', () => {
+  const promo = {
+    ruleKey: 'design-promo',
+    name: 'Promo diseño',
+    priority: 5,
+    categories: ['Diseño'],
+    validFrom: '2026-03-01T00:00:00Z',
+    validUntil: '2026-04-01T00:00:00Z',
+    rate: 4,
+  };
+  const bracket = { ruleKey: 'high-volume', name: 'Alto volumen', priority: 60, minMonthlyVolume: 500000, rate: 5 };
+  const rules = [...DEFAULT_COMMISSION_RULES, promo, bracket];
+
+  it('matches category promotions inside their window only', () => {
+    expect(evaluateRules(rules, context({ category: 'diseño' })).rule?.ruleKey).toBe('design-promo');
+    expect(evaluateRules(rules, context({ category: 'diseño', at: new Date('2026-04-01T00:00:00Z') })).rule?.ruleKey).toBe('free');
+    expect(evaluateRules(rules, context({ category: 'plomería' })).rule?.ruleKey).toBe('free');
+  });
+
+  it('applies volume brackets with an inclusive lower bound', () => {
+    expect(evaluateRules(rules, context({ monthlyVolume: 500000 })).rule?.ruleKey).toBe('high-volume');
+    expect(evaluateRules(rules, context({ monthlyVolume: 499999 })).rule?.ruleKey).toBe('free');
+  });
+
+  it('explains why higher priority rules did not apply', () => {
+    const { trace } = evaluateRules(rules, context({ membershipTier: 'pro', category: 'plomería', at: new Date('2026-05-01') }));
+    expect(trace[0]).toMatchObject({ ruleKey: 'design-promo', matched: false, failed: ['category', 'validity'] });
+    expect(trace.filter((t) => t.matched).map((t) => t.ruleKey)).toEqual(['pro']);
+  });
+});
+
+describe('applyRule', () => {
+  it('applies the rate and the minimum fee', () => {
+    const price = fromDecimal(10000, 'ARS');
+    expect(applyRule({ rate: 8 }, price, { minimum: fromDecimal(1000, 'ARS') })).toEqual({
+      commission: fromDecimal(1000, 'ARS'),
+      minimumApplied: true,
+      maximumApplied: false,
+    });
+    expect(applyRule({ rate: 8 }, fromDecimal(50000, 'ARS'), { minimum: fromDecimal(1000, 'ARS') }).commission).toEqual(
+      fromDecimal(4000, 'ARS')
+    );
+  });
+
+  it('caps the commission at the maximum fee', () => {
+    const result = applyRule({ rate: 8 }, fromDecimal(1000000, 'ARS'), { maximum: fromDecimal(50000, 'ARS') });
+    expect(result.commission).toEqual(fromDecimal(50000, 'ARS'));
+    expect(result.maximumApplied).toBe(true);
+  });
+
+  it('charges nothing on 0% rules without a minimum', () => {
+    expect(applyRule({ rate: 0 }, fromDecimal(10000, 'USDT')).commission).toEqual(fromDecimal(0, 'USDT'));
+  });
+});
+
+describe('parseRuleInput', () => {
+  it('normalizes empty conditions to null', () => {
+    const rule = parseRuleInput({ ruleKey: 'promo', name: 'Promo', priority: '15', rate: '2.5', categories: [], familyPlan: '' });
+    expect(rule).toMatchObject({ ruleKey: 'promo', priority: 15, rate: 2.5, categories: null, familyPlan: null, minimumFee: null });
+  });
+
+  it('rejects inconsistent rules', () => {
+    expect(() => parseRuleInput({ ruleKey: 'Promo!', name: 'x', priority: 1, rate: 1 })).toThrow(/clave/);
+    expect(() => parseRuleInput({ ruleKey: 'promo', name: 'x', priority: 1, rate: 120 })).toThrow(/tasa/);
+    expect(() => parseRuleInput({ ruleKey: 'promo', name: 'x', priority: 1, rate: 1, minimumFee: 10, maximumFee: 5 })).toThrow(/mínima/);
+    expect(() => parseRuleInput({ ruleKey: 'promo', name: 'x', priority: 1, rate: 1, membershipTiers: ['gold'] })).toThrow(/gold/);
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Tests de la tabla de transiciones del ciclo de vida de contratos
+ * (server/services/contractTransitions.ts). Módulo puro: no toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  planTransition,
+  canTransition,
+  resolveActorRole,
+  isAdminActor,
+  ContractTransitionError,
+} from '../../server/services/contractTransitions.js';
+
+const now = new Date('2026-08-05T12:00:00Z');
+
+describe('Contract transitions — legal transitions', () => {
+  it('accept moves a pending contract to accepted and holds the payment', () => {
+    const plan = planTransition({ status: 'pending', paymentStatus: 'pending' }, 'accept', { actorRole: 'client', now });
+    expect(plan.to).toBe('accepted');
+    expect(plan.patch.paymentStatus).toBe('held');
+    expect(plan.patch.termsAccepted).toBe(true);
+  });
+
+  it('completion releases held funds to pending_payout', () => {
+    const plan = planTransition(
+      { status: 'awaiting_confirmation', paymentStatus: 'held', escrowStatus: 'held_escrow' },
+      'confirm_completion',
+      { actorRole: 'doer', now }
+    );
+    expect(plan.to).toBe('completed');
+    expect(plan.patch.paymentStatus).toBe('pending_payout');
+    expect(plan.patch.escrowStatus).toBe('released');
+  });
+
+  it('cancel refunds held funds but leaves unpaid contracts untouched', () => {
+    const held = planTransition({ status: 'accepted', paymentStatus: 'escrow' }, 'cancel', { actorRole: 'doer' });
+    expect(held.patch.paymentStatus).toBe('refunded');
+
+    const unpaid = planTransition({ status: 'pending', paymentStatus: 'pending' }, 'cancel', { actorRole: 'client' });
+    expect(unpaid.patch.paymentStatus).toBeUndefined();
+  });
+
+  it('resolve_dispute accepts an explicit target status', () => {
+    const plan = planTransition({ status: 'disputed', paymentStatus: 'held' }, 'resolve_dispute', {
+      actorRole: 'admin',
+      to: 'cancelled',
+    });
+    expect(plan.to).toBe('cancelled');
+    expect(plan.patch.paymentStatus).toBe('refunded');
+  });
+
+  it('the system proposes completion of expired jobs without touching the payment', () => {
+    const plan = planTransition({ status: 'in_progress', paymentStatus: 'escrow' }, 'propose_completion', {
+      actorRole: 'system',
+      now,
+    });
+    expect(plan.to).toBe('awaiting_confirmation');
+    expect(plan.patch.awaitingConfirmationAt).toEqual(now);
+    expect(plan.patch.paymentStatus).toBeUndefined();
+  });
+});
+
+describe('Contract transitions — rejected transitions', () => {
+  function expectError(fn: () => unknown, code: string, statusCode: number) {
+    try {
+      fn();
+      throw new Error('expected a ContractTransitionError');
+    } catch (error) {
+      expect(error).toBeInstanceOf(ContractTransitionError);
+      expect((error as ContractTransitionError).code).toBe(code);
+      expect((error as ContractTransitionError).statusCode).toBe(statusCode);
+    }
+  }
+
+  it('rejects completing a cancelled contract', () => {
+    expectError(
+      () => planTransition({ status: 'cancelled', paymentStatus: 'refunded' }, 'complete', { actorRole: 'client' }),
+      'ILLEGAL_TRANSITION',
+      409
+    );
+  });
+
+  it('rejects actors that are not allowed to fire the event', () => {
+    expectError(
+      () => planTransition({ status: 'in_progress', paymentStatus: 'held' }, 'complete', { actorRole: 'doer' }),
+      'ACTOR_NOT_ALLOWED',
+      403
+    );
+  });
+
+  it('rejects cancelling a contract whose payment was already paid out', () => {
+    expectError(
+      () => planTransition({ status: 'in_progress', paymentStatus: 'released' }, 'cancel', { actorRole: 'client' }),
+      'PAYMENT_STATUS_MISMATCH',
+      409
+    );
+  });
+
+  it('never persists a completed contract with funds still held', () => {
+    expectError(
+      () =>
+        planTransition({ status: 'in_progress', paymentStatus: 'pending' }, 'complete', {
+          actorRole: 'client',
+          patch: { paymentStatus: 'held' },
+        }),
+      'INCONSISTENT_STATE',
+      409
+    );
+  });
+
+  it('requires a reason for admin overrides', () => {
+    expectError(
+      () => planTransition({ status: 'completed', paymentStatus: 'released' }, 'admin_override', { actorRole: 'admin', to: 'in_progress' }),
+      'REASON_REQUIRED',
+      400
+    );
+  });
+
+  it('canTransition reports illegal transitions without throwing', () => {
+    expect(canTransition({ status: 'completed', paymentStatus: 'released' }, 'dispute', 'client')).toBe(false);
+    expect(canTransition({ status: 'completed', paymentStatus: 'pending_payout' }, 'dispute', 'client')).toBe(true);
+  });
+});
+
+describe('resolveActorRole', () => {
+  const contract = { clientId: 'client-1', doerId: 'doer-1' };
+
+  it('maps parties and admins to their roles', () => {
+    expect(resolveActorRole(contract, { id: 'client-1' })).toBe('client');
+    expect(resolveActorRole(contract, { id: 'doer-1' })).toBe('doer');
+    expect(resolveActorRole(contract, { id: 'admin-1', adminRole: 'super_admin' })).toBe('admin');
+    expect(resolveActorRole(contract, null)).toBe('system');
+  });
+
+  it('returns null for unrelated users', () => {
+    expect(resolveActorRole(contract, { id: 'someone-else', adminRole: 'support' })).toBeNull();
+  });
+
+  it('only owner, super_admin and admin act as admins', () => {
+    expect(isAdminActor('owner')).toBe(true);
+    expect(isAdminActor('admin')).toBe(true);
+    expect(isAdminActor('marketing')).toBe(false);
+    expect(isAdminActor(null)).toBe(false);
+  });
+});
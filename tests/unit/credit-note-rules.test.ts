@@ -0,0 +1,67 @@
+/**
+ * Tests de las notas de crédito (server/services/creditNoteRules.ts):
+ * numeración propia, monto con tope en el saldo de la factura, alcance total
+ * o parcial, conversión con la cotización congelada del pago y motivo.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  CREDIT_NOTE_SERIES,
+  creditReason,
+  nextSeriesNumber,
+  planCreditNote,
+  refundInInvoiceCurrency,
+  refundKey,
+} from '../../server/services/creditNoteRules.js';
+import { fromDecimal, type RateSnapshot } from '../../server/services/money.js';
+
+const snapshot: RateSnapshot = { from: 'USD', to: 'ARS', rate: 1000, source: 'test', quotedAt: '2026-10-01T00:00:00.000Z' };
+
+describe('nextSeriesNumber', () => {
+  it('continues the series of the year', () => {
+    expect(nextSeriesNumber(CREDIT_NOTE_SERIES, 2026, null)).toBe('NC-2026-000001');
+    expect(nextSeriesNumber(CREDIT_NOTE_SERIES, 2026, 'NC-2026-000041')).toBe('NC-2026-000042');
+    expect(nextSeriesNumber('DOAPP', 2026, 'DOAPP-2026-000999')).toBe('DOAPP-2026-001000');
+  });
+});
+
+describe('planCreditNote', () => {
+  it('credits part of the invoice', () => {
+    expect(planCreditNote(10000, [], fromDecimal(2500, 'ARS'))).toEqual({ amount: 2500, scope: 'partial', remaining: 7500 });
+  });
+
+  it('caps the note at what is left and marks it total', () => {
+    expect(planCreditNote(10000, [2500, 5000], fromDecimal(4000, 'ARS'))).toEqual({ amount: 2500, scope: 'total', remaining: 0 });
+    expect(planCreditNote(10000, [], fromDecimal(10000, 'ARS'))).toMatchObject({ scope: 'total' });
+  });
+
+  it('keeps cents exact', () => {
+    expect(planCreditNote(100.3, [0.1], fromDecimal(100.2, 'ARS'))).toEqual({ amount: 100.2, scope: 'total', remaining: 0 });
+  });
+
+  it('returns null when there is nothing to credit', () => {
+    expect(planCreditNote(10000, [10000], fromDecimal(500, 'ARS'))).toBeNull();
+    expect(planCreditNote(10000, [], fromDecimal(0, 'ARS'))).toBeNull();
+  });
+});
+
+describe('refundInInvoiceCurrency', () => {
+  it('converts with the frozen rate of the payment', () => {
+    expect(refundInInvoiceCurrency(fromDecimal(50, 'USD'), 'ARS', snapshot)).toEqual(fromDecimal(50000, 'ARS'));
+    expect(refundInInvoiceCurrency(fromDecimal(50000, 'ARS'), 'USD', snapshot)).toEqual(fromDecimal(50, 'USD'));
+    expect(refundInInvoiceCurrency(fromDecimal(10, 'ARS'), 'ARS')).toEqual(fromDecimal(10, 'ARS'));
+  });
+
+  it('gives up without a rate', () => {
+    expect(refundInInvoiceCurrency(fromDecimal(50, 'USD'), 'ARS', null)).toBeNull();
+  });
+});
+
+describe('reason and key', () => {
+  it('prints the source and the detail', () => {
+    expect(creditReason('dispute')).toBe('Reembolso por resolución de disputa');
+    expect(creditReason('price_change', '  Se achicó el trabajo ')).toBe('Reducción del precio del contrato: Se achicó el trabajo');
+    expect(refundKey('cancellation', 'abc')).toBe('cancellation:abc');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Tests del workflow de disputas (server/services/disputeWorkflowRules.ts):
+ * validación de la config, acción al vencer cada fase, reparto de acuerdos
+ * parciales, respuestas a las propuestas del mediador y línea de tiempo.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_DISPUTE_WORKFLOW,
+  awaitingParties,
+  buildDisputeTimeline,
+  nextPhase,
+  normalizeWorkflowConfig,
+  phaseDeadline,
+  planDeadline,
+  respondToOffer,
+  settlementSplit,
+  statusForPhase,
+  type SettlementOffer,
+} from '../../server/services/disputeWorkflowRules.js';
+
+const NOW = new Date('2026-08-21T12:00:00.000Z');
+const hoursAgo = (h: number) => new Date(NOW.getTime() - h * 3600_000);
+const hoursFromNow = (h: number) => new Date(NOW.getTime() + h * 3600_000);
+
+const offer = (overrides: Partial<SettlementOffer> = {}): SettlementOffer => ({
+  id: 'offer-1',
+  proposedBy: 'admin-1',
+  resolutionType: 'partial_refund',
+  refundAmount: 4000,
+  releaseAmount: 6000,
+  createdAt: hoursAgo(1),
+  expiresAt: hoursFromNow(24),
+  status: 'pending',
+  acceptedBy: {},
+  ...overrides,
+});
+
+describe('normalizeWorkflowConfig', () => {
+  it('completa con los valores por defecto', () => {
+    const config = normalizeWorkflowConfig({ phases: { evidence: { durationHours: 48, onTimeout: 'escalate' } } } as never);
+    expect(config.phases.evidence).toEqual({ durationHours: 48, onTimeout: 'escalate' });
+    expect(config.phases.defendant_response).toEqual(DEFAULT_DISPUTE_WORKFLOW.phases.defendant_response);
+    expect(config.settlementWindowHours).toBe(72);
+    expect(normalizeWorkflowConfig(null)).toEqual(DEFAULT_DISPUTE_WORKFLOW);
+  });
+
+  it('rechaza plazos fuera de rango y acciones inválidas para la fase', () => {
+    expect(() => normalizeWorkflowConfig({ settlementWindowHours: 0 })).toThrow('entre 1 y 720');
+    expect(() =>
+      normalizeWorkflowConfig({ phases: { filing: { durationHours: 24, onTimeout: 'default_outcome' } } } as never)
+    ).toThrow('acción al vencer inválida');
+    expect(() =>
+      normalizeWorkflowConfig({ phases: { final_decision: { durationHours: 5000, onTimeout: 'escalate' } } } as never)
+    ).toThrow('plazo');
+  });
+});
+
+describe('fases', () => {
+  it('avanza en orden y cierra después de la decisión final', () => {
+    expect(nextPhase('filing')).toBe('defendant_response');
+    expect(nextPhase('mediator_proposal')).toBe('final_decision');
+    expect(nextPhase('final_decision')).toBe('closed');
+    expect(nextPhase('closed')).toBe('closed');
+  });
+
+  it('calcula el plazo con la config y el estado visible', () => {
+    expect(phaseDeadline('evidence', NOW, DEFAULT_DISPUTE_WORKFLOW)).toEqual(hoursFromNow(72));
+    expect(phaseDeadline('closed', NOW, DEFAULT_DISPUTE_WORKFLOW)).toBeNull();
+    expect(statusForPhase('defendant_response')).toBe('awaiting_info');
+    expect(statusForPhase('final_decision')).toBe('in_review');
+    expect(statusForPhase('closed')).toBeNull();
+  });
+
+  it('indica a quién se espera', () => {
+    expect(awaitingParties('defendant_response')).toEqual(['defendant']);
+    expect(awaitingParties('evidence', { evidenceClosedBy: ['initiator'] })).toEqual(['defendant']);
+    expect(awaitingParties('mediator_proposal')).toEqual(['mediator']);
+    expect(awaitingParties('mediator_proposal', { pendingOffer: offer({ acceptedBy: { defendant: NOW } }) })).toEqual([
+      'initiator',
+    ]);
+    expect(awaitingParties('closed')).toEqual([]);
+  });
+});
+
+describe('planDeadline', () => {
+  const snapshot = { initiatorRole: 'client' as const, phaseDeadline: hoursAgo(1) };
+
+  it('no hace nada antes del plazo o fuera del workflow', () => {
+    expect(planDeadline({ ...snapshot, phase: 'evidence', phaseDeadline: hoursFromNow(1) }, DEFAULT_DISPUTE_WORKFLOW, NOW)).toEqual({
+      type: 'none',
+    });
+    expect(planDeadline({ ...snapshot, phase: null }, DEFAULT_DISPUTE_WORKFLOW, NOW).type).toBe('none');
+    expect(planDeadline({ ...snapshot, phase: 'final_decision', phaseDeadline: null }, DEFAULT_DISPUTE_WORKFLOW, NOW).type).toBe(
+      'none'
+    );
+  });
+
+  it('sin respuesta del demandado gana el iniciador', () => {
+    expect(planDeadline({ ...snapshot, phase: 'defendant_response' }, DEFAULT_DISPUTE_WORKFLOW, NOW)).toMatchObject({
+      type: 'default_outcome',
+      resolutionType: 'full_refund',
+    });
+    expect(
+      planDeadline({ ...snapshot, initiatorRole: 'doer', phase: 'defendant_response' }, DEFAULT_DISPUTE_WORKFLOW, NOW)
+    ).toMatchObject({ type: 'default_outcome', resolutionType: 'full_release' });
+  });
+
+  it('avanza o escala según la config', () => {
+    expect(planDeadline({ ...snapshot, phase: 'evidence' }, DEFAULT_DISPUTE_WORKFLOW, NOW)).toMatchObject({
+      type: 'advance',
+      to: 'mediator_proposal',
+    });
+    expect(planDeadline({ ...snapshot, phase: 'final_decision' }, DEFAULT_DISPUTE_WORKFLOW, NOW).type).toBe('escalate');
+
+    const config = normalizeWorkflowConfig({ phases: { evidence: { durationHours: 72, onTimeout: 'escalate' } } } as never);
+    expect(planDeadline({ ...snapshot, phase: 'evidence' }, config, NOW).type).toBe('escalate');
+  });
+
+  it('escala si el mediador no presentó propuesta', () => {
+    expect(planDeadline({ ...snapshot, phase: 'mediator_proposal' }, DEFAULT_DISPUTE_WORKFLOW, NOW)).toMatchObject({
+      type: 'escalate',
+    });
+    expect(
+      planDeadline({ ...snapshot, phase: 'mediator_proposal', pendingOffer: offer() }, DEFAULT_DISPUTE_WORKFLOW, NOW)
+    ).toMatchObject({ type: 'advance', to: 'final_decision' });
+  });
+});
+
+describe('settlementSplit', () => {
+  it('reparte el total según el tipo de resolución', () => {
+    expect(settlementSplit('full_refund', 10000)).toEqual({ refundAmount: 10000, releaseAmount: 0 });
+    expect(settlementSplit('full_release', 10000)).toEqual({ refundAmount: 0, releaseAmount: 10000 });
+    expect(settlementSplit('partial_refund', 10000, 3333.335)).toEqual({ refundAmount: 3333.34, releaseAmount: 6666.66 });
+  });
+
+  it('el reembolso parcial tiene que quedar entre 0 y el total', () => {
+    expect(() => settlementSplit('partial_refund', 10000, 0)).toThrow('reembolso parcial');
+    expect(() => settlementSplit('partial_refund', 10000, 10000)).toThrow('reembolso parcial');
+    expect(() => settlementSplit('partial_refund', 10000, null)).toThrow('reembolso parcial');
+  });
+});
+
+describe('respondToOffer', () => {
+  it('queda aceptada cuando aceptan las dos partes', () => {
+    const first = respondToOffer(offer(), 'initiator', true, NOW);
+    expect(first.status).toBe('pending');
+    const second = respondToOffer(first, 'defendant', true, NOW);
+    expect(second.status).toBe('accepted');
+    expect(second.respondedAt).toEqual(NOW);
+  });
+
+  it('el primer rechazo la cierra', () => {
+    const rejected = respondToOffer(offer({ acceptedBy: { initiator: NOW } }), 'defendant', false, NOW, 'Muy poco');
+    expect(rejected).toMatchObject({ status: 'rejected', rejectedBy: 'defendant', rejectionReason: 'Muy poco' });
+  });
+
+  it('rechaza respuestas a propuestas vencidas, cerradas o ya aceptadas', () => {
+    expect(() => respondToOffer(offer({ expiresAt: hoursAgo(1) }), 'initiator', true, NOW)).toThrow('venció');
+    expect(() => respondToOffer(offer({ status: 'superseded' }), 'initiator', true, NOW)).toThrow('ya no está vigente');
+    expect(() => respondToOffer(offer({ acceptedBy: { initiator: NOW } }), 'initiator', false, NOW)).toThrow('Ya aceptaste');
+  });
+});
+
+describe('buildDisputeTimeline', () => {
+  it('ordena fases, escalamientos, propuestas y la resolución', () => {
+    const timeline = buildDisputeTimeline({
+      createdAt: hoursAgo(100),
+      phaseHistory: [
+        { phase: 'filing', startedAt: hoursAgo(100), deadline: hoursAgo(76), endedAt: hoursAgo(90), outcome: 'completed' },
+        { phase: 'defendant_response', startedAt: hoursAgo(90), deadline: hoursAgo(18), endedAt: hoursAgo(50), outcome: 'completed' },
+        { phase: 'evidence', startedAt: hoursAgo(50), deadline: hoursAgo(10), endedAt: hoursAgo(20), outcome: 'forced' },
+        {
+          phase: 'mediator_proposal',
+          startedAt: hoursAgo(20),
+          deadline: null,
+          endedAt: hoursAgo(2),
+          outcome: 'settled',
+          escalatedAt: hoursAgo(15),
+          escalationReason: 'El mediador no presentó una propuesta dentro del plazo',
+        },
+        { phase: 'closed', startedAt: hoursAgo(2), deadline: null },
+      ],
+      settlementOffers: [
+        offer({ createdAt: hoursAgo(12), status: 'accepted', acceptedBy: { initiator: hoursAgo(8), defendant: hoursAgo(2) }, respondedAt: hoursAgo(2) }),
+      ],
+      resolvedAt: hoursAgo(2),
+      resolutionType: 'partial_refund',
+    });
+
+    const times = timeline.map((event) => new Date(event.at).getTime());
+    expect(times).toEqual([...times].sort((a, b) => a - b));
+    expect(timeline.some((event) => event.kind === 'phase_started' && event.phase === 'closed')).toBe(false);
+    expect(timeline.map((event) => event.kind)).toEqual(
+      expect.arrayContaining(['phase_started', 'phase_ended', 'escalated', 'offer_made', 'offer_accepted', 'resolved'])
+    );
+    expect(timeline.find((event) => event.kind === 'offer_made')?.detail).toContain('$4.000');
+  });
+});
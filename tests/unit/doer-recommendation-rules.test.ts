@@ -0,0 +1,149 @@
+/**
+ * Tests del puntaje de recomendaciones doer ↔ trabajo
+ * (server/services/doerRecommendationRules.ts): factores, explicaciones,
+ * agenda semanal y contratos que se superponen.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  JOB_FEED_FACTORS,
+  partialScore,
+  periodsOverlap,
+  scheduleAvailability,
+  scoreDoerForJob,
+  type RecommendationDoer,
+  type RecommendationJob,
+} from '../../server/services/doerRecommendationRules.js';
+
+// Martes 1/9/2026 10:00 en Buenos Aires (UTC-3)
+const job = (overrides: Partial<RecommendationJob> = {}): RecommendationJob => ({
+  category: 'plomeria',
+  location: 'Palermo, C.A.B.A.',
+  latitude: -34.5889,
+  longitude: -58.4306,
+  remoteOk: false,
+  startDate: new Date('2026-09-01T13:00:00Z'),
+  endDate: new Date('2026-09-01T18:00:00Z'),
+  endDateFlexible: false,
+  ...overrides,
+});
+
+const doer = (overrides: Partial<RecommendationDoer> = {}): RecommendationDoer => ({
+  rating: 4.6,
+  reviewsCount: 10,
+  calidadTrabajoRating: '4.80',
+  puntualidadRating: '4.40',
+  profesionalidadRating: 0,
+  trustScore: 100,
+  verificationLevel: 'full',
+  interests: [],
+  availabilitySchedule: { slots: [{ day: 2, start: '09:00', end: '18:00' }] },
+  ...overrides,
+});
+
+const nearby = { latitude: -34.6037, longitude: -58.3816 };
+
+describe('scoreDoerForJob', () => {
+  it('suma todos los factores y explica cada uno', () => {
+    const result = scoreDoerForJob(job(), doer(), { categoryContracts: 5, baseLocation: nearby });
+
+    expect(result.breakdown).toEqual({
+      category: 30, ratings: 23, trust: 15, verification: 10, distance: 10, availability: 10,
+    });
+    expect(result.score).toBe(98);
+    expect(result.distanceKm).toBe(4.8);
+    expect(result.available).toBe(true);
+    expect(result.conflict).toBe(false);
+    expect(result.explanations.map((e) => e.message)).toEqual([
+      'Hizo 5 trabajos de Plomería',
+      'Muy bien calificado en calidad del trabajo (4.8)',
+      'Puntaje de confianza alto (100)',
+      'Verificación completa',
+      'Trabaja habitualmente a 4.8 km',
+      'Disponible en el horario de inicio',
+    ]);
+  });
+
+  it('sin historial, el interés declarado cuenta poco', () => {
+    expect(scoreDoerForJob(job(), doer({ interests: ['plomeria'] })).breakdown.category).toBe(7.5);
+    expect(scoreDoerForJob(job(), doer()).breakdown.category).toBe(0);
+  });
+
+  it('pondera las calificaciones por la cantidad de reseñas', () => {
+    const few = scoreDoerForJob(job(), doer({ reviewsCount: 1, calidadTrabajoRating: 0, puntualidadRating: 0, rating: 4 }));
+    expect(few.breakdown.ratings).toBe(12);
+    expect(few.explanations.find((e) => e.factor === 'ratings')!.message).toBe('Calificación promedio 4.0 en 1 reseña');
+    expect(scoreDoerForJob(job(), doer({ reviewsCount: 0 })).breakdown.ratings).toBe(0);
+  });
+
+  it('la distancia baja linealmente y usa la ciudad si no hay coordenadas', () => {
+    const far = scoreDoerForJob(job(), doer(), { baseLocation: { latitude: -34.92, longitude: -57.95 } });
+    expect(far.distanceKm).toBeGreaterThan(50);
+    expect(far.breakdown.distance).toBe(0);
+
+    const sameCity = scoreDoerForJob(job(), doer({ address: { city: 'Palermo' } }));
+    expect(sameCity.breakdown.distance).toBe(6);
+    expect(sameCity.distanceKm).toBeNull();
+
+    const remote = scoreDoerForJob(job({ category: 'tecnologia' }), doer());
+    expect(remote.breakdown.distance).toBe(10);
+  });
+
+  it('un contrato superpuesto marca conflicto salvo que las categorías puedan superponerse', () => {
+    const busy = [{ startDate: '2026-09-01T12:00:00Z', endDate: '2026-09-01T15:00:00Z', category: 'electricidad' }];
+    const clash = scoreDoerForJob(job(), doer(), { busy });
+    expect(clash.conflict).toBe(true);
+    expect(clash.available).toBe(false);
+    expect(clash.breakdown.availability).toBe(0);
+
+    const remoteBusy = [{ ...busy[0], category: 'tecnologia' }];
+    expect(scoreDoerForJob(job(), doer(), { busy: remoteBusy }).conflict).toBe(false);
+  });
+
+  it('sin agenda ni contratos la disponibilidad es neutra', () => {
+    const result = scoreDoerForJob(job(), doer({ availabilitySchedule: null }));
+    expect(result.available).toBeNull();
+    expect(result.breakdown.availability).toBe(5);
+  });
+});
+
+describe('scheduleAvailability', () => {
+  const start = new Date('2026-09-01T13:00:00Z'); // martes 10:00 en Buenos Aires
+
+  it('compara en la zona horaria de la agenda', () => {
+    expect(scheduleAvailability({ slots: [{ day: 2, start: '09:00', end: '11:00' }] }, start)).toBe(true);
+    expect(scheduleAvailability({ slots: [{ day: 2, start: '14:00', end: '18:00' }] }, start)).toBe('day');
+    expect(scheduleAvailability({ slots: [{ day: 3, start: '09:00', end: '18:00' }] }, start)).toBe(false);
+    expect(scheduleAvailability({ timezone: 'UTC', slots: [{ day: 2, start: '13:00', end: '14:00' }] }, start)).toBe(true);
+  });
+
+  it('las excepciones por fecha tienen prioridad', () => {
+    const schedule = {
+      slots: [{ day: 2, start: '09:00', end: '18:00' }],
+      exceptions: [{ date: '2026-09-01', available: false, reason: 'Vacaciones' }],
+    };
+    expect(scheduleAvailability(schedule, start)).toBe(false);
+    expect(scheduleAvailability({ slots: [], exceptions: [{ date: '2026-09-01', available: true }] }, start)).toBe(true);
+    expect(scheduleAvailability(undefined, start)).toBeNull();
+  });
+});
+
+describe('periodsOverlap', () => {
+  it('con fin flexible compara el día de inicio', () => {
+    const busy = { startDate: '2026-09-01T20:00:00Z', endDate: '2026-09-02T20:00:00Z', category: 'plomeria' };
+    expect(periodsOverlap(job(), busy)).toBe(false);
+    expect(periodsOverlap(job({ endDate: '2026-09-03T00:00:00Z' }), busy)).toBe(true);
+    expect(periodsOverlap(job({ endDateFlexible: true }), { ...busy, startDate: '2026-09-01T15:00:00Z' })).toBe(true);
+  });
+});
+
+describe('partialScore', () => {
+  it('reescala a 100 solo los factores del feed', () => {
+    const result = scoreDoerForJob(job(), doer({ trustScore: 0, verificationLevel: 'none' }), {
+      categoryContracts: 5,
+      baseLocation: nearby,
+    });
+    expect(partialScore(result, JOB_FEED_FACTORS)).toBe(100);
+  });
+});
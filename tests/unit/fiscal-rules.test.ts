@@ -0,0 +1,266 @@
+/**
+ * Tests de la facturación electrónica AFIP (server/services/fiscalRules.ts):
+ * tipo de comprobante según la condición fiscal, CUIT, configuración del
+ * emisor, documento del receptor, importes, pedidos y respuestas de WSFE/WSAA,
+ * notas de crédito asociadas, QR de la RG 4291 y tope de monotributo.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DOC_TYPES,
+  RECEIVER_IVA_CONDITIONS,
+  afipQrUrl,
+  buildFecaeSolicitar,
+  creditNoteVoucherType,
+  fiscalAmounts,
+  fiscalLabels,
+  fiscalVoucherType,
+  formatFiscalNumber,
+  invoicingReadiness,
+  isValidCuit,
+  monotributoCrossing,
+  monotributoUsage,
+  parseFecaeResponse,
+  parseFiscalSettings,
+  parseLastAuthorized,
+  parseLoginTicketResponse,
+  receiverDocument,
+  wsfeDate,
+} from '../../server/services/fiscalRules.js';
+
+const ISSUER_CUIT = '20123456786';
+const CLIENT_CUIT = '30123456781';
+const auth = { token: 'TOKEN', sign: 'SIGN', cuit: ISSUER_CUIT };
+
+describe('issuer configuration', () => {
+  it('picks Factura C for monotributistas and B for responsables inscriptos', () => {
+    expect(fiscalVoucherType('monotributo')).toBe('factura_c');
+    expect(fiscalVoucherType('responsable_inscripto')).toBe('factura_b');
+    expect(fiscalVoucherType('particular')).toBeNull();
+  });
+
+  it('validates the CUIT check digit', () => {
+    expect(isValidCuit('20-12345678-6')).toBe(true);
+    expect(isValidCuit(CLIENT_CUIT)).toBe(true);
+    expect(isValidCuit('20123456789')).toBe(false);
+    expect(isValidCuit('2012345678')).toBe(false);
+  });
+
+  it('parses the invoicing settings', () => {
+    expect(parseFiscalSettings({ fiscalCuit: '20-12345678-6', fiscalPointOfSale: '3', electronicInvoicingEnabled: true })).toEqual({
+      fiscalCuit: ISSUER_CUIT,
+      fiscalPointOfSale: 3,
+      electronicInvoicingEnabled: true,
+    });
+    expect(parseFiscalSettings({ fiscalPointOfSale: '' })).toEqual({ fiscalPointOfSale: null });
+    expect(parseFiscalSettings({})).toEqual({});
+    expect(() => parseFiscalSettings({ fiscalCuit: '20123456789' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseFiscalSettings({ fiscalPointOfSale: 0 })).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it('lists what is missing to issue', () => {
+    const issuer = {
+      membershipTier: 'super_pro',
+      fiscalCondition: 'monotributo',
+      fiscalCuit: ISSUER_CUIT,
+      fiscalPointOfSale: 3,
+      electronicInvoicingEnabled: true,
+    };
+    expect(invoicingReadiness(issuer)).toEqual({ ready: true, voucherType: 'factura_c', missing: [] });
+    expect(invoicingReadiness({ ...issuer, membershipTier: 'pro', fiscalPointOfSale: null }).missing).toEqual([
+      'Membresía SUPER PRO',
+      'Punto de venta',
+    ]);
+  });
+});
+
+describe('receiverDocument', () => {
+  it('uses the VAT number, then the CUIT/DNI, then consumidor final', () => {
+    expect(receiverDocument({ vatNumber: '30-12345678-1', taxStatus: 'responsable_inscripto' })).toEqual({
+      docType: DOC_TYPES.cuit,
+      docNumber: CLIENT_CUIT,
+      ivaCondition: RECEIVER_IVA_CONDITIONS.responsableInscripto,
+    });
+    expect(receiverDocument({ idType: 'dni', taxStatus: 'monotributo' }, '30.123.456')).toEqual({
+      docType: DOC_TYPES.dni,
+      docNumber: '30123456',
+      ivaCondition: RECEIVER_IVA_CONDITIONS.consumidorFinal,
+    });
+    expect(receiverDocument(null)).toEqual({
+      docType: DOC_TYPES.consumidorFinal,
+      docNumber: '0',
+      ivaCondition: RECEIVER_IVA_CONDITIONS.consumidorFinal,
+    });
+  });
+
+  it('prints the conditions and the document', () => {
+    expect(fiscalLabels('monotributo', { docType: DOC_TYPES.cuit, docNumber: CLIENT_CUIT, ivaCondition: 1 })).toEqual({
+      issuerCondition: 'Responsable Monotributo',
+      receiverCondition: 'IVA Responsable Inscripto',
+      receiverDocument: 'CUIT 30-12345678-1',
+    });
+    expect(fiscalLabels('responsable_inscripto', { docType: 99, docNumber: '0', ivaCondition: 5 }).receiverDocument).toBeUndefined();
+  });
+});
+
+describe('fiscalAmounts', () => {
+  it('does not split VAT on a Factura C', () => {
+    expect(fiscalAmounts('factura_c', 45000)).toEqual({ total: 45000, net: 45000, vat: 0, vatRate: 0 });
+  });
+
+  it('takes the 21% VAT out of the total on a Factura B', () => {
+    expect(fiscalAmounts('factura_b', 12100)).toEqual({ total: 12100, net: 10000, vat: 2100, vatRate: 21 });
+    expect(fiscalAmounts('factura_b', 1000)).toEqual({ total: 1000, net: 826.45, vat: 173.55, vatRate: 21 });
+  });
+
+  it('rejects empty amounts', () => {
+    expect(() => fiscalAmounts('factura_c', 0)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('WSFE', () => {
+  const voucher = {
+    voucherType: 'factura_b' as const,
+    pointOfSale: 3,
+    number: 42,
+    date: new Date('2026-11-01T02:00:00Z'),
+    serviceFrom: new Date('2026-10-20T12:00:00Z'),
+    serviceTo: new Date('2026-10-30T12:00:00Z'),
+    amounts: fiscalAmounts('factura_b', 12100),
+    receiver: { docType: DOC_TYPES.consumidorFinal, docNumber: '0', ivaCondition: RECEIVER_IVA_CONDITIONS.consumidorFinal },
+  };
+
+  it('uses Argentine dates', () => {
+    expect(wsfeDate(new Date('2026-11-01T02:00:00Z'))).toBe('20261031');
+    expect(formatFiscalNumber(3, 42)).toBe('00003-00000042');
+  });
+
+  it('builds the FECAESolicitar request', () => {
+    const xml = buildFecaeSolicitar(auth, voucher);
+    expect(xml).toContain(`<ar:Auth><ar:Token>TOKEN</ar:Token><ar:Sign>SIGN</ar:Sign><ar:Cuit>${ISSUER_CUIT}</ar:Cuit></ar:Auth>`);
+    expect(xml).toContain('<ar:FeCabReq><ar:CantReg>1</ar:CantReg><ar:PtoVta>3</ar:PtoVta><ar:CbteTipo>6</ar:CbteTipo></ar:FeCabReq>');
+    expect(xml).toContain('<ar:CbteDesde>42</ar:CbteDesde><ar:CbteHasta>42</ar:CbteHasta><ar:CbteFch>20261031</ar:CbteFch>');
+    expect(xml).toContain('<ar:ImpTotal>12100.00</ar:ImpTotal>');
+    expect(xml).toContain('<ar:FchServDesde>20261020</ar:FchServDesde><ar:FchServHasta>20261030</ar:FchServHasta>');
+    expect(xml).toContain('<ar:Iva><ar:AlicIva><ar:Id>5</ar:Id><ar:BaseImp>10000.00</ar:BaseImp><ar:Importe>2100.00</ar:Importe></ar:AlicIva></ar:Iva>');
+
+    const facturaC = buildFecaeSolicitar(auth, { ...voucher, voucherType: 'factura_c', amounts: fiscalAmounts('factura_c', 12100) });
+    expect(facturaC).toContain('<ar:CbteTipo>11</ar:CbteTipo>');
+    expect(facturaC).not.toContain('<ar:Iva>');
+  });
+
+  it('associates a credit note with the invoice it credits', () => {
+    expect(creditNoteVoucherType('factura_b')).toBe('nota_credito_b');
+    expect(creditNoteVoucherType('factura_c')).toBe('nota_credito_c');
+    expect(() => creditNoteVoucherType('nota_credito_c')).toThrow(expect.objectContaining({ statusCode: 400 }));
+
+    const xml = buildFecaeSolicitar(auth, {
+      ...voucher,
+      voucherType: 'nota_credito_c',
+      number: 7,
+      amounts: fiscalAmounts('nota_credito_c', 5000),
+      associated: { voucherType: 'factura_c', pointOfSale: 3, number: 42, issuerCuit: '20-12345678-6', date: new Date('2026-10-31T15:00:00Z') },
+    });
+    expect(xml).toContain('<ar:CbteTipo>13</ar:CbteTipo>');
+    expect(xml).toContain(
+      `<ar:CondicionIVAReceptorId>5</ar:CondicionIVAReceptorId><ar:CbtesAsoc><ar:CbteAsoc><ar:Tipo>11</ar:Tipo><ar:PtoVta>3</ar:PtoVta><ar:Nro>42</ar:Nro><ar:Cuit>${ISSUER_CUIT}</ar:Cuit><ar:CbteFch>20261031</ar:CbteFch></ar:CbteAsoc></ar:CbtesAsoc>`
+    );
+    expect(fiscalAmounts('nota_credito_b', 12100)).toMatchObject({ net: 10000, vat: 2100 });
+  });
+
+  it('reads an approved authorization', () => {
+    const xml = `<soap:Envelope><soap:Body><FECAESolicitarResponse><FECAESolicitarResult>
+      <FeCabResp><Cuit>${ISSUER_CUIT}</Cuit><Resultado>A</Resultado></FeCabResp>
+      <FeDetResp><FECAEDetResponse><CbteDesde>42</CbteDesde><Resultado>A</Resultado>
+      <Observaciones><Obs><Code>10217</Code><Msg>Aviso &amp; nota</Msg></Obs></Observaciones>
+      <CAE>76123456789012</CAE><CAEFchVto>20261110</CAEFchVto></FECAEDetResponse></FeDetResp>
+      </FECAESolicitarResult></FECAESolicitarResponse></soap:Body></soap:Envelope>`;
+    expect(parseFecaeResponse(xml)).toEqual({
+      result: 'A',
+      cae: '76123456789012',
+      caeExpiresAt: new Date('2026-11-10T00:00:00.000Z'),
+      number: 42,
+      messages: ['10217: Aviso & nota'],
+    });
+  });
+
+  it('reads a rejection and SOAP faults', () => {
+    const rejected = `<FECAESolicitarResult><FeDetResp><FECAEDetResponse><Resultado>R</Resultado><CAE></CAE></FECAEDetResponse></FeDetResp>
+      <Errors><Err><Code>10016</Code><Msg>El numero de comprobante no es el proximo a autorizar</Msg></Err></Errors></FECAESolicitarResult>`;
+    expect(parseFecaeResponse(rejected)).toMatchObject({
+      result: 'R',
+      cae: null,
+      messages: ['10016: El numero de comprobante no es el proximo a autorizar'],
+    });
+    expect(() => parseFecaeResponse('<soap:Fault><faultstring>Token vencido</faultstring></soap:Fault>')).toThrow(
+      expect.objectContaining({ statusCode: 502 })
+    );
+  });
+
+  it('reads the last authorized number', () => {
+    expect(parseLastAuthorized('<FECompUltimoAutorizadoResult><PtoVta>3</PtoVta><CbteTipo>11</CbteTipo><CbteNro>41</CbteNro></FECompUltimoAutorizadoResult>')).toBe(41);
+    expect(() => parseLastAuthorized('<Errors><Err><Code>600</Code><Msg>No autorizado</Msg></Err></Errors>')).toThrow(
+      expect.objectContaining({ statusCode: 502 })
+    );
+  });
+
+  it('reads the WSAA ticket escaped inside loginCmsReturn', () => {
+    const ticket = '<loginTicketResponse><header><expirationTime>2026-11-01T14:00:00.000-03:00</expirationTime></header>'
+      + '<credentials><token>PD94bWw=</token><sign>c2lnbg==</sign></credentials></loginTicketResponse>';
+    const xml = `<soapenv:Envelope><soapenv:Body><loginCmsResponse><loginCmsReturn>${ticket.replace(/</g, '&lt;').replace(/>/g, '&gt;')}</loginCmsReturn></loginCmsResponse></soapenv:Body></soapenv:Envelope>`;
+    expect(parseLoginTicketResponse(xml)).toEqual({
+      token: 'PD94bWw=',
+      sign: 'c2lnbg==',
+      expiresAt: new Date('2026-11-01T17:00:00.000Z'),
+    });
+  });
+});
+
+describe('afipQrUrl', () => {
+  it('encodes the RG 4291 payload', () => {
+    const url = afipQrUrl({
+      date: new Date('2026-11-01T02:00:00Z'),
+      issuerCuit: ISSUER_CUIT,
+      pointOfSale: 3,
+      voucherType: 'factura_c',
+      number: 42,
+      total: 45000,
+      receiver: { docType: DOC_TYPES.cuit, docNumber: CLIENT_CUIT, ivaCondition: 6 },
+      cae: '76123456789012',
+    });
+    expect(url).toMatch(/^https:\/\/www\.afip\.gob\.ar\/fe\/qr\/\?p=/);
+    expect(JSON.parse(Buffer.from(url.split('?p=')[1], 'base64').toString())).toEqual({
+      ver: 1,
+      fecha: '2026-10-31',
+      cuit: 20123456786,
+      ptoVta: 3,
+      tipoCmp: 11,
+      nroCmp: 42,
+      importe: 45000,
+      moneda: 'PES',
+      ctz: 1,
+      tipoDocRec: 80,
+      nroDocRec: 30123456781,
+      tipoCodAut: 'E',
+      codAut: 76123456789012,
+    });
+  });
+});
+
+describe('monotributo limit', () => {
+  it('measures the invoiced total against the category cap', () => {
+    expect(monotributoUsage(5418000, 6450000)).toEqual({ invoiced: 5418000, limit: 6450000, percent: 84, level: 'near' });
+    expect(monotributoUsage(7000000, '6450000' as unknown as number)).toMatchObject({ percent: 109, level: 'over' });
+    expect(monotributoUsage(100, null)).toEqual({ invoiced: 100, limit: null, percent: null, level: 'ok' });
+  });
+
+  it('reports only when an invoice moves to a higher level', () => {
+    const ok = monotributoUsage(4000000, 6450000);
+    const near = monotributoUsage(5418000, 6450000);
+    const over = monotributoUsage(6500000, 6450000);
+    expect(monotributoCrossing(ok, near)).toBe('near');
+    expect(monotributoCrossing(near, near)).toBeNull();
+    expect(monotributoCrossing(ok, over)).toBe('over');
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * Tests del armado de tsquery para la búsqueda full-text de trabajos
+ * (server/utils/fullTextSearch.ts). Módulo puro: no toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildPrefixTsQuery,
+  stripAccents,
+  tsQueryExpression,
+} from '../../server/utils/fullTextSearch.js';
+
+describe('buildPrefixTsQuery', () => {
+  it('turns every term into a prefix match joined with AND', () => {
+    expect(buildPrefixTsQuery('plomero urgente')).toBe('plomero:* & urgente:*');
+  });
+
+  it('is accent and case insensitive', () => {
+    expect(buildPrefixTsQuery('Instalación ELÉCTRICA')).toBe('instalacion:* & electrica:*');
+    expect(stripAccents('pingüino año')).toBe('pinguino ano');
+  });
+
+  it('drops tsquery operators and punctuation from user input', () => {
+    expect(buildPrefixTsQuery("pintura & !techo | (casa):* 'x'")).toBe('pintura:* & techo:* & casa:* & x:*');
+  });
+
+  it('removes duplicated terms', () => {
+    expect(buildPrefixTsQuery('jardín jardin')).toBe('jardin:*');
+  });
+
+  it('returns null when nothing searchable is left', () => {
+    expect(buildPrefixTsQuery('')).toBeNull();
+    expect(buildPrefixTsQuery(undefined)).toBeNull();
+    expect(buildPrefixTsQuery('  &|!  ')).toBeNull();
+  });
+});
+
+describe('tsQueryExpression', () => {
+  it('ORs the query across the spanish and english configurations', () => {
+    expect(tsQueryExpression("'casa:*'")).toBe("to_tsquery('spanish', 'casa:*') || to_tsquery('english', 'casa:*')");
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tests de utilidades geográficas (server/utils/geo.ts): haversine, bounding
+ * box y condiciones de búsqueda por radio. No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  boundingBox,
+  distanceKmSql,
+  haversineKm,
+  isValidCoordinate,
+  radiusWhere,
+  JOB_COORDINATES,
+} from '../../server/utils/geo.js';
+
+const obelisco = { latitude: -34.6037, longitude: -58.3816 };
+const laPlata = { latitude: -34.9214, longitude: -57.9545 };
+
+describe('haversineKm', () => {
+  it('measures the distance between two points in km', () => {
+    const km = haversineKm(obelisco.latitude, obelisco.longitude, laPlata.latitude, laPlata.longitude);
+    expect(km).toBeGreaterThan(50);
+    expect(km).toBeLessThan(54);
+  });
+
+  it('is zero for the same point', () => {
+    expect(haversineKm(obelisco.latitude, obelisco.longitude, obelisco.latitude, obelisco.longitude)).toBe(0);
+  });
+});
+
+describe('boundingBox', () => {
+  it('contains every point within the radius', () => {
+    const box = boundingBox(obelisco, 60);
+    expect(laPlata.latitude).toBeGreaterThanOrEqual(box.minLat);
+    expect(laPlata.latitude).toBeLessThanOrEqual(box.maxLat);
+    expect(laPlata.longitude).toBeGreaterThanOrEqual(box.minLng!);
+    expect(laPlata.longitude).toBeLessThanOrEqual(box.maxLng!);
+  });
+
+  it('excludes points outside the radius', () => {
+    const box = boundingBox(obelisco, 10);
+    expect(laPlata.latitude).toBeLessThan(box.minLat);
+  });
+
+  it('drops the longitude range when the box crosses the antimeridian', () => {
+    const box = boundingBox({ latitude: 0, longitude: 179.9 }, 50);
+    expect(box.minLng).toBeNull();
+    expect(box.maxLng).toBeNull();
+  });
+});
+
+describe('isValidCoordinate', () => {
+  it('accepts numeric strings and rejects missing or out of range values', () => {
+    expect(isValidCoordinate('-34.6', '-58.38')).toBe(true);
+    expect(isValidCoordinate(0, 0)).toBe(true);
+    expect(isValidCoordinate(undefined, -58)).toBe(false);
+    expect(isValidCoordinate('', '')).toBe(false);
+    expect(isValidCoordinate('abc', 10)).toBe(false);
+    expect(isValidCoordinate(91, 10)).toBe(false);
+  });
+});
+
+describe('radius SQL', () => {
+  it('only interpolates numbers into the distance expression', () => {
+    const sql = distanceKmSql(obelisco, JOB_COORDINATES.latColumn, JOB_COORDINATES.lngColumn);
+    expect(sql).toContain('"Job"."latitude" - -34.6037');
+    expect(sql).toContain('radians(-34.6037)');
+  });
+
+  it('builds bounding box + haversine conditions', () => {
+    const conditions = radiusWhere(obelisco, 5, JOB_COORDINATES);
+    expect(conditions).toHaveLength(3);
+    expect(Object.keys(conditions[0])).toEqual(['latitude']);
+    expect(Object.keys(conditions[1])).toEqual(['longitude']);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests de las reglas del scheduler de jobs (server/services/jobSchedulerRules.ts):
+ * parser cron, próxima ejecución y agrupación de ejecuciones perdidas.
+ * Fechas en hora local, igual que el scheduler. No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  parseCron,
+  nextRunAfter,
+  dueRun,
+  TICK_INTERVAL_MS,
+} from '../../server/services/jobSchedulerRules.js';
+
+const at = (y: number, mo: number, d: number, h = 0, mi = 0, s = 0) => new Date(y, mo - 1, d, h, mi, s);
+
+describe('parseCron', () => {
+  it('parses steps, ranges and lists', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 * 1-5');
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect(schedule.months.size).toBe(12);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('treats 7 as sunday', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(/5 campos/);
+    expect(() => parseCron('60 * * * *')).toThrow(/minuto/);
+    expect(() => parseCron('*/0 * * * *')).toThrow(/paso/);
+    expect(() => parseCron('0 0 0 * *')).toThrow(/día del mes/);
+  });
+});
+
+describe('nextRunAfter', () => {
+  it('returns the next matching minute, strictly after the given time', () => {
+    expect(nextRunAfter('*/5 * * * *', at(2026, 3, 10, 10, 5))).toEqual(at(2026, 3, 10, 10, 10));
+    expect(nextRunAfter('*/5 * * * *', at(2026, 3, 10, 10, 7, 30))).toEqual(at(2026, 3, 10, 10, 10));
+  });
+
+  it('rolls over hours, days and months', () => {
+    expect(nextRunAfter('0 */6 * * *', at(2026, 3, 10, 19, 0))).toEqual(at(2026, 3, 11, 0, 0));
+    expect(nextRunAfter('0 9 * * *', at(2026, 3, 10, 9, 0))).toEqual(at(2026, 3, 11, 9, 0));
+    expect(nextRunAfter('0 0 1 * *', at(2026, 12, 15))).toEqual(at(2027, 1, 1));
+    expect(nextRunAfter('0 9 10 1,7 *', at(2026, 1, 10, 9, 0))).toEqual(at(2026, 7, 10, 9, 0));
+  });
+
+  it('uses OR when both day of month and day of week are restricted', () => {
+    // 2026-03-10 es martes: "día 15 o lunes" cae el domingo 15, antes que el lunes 16
+    expect(nextRunAfter('0 0 15 * 1', at(2026, 3, 10))).toEqual(at(2026, 3, 15));
+    expect(nextRunAfter('0 0 * * 1', at(2026, 3, 10))).toEqual(at(2026, 3, 16));
+  });
+});
+
+describe('dueRun', () => {
+  it('is null until nextRunAt is reached', () => {
+    expect(dueRun('*/5 * * * *', at(2026, 3, 10, 10, 5), at(2026, 3, 10, 10, 4, 59))).toBeNull();
+  });
+
+  it('runs an on-time slot as a regular scheduled run', () => {
+    const now = new Date(at(2026, 3, 10, 10, 5).getTime() + TICK_INTERVAL_MS / 2);
+    expect(dueRun('*/5 * * * *', at(2026, 3, 10, 10, 5), now)).toEqual({
+      scheduledFor: at(2026, 3, 10, 10, 5),
+      missedRuns: 0,
+      trigger: 'schedule',
+      nextRunAt: at(2026, 3, 10, 10, 10),
+    });
+  });
+
+  it('coalesces missed slots into a single catch-up run', () => {
+    // Caído desde las 10:05 hasta las 10:32 → se ejecuta una vez por las 10:30
+    const run = dueRun('*/5 * * * *', at(2026, 3, 10, 10, 5), at(2026, 3, 10, 10, 32));
+    expect(run).toEqual({
+      scheduledFor: at(2026, 3, 10, 10, 30),
+      missedRuns: 5,
+      trigger: 'catch_up',
+      nextRunAt: at(2026, 3, 10, 10, 35),
+    });
+  });
+
+  it('flags a late single slot as catch-up', () => {
+    const run = dueRun('0 0 1 * *', at(2026, 3, 1), at(2026, 3, 1, 6, 0));
+    expect(run?.trigger).toBe('catch_up');
+    expect(run?.missedRuns).toBe(0);
+    expect(run?.nextRunAt).toEqual(at(2026, 4, 1));
+  });
+});
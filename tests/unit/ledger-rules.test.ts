@@ -0,0 +1,172 @@
+/**
+ * Tests de las reglas del ledger de doble partida (server/services/ledgerRules.ts):
+ * validación de asientos, saldos de billeteras y conciliación. No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  assertBalanced,
+  escrowMovement,
+  findWalletDrift,
+  normalizeLines,
+  paymentCapturePlan,
+  walletAccountCode,
+  walletDeltas,
+  LedgerError,
+} from '../../server/services/ledgerRules.js';
+
+describe('normalizeLines', () => {
+  it('converts amounts to cents and resolves wallet accounts', () => {
+    const lines = normalizeLines([
+      { account: 'escrow_holding', debit: 1000.1 },
+      { account: { userWallet: 'u1' }, credit: 1000.1 },
+    ]);
+    expect(lines).toEqual([
+      { accountCode: 'escrow_holding', userId: null, debitCents: 100010, creditCents: 0 },
+      { accountCode: walletAccountCode('u1'), userId: 'u1', debitCents: 0, creditCents: 100010 },
+    ]);
+  });
+
+  it('drops zero lines and rejects entries with fewer than two lines', () => {
+    expect(() =>
+      normalizeLines([
+        { account: 'escrow_holding', debit: 0 },
+        { account: 'platform_cash', credit: 50 },
+      ])
+    ).toThrow(LedgerError);
+  });
+
+  it('rejects negative amounts and lines with both sides', () => {
+    expect(() =>
+      normalizeLines([
+        { account: 'escrow_holding', debit: -10 },
+        { account: 'platform_cash', credit: -10 },
+      ])
+    ).toThrow('negativos');
+    expect(() =>
+      normalizeLines([
+        { account: 'escrow_holding', debit: 10, credit: 10 },
+        { account: 'platform_cash', credit: 10 },
+      ])
+    ).toThrow('débito y crédito');
+  });
+});
+
+describe('assertBalanced', () => {
+  it('accepts entries whose debits equal credits to the cent', () => {
+    const lines = normalizeLines([
+      { account: 'escrow_holding', debit: 0.1 + 0.2 },
+      { account: 'platform_commission', credit: 0.1 },
+      { account: 'payout_clearing', credit: 0.2 },
+    ]);
+    expect(() => assertBalanced(lines)).not.toThrow();
+  });
+
+  it('rejects unbalanced entries', () => {
+    const lines = normalizeLines([
+      { account: 'escrow_holding', debit: 100 },
+      { account: 'payout_clearing', credit: 99.99 },
+    ]);
+    try {
+      assertBalanced(lines);
+      throw new Error('expected an error');
+    } catch (error: any) {
+      expect(error).toBeInstanceOf(LedgerError);
+      expect(error.code).toBe('UNBALANCED');
+    }
+  });
+});
+
+describe('walletDeltas', () => {
+  it('sums credits minus debits per user', () => {
+    const deltas = walletDeltas(
+      normalizeLines([
+        { account: { userWallet: 'b' }, debit: 30 },
+        { account: { userWallet: 'a' }, credit: 20 },
+        { account: { userWallet: 'b' }, credit: 5 },
+        { account: 'escrow_holding', credit: 5 },
+      ])
+    );
+    expect([...deltas.entries()]).toEqual([
+      ['a', 2000],
+      ['b', -2500],
+    ]);
+  });
+});
+
+describe('escrowMovement', () => {
+  it('releases held funds when the contract is paid out', () => {
+    expect(escrowMovement({ paymentStatus: 'held' }, 'pending_payout')).toBe('release');
+    expect(escrowMovement({ paymentStatus: 'escrow' }, 'released')).toBe('release');
+  });
+
+  it('refunds held funds', () => {
+    expect(escrowMovement({ paymentStatus: 'held' }, 'refunded')).toBe('refund');
+    expect(escrowMovement({ paymentStatus: 'pending', escrowStatus: 'held_escrow' }, 'partially_refunded')).toBe('partial_refund');
+  });
+
+  it('ignores contracts without held funds or without a status change', () => {
+    expect(escrowMovement({ paymentStatus: 'pending' }, 'pending_payout')).toBeNull();
+    expect(escrowMovement({ paymentStatus: 'held' }, 'held')).toBeNull();
+    expect(escrowMovement({ paymentStatus: 'held' }, 'disputed')).toBeNull();
+  });
+});
+
+describe('findWalletDrift', () => {
+  it('flags users whose balance differs from the ledger, largest drift first', () => {
+    const drift = findWalletDrift([
+      { userId: 'ok', balance: '150.00', ledgerBalance: 150 },
+      { userId: 'small', balance: 10, ledgerBalance: '9.5' },
+      { userId: 'big', currency: 'USDT', balance: 0, ledgerBalance: 500 },
+      { userId: 'none', balance: null, ledgerBalance: null },
+    ]);
+    expect(drift.map((d) => d.userId)).toEqual(['big', 'small']);
+    expect(drift[0]).toMatchObject({ currency: 'USDT', drift: -500 });
+    expect(drift[1]).toMatchObject({ currency: 'ARS', drift: 0.5 });
+  });
+});
+
+describe('currency accounts', () => {
+  it('keeps peso account codes and suffixes other currencies', () => {
+    const lines = normalizeLines(
+      [
+        { account: 'escrow_holding', debit: 25 },
+        { account: { userWallet: 'u1' }, credit: 25 },
+      ],
+      'USDT'
+    );
+    expect(lines.map((l) => l.accountCode)).toEqual(['escrow_holding@USDT', 'user_wallet:u1@USDT']);
+    expect(walletAccountCode('u1')).toBe('user_wallet:u1');
+  });
+});
+
+describe('paymentCapturePlan', () => {
+  it('settles a peso payment of a USDT contract in USDT', () => {
+    const plan = paymentCapturePlan({
+      amount: '130000.00',
+      currency: 'ARS',
+      platformFee: '8.00',
+      settlementCurrency: 'USDT',
+      settlementAmount: '108.00',
+      rateSnapshot: { from: 'USDT', to: 'ARS', rate: 1203.7, source: 'binance', quotedAt: '2026-03-10T12:00:00.000Z' },
+    });
+    expect(plan).toMatchObject({
+      charged: { currency: 'ARS', amount: 130000 },
+      settled: { currency: 'USDT', amount: 108, fee: 8 },
+    });
+    expect(plan?.rateSnapshot?.source).toBe('binance');
+  });
+
+  it('keeps the legacy peso settlement for payments without a settlement currency', () => {
+    expect(paymentCapturePlan({ amount: 100, currency: 'USD', exchangeRate: 1400, platformFee: 500 })).toMatchObject({
+      charged: { currency: 'ARS', amount: 140000 },
+      settled: { currency: 'ARS', amount: 140000, fee: 500 },
+    });
+    expect(paymentCapturePlan({ amount: 5000, currency: 'ARS', amountArs: 5000 })?.settled).toEqual({
+      currency: 'ARS',
+      amount: 5000,
+      fee: 0,
+    });
+    expect(paymentCapturePlan({ amount: 0, currency: 'ARS' })).toBeNull();
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Tests de la búsqueda y exportación de mensajes
+ * (server/services/messageSearchRules.ts): filtros de la búsqueda, fragmentos
+ * con los términos marcados, texto de los mensajes del sistema, paquete de
+ * exportación con adjuntos y eventos, y evidencia para disputas.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  MAX_SEARCH_LIMIT,
+  assertCanAttachToDispute,
+  buildConversationExport,
+  buildSnippet,
+  exportFileName,
+  messageDisplayText,
+  messageSnippet,
+  parseExportFormat,
+  parseMessageSearch,
+  pdfSafeText,
+} from '../../server/services/messageSearchRules.js';
+
+const ANA = '11111111-1111-4111-8111-111111111111';
+const LUIS = '22222222-2222-4222-8222-222222222222';
+const SOFIA = '33333333-3333-4333-8333-333333333333';
+const CONVERSATION = 'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa';
+
+const matched = (segments: Array<{ text: string; match: boolean }> | null) =>
+  (segments || []).filter((segment) => segment.match).map((segment) => segment.text);
+
+describe('parseMessageSearch', () => {
+  it('builds a prefix query and keeps the filters', () => {
+    const filters = parseMessageSearch({ q: 'Presupuesto caño', counterpartId: LUIS, from: '2026-11-01', to: '2026-11-02' });
+    expect(filters).toMatchObject({
+      tsQuery: 'presupuesto:* & cano:*',
+      terms: ['presupuesto', 'cano'],
+      conversationId: null,
+      counterpartId: LUIS,
+      page: 1,
+      limit: DEFAULT_SEARCH_LIMIT,
+    });
+    expect(filters.from).toEqual(new Date('2026-11-01'));
+    // A bare date in `to` covers the whole day
+    expect(filters.to).toEqual(new Date('2026-11-02T23:59:59.999Z'));
+  });
+
+  it('caps the page size', () => {
+    expect(parseMessageSearch({ q: 'hola', limit: '500', page: '3' })).toMatchObject({ limit: MAX_SEARCH_LIMIT, page: 3 });
+  });
+
+  it('rejects empty queries, bad ids and inverted ranges', () => {
+    expect(() => parseMessageSearch({ q: ' ¿? ' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseMessageSearch({ q: 'hola', conversationId: 'nope' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseMessageSearch({ q: 'hola', from: '2026-11-05', to: '2026-11-01' })).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+    expect(() => parseMessageSearch({ q: 'hola', from: 'ayer' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('snippets', () => {
+  it('marks prefix matches ignoring accents and case', () => {
+    const segments = buildSnippet('Te mando el presupuesto del caño mañana', ['presup', 'cano']);
+    expect(segments).toEqual([
+      { text: 'Te mando el ', match: false },
+      { text: 'presupuesto', match: true },
+      { text: ' del ', match: false },
+      { text: 'caño', match: true },
+      { text: ' mañana', match: false },
+    ]);
+  });
+
+  it('cuts long texts around the first match without splitting words', () => {
+    const text = `${'palabra '.repeat(20)}factura ${'otra '.repeat(20)}`;
+    const segments = buildSnippet(text, ['factura'], 20)!;
+    expect(segments[0].text).toMatch(/^…palabra /);
+    expect(segments[segments.length - 1].text).toMatch(/ otra…$/);
+    expect(matched(segments)).toEqual(['factura']);
+    expect(segments.map((segment) => segment.text).join('')).not.toMatch(/\b(alabra|tra)\b/);
+  });
+
+  it('returns null when nothing matches', () => {
+    expect(buildSnippet('nada que ver', ['factura'])).toBeNull();
+  });
+
+  it('joins the parts of system messages', () => {
+    expect(messageDisplayText({ message: 'Propuesta aceptada||Luis empieza el lunes', type: 'system' })).toBe(
+      'Propuesta aceptada - Luis empieza el lunes'
+    );
+  });
+
+  it('falls back to the file name, then to the start of the text', () => {
+    const file = { message: 'Te paso esto', type: 'file', fileName: 'Factura-octubre.pdf' };
+    expect(messageSnippet(file, ['factura'])).toMatchObject({ field: 'fileName' });
+    expect(matched(messageSnippet(file, ['factura']).segments)).toEqual(['Factura']);
+
+    // Matched by stemming in the database: nothing to mark
+    expect(messageSnippet({ message: 'Los plomeros llegan', type: 'text' }, ['llegar'])).toEqual({
+      field: 'message',
+      segments: [{ text: 'Los plomeros llegan', match: false }],
+    });
+  });
+});
+
+describe('buildConversationExport', () => {
+  const bundle = buildConversationExport({
+    conversation: { id: CONVERSATION, type: 'direct', jobId: 'job-1', createdAt: '2026-11-01T10:00:00Z', job: { title: 'Pintar living' } },
+    participants: [
+      { id: ANA, name: 'Ana Pérez' },
+      { id: LUIS, name: 'Luis Díaz' },
+    ],
+    messages: [
+      { id: 'm3', senderId: ANA, message: 'Adjunto fotos', type: 'image', fileUrl: '/uploads/chat/foto.jpg', fileName: 'foto.jpg', fileSize: 2048, createdAt: '2026-11-01T12:00:00Z' },
+      { id: 'm1', senderId: LUIS, message: 'Hola, ¿cuándo empezamos?', type: 'text', createdAt: '2026-11-01T10:05:00Z' },
+      { id: 'm2', senderId: ANA, message: 'Contrato creado||Pintar living', type: 'system', metadata: { action: 'contract_created' }, createdAt: '2026-11-01T11:00:00Z' },
+    ],
+    exportedBy: ANA,
+    exportedAt: new Date('2026-11-02T09:00:00Z'),
+  });
+
+  it('orders the messages and names the senders', () => {
+    expect(bundle.messages.map((message) => [message.id, message.senderName])).toEqual([
+      ['m1', 'Luis Díaz'],
+      ['m2', 'Sistema'],
+      ['m3', 'Ana Pérez'],
+    ]);
+    expect(bundle.conversation).toMatchObject({ jobTitle: 'Pintar living', contractId: null });
+  });
+
+  it('lists attachments and system events', () => {
+    expect(bundle.attachments).toEqual([
+      { messageId: 'm3', sentAt: '2026-11-01T12:00:00.000Z', senderId: ANA, fileName: 'foto.jpg', fileUrl: '/uploads/chat/foto.jpg', fileSize: 2048, type: 'image' },
+    ]);
+    expect(bundle.systemEvents).toEqual([
+      { messageId: 'm2', at: '2026-11-01T11:00:00.000Z', action: 'contract_created', text: 'Contrato creado - Pintar living' },
+    ]);
+  });
+
+  it('checksums the content', () => {
+    expect(bundle.checksum).toMatch(/^[0-9a-f]{64}$/);
+    const again = buildConversationExport({
+      conversation: { id: CONVERSATION, type: 'direct', jobId: 'job-1', createdAt: '2026-11-01T10:00:00Z', job: { title: 'Pintar living' } },
+      participants: bundle.participants,
+      messages: [],
+      exportedBy: ANA,
+      exportedAt: new Date('2026-11-02T09:00:00Z'),
+    });
+    expect(again.checksum).not.toBe(bundle.checksum);
+  });
+});
+
+describe('export helpers', () => {
+  it('parses the format', () => {
+    expect(parseExportFormat(undefined)).toBe('json');
+    expect(parseExportFormat('pdf')).toBe('pdf');
+    expect(() => parseExportFormat('docx')).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+
+  it('names the file after the conversation and day', () => {
+    expect(exportFileName(CONVERSATION, 'pdf', new Date('2026-11-02T09:00:00Z'))).toBe('conversacion_aaaaaaaa_20261102.pdf');
+  });
+
+  it('keeps Latin-1 text for the PDF fonts', () => {
+    expect(pdfSafeText('“Listo” — mañana 👍')).toBe('"Listo" - mañana ');
+  });
+});
+
+describe('assertCanAttachToDispute', () => {
+  const dispute = { initiatedBy: ANA, against: LUIS, status: 'in_review' };
+
+  it('lets either party attach a conversation with the other party', () => {
+    expect(() => assertCanAttachToDispute(dispute, ANA, [ANA, LUIS])).not.toThrow();
+    expect(() => assertCanAttachToDispute(dispute, LUIS, [SOFIA, ANA, LUIS])).not.toThrow();
+  });
+
+  it('rejects outsiders, unrelated conversations and closed disputes', () => {
+    expect(() => assertCanAttachToDispute(dispute, SOFIA, [SOFIA, ANA])).toThrow(expect.objectContaining({ statusCode: 403 }));
+    expect(() => assertCanAttachToDispute(dispute, ANA, [ANA, SOFIA])).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => assertCanAttachToDispute({ ...dispute, status: 'resolved_refunded' }, ANA, [ANA, LUIS])).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests de las plantillas de mensajes (server/services/messageTemplateRules.ts
+ * y messageTemplateCatalog.ts): render es/en de todo el catálogo, escape de
+ * variables, texto plano, push/in-app desde el mismo id y validación de las
+ * variables de la vista previa.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MESSAGE_LOCALES,
+  assertTemplateVars,
+  defineTemplate,
+  renderMessage,
+  resolveLocale,
+  templateVarProblems,
+} from '../../server/services/messageTemplateRules.js';
+import { MESSAGE_TEMPLATES, isTemplateId, renderTemplate, type TemplateId } from '../../server/services/messageTemplateCatalog.js';
+
+const baseUrl = 'https://doapparg.site';
+
+describe('catálogo', () => {
+  const ids = Object.keys(MESSAGE_TEMPLATES) as TemplateId[];
+
+  it.each(ids)('%s renderiza en todos los idiomas con sus datos de ejemplo', (id) => {
+    for (const locale of MESSAGE_LOCALES) {
+      const message = renderTemplate(id, locale, MESSAGE_TEMPLATES[id].sample as never, { baseUrl });
+      expect(message.subject.length).toBeGreaterThan(0);
+      expect(message.html).toContain(`<html lang="${locale}"`);
+      expect(message.text.length).toBeGreaterThan(0);
+      expect(message.text).not.toMatch(/<[a-z]/i);
+      expect(message.push.title.length).toBeGreaterThan(0);
+      expect(message.notification.message.length).toBeGreaterThan(0);
+      expect(message.category).toBe(MESSAGE_TEMPLATES[id].category);
+    }
+  });
+
+  it('cada idioma tiene su propio texto', () => {
+    const es = renderTemplate('withdrawal.rejected', 'es', { userName: 'Ana', amount: 1500.5, reason: 'CBU inválido' }, { baseUrl });
+    const en = renderTemplate('withdrawal.rejected', 'en', { userName: 'Ana', amount: 1500.5, reason: 'CBU inválido' }, { baseUrl });
+    expect(es.subject).toBe('Retiro rechazado · DOAPP');
+    expect(en.subject).toBe('Withdrawal rejected · DOAPP');
+    expect(es.html).toContain('$1.500,5 ARS');
+    expect(en.html).toContain('$1,500.5 ARS');
+    expect(en.html).toContain('Button not working?');
+  });
+
+  it('reconoce los ids', () => {
+    expect(isTemplateId('chat.new_message')).toBe(true);
+    expect(isTemplateId('toString')).toBe(false);
+  });
+});
+
+describe('render', () => {
+  it('escapa las variables en el HTML y arma links absolutos', () => {
+    const message = renderTemplate('chat.new_message', 'es', {
+      recipientName: 'Ana',
+      senderName: '<b>Mal</b>',
+      messagePreview: '<script>alert(1)</script>',
+      conversationId: 'c1',
+    }, { baseUrl: `${baseUrl}/` });
+    expect(message.html).not.toContain('<script>');
+    expect(message.html).toContain('&lt;script&gt;');
+    expect(message.html).toContain('<strong>&lt;b&gt;Mal&lt;/b&gt;</strong>');
+    expect(message.html).toContain('href="https://doapparg.site/chat/c1"');
+    expect(message.notification.actionUrl).toBe('/chat/c1');
+  });
+
+  it('el texto plano conserva bloques, detalle y botón', () => {
+    const message = renderTemplate('saved_search.digest', 'es', {
+      userName: 'Ana',
+      groups: [{ searchName: 'Plomería', jobs: [{ id: 'j1', title: 'Destapar cañería', price: 20000, location: 'Caballito' }] }],
+    }, { baseUrl });
+    expect(message.subject).toBe('1 trabajo nuevo para tus búsquedas · DOAPP');
+    expect(message.text).toContain('Hola Ana, estos trabajos');
+    expect(message.text).toContain('- Destapar cañería: $20.000\n  Caballito\n  https://doapparg.site/jobs/j1');
+    expect(message.text).toContain('Ver trabajos: https://doapparg.site/');
+  });
+
+  it('recorta el push; la notificación in-app admite más texto', () => {
+    const template = defineTemplate({
+      description: 'test',
+      category: 'system',
+      sample: { text: 'x' },
+      locales: {
+        es: (v) => ({ subject: 's', title: 't', blocks: [], cta: { label: 'Abrir', url: 'https://externo.com/x' }, push: { title: 't', body: v.text } }),
+        en: (v) => ({ subject: 's', title: 't', blocks: [], push: { title: 't', body: v.text } }),
+      },
+    });
+    const message = renderMessage('test', template, 'es', { text: 'a'.repeat(400) }, { baseUrl });
+    expect(message.push.body).toHaveLength(180);
+    expect(message.push.body.endsWith('…')).toBe(true);
+    expect(message.notification.message).toHaveLength(400);
+    expect(message.notification.actionText).toBe('Abrir');
+    expect(message.notification.actionUrl).toBeUndefined();
+  });
+});
+
+describe('idioma', () => {
+  it('toma las dos primeras letras y cae al español', () => {
+    expect(resolveLocale('en')).toBe('en');
+    expect(resolveLocale('en-US')).toBe('en');
+    expect(resolveLocale('ES-ar')).toBe('es');
+    expect(resolveLocale('pt')).toBe('es');
+    expect(resolveLocale(undefined)).toBe('es');
+  });
+});
+
+describe('variables de la vista previa', () => {
+  const sample = MESSAGE_TEMPLATES['saved_search.digest'].sample;
+
+  it('acepta variables con la forma del ejemplo', () => {
+    expect(templateVarProblems(sample, { userName: 'Ana', groups: [] })).toEqual([]);
+  });
+
+  it('informa faltantes, tipos incorrectos y variables de más', () => {
+    expect(templateVarProblems(sample, {
+      groups: [{ searchName: 'X', jobs: [{ id: 'j', title: 't', price: '10', location: '' }] }],
+      extra: true,
+    })).toEqual([
+      'Falta la variable "userName"',
+      '"groups[0].jobs[0].price" debe ser número',
+      'Variable desconocida "extra"',
+    ]);
+    expect(() => assertTemplateVars(sample, 'texto')).toThrow('Variables inválidas');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Tests del escrow por hitos (server/services/milestoneRules.ts): validación
+ * de los hitos al crear el contrato, qué cubre cada pago (upfront o por hito,
+ * con la comisión prorrateada), transiciones de estado, liberación
+ * automática a los 7 días y resumen de fondos.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  commissionShares,
+  fundingPlan,
+  isAutoReleaseDue,
+  parseMilestonePlan,
+  planMilestoneTransition,
+  summarizeMilestones,
+  type MilestoneSnapshot,
+} from '../../server/services/milestoneRules.js';
+
+const contract = { price: 1000, currency: 'ARS' as const, startDate: '2026-09-01T12:00:00Z' };
+const DAY = 24 * 60 * 60 * 1000;
+
+const milestone = (id: string, position: number, amount: number, status: MilestoneSnapshot['status'] = 'pending') =>
+  ({ id, position, amount, status });
+
+describe('parseMilestonePlan', () => {
+  const body = {
+    milestones: [
+      { title: ' Relevamiento ', amount: 300, dueDate: '2026-09-05' },
+      { title: 'Instalación', amount: '700.00', dueDate: '2026-09-20', description: 'Cableado y tablero' },
+    ],
+  };
+
+  it('returns null when the contract has no milestones', () => {
+    expect(parseMilestonePlan({}, contract)).toBeNull();
+  });
+
+  it('normalizes milestones and defaults to upfront funding', () => {
+    const plan = parseMilestonePlan(body, contract);
+    expect(plan?.funding).toBe('upfront');
+    expect(plan?.milestones.map((m) => [m.position, m.title, m.amount])).toEqual([[0, 'Relevamiento', 300], [1, 'Instalación', 700]]);
+    expect(plan?.milestones[1].description).toBe('Cableado y tablero');
+    expect(parseMilestonePlan({ ...body, milestoneFunding: 'per_milestone' }, contract)?.funding).toBe('per_milestone');
+  });
+
+  it('rejects plans that do not add up or have invalid milestones with a 400', () => {
+    const bad = (patch: Record<string, any>) => () => parseMilestonePlan({ ...body, ...patch }, contract);
+    expect(bad({ milestones: [] })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestoneFunding: 'weekly' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestones: [{ title: 'Todo', amount: 999.99, dueDate: '2026-09-05' }] })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestones: [{ title: '', amount: 1000, dueDate: '2026-09-05' }] })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestones: [{ title: 'Todo', amount: 1000, dueDate: 'mañana' }] })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestones: [{ title: 'Todo', amount: 1000, dueDate: '2026-08-20' }] })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(bad({ milestones: Array.from({ length: 21 }, () => ({ title: 'x', amount: 1, dueDate: '2026-09-05' })) })).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('fundingPlan', () => {
+  const milestones = [milestone('b', 1, 200), milestone('a', 0, 100), milestone('c', 2, 700)];
+
+  it('splits the commission by amount so the shares add up exactly', () => {
+    expect(commissionShares([{ amount: 1 }, { amount: 1 }, { amount: 1 }], 10, 'ARS')).toEqual([3.34, 3.33, 3.33]);
+  });
+
+  it('covers every milestone in a single upfront payment', () => {
+    expect(fundingPlan(milestones, 'upfront', { commission: 100, currency: 'ARS' })).toEqual({
+      milestoneIds: ['a', 'b', 'c'],
+      amount: 1000,
+      fee: 100,
+      total: 1100,
+    });
+  });
+
+  it('pays one milestone at a time, defaulting to the first pending one', () => {
+    const partlyFunded = [milestone('a', 0, 100, 'released'), milestone('b', 1, 200), milestone('c', 2, 700)];
+    expect(fundingPlan(partlyFunded, 'per_milestone', { commission: 100, currency: 'ARS' })).toEqual({ milestoneIds: ['b'], amount: 200, fee: 20, total: 220 });
+    expect(fundingPlan(partlyFunded, 'per_milestone', { commission: 100, currency: 'ARS' }, 'c').milestoneIds).toEqual(['c']);
+  });
+
+  it('refuses to pay twice', () => {
+    const funded = [milestone('a', 0, 100, 'funded'), milestone('b', 1, 900, 'funded')];
+    expect(() => fundingPlan(funded, 'upfront', { commission: 0, currency: 'ARS' })).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => fundingPlan(funded, 'per_milestone', { commission: 0, currency: 'ARS' }, 'a')).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => fundingPlan(funded, 'per_milestone', { commission: 0, currency: 'ARS' })).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => fundingPlan(funded, 'per_milestone', { commission: 0, currency: 'ARS' }, 'zzz')).toThrow(expect.objectContaining({ statusCode: 404 }));
+  });
+});
+
+describe('planMilestoneTransition', () => {
+  const now = new Date('2026-09-10T10:00:00Z');
+
+  it('stamps each step of the delivery flow', () => {
+    expect(planMilestoneTransition({ status: 'pending' }, 'fund', now)).toEqual({ status: 'funded', fundedAt: now });
+    expect(planMilestoneTransition({ status: 'funded' }, 'submit', now)).toEqual({ status: 'submitted', submittedAt: now });
+    expect(planMilestoneTransition({ status: 'submitted' }, 'reject', now)).toEqual({ status: 'funded', submittedAt: null });
+    expect(planMilestoneTransition({ status: 'submitted' }, 'approve', now)).toEqual({ status: 'released', releasedAt: now });
+    expect(planMilestoneTransition({ status: 'disputed' }, 'resolve_refund', now)).toEqual({ status: 'refunded', refundedAt: now });
+    expect(planMilestoneTransition({ status: 'disputed' }, 'resume', now)).toEqual({ status: 'funded', submittedAt: null });
+  });
+
+  it('rejects events that do not apply with a 409', () => {
+    expect(() => planMilestoneTransition({ status: 'disputed' }, 'approve', now)).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => planMilestoneTransition({ status: 'pending' }, 'submit', now)).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => planMilestoneTransition({ status: 'released' }, 'dispute', now)).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => planMilestoneTransition({ status: 'funded' }, 'cancel', now)).toThrow(expect.objectContaining({ statusCode: 409 }));
+  });
+});
+
+describe('isAutoReleaseDue', () => {
+  const now = new Date('2026-09-20T10:00:00Z');
+
+  it('releases submitted milestones after 7 days without an answer', () => {
+    expect(isAutoReleaseDue({ status: 'submitted', submittedAt: new Date(now.getTime() - 7 * DAY) }, now)).toBe(true);
+    expect(isAutoReleaseDue({ status: 'submitted', submittedAt: new Date(now.getTime() - 6 * DAY) }, now)).toBe(false);
+    expect(isAutoReleaseDue({ status: 'disputed', submittedAt: new Date(now.getTime() - 30 * DAY) }, now)).toBe(false);
+  });
+});
+
+describe('summarizeMilestones', () => {
+  it('adds up held, released and refunded funds', () => {
+    const summary = summarizeMilestones([
+      milestone('a', 0, 100.1, 'released'),
+      milestone('b', 1, 200.2, 'disputed'),
+      milestone('c', 2, 300.3, 'submitted'),
+      milestone('d', 3, 399.4, 'pending'),
+    ], 'ARS');
+    expect(summary).toEqual({ total: 1000, funded: 600.6, held: 500.5, released: 100.1, refunded: 0, disputed: 200.2, settled: false });
+    expect(summarizeMilestones([milestone('a', 0, 10, 'released'), milestone('b', 1, 5, 'cancelled')], 'ARS').settled).toBe(true);
+  });
+});
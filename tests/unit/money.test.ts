@@ -0,0 +1,94 @@
+/**
+ * Tests del tipo Money (server/services/money.ts): unidades menores,
+ * aritmética por moneda, conversión con cotización congelada y formato.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  add,
+  convert,
+  formatMoney,
+  fromDecimal,
+  max,
+  percentage,
+  snapshotOf,
+  subtract,
+  toCurrency,
+  toDecimal,
+  type RateSnapshot,
+} from '../../server/services/money.js';
+
+const usdtArs: RateSnapshot = {
+  from: 'USDT',
+  to: 'ARS',
+  rate: 1250.5,
+  source: 'binance',
+  quotedAt: '2026-03-10T12:00:00.000Z',
+};
+
+describe('fromDecimal / toDecimal', () => {
+  it('stores amounts as integer minor units', () => {
+    const money = fromDecimal('1000.10', 'ARS');
+    expect(money).toEqual({ amount: 100010, currency: 'ARS' });
+    expect(toDecimal(money)).toBe(1000.1);
+    expect(fromDecimal(0.1 + 0.2, 'USD').amount).toBe(30);
+  });
+
+  it('rejects non-numeric amounts', () => {
+    expect(() => fromDecimal('abc')).toThrow(/Monto inválido/);
+  });
+});
+
+describe('toCurrency', () => {
+  it('defaults legacy empty values to ARS and normalizes case', () => {
+    expect(toCurrency(null)).toBe('ARS');
+    expect(toCurrency('usdt')).toBe('USDT');
+  });
+
+  it('rejects unsupported currencies', () => {
+    expect(() => toCurrency('EUR')).toThrow(/no soportada/);
+  });
+});
+
+describe('arithmetic', () => {
+  it('adds, subtracts and takes percentages to the cent', () => {
+    const price = fromDecimal(1234.56, 'USD');
+    const fee = percentage(price, 8);
+    expect(fee.amount).toBe(9876);
+    expect(add(price, fee)).toEqual({ amount: 133332, currency: 'USD' });
+    expect(subtract(price, fee)).toEqual({ amount: 113580, currency: 'USD' });
+    expect(max(fee, fromDecimal(100, 'USD')).amount).toBe(10000);
+  });
+
+  it('never mixes currencies', () => {
+    expect(() => add(fromDecimal(1, 'ARS'), fromDecimal(1, 'USDT'))).toThrow(/ARS y USDT/);
+  });
+});
+
+describe('convert', () => {
+  it('uses a frozen quote in either direction', () => {
+    expect(convert(fromDecimal(100, 'USDT'), 'ARS', usdtArs)).toEqual({ amount: 12505000, currency: 'ARS' });
+    expect(convert(fromDecimal(125050, 'ARS'), 'USDT', usdtArs)).toEqual({ amount: 10000, currency: 'USDT' });
+  });
+
+  it('refuses a quote for another pair', () => {
+    expect(() => convert(fromDecimal(1, 'USD'), 'ARS', usdtArs)).toThrow(/no sirve/);
+  });
+
+  it('snapshots a quoted rate with its source and timestamp', () => {
+    const snapshot = snapshotOf('USD', 'ARS', { rate: 1430, source: 'dolarhoy', timestamp: new Date('2026-03-10T12:00:00Z') });
+    expect(snapshot).toEqual({ from: 'USD', to: 'ARS', rate: 1430, source: 'dolarhoy', quotedAt: '2026-03-10T12:00:00.000Z' });
+  });
+});
+
+describe('formatMoney', () => {
+  it('formats USDT even though it is not an ISO currency', () => {
+    expect(formatMoney(fromDecimal(1234.5, 'USDT'))).toBe('USDT 1.234,50');
+  });
+
+  it('formats ISO currencies with Intl', () => {
+    expect(formatMoney(fromDecimal(1234.5, 'ARS'))).toContain('1.234,50');
+    expect(formatMoney(fromDecimal(10, 'USD'))).toMatch(/US\$|USD/);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Tests de las reglas de entrega de notificaciones
+ * (server/services/notificationDeliveryRules.ts): horario de silencio con zona
+ * horaria (incluido el que cruza la medianoche), modos por categoría,
+ * ventana de agrupado, armado del resumen y validación de preferencias.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  COALESCE_WINDOW_MINUTES,
+  coalesceNotifications,
+  deliveryModeFor,
+  isQuietAt,
+  isValidTimezone,
+  normalizeDeliveryPreferences,
+  planDelivery,
+  quietHoursEnd,
+  zonedTime,
+  type QuietHours,
+} from '../../server/services/notificationDeliveryRules.js';
+import { renderTemplate } from '../../server/services/messageTemplateCatalog.js';
+
+// Buenos Aires es UTC-3 todo el año
+const BA = 'America/Argentina/Buenos_Aires';
+const night: QuietHours = { enabled: true, start: '22:00', end: '08:00', timezone: BA };
+
+const at = (iso: string) => new Date(iso);
+
+describe('quiet hours', () => {
+  it('handles windows that cross midnight in the user timezone', () => {
+    expect(isQuietAt(at('2026-10-20T02:00:00Z'), night)).toBe(true);  // 23:00 BA
+    expect(isQuietAt(at('2026-10-20T10:30:00Z'), night)).toBe(true);  // 07:30 BA
+    expect(isQuietAt(at('2026-10-20T11:00:00Z'), night)).toBe(false); // 08:00 BA
+    expect(isQuietAt(at('2026-10-20T18:00:00Z'), night)).toBe(false); // 15:00 BA
+  });
+
+  it('handles same-day windows and disabled or empty windows', () => {
+    const siesta: QuietHours = { enabled: true, start: '13:00', end: '16:00', timezone: BA };
+    expect(isQuietAt(at('2026-10-20T17:00:00Z'), siesta)).toBe(true);
+    expect(isQuietAt(at('2026-10-20T20:00:00Z'), siesta)).toBe(false);
+    expect(isQuietAt(at('2026-10-20T02:00:00Z'), { ...night, enabled: false })).toBe(false);
+    expect(isQuietAt(at('2026-10-20T02:00:00Z'), { ...night, end: '22:00' })).toBe(false);
+    expect(isQuietAt(at('2026-10-20T02:00:00Z'), null)).toBe(false);
+  });
+
+  it('moves a quiet time to the end of the window, on the next day when needed', () => {
+    expect(quietHoursEnd(at('2026-10-20T02:00:00Z'), night).toISOString()).toBe('2026-10-20T11:00:00.000Z');
+    expect(quietHoursEnd(at('2026-10-20T10:59:00Z'), night).toISOString()).toBe('2026-10-20T11:00:00.000Z');
+    const outside = at('2026-10-20T15:00:00Z');
+    expect(quietHoursEnd(outside, night)).toBe(outside);
+  });
+
+  it('converts local wall time to UTC across DST changes', () => {
+    // Madrid: UTC+2 en verano, UTC+1 en invierno
+    expect(zonedTime({ year: 2026, month: 7, day: 1, hour: 9, minute: 0 }, 'Europe/Madrid').toISOString()).toBe('2026-07-01T07:00:00.000Z');
+    expect(zonedTime({ year: 2026, month: 12, day: 1, hour: 9, minute: 0 }, 'Europe/Madrid').toISOString()).toBe('2026-12-01T08:00:00.000Z');
+    // El día desborda al mes siguiente
+    expect(zonedTime({ year: 2026, month: 10, day: 32, hour: 9, minute: 0 }, BA).toISOString()).toBe('2026-11-01T12:00:00.000Z');
+  });
+
+  it('validates timezones', () => {
+    expect(isValidTimezone(BA)).toBe(true);
+    expect(isValidTimezone('Mars/Olympus')).toBe(false);
+    expect(isValidTimezone('')).toBe(false);
+  });
+});
+
+describe('planDelivery', () => {
+  const now = at('2026-10-20T15:20:00Z'); // 12:20 BA
+
+  it('sends instantly by default and for categories outside the configurable list', () => {
+    expect(planDelivery({ now, category: 'chat' })).toEqual({ kind: 'now' });
+    expect(deliveryModeFor({ delivery: { chat: 'daily' } }, 'system')).toBe('instant');
+  });
+
+  it('skips email/push for categories turned off', () => {
+    expect(planDelivery({ now, category: 'chat', preferences: { delivery: { chat: 'off' } } })).toEqual({ kind: 'skip' });
+  });
+
+  it('defers hourly digests to the next full hour', () => {
+    expect(planDelivery({ now, category: 'proposal', preferences: { delivery: { proposal: 'hourly' } } }))
+      .toEqual({ kind: 'defer', deliverAfter: at('2026-10-20T16:00:00Z'), reason: 'hourly' });
+  });
+
+  it('defers daily digests to the next digest hour in the user timezone', () => {
+    const preferences = { delivery: { jobs: 'daily' as const }, digestHour: 9, quietHours: { ...night, enabled: false } };
+    expect(planDelivery({ now, category: 'jobs', preferences }))
+      .toEqual({ kind: 'defer', deliverAfter: at('2026-10-21T12:00:00Z'), reason: 'daily' });
+    expect(planDelivery({ now: at('2026-10-20T11:30:00Z'), category: 'jobs', preferences }))
+      .toEqual({ kind: 'defer', deliverAfter: at('2026-10-20T12:00:00Z'), reason: 'daily' });
+  });
+
+  it('coalesces repeated events delivered inside the window', () => {
+    const lastDeliveredAt = at('2026-10-20T15:10:00Z');
+    expect(planDelivery({ now, category: 'chat', lastDeliveredAt }))
+      .toEqual({ kind: 'defer', deliverAfter: new Date(lastDeliveredAt.getTime() + COALESCE_WINDOW_MINUTES * 60_000), reason: 'coalesced' });
+    expect(planDelivery({ now, category: 'chat', lastDeliveredAt: at('2026-10-20T14:00:00Z') })).toEqual({ kind: 'now' });
+  });
+
+  it('pushes anything landing in quiet hours to the end of the window', () => {
+    const late = at('2026-10-21T02:30:00Z'); // 23:30 BA
+    expect(planDelivery({ now: late, category: 'chat', preferences: { quietHours: night } }))
+      .toEqual({ kind: 'defer', deliverAfter: at('2026-10-21T11:00:00Z'), reason: 'quiet_hours' });
+    // Un resumen por hora que cae en silencio también se corre
+    expect(planDelivery({ now: late, category: 'chat', preferences: { quietHours: night, delivery: { chat: 'hourly' } } }))
+      .toEqual({ kind: 'defer', deliverAfter: at('2026-10-21T11:00:00Z'), reason: 'hourly' });
+  });
+});
+
+describe('coalesceNotifications', () => {
+  it('groups by key, counts events and keeps the latest text', () => {
+    const rows = [
+      ...Array.from({ length: 12 }, (_, i) => ({
+        id: `m${i}`,
+        category: 'chat',
+        coalesceKey: 'chat:c1',
+        title: 'Nuevo mensaje de Martín',
+        message: `mensaje ${i}`,
+        actionUrl: '/chat/c1',
+        createdAt: new Date(Date.UTC(2026, 9, 20, 15, i)),
+      })),
+      { id: 'p1', category: 'proposal', title: 'Nueva postulación', message: 'Sofía se postuló', createdAt: at('2026-10-20T15:30:00Z') },
+    ];
+    const items = coalesceNotifications(rows);
+    expect(items).toHaveLength(2);
+    expect(items[0]).toMatchObject({ key: 'id:p1', count: 1, actionUrl: null });
+    expect(items[1]).toMatchObject({ key: 'chat:c1', count: 12, message: 'mensaje 11', actionUrl: '/chat/c1' });
+    expect(items[1].ids).toHaveLength(12);
+  });
+
+  it('renders the digest with the coalesced count', () => {
+    const message = renderTemplate('notification.digest', 'es', {
+      userName: 'Lucía',
+      items: [{ title: 'Nuevo mensaje de Martín', message: 'mensaje 11', count: 12, actionUrl: '/chat/c1' }],
+    }, { baseUrl: 'https://doapparg.site' });
+    expect(message.subject).toBe('Tenés 12 novedades en DOAPP');
+    expect(message.text).toContain('+11 más');
+    expect(message.push).toEqual({ title: 'Nuevo mensaje de Martín', body: 'mensaje 11 (+11 más)' });
+  });
+});
+
+describe('normalizeDeliveryPreferences', () => {
+  it('keeps only the delivery keys, with the default timezone', () => {
+    expect(normalizeDeliveryPreferences({
+      email: false,
+      language: 'en',
+      quietHours: { enabled: true, start: '23:00', end: '07:30' },
+      delivery: { chat: 'hourly', payment: 'instant' },
+      digestHour: 0,
+    })).toEqual({
+      language: 'en',
+      quietHours: { enabled: true, start: '23:00', end: '07:30', timezone: BA },
+      delivery: { chat: 'hourly', payment: 'instant' },
+      digestHour: 0,
+    });
+  });
+
+  it('rejects invalid values with a 400', () => {
+    const cases = [
+      { language: 'fr' },
+      { quietHours: { start: '25:00', end: '07:00' } },
+      { quietHours: { start: '22:00', end: '07:00', timezone: 'Mars/Olympus' } },
+      { delivery: { marketing: 'daily' } },
+      { delivery: { chat: 'weekly' } },
+      { digestHour: 24 },
+      { digestHour: 9.5 },
+    ];
+    for (const input of cases) {
+      expect(() => normalizeDeliveryPreferences(input)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    }
+  });
+});
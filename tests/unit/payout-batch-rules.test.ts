@@ -0,0 +1,159 @@
+/**
+ * Tests de los lotes de pago de retiros (server/services/payoutBatchRules.ts):
+ * referencias, archivo de transferencias CSV y de ancho fijo, lectura del
+ * archivo de resultados del banco y conciliación con los retiros del lote.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  FIXED_WIDTH_RECORD_LENGTH,
+  batchReference,
+  batchSettlement,
+  batchTotal,
+  buildPayoutCsv,
+  buildPayoutFixedWidth,
+  normalizeBankStatus,
+  parseBankResultFile,
+  payoutItemProblem,
+  payoutReference,
+  planResultImport,
+  type PayoutItem,
+} from '../../server/services/payoutBatchRules.js';
+
+const batch = { reference: 'LP-20260822-ABC123', createdAt: new Date('2026-08-22T15:00:00.000Z') };
+
+const item = (overrides: Partial<PayoutItem> = {}): PayoutItem => ({
+  withdrawalId: '0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d',
+  reference: '0A1B2C3D4E5F',
+  accountHolder: 'María José Núñez',
+  bankName: 'Banco Nación',
+  accountType: 'savings',
+  cbu: '0110599520000001234567',
+  alias: 'maria.nunez.mp',
+  amount: 15000.5,
+  ...overrides,
+});
+
+describe('referencias', () => {
+  it('derivan del id del retiro y del lote', () => {
+    expect(payoutReference('0a1b2c3d-4e5f-4a6b-8c7d-9e0f1a2b3c4d')).toBe('0A1B2C3D4E5F');
+    expect(batchReference('abcdef12-0000-4000-8000-000000000000', batch.createdAt)).toBe('LP-20260822-ABCDEF');
+  });
+
+  it('suma en centavos', () => {
+    expect(batchTotal([{ amount: 0.1 }, { amount: 0.2 }, { amount: 1000 }])).toBe(1000.3);
+  });
+
+  it('detecta ítems que no se pueden pagar', () => {
+    expect(payoutItemProblem(item())).toBeNull();
+    expect(payoutItemProblem(item({ cbu: '123' }))).toBe('CBU inválido');
+    expect(payoutItemProblem(item({ accountHolder: ' ' }))).toBe('Falta el titular de la cuenta');
+    expect(payoutItemProblem(item({ amount: 0 }))).toBe('Monto inválido');
+  });
+});
+
+describe('archivo de transferencias', () => {
+  it('CSV con encabezado, importes con dos decimales y celdas protegidas', () => {
+    const csv = buildPayoutCsv(batch, [item(), item({ reference: 'FFFFFFFFFFFF', accountHolder: '=HYPERLINK("x")', accountType: 'checking', amount: 2000 })]);
+    const lines = csv.trimEnd().split('\r\n');
+    expect(lines[0]).toBe('referencia,cbu,alias,titular,banco,tipo_cuenta,importe,concepto');
+    expect(lines[1]).toBe(
+      '"0A1B2C3D4E5F","0110599520000001234567","maria.nunez.mp","María José Núñez","Banco Nación","CA","15000.50","Retiro LP-20260822-ABC123"'
+    );
+    expect(lines[2]).toContain('"\'=HYPERLINK(""x"")"');
+    expect(lines[2]).toContain('"CC","2000.00"');
+  });
+
+  it('ancho fijo con header, detalle y trailer de largo constante', () => {
+    const content = buildPayoutFixedWidth(batch, [item(), item({ reference: 'FFFFFFFFFFFF', amount: 2000 })]);
+    expect(content.endsWith('\r\n')).toBe(true);
+    const lines = content.split('\r\n').slice(0, -1);
+    expect(lines).toHaveLength(4);
+    lines.forEach((line) => expect(line).toHaveLength(FIXED_WIDTH_RECORD_LENGTH));
+
+    expect(lines[0].slice(0, 1)).toBe('H');
+    expect(lines[0].slice(1, 21).trim()).toBe(batch.reference);
+    expect(lines[0].slice(21, 29)).toBe('20260822');
+    expect(lines[0].slice(29, 35)).toBe('000002');
+    expect(lines[0].slice(35, 52)).toBe('00000000001700050');
+
+    expect(lines[1].slice(0, 13)).toBe('D0A1B2C3D4E5F');
+    expect(lines[1].slice(13, 35)).toBe('0110599520000001234567');
+    expect(lines[1].slice(35, 37)).toBe('CA');
+    expect(lines[1].slice(37, 52)).toBe('000000001500050');
+    expect(lines[1].slice(52, 92).trim()).toBe('MARIA JOSE NUNEZ');
+
+    expect(lines[3]).toMatch(/^T00000200000000001700050 +$/);
+  });
+});
+
+describe('archivo de resultados', () => {
+  it('normaliza los estados del banco', () => {
+    expect(normalizeBankStatus('Acreditada')).toBe('completed');
+    expect(normalizeBankStatus(' OK ')).toBe('completed');
+    expect(normalizeBankStatus('RECHAZADA')).toBe('failed');
+    expect(normalizeBankStatus('en curso')).toBeNull();
+  });
+
+  it('acepta punto y coma, BOM y columnas en otro orden', () => {
+    const parsed = parseBankResultFile(
+      '\uFEFFEstado;Motivo;Referencia\r\nacreditada;;0a1b2c3d4e5f\r\nrechazada;"CBU inexistente; cuenta cerrada";FFFFFFFFFFFF\r\n\r\n'
+    );
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.rows).toEqual([
+      { line: 2, reference: '0A1B2C3D4E5F', outcome: 'completed' },
+      { line: 3, reference: 'FFFFFFFFFFFF', outcome: 'failed', reason: 'CBU inexistente; cuenta cerrada' },
+    ]);
+  });
+
+  it('informa las filas que no entiende y exige las columnas mínimas', () => {
+    const parsed = parseBankResultFile('reference,status\nAAA,paid\n,ok\nBBB,pendiente');
+    expect(parsed.rows).toHaveLength(1);
+    expect(parsed.errors).toEqual([
+      { line: 3, message: 'Falta la referencia' },
+      { line: 4, message: 'Estado desconocido: "pendiente"' },
+    ]);
+    expect(() => parseBankResultFile('cbu,importe\n1,2')).toThrow('referencia');
+  });
+});
+
+describe('conciliación', () => {
+  const items = [
+    { withdrawalId: 'w1', reference: 'AAA', status: 'processing' },
+    { withdrawalId: 'w2', reference: 'BBB', status: 'processing' },
+    { withdrawalId: 'w3', reference: 'CCC', status: 'completed' },
+    { withdrawalId: 'w4', reference: 'DDD', status: 'processing' },
+  ];
+
+  it('separa completados, fallidos, ya conciliados y desconocidos', () => {
+    const plan = planResultImport(items, [
+      { line: 2, reference: 'AAA', outcome: 'completed' },
+      { line: 3, reference: 'BBB', outcome: 'failed', reason: 'Cuenta cerrada' },
+      { line: 4, reference: 'CCC', outcome: 'completed' },
+      { line: 5, reference: 'ZZZ', outcome: 'completed' },
+    ]);
+    expect(plan.complete.map((p) => p.withdrawalId)).toEqual(['w1']);
+    expect(plan.fail).toEqual([{ withdrawalId: 'w2', row: { line: 3, reference: 'BBB', outcome: 'failed', reason: 'Cuenta cerrada' } }]);
+    expect(plan.alreadySettled.map((p) => p.withdrawalId)).toEqual(['w3']);
+    expect(plan.unmatched.map((row) => row.reference)).toEqual(['ZZZ']);
+  });
+
+  it('no aplica una referencia con resultados contradictorios', () => {
+    const plan = planResultImport(items, [
+      { line: 2, reference: 'DDD', outcome: 'completed' },
+      { line: 3, reference: 'DDD', outcome: 'failed' },
+      { line: 4, reference: 'AAA', outcome: 'completed' },
+      { line: 5, reference: 'AAA', outcome: 'completed' },
+    ]);
+    expect(plan.conflicts).toEqual([{ line: 3, reference: 'DDD', message: 'Resultado distinto al de la línea 2' }]);
+    expect(plan.complete.map((p) => p.withdrawalId)).toEqual(['w1']);
+    expect(plan.fail).toEqual([]);
+  });
+
+  it('el lote se liquida cuando no quedan retiros en proceso', () => {
+    expect(batchSettlement([{ status: 'completed' }, { status: 'processing' }])).toMatchObject({ settled: false, pending: 1 });
+    expect(batchSettlement([{ status: 'completed' }, { status: 'failed' }])).toEqual({ completed: 1, failed: 1, pending: 0, settled: true });
+    expect(batchSettlement([]).settled).toBe(false);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Tests de la conversión cotización → contrato
+ * (server/services/quoteContractRules.ts): reparto exacto de netos e
+ * impuestos por línea, desglose de impuestos (incluidas cotizaciones viejas
+ * sin monto en otherTaxes), opciones de conversión y desglose de factura.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  allocateMinor,
+  buildContractLines,
+  invoiceBreakdownFromContract,
+  parseConversionOptions,
+  taxBreakdownFromQuote,
+  type QuoteSnapshot,
+} from '../../server/services/quoteContractRules.js';
+
+// Así guarda POST /api/quotes: subtotal × (1 + 21% + 3%), redondeado por DECIMAL(12,2)
+const quote: QuoteSnapshot = {
+  quoteNumber: 'COT-000042',
+  items: [
+    { qty: 3, description: 'Pintura látex 20 L', unitPrice: '33.33', amount: '99.99' },
+    { qty: 1, description: 'Mano de obra', unitPrice: '250', amount: '250' },
+    { qty: 2, description: 'Enduido', unitPrice: '10.01', amount: '20.02' },
+  ],
+  subtotal: '370.01',
+  taxRate: '21.00',
+  taxAmount: '77.70',
+  otherTaxes: [{ name: 'IIBB', rate: 3 }],
+  total: '458.81',
+};
+
+const cents = (values: number[]) => Math.round(values.reduce((sum, value) => sum + value, 0) * 100);
+
+describe('allocateMinor', () => {
+  it('splits exactly, giving the remainder to the largest fractions', () => {
+    expect(allocateMinor(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    expect(allocateMinor(1000, [1, 3])).toEqual([250, 750]);
+    expect(allocateMinor(5, [0, 0])).toEqual([3, 2]);
+    expect(allocateMinor(10, [])).toEqual([]);
+  });
+});
+
+describe('buildContractLines', () => {
+  it('keeps every item and makes nets and totals add up to the quote', () => {
+    const lines = buildContractLines(quote, 'ARS');
+    expect(lines.map((line) => line.description)).toEqual(['Pintura látex 20 L', 'Mano de obra', 'Enduido']);
+    expect(cents(lines.map((line) => line.amount))).toBe(37001);
+    expect(cents(lines.map((line) => line.total))).toBe(45881);
+    expect(cents(lines.map((line) => line.taxAmount))).toBe(45881 - 37001);
+    expect(lines[1]).toMatchObject({ index: 1, qty: 1, unitPrice: 250, amount: 250, taxAmount: 60 });
+    expect(lines.every((line) => line.paymentStatus === undefined)).toBe(true);
+  });
+
+  it('marks every line as a pending milestone when paying per line', () => {
+    const lines = buildContractLines(quote, 'ARS', 'per_line');
+    expect(lines.map((line) => line.paymentStatus)).toEqual(['pending', 'pending', 'pending']);
+  });
+
+  it('rejects quotes without items or with inconsistent totals', () => {
+    expect(() => buildContractLines({ ...quote, items: [] }, 'ARS')).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => buildContractLines({ ...quote, total: '100' }, 'ARS')).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('taxBreakdownFromQuote', () => {
+  it('normalizes amounts and fills other tax amounts missing on old quotes', () => {
+    expect(taxBreakdownFromQuote(quote, 'ARS')).toEqual({
+      quoteNumber: 'COT-000042',
+      subtotal: 370.01,
+      taxRate: 21,
+      taxAmount: 77.7,
+      otherTaxes: [{ name: 'IIBB', rate: 3, amount: 11.1 }],
+      total: 458.81,
+    });
+  });
+});
+
+describe('parseConversionOptions', () => {
+  it('defaults to a single line and a single payment', () => {
+    expect(parseConversionOptions({})).toEqual({ lineMapping: 'none', paymentSchedule: 'single' });
+    expect(parseConversionOptions({ lineMapping: 'tasks', paymentSchedule: 'per_line' })).toEqual({ lineMapping: 'tasks', paymentSchedule: 'per_line' });
+  });
+
+  it('rejects unknown options with a 400', () => {
+    expect(() => parseConversionOptions({ lineMapping: 'milestones' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseConversionOptions({ paymentSchedule: 'weekly' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('invoiceBreakdownFromContract', () => {
+  const contract = { lineItems: buildContractLines(quote, 'ARS'), taxBreakdown: taxBreakdownFromQuote(quote, 'ARS') };
+
+  it('repeats the quote items and taxes when the invoiced amount matches', () => {
+    const breakdown = invoiceBreakdownFromContract(contract, 458.81, 'ARS');
+    expect(breakdown?.items).toHaveLength(3);
+    expect(breakdown?.items[0]).toMatchObject({ description: 'Pintura látex 20 L', quantity: 3, unitPrice: 33.33 });
+    expect(breakdown).toMatchObject({ subtotal: 370.01, tax: 77.7, taxRate: 21, otherTaxes: [{ name: 'IIBB', rate: 3, amount: 11.1 }] });
+  });
+
+  it('falls back to a single line after the price changed or without a quote', () => {
+    expect(invoiceBreakdownFromContract(contract, 500, 'ARS')).toBeNull();
+    expect(invoiceBreakdownFromContract({ lineItems: [], taxBreakdown: null }, 458.81, 'ARS')).toBeNull();
+  });
+});
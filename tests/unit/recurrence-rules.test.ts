@@ -0,0 +1,177 @@
+/**
+ * Tests de las reglas de trabajos recurrentes (server/services/recurrenceRules.ts):
+ * validación de la regla, fechas semanales, quincenales y mensuales, fin de
+ * la serie, plan con filas salteadas o reprogramadas, primera opción del
+ * Doer preferido y acciones permitidas por estado.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  assertOccurrenceAction,
+  firstRefusalDeadline,
+  localDate,
+  nextOccurrenceDate,
+  occurrenceDates,
+  occurrenceWindow,
+  parseFirstRefusalHours,
+  parseRecurrenceRule,
+  parseReschedule,
+  planOccurrences,
+  type RecurrenceRule,
+} from '../../server/services/recurrenceRules.js';
+
+const HOUR = 60 * 60 * 1000;
+const today = '2026-10-19';
+
+const rule = (patch: Partial<RecurrenceRule> = {}): RecurrenceRule => ({
+  frequency: 'weekly',
+  weekdays: [1],
+  dayOfMonth: null,
+  startTime: '09:00',
+  durationMinutes: 120,
+  startsOn: '2026-11-02',
+  endsOn: null,
+  maxOccurrences: null,
+  ...patch,
+});
+
+describe('parseRecurrenceRule', () => {
+  const body = { frequency: 'weekly', startsOn: '2026-11-02', startTime: '09:00', durationMinutes: 120 };
+
+  it('defaults the weekday and day of month to the start date', () => {
+    expect(parseRecurrenceRule(body, today)).toEqual(rule());
+    expect(parseRecurrenceRule({ ...body, frequency: 'monthly' }, today)).toMatchObject({ weekdays: [], dayOfMonth: 2 });
+  });
+
+  it('accepts weekdays sent as strings and removes duplicates', () => {
+    expect(parseRecurrenceRule({ ...body, weekdays: ['3', '1', 3] }, today).weekdays).toEqual([1, 3]);
+  });
+
+  it('rejects invalid rules with 400', () => {
+    const invalid: Record<string, unknown>[] = [
+      { frequency: 'daily' },
+      { startsOn: '2026-02-30' },
+      { startsOn: '2026-10-18' },
+      { endsOn: '2026-11-01' },
+      { maxOccurrences: 0 },
+      { weekdays: [7] },
+      { weekdays: [] },
+      { frequency: 'monthly', dayOfMonth: 32 },
+      { startTime: '9:00' },
+      { durationMinutes: 15 },
+      { durationMinutes: 13 * 60 },
+    ];
+    for (const patch of invalid) {
+      expect(() => parseRecurrenceRule({ ...body, ...patch }, today)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    }
+  });
+});
+
+describe('occurrenceDates', () => {
+  it('lists every selected weekday for weekly series', () => {
+    expect(occurrenceDates(rule({ weekdays: [1, 3] }), '2026-11-01', '2026-11-12'))
+      .toEqual(['2026-11-02', '2026-11-04', '2026-11-09', '2026-11-11']);
+  });
+
+  it('skips every other week for biweekly series, counting from the start week', () => {
+    expect(occurrenceDates(rule({ frequency: 'biweekly' }), '2026-11-01', '2026-12-01'))
+      .toEqual(['2026-11-02', '2026-11-16', '2026-11-30']);
+    expect(occurrenceDates(rule({ frequency: 'biweekly', weekdays: [1, 3], startsOn: '2026-11-04' }), '2026-11-01', '2026-11-20'))
+      .toEqual(['2026-11-04', '2026-11-16', '2026-11-18']);
+  });
+
+  it('clamps the day of month to the last day of shorter months', () => {
+    expect(occurrenceDates(rule({ frequency: 'monthly', weekdays: [], dayOfMonth: 31, startsOn: '2027-01-31' }), '2027-01-01', '2027-04-30'))
+      .toEqual(['2027-01-31', '2027-02-28', '2027-03-31', '2027-04-30']);
+  });
+
+  it('stops at endsOn and at maxOccurrences counted from the start', () => {
+    expect(occurrenceDates(rule({ endsOn: '2026-11-16' }), '2026-11-01', '2026-12-31'))
+      .toEqual(['2026-11-02', '2026-11-09', '2026-11-16']);
+    expect(occurrenceDates(rule({ maxOccurrences: 3 }), '2026-11-05', '2026-12-31'))
+      .toEqual(['2026-11-09', '2026-11-16']);
+  });
+});
+
+describe('nextOccurrenceDate', () => {
+  it('returns the next date of the rule or null once the series is over', () => {
+    expect(nextOccurrenceDate(rule(), today)).toBe('2026-11-02');
+    expect(nextOccurrenceDate(rule(), '2026-11-03')).toBe('2026-11-09');
+    expect(nextOccurrenceDate(rule({ maxOccurrences: 2 }), '2026-11-10')).toBeNull();
+    expect(nextOccurrenceDate(rule({ endsOn: '2026-11-10' }), '2026-11-10')).toBeNull();
+  });
+});
+
+describe('occurrenceWindow', () => {
+  it('uses Argentina local time for the start', () => {
+    const { startsAt, endsAt } = occurrenceWindow(rule(), '2026-11-02');
+    expect(startsAt.toISOString()).toBe('2026-11-02T12:00:00.000Z');
+    expect(endsAt.getTime() - startsAt.getTime()).toBe(2 * HOUR);
+    expect(localDate(new Date('2026-11-03T02:00:00Z'))).toBe('2026-11-02');
+  });
+});
+
+describe('planOccurrences', () => {
+  const range = { from: new Date('2026-11-01T03:00:00Z'), to: new Date('2026-11-24T03:00:00Z') };
+
+  it('merges stored rows over the rule dates', () => {
+    const planned = planOccurrences(rule(), [
+      { id: 'row-1', occurrenceDate: '2026-11-09', startsAt: new Date('2026-11-09T12:00:00Z'), endsAt: new Date('2026-11-09T14:00:00Z'), status: 'skipped' },
+    ], range);
+    expect(planned.map((o) => [o.occurrenceDate, o.status])).toEqual([
+      ['2026-11-02', 'scheduled'],
+      ['2026-11-09', 'skipped'],
+      ['2026-11-16', 'scheduled'],
+      ['2026-11-23', 'scheduled'],
+    ]);
+    expect(planned[1]).toMatchObject({ id: 'row-1', rescheduled: false });
+  });
+
+  it('places rescheduled occurrences at their new time, also across days', () => {
+    const planned = planOccurrences(rule(), [
+      { occurrenceDate: '2026-11-02', startsAt: '2026-11-03T18:00:00Z', endsAt: '2026-11-03T20:00:00Z', status: 'open', jobId: 'job-1' } as any,
+      { occurrenceDate: '2026-11-23', startsAt: '2026-11-25T12:00:00Z', endsAt: '2026-11-25T14:00:00Z', status: 'scheduled' } as any,
+    ], range);
+    expect(planned.map((o) => o.occurrenceDate)).toEqual(['2026-11-02', '2026-11-09', '2026-11-16']);
+    expect(planned[0]).toMatchObject({ rescheduled: true, jobId: 'job-1' });
+    expect(planned[0].startsAt.toISOString()).toBe('2026-11-03T18:00:00.000Z');
+  });
+});
+
+describe('firstRefusalDeadline', () => {
+  const now = new Date('2026-11-01T12:00:00Z');
+
+  it('gives the preferred doer the configured hours', () => {
+    expect(firstRefusalDeadline(now, new Date('2026-11-08T12:00:00Z'), 24).toISOString()).toBe('2026-11-02T12:00:00.000Z');
+  });
+
+  it('leaves time to publish the job openly before it starts', () => {
+    expect(firstRefusalDeadline(now, new Date('2026-11-02T06:00:00Z'), 24).toISOString()).toBe('2026-11-01T18:00:00.000Z');
+    expect(firstRefusalDeadline(now, new Date('2026-11-01T20:00:00Z'), 24)).toEqual(now);
+  });
+
+  it('validates the configured hours', () => {
+    expect(parseFirstRefusalHours(undefined)).toBe(24);
+    expect(parseFirstRefusalHours('48')).toBe(48);
+    expect(() => parseFirstRefusalHours(0)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseFirstRefusalHours(73)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('occurrence actions', () => {
+  it('allows skipping until paid and rescheduling until contracted', () => {
+    expect(() => assertOccurrenceAction('contracted', 'skip')).not.toThrow();
+    expect(() => assertOccurrenceAction('open', 'reschedule')).not.toThrow();
+    expect(() => assertOccurrenceAction('contracted', 'reschedule')).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => assertOccurrenceAction('paid', 'skip')).toThrow(expect.objectContaining({ statusCode: 409 }));
+    expect(() => assertOccurrenceAction('skipped', 'skip')).toThrow(expect.objectContaining({ statusCode: 409 }));
+  });
+
+  it('only reschedules to a valid future time', () => {
+    const now = new Date('2026-11-01T12:00:00Z');
+    expect(parseReschedule('2026-11-05T15:00:00Z', now).toISOString()).toBe('2026-11-05T15:00:00.000Z');
+    expect(() => parseReschedule('2026-10-31T15:00:00Z', now)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseReschedule('mañana', now)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests de las reglas de búsquedas guardadas (server/services/savedSearchRules.ts):
+ * validación de filtros, matching de trabajos publicados y transiciones que
+ * cuentan como publicación.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  isPublicationTransition,
+  jobMatchesFilters,
+  normalizeSearchFilters,
+  parseSavedSearchInput,
+  type MatchableJob,
+} from '../../server/services/savedSearchRules.js';
+
+const job = (overrides: Partial<MatchableJob> = {}): MatchableJob => ({
+  title: 'Reparación de cañería en baño',
+  summary: 'Pérdida de agua bajo la pileta',
+  description: 'Se necesita plomero con herramientas propias',
+  category: 'plomeria',
+  tags: ['urgente', 'baño'],
+  price: 25000,
+  location: 'Palermo, C.A.B.A.',
+  latitude: -34.5889,
+  longitude: -58.4306,
+  remoteOk: false,
+  urgency: 'high',
+  experienceLevel: 'intermediate',
+  materialsProvided: false,
+  startDate: new Date('2026-09-01T10:00:00Z'),
+  ...overrides,
+});
+
+describe('isPublicationTransition', () => {
+  it('cuenta la publicación desde borrador, pago o aprobación pendiente', () => {
+    expect(isPublicationTransition(undefined, 'open')).toBe(true);
+    expect(isPublicationTransition('draft', 'open')).toBe(true);
+    expect(isPublicationTransition('pending_payment', 'open')).toBe(true);
+    expect(isPublicationTransition('pending_approval', 'open')).toBe(true);
+  });
+
+  it('cuenta reabrir un trabajo que estaba en curso', () => {
+    expect(isPublicationTransition('in_progress', 'open')).toBe(true);
+  });
+
+  it('no cuenta reanudar ni otros estados', () => {
+    expect(isPublicationTransition('paused', 'open')).toBe(false);
+    expect(isPublicationTransition('suspended', 'open')).toBe(false);
+    expect(isPublicationTransition('draft', 'pending_approval')).toBe(false);
+  });
+});
+
+describe('normalizeSearchFilters', () => {
+  it('descarta claves desconocidas, vacías y de paginación', () => {
+    expect(normalizeSearchFilters({
+      query: '  plomero ',
+      category: '',
+      tags: 'urgente, baño,',
+      minPrice: '1000',
+      sortBy: 'price',
+      page: 2,
+      hack: true,
+    })).toEqual({ query: 'plomero', tags: ['urgente', 'baño'], minPrice: 1000 });
+  });
+
+  it('exige al menos un filtro', () => {
+    expect(() => normalizeSearchFilters({ sortBy: 'price' })).toThrow('al menos un filtro');
+    expect(() => normalizeSearchFilters(null)).toThrow('obligatorios');
+  });
+
+  it('valida rangos, enums y coordenadas del radio', () => {
+    expect(() => normalizeSearchFilters({ minPrice: 5000, maxPrice: 1000 })).toThrow('precio mínimo');
+    expect(() => normalizeSearchFilters({ urgency: 'ya' })).toThrow('urgency inválido');
+    expect(() => normalizeSearchFilters({ maxDistance: 10 })).toThrow('coordenadas');
+    expect(normalizeSearchFilters({ maxDistance: '10', latitude: '-34.6', longitude: '-58.4' }))
+      .toEqual({ maxDistance: 10, latitude: -34.6, longitude: -58.4 });
+  });
+});
+
+describe('parseSavedSearchInput', () => {
+  it('requiere nombre y filtros al crear', () => {
+    expect(() => parseSavedSearchInput({ filters: { query: 'x' } })).toThrow('nombre');
+    expect(parseSavedSearchInput({ name: 'Plomería', filters: { category: 'plomeria' }, frequency: 'daily' }))
+      .toEqual({ name: 'Plomería', filters: { category: 'plomeria' }, frequency: 'daily' });
+  });
+
+  it('en modo parcial solo valida lo enviado', () => {
+    expect(parseSavedSearchInput({ muted: true }, { partial: true })).toEqual({ muted: true });
+    expect(() => parseSavedSearchInput({ frequency: 'weekly' }, { partial: true })).toThrow('Frecuencia inválida');
+  });
+});
+
+describe('jobMatchesFilters', () => {
+  it('compara el texto por prefijos, sin tildes, y exige todos los términos', () => {
+    expect(jobMatchesFilters({ query: 'canería perdida' }, job())).toBe(true);
+    expect(jobMatchesFilters({ query: 'plom' }, job())).toBe(true);
+    expect(jobMatchesFilters({ query: 'plomero electricista' }, job())).toBe(false);
+  });
+
+  it('filtra por categoría, tags y rango de precio inclusivo', () => {
+    expect(jobMatchesFilters({ category: 'plomeria', tags: ['urgente', 'otro'] }, job())).toBe(true);
+    expect(jobMatchesFilters({ category: 'electricidad' }, job())).toBe(false);
+    expect(jobMatchesFilters({ tags: ['jardin'] }, job())).toBe(false);
+    expect(jobMatchesFilters({ minPrice: 25000, maxPrice: 25000 }, job({ price: '25000.00' }))).toBe(true);
+    expect(jobMatchesFilters({ maxPrice: 20000 }, job())).toBe(false);
+  });
+
+  it('normaliza la ubicación como la búsqueda', () => {
+    expect(jobMatchesFilters({ location: 'palermo caba' }, job())).toBe(true);
+    expect(jobMatchesFilters({ location: 'Belgrano' }, job())).toBe(false);
+  });
+
+  it('aplica el radio solo a trabajos con coordenadas', () => {
+    const nearby = { latitude: -34.6037, longitude: -58.3816, maxDistance: 10 };
+    expect(jobMatchesFilters(nearby, job())).toBe(true);
+    expect(jobMatchesFilters({ ...nearby, maxDistance: 2 }, job())).toBe(false);
+    expect(jobMatchesFilters(nearby, job({ latitude: null, longitude: null }))).toBe(false);
+  });
+
+  it('respeta urgencia, experiencia, booleanos y fecha de inicio', () => {
+    expect(jobMatchesFilters({ urgency: 'high', experienceLevel: 'intermediate', remoteOk: false }, job())).toBe(true);
+    expect(jobMatchesFilters({ materialsProvided: true }, job())).toBe(false);
+    expect(jobMatchesFilters({ startDateFrom: '2026-08-01T00:00:00Z', startDateTo: '2026-09-30T00:00:00Z' }, job())).toBe(true);
+    expect(jobMatchesFilters({ startDateFrom: '2026-09-02T00:00:00Z' }, job())).toBe(false);
+  });
+});
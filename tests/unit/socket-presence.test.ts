@@ -0,0 +1,99 @@
+/**
+ * Tests de la presencia por dispositivo (server/services/presenceRules.ts) y
+ * del formato de los mensajes del adapter de Postgres
+ * (server/services/socketPostgresAdapter.ts): tipo de dispositivo, usuarios
+ * en línea con varios dispositivos o filas vencidas, consulta de presencia y
+ * NOTIFY con attachments para mensajes grandes.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { MessageType, type ClusterMessage } from 'socket.io-adapter';
+import {
+  MAX_PRESENCE_QUERY,
+  STALE_AFTER_MS,
+  detectDevice,
+  parsePresenceQuery,
+  summarizePresence,
+} from '../../server/services/presenceRules.js';
+import { buildEnvelope, decodeMessage, encodeMessage, parseEnvelope } from '../../server/services/socketPostgresAdapter.js';
+
+const ANA = '11111111-1111-4111-8111-111111111111';
+const LUIS = '22222222-2222-4222-8222-222222222222';
+const now = new Date('2026-11-02T12:00:00Z');
+const ago = (ms: number) => new Date(now.getTime() - ms);
+
+describe('detectDevice', () => {
+  it('prefers the device declared by the client', () => {
+    expect(detectDevice('mobile', 'Mozilla/5.0 (Windows NT 10.0)')).toBe('mobile');
+    expect(detectDevice('tablet', 'Mozilla/5.0 (Windows NT 10.0)')).toBe('web');
+  });
+
+  it('falls back to the user agent', () => {
+    expect(detectDevice(undefined, 'okhttp/4.9.2')).toBe('mobile');
+    expect(detectDevice(undefined, 'DoApp/1 CFNetwork/1410 Darwin/22.6.0')).toBe('mobile');
+    expect(detectDevice(undefined, null)).toBe('unknown');
+  });
+});
+
+describe('summarizePresence', () => {
+  const rows = [
+    { userId: ANA, device: 'web' as const, lastSeenAt: ago(10_000) },
+    { userId: ANA, device: 'mobile' as const, lastSeenAt: ago(2_000) },
+    { userId: LUIS, device: 'web' as const, lastSeenAt: ago(STALE_AFTER_MS + 1) },
+  ];
+
+  it('keeps a user online while any device is fresh', () => {
+    const [ana] = summarizePresence([ANA], rows, new Map(), now);
+    expect(ana).toEqual({
+      userId: ANA,
+      isOnline: true,
+      devices: [{ device: 'mobile', lastSeenAt: ago(2_000) }, { device: 'web', lastSeenAt: ago(10_000) }],
+      lastSeenAt: ago(2_000),
+    });
+  });
+
+  it('ignores stale rows and falls back to the stored last activity', () => {
+    const lastActivity = new Date('2026-11-01T20:00:00Z');
+    expect(summarizePresence([LUIS], rows, new Map([[LUIS, lastActivity]]), now)).toEqual([
+      { userId: LUIS, isOnline: false, devices: [], lastSeenAt: lastActivity },
+    ]);
+    expect(summarizePresence([LUIS], [], new Map(), now)[0].lastSeenAt).toBeNull();
+  });
+});
+
+describe('parsePresenceQuery', () => {
+  it('keeps unique UUIDs up to the limit', () => {
+    expect(parsePresenceQuery([ANA, ANA, 'nope', 42, LUIS])).toEqual([ANA, LUIS]);
+    expect(parsePresenceQuery(ANA)).toEqual([ANA]);
+    const many = Array.from({ length: MAX_PRESENCE_QUERY + 5 }, (_, i) => `00000000-0000-4000-8000-${String(i).padStart(12, '0')}`);
+    expect(parsePresenceQuery(many)).toHaveLength(MAX_PRESENCE_QUERY);
+  });
+});
+
+describe('postgres adapter envelopes', () => {
+  const broadcast = (packet: unknown): ClusterMessage => ({
+    uid: 'server-a',
+    nsp: '/',
+    type: MessageType.BROADCAST,
+    data: { opts: { rooms: [`user:${ANA}`], except: [], flags: {} }, packet },
+  });
+
+  it('round-trips messages, responses and binary packets', () => {
+    const message = broadcast({ type: 2, data: ['contract:updated', { contractId: 'c1' }] });
+    expect(parseEnvelope(buildEnvelope(message)!)).toEqual({ message });
+
+    const response = buildEnvelope(message, 'server-b')!;
+    expect(parseEnvelope(response).to).toBe('server-b');
+
+    const binary = broadcast({ type: 5, data: ['file', Buffer.from('hola')] });
+    const decoded = decodeMessage(encodeMessage(binary)) as any;
+    expect(Buffer.isBuffer(decoded.data.packet.data[1])).toBe(true);
+    expect(decoded.data.packet.data[1].toString()).toBe('hola');
+  });
+
+  it('leaves messages over the NOTIFY limit to the attachments table', () => {
+    expect(buildEnvelope(broadcast({ type: 2, data: ['message:new', 'x'.repeat(8000)] }))).toBeNull();
+    expect(parseEnvelope(JSON.stringify({ to: null, attachmentId: '42' }))).toEqual({ attachmentId: '42' });
+  });
+});
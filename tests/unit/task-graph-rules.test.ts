@@ -0,0 +1,123 @@
+/**
+ * Tests del grafo de tareas (server/services/taskGraphRules.ts):
+ * prerrequisitos explícitos y regla secuencial anterior, detección de
+ * ciclos, validación de la planificación y camino crítico con la fecha de
+ * finalización proyectada.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  assertAcyclic,
+  blockingPrerequisites,
+  findCycle,
+  parseTaskPlanning,
+  prerequisitesOf,
+  scheduleTasks,
+  topologicalOrder,
+  type TaskNode,
+} from '../../server/services/taskGraphRules.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date('2026-09-10T12:00:00Z');
+
+const task = (id: string, orderIndex: number, patch: Partial<TaskNode> = {}): TaskNode => ({
+  id,
+  title: id.toUpperCase(),
+  orderIndex,
+  status: 'pending',
+  requiresPreviousCompletion: true,
+  prerequisiteTaskIds: null,
+  ...patch,
+});
+
+describe('prerequisitesOf', () => {
+  it('falls back to the previous task and dependsOnTaskId while no graph was defined', () => {
+    const tasks = [task('a', 0), task('b', 1), task('c', 2, { dependsOnTaskId: 'a' }), task('d', 3, { requiresPreviousCompletion: false })];
+    expect(prerequisitesOf(tasks[0], tasks)).toEqual([]);
+    expect(prerequisitesOf(tasks[1], tasks)).toEqual(['a']);
+    expect(prerequisitesOf(tasks[2], tasks)).toEqual(['b', 'a']);
+    expect(prerequisitesOf(tasks[3], tasks)).toEqual([]);
+  });
+
+  it('uses explicit prerequisites, including an explicit empty list', () => {
+    const tasks = [task('a', 0), task('b', 1, { prerequisiteTaskIds: [] }), task('c', 2, { prerequisiteTaskIds: ['a', 'gone', 'c'] })];
+    expect(prerequisitesOf(tasks[1], tasks)).toEqual([]);
+    expect(prerequisitesOf(tasks[2], tasks)).toEqual(['a']);
+  });
+
+  it('reports only the incomplete prerequisites as blocking', () => {
+    const tasks = [task('a', 0, { status: 'completed' }), task('b', 1), task('c', 2, { prerequisiteTaskIds: ['a', 'b'] })];
+    expect(blockingPrerequisites(tasks[2], tasks).map((t) => t.id)).toEqual(['b']);
+    expect(blockingPrerequisites(tasks[1], tasks)).toEqual([]);
+  });
+});
+
+describe('cycle detection', () => {
+  it('finds cycles through explicit and sequential edges', () => {
+    const acyclic = [task('a', 0), task('b', 1), task('c', 2, { prerequisiteTaskIds: ['a'] })];
+    expect(findCycle(acyclic)).toBeNull();
+
+    // b depends on a by order, a explicitly on b
+    const cyclic = [task('a', 0, { prerequisiteTaskIds: ['b'] }), task('b', 1)];
+    expect(findCycle(cyclic)).toEqual(['a', 'b', 'a']);
+    expect(() => assertAcyclic(cyclic)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => assertAcyclic(cyclic)).toThrow('"A" → "B" → "A"');
+  });
+});
+
+describe('parseTaskPlanning', () => {
+  const ids = ['a', 'b', 'c'];
+
+  it('keeps only the fields present in the body', () => {
+    expect(parseTaskPlanning({}, 'a', ids)).toEqual({});
+    expect(parseTaskPlanning({ prerequisiteTaskIds: ['b', 'b', 'c'], estimatedDays: '2.5' }, 'a', ids)).toEqual({ prerequisiteTaskIds: ['b', 'c'], estimatedDays: 2.5 });
+    expect(parseTaskPlanning({ prerequisiteTaskIds: null, estimatedDays: null }, 'a', ids)).toEqual({ prerequisiteTaskIds: null, estimatedDays: null });
+  });
+
+  it('rejects self dependencies, foreign tasks and invalid estimates with a 400', () => {
+    expect(() => parseTaskPlanning({ prerequisiteTaskIds: ['a'] }, 'a', ids)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseTaskPlanning({ prerequisiteTaskIds: ['z'] }, 'a', ids)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseTaskPlanning({ prerequisiteTaskIds: 'b' }, 'a', ids)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseTaskPlanning({ estimatedDays: 0 }, 'a', ids)).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseTaskPlanning({ estimatedDays: 400 }, 'a', ids)).toThrow(expect.objectContaining({ statusCode: 400 }));
+  });
+});
+
+describe('scheduleTasks', () => {
+  // a (2d) → b (3d) → d (1d) ; a → c (1d) → d
+  const graph = [
+    task('a', 0, { estimatedDays: 2, prerequisiteTaskIds: [] }),
+    task('b', 1, { estimatedDays: '3', prerequisiteTaskIds: ['a'] }),
+    task('c', 2, { estimatedDays: 1, prerequisiteTaskIds: ['a'] }),
+    task('d', 3, { prerequisiteTaskIds: ['b', 'c'] }),
+  ];
+
+  it('orders prerequisites first', () => {
+    expect(topologicalOrder(graph).map((t) => t.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('computes the critical path, slack and projected completion', () => {
+    const schedule = scheduleTasks(graph, { startDate: now, now });
+    expect(schedule.criticalPath).toEqual(['a', 'b', 'd']);
+    expect(schedule.tasks.c.slackDays).toBe(2);
+    expect(schedule.tasks.c.isCritical).toBe(false);
+    expect(schedule.tasks.d.plannedStart.getTime()).toBe(now.getTime() + 5 * DAY);
+    expect(schedule.projectedCompletion?.getTime()).toBe(now.getTime() + 6 * DAY);
+  });
+
+  it('keeps completed work at its real dates and never plans pending work in the past', () => {
+    const started = new Date(now.getTime() - 4 * DAY);
+    const progressed = graph.map((t) => t.id === 'a'
+      ? { ...t, status: 'completed' as const, startedAt: started, completedAt: new Date(now.getTime() - 3 * DAY) }
+      : t);
+    const schedule = scheduleTasks(progressed, { startDate: started, now });
+    expect(schedule.tasks.a.isCritical).toBe(false);
+    expect(schedule.tasks.b.plannedStart.getTime()).toBe(now.getTime());
+    expect(schedule.projectedCompletion?.getTime()).toBe(now.getTime() + 4 * DAY);
+  });
+
+  it('returns an empty schedule without tasks', () => {
+    expect(scheduleTasks([], { now })).toEqual({ tasks: {}, criticalPath: [], projectedCompletion: null });
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Tests del chat de equipo de trabajos con varios trabajadores
+ * (server/services/teamChatRules.ts): miembros y altas/bajas, no leídos por
+ * miembro, menciones, "Visto por X de Y", mensajes fijados y anuncios.
+ * No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  MAX_ANNOUNCEMENT_LENGTH,
+  MAX_PINNED,
+  bumpUnread,
+  diffMembers,
+  needsTeamChat,
+  parseAnnouncement,
+  pinMessage,
+  resolveMentions,
+  seenSummary,
+  teamMembers,
+  unpinMessage,
+  withoutMembers,
+} from '../../server/services/teamChatRules.js';
+
+const CLIENT = 'client';
+const ANA = 'ana';
+const LUIS = 'luis';
+const SOFIA = 'sofia';
+
+describe('team membership', () => {
+  it('needs a team chat only for multi-worker jobs', () => {
+    expect(needsTeamChat({ maxWorkers: 3, selectedWorkers: [ANA] })).toBe(true);
+    expect(needsTeamChat({ maxWorkers: 1, selectedWorkers: [ANA, LUIS] })).toBe(true);
+    expect(needsTeamChat({ maxWorkers: 1, selectedWorkers: [ANA] })).toBe(false);
+    expect(needsTeamChat({ selectedWorkers: null })).toBe(false);
+  });
+
+  it('puts the client first and drops repeated workers', () => {
+    expect(teamMembers(CLIENT, [ANA, LUIS, ANA])).toEqual([CLIENT, ANA, LUIS]);
+    expect(teamMembers(CLIENT, undefined)).toEqual([CLIENT]);
+  });
+
+  it('diffs who joins and who leaves', () => {
+    expect(diffMembers([CLIENT, ANA, LUIS], [CLIENT, LUIS, SOFIA])).toEqual({ joined: [SOFIA], left: [ANA] });
+    expect(diffMembers([CLIENT, ANA], [CLIENT, ANA])).toEqual({ joined: [], left: [] });
+  });
+
+  it('drops per-member state of those who left', () => {
+    expect(withoutMembers({ [CLIENT]: 1, [ANA]: 4 }, [ANA])).toEqual({ [CLIENT]: 1 });
+    expect(withoutMembers(null, [ANA])).toEqual({});
+  });
+});
+
+describe('bumpUnread', () => {
+  it('counts one more for everyone but the sender', () => {
+    expect(bumpUnread({ [ANA]: 2 }, [CLIENT, ANA, LUIS], CLIENT)).toEqual({ [ANA]: 3, [LUIS]: 1 });
+  });
+});
+
+describe('resolveMentions', () => {
+  const members = [
+    { id: CLIENT, name: 'Marta Gómez' },
+    { id: ANA, name: 'Ana Pérez' },
+    { id: LUIS, name: 'Luis Ángel Díaz' },
+    { id: SOFIA, name: 'Sofía Ruiz' },
+  ];
+
+  it('matches full and first names, case-insensitively', () => {
+    expect(resolveMentions('@ana y @luis ángel díaz, mañana 8hs', members, CLIENT)).toEqual([ANA, LUIS]);
+    expect(resolveMentions('Hola @Sofía!', members, CLIENT)).toEqual([SOFIA]);
+  });
+
+  it('does not match partial names or emails', () => {
+    expect(resolveMentions('@anabel y ana@mail.com', members, CLIENT)).toEqual([]);
+  });
+
+  it('mentions everyone with @todos, never the sender', () => {
+    expect(resolveMentions('@todos revisen la tarea', members, ANA)).toEqual([CLIENT, LUIS, SOFIA]);
+    expect(resolveMentions('@Ana me anoto', members, ANA)).toEqual([]);
+  });
+
+  it('keeps only explicit ids that are members', () => {
+    expect(resolveMentions('mirá esto', members, CLIENT, [LUIS, 'intruso', CLIENT])).toEqual([LUIS]);
+  });
+});
+
+describe('seenSummary', () => {
+  const message = { senderId: CLIENT, createdAt: '2026-11-02T12:00:00.000Z' };
+
+  it('counts members who read after the message was sent', () => {
+    const lastReadAt = {
+      [ANA]: '2026-11-02T12:05:00.000Z',
+      [LUIS]: '2026-11-02T11:59:00.000Z',
+      [CLIENT]: '2026-11-02T12:10:00.000Z',
+    };
+    expect(seenSummary(message, [CLIENT, ANA, LUIS, SOFIA], lastReadAt)).toEqual({ seenBy: [ANA], total: 3 });
+  });
+
+  it('is zero of N with no reads', () => {
+    expect(seenSummary(message, [CLIENT, ANA, LUIS], undefined)).toEqual({ seenBy: [], total: 2 });
+  });
+});
+
+describe('pinned messages', () => {
+  it('keeps the newest pin first and caps the list', () => {
+    const pinned = Array.from({ length: MAX_PINNED }, (_, i) => `m${i}`);
+    const next = pinMessage(pinned, 'nuevo');
+    expect(next).toHaveLength(MAX_PINNED);
+    expect(next[0]).toBe('nuevo');
+    expect(next).not.toContain(`m${MAX_PINNED - 1}`);
+    expect(pinMessage(['a', 'b'], 'b')).toEqual(['b', 'a']);
+  });
+
+  it('unpins a message', () => {
+    expect(unpinMessage(['a', 'b'], 'a')).toEqual(['b']);
+    expect(unpinMessage(null, 'a')).toEqual([]);
+  });
+});
+
+describe('parseAnnouncement', () => {
+  it('trims the text and keeps the task id', () => {
+    expect(parseAnnouncement({ message: '  Mañana arrancamos  ', taskId: 't1' })).toEqual({ message: 'Mañana arrancamos', taskId: 't1' });
+    expect(parseAnnouncement({ message: 'Hola', taskId: 42 })).toEqual({ message: 'Hola', taskId: null });
+  });
+
+  it('rejects empty or too long announcements', () => {
+    expect(() => parseAnnouncement({ message: '   ' })).toThrow(expect.objectContaining({ statusCode: 400 }));
+    expect(() => parseAnnouncement({ message: 'x'.repeat(MAX_ANNOUNCEMENT_LENGTH + 1) })).toThrow(
+      expect.objectContaining({ statusCode: 400 })
+    );
+  });
+});
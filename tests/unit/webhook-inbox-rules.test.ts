@@ -0,0 +1,67 @@
+/**
+ * Tests de las reglas del inbox de webhooks (server/services/webhookInboxRules.ts):
+ * ids de evento por proveedor y backoff de reintentos. No toca la base de datos.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  externalEventId,
+  retryDelayMs,
+  statusAfterFailure,
+  webhookEventType,
+  MAX_ATTEMPTS,
+  MAX_RETRY_DELAY_MS,
+} from '../../server/services/webhookInboxRules.js';
+
+describe('externalEventId', () => {
+  it('uses the MercadoPago notification id when present', () => {
+    const payload = { id: 12345678, action: 'payment.updated', data: { id: '999' } };
+    expect(externalEventId('mercadopago', payload)).toBe('12345678');
+  });
+
+  it('falls back to action + resource + request id for legacy MercadoPago notifications', () => {
+    const payload = { type: 'payment', data: { id: '999' } };
+    expect(externalEventId('mercadopago', payload, { 'x-request-id': 'req-1' })).toBe('payment:999:req-1');
+    expect(externalEventId('mercadopago', payload)).toBe('payment:999');
+    expect(externalEventId('mercadopago', {})).toBeNull();
+  });
+
+  it('identifies AstroPay events by deposit and status', () => {
+    expect(externalEventId('astropay', { deposit_id: 'D1', status: 'approved' })).toBe('D1:APPROVED');
+    expect(externalEventId('astropay', { status: 'approved' })).toBeNull();
+  });
+
+  it('uses the PayPal event id', () => {
+    expect(externalEventId('paypal', { id: 'WH-1', event_type: 'PAYMENT.CAPTURE.COMPLETED' })).toBe('WH-1');
+  });
+});
+
+describe('webhookEventType', () => {
+  it('describes the event for each provider', () => {
+    expect(webhookEventType('mercadopago', { type: 'payment', action: 'payment.created' })).toBe('payment.created');
+    expect(webhookEventType('astropay', { status: 'PAID' })).toBe('deposit.paid');
+    expect(webhookEventType('paypal', {})).toBe('unknown');
+  });
+});
+
+describe('retry backoff', () => {
+  const noJitter = () => 0.5;
+
+  it('doubles the delay on every attempt', () => {
+    expect(retryDelayMs(1, noJitter)).toBe(60_000);
+    expect(retryDelayMs(2, noJitter)).toBe(120_000);
+    expect(retryDelayMs(4, noJitter)).toBe(480_000);
+  });
+
+  it('caps the delay and keeps jitter within ±20%', () => {
+    expect(retryDelayMs(30, noJitter)).toBe(MAX_RETRY_DELAY_MS);
+    expect(retryDelayMs(1, () => 0)).toBe(48_000);
+    expect(retryDelayMs(1, () => 0.9999)).toBeLessThanOrEqual(72_000);
+  });
+
+  it('gives up after the maximum number of attempts', () => {
+    expect(statusAfterFailure(1)).toBe('failed');
+    expect(statusAfterFailure(MAX_ATTEMPTS - 1)).toBe('failed');
+    expect(statusAfterFailure(MAX_ATTEMPTS)).toBe('dead');
+  });
+});